@@ -6,8 +6,11 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { TenantThemeProvider } from "@/contexts/TenantThemeContext";
 import { NotificationProvider } from "@/contexts/NotificationContext";
+import { RealtimeProvider } from "@/contexts/RealtimeContext";
+import { OfflineSyncProvider } from "@/contexts/OfflineSyncContext";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { SchemaMismatchOverlay } from "@/components/dev/SchemaMismatchOverlay";
 import Index from "./pages/app/Index";
 import Jobs from "./pages/app/Jobs";
 import JobDetail from "./pages/app/JobDetail";
@@ -22,6 +25,8 @@ import Clients from "./pages/app/Clients";
 import Sites from "./pages/app/Sites";
 import Drivers from "./pages/app/admin/Drivers";
 import Vehicles from "./pages/app/admin/Vehicles";
+import Warehouses from "./pages/app/admin/Warehouses";
+import ErpIntegration from "./pages/app/admin/ErpIntegration";
 import BookingQueue from "./pages/app/admin/BookingQueue";
 import Assignment from "./pages/app/admin/Assignment";
 import DeviceAllocation from "./pages/app/admin/DeviceAllocation";
@@ -46,6 +51,10 @@ import JMLNewStarter from "./pages/app/JMLNewStarter";
 import JMLLeaver from "./pages/app/JMLLeaver";
 import JMLBreakfix from "./pages/app/JMLBreakfix";
 import JMLMover from "./pages/app/JMLMover";
+import JMLBulkImport from "./pages/app/JMLBulkImport";
+import JMLSchedule from "./pages/app/JMLSchedule";
+import Employees from "./pages/app/Employees";
+import EmployeeDetail from "./pages/app/EmployeeDetail";
 import Inventory from "./pages/app/Inventory";
 import JMLBookings from "./pages/app/admin/JMLBookings";
 
@@ -56,10 +65,13 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      {import.meta.env.DEV && <SchemaMismatchOverlay />}
       <BrowserRouter>
         <AuthProvider>
           <TenantThemeProvider>
+            <RealtimeProvider>
             <NotificationProvider>
+              <OfflineSyncProvider>
               <Routes>
               {/* Public Routes */}
               <Route path="/login" element={<Login />} />
@@ -104,7 +116,7 @@ const App = () => (
                 <Route
                   path="/booking"
                   element={
-                    <ProtectedRoute allowedRoles={['client', 'admin', 'reseller']}>
+                    <ProtectedRoute requiredPermission="bookings.create">
                       <Booking />
                     </ProtectedRoute>
                   }
@@ -112,7 +124,7 @@ const App = () => (
                 <Route
                   path="/bookings/jml/new-starter"
                   element={
-                    <ProtectedRoute allowedRoles={['client', 'admin', 'reseller']}>
+                    <ProtectedRoute requiredPermission="bookings.create">
                       <JMLNewStarter />
                     </ProtectedRoute>
                   }
@@ -120,7 +132,7 @@ const App = () => (
                 <Route
                   path="/bookings/jml/leaver"
                   element={
-                    <ProtectedRoute allowedRoles={['client', 'admin', 'reseller']}>
+                    <ProtectedRoute requiredPermission="bookings.create">
                       <JMLLeaver />
                     </ProtectedRoute>
                   }
@@ -128,7 +140,7 @@ const App = () => (
                 <Route
                   path="/bookings/jml/breakfix"
                   element={
-                    <ProtectedRoute allowedRoles={['client', 'admin', 'reseller']}>
+                    <ProtectedRoute requiredPermission="bookings.create">
                       <JMLBreakfix />
                     </ProtectedRoute>
                   }
@@ -136,15 +148,47 @@ const App = () => (
                 <Route
                   path="/bookings/jml/mover"
                   element={
-                    <ProtectedRoute allowedRoles={['client', 'admin', 'reseller']}>
+                    <ProtectedRoute requiredPermission="bookings.create">
                       <JMLMover />
                     </ProtectedRoute>
                   }
                 />
+                <Route
+                  path="/bookings/jml/import"
+                  element={
+                    <ProtectedRoute requiredPermission="bookings.create">
+                      <JMLBulkImport />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/jml/schedule"
+                  element={
+                    <ProtectedRoute requiredPermission="bookings.view">
+                      <JMLSchedule />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/employees"
+                  element={
+                    <ProtectedRoute requiredPermission="bookings.view">
+                      <Employees />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/employees/:id"
+                  element={
+                    <ProtectedRoute requiredPermission="bookings.view">
+                      <EmployeeDetail />
+                    </ProtectedRoute>
+                  }
+                />
                 <Route
                   path="/co2e"
                   element={
-                    <ProtectedRoute allowedRoles={['admin', 'client', 'reseller']}>
+                    <ProtectedRoute requiredPermission="co2e.view">
                       <CO2eDashboard />
                     </ProtectedRoute>
                   }
@@ -152,7 +196,7 @@ const App = () => (
                 <Route
                   path="/documents"
                   element={
-                    <ProtectedRoute allowedRoles={['admin', 'client', 'reseller']}>
+                    <ProtectedRoute requiredPermission="documents.view">
                       <Documents />
                     </ProtectedRoute>
                   }
@@ -160,7 +204,7 @@ const App = () => (
                 <Route
                   path="/bookings"
                   element={
-                    <ProtectedRoute allowedRoles={['admin', 'client', 'reseller']}>
+                    <ProtectedRoute requiredPermission="bookings.view">
                       <BookingsHistory />
                     </ProtectedRoute>
                   }
@@ -168,7 +212,7 @@ const App = () => (
                 <Route
                   path="/bookings/:id"
                   element={
-                    <ProtectedRoute allowedRoles={['admin', 'client', 'reseller']}>
+                    <ProtectedRoute requiredPermission="bookings.view">
                       <BookingDetail />
                     </ProtectedRoute>
                   }
@@ -176,7 +220,7 @@ const App = () => (
                 <Route
                   path="/users"
                   element={
-                    <ProtectedRoute allowedRoles={['admin']}>
+                    <ProtectedRoute requiredPermission="users.view">
                       <Users />
                     </ProtectedRoute>
                   }
@@ -184,7 +228,7 @@ const App = () => (
                 <Route
                   path="/clients"
                   element={
-                    <ProtectedRoute allowedRoles={['admin', 'reseller']}>
+                    <ProtectedRoute requiredPermission="clients.view">
                       <Clients />
                     </ProtectedRoute>
                   }
@@ -192,7 +236,7 @@ const App = () => (
                 <Route
                   path="/admin/drivers"
                   element={
-                    <ProtectedRoute allowedRoles={['admin']}>
+                    <ProtectedRoute requiredPermission="fleet.manage">
                       <Drivers />
                     </ProtectedRoute>
                   }
@@ -200,15 +244,31 @@ const App = () => (
                 <Route
                   path="/admin/vehicles"
                   element={
-                    <ProtectedRoute allowedRoles={['admin']}>
+                    <ProtectedRoute requiredPermission="fleet.manage">
                       <Vehicles />
                     </ProtectedRoute>
                   }
                 />
+                <Route
+                  path="/admin/warehouses"
+                  element={
+                    <ProtectedRoute requiredPermission="warehouses.manage">
+                      <Warehouses />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/admin/erp"
+                  element={
+                    <ProtectedRoute requiredPermission="settings.integrations" requiredScope="all">
+                      <ErpIntegration />
+                    </ProtectedRoute>
+                  }
+                />
                 <Route
                   path="/admin/bookings"
                   element={
-                    <ProtectedRoute allowedRoles={['admin']}>
+                    <ProtectedRoute requiredPermission="bookings.manage">
                       <BookingQueue />
                     </ProtectedRoute>
                   }
@@ -216,7 +276,7 @@ const App = () => (
                 <Route
                   path="/admin/jml-bookings"
                   element={
-                    <ProtectedRoute allowedRoles={['admin']}>
+                    <ProtectedRoute requiredPermission="bookings.manage">
                       <JMLBookings />
                     </ProtectedRoute>
                   }
@@ -224,7 +284,7 @@ const App = () => (
                 <Route
                   path="/admin/assign"
                   element={
-                    <ProtectedRoute allowedRoles={['admin']}>
+                    <ProtectedRoute requiredPermission="bookings.manage">
                       <Assignment />
                     </ProtectedRoute>
                   }
@@ -232,7 +292,7 @@ const App = () => (
                 <Route
                   path="/admin/device-allocation"
                   element={
-                    <ProtectedRoute allowedRoles={['admin']}>
+                    <ProtectedRoute requiredPermission="bookings.manage">
                       <DeviceAllocation />
                     </ProtectedRoute>
                   }
@@ -240,7 +300,7 @@ const App = () => (
                 <Route
                   path="/admin/sanitisation/:id"
                   element={
-                    <ProtectedRoute allowedRoles={['admin']}>
+                    <ProtectedRoute requiredPermission="bookings.manage">
                       <Sanitisation />
                     </ProtectedRoute>
                   }
@@ -248,7 +308,7 @@ const App = () => (
                 <Route
                   path="/admin/grading/:id"
                   element={
-                    <ProtectedRoute allowedRoles={['admin']}>
+                    <ProtectedRoute requiredPermission="bookings.manage">
                       <Grading />
                     </ProtectedRoute>
                   }
@@ -256,7 +316,7 @@ const App = () => (
                 <Route
                   path="/admin/booking-inventory/:id"
                   element={
-                    <ProtectedRoute allowedRoles={['admin']}>
+                    <ProtectedRoute requiredPermission="bookings.manage">
                       <BookingInventory />
                     </ProtectedRoute>
                   }
@@ -264,7 +324,7 @@ const App = () => (
                 <Route
                   path="/admin/booking-approval/:id"
                   element={
-                    <ProtectedRoute allowedRoles={['admin']}>
+                    <ProtectedRoute requiredPermission="bookings.manage">
                       <BookingApproval />
                     </ProtectedRoute>
                   }
@@ -272,7 +332,7 @@ const App = () => (
                 <Route
                   path="/admin/approval/:id"
                   element={
-                    <ProtectedRoute allowedRoles={['admin']}>
+                    <ProtectedRoute requiredPermission="bookings.manage">
                       <Approval />
                     </ProtectedRoute>
                   }
@@ -280,7 +340,7 @@ const App = () => (
                 <Route
                   path="/bookings/:id/timeline"
                   element={
-                    <ProtectedRoute allowedRoles={['admin', 'client', 'reseller']}>
+                    <ProtectedRoute requiredPermission="bookings.view">
                       <BookingTimeline />
                     </ProtectedRoute>
                   }
@@ -288,7 +348,7 @@ const App = () => (
                 <Route
                   path="/bookings/:id/certificates"
                   element={
-                    <ProtectedRoute allowedRoles={['admin', 'client', 'reseller']}>
+                    <ProtectedRoute requiredPermission="bookings.view">
                       <BookingCertificates />
                     </ProtectedRoute>
                   }
@@ -296,7 +356,7 @@ const App = () => (
                 <Route
                   path="/bookings/:id/grading"
                   element={
-                    <ProtectedRoute allowedRoles={['admin', 'client', 'reseller']}>
+                    <ProtectedRoute requiredPermission="bookings.view">
                       <BookingGradingReport />
                     </ProtectedRoute>
                   }
@@ -304,7 +364,7 @@ const App = () => (
                 <Route
                   path="/bookings/:id/summary"
                   element={
-                    <ProtectedRoute allowedRoles={['admin', 'client', 'reseller']}>
+                    <ProtectedRoute requiredPermission="bookings.view">
                       <BookingSummary />
                     </ProtectedRoute>
                   }
@@ -312,7 +372,7 @@ const App = () => (
                 <Route
                   path="/sites"
                   element={
-                    <ProtectedRoute allowedRoles={['admin', 'client']}>
+                    <ProtectedRoute requiredPermission="sites.view">
                       <Sites />
                     </ProtectedRoute>
                   }
@@ -320,7 +380,7 @@ const App = () => (
                 <Route
                   path="/inventory"
                   element={
-                    <ProtectedRoute allowedRoles={['admin', 'client']}>
+                    <ProtectedRoute requiredPermission="inventory.view">
                       <Inventory />
                     </ProtectedRoute>
                   }
@@ -330,7 +390,9 @@ const App = () => (
               </Route>
               <Route path="*" element={<NotFound />} />
             </Routes>
+              </OfflineSyncProvider>
             </NotificationProvider>
+            </RealtimeProvider>
           </TenantThemeProvider>
         </AuthProvider>
       </BrowserRouter>
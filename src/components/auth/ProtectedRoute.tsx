@@ -6,15 +6,18 @@ import { useDriver } from '@/hooks/useDrivers';
 import { useClientProfile } from '@/hooks/useClients';
 import { useOrganisationProfileComplete } from '@/hooks/useOrganisationProfile';
 import { Loader2 } from 'lucide-react';
+import type { Permission, PermissionScope } from '@/types/permissions';
 
 interface ProtectedRouteProps {
   children: ReactNode;
   allowedRoles?: string[];
+  requiredPermission?: Permission;
+  requiredScope?: PermissionScope; // Minimum reach of requiredPermission, defaults to 'own'
 }
 
 
-export function ProtectedRoute({ children, allowedRoles }: ProtectedRouteProps) {
-  const { isAuthenticated, isLoading, user, hasRole } = useAuth();
+export function ProtectedRoute({ children, allowedRoles, requiredPermission, requiredScope }: ProtectedRouteProps) {
+  const { isAuthenticated, isLoading, user, hasRole, hasPermission } = useAuth();
   const location = useLocation();
   const isDriver = user?.role === 'driver';
   const isClient = user?.role === 'client';
@@ -85,6 +88,10 @@ export function ProtectedRoute({ children, allowedRoles }: ProtectedRouteProps)
     return <Navigate to="/" replace />;
   }
 
+  if (requiredPermission && user && !hasPermission(requiredPermission, requiredScope)) {
+    return <Navigate to="/" replace />;
+  }
+
   return (
     <div className={shouldDisableContent ? '[&_aside]:pointer-events-auto [&_aside]:opacity-100 [&_[data-sidebar]]:pointer-events-auto [&_[data-sidebar]]:opacity-100 [&_[data-main-content]]:pointer-events-none [&_[data-main-content]]:opacity-60' : ''}>
       {children}
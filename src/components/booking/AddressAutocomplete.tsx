@@ -2,6 +2,8 @@ import { useState, useEffect, useRef } from "react";
 import { Search, Loader2, MapPin } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
+import { isAbortError } from "@/lib/abort";
+import { searchPlaces, type GeocodeResult } from "@/lib/geocoding";
 
 interface AddressAutocompleteProps {
   value: string;
@@ -21,23 +23,6 @@ interface AddressAutocompleteProps {
   id?: string;
 }
 
-interface GeocodeResult {
-  display_name: string;
-  lat: string;
-  lon: string;
-  address?: {
-    road?: string;
-    house_number?: string;
-    city?: string;
-    town?: string;
-    village?: string;
-    county?: string;
-    state?: string;
-    postcode?: string;
-    country?: string;
-  };
-}
-
 export function AddressAutocomplete({
   value,
   onChange,
@@ -52,6 +37,7 @@ export function AddressAutocomplete({
   const [isSearching, setIsSearching] = useState(false);
   const [isFocused, setIsFocused] = useState(false);
   const searchTimeoutRef = useRef<NodeJS.Timeout>();
+  const searchAbortRef = useRef<AbortController>();
   const suggestionsRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -77,6 +63,8 @@ export function AddressAutocomplete({
     if (searchTimeoutRef.current) {
       clearTimeout(searchTimeoutRef.current);
     }
+    // Drop a search still waiting for its turn - the query has changed
+    searchAbortRef.current?.abort();
 
     // Only search if input is focused
     if (!isFocused || value.length < 3) {
@@ -86,42 +74,43 @@ export function AddressAutocomplete({
     }
 
     searchTimeoutRef.current = setTimeout(async () => {
+      const controller = new AbortController();
+      searchAbortRef.current = controller;
       setIsSearching(true);
       try {
-        const response = await fetch(
-          `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(
-            value
-          )}&limit=5&addressdetails=1`
-        );
-        const data = await response.json();
-        setSuggestions(data);
-        if (data.length > 0) {
+        const results = await searchPlaces(value, { limit: 5, signal: controller.signal });
+        setSuggestions(results);
+        if (results.length > 0) {
           setShowSuggestions(true);
         }
       } catch (error) {
-        console.error("Geocoding error:", error);
+        if (!isAbortError(error)) {
+          console.error("Geocoding error:", error);
+        }
       } finally {
-        setIsSearching(false);
+        if (searchAbortRef.current === controller) {
+          setIsSearching(false);
+        }
       }
     }, 500);
   }, [value, isFocused]);
 
   const handleSelectSuggestion = (suggestion: GeocodeResult) => {
-    const displayAddress = suggestion.display_name;
+    const displayAddress = suggestion.displayName;
     onChange(displayAddress);
     setShowSuggestions(false);
 
     if (onSelect) {
       onSelect({
-        street: suggestion.address?.road || "",
-        city: suggestion.address?.city || "",
-        county: suggestion.address?.state || suggestion.address?.county || "",
-        postcode: suggestion.address?.postcode || "",
-        country: suggestion.address?.country || "",
+        street: suggestion.address.street || "",
+        city: suggestion.address.city || "",
+        county: suggestion.address.county || "",
+        postcode: suggestion.address.postcode || "",
+        country: suggestion.address.country || "",
         fullAddress: displayAddress,
         coordinates: {
-          lat: parseFloat(suggestion.lat),
-          lng: parseFloat(suggestion.lon),
+          lat: suggestion.lat,
+          lng: suggestion.lng,
         },
       });
     }
@@ -168,12 +157,12 @@ export function AddressAutocomplete({
                 <MapPin className="h-4 w-4 text-muted-foreground mt-0.5 flex-shrink-0" />
                 <div className="flex-1 min-w-0">
                   <p className="text-sm font-medium truncate">
-                    {suggestion.address?.road || suggestion.display_name.split(",")[0]}
+                    {suggestion.address.street || suggestion.displayName.split(",")[0]}
                   </p>
                   <p className="text-xs text-muted-foreground truncate">
-                    {suggestion.display_name}
+                    {suggestion.displayName}
                   </p>
-                  {suggestion.address?.postcode && (
+                  {suggestion.address.postcode && (
                     <p className="text-xs text-primary mt-1">
                       {suggestion.address.postcode}
                     </p>
@@ -1,5 +1,6 @@
 import { motion } from "framer-motion";
-import { UserPlus, UserMinus, Wrench, ArrowRight, ArrowLeft } from "lucide-react";
+import { Link } from "react-router-dom";
+import { UserPlus, UserMinus, Wrench, ArrowRight, ArrowLeft, FileSpreadsheet } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 
@@ -161,6 +162,14 @@ export function JMLSubTypeSelector({ onSelect, onBack }: JMLSubTypeSelectorProps
         </motion.div>
       </div>
 
+      <p className="text-center text-sm text-muted-foreground">
+        Booking for several people at once?{" "}
+        <Link to="/bookings/jml/import" className="inline-flex items-center gap-1 font-medium text-primary hover:underline">
+          <FileSpreadsheet className="h-4 w-4" />
+          Import joiners, movers and leavers from an HR file
+        </Link>
+      </p>
+
       <div className="flex justify-center">
         <Button variant="outline" onClick={onBack}>
           <ArrowLeft className="mr-2 h-4 w-4" />
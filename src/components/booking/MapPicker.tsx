@@ -1,11 +1,13 @@
-import { useState, useEffect, useRef } from "react";
-import { MapContainer, TileLayer, Marker, useMapEvents, useMap } from "react-leaflet";
+import { useState, useEffect, useRef, useMemo } from "react";
+import { MapContainer, TileLayer, Marker, Polyline, Tooltip, useMapEvents, useMap } from "react-leaflet";
 import { MapPin, Search, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { reverseGeocode, searchPlaces, type GeocodeResult } from "@/lib/geocoding";
+import type { RoutePlan } from "@/lib/route-optimisation";
 import "leaflet/dist/leaflet.css";
 import L from "leaflet";
 
@@ -19,7 +21,7 @@ L.Icon.Default.mergeOptions({
 
 interface MapPickerProps {
   position: { lat: number; lng: number } | null;
-  onPositionChange: (position: { lat: number; lng: number } | null) => void;
+  onPositionChange?: (position: { lat: number; lng: number } | null) => void;
   onAddressChange?: (address: string) => void;
   onAddressDetailsChange?: (details: {
     street?: string;
@@ -29,30 +31,8 @@ interface MapPickerProps {
     country?: string;
   }) => void;
   height?: string;
-}
-
-interface GeocodeResult {
-  display_name: string;
-  lat: string;
-  lon: string;
-  address?: {
-    road?: string;
-    house_number?: string;
-    house_name?: string;
-    city?: string;
-    town?: string;
-    village?: string;
-    suburb?: string;
-    neighbourhood?: string;
-    locality?: string;
-    county?: string;
-    state?: string;
-    postcode?: string;
-    country?: string;
-  };
-  extratags?: {
-    house_name?: string;
-  };
+  route?: RoutePlan | null; // Sequenced multi-stop route to draw
+  readOnly?: boolean; // Display only - hides search and ignores map clicks
 }
 
 // Component to handle map clicks and reverse geocoding
@@ -82,159 +62,18 @@ function MapClickHandler({
       if (onAddressChange || onAddressDetailsChange) {
         setIsGeocoding(true);
         try {
-          const response = await fetch(
-            `https://nominatim.openstreetmap.org/reverse?format=json&lat=${newPosition.lat}&lon=${newPosition.lng}&zoom=18&addressdetails=1&extratags=1&namedetails=1`
-          );
-          const data = await response.json();
-          
-          // Debug: Log the response to see what fields are available
-          // console.log('Nominatim response:', JSON.stringify(data, null, 2));
-          if (data.display_name && onAddressChange) {
-            onAddressChange(data.display_name);
+          const result = await reverseGeocode(newPosition);
+          if (result && onAddressChange) {
+            onAddressChange(result.displayName);
           }
-          if (data.address && onAddressDetailsChange) {
-            // Extract street - try multiple sources including house name/number
-            // Priority: house_name + house_number + road > house_number + road > house_name + road > road > house_number > house_name > fallbacks
-            let street = "";
-            
-            // Get house name from multiple sources
-            // Nominatim can store house names in: extratags.house_name, namedetails.name, or address.name
-            let houseName = data.extratags?.house_name || 
-                          data.namedetails?.name || 
-                          data.address?.house_name || 
-                          data.address?.name || 
-                          "";
-            
-            // If house name not found in structured fields, try to extract from display_name
-            // Nominatim display_name format often starts with house name if present
-            // Example: "Oak Cottage, 123 High Street, London, UK"
-            if (!houseName && data.display_name) {
-              const displayParts = data.display_name.split(',').map(p => p.trim());
-              if (displayParts.length > 0) {
-                const firstPart = displayParts[0];
-                const roadName = data.address?.road || "";
-                
-                // Check if first part is likely a house name
-                // Criteria: not a number, not the road name, not a common road type, reasonable length
-                const roadTypes = ['Street', 'Road', 'Avenue', 'Lane', 'Drive', 'Close', 'Way', 'Place', 'Crescent', 'Grove', 'Terrace', 'Gardens'];
-                const isRoadType = roadTypes.some(type => firstPart.toLowerCase().includes(type.toLowerCase()));
-                const isNumber = /^\d+[A-Za-z]?$/.test(firstPart); // Matches "123" or "123A"
-                const isRoadName = roadName && (firstPart.toLowerCase() === roadName.toLowerCase() || firstPart.toLowerCase().includes(roadName.toLowerCase()));
-                
-                // If first part looks like a house name (not number, not road type, not road name)
-                if (!isNumber && !isRoadType && !isRoadName && firstPart.length > 2 && firstPart.length < 50) {
-                  // Additional validation: house names usually don't contain postcodes or city names
-                  const hasPostcode = /\b[A-Z]{1,2}\d{1,2}[A-Z]?\s?\d[A-Z]{2}\b/i.test(firstPart);
-                  if (!hasPostcode) {
-                    houseName = firstPart;
-                  }
-                }
-              }
-            }
-            
-            const houseNumber = data.address.house_number || "";
-            const road = data.address.road || "";
-            
-            // Build street address with priority order
-            if (houseName && houseNumber && road) {
-              // "Oak Cottage, 123 High Street"
-              street = `${houseName}, ${houseNumber} ${road}`.trim();
-            } else if (houseNumber && road) {
-              // "123 High Street"
-              street = `${houseNumber} ${road}`.trim();
-            } else if (houseName && road) {
-              // "Oak Cottage, High Street"
-              street = `${houseName}, ${road}`.trim();
-            } else if (road) {
-              // "High Street"
-              street = road;
-            } else if (houseNumber) {
-              // Just house number
-              street = houseNumber;
-            } else if (houseName) {
-              // Just house name
-              street = houseName;
-            } else if (data.address.suburb) {
-              // Fallback: use suburb if no road name
-              street = data.address.suburb;
-            } else if (data.address.neighbourhood) {
-              // Fallback: use neighbourhood if no road name
-              street = data.address.neighbourhood;
-            }
-
-            // Extract city - prioritize actual city/town/village, avoid using road names
-            // Check municipality first (common in European addresses like France)
-            // Note: 'road' is already declared above
-            let city = data.address.city || 
-                       data.address.town || 
-                       data.address.village || 
-                       data.address.municipality || // Common in France and other European countries
-                       "";
-            
-            // Only use locality if it doesn't match the road name (locality can sometimes be the road)
-            if (!city) {
-              const locality = data.address.locality || "";
-              if (locality && locality.toLowerCase() !== road.toLowerCase() && !road.toLowerCase().includes(locality.toLowerCase()) && !locality.toLowerCase().includes(road.toLowerCase())) {
-                city = locality;
-              }
-            }
-            
-            // Only use suburb/neighbourhood as fallback if they don't match the road name
-            // This prevents road names from being used as city names
-            if (!city) {
-              const suburb = data.address.suburb || "";
-              const neighbourhood = data.address.neighbourhood || "";
-              
-              // Use suburb only if it doesn't match the road name
-              if (suburb && suburb.toLowerCase() !== road.toLowerCase() && !road.toLowerCase().includes(suburb.toLowerCase()) && !suburb.toLowerCase().includes(road.toLowerCase())) {
-                city = suburb;
-              } else if (neighbourhood && neighbourhood.toLowerCase() !== road.toLowerCase() && !road.toLowerCase().includes(neighbourhood.toLowerCase()) && !neighbourhood.toLowerCase().includes(road.toLowerCase())) {
-                city = neighbourhood;
-              }
-            }
-
-            // Extract county
-            const county = data.address.county || 
-                          data.address.state || 
-                          "";
-
-            // Extract postcode - critical for delivery
-            let postcode = data.address.postcode || "";
-            
-            // If postcode is missing, try to extract from display_name using European patterns
-            if (!postcode && data.display_name) {
-              // Try UK pattern first (most specific), then common European patterns
-              const ukPattern = /\b[A-Z]{1,2}\d{1,2}[A-Z]?\s?\d[A-Z]{2}\b/i;
-              const commonPatterns = [
-                /\b\d{5}\b/, // 5 digits (DE, FR, IT, ES, FI, GR, HR, EE, UA, TR, etc.)
-                /\b\d{4}\s?[A-Z]{2}\b/i, // NL format: 1234 AB
-                /\b\d{4}\b/, // 4 digits (BE, AT, CH, DK, etc.)
-                /\b\d{3}\s?\d{2}\b/, // SE, CZ, SK format: 123 45
-                /\b[A-Z]\d{1,2}\s?[A-Z0-9]{4}\b/i, // IE format: D02 AF30
-              ];
-              
-              let postcodeMatch = data.display_name.match(ukPattern);
-              if (!postcodeMatch) {
-                for (const pattern of commonPatterns) {
-                  postcodeMatch = data.display_name.match(pattern);
-                  if (postcodeMatch) break;
-                }
-              }
-              
-              if (postcodeMatch) {
-                postcode = postcodeMatch[0].replace(/\s+/g, ' ').trim().toUpperCase();
-              }
-            }
-
-            // Extract country - no default, use what Nominatim returns
-            const country = data.address.country || "";
-
+          if (result && onAddressDetailsChange) {
+            const { street, city, county, postcode, country } = result.address;
             onAddressDetailsChange({
-              street: street,
-              city: city,
-              county: county,
-              postcode: postcode,
-              country: country,
+              street: street || "",
+              city: city || "",
+              county: county || "",
+              postcode: postcode || "",
+              country: country || "",
             });
           }
         } catch (error) {
@@ -262,12 +101,57 @@ function MapCenterUpdater({ position }: { position: { lat: number; lng: number }
   return null;
 }
 
+// Numbered marker for a stop on a planned route
+function createRouteStopIcon(label: string, isDepot = false) {
+  return L.divIcon({
+    className: "",
+    html: `<div class="flex h-7 w-7 items-center justify-center rounded-full border-2 border-white text-xs font-bold shadow-md ${
+      isDepot ? "bg-foreground text-background" : "bg-primary text-primary-foreground"
+    }">${label}</div>`,
+    iconSize: [28, 28],
+    iconAnchor: [14, 14],
+  });
+}
+
+// Component to draw a planned route (depot → stops → depot) and fit the map to it
+function RouteLayer({ route }: { route: RoutePlan }) {
+  const map = useMap();
+  const path = useMemo(
+    () => [route.depot, ...route.stops, route.depot].map((point) => [point.lat, point.lng] as [number, number]),
+    [route]
+  );
+
+  useEffect(() => {
+    if (path.length > 2) {
+      map.fitBounds(L.latLngBounds(path), { padding: [32, 32] });
+    }
+  }, [path, map]);
+
+  return (
+    <>
+      <Polyline positions={path} pathOptions={{ className: "stroke-primary", weight: 4, opacity: 0.8 }} />
+      <Marker position={[route.depot.lat, route.depot.lng]} icon={createRouteStopIcon("W", true)}>
+        <Tooltip>Warehouse</Tooltip>
+      </Marker>
+      {route.stops.map((stop, index) => (
+        <Marker key={stop.id} position={[stop.lat, stop.lng]} icon={createRouteStopIcon(String(index + 1))}>
+          <Tooltip>
+            {index + 1}. {stop.label}
+          </Tooltip>
+        </Marker>
+      ))}
+    </>
+  );
+}
+
 export function MapPicker({
   position,
   onPositionChange,
   onAddressChange,
   onAddressDetailsChange,
   height = "400px",
+  route,
+  readOnly = false,
 }: MapPickerProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [isSearching, setIsSearching] = useState(false);
@@ -305,12 +189,9 @@ export function MapPicker({
     searchTimeoutRef.current = setTimeout(async () => {
       setIsSearching(true);
       try {
-        const response = await fetch(
-          `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(searchQuery)}&limit=5&addressdetails=1`
-        );
-        const data = await response.json();
-        setSuggestions(data);
-        if (data.length > 0) {
+        const results = await searchPlaces(searchQuery, { limit: 5 });
+        setSuggestions(results);
+        if (results.length > 0) {
           setShowSuggestions(true);
         }
       } catch (error) {
@@ -322,15 +203,15 @@ export function MapPicker({
   }, [searchQuery]);
 
   const handleSelectSuggestion = async (suggestion: GeocodeResult) => {
-    setSearchQuery(suggestion.display_name);
+    setSearchQuery(suggestion.displayName);
     setShowSuggestions(false);
     const newPosition = {
-      lat: parseFloat(suggestion.lat),
-      lng: parseFloat(suggestion.lon),
+      lat: suggestion.lat,
+      lng: suggestion.lng,
     };
-    onPositionChange(newPosition);
+    onPositionChange?.(newPosition);
     if (onAddressChange) {
-      onAddressChange(suggestion.display_name);
+      onAddressChange(suggestion.displayName);
     }
   };
 
@@ -339,22 +220,18 @@ export function MapPicker({
 
     setIsSearching(true);
     try {
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(searchQuery)}&limit=1&addressdetails=1`
-      );
-      const data = await response.json();
+      const [result] = await searchPlaces(searchQuery, { limit: 1 });
 
-      if (data.length > 0) {
-        const result = data[0];
+      if (result) {
         const newPosition = {
-          lat: parseFloat(result.lat),
-          lng: parseFloat(result.lon),
+          lat: result.lat,
+          lng: result.lng,
         };
-        onPositionChange(newPosition);
+        onPositionChange?.(newPosition);
         if (onAddressChange) {
-          onAddressChange(result.display_name);
+          onAddressChange(result.displayName);
         }
-        setSearchQuery(result.display_name);
+        setSearchQuery(result.displayName);
       }
     } catch (error) {
       console.error("Geocoding error:", error);
@@ -370,6 +247,7 @@ export function MapPicker({
   return (
     <div className="space-y-3">
       {/* Search Bar with Autocomplete */}
+      {!readOnly && (
       <div className="relative">
         <div className="flex gap-2">
           <div className="relative flex-1">
@@ -416,19 +294,18 @@ export function MapPicker({
                 className="px-4 py-2 hover:bg-secondary cursor-pointer transition-colors"
                 onClick={() => handleSelectSuggestion(suggestion)}
               >
-                <p className="text-sm font-medium">{suggestion.display_name}</p>
-                {suggestion.address && (
-                  <p className="text-xs text-muted-foreground">
-                    {suggestion.address.road && `${suggestion.address.road}, `}
-                    {suggestion.address.city && `${suggestion.address.city}, `}
-                    {suggestion.address.postcode}
-                  </p>
-                )}
+                <p className="text-sm font-medium">{suggestion.displayName}</p>
+                <p className="text-xs text-muted-foreground">
+                  {suggestion.address.street && `${suggestion.address.street}, `}
+                  {suggestion.address.city && `${suggestion.address.city}, `}
+                  {suggestion.address.postcode}
+                </p>
               </div>
             ))}
           </div>
         )}
       </div>
+      )}
 
       {/* Map */}
       <Card className="overflow-hidden">
@@ -450,22 +327,25 @@ export function MapPicker({
                 attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
                 url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
               />
-              <MapClickHandler 
-                onPositionChange={onPositionChange} 
-                onAddressChange={onAddressChange}
-                onAddressDetailsChange={onAddressDetailsChange}
-              />
+              {!readOnly && onPositionChange && (
+                <MapClickHandler 
+                  onPositionChange={onPositionChange} 
+                  onAddressChange={onAddressChange}
+                  onAddressDetailsChange={onAddressDetailsChange}
+                />
+              )}
               <MapCenterUpdater position={position} />
               {position && (
                 <Marker position={[position.lat, position.lng]} />
               )}
+              {route && route.stops.length > 0 && <RouteLayer route={route} />}
             </MapContainer>
           </div>
         </CardContent>
       </Card>
 
       {/* Position Info */}
-      {position && (
+      {!readOnly && position && (
         <div className="flex items-center gap-2 text-sm text-muted-foreground">
           <MapPin className="h-4 w-4" />
           <span>
@@ -474,7 +354,7 @@ export function MapPicker({
         </div>
       )}
 
-      {!position && (
+      {!readOnly && !position && (
         <p className="text-sm text-muted-foreground text-center">
           Click on the map or search for an address to select a location
         </p>
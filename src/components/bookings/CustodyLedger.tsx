@@ -0,0 +1,320 @@
+// Chain-of-custody ledger - hash-chained custody events with in-app verification, and the certificate issued from them
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
+import {
+  AlertTriangle,
+  Award,
+  FileCheck,
+  Fingerprint,
+  Link2,
+  Loader2,
+  MapPin,
+  RefreshCw,
+  Shield,
+  ShieldAlert,
+  ShieldCheck,
+  Truck,
+  User,
+  Warehouse,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { PdfDownloadButton } from "@/components/documents/PdfDownloadButton";
+import { useCustodyCertificate, useCustodyLedger, useIssueCustodyCertificate } from "@/hooks/useCustody";
+import { custodyEventConfig, shortHash } from "@/lib/custody";
+import { cn } from "@/lib/utils";
+import type { Booking } from "@/mocks/mock-entities";
+import type { CustodyChainVerification, CustodyEventType } from "@/types/custody";
+
+const eventIcons: Record<CustodyEventType, typeof Truck> = {
+  collected: Truck,
+  warehouse_arrival: Warehouse,
+  sanitised: Shield,
+  graded: Award,
+  dispatched: Truck,
+  delivered: MapPin,
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+function VerificationBadge({ verification }: { verification: CustodyChainVerification }) {
+  if (verification.entryCount === 0) {
+    return <Badge variant="outline">No entries yet</Badge>;
+  }
+  if (!verification.valid) {
+    return (
+      <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/50">
+        <ShieldAlert className="h-3 w-3 mr-1" />
+        Broken at entry {verification.brokenAt}
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="outline" className="bg-success/10 text-success">
+      <ShieldCheck className="h-3 w-3 mr-1" />
+      Verified
+    </Badge>
+  );
+}
+
+interface CustodyLedgerCardProps {
+  bookingId: string;
+}
+
+/**
+ * Every custody event recorded for the booking, re-hashed in the browser on each load
+ */
+export function CustodyLedgerCard({ bookingId }: CustodyLedgerCardProps) {
+  const { data, isLoading, isFetching, error, refetch } = useCustodyLedger(bookingId);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Link2 className="h-4 w-4" />
+            Chain of Custody
+          </CardTitle>
+          <CardDescription>
+            Each entry includes the hash of the one before it, so any later change breaks the chain
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          {data && <VerificationBadge verification={data.verification} />}
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={cn("h-4 w-4 mr-2", isFetching && "animate-spin")} />
+            Re-verify
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              Failed to load the custody ledger: {error instanceof Error ? error.message : "Please try again."}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {data && !data.verification.valid && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Entry {data.verification.brokenAt} failed verification: {data.verification.reason}. Entries from
+              this point on can't be relied on.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {data && data.entries.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Custody events are recorded from collection onwards.
+          </p>
+        )}
+
+        {data?.entries.map((entry) => {
+          const Icon = eventIcons[entry.eventType];
+          const isBroken =
+            !data.verification.valid && data.verification.brokenAt !== undefined && entry.sequence >= data.verification.brokenAt;
+
+          return (
+            <div
+              key={entry.id}
+              className={cn(
+                "rounded-lg border p-4 space-y-3",
+                isBroken && "border-destructive/50 bg-destructive/5"
+              )}
+            >
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div className="flex items-center gap-3">
+                  <div className="flex h-9 w-9 items-center justify-center rounded-full bg-primary/10">
+                    <Icon className="h-4 w-4 text-primary" />
+                  </div>
+                  <div>
+                    <p className="font-medium">
+                      {entry.sequence}. {custodyEventConfig[entry.eventType].label}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{formatDateTime(entry.occurredAt)}</p>
+                  </div>
+                </div>
+                {isBroken && entry.sequence === data.verification.brokenAt && (
+                  <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/50">
+                    Failed
+                  </Badge>
+                )}
+              </div>
+
+              <div className="grid gap-2 text-sm sm:grid-cols-2">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <User className="h-4 w-4 shrink-0" />
+                  <span>
+                    {entry.actor.name} <span className="capitalize">({entry.actor.role})</span>
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <MapPin className="h-4 w-4 shrink-0" />
+                  <span className="truncate" title={entry.location.label}>{entry.location.label}</span>
+                </div>
+              </div>
+
+              {entry.evidence.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground">Evidence</p>
+                  <div className="flex flex-wrap gap-1">
+                    {entry.evidence.map((evidence, index) => (
+                      <Badge key={index} variant="secondary" className="font-normal" title={evidence.hash}>
+                        {evidence.label}
+                        <span className="ml-1 font-mono text-muted-foreground">{evidence.hash.slice(0, 8)}</span>
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="grid gap-1 text-xs font-mono text-muted-foreground sm:grid-cols-2">
+                <span className="flex items-center gap-1" title={entry.hash}>
+                  <Fingerprint className="h-3 w-3" />
+                  {shortHash(entry.hash)}
+                </span>
+                <span className="flex items-center gap-1" title={entry.previousHash}>
+                  <Link2 className="h-3 w-3" />
+                  {shortHash(entry.previousHash)}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface CustodyCertificateCardProps {
+  booking: Booking;
+  canIssue?: boolean; // Admins can snapshot the ledger again after completion
+}
+
+/**
+ * The latest chain-of-custody certificate, checked against the ledger as it stands now
+ */
+export function CustodyCertificateCard({ booking, canIssue = false }: CustodyCertificateCardProps) {
+  const bookingId = booking.id;
+  const { data: ledger } = useCustodyLedger(bookingId);
+  const { data: certificate, isLoading } = useCustodyCertificate(bookingId);
+  const issueCertificate = useIssueCustodyCertificate();
+
+  const verification = ledger?.verification;
+  // The entry the certificate ends on should still carry the hash it was issued with
+  const certifiedEntry = certificate
+    ? ledger?.entries.find((entry) => entry.sequence === certificate.entryCount)
+    : undefined;
+  const matchesLedger = !!certificate && verification?.valid && certifiedEntry?.hash === certificate.headHash;
+  const newerEntries = certificate && ledger ? ledger.entries.length - certificate.entryCount : 0;
+
+  const handleIssue = async () => {
+    try {
+      await issueCertificate.mutateAsync(bookingId);
+      toast.success("Chain-of-custody certificate issued", {
+        description: "It's listed under Documents.",
+      });
+    } catch (error) {
+      toast.error("Failed to issue certificate", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <FileCheck className="h-5 w-5" />
+            Chain-of-Custody Certificate
+          </CardTitle>
+          <CardDescription>Issued automatically when the booking completes</CardDescription>
+        </div>
+        {canIssue && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleIssue}
+            disabled={issueCertificate.isPending || !verification?.valid || verification.entryCount === 0}
+          >
+            {issueCertificate.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {certificate ? "Re-issue" : "Issue"}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : !certificate ? (
+          <p className="text-sm text-muted-foreground">No certificate has been issued for this booking yet.</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid gap-3 sm:grid-cols-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">Issued</p>
+                <p className="font-medium">{formatDateTime(certificate.issuedAt)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Issued by</p>
+                <p className="font-medium">{certificate.issuedBy}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Entries covered</p>
+                <p className="font-medium">{certificate.entryCount}</p>
+              </div>
+            </div>
+            <div className="text-sm">
+              <p className="text-muted-foreground">Head hash</p>
+              <p className="font-mono text-xs break-all">{certificate.headHash}</p>
+            </div>
+            {ledger && (
+              matchesLedger ? (
+                <div className="flex items-center gap-2 text-sm text-success">
+                  <ShieldCheck className="h-4 w-4" />
+                  Matches the verified ledger
+                  {newerEntries > 0 && (
+                    <span className="text-muted-foreground">
+                      ({newerEntries} newer {newerEntries === 1 ? "entry" : "entries"} since issue)
+                    </span>
+                  )}
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-sm text-destructive">
+                  <ShieldAlert className="h-4 w-4" />
+                  Doesn't match the ledger - the recorded custody events have changed since this was issued
+                </div>
+              )
+            )}
+            <div className="flex flex-wrap items-center gap-3">
+              <PdfDownloadButton request={{ kind: "chain_of_custody", booking, certificate }} />
+              <Button variant="link" className="h-auto p-0" asChild>
+                <Link to="/documents">View in Documents</Link>
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,116 @@
+// Employee ledger - the employee field on JML forms, which links the booking to someone the
+// client already has so leaver and mover forms can start from the devices they actually hold
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Contact, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useEmployees } from "@/hooks/useEmployees";
+import { employeeStatusConfig } from "@/lib/employee-ledger";
+import type { Employee, EmployeeStatus } from "@/types/employees";
+
+// Wait for a couple of letters and a pause in typing before searching
+const MIN_SEARCH_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function EmployeeStatusBadge({ status }: { status: EmployeeStatus }) {
+  const config = employeeStatusConfig[status];
+  return (
+    <Badge variant="secondary" className={config.className}>
+      {config.label}
+    </Badge>
+  );
+}
+
+interface EmployeeFieldProps {
+  label: string;
+  clientId?: string | null; // null until an admin or reseller has chosen the client
+  name: string;
+  employee: Employee | null;
+  onNameChange: (name: string) => void;
+  onSelect: (employee: Employee | null) => void;
+}
+
+/**
+ * The employee's name, with the client's employees of that name to pick from. Editing the
+ * name after picking someone unlinks them.
+ */
+export function EmployeeField({ label, clientId, name, employee, onNameChange, onSelect }: EmployeeFieldProps) {
+  const [search, setSearch] = useState(name.trim());
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(name.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [name]);
+
+  const { data: matches = [], isFetching } = useEmployees(
+    { clientId: clientId || undefined, search },
+    !employee && clientId !== null && search.length >= MIN_SEARCH_LENGTH
+  );
+
+  return (
+    <div className="space-y-1.5">
+      <Label htmlFor="employeeName" className="text-sm">
+        {label}
+      </Label>
+      <div className="relative">
+        <Input
+          id="employeeName"
+          value={name}
+          onChange={(e) => {
+            onNameChange(e.target.value);
+            if (employee) onSelect(null);
+          }}
+          placeholder="Jane Smith"
+          className="h-9"
+          autoComplete="off"
+        />
+        {isFetching && (
+          <Loader2 className="absolute right-2.5 top-2.5 h-4 w-4 animate-spin text-muted-foreground" />
+        )}
+      </div>
+      {employee ? (
+        <div className="flex items-center justify-between gap-2 rounded-md border bg-muted/50 px-3 py-2 text-sm">
+          <div className="flex min-w-0 items-center gap-2">
+            <Contact className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <span className="truncate">
+              Linked to{" "}
+              <Link to={`/employees/${employee.id}`} className="font-medium underline-offset-4 hover:underline">
+                {employee.name}
+              </Link>{" "}
+              · {employee.holdings.length} {employee.holdings.length === 1 ? "device" : "devices"} held
+            </span>
+          </div>
+          <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => onSelect(null)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        matches.length > 0 &&
+        search.length >= MIN_SEARCH_LENGTH && (
+          <div className="space-y-1 rounded-md border p-1">
+            <p className="px-2 pt-1 text-xs text-muted-foreground">Existing employees</p>
+            {matches.slice(0, 5).map((match) => (
+              <button
+                key={match.id}
+                type="button"
+                onClick={() => onSelect(match)}
+                className="flex w-full items-center justify-between gap-2 rounded px-2 py-1.5 text-left text-sm hover:bg-muted"
+              >
+                <span className="min-w-0 truncate">
+                  <span className="font-medium">{match.name}</span>
+                  {match.email && <span className="text-muted-foreground"> · {match.email}</span>}
+                </span>
+                <span className="flex shrink-0 items-center gap-2 text-xs text-muted-foreground">
+                  {match.holdings.length} held
+                  <EmployeeStatusBadge status={match.status} />
+                </span>
+              </button>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+// JML schedule pieces - milestone state badges and the per-client lead time editor
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { AlertTriangle, CheckCircle2, Clock, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useUpdateJmlLeadTimes } from "@/hooks/useJmlSchedule";
+import {
+  DEFAULT_JML_LEAD_TIMES,
+  MAX_JML_LEAD_DAYS,
+  jmlLeadTimeFields,
+  jmlMilestoneConfig,
+  jmlMilestoneStateConfig,
+  validateJmlLeadTimes,
+} from "@/lib/jml-schedule";
+import { ApiError } from "@/services/api-error";
+import { cn } from "@/lib/utils";
+import type { ClientJmlLeadTimes, JmlLeadTimes, JmlMilestone, JmlMilestoneState } from "@/types/jml-schedule";
+
+const stateIcons: Record<JmlMilestoneState, typeof Clock> = {
+  done: CheckCircle2,
+  upcoming: Clock,
+  at_risk: AlertTriangle,
+  overdue: AlertTriangle,
+};
+
+export function JmlMilestoneStateBadge({ state }: { state: JmlMilestoneState }) {
+  const config = jmlMilestoneStateConfig[state];
+  const Icon = stateIcons[state];
+  return (
+    <Badge variant="secondary" className={cn("gap-1", config.className)}>
+      <Icon className="h-3 w-3" />
+      {config.label}
+    </Badge>
+  );
+}
+
+/**
+ * The first milestone a booking is behind on, e.g. "Allocate devices overdue (17 Oct)"
+ */
+export function JmlMilestoneAlertBadge({ milestones }: { milestones: JmlMilestone[] }) {
+  const behind =
+    milestones.find((milestone) => milestone.state === "overdue") ||
+    milestones.find((milestone) => milestone.state === "at_risk");
+  if (!behind) return null;
+
+  const due = new Date(behind.dueDate).toLocaleDateString("en-GB", { day: "numeric", month: "short" });
+  return (
+    <Badge variant="secondary" className={cn("gap-1", jmlMilestoneStateConfig[behind.state].className)}>
+      <AlertTriangle className="h-3 w-3" />
+      {jmlMilestoneConfig[behind.type].label} {behind.state === "overdue" ? "overdue" : "due"} ({due})
+    </Badge>
+  );
+}
+
+interface JmlLeadTimesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  clientName: string;
+  leadTimes: ClientJmlLeadTimes | null;
+}
+
+export function JmlLeadTimesDialog({ open, onOpenChange, clientName, leadTimes }: JmlLeadTimesDialogProps) {
+  const updateLeadTimes = useUpdateJmlLeadTimes();
+  const [values, setValues] = useState<Record<keyof JmlLeadTimes, string>>({
+    allocateDaysBefore: "",
+    courierDaysBefore: "",
+    collectDaysAfter: "",
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const fill = (source: JmlLeadTimes) =>
+    setValues({
+      allocateDaysBefore: String(source.allocateDaysBefore),
+      courierDaysBefore: String(source.courierDaysBefore),
+      collectDaysAfter: String(source.collectDaysAfter),
+    });
+
+  useEffect(() => {
+    if (open && leadTimes) {
+      fill(leadTimes);
+      setErrors({});
+    }
+  }, [open, leadTimes]);
+
+  const handleSave = async () => {
+    if (!leadTimes) return;
+    const parsed: JmlLeadTimes = {
+      allocateDaysBefore: Number(values.allocateDaysBefore),
+      courierDaysBefore: Number(values.courierDaysBefore),
+      collectDaysAfter: Number(values.collectDaysAfter),
+    };
+    const validationErrors = validateJmlLeadTimes(parsed);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    try {
+      await updateLeadTimes.mutateAsync({ clientId: leadTimes.clientId, leadTimes: parsed });
+      toast.success("Lead times saved", {
+        description: `Milestones for ${clientName} have been recalculated.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      if (error instanceof ApiError && error.fields) setErrors(error.fields);
+      toast.error("Failed to save lead times", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !updateLeadTimes.isPending && onOpenChange(value)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>JML Lead Times</DialogTitle>
+          <DialogDescription>
+            Calendar days for {clientName}'s milestones, counted from each start, leaving or move date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {jmlLeadTimeFields.map((field) => (
+            <div key={field.key} className="space-y-1.5">
+              <Label htmlFor={`lead-time-${field.key}`}>{field.label}</Label>
+              <Input
+                id={`lead-time-${field.key}`}
+                type="number"
+                min={0}
+                max={MAX_JML_LEAD_DAYS}
+                value={values[field.key]}
+                onChange={(e) => setValues((current) => ({ ...current, [field.key]: e.target.value }))}
+                className={cn(errors[field.key] && "border-destructive")}
+              />
+              <p className={cn("text-xs", errors[field.key] ? "text-destructive" : "text-muted-foreground")}>
+                {errors[field.key] || field.description}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" onClick={() => fill(DEFAULT_JML_LEAD_TIMES)} disabled={updateLeadTimes.isPending}>
+            Use Defaults
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={updateLeadTimes.isPending}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={updateLeadTimes.isPending}>
+              {updateLeadTimes.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,151 @@
+// Returns kit - the box and prepaid label sent to a remote leaver, the reminders they've been
+// emailed and whether the devices made it back to the warehouse by the deadline
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { AlertTriangle, Loader2, Mail, PackageOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { PdfDownloadButton } from "@/components/documents/PdfDownloadButton";
+import { CarrierServiceFields } from "@/components/bookings/ShipmentTracking";
+import { useBookingShipments, useIssueReturnsKit } from "@/hooks/useShipments";
+import { getCarrierAdapter } from "@/lib/carriers";
+import { getReturnsKitStage, returnsKitStageConfig, RETURNS_KIT_RETURN_DAYS, type ReturnsKitStage } from "@/lib/returns-kit";
+import type { Booking } from "@/mocks/mock-entities";
+import type { CarrierCode } from "@/types/carriers";
+
+const formatDay = (value: string) => format(parseISO(value), "EEE d MMM");
+
+export function ReturnsKitStageBadge({ stage }: { stage: ReturnsKitStage }) {
+  const config = returnsKitStageConfig[stage];
+  return (
+    <Badge variant="secondary" className={config.className}>
+      {config.label}
+    </Badge>
+  );
+}
+
+interface IssueReturnsKitFormProps {
+  bookingId: string;
+  onIssued?: (booking: Booking) => void;
+}
+
+/**
+ * Book the box out to the leaver and their prepaid return in one go
+ */
+export function IssueReturnsKitForm({ bookingId, onIssued }: IssueReturnsKitFormProps) {
+  const issueReturnsKit = useIssueReturnsKit();
+  const [carrier, setCarrier] = useState<CarrierCode>("royal_mail");
+  const [service, setService] = useState(getCarrierAdapter("royal_mail").services[0].code);
+
+  const handleIssue = () => {
+    issueReturnsKit.mutate(
+      { bookingId, data: { carrier, service } },
+      {
+        onSuccess: (booking) => {
+          toast.success("Returns kit issued", {
+            description: `The return label for ${booking.employeeName || booking.bookingNumber} is ready to print.`,
+          });
+          onIssued?.(booking);
+        },
+        onError: (error) => {
+          toast.error("Failed to issue returns kit", {
+            description: error instanceof Error ? error.message : "Please try again.",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        This leaver posts their devices back. We send them a box with a prepaid return label, remind them
+        before they leave, and tell the client if nothing has arrived {RETURNS_KIT_RETURN_DAYS} working days
+        after their leaving date.
+      </p>
+      <CarrierServiceFields
+        carrier={carrier}
+        service={service}
+        onChange={(nextCarrier, nextService) => {
+          setCarrier(nextCarrier);
+          setService(nextService);
+        }}
+      />
+      <Button onClick={handleIssue} disabled={issueReturnsKit.isPending} className="w-full">
+        {issueReturnsKit.isPending ? <Loader2 className="animate-spin" /> : <PackageOpen />}
+        Issue Returns Kit
+      </Button>
+    </div>
+  );
+}
+
+export function ReturnsKitCard({ booking }: { booking: Booking }) {
+  const { data: shipments = [] } = useBookingShipments(booking.returnsKit ? booking.id : undefined);
+  const kit = booking.returnsKit;
+  if (!kit) return null;
+
+  const kitShipment = shipments.find((shipment) => shipment.id === kit.kitShipmentId);
+  const returnShipment = shipments.find((shipment) => shipment.id === kit.returnShipmentId);
+  const stage = getReturnsKitStage(kit, kitShipment, returnShipment);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <PackageOpen className="h-5 w-5" />
+              Returns Kit
+            </CardTitle>
+            <CardDescription>
+              Issued {formatDay(kit.issuedAt)} by {kit.issuedBy} · due back by {formatDay(kit.returnDeadline)}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <ReturnsKitStageBadge stage={stage} />
+            <PdfDownloadButton
+              request={returnShipment ? { kind: "shipping_label", shipment: returnShipment } : null}
+              label="Return Label"
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {kit.escalatedAt && !kit.receivedAt && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              The devices weren't back by the deadline. The client was told on {formatDay(kit.escalatedAt)}.
+            </AlertDescription>
+          </Alert>
+        )}
+        {kit.receivedAt && (
+          <p className="text-sm text-muted-foreground">Received at the warehouse {formatDay(kit.receivedAt)}</p>
+        )}
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Reminders to the leaver</p>
+          {kit.reminders.length === 0 ? (
+            <p className="text-sm text-muted-foreground">None sent yet</p>
+          ) : (
+            <ul className="space-y-1.5">
+              {kit.reminders.map((reminder) => (
+                <li key={reminder.id} className="flex items-center gap-2 text-sm">
+                  <Mail className="h-4 w-4 text-muted-foreground" />
+                  <span>
+                    {formatDay(reminder.sentAt)} to {reminder.sentTo}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {reminder.daysBefore} working {reminder.daysBefore === 1 ? "day" : "days"} before leaving
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,287 @@
+// Carrier shipments - booking a courier through a carrier adapter, and the tracking
+// history the carrier reports for each shipment
+import { useState } from "react";
+import { toast } from "sonner";
+import { AlertTriangle, CheckCircle2, ExternalLink, Loader2, MapPin, PackageCheck, RefreshCw, Truck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PdfDownloadButton } from "@/components/documents/PdfDownloadButton";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBookingShipments, useCreateShipment, useRefreshTracking } from "@/hooks/useShipments";
+import { CARRIER_ADAPTERS, getCarrierAdapter, trackingStatusConfig } from "@/lib/carriers";
+import { cn } from "@/lib/utils";
+import type { CarrierCode, Shipment, ShipmentDirection, TrackingStatus } from "@/types/carriers";
+
+const statusIcons: Record<TrackingStatus, typeof Truck> = {
+  label_created: PackageCheck,
+  collected: Truck,
+  in_transit: Truck,
+  out_for_delivery: Truck,
+  delivered: CheckCircle2,
+  exception: AlertTriangle,
+};
+
+const directionLabels: Record<ShipmentDirection, string> = {
+  outbound: "Delivery",
+  collection: "Collection",
+  returns_kit: "Returns kit",
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function TrackingStatusBadge({ status }: { status: TrackingStatus }) {
+  const config = trackingStatusConfig[status];
+  return (
+    <Badge variant="secondary" className={config.className}>
+      {config.label}
+    </Badge>
+  );
+}
+
+interface CarrierServiceFieldsProps {
+  carrier: CarrierCode;
+  service: string;
+  onChange: (carrier: CarrierCode, service: string) => void;
+}
+
+/**
+ * Carrier and service pickers - changing the carrier picks its first service
+ */
+export function CarrierServiceFields({ carrier, service, onChange }: CarrierServiceFieldsProps) {
+  const adapter = getCarrierAdapter(carrier);
+
+  const handleCarrierChange = (value: string) => {
+    const next = getCarrierAdapter(value as CarrierCode);
+    onChange(next.code, next.services[0].code);
+  };
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor="shipment-carrier">Carrier</Label>
+        <Select value={carrier} onValueChange={handleCarrierChange}>
+          <SelectTrigger id="shipment-carrier">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CARRIER_ADAPTERS.map((option) => (
+              <SelectItem key={option.code} value={option.code}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="shipment-service">Service</Label>
+        <Select value={service} onValueChange={(value) => onChange(carrier, value)}>
+          <SelectTrigger id="shipment-service">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {adapter.services.map((option) => (
+              <SelectItem key={option.code} value={option.code}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
+
+interface CarrierShipmentFormProps {
+  bookingId: string;
+  onBooked?: (shipment: Shipment) => void;
+}
+
+/**
+ * Book the courier with a carrier - the carrier returns the tracking number and label,
+ * and its tracking moves the booking on from then
+ */
+export function CarrierShipmentForm({ bookingId, onBooked }: CarrierShipmentFormProps) {
+  const createShipment = useCreateShipment();
+  const [carrier, setCarrier] = useState<CarrierCode>("dpd");
+  const [service, setService] = useState(getCarrierAdapter("dpd").services[0].code);
+  const [parcels, setParcels] = useState("1");
+
+  const handleCreate = () => {
+    createShipment.mutate(
+      { bookingId, data: { carrier, service, parcels: Number(parcels) } },
+      {
+        onSuccess: (shipment) => {
+          toast.success(`${shipment.carrierName} shipment created`, {
+            description: `Tracking number ${shipment.trackingNumber}. The label is ready to print.`,
+          });
+          onBooked?.(shipment);
+        },
+        onError: (error) => {
+          toast.error("Failed to create shipment", {
+            description: error instanceof Error ? error.message : "Please try again.",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <CarrierServiceFields
+        carrier={carrier}
+        service={service}
+        onChange={(nextCarrier, nextService) => {
+          setCarrier(nextCarrier);
+          setService(nextService);
+        }}
+      />
+      <div className="space-y-2">
+        <Label htmlFor="shipment-parcels">Parcels</Label>
+        <Input
+          id="shipment-parcels"
+          type="number"
+          min={1}
+          max={20}
+          value={parcels}
+          onChange={(e) => setParcels(e.target.value)}
+          className="w-24"
+        />
+      </div>
+      <Button onClick={handleCreate} disabled={createShipment.isPending || !(Number(parcels) >= 1)} className="w-full">
+        {createShipment.isPending ? <Loader2 className="animate-spin" /> : <Truck />}
+        Create Shipment & Label
+      </Button>
+    </div>
+  );
+}
+
+function ShipmentDetails({ shipment, canRefresh }: { shipment: Shipment; canRefresh: boolean }) {
+  const refreshTracking = useRefreshTracking();
+  const events = [...shipment.events].reverse();
+
+  const handleRefresh = () => {
+    refreshTracking.mutate(shipment.id, {
+      onError: (error) => {
+        toast.error("Failed to refresh tracking", {
+          description: error instanceof Error ? error.message : "Please try again.",
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-semibold">{shipment.carrierName}</span>
+            <TrackingStatusBadge status={shipment.status} />
+            <Badge variant="outline">{directionLabels[shipment.direction]}</Badge>
+          </div>
+          <div className="flex items-center gap-2 text-sm">
+            <span className="font-mono">{shipment.trackingNumber}</span>
+            {shipment.trackingUrl && (
+              <a
+                href={shipment.trackingUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary hover:underline inline-flex items-center gap-1"
+              >
+                Track
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {shipment.from.name} → {shipment.to.name} · {shipment.parcels}{" "}
+            {shipment.parcels === 1 ? "parcel" : "parcels"}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <PdfDownloadButton request={{ kind: "shipping_label", shipment }} label="Label" />
+          {canRefresh && shipment.status !== "delivered" && (
+            <Button variant="outline" size="sm" onClick={handleRefresh} disabled={refreshTracking.isPending}>
+              <RefreshCw className={cn("h-4 w-4 mr-2", refreshTracking.isPending && "animate-spin")} />
+              Refresh
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {events.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No tracking events yet</p>
+      ) : (
+        <ol className="space-y-3 border-l pl-4">
+          {events.map((event) => {
+            const Icon = statusIcons[event.status];
+            return (
+              <li key={event.id} className="relative">
+                <span className="absolute -left-[1.4rem] top-0.5 flex h-4 w-4 items-center justify-center rounded-full bg-background">
+                  <Icon
+                    className={cn(
+                      "h-3.5 w-3.5",
+                      event.status === "exception" ? "text-destructive" : "text-muted-foreground"
+                    )}
+                  />
+                </span>
+                <p className="text-sm font-medium">{event.description}</p>
+                <p className="text-xs text-muted-foreground flex items-center gap-2">
+                  {formatDateTime(event.occurredAt)}
+                  {event.location && (
+                    <span className="inline-flex items-center gap-1">
+                      <MapPin className="h-3 w-3" />
+                      {event.location}
+                    </span>
+                  )}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+      {shipment.lastTrackedAt && (
+        <p className="text-xs text-muted-foreground">Last checked {formatDateTime(shipment.lastTrackedAt)}</p>
+      )}
+    </div>
+  );
+}
+
+export function ShipmentTrackingCard({ bookingId }: { bookingId: string }) {
+  const { user } = useAuth();
+  const { data: shipments = [], isLoading } = useBookingShipments(bookingId);
+
+  if (!isLoading && shipments.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Truck className="h-5 w-5" />
+          Courier Tracking
+        </CardTitle>
+        <CardDescription>Reported by the carrier - the booking moves on as the parcel does</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          shipments.map((shipment) => (
+            <ShipmentDetails key={shipment.id} shipment={shipment} canRefresh={user?.role === "admin"} />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,274 @@
+// Restate reported CO₂e under a newer emission factor set - preview the
+// before/after figures per job, then apply them
+import { useEffect, useState } from "react";
+import { ArrowRight, History, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  useApplyRestatement,
+  useEmissionFactorSets,
+  usePreviewRestatement,
+  useRestatements,
+} from "@/hooks/useCO2";
+import { cn } from "@/lib/utils";
+import type { EmissionTotals, Restatement } from "@/types/emissions";
+
+interface FactorSetRestatementCardProps {
+  clientId?: string | null; // Limit the restatement to one client organisation
+}
+
+const formatKg = (kg: number) => `${kg.toLocaleString("en-GB", { maximumFractionDigits: 1 })}kg`;
+
+const totalScope3 = (totals: EmissionTotals) =>
+  totals.scope3.upstream_transport + totals.scope3.end_of_life_treatment;
+
+function Change({ before, after }: { before: number; after: number }) {
+  const change = Math.round((after - before) * 10) / 10;
+  if (change === 0) return <span className="text-muted-foreground">-</span>;
+  return (
+    <span className={cn("font-medium", change > 0 ? "text-success" : "text-destructive")}>
+      {change > 0 ? "+" : ""}
+      {formatKg(change)}
+    </span>
+  );
+}
+
+export function FactorSetRestatementCard({ clientId }: FactorSetRestatementCardProps) {
+  const { data: factorSets = [], isLoading: isLoadingFactorSets } = useEmissionFactorSets();
+  const { data: restatements = [] } = useRestatements();
+  const previewRestatement = usePreviewRestatement();
+  const applyRestatement = useApplyRestatement();
+  const [factorSetId, setFactorSetId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [preview, setPreview] = useState<Restatement | null>(null);
+
+  useEffect(() => {
+    if (!factorSetId && factorSets.length > 0) {
+      setFactorSetId((factorSets.find((set) => set.isCurrent) || factorSets[0]).id);
+    }
+  }, [factorSets, factorSetId]);
+
+  // A preview is only valid for the filters it was run with
+  useEffect(() => {
+    setPreview(null);
+  }, [factorSetId, from, to, clientId]);
+
+  const selectedFactorSet = factorSets.find((set) => set.id === factorSetId);
+  const appliedRestatements = restatements.filter((restatement) => restatement.status === "applied").slice(0, 3);
+
+  const handlePreview = () => {
+    previewRestatement.mutate(
+      {
+        factorSetId,
+        clientId: clientId || undefined,
+        from: from || undefined,
+        to: to || undefined,
+      },
+      {
+        onSuccess: (restatement) => setPreview(restatement),
+        onError: (error: Error) => {
+          toast.error("Failed to recalculate emissions", {
+            description: error.message || "Please try again.",
+          });
+        },
+      }
+    );
+  };
+
+  const handleApply = () => {
+    if (!preview) return;
+    applyRestatement.mutate(preview.id, {
+      onSuccess: (restatement) => {
+        toast.success(`Restated ${restatement.jobs.length} ${restatement.jobs.length === 1 ? "job" : "jobs"}`, {
+          description: `Figures now use ${restatement.factorSetVersion}.`,
+        });
+        setPreview(null);
+      },
+      onError: (error: Error) => {
+        toast.error("Failed to apply restatement", {
+          description: error.message || "Please try again.",
+        });
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <RefreshCw className="h-4 w-4 text-primary" />
+          Restate Emissions
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Recalculate reported figures under a different emission factor set. Nothing changes until you apply.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-[2fr_1fr_1fr_auto] sm:items-end">
+          <div className="space-y-1.5">
+            <Label>Factor set</Label>
+            <Select value={factorSetId} onValueChange={setFactorSetId} disabled={isLoadingFactorSets}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a factor set" />
+              </SelectTrigger>
+              <SelectContent>
+                {factorSets.map((set) => (
+                  <SelectItem key={set.id} value={set.id}>
+                    {set.version}
+                    {set.isCurrent ? " (current)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="restatement-from">Scheduled from</Label>
+            <Input id="restatement-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="restatement-to">Scheduled to</Label>
+            <Input id="restatement-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <Button onClick={handlePreview} disabled={!factorSetId || previewRestatement.isPending}>
+            {previewRestatement.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Preview
+          </Button>
+        </div>
+
+        {selectedFactorSet && (
+          <p className="text-xs text-muted-foreground">
+            {selectedFactorSet.source}, published{" "}
+            {new Date(selectedFactorSet.publishedAt).toLocaleDateString("en-GB")}.{" "}
+            {selectedFactorSet.sourceUrl && (
+              <a
+                href={selectedFactorSet.sourceUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary hover:underline"
+              >
+                View source
+              </a>
+            )}
+          </p>
+        )}
+
+        {preview && preview.jobs.length === 0 && (
+          <div className="rounded-lg border border-border p-4 text-center text-sm text-muted-foreground">
+            Every matching job already uses {preview.factorSetVersion}.
+          </div>
+        )}
+
+        {preview && preview.jobs.length > 0 && (
+          <div className="space-y-3">
+            <div className="rounded-lg border border-border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Job</TableHead>
+                    <TableHead>Current factor set</TableHead>
+                    <TableHead className="text-right">Avoided</TableHead>
+                    <TableHead className="text-right">Scope 3</TableHead>
+                    <TableHead className="text-right">Net impact</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.jobs.map((diff) => (
+                    <TableRow key={diff.jobId}>
+                      <TableCell>
+                        <div className="font-medium">{diff.erpJobNumber}</div>
+                        <div className="text-xs text-muted-foreground">{diff.clientName}</div>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {diff.before?.factorSetVersion || "Not calculated"}
+                      </TableCell>
+                      <TableCell className="text-right text-sm whitespace-nowrap">
+                        {diff.before && (
+                          <span className="text-muted-foreground">{formatKg(diff.before.avoidedEmissions)} → </span>
+                        )}
+                        {formatKg(diff.after.avoidedEmissions)}
+                      </TableCell>
+                      <TableCell className="text-right text-sm whitespace-nowrap">
+                        {diff.before && (
+                          <span className="text-muted-foreground">{formatKg(diff.before.totalScope3)} → </span>
+                        )}
+                        {formatKg(diff.after.totalScope3)}
+                      </TableCell>
+                      <TableCell className="text-right text-sm whitespace-nowrap">
+                        {diff.before && (
+                          <span className="text-muted-foreground">{formatKg(diff.before.netImpact)} → </span>
+                        )}
+                        {formatKg(diff.after.netImpact)}
+                      </TableCell>
+                      <TableCell className="text-right text-sm">
+                        <Change before={diff.before?.netImpact ?? 0} after={diff.after.netImpact} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-muted/30 font-semibold">
+                    <TableCell colSpan={2}>Total ({preview.jobs.length} jobs)</TableCell>
+                    <TableCell className="text-right text-sm whitespace-nowrap">
+                      {formatKg(preview.totals.before.avoidedEmissions)} → {formatKg(preview.totals.after.avoidedEmissions)}
+                    </TableCell>
+                    <TableCell className="text-right text-sm whitespace-nowrap">
+                      {formatKg(totalScope3(preview.totals.before))} → {formatKg(totalScope3(preview.totals.after))}
+                    </TableCell>
+                    <TableCell className="text-right text-sm whitespace-nowrap">
+                      {formatKg(preview.totals.before.netImpact)} → {formatKg(preview.totals.after.netImpact)}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      <Change before={preview.totals.before.netImpact} after={preview.totals.after.netImpact} />
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setPreview(null)} disabled={applyRestatement.isPending}>
+                Discard
+              </Button>
+              <Button onClick={handleApply} disabled={applyRestatement.isPending}>
+                {applyRestatement.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <ArrowRight className="h-4 w-4 mr-2" />
+                )}
+                Apply restatement
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {appliedRestatements.length > 0 && (
+          <div className="space-y-2 pt-2 border-t border-border">
+            <p className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+              <History className="h-3.5 w-3.5" />
+              Recent restatements
+            </p>
+            {appliedRestatements.map((restatement) => (
+              <div key={restatement.id} className="flex flex-wrap items-center justify-between gap-2 text-xs">
+                <span className="text-foreground">
+                  {restatement.jobs.length} {restatement.jobs.length === 1 ? "job" : "jobs"} restated to{" "}
+                  <Badge variant="outline" className="font-normal">
+                    {restatement.factorSetVersion}
+                  </Badge>
+                </span>
+                <span className="text-muted-foreground">
+                  {restatement.createdByName} ·{" "}
+                  {new Date(restatement.appliedAt || restatement.createdAt).toLocaleDateString("en-GB")}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+// GHG Protocol Scope 3 breakdown of the jobs on the CO₂e dashboard
+import { useMemo } from "react";
+import { Layers } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { SCOPE3_CATEGORIES, sumEmissions } from "@/lib/emission-factors";
+import type { Job } from "@/types/jobs";
+import type { Scope3Category } from "@/types/emissions";
+
+interface Scope3BreakdownCardProps {
+  jobs: Job[];
+  compact?: boolean; // Smaller type for the reseller layout
+}
+
+const formatKg = (kg: number) => (kg >= 1000 ? `${(kg / 1000).toFixed(2)}t` : `${kg.toFixed(1)}kg`);
+
+export function Scope3BreakdownCard({ jobs, compact = false }: Scope3BreakdownCardProps) {
+  const totals = useMemo(() => sumEmissions(jobs.map((job) => job.emissions)), [jobs]);
+
+  // Reports mixing factor sets should be restated before publishing
+  const factorSetVersions = useMemo(() => {
+    const counts = new Map<string, number>();
+    jobs.forEach((job) => {
+      if (!job.emissions) return;
+      counts.set(job.emissions.factorSetVersion, (counts.get(job.emissions.factorSetVersion) || 0) + 1);
+    });
+    return Array.from(counts.entries());
+  }, [jobs]);
+
+  const unstampedCount = jobs.filter((job) => !job.emissions).length;
+  const totalScope3 = totals.scope3.upstream_transport + totals.scope3.end_of_life_treatment;
+
+  return (
+    <Card>
+      <CardHeader className={compact ? "pb-3" : undefined}>
+        <CardTitle className={compact ? "text-sm flex items-center gap-2" : "text-base flex items-center gap-2"}>
+          <Layers className="h-4 w-4 text-primary" />
+          Scope 3 Emissions (GHG Protocol)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-3">
+          {(Object.keys(SCOPE3_CATEGORIES) as Scope3Category[]).map((category) => (
+            <div key={category} className="rounded-lg border border-border p-3">
+              <p className="text-xs text-muted-foreground">
+                Category {SCOPE3_CATEGORIES[category].ghgCategory} · {SCOPE3_CATEGORIES[category].label}
+              </p>
+              <p className={compact ? "text-lg font-bold text-foreground" : "text-xl font-bold text-foreground"}>
+                {formatKg(totals.scope3[category])}
+              </p>
+              <p className="text-xs text-muted-foreground mt-1">{SCOPE3_CATEGORIES[category].description}</p>
+            </div>
+          ))}
+          <div className="rounded-lg border border-border bg-muted/30 p-3">
+            <p className="text-xs text-muted-foreground">Total Scope 3</p>
+            <p className={compact ? "text-lg font-bold text-foreground" : "text-xl font-bold text-foreground"}>
+              {formatKg(totalScope3)}
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">
+              Avoided through reuse (reported separately): {formatKg(totals.avoidedEmissions)}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <span>Factor sets:</span>
+          {factorSetVersions.length === 0 && <span>None</span>}
+          {factorSetVersions.map(([version, count]) => (
+            <Badge key={version} variant="outline" className="font-normal">
+              {version} · {count} {count === 1 ? "job" : "jobs"}
+            </Badge>
+          ))}
+          {unstampedCount > 0 && (
+            <Badge className="bg-warning/20 text-warning font-normal">
+              {unstampedCount} not yet calculated
+            </Badge>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
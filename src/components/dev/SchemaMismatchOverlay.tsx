@@ -0,0 +1,71 @@
+// Development-only overlay listing backend responses that failed schema validation
+import { useState, useSyncExternalStore } from "react";
+import { AlertTriangle, ChevronDown, ChevronUp, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  clearSchemaMismatches,
+  getSchemaMismatches,
+  subscribeToSchemaMismatches,
+} from "@/lib/schema-mismatch-log";
+
+export function SchemaMismatchOverlay() {
+  const mismatches = useSyncExternalStore(subscribeToSchemaMismatches, getSchemaMismatches);
+  const [collapsed, setCollapsed] = useState(false);
+
+  if (mismatches.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 left-4 z-[100] w-[420px] max-w-[calc(100vw-2rem)] rounded-lg border border-destructive/50 bg-background shadow-lg">
+      <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+        <div className="flex items-center gap-2 text-sm font-semibold text-destructive">
+          <AlertTriangle className="h-4 w-4" />
+          Schema mismatch ({mismatches.length})
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => setCollapsed(!collapsed)}
+            aria-label={collapsed ? "Expand" : "Collapse"}
+          >
+            {collapsed ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={clearSchemaMismatches}
+            aria-label="Dismiss"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {!collapsed && (
+        <ScrollArea className="max-h-72">
+          <div className="space-y-3 p-3">
+            {mismatches.map((mismatch) => (
+              <div key={mismatch.id} className="space-y-1">
+                <p className="font-mono text-xs font-medium">
+                  {mismatch.method} {mismatch.endpoint}
+                </p>
+                <ul className="space-y-0.5">
+                  {mismatch.issues.map((issue, index) => (
+                    <li key={index} className="font-mono text-xs text-muted-foreground">
+                      <span className="text-foreground">{issue.path || "(root)"}</span>: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+// Download button for a branded PDF rendered in the browser (certificates, reports, summaries)
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import { useTenantTheme } from "@/contexts/TenantThemeContext";
+import type { PdfDocumentRequest } from "@/lib/pdf-documents";
+
+interface PdfDownloadButtonProps extends Pick<ButtonProps, "variant" | "size" | "className"> {
+  request: PdfDocumentRequest | null; // Disabled while the data is still loading
+  label?: string;
+}
+
+export function PdfDownloadButton({
+  request,
+  label = "Download PDF",
+  variant = "outline",
+  size = "sm",
+  className,
+}: PdfDownloadButtonProps) {
+  const { user } = useAuth();
+  const { tenantName, logo, primaryColor, accentColor } = useTenantTheme();
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleDownload = async () => {
+    if (!request) return;
+    setIsGenerating(true);
+    try {
+      // jsPDF is only needed here - keep it out of the main bundle
+      const { downloadPdfDocument } = await import("@/lib/pdf-documents");
+      await downloadPdfDocument(
+        request,
+        { tenantName, logo, primaryColor, accentColor },
+        { generatedBy: user?.name || tenantName }
+      );
+    } catch (error) {
+      console.error("Failed to generate PDF:", error);
+      toast.error("Failed to generate PDF", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Button variant={variant} size={size} className={className} onClick={handleDownload} disabled={!request || isGenerating}>
+      {isGenerating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+      {label}
+    </Button>
+  );
+}
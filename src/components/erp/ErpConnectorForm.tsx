@@ -0,0 +1,434 @@
+// ERP connector settings - endpoint and credentials, field mappings, sync schedule and job numbering
+import { useEffect, useState } from "react";
+import { CalendarClock, Hash, Link2, Loader2, PlugZap, Save } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTestErpConnection, useUpdateErpConnector } from "@/hooks/useErp";
+import {
+  ERP_ENTITIES,
+  ERP_SCHEDULE_TIMEZONE,
+  formatErpJobNumber,
+  isValidErpSchedule,
+  validateErpMappings,
+} from "@/lib/erp";
+import { ApiError } from "@/services/api-error";
+import type { ErpConnectorConfig, ErpEntity, UpdateErpConnectorData } from "@/types/erp";
+import { ErpMappingEditor } from "./ErpMappingEditor";
+
+type ErpConnectorDraft = Omit<UpdateErpConnectorData, "credential" | "username"> & {
+  username: string;
+  credential: string; // Empty keeps the stored credential
+};
+
+const toDraft = (connector: ErpConnectorConfig): ErpConnectorDraft => ({
+  enabled: connector.enabled,
+  endpointUrl: connector.endpointUrl,
+  authType: connector.authType,
+  username: connector.username || "",
+  credential: "",
+  mappings: connector.mappings,
+  schedule: connector.schedule,
+  jobNumbers: connector.jobNumbers,
+});
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+interface ErpConnectorFormProps {
+  connector: ErpConnectorConfig;
+}
+
+export function ErpConnectorForm({ connector }: ErpConnectorFormProps) {
+  const updateConnector = useUpdateErpConnector();
+  const testConnection = useTestErpConnection();
+  const [draft, setDraft] = useState<ErpConnectorDraft>(() => toDraft(connector));
+
+  useEffect(() => {
+    setDraft(toDraft(connector));
+  }, [connector]);
+
+  const hasChanges = JSON.stringify(draft) !== JSON.stringify(toDraft(connector));
+  const mappingErrors = validateErpMappings(draft.mappings);
+  // A new auth type needs its own credential
+  const needsCredential = !connector.credentialHint || draft.authType !== connector.authType;
+
+  const toggleScheduleEntity = (entity: ErpEntity, selected: boolean) => {
+    setDraft({
+      ...draft,
+      schedule: {
+        ...draft.schedule,
+        entities: ERP_ENTITIES.map((info) => info.entity).filter((candidate) =>
+          candidate === entity ? selected : draft.schedule.entities.includes(candidate)
+        ),
+      },
+    });
+  };
+
+  const handleTest = () => {
+    testConnection.mutate(undefined, {
+      onSuccess: (result) => {
+        if (result.ok) {
+          toast.success("Connection successful", {
+            description: result.latencyMs != null ? `${result.message} (${result.latencyMs} ms)` : result.message,
+          });
+        } else {
+          toast.error("Connection failed", { description: result.message });
+        }
+      },
+      onError: (error: Error) => {
+        toast.error("Failed to test connection", { description: error.message || "Please try again." });
+      },
+    });
+  };
+
+  const handleSave = () => {
+    if (Object.keys(mappingErrors).length > 0) {
+      toast.error("Please fix the field mappings", { description: Object.values(mappingErrors).join(". ") });
+      return;
+    }
+    if (!isValidErpSchedule(draft.schedule)) {
+      toast.error("Please choose a time for the daily sync");
+      return;
+    }
+    if (needsCredential && !draft.credential.trim()) {
+      toast.error(draft.authType === "basic" ? "Please enter the password" : "Please enter the API key");
+      return;
+    }
+
+    const { credential, username, ...settings } = draft;
+    const data: UpdateErpConnectorData = {
+      ...settings,
+      endpointUrl: draft.endpointUrl.trim(),
+      username: draft.authType === "basic" ? username.trim() : null,
+      credential: credential.trim() || undefined,
+      mappings: {
+        jobs: draft.mappings.jobs.map((mapping) => ({ ...mapping, erpField: mapping.erpField.trim() })),
+        inventory: draft.mappings.inventory.map((mapping) => ({ ...mapping, erpField: mapping.erpField.trim() })),
+        clients: draft.mappings.clients.map((mapping) => ({ ...mapping, erpField: mapping.erpField.trim() })),
+      },
+    };
+    updateConnector.mutate(data, {
+      onSuccess: () => toast.success("ERP settings saved"),
+      onError: (error: Error) => {
+        const fields = error instanceof ApiError ? error.fields : undefined;
+        toast.error("Failed to save ERP settings", {
+          description: fields ? Object.values(fields).join(". ") : error.message || "Please try again.",
+        });
+      },
+    });
+  };
+
+  const isSaving = updateConnector.isPending;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Link2 className="h-5 w-5" />
+              Connection
+            </CardTitle>
+            <CardDescription>Where records are sent and how the platform signs in to the ERP</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={draft.enabled}
+              onCheckedChange={(enabled) => setDraft({ ...draft, enabled })}
+              aria-label="Connector enabled"
+              className="data-[state=checked]:bg-success"
+              disabled={isSaving}
+            />
+            <span className="text-sm text-muted-foreground">{draft.enabled ? "Enabled" : "Disabled"}</span>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="erp-endpoint">API endpoint *</Label>
+            <Input
+              id="erp-endpoint"
+              type="url"
+              placeholder="https://erp.example.com/api"
+              value={draft.endpointUrl}
+              onChange={(e) => setDraft({ ...draft, endpointUrl: e.target.value })}
+              className="font-mono"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Authentication</Label>
+              <Select
+                value={draft.authType}
+                onValueChange={(authType) => setDraft({ ...draft, authType: authType as ErpConnectorDraft["authType"] })}
+                disabled={isSaving}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="api_key">API key</SelectItem>
+                  <SelectItem value="basic">Username and password</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {draft.authType === "basic" && (
+              <div className="space-y-2">
+                <Label htmlFor="erp-username">Username *</Label>
+                <Input
+                  id="erp-username"
+                  autoComplete="off"
+                  value={draft.username}
+                  onChange={(e) => setDraft({ ...draft, username: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="erp-credential">
+                {draft.authType === "basic" ? "Password" : "API key"}
+                {needsCredential && " *"}
+              </Label>
+              <Input
+                id="erp-credential"
+                type="password"
+                autoComplete="new-password"
+                placeholder={needsCredential ? "" : `Saved (ends ${connector.credentialHint}) - enter to replace`}
+                value={draft.credential}
+                onChange={(e) => setDraft({ ...draft, credential: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <p className="text-xs text-muted-foreground">
+              {hasChanges ? "Save your changes to test them." : "Checks the saved endpoint and credentials."}
+            </p>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleTest}
+              disabled={hasChanges || testConnection.isPending}
+            >
+              {testConnection.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <PlugZap className="h-4 w-4 mr-2" />
+              )}
+              Test Connection
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Field Mappings</CardTitle>
+          <CardDescription>
+            Choose which of our fields are sent, and the ERP field each one goes to. Records missing a required field
+            are reported in the sync history instead of being sent.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {ERP_ENTITIES.map((info) => (
+            <ErpMappingEditor
+              key={info.entity}
+              info={info}
+              mappings={draft.mappings[info.entity]}
+              onChange={(mappings) => setDraft({ ...draft, mappings: { ...draft.mappings, [info.entity]: mappings } })}
+              error={mappingErrors[info.entity]}
+              disabled={isSaving}
+            />
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <CalendarClock className="h-5 w-5" />
+              Schedule
+            </CardTitle>
+            <CardDescription>Sync automatically, or only when someone starts a sync</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Frequency</Label>
+                <Select
+                  value={draft.schedule.frequency}
+                  onValueChange={(frequency) =>
+                    setDraft({
+                      ...draft,
+                      schedule: { ...draft.schedule, frequency: frequency as ErpConnectorDraft["schedule"]["frequency"] },
+                    })
+                  }
+                  disabled={isSaving}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="manual">Manual only</SelectItem>
+                    <SelectItem value="hourly">Every hour</SelectItem>
+                    <SelectItem value="daily">Daily</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {draft.schedule.frequency === "daily" && (
+                <div className="space-y-2">
+                  <Label htmlFor="erp-sync-time">At (UK time)</Label>
+                  <Input
+                    id="erp-sync-time"
+                    type="time"
+                    value={draft.schedule.time}
+                    onChange={(e) => setDraft({ ...draft, schedule: { ...draft.schedule, time: e.target.value } })}
+                    disabled={isSaving}
+                  />
+                </div>
+              )}
+            </div>
+            {draft.schedule.frequency !== "manual" && (
+              <div className="space-y-2">
+                <Label>Records to sync</Label>
+                <div className="flex flex-wrap gap-4">
+                  {ERP_ENTITIES.map((info) => (
+                    <label key={info.entity} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={draft.schedule.entities.includes(info.entity)}
+                        onCheckedChange={(checked) => toggleScheduleEntity(info.entity, checked === true)}
+                        disabled={isSaving}
+                      />
+                      {info.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {connector.nextSyncAt
+                ? `Next scheduled sync ${formatDateTime(connector.nextSyncAt)} (${ERP_SCHEDULE_TIMEZONE}).`
+                : "No sync is scheduled."}
+              {connector.lastSyncAt && ` Last sync ${formatDateTime(connector.lastSyncAt)}.`}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Hash className="h-5 w-5" />
+              Job Numbers
+            </CardTitle>
+            <CardDescription>How the ERP job number is chosen when a booking is approved</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Numbering</Label>
+              <Select
+                value={draft.jobNumbers.mode}
+                onValueChange={(mode) =>
+                  setDraft({
+                    ...draft,
+                    jobNumbers: { ...draft.jobNumbers, mode: mode as ErpConnectorDraft["jobNumbers"]["mode"] },
+                  })
+                }
+                disabled={isSaving}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="manual">Entered by the approver</SelectItem>
+                  <SelectItem value="auto">Generated automatically</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {draft.jobNumbers.mode === "auto" && (
+              <>
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="erp-job-prefix">Prefix</Label>
+                    <Input
+                      id="erp-job-prefix"
+                      maxLength={10}
+                      value={draft.jobNumbers.prefix}
+                      onChange={(e) => setDraft({ ...draft, jobNumbers: { ...draft.jobNumbers, prefix: e.target.value } })}
+                      className="font-mono"
+                      disabled={isSaving}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="erp-job-padding">Digits</Label>
+                    <Input
+                      id="erp-job-padding"
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={draft.jobNumbers.padding}
+                      onChange={(e) =>
+                        setDraft({ ...draft, jobNumbers: { ...draft.jobNumbers, padding: Number(e.target.value) } })
+                      }
+                      disabled={isSaving}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="erp-job-sequence">Next number</Label>
+                    <Input
+                      id="erp-job-sequence"
+                      type="number"
+                      min={1}
+                      value={draft.jobNumbers.nextSequence}
+                      onChange={(e) =>
+                        setDraft({ ...draft, jobNumbers: { ...draft.jobNumbers, nextSequence: Number(e.target.value) } })
+                      }
+                      disabled={isSaving}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  The next approval gets{" "}
+                  <span className="font-mono text-foreground">{formatErpJobNumber(draft.jobNumbers)}</span>. Approvers
+                  can still enter a number by hand; numbers already in use are skipped.
+                </p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={() => setDraft(toDraft(connector))} disabled={!hasChanges || isSaving}>
+          Discard Changes
+        </Button>
+        <Button onClick={handleSave} disabled={!hasChanges || isSaving}>
+          {isSaving ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            <>
+              <Save className="h-4 w-4 mr-2" />
+              Save Settings
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
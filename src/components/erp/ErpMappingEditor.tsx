@@ -0,0 +1,106 @@
+// Field mapping editor for one ERP record type - which of our fields go to which ERP field
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ErpEntityInfo } from "@/lib/erp";
+import type { ErpFieldMapping } from "@/types/erp";
+
+interface ErpMappingEditorProps {
+  info: ErpEntityInfo;
+  mappings: ErpFieldMapping[];
+  onChange: (mappings: ErpFieldMapping[]) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+export function ErpMappingEditor({ info, mappings, onChange, error, disabled }: ErpMappingEditorProps) {
+  const unmappedFields = info.fields.filter((field) => !mappings.some((mapping) => mapping.localField === field.field));
+
+  const updateMapping = (index: number, update: Partial<ErpFieldMapping>) => {
+    onChange(mappings.map((mapping, candidate) => (candidate === index ? { ...mapping, ...update } : mapping)));
+  };
+
+  const addMapping = () => {
+    if (unmappedFields.length === 0) return;
+    onChange([...mappings, { localField: unmappedFields[0].field, erpField: "" }]);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="font-medium">{info.label}</p>
+          <p className="text-xs text-muted-foreground">{info.description}</p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addMapping}
+          disabled={disabled || unmappedFields.length === 0}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Field
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {mappings.map((mapping, index) => {
+          const field = info.fields.find((candidate) => candidate.field === mapping.localField);
+          // A field can be picked if it's this row's or not mapped yet
+          const options = info.fields.filter(
+            (candidate) => candidate.field === mapping.localField || unmappedFields.includes(candidate)
+          );
+          return (
+            <div key={mapping.localField} className="grid grid-cols-[1fr_1fr_auto] items-center gap-2">
+              <Select
+                value={mapping.localField}
+                onValueChange={(value) => updateMapping(index, { localField: value })}
+                disabled={disabled}
+              >
+                <SelectTrigger aria-label="Our field">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map((option) => (
+                    <SelectItem key={option.field} value={option.field}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={mapping.erpField}
+                onChange={(e) => updateMapping(index, { erpField: e.target.value })}
+                placeholder="ERP field name"
+                aria-label="ERP field"
+                className="font-mono"
+                disabled={disabled}
+              />
+              {field?.required ? (
+                <Badge variant="outline" className="justify-center">
+                  Required
+                </Badge>
+              ) : (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onChange(mappings.filter((_, candidate) => candidate !== index))}
+                  aria-label={`Remove ${field?.label || mapping.localField} mapping`}
+                  disabled={disabled}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+// ERP sync history - each run's counts and per-record errors, with retry of failed records
+import { Fragment, useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, History, Loader2, RefreshCw, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useErpSyncRuns, useRetryErpSyncRun, useStartErpSync } from "@/hooks/useErp";
+import { ERP_ENTITIES, erpSyncRunStatusConfig, erpSyncTriggerLabels, getErpEntityInfo } from "@/lib/erp";
+import type { ErpEntity, ErpSyncRun, ErpSyncRunStatus } from "@/types/erp";
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const describeRun = (run: ErpSyncRun) =>
+  run.message ||
+  `${run.synced} synced (${run.created} created, ${run.updated} updated)${run.failed > 0 ? `, ${run.failed} failed` : ""}`;
+
+interface ErpSyncHistoryProps {
+  initialRunId?: string | null; // Run to open, e.g. linked from the inventory sync toast
+}
+
+export function ErpSyncHistory({ initialRunId }: ErpSyncHistoryProps) {
+  const [statusFilter, setStatusFilter] = useState<ErpSyncRunStatus | "all">("all");
+  const [syncScope, setSyncScope] = useState<ErpEntity | "all">("all");
+  const [expandedId, setExpandedId] = useState<string | null>(initialRunId || null);
+  const [selectedErrorIds, setSelectedErrorIds] = useState<string[]>([]);
+
+  const { data: runs = [], isLoading } = useErpSyncRuns(statusFilter === "all" ? undefined : statusFilter);
+  const startSync = useStartErpSync();
+  const retryRun = useRetryErpSyncRun();
+
+  useEffect(() => {
+    if (initialRunId) setExpandedId(initialRunId);
+  }, [initialRunId]);
+
+  const toggleRun = (runId: string) => {
+    setExpandedId(expandedId === runId ? null : runId);
+    setSelectedErrorIds([]);
+  };
+
+  const showRunResult = (run: ErpSyncRun, successTitle: string) => {
+    if (run.status === "succeeded") {
+      toast.success(successTitle, { description: describeRun(run) });
+    } else {
+      toast.error(run.status === "failed" ? "Sync failed" : "Some records failed to sync", {
+        description: describeRun(run),
+      });
+    }
+  };
+
+  const handleStartSync = () => {
+    const entities = syncScope === "all" ? ERP_ENTITIES.map((info) => info.entity) : [syncScope];
+    startSync.mutate(
+      { entities },
+      {
+        onSuccess: (run) => {
+          setExpandedId(run.id);
+          setSelectedErrorIds([]);
+          showRunResult(run, "Sync complete");
+        },
+        onError: (error: Error) => {
+          toast.error("Failed to start sync", { description: error.message || "Please try again." });
+        },
+      }
+    );
+  };
+
+  const handleRetry = (run: ErpSyncRun, errorIds?: string[]) => {
+    retryRun.mutate(
+      { runId: run.id, errorIds },
+      {
+        onSuccess: (retry) => {
+          setExpandedId(retry.id);
+          setSelectedErrorIds([]);
+          showRunResult(retry, "Failed records synced");
+        },
+        onError: (error: Error) => {
+          toast.error("Failed to retry records", { description: error.message || "Please try again." });
+        },
+      }
+    );
+  };
+
+  const toggleError = (errorId: string, selected: boolean) => {
+    setSelectedErrorIds(selected ? [...selectedErrorIds, errorId] : selectedErrorIds.filter((id) => id !== errorId));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 space-y-0 lg:flex-row lg:items-start lg:justify-between">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <History className="h-5 w-5" />
+            Sync History
+          </CardTitle>
+          <CardDescription>Every manual, scheduled and retry run, with the records the ERP rejected</CardDescription>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ErpSyncRunStatus | "all")}>
+            <SelectTrigger className="w-[150px]" aria-label="Filter by status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All runs</SelectItem>
+              {(Object.keys(erpSyncRunStatusConfig) as ErpSyncRunStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>
+                  {erpSyncRunStatusConfig[status].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={syncScope} onValueChange={(value) => setSyncScope(value as ErpEntity | "all")}>
+            <SelectTrigger className="w-[150px]" aria-label="Records to sync">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Everything</SelectItem>
+              {ERP_ENTITIES.map((info) => (
+                <SelectItem key={info.entity} value={info.entity}>
+                  {info.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={handleStartSync} disabled={startSync.isPending}>
+            {startSync.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            Sync Now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : runs.length === 0 ? (
+          <div className="text-center py-8">
+            <History className="h-10 w-10 mx-auto text-muted-foreground/50 mb-3" />
+            <p className="text-muted-foreground">No sync runs yet</p>
+            <p className="text-sm text-muted-foreground">Start a sync, or set a schedule on the Connector tab</p>
+          </div>
+        ) : (
+          <div className="rounded-lg border overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-muted/30 text-left text-xs text-muted-foreground">
+                  <th className="p-3 font-medium">Run</th>
+                  <th className="p-3 font-medium">Status</th>
+                  <th className="p-3 font-medium">Result</th>
+                  <th className="p-3 font-medium">Started</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((run) => {
+                  const isExpanded = expandedId === run.id;
+                  const status = erpSyncRunStatusConfig[run.status];
+                  const openErrors = run.errors.filter((error) => !error.resolvedAt);
+                  const retryableErrors = openErrors.filter((error) => error.retryable);
+                  return (
+                    <Fragment key={run.id}>
+                      <tr
+                        className="border-b last:border-b-0 cursor-pointer hover:bg-muted/20"
+                        onClick={() => toggleRun(run.id)}
+                      >
+                        <td className="p-3">
+                          <div className="flex items-center gap-2">
+                            {isExpanded ? (
+                              <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                            ) : (
+                              <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                            )}
+                            <div>
+                              <p className="font-medium">
+                                {run.entities.map((entity) => getErpEntityInfo(entity).label).join(", ")}
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                {erpSyncTriggerLabels[run.trigger]}
+                                {run.startedBy && ` by ${run.startedBy}`}
+                              </p>
+                            </div>
+                          </div>
+                        </td>
+                        <td className="p-3">
+                          <Badge variant="secondary" className={status.className}>
+                            {status.label}
+                          </Badge>
+                        </td>
+                        <td className="p-3 text-xs text-muted-foreground">{describeRun(run)}</td>
+                        <td className="p-3 text-xs text-muted-foreground whitespace-nowrap">{formatTime(run.startedAt)}</td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="border-b last:border-b-0 bg-muted/10">
+                          <td colSpan={4} className="p-3">
+                            {run.errors.length === 0 ? (
+                              <p className="py-2 text-center text-xs text-muted-foreground">
+                                {run.message || "Every record was accepted by the ERP."}
+                              </p>
+                            ) : (
+                              <div className="space-y-3">
+                                <div className="flex flex-wrap items-center justify-between gap-2">
+                                  <p className="text-xs text-muted-foreground">
+                                    {openErrors.length === 0
+                                      ? "All failed records have since been synced."
+                                      : `${openErrors.length} unresolved. Timeouts can be retried as they are; fix the record or its mapping before retrying the rest.`}
+                                  </p>
+                                  <div className="flex gap-2">
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => handleRetry(run, selectedErrorIds)}
+                                      disabled={selectedErrorIds.length === 0 || retryRun.isPending}
+                                    >
+                                      Retry Selected
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      onClick={() => handleRetry(run)}
+                                      disabled={retryableErrors.length === 0 || retryRun.isPending}
+                                    >
+                                      {retryRun.isPending ? (
+                                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                      ) : (
+                                        <RotateCcw className="h-4 w-4 mr-2" />
+                                      )}
+                                      Retry Failed ({retryableErrors.length})
+                                    </Button>
+                                  </div>
+                                </div>
+                                <div className="rounded-md border bg-background">
+                                  {run.errors.map((error) => (
+                                    <div
+                                      key={error.id}
+                                      className="flex items-start gap-3 border-b p-3 last:border-b-0 text-xs"
+                                    >
+                                      <Checkbox
+                                        checked={selectedErrorIds.includes(error.id)}
+                                        onCheckedChange={(checked) => toggleError(error.id, checked === true)}
+                                        disabled={!!error.resolvedAt}
+                                        aria-label={`Select ${error.recordLabel}`}
+                                      />
+                                      <div className="min-w-0 flex-1">
+                                        <p className="font-medium">
+                                          {getErpEntityInfo(error.entity).label}:{" "}
+                                          <span className="font-mono">{error.recordLabel}</span>
+                                        </p>
+                                        <p className="text-muted-foreground">{error.message}</p>
+                                      </div>
+                                      {error.resolvedAt ? (
+                                        <Badge variant="secondary" className="bg-success/10 text-success">
+                                          Resolved
+                                        </Badge>
+                                      ) : (
+                                        <Badge variant="outline">{error.retryable ? "Retryable" : "Needs fixing"}</Badge>
+                                      )}
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
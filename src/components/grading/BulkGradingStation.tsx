@@ -0,0 +1,538 @@
+// Grading workstation - scan devices off a pallet, grade them with hotkeys and submit the batch in one go
+import { useEffect, useMemo, useRef, useState } from "react";
+import { AlertTriangle, Award, Keyboard, Loader2, ScanBarcode, X } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useCalculateResaleValues, useCreateBulkGradingRecords } from "@/hooks/useGrading";
+import { BarcodeScanButton } from "@/components/scanner/BarcodeScanner";
+import { extractImei, getImeiError } from "@/lib/barcode";
+import { normaliseSerialNumber } from "@/lib/blancco";
+import {
+  buildConditionCode,
+  defectOptions,
+  describeDefects,
+  getGradedIdentifiers,
+  getHotkeyLabel,
+  gradeOptions,
+  isInventoryGrade,
+  looksLikeImei,
+  toggleDefect,
+} from "@/lib/grading";
+import { categoryRequiresImei } from "@/lib/jml-assets";
+import { cn } from "@/lib/utils";
+import { ApiError } from "@/services/api-error";
+import type { GradingRecord } from "@/mocks/mock-entities";
+import type { Grade } from "@/types/grading";
+
+interface ScanRow {
+  key: string;
+  assetId: string;
+  serialNumber: string;
+  imei?: string;
+  grade?: Grade;
+  make?: string; // For the condition code
+  defects: string[]; // Toggled with hotkeys
+}
+
+interface BulkGradingStationProps {
+  bookingId: string;
+  assets: Array<{ categoryId: string; categoryName: string; quantity: number }>;
+  records: GradingRecord[];
+  deviceMakes: Record<string, string | undefined>; // By asset category ID, from JML device details
+  onClose: () => void;
+}
+
+export function BulkGradingStation({ bookingId, assets, records, deviceMakes, onClose }: BulkGradingStationProps) {
+  const createRecords = useCreateBulkGradingRecords();
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  const nextKey = useRef(1);
+  const [assetId, setAssetId] = useState<string>(assets.length === 1 ? assets[0].categoryId : "");
+  // Pallets (ITAD collections) don't come with device details, so the make is entered at the station
+  const [make, setMake] = useState<string>(assets.length === 1 ? deviceMakes[assets[0].categoryId] || "" : "");
+  const [scanValue, setScanValue] = useState("");
+  const [rows, setRows] = useState<ScanRow[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [defaultGrade, setDefaultGrade] = useState<Grade | undefined>();
+  const [rowErrors, setRowErrors] = useState<Record<string, string>>({});
+
+  const gradedIdentifiers = useMemo(() => getGradedIdentifiers(records), [records]);
+  const assetsById = useMemo(() => new Map(assets.map((asset) => [asset.categoryId, asset])), [assets]);
+
+  const remainingFor = (categoryId: string) => {
+    const asset = assetsById.get(categoryId);
+    const graded = records
+      .filter((record) => record.assetId === categoryId)
+      .reduce((sum, record) => sum + (record.quantity || 0), 0);
+    const scanned = rows.filter((row) => row.assetId === categoryId).length;
+    return Math.max(0, (asset?.quantity || 0) - graded - scanned);
+  };
+
+  const getCondition = (row: ScanRow) => (row.grade ? buildConditionCode(row.make, row.grade) : "");
+
+  const getProblem = (row: ScanRow) => {
+    if (rowErrors[row.key]) return rowErrors[row.key];
+    if (!row.grade) return "Grade required";
+    const asset = assetsById.get(row.assetId);
+    if (isInventoryGrade(row.grade) && !row.imei && categoryRequiresImei(asset?.categoryName || "")) {
+      return "Scan the IMEI";
+    }
+    if (!getCondition(row)) return "Enter the device make";
+    return null;
+  };
+
+  const focusScanInput = () => scanInputRef.current?.focus();
+
+  const updateRow = (key: string, changes: Partial<ScanRow>) => {
+    setRows((current) => current.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+    setRowErrors((current) => {
+      const { [key]: _, ...rest } = current;
+      return rest;
+    });
+  };
+
+  const removeRow = (key: string) => {
+    const index = rows.findIndex((row) => row.key === key);
+    const remaining = rows.filter((row) => row.key !== key);
+    setRows(remaining);
+    if (selectedKey === key) {
+      setSelectedKey(remaining[Math.min(index, remaining.length - 1)]?.key ?? null);
+    }
+    focusScanInput();
+  };
+
+  const findDuplicate = (value: string) => {
+    if (gradedIdentifiers.has(value)) return `${value} has already been graded on this booking`;
+    if (rows.some((row) => row.serialNumber === value || row.imei === value)) {
+      return `${value} is already in this batch`;
+    }
+    return null;
+  };
+
+  const handleScan = (scanned: string) => {
+    const value = normaliseSerialNumber(extractImei(scanned));
+    setScanValue("");
+    if (!value) return;
+
+    const asset = assetsById.get(assetId);
+    if (!asset) {
+      toast.error("Choose the asset category first");
+      return;
+    }
+    const duplicate = findDuplicate(value);
+    if (duplicate) {
+      toast.error("Duplicate scan rejected", { description: duplicate });
+      return;
+    }
+
+    // For phones and tablets a 15-digit scan after the serial is that device's IMEI
+    const selected = rows.find((row) => row.key === selectedKey);
+    if (
+      looksLikeImei(value) &&
+      categoryRequiresImei(asset.categoryName) &&
+      selected?.assetId === asset.categoryId &&
+      !selected.imei
+    ) {
+      const imeiError = getImeiError(value);
+      if (imeiError) {
+        toast.error("Invalid IMEI", { description: imeiError });
+        return;
+      }
+      updateRow(selected.key, { imei: value });
+      return;
+    }
+
+    if (remainingFor(asset.categoryId) === 0) {
+      toast.error(`No ungraded ${asset.categoryName} left on this booking`);
+      return;
+    }
+    const key = `scan-${nextKey.current++}`;
+    setRows((current) => [
+      ...current,
+      {
+        key,
+        assetId: asset.categoryId,
+        serialNumber: value,
+        grade: defaultGrade,
+        make: make.trim() || undefined,
+        defects: [],
+      },
+    ]);
+    setSelectedKey(key);
+  };
+
+  // Hotkeys apply to the selected row, so scanning and grading never leave the keyboard
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!e.altKey) return;
+      const grade = gradeOptions.find((option) => option.hotkey === e.code);
+      const defect = defectOptions.find((option) => option.hotkey === e.code);
+      if (e.code === "ArrowUp" || e.code === "ArrowDown") {
+        e.preventDefault();
+        const index = rows.findIndex((row) => row.key === selectedKey);
+        const nextIndex = e.code === "ArrowUp" ? Math.max(0, index - 1) : Math.min(rows.length - 1, index + 1);
+        if (rows[nextIndex]) setSelectedKey(rows[nextIndex].key);
+        return;
+      }
+      if (!grade && !defect) return;
+      e.preventDefault();
+      const selected = rows.find((row) => row.key === selectedKey);
+      if (grade) {
+        // New scans take the last grade used - pallets tend to be graded in runs
+        setDefaultGrade(grade.value);
+        if (selected) updateRow(selected.key, { grade: grade.value });
+      } else if (defect && selected) {
+        updateRow(selected.key, { defects: toggleDefect(selected.defects, defect.code) });
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [rows, selectedKey]);
+
+  const totals = useMemo(() => {
+    const groups = new Map<string, { assetId: string; category: string; grade: Grade; quantity: number }>();
+    rows.forEach((row) => {
+      if (!row.grade) return;
+      const asset = assetsById.get(row.assetId);
+      const key = `${row.assetId}|${row.grade}`;
+      const group = groups.get(key) || {
+        assetId: row.assetId,
+        category: asset?.categoryName || row.assetId,
+        grade: row.grade,
+        quantity: 0,
+      };
+      group.quantity += 1;
+      groups.set(key, group);
+    });
+    return Array.from(groups.values()).sort(
+      (a, b) => a.category.localeCompare(b.category) || a.grade.localeCompare(b.grade)
+    );
+  }, [rows, assetsById]);
+
+  const resaleValues = useCalculateResaleValues(totals);
+  const totalResaleValue = resaleValues.reduce((sum, query) => sum + (query.data || 0), 0);
+  const problemCount = rows.filter((row) => getProblem(row)).length;
+
+  const handleSubmit = () => {
+    if (rows.length === 0) return;
+    if (problemCount > 0) {
+      toast.error(`${problemCount} ${problemCount === 1 ? "device needs" : "devices need"} attention`, {
+        description: "Every device needs a grade and make for its condition code, and phones and tablets an IMEI.",
+      });
+      return;
+    }
+
+    const submitted = rows;
+    createRecords.mutate(
+      {
+        bookingId,
+        items: submitted.map((row) => ({
+          assetId: row.assetId,
+          assetCategory: assetsById.get(row.assetId)?.categoryName || row.assetId,
+          grade: row.grade!,
+          condition: getCondition(row),
+          defects: row.defects.length > 0 ? row.defects : undefined,
+          serialNumber: row.serialNumber,
+          imei: row.imei || null,
+        })),
+      },
+      {
+        onSuccess: (result) => {
+          toast.success(`${result.graded} ${result.graded === 1 ? "device" : "devices"} graded`, {
+            description: `Estimated resale value: £${totalResaleValue.toLocaleString()}`,
+          });
+          setRows([]);
+          setSelectedKey(null);
+          setRowErrors({});
+          focusScanInput();
+        },
+        onError: (error: Error) => {
+          // Field keys are items.<index>.<field>, in the order the batch was sent
+          const fields = error instanceof ApiError ? error.fields : undefined;
+          if (fields) {
+            const errors: Record<string, string> = {};
+            Object.entries(fields).forEach(([field, message]) => {
+              const row = submitted[Number(field.split(".")[1])];
+              if (row && !errors[row.key]) errors[row.key] = message;
+            });
+            setRowErrors(errors);
+          }
+          toast.error("Failed to grade batch", { description: error.message || "Please try again." });
+        },
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ScanBarcode className="h-5 w-5" />
+            Bulk Grading
+          </CardTitle>
+          <CardDescription>
+            Scan each device's serial number (then its IMEI for phones and tablets), grade it with the hotkeys and
+            submit the batch when the pallet is done
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close bulk grading">
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-[220px_160px_1fr]">
+          <div className="space-y-2">
+            <Label htmlFor="bulk-asset">Asset Category</Label>
+            <Select
+              value={assetId}
+              onValueChange={(value) => {
+                setAssetId(value);
+                setMake(deviceMakes[value] || "");
+                setTimeout(focusScanInput);
+              }}
+            >
+              <SelectTrigger id="bulk-asset">
+                <SelectValue placeholder="Select asset category..." />
+              </SelectTrigger>
+              <SelectContent>
+                {assets.map((asset) => (
+                  <SelectItem key={asset.categoryId} value={asset.categoryId}>
+                    {asset.categoryName} ({remainingFor(asset.categoryId)} left)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-make">Device Make</Label>
+            <Input
+              id="bulk-make"
+              value={make}
+              onChange={(e) => setMake(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  focusScanInput();
+                }
+              }}
+              placeholder="e.g. Dell"
+              autoComplete="off"
+              disabled={createRecords.isPending}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-scan">Scan</Label>
+            <div className="flex gap-2">
+              <Input
+                ref={scanInputRef}
+                id="bulk-scan"
+                value={scanValue}
+                onChange={(e) => setScanValue(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleScan(scanValue);
+                  }
+                }}
+                placeholder="Scan or type a serial number / IMEI and press Enter"
+                className="font-mono"
+                autoComplete="off"
+                autoFocus
+                disabled={createRecords.isPending}
+              />
+              <BarcodeScanButton
+                title="Scan Devices"
+                description="Scan each device's serial number, then its IMEI for phones and tablets"
+                continuous
+                disabled={createRecords.isPending}
+                onScan={handleScan}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="rounded-lg border bg-muted/50 p-3 space-y-2 text-xs">
+          <p className="flex items-center gap-1 font-medium text-muted-foreground">
+            <Keyboard className="h-3 w-3" />
+            Hotkeys apply to the selected device (Alt+↑/↓ to move)
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {gradeOptions.map((option) => (
+              <Badge key={option.value} variant="secondary" className={cn("font-normal", option.color)}>
+                {getHotkeyLabel(option.hotkey)} {option.label}
+              </Badge>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {defectOptions.map((option) => (
+              <Badge key={option.code} variant="outline" className="font-normal">
+                {getHotkeyLabel(option.hotkey)} {option.code} · {option.label}
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No devices scanned yet</p>
+        ) : (
+          <div className="rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Serial Number</TableHead>
+                  <TableHead>IMEI</TableHead>
+                  <TableHead>Make</TableHead>
+                  <TableHead>Grade</TableHead>
+                  <TableHead>Condition</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, index) => {
+                  const problem = getProblem(row);
+                  const grade = gradeOptions.find((option) => option.value === row.grade);
+                  return (
+                    <TableRow
+                      key={row.key}
+                      onClick={() => {
+                        setSelectedKey(row.key);
+                        focusScanInput();
+                      }}
+                      className={cn("cursor-pointer", row.key === selectedKey && "bg-accent/10 hover:bg-accent/10")}
+                    >
+                      <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                      <TableCell>{assetsById.get(row.assetId)?.categoryName}</TableCell>
+                      <TableCell className="font-mono">{row.serialNumber}</TableCell>
+                      <TableCell className="font-mono">{row.imei || "—"}</TableCell>
+                      <TableCell>
+                        <Input
+                          value={row.make || ""}
+                          onChange={(e) => updateRow(row.key, { make: e.target.value || undefined })}
+                          onClick={(e) => e.stopPropagation()}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") {
+                              e.preventDefault();
+                              focusScanInput();
+                            }
+                          }}
+                          placeholder="Make"
+                          aria-label={`Make of ${row.serialNumber}`}
+                          className="h-8 w-28"
+                          autoComplete="off"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {grade ? (
+                          <Badge variant="secondary" className={grade.color}>
+                            {grade.label}
+                          </Badge>
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          <span className="font-mono">{getCondition(row) || "—"}</span>
+                          {row.defects.length > 0 && (
+                            <p className="text-xs text-muted-foreground">{describeDefects(row.defects)}</p>
+                          )}
+                          {problem && (
+                            <p className="flex items-center gap-1 text-xs text-destructive">
+                              <AlertTriangle className="h-3 w-3" />
+                              {problem}
+                            </p>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            removeRow(row.key);
+                          }}
+                          aria-label={`Remove ${row.serialNumber}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {totals.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Batch Totals</p>
+            <div className="rounded-lg border divide-y text-sm">
+              {totals.map((group, index) => (
+                <div key={`${group.assetId}-${group.grade}`} className="flex items-center justify-between gap-4 p-3">
+                  <span>
+                    {group.category} · Grade {group.grade}
+                  </span>
+                  <span className="flex items-center gap-4">
+                    <span className="text-muted-foreground">
+                      {group.quantity} unit{group.quantity === 1 ? "" : "s"}
+                    </span>
+                    <span className="font-semibold w-24 text-right">
+                      {resaleValues[index]?.isLoading ? (
+                        <Loader2 className="h-4 w-4 animate-spin inline" />
+                      ) : (
+                        `£${(resaleValues[index]?.data || 0).toLocaleString()}`
+                      )}
+                    </span>
+                  </span>
+                </div>
+              ))}
+              <div className="flex items-center justify-between gap-4 p-3 font-semibold">
+                <span>Estimated Resale Value</span>
+                <span>£{totalResaleValue.toLocaleString()}</span>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={handleSubmit} disabled={rows.length === 0 || createRecords.isPending}>
+            {createRecords.isPending ? (
+              <>
+                <Loader2 className="animate-spin" />
+                Grading...
+              </>
+            ) : (
+              <>
+                <Award />
+                Grade {rows.length} {rows.length === 1 ? "Device" : "Devices"}
+              </>
+            )}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => {
+              setRows([]);
+              setSelectedKey(null);
+              setRowErrors({});
+              focusScanInput();
+            }}
+            disabled={rows.length === 0 || createRecords.isPending}
+          >
+            Clear
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
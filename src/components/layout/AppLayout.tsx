@@ -1,11 +1,10 @@
-import { useState, useRef, useEffect } from "react";
+import { useState } from "react";
 import { SidebarProvider, SidebarTrigger, SidebarInset } from "@/components/ui/sidebar";
 import { AppSidebar } from "./AppSidebar";
 import { Outlet, useLocation, useNavigate } from "react-router-dom";
-import { Bell, Search, Loader2, FileText, Building2, Truck, CheckCircle2, AlertCircle, Info } from "lucide-react";
+import { Bell, Search, Loader2, CheckCircle2, AlertCircle, Info } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { useSearch } from "@/hooks/useSearch";
+import { CommandPalette } from "./CommandPalette";
 import { cn } from "@/lib/utils";
 import {
   Popover,
@@ -31,14 +30,12 @@ const pageTitles: Record<string, string> = {
 export function AppLayout() {
   const location = useLocation();
   const navigate = useNavigate();
-  const [searchQuery, setSearchQuery] = useState("");
-  const [isSearchOpen, setIsSearchOpen] = useState(false);
-  const searchInputRef = useRef<HTMLInputElement>(null);
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
   const pageTitle = pageTitles[location.pathname] || 
     (location.pathname.startsWith("/jobs/") ? "Job Details" : "Reuse");
 
-  const { data: searchResults, isLoading: isSearching } = useSearch(searchQuery);
-  
+  const searchShortcut = typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform) ? "⌘K" : "Ctrl K";
+
   // Notification state from context
   const { notifications, unreadCount, markAsRead, markAllAsRead, refreshNotifications, isMarkingAllAsRead } = useNotifications();
   const [isNotificationPopoverOpen, setIsNotificationPopoverOpen] = useState(false);
@@ -65,57 +62,6 @@ export function AppLayout() {
   const { data: isResellerProfileComplete } = useOrganisationProfileComplete(isReseller);
   const hasIncompleteResellerProfile = isReseller && !isResellerProfileComplete;
 
-  // Close search when clicking outside
-  useEffect(() => {
-    const handleClickOutside = (event: MouseEvent) => {
-      const target = event.target as Node;
-      if (searchInputRef.current && 
-          !searchInputRef.current.contains(target) &&
-          !(target instanceof Element && target.closest('[data-search-dropdown]'))) {
-        setIsSearchOpen(false);
-      }
-    };
-
-    if (isSearchOpen) {
-      document.addEventListener('mousedown', handleClickOutside);
-      return () => document.removeEventListener('mousedown', handleClickOutside);
-    }
-  }, [isSearchOpen]);
-
-  const handleSearchChange = (value: string) => {
-    setSearchQuery(value);
-    setIsSearchOpen(value.length >= 2);
-  };
-
-  const handleResultClick = (url: string) => {
-    navigate(url);
-    setSearchQuery("");
-    setIsSearchOpen(false);
-    searchInputRef.current?.blur();
-  };
-
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Escape') {
-      setIsSearchOpen(false);
-      searchInputRef.current?.blur();
-    } else if (e.key === 'Enter' && searchResults?.results && searchResults.results.length > 0) {
-      handleResultClick(searchResults.results[0].url);
-    }
-  };
-
-  const getResultIcon = (type: string) => {
-    switch (type) {
-      case 'job':
-        return <Truck className="h-4 w-4" />;
-      case 'client':
-        return <Building2 className="h-4 w-4" />;
-      case 'booking':
-        return <FileText className="h-4 w-4" />;
-      default:
-        return <Search className="h-4 w-4" />;
-    }
-  };
-
   const getNotificationIcon = (type: 'success' | 'warning' | 'info' | 'error') => {
     switch (type) {
       case 'success':
@@ -239,72 +185,27 @@ export function AppLayout() {
 
             <div className="flex items-center gap-3">
               {/* Search */}
-              <div className="relative hidden md:block" ref={searchInputRef}>
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
-                <Input
-                  ref={searchInputRef}
-                  placeholder="Search jobs, clients..."
-                  value={searchQuery}
-                  onChange={(e) => handleSearchChange(e.target.value)}
-                  onKeyDown={handleKeyDown}
-                  onFocus={() => {
-                    if (searchQuery.length >= 2) {
-                      setIsSearchOpen(true);
-                    }
-                  }}
-                  className="w-64 pl-9 bg-secondary/50 border-0 focus-visible:ring-1"
-                />
-                {isSearching && (
-                  <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
-                )}
-
-                {/* Search Results Dropdown */}
-                {isSearchOpen && searchQuery.length >= 2 && (
-                  <div data-search-dropdown className="absolute top-full right-0 mt-2 w-[400px] rounded-lg border bg-popover shadow-lg z-50">
-                    <div className="max-h-[400px] overflow-y-auto">
-                      {isSearching ? (
-                        <div className="p-8 text-center">
-                          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mx-auto" />
-                        </div>
-                      ) : searchResults?.results && searchResults.results.length > 0 ? (
-                        <>
-                          <div className="p-2 text-xs font-semibold text-muted-foreground uppercase border-b">
-                            {searchResults.total} result{searchResults.total !== 1 ? 's' : ''}
-                          </div>
-                          {searchResults.results.map((result) => (
-                            <button
-                              key={`${result.type}-${result.id}`}
-                              onClick={() => handleResultClick(result.url)}
-                              className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-secondary transition-colors border-b last:border-b-0"
-                            >
-                              <div className={cn(
-                                "flex items-center justify-center w-8 h-8 rounded-lg",
-                                result.type === 'job' && "bg-primary/10 text-primary",
-                                result.type === 'client' && "bg-accent/10 text-accent",
-                                result.type === 'booking' && "bg-info/10 text-info"
-                              )}>
-                                {getResultIcon(result.type)}
-                              </div>
-                              <div className="flex-1 min-w-0">
-                                <div className="font-medium text-sm text-foreground truncate">
-                                  {result.title}
-                                </div>
-                                <div className="text-xs text-muted-foreground truncate">
-                                  {result.subtitle}
-                                </div>
-                              </div>
-                            </button>
-                          ))}
-                        </>
-                      ) : (
-                        <div className="p-8 text-center text-sm text-muted-foreground">
-                          No results found for "{searchQuery}"
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                )}
-              </div>
+              <Button
+                variant="ghost"
+                onClick={() => setIsCommandPaletteOpen(true)}
+                className="hidden md:flex w-64 justify-start gap-2 bg-secondary/50 font-normal text-muted-foreground"
+              >
+                <Search className="h-4 w-4" />
+                <span className="flex-1 text-left">Search...</span>
+                <kbd className="pointer-events-none rounded border bg-background px-1.5 font-mono text-[10px] font-medium">
+                  {searchShortcut}
+                </kbd>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="md:hidden"
+                onClick={() => setIsCommandPaletteOpen(true)}
+                aria-label="Search"
+              >
+                <Search className="h-5 w-5" />
+              </Button>
+              <CommandPalette open={isCommandPaletteOpen} onOpenChange={setIsCommandPaletteOpen} />
 
               {/* Notifications */}
               <Popover open={isNotificationPopoverOpen} onOpenChange={(open) => {
@@ -15,12 +15,18 @@ import {
   MapPin,
   Icon,
   Briefcase,
-  Package
+  Package,
+  Warehouse,
+  CalendarClock,
+  Contact
 } from "lucide-react";
+import type { ComponentType } from "react";
 import { steeringWheel } from "@lucide/lab";
 import { NavLink, useLocation } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/contexts/AuthContext";
+import type { UserRole } from "@/types/auth";
+import type { Permission } from "@/types/permissions";
 import { useTenantTheme } from "@/contexts/TenantThemeContext";
 import { useClientProfile } from "@/hooks/useClients";
 import { useOrganisationProfile } from "@/hooks/useOrganisationProfile";
@@ -55,31 +61,39 @@ const SteeringWheelIcon = ({ className }: { className?: string }) => {
   return <Icon iconNode={steeringWheel} className={className} />;
 };
 
-// Role-based navigation items
-const getMainNavItems = (role: string) => {
-  const baseItems = [
-    { title: "Dashboard", url: "/", icon: LayoutDashboard, roles: ['admin', 'client', 'reseller', 'driver'] },
-    { title: "New Booking", url: "/booking", icon: Plus, roles: ['admin', 'client'] },
-    { title: "Jobs", url: "/jobs", icon: Briefcase, roles: ['admin', 'client', 'reseller', 'driver'] },
-    { title: "Route & Schedule", url: "/driver/schedule", icon: RouteIcon, roles: ['driver'] },
-    { title: "Job History", url: "/jobs/history", icon: Clock, roles: ['driver'] },
-    { title: "Bookings", url: "/bookings", icon: FileText, roles: ['admin', 'client', 'reseller'] },
-    { title: "Booking Queue", url: "/admin/bookings", icon: ClipboardList, roles: ['admin'] },
-    { title: "Users", url: "/users", icon: Users, roles: ['admin'] },
-    { title: "Clients", url: "/clients", icon: Building2, roles: ['admin', 'reseller'] },
-    { title: "Sites", url: "/sites", icon: MapPin, roles: ['admin', 'client'] },
-    { title: "Inventory", url: "/inventory", icon: Package, roles: ['admin', 'client'] },
-    { title: "Drivers", url: "/admin/drivers", icon: SteeringWheelIcon, roles: ['admin'] },
-    { title: "Vehicles", url: "/admin/vehicles", icon: Truck, roles: ['admin'] },
-    { title: "CO₂e Dashboard", url: "/co2e", icon: Leaf, roles: ['admin', 'client', 'reseller'] },
-    { title: "Documents", url: "/documents", icon: FileText, roles: ['admin', 'client', 'reseller'] },
-  ];
-  
-  return baseItems.filter(item => item.roles.includes(role));
-};
+// Navigation items - `permission` is checked against the user's permission policy,
+// `roles` limits items that only make sense in one role's app experience
+interface NavItem {
+  title: string;
+  url: string;
+  icon: ComponentType<{ className?: string }>;
+  permission?: Permission;
+  roles?: UserRole[];
+}
+
+const mainNavItems: NavItem[] = [
+  { title: "Dashboard", url: "/", icon: LayoutDashboard },
+  { title: "New Booking", url: "/booking", icon: Plus, permission: 'bookings.create', roles: ['admin', 'client'] },
+  { title: "Jobs", url: "/jobs", icon: Briefcase, permission: 'jobs.view' },
+  { title: "Route & Schedule", url: "/driver/schedule", icon: RouteIcon, roles: ['driver'] },
+  { title: "Job History", url: "/jobs/history", icon: Clock, roles: ['driver'] },
+  { title: "Bookings", url: "/bookings", icon: FileText, permission: 'bookings.view' },
+  { title: "JML Schedule", url: "/jml/schedule", icon: CalendarClock, permission: 'bookings.view', roles: ['admin', 'client', 'reseller'] },
+  { title: "Employees", url: "/employees", icon: Contact, permission: 'bookings.view', roles: ['admin', 'client', 'reseller'] },
+  { title: "Booking Queue", url: "/admin/bookings", icon: ClipboardList, permission: 'bookings.manage' },
+  { title: "Users", url: "/users", icon: Users, permission: 'users.view' },
+  { title: "Clients", url: "/clients", icon: Building2, permission: 'clients.view' },
+  { title: "Sites", url: "/sites", icon: MapPin, permission: 'sites.view' },
+  { title: "Inventory", url: "/inventory", icon: Package, permission: 'inventory.view' },
+  { title: "Drivers", url: "/admin/drivers", icon: SteeringWheelIcon, permission: 'fleet.manage' },
+  { title: "Vehicles", url: "/admin/vehicles", icon: Truck, permission: 'fleet.manage' },
+  { title: "Warehouses", url: "/admin/warehouses", icon: Warehouse, permission: 'warehouses.manage' },
+  { title: "CO₂e Dashboard", url: "/co2e", icon: Leaf, permission: 'co2e.view' },
+  { title: "Documents", url: "/documents", icon: FileText, permission: 'documents.view' },
+];
 
-const bottomNavItems = [
-  { title: "Settings", url: "/settings", icon: Settings, roles: ['admin', 'client', 'reseller', 'driver'] },
+const bottomNavItems: NavItem[] = [
+  { title: "Settings", url: "/settings", icon: Settings },
 ];
 
 // Logout Button with Confirmation
@@ -125,7 +139,7 @@ function AppSidebar() {
   const location = useLocation();
   const { state, isMobile, setOpenMobile } = useSidebar();
   const isCollapsed = state === "collapsed";
-  const { user, logout } = useAuth();
+  const { user, logout, hasPermission } = useAuth();
   const { logo } = useTenantTheme();
   const { data: clientProfile } = useClientProfile();
   const { data: organisationProfile } = useOrganisationProfile();
@@ -142,7 +156,11 @@ function AppSidebar() {
     }
   };
 
-  const mainNavItems = user ? getMainNavItems(user.role) : [];
+  const visibleNavItems = user
+    ? mainNavItems.filter(
+        (item) => (!item.roles || item.roles.includes(user.role)) && (!item.permission || hasPermission(item.permission))
+      )
+    : [];
 
   return (
     <Sidebar collapsible="icon" className="border-r-0">
@@ -182,7 +200,7 @@ function AppSidebar() {
           </SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {mainNavItems.map((item) => (
+              {visibleNavItems.map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton
                     asChild
@@ -0,0 +1,282 @@
+// Global command palette (Cmd/Ctrl+K) - ranked search across every entity the
+// user can see, recent searches and quick actions
+import { useEffect, useMemo, useState, type ElementType } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  AlertCircle,
+  ArrowLeftRight,
+  Building2,
+  CalendarClock,
+  Car,
+  ClipboardList,
+  Contact,
+  FileCheck,
+  FileSpreadsheet,
+  FileText,
+  History,
+  Leaf,
+  Loader2,
+  MapPin,
+  Package,
+  Plus,
+  Settings,
+  Truck,
+  User,
+  UserMinus,
+  UserPlus,
+  Wrench,
+} from "lucide-react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSearch, useSearchableTypes } from "@/hooks/useSearch";
+import { cn } from "@/lib/utils";
+import type { SearchResult, SearchResultType } from "@/services/search.service";
+import type { Permission } from "@/types/permissions";
+
+const SEARCH_DEBOUNCE_MS = 200;
+const MAX_RECENT_SEARCHES = 5;
+
+const resultTypeConfig: Record<SearchResultType, { label: string; icon: ElementType }> = {
+  job: { label: "Jobs", icon: Truck },
+  booking: { label: "Bookings", icon: FileText },
+  client: { label: "Clients", icon: Building2 },
+  site: { label: "Sites", icon: MapPin },
+  inventory: { label: "Inventory", icon: Package },
+  document: { label: "Documents", icon: FileCheck },
+  driver: { label: "Drivers", icon: User },
+  vehicle: { label: "Vehicles", icon: Car },
+};
+
+interface QuickAction {
+  id: string;
+  label: string;
+  keywords: string;
+  icon: ElementType;
+  url: string;
+  permission?: Permission;
+}
+
+const quickActions: QuickAction[] = [
+  { id: "new-booking", label: "New booking", keywords: "itad collection", icon: Plus, url: "/booking", permission: "bookings.create" },
+  { id: "new-starter", label: "New starter booking", keywords: "jml joiner", icon: UserPlus, url: "/bookings/jml/new-starter", permission: "bookings.create" },
+  { id: "leaver", label: "New leaver booking", keywords: "jml", icon: UserMinus, url: "/bookings/jml/leaver", permission: "bookings.create" },
+  { id: "breakfix", label: "New breakfix booking", keywords: "jml repair replace", icon: Wrench, url: "/bookings/jml/breakfix", permission: "bookings.create" },
+  { id: "mover", label: "New mover booking", keywords: "jml move", icon: ArrowLeftRight, url: "/bookings/jml/mover", permission: "bookings.create" },
+  { id: "jml-import", label: "Bulk JML import", keywords: "jml hr csv excel hris joiners leavers movers upload", icon: FileSpreadsheet, url: "/bookings/jml/import", permission: "bookings.create" },
+  { id: "jml-schedule", label: "JML schedule", keywords: "jml milestones deadlines lead times calendar", icon: CalendarClock, url: "/jml/schedule", permission: "bookings.view" },
+  { id: "employees", label: "Employees", keywords: "jml employee devices holdings ledger leaver mover", icon: Contact, url: "/employees", permission: "bookings.view" },
+  { id: "booking-queue", label: "Booking queue", keywords: "approve approval", icon: ClipboardList, url: "/admin/bookings", permission: "bookings.manage" },
+  { id: "co2e", label: "CO₂e dashboard", keywords: "carbon emissions co2", icon: Leaf, url: "/co2e", permission: "co2e.view" },
+  { id: "documents", label: "Compliance documents", keywords: "certificates", icon: FileCheck, url: "/documents", permission: "documents.view" },
+  { id: "settings", label: "Settings", keywords: "profile preferences", icon: Settings, url: "/settings" },
+];
+
+const recentSearchesKey = (userId: string) => `recent_searches_${userId}`;
+
+function loadRecentSearches(userId: string): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(recentSearchesKey(userId)) || "[]");
+    return Array.isArray(stored) ? stored.filter((term) => typeof term === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveRecentSearches(userId: string, searches: string[]) {
+  try {
+    localStorage.setItem(recentSearchesKey(userId), JSON.stringify(searches));
+  } catch {
+    // Storage full or disabled - recent searches are a convenience
+  }
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const navigate = useNavigate();
+  const { user, hasPermission } = useAuth();
+  const searchableTypes = useSearchableTypes();
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [typeFilter, setTypeFilter] = useState<SearchResultType | null>(null);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+
+  const { data, isFetching } = useSearch(debouncedQuery, typeFilter ? [typeFilter] : undefined);
+
+  // Cmd+K / Ctrl+K toggles the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    if (open && user) {
+      setRecentSearches(loadRecentSearches(user.id));
+    }
+    if (!open) {
+      setQuery("");
+      setDebouncedQuery("");
+      setTypeFilter(null);
+    }
+  }, [open, user]);
+
+  const isSearching = query.trim().length >= 2;
+  const results = useMemo(() => (isSearching ? data?.results || [] : []), [isSearching, data]);
+
+  // Keep ranked order: groups follow their best result
+  const groupedResults = useMemo(() => {
+    const groups = new Map<SearchResultType, SearchResult[]>();
+    results.forEach((result) => {
+      groups.set(result.type, [...(groups.get(result.type) || []), result]);
+    });
+    return Array.from(groups.entries());
+  }, [results]);
+
+  const availableActions = quickActions.filter((action) => !action.permission || hasPermission(action.permission));
+  const term = query.trim().toLowerCase();
+  const matchingActions = term
+    ? availableActions.filter((action) => `${action.label} ${action.keywords}`.toLowerCase().includes(term))
+    : availableActions;
+
+  const goTo = (url: string) => {
+    onOpenChange(false);
+    navigate(url);
+  };
+
+  const handleSelectResult = (result: SearchResult) => {
+    if (user) {
+      const searches = [query.trim(), ...recentSearches.filter((search) => search !== query.trim())].slice(
+        0,
+        MAX_RECENT_SEARCHES
+      );
+      saveRecentSearches(user.id, searches);
+    }
+    goTo(result.url);
+  };
+
+  const handleClearRecentSearches = () => {
+    if (user) saveRecentSearches(user.id, []);
+    setRecentSearches([]);
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} commandProps={{ shouldFilter: false }}>
+      <CommandInput
+        value={query}
+        onValueChange={setQuery}
+        placeholder="Search jobs, bookings, serial numbers, sites..."
+      />
+
+      {searchableTypes.length > 1 && (
+        <div className="flex flex-wrap gap-1.5 border-b px-3 py-2">
+          {[null, ...searchableTypes].map((type) => (
+            <button
+              key={type || "all"}
+              type="button"
+              onClick={() => setTypeFilter(type)}
+              className={cn(
+                "rounded-full border px-2.5 py-0.5 text-xs transition-colors",
+                typeFilter === type
+                  ? "border-primary bg-primary text-primary-foreground"
+                  : "border-border text-muted-foreground hover:bg-muted"
+              )}
+            >
+              {type ? resultTypeConfig[type].label : "All"}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <CommandList className="max-h-[420px]">
+        {isSearching && (isFetching || query !== debouncedQuery) && results.length === 0 ? (
+          <div className="py-6 text-center">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mx-auto" />
+          </div>
+        ) : (
+          <CommandEmpty>No results found for "{query.trim()}"</CommandEmpty>
+        )}
+
+        {isSearching && data && data.failedTypes.length > 0 && (
+          <div className="mx-2 mt-2 flex items-center gap-2 rounded-md bg-warning/10 px-3 py-2 text-xs text-warning-foreground">
+            <AlertCircle className="h-4 w-4 flex-shrink-0 text-warning" />
+            Couldn't search {data.failedTypes.map((type) => resultTypeConfig[type].label.toLowerCase()).join(", ")}.
+            Other results are shown.
+          </div>
+        )}
+
+        {groupedResults.map(([type, typeResults]) => {
+          const { label, icon: Icon } = resultTypeConfig[type];
+          return (
+            <CommandGroup key={type} heading={label}>
+              {typeResults.map((result) => (
+                <CommandItem
+                  key={`${result.type}-${result.id}`}
+                  value={`${result.type}-${result.id}`}
+                  onSelect={() => handleSelectResult(result)}
+                >
+                  <Icon className="mr-2 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate font-medium">{result.title}</div>
+                    {result.subtitle && (
+                      <div className="truncate text-xs text-muted-foreground">{result.subtitle}</div>
+                    )}
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          );
+        })}
+
+        {!isSearching && recentSearches.length > 0 && (
+          <>
+            <CommandGroup heading="Recent searches">
+              {recentSearches.map((search) => (
+                <CommandItem key={search} value={`recent-${search}`} onSelect={() => setQuery(search)}>
+                  <History className="mr-2 text-muted-foreground" />
+                  {search}
+                </CommandItem>
+              ))}
+              <CommandItem value="recent-clear" onSelect={handleClearRecentSearches}>
+                <span className="pl-7 text-xs text-muted-foreground">Clear recent searches</span>
+              </CommandItem>
+            </CommandGroup>
+            <CommandSeparator />
+          </>
+        )}
+
+        {matchingActions.length > 0 && (
+          <CommandGroup heading="Quick actions">
+            {matchingActions.map((action) => (
+              <CommandItem key={action.id} value={`action-${action.id}`} onSelect={() => goTo(action.url)}>
+                <action.icon className="mr-2 text-muted-foreground" />
+                {action.label}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -0,0 +1,154 @@
+// Upload Blancco erasure reports for a booking - devices are matched to its assets by serial number
+import { useEffect, useRef, useState } from "react";
+import { FileUp, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useImportBlanccoReport } from "@/hooks/useSanitisation";
+import { BLANCCO_FILE_EXTENSIONS } from "@/lib/blancco";
+import type { SanitisationImport } from "@/types/sanitisation-imports";
+
+interface FileResult {
+  fileName: string;
+  result?: SanitisationImport;
+  error?: string;
+}
+
+interface BlanccoImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bookingId: string;
+}
+
+export function BlanccoImportDialog({ open, onOpenChange, bookingId }: BlanccoImportDialogProps) {
+  const importReport = useImportBlanccoReport();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [results, setResults] = useState<FileResult[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFiles([]);
+      setResults([]);
+    }
+  }, [open]);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    const fileResults: FileResult[] = [];
+    // One at a time, so a report listed in two files is only imported once
+    for (const file of files) {
+      try {
+        const result = await importReport.mutateAsync({ fileName: file.name, content: await file.text(), bookingId });
+        fileResults.push({ fileName: file.name, result });
+      } catch (error) {
+        fileResults.push({ fileName: file.name, error: error instanceof Error ? error.message : "Import failed" });
+      }
+    }
+    setResults(fileResults);
+    setFiles([]);
+    if (inputRef.current) inputRef.current.value = "";
+    setIsImporting(false);
+
+    const matched = fileResults.reduce((sum, file) => sum + (file.result?.matched || 0), 0);
+    const needsReview = fileResults.reduce((sum, file) => sum + (file.result?.needsReview || 0), 0);
+    if (fileResults.some((file) => file.error)) {
+      toast.error("Some reports could not be imported");
+    } else if (needsReview > 0) {
+      toast.warning(`${matched} ${matched === 1 ? "device" : "devices"} sanitised, ${needsReview} to review`);
+    } else {
+      toast.success(`${matched} ${matched === 1 ? "device" : "devices"} sanitised`, {
+        description: "Verified sanitisation records were created from the erasure reports.",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isImporting && onOpenChange(value)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Blancco Reports</DialogTitle>
+          <DialogDescription>
+            Upload XML or JSON erasure reports. Each device is matched to this booking's assets by serial number and
+            gets a verified sanitisation record; unmatched devices and failed erasures are held for review.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="blancco-files">Report files</Label>
+            <Input
+              ref={inputRef}
+              id="blancco-files"
+              type="file"
+              multiple
+              accept={BLANCCO_FILE_EXTENSIONS.join(",")}
+              onChange={(e) => setFiles(Array.from(e.target.files || []))}
+              disabled={isImporting}
+              className="cursor-pointer"
+            />
+          </div>
+
+          {results.length > 0 && (
+            <div className="rounded-lg border divide-y">
+              {results.map((file) => (
+                <div key={file.fileName} className="flex items-center justify-between gap-3 p-3 text-sm">
+                  <span className="font-mono truncate">{file.fileName}</span>
+                  {file.error ? (
+                    <span className="text-destructive text-xs text-right">{file.error}</span>
+                  ) : (
+                    <div className="flex flex-wrap justify-end gap-1">
+                      <Badge variant="secondary" className="bg-success/10 text-success">
+                        {file.result!.matched} matched
+                      </Badge>
+                      {file.result!.needsReview > 0 && (
+                        <Badge variant="secondary" className="bg-warning/10 text-warning">
+                          {file.result!.needsReview} to review
+                        </Badge>
+                      )}
+                      {file.result!.total - file.result!.matched - file.result!.needsReview > 0 && (
+                        <Badge variant="outline">
+                          {file.result!.total - file.result!.matched - file.result!.needsReview} already imported
+                        </Badge>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isImporting}>
+            {results.length > 0 ? "Done" : "Cancel"}
+          </Button>
+          <Button onClick={handleImport} disabled={files.length === 0 || isImporting}>
+            {isImporting ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              <>
+                <FileUp className="h-4 w-4 mr-2" />
+                Import {files.length > 1 ? `${files.length} Files` : "Report"}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,176 @@
+// Blancco import review - devices that couldn't be matched and failed erasures, for one booking
+import { useState } from "react";
+import { AlertTriangle, FileText, FolderInput, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useResolveSanitisationImportItem, useSanitisationImports } from "@/hooks/useSanitisation";
+import { needsReview, sanitisationImportItemStatusConfig } from "@/lib/blancco";
+import type { SanitisationImport, SanitisationImportItem } from "@/types/sanitisation-imports";
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-GB", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+
+interface BlanccoImportReviewProps {
+  bookingId: string;
+  assets: Array<{ categoryId: string; categoryName: string }>;
+}
+
+export function BlanccoImportReview({ bookingId, assets }: BlanccoImportReviewProps) {
+  const { data: imports = [] } = useSanitisationImports(bookingId);
+  const resolveItem = useResolveSanitisationImportItem();
+  const [assetSelections, setAssetSelections] = useState<Record<string, string>>({});
+
+  const reviewItems = imports.flatMap((sanitisationImport) =>
+    sanitisationImport.items
+      .filter((item) => needsReview(item.status))
+      .map((item) => ({ sanitisationImport, item }))
+  );
+  // Uploads for this booking, not every watched-folder import
+  const bookingImports = imports.filter((sanitisationImport) => sanitisationImport.bookingId === bookingId);
+
+  if (reviewItems.length === 0 && bookingImports.length === 0) return null;
+
+  const handleResolve = (
+    sanitisationImport: SanitisationImport,
+    item: SanitisationImportItem,
+    action: "assign" | "dismiss"
+  ) => {
+    const assetId = assetSelections[item.id];
+    if (action === "assign" && !assetId) {
+      toast.error("Choose the asset this device belongs to");
+      return;
+    }
+    resolveItem.mutate(
+      {
+        importId: sanitisationImport.id,
+        itemId: item.id,
+        data: action === "assign" ? { action, bookingId, assetId } : { action },
+      },
+      {
+        onSuccess: () => {
+          toast.success(action === "assign" ? "Device assigned and sanitisation recorded" : "Item dismissed");
+        },
+        onError: (error: Error) => {
+          toast.error("Failed to update import", { description: error.message || "Please try again." });
+        },
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <FileText className="h-5 w-5" />
+          Blancco Imports
+          {reviewItems.length > 0 && (
+            <Badge variant="secondary" className="bg-warning/10 text-warning">
+              {reviewItems.length} to review
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Devices from erasure reports that couldn't be matched by serial number, and erasures Blancco reported as
+          failed
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {reviewItems.length > 0 && (
+          <div className="rounded-lg border divide-y">
+            {reviewItems.map(({ sanitisationImport, item }) => {
+              const status = sanitisationImportItemStatusConfig[item.status];
+              const isPending = resolveItem.isPending && resolveItem.variables?.itemId === item.id;
+              return (
+                <div key={item.id} className="flex flex-col gap-3 p-4 lg:flex-row lg:items-center lg:justify-between">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-mono font-medium">{item.report.serialNumber || "No serial number"}</span>
+                      <Badge variant="secondary" className={status.className}>
+                        {status.label}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {[item.report.manufacturer, item.report.model].filter(Boolean).join(" ") || "Unknown device"}
+                      {item.report.erasureStandard && ` · ${item.report.erasureStandard}`}
+                    </p>
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                      {item.message}
+                      {" · "}
+                      {sanitisationImport.source === "watched_folder" && <FolderInput className="h-3 w-3" />}
+                      {sanitisationImport.fileName}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {item.status === "unmatched" && (
+                      <>
+                        <Select
+                          value={assetSelections[item.id] || ""}
+                          onValueChange={(value) => setAssetSelections({ ...assetSelections, [item.id]: value })}
+                        >
+                          <SelectTrigger className="w-[180px]" aria-label="Asset">
+                            <SelectValue placeholder="Select asset..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {assets.map((asset) => (
+                              <SelectItem key={asset.categoryId} value={asset.categoryId}>
+                                {asset.categoryName}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          size="sm"
+                          onClick={() => handleResolve(sanitisationImport, item, "assign")}
+                          disabled={!assetSelections[item.id] || resolveItem.isPending}
+                        >
+                          {isPending && resolveItem.variables?.data.action === "assign" && (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          )}
+                          Assign
+                        </Button>
+                      </>
+                    )}
+                    {item.status === "failed_erasure" && (
+                      <span className="flex items-center gap-1 text-xs text-destructive">
+                        <AlertTriangle className="h-3 w-3" />
+                        Re-erase or record destruction
+                      </span>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleResolve(sanitisationImport, item, "dismiss")}
+                      disabled={resolveItem.isPending}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Dismiss
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {bookingImports.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Imported reports</p>
+            {bookingImports.map((sanitisationImport) => (
+              <div key={sanitisationImport.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <span className="font-mono truncate">{sanitisationImport.fileName}</span>
+                <span className="text-xs text-muted-foreground">
+                  {sanitisationImport.matched} of {sanitisationImport.total} matched
+                  {sanitisationImport.importedBy && ` · ${sanitisationImport.importedBy}`} ·{" "}
+                  {formatDateTime(sanitisationImport.importedAt)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
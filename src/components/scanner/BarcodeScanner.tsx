@@ -0,0 +1,209 @@
+// Camera barcode scanner - reads Code 128, QR and DataMatrix labels into serial, IMEI and seal number fields
+import { useEffect, useRef, useState } from "react";
+import { CheckCircle2, Loader2, ScanLine } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { createBarcodeDecoder, extractImei, getImeiError, scanFormatLabels, type ScanFormat } from "@/lib/barcode";
+
+// How often a frame is decoded, and how long the same code is ignored after it was read
+const SCAN_INTERVAL_MS = 200;
+const REPEAT_SCAN_IGNORE_MS = 2500;
+
+interface BarcodeScannerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onScan: (value: string, format: ScanFormat) => void;
+  title?: string;
+  description?: string;
+  kind?: "text" | "imei"; // "imei" strips label prefixes and rejects codes that fail the Luhn check
+  validate?: (value: string) => string | null; // Error message keeps the scanner open
+  continuous?: boolean; // Stay open for the next code instead of closing after one
+}
+
+export function BarcodeScannerDialog({
+  open,
+  onOpenChange,
+  onScan,
+  title = "Scan Barcode",
+  description = "Point the camera at a barcode, QR code or DataMatrix label",
+  kind = "text",
+  validate,
+  continuous = false,
+}: BarcodeScannerDialogProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastScan, setLastScan] = useState<{ value: string; format: ScanFormat } | null>(null);
+
+  // Callbacks change every render; the scan loop reads the latest through a ref
+  const handlers = useRef({ onScan, onOpenChange, validate, kind, continuous });
+  handlers.current = { onScan, onOpenChange, validate, kind, continuous };
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let previous: { value: string; at: number } | null = null;
+
+    setError(null);
+    setLastScan(null);
+    setIsStarting(true);
+
+    const start = async () => {
+      try {
+        if (!navigator.mediaDevices?.getUserMedia) {
+          throw new Error("NotSupportedError");
+        }
+        try {
+          stream = await navigator.mediaDevices.getUserMedia({
+            video: { facingMode: "environment", width: { ideal: 1280 }, height: { ideal: 720 } },
+            audio: false,
+          });
+        } catch (constraintErr) {
+          console.warn("Camera constraints not supported, trying default settings:", constraintErr);
+          stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: false });
+        }
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+        }
+        const decoder = await createBarcodeDecoder();
+        setIsStarting(false);
+
+        const scanFrame = async () => {
+          if (cancelled) return;
+          const video = videoRef.current;
+          const result = video && video.readyState >= 2 ? await decoder.decode(video).catch(() => null) : null;
+          if (cancelled) return;
+
+          if (result) {
+            const { kind: scanKind, validate: validateScan } = handlers.current;
+            const value = scanKind === "imei" ? extractImei(result.value) : result.value.trim();
+            const isRepeat = previous?.value === value && Date.now() - previous.at < REPEAT_SCAN_IGNORE_MS;
+            previous = { value, at: Date.now() };
+
+            if (value && !isRepeat) {
+              const problem = (scanKind === "imei" ? getImeiError(value) : null) || validateScan?.(value) || null;
+              setError(problem);
+              if (!problem) {
+                setLastScan({ value, format: result.format });
+                handlers.current.onScan(value, result.format);
+                if (!handlers.current.continuous) {
+                  handlers.current.onOpenChange(false);
+                  return;
+                }
+              }
+            }
+          }
+          timer = setTimeout(scanFrame, SCAN_INTERVAL_MS);
+        };
+        scanFrame();
+      } catch (err) {
+        console.error("Error accessing camera:", err);
+        const errorMessage = err instanceof Error ? `${err.name} ${err.message}` : "";
+        let message = "Failed to access camera. Please check your browser permissions.";
+        if (errorMessage.includes("NotAllowedError") || errorMessage.includes("Permission denied")) {
+          message = "Camera access denied. Please allow camera access in your browser settings.";
+        } else if (errorMessage.includes("NotFoundError") || errorMessage.includes("not found")) {
+          message = "No camera found. Please connect a camera and try again.";
+        } else if (errorMessage.includes("NotSupportedError")) {
+          message = "This browser can't open the camera here. Type the value instead.";
+        }
+        if (!cancelled) {
+          setError(message);
+          setIsStarting(false);
+        }
+      }
+    };
+    start();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg w-full p-0 gap-0">
+        <DialogHeader className="px-6 pt-6 pb-4">
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="relative bg-black overflow-hidden">
+          <video ref={videoRef} autoPlay playsInline muted className="w-full h-auto max-h-[50vh] object-contain" />
+          {/* Aiming guide */}
+          <div className="pointer-events-none absolute inset-x-10 top-1/2 h-24 -translate-y-1/2 rounded-md border-2 border-white/70" />
+          {isStarting && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <Loader2 className="h-8 w-8 animate-spin text-white" />
+            </div>
+          )}
+          {error && (
+            <div className="absolute top-4 left-4 right-4 bg-destructive text-destructive-foreground p-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="px-6 pb-6 pt-4 sm:justify-between gap-2">
+          <div className="min-h-[1.25rem] text-sm">
+            {lastScan && (
+              <span className="flex items-center gap-1 text-success">
+                <CheckCircle2 className="h-4 w-4" />
+                <span className="font-mono">{lastScan.value}</span>
+                <span className="text-muted-foreground">({scanFormatLabels[lastScan.format]})</span>
+              </span>
+            )}
+          </div>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            {continuous && lastScan ? "Done" : "Cancel"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface BarcodeScanButtonProps extends Omit<BarcodeScannerDialogProps, "open" | "onOpenChange"> {
+  disabled?: boolean;
+  label?: string; // Shown beside the icon; icon-only when omitted
+}
+
+/**
+ * Camera button for the end of an input row - opens the scanner dialog
+ */
+export function BarcodeScanButton({ disabled, label, ...scannerProps }: BarcodeScanButtonProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        size={label ? "default" : "icon"}
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        aria-label={label || scannerProps.title || "Scan barcode"}
+        className="shrink-0"
+      >
+        <ScanLine className={label ? "h-4 w-4 mr-2" : "h-4 w-4"} />
+        {label}
+      </Button>
+      <BarcodeScannerDialog open={open} onOpenChange={setOpen} {...scannerProps} />
+    </>
+  );
+}
@@ -0,0 +1,64 @@
+// ERP connector at a glance - connection state and the latest sync, linking to the full settings
+import { Link } from "react-router-dom";
+import { ArrowRight, Database, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useErpConnector, useErpSyncRuns } from "@/hooks/useErp";
+import { erpSyncRunStatusConfig } from "@/lib/erp";
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-GB", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+
+export function ErpStatusCard() {
+  const { data: connector, isLoading } = useErpConnector();
+  const { data: runs = [] } = useErpSyncRuns();
+  const lastRun = runs[0];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Database className="h-5 w-5" />
+            ERP Integration
+          </CardTitle>
+          <CardDescription>Sync jobs, inventory and clients with your ERP system</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <Link to="/admin/erp">
+            Configure
+            <ArrowRight className="h-4 w-4 ml-2" />
+          </Link>
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !connector ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <Badge
+              variant="secondary"
+              className={connector.enabled ? "bg-success/10 text-success" : "bg-muted text-muted-foreground"}
+            >
+              {connector.enabled ? "Connected" : "Disabled"}
+            </Badge>
+            <span className="font-mono text-muted-foreground truncate">{connector.endpointUrl}</span>
+            {lastRun ? (
+              <span className="flex items-center gap-2 text-muted-foreground">
+                Last sync {formatDateTime(lastRun.startedAt)}
+                <Badge variant="secondary" className={erpSyncRunStatusConfig[lastRun.status].className}>
+                  {erpSyncRunStatusConfig[lastRun.status].label}
+                </Badge>
+              </span>
+            ) : (
+              <span className="text-muted-foreground">Not synced yet</span>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,269 @@
+// Per-event notification preferences - channels, quiet hours and the daily digest
+import { useEffect, useState } from "react";
+import { Bell, Loader2, Moon, Save } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useNotificationDigest,
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+} from "@/hooks/useNotificationPreferences";
+import {
+  getCategoryPreference,
+  getNotificationCategoriesForRole,
+  NOTIFICATION_CHANNELS,
+} from "@/lib/notification-preferences";
+import { ApiError } from "@/services/api-error";
+import type { NotificationCategory, NotificationChannel, NotificationPreferences } from "@/types/notifications";
+
+const TIMEZONES = ["Europe/London", "Europe/Dublin", "Europe/Paris", "Europe/Berlin", "UTC"];
+
+export function NotificationPreferencesCard() {
+  const { user } = useAuth();
+  const { data: savedPreferences, isLoading } = useNotificationPreferences();
+  const { data: digest } = useNotificationDigest();
+  const updatePreferences = useUpdateNotificationPreferences();
+  const [draft, setDraft] = useState<NotificationPreferences | null>(null);
+
+  useEffect(() => {
+    if (savedPreferences) setDraft(savedPreferences);
+  }, [savedPreferences]);
+
+  if (isLoading || !draft || !user) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const categories = getNotificationCategoriesForRole(user.role);
+  const hasChanges = JSON.stringify(draft) !== JSON.stringify(savedPreferences);
+  const usesWebhook = draft.categories.some((preference) => preference.channels.includes("webhook"));
+  const timezones = TIMEZONES.includes(draft.quietHours.timezone)
+    ? TIMEZONES
+    : [draft.quietHours.timezone, ...TIMEZONES];
+
+  const updateCategory = (
+    category: NotificationCategory,
+    update: (preference: NotificationPreferences["categories"][number]) => NotificationPreferences["categories"][number]
+  ) => {
+    const exists = draft.categories.some((preference) => preference.category === category);
+    setDraft({
+      ...draft,
+      categories: exists
+        ? draft.categories.map((preference) => (preference.category === category ? update(preference) : preference))
+        : [...draft.categories, update(getCategoryPreference(draft, category))],
+    });
+  };
+
+  const toggleChannel = (category: NotificationCategory, channel: NotificationChannel, enabled: boolean) => {
+    updateCategory(category, (preference) => ({
+      ...preference,
+      // Keep the channel order stable so toggling back doesn't count as a change
+      channels: NOTIFICATION_CHANNELS.map((option) => option.channel).filter((option) =>
+        option === channel ? enabled : preference.channels.includes(option)
+      ),
+    }));
+  };
+
+  const handleSave = () => {
+    const { categories, quietHours, digestTime, webhookUrl } = draft;
+    updatePreferences.mutate({ categories, quietHours, digestTime, webhookUrl }, {
+      onSuccess: () => toast.success("Notification preferences saved"),
+      onError: (error: Error) => {
+        const fields = error instanceof ApiError ? error.fields : undefined;
+        toast.error("Failed to save notification preferences", {
+          description: fields ? Object.values(fields).join(". ") : error.message || "Please try again.",
+        });
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Bell className="h-5 w-5" />
+          Notifications
+        </CardTitle>
+        <CardDescription>
+          Choose where each kind of update is sent. Email can be batched into a daily digest.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="rounded-lg border overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/30 text-left text-xs text-muted-foreground">
+                <th className="p-3 font-medium">Event</th>
+                {NOTIFICATION_CHANNELS.map(({ channel, label }) => (
+                  <th key={channel} className="p-3 font-medium text-center">
+                    {label}
+                  </th>
+                ))}
+                <th className="p-3 font-medium text-center">Daily digest</th>
+              </tr>
+            </thead>
+            <tbody>
+              {categories.map((info) => {
+                const preference = getCategoryPreference(draft, info.category);
+                return (
+                  <tr key={info.category} className="border-b last:border-b-0">
+                    <td className="p-3">
+                      <p className="font-medium">{info.label}</p>
+                      <p className="text-xs text-muted-foreground">{info.description}</p>
+                    </td>
+                    {NOTIFICATION_CHANNELS.map(({ channel, label }) => (
+                      <td key={channel} className="p-3 text-center">
+                        <Checkbox
+                          checked={preference.channels.includes(channel)}
+                          onCheckedChange={(checked) => toggleChannel(info.category, channel, checked === true)}
+                          aria-label={`${info.label} - ${label}`}
+                        />
+                      </td>
+                    ))}
+                    <td className="p-3 text-center">
+                      <Switch
+                        checked={preference.digest}
+                        disabled={!preference.channels.includes("email")}
+                        onCheckedChange={(checked) =>
+                          updateCategory(info.category, (current) => ({ ...current, digest: checked }))
+                        }
+                        aria-label={`${info.label} - daily digest`}
+                        className="data-[state=checked]:bg-success"
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {(usesWebhook || draft.webhookUrl) && (
+          <div className="space-y-1.5">
+            <Label htmlFor="notification-webhook-url">Webhook URL</Label>
+            <Input
+              id="notification-webhook-url"
+              type="url"
+              placeholder="https://example.com/hooks/reuse"
+              value={draft.webhookUrl || ""}
+              onChange={(e) => setDraft({ ...draft, webhookUrl: e.target.value || null })}
+            />
+            <p className="text-xs text-muted-foreground">Notifications are POSTed here as JSON.</p>
+          </div>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-3 rounded-lg border p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium flex items-center gap-2">
+                  <Moon className="h-4 w-4" />
+                  Quiet hours
+                </p>
+                <p className="text-xs text-muted-foreground">Emails are held for your digest during these hours</p>
+              </div>
+              <Switch
+                checked={draft.quietHours.enabled}
+                onCheckedChange={(checked) => setDraft({ ...draft, quietHours: { ...draft.quietHours, enabled: checked } })}
+                className="data-[state=checked]:bg-success"
+              />
+            </div>
+            {draft.quietHours.enabled && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="quiet-hours-start">From</Label>
+                  <Input
+                    id="quiet-hours-start"
+                    type="time"
+                    value={draft.quietHours.start}
+                    onChange={(e) => setDraft({ ...draft, quietHours: { ...draft.quietHours, start: e.target.value } })}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="quiet-hours-end">Until</Label>
+                  <Input
+                    id="quiet-hours-end"
+                    type="time"
+                    value={draft.quietHours.end}
+                    onChange={(e) => setDraft({ ...draft, quietHours: { ...draft.quietHours, end: e.target.value } })}
+                  />
+                </div>
+              </div>
+            )}
+            <div className="space-y-1.5">
+              <Label>Timezone</Label>
+              <Select
+                value={draft.quietHours.timezone}
+                onValueChange={(timezone) => setDraft({ ...draft, quietHours: { ...draft.quietHours, timezone } })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {timezones.map((timezone) => (
+                    <SelectItem key={timezone} value={timezone}>
+                      {timezone}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3 rounded-lg border p-4">
+            <div>
+              <p className="font-medium">Daily digest</p>
+              <p className="text-xs text-muted-foreground">One email with everything held since the last digest</p>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="digest-time">Send at</Label>
+              <Input
+                id="digest-time"
+                type="time"
+                value={draft.digestTime}
+                onChange={(e) => setDraft({ ...draft, digestTime: e.target.value })}
+              />
+            </div>
+            {digest && (
+              <p className="text-xs text-muted-foreground">
+                {digest.items.length === 0
+                  ? "Nothing waiting for the next digest."
+                  : `${digest.items.length} ${digest.items.length === 1 ? "update" : "updates"} waiting for ${new Date(
+                      digest.nextSendAt
+                    ).toLocaleString("en-GB", { weekday: "short", hour: "2-digit", minute: "2-digit" })}.`}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={!hasChanges || updatePreferences.isPending}>
+            {updatePreferences.isPending ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              <>
+                <Save className="h-4 w-4 mr-2" />
+                Save Preferences
+              </>
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,173 @@
+// Delivery log for one webhook - each attempt's response, with replay
+import { Fragment, useState } from "react";
+import { ChevronDown, ChevronRight, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useRedeliverWebhook, useWebhookDeliveries } from "@/hooks/useWebhooks";
+import { getWebhookEventLabel, webhookDeliveryStatusConfig } from "@/lib/webhooks";
+import type { WebhookDelivery } from "@/types/webhooks";
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const formatJson = (value: string) => {
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    return value;
+  }
+};
+
+interface WebhookDeliveryLogProps {
+  subscriptionId: string;
+}
+
+export function WebhookDeliveryLog({ subscriptionId }: WebhookDeliveryLogProps) {
+  const { data: deliveries = [], isLoading } = useWebhookDeliveries(subscriptionId);
+  const redeliver = useRedeliverWebhook();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const handleRedeliver = (delivery: WebhookDelivery) => {
+    redeliver.mutate(delivery.id, {
+      onSuccess: (attempt) => {
+        if (attempt.status === "succeeded") {
+          toast.success("Delivered", { description: `Your endpoint answered ${attempt.responseStatus}.` });
+        } else {
+          toast.error("Delivery failed again", {
+            description: attempt.error || `Your endpoint answered ${attempt.responseStatus}.`,
+          });
+        }
+      },
+      onError: (error: Error) => {
+        toast.error("Failed to redeliver", { description: error.message || "Please try again." });
+      },
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (deliveries.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-muted-foreground">
+        No deliveries yet. Send a test event to check your endpoint.
+      </p>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b bg-muted/30 text-left text-xs text-muted-foreground">
+            <th className="p-3 font-medium">Event</th>
+            <th className="p-3 font-medium">Status</th>
+            <th className="p-3 font-medium">Response</th>
+            <th className="p-3 font-medium">Sent</th>
+            <th className="p-3" />
+          </tr>
+        </thead>
+        <tbody>
+          {deliveries.map((delivery) => {
+            const isExpanded = expandedId === delivery.id;
+            const status = webhookDeliveryStatusConfig[delivery.status];
+            return (
+              <Fragment key={delivery.id}>
+                <tr
+                  className="border-b last:border-b-0 cursor-pointer hover:bg-muted/20"
+                  onClick={() => setExpandedId(isExpanded ? null : delivery.id)}
+                >
+                  <td className="p-3">
+                    <div className="flex items-center gap-2">
+                      {isExpanded ? (
+                        <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                      )}
+                      <div>
+                        <p className="font-medium">{getWebhookEventLabel(delivery.eventType)}</p>
+                        <p className="font-mono text-xs text-muted-foreground">
+                          {delivery.eventType} · attempt {delivery.attempt}
+                          {delivery.replayOf && " (replay)"}
+                        </p>
+                      </div>
+                    </div>
+                  </td>
+                  <td className="p-3">
+                    <Badge variant="secondary" className={status.className}>
+                      {status.label}
+                    </Badge>
+                    {delivery.nextRetryAt && (
+                      <p className="mt-1 text-xs text-muted-foreground">Retrying at {formatTime(delivery.nextRetryAt)}</p>
+                    )}
+                  </td>
+                  <td className="p-3 text-xs">
+                    {delivery.responseStatus ? (
+                      <span className="font-mono">HTTP {delivery.responseStatus}</span>
+                    ) : (
+                      <span className="text-muted-foreground">{delivery.error || "-"}</span>
+                    )}
+                    {delivery.durationMs != null && (
+                      <span className="ml-2 text-muted-foreground">{delivery.durationMs} ms</span>
+                    )}
+                  </td>
+                  <td className="p-3 text-xs text-muted-foreground whitespace-nowrap">{formatTime(delivery.createdAt)}</td>
+                  <td className="p-3 text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleRedeliver(delivery);
+                      }}
+                      disabled={delivery.status === "pending" || redeliver.isPending}
+                    >
+                      {redeliver.isPending && redeliver.variables === delivery.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4" />
+                      )}
+                      <span className="ml-2 hidden sm:inline">Replay</span>
+                    </Button>
+                  </td>
+                </tr>
+                {isExpanded && (
+                  <tr className="border-b last:border-b-0 bg-muted/10">
+                    <td colSpan={5} className="p-3">
+                      <div className="grid gap-3 md:grid-cols-2">
+                        <div className="space-y-1 min-w-0">
+                          <p className="text-xs font-medium text-muted-foreground">Request body</p>
+                          <pre className="rounded-md bg-muted p-3 text-xs overflow-auto max-h-64">
+                            {formatJson(delivery.requestBody)}
+                          </pre>
+                        </div>
+                        <div className="space-y-1 min-w-0">
+                          <p className="text-xs font-medium text-muted-foreground">Response body</p>
+                          <pre className="rounded-md bg-muted p-3 text-xs overflow-auto max-h-64">
+                            {delivery.responseBody || delivery.error || "(empty)"}
+                          </pre>
+                        </div>
+                      </div>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+// Create or edit a webhook subscription - endpoint URL and the events it receives
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useCreateWebhookSubscription, useUpdateWebhookSubscription } from "@/hooks/useWebhooks";
+import { isValidWebhookUrl, WEBHOOK_EVENT_CATALOGUE, WEBHOOK_EVENT_GROUPS } from "@/lib/webhooks";
+import { ApiError } from "@/services/api-error";
+import type { WebhookSubscription, WebhookSubscriptionWithSecret } from "@/types/webhooks";
+
+const emptyForm = () => ({
+  url: "",
+  description: "",
+  eventTypes: [] as string[],
+  isActive: true,
+});
+
+interface WebhookFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subscription?: WebhookSubscription | null; // Omit to create a new webhook
+  onCreated?: (subscription: WebhookSubscriptionWithSecret) => void; // Receives the one-time secret
+}
+
+export function WebhookFormDialog({ open, onOpenChange, subscription, onCreated }: WebhookFormDialogProps) {
+  const createSubscription = useCreateWebhookSubscription();
+  const updateSubscription = useUpdateWebhookSubscription();
+  const [formData, setFormData] = useState(emptyForm);
+
+  const isSaving = createSubscription.isPending || updateSubscription.isPending;
+
+  useEffect(() => {
+    if (open) {
+      setFormData(
+        subscription
+          ? {
+              url: subscription.url,
+              description: subscription.description || "",
+              eventTypes: subscription.eventTypes,
+              isActive: subscription.isActive,
+            }
+          : emptyForm()
+      );
+    }
+  }, [open, subscription]);
+
+  const setEvents = (types: string[], selected: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      // Keep catalogue order so the payload is stable
+      eventTypes: WEBHOOK_EVENT_CATALOGUE.map((info) => info.type).filter((type) =>
+        types.includes(type) ? selected : prev.eventTypes.includes(type)
+      ),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const url = formData.url.trim();
+    if (!isValidWebhookUrl(url)) {
+      toast.error("Please enter an https:// URL", {
+        description: "Plain http:// is only allowed for localhost receivers.",
+      });
+      return;
+    }
+    if (formData.eventTypes.length === 0) {
+      toast.error("Choose at least one event");
+      return;
+    }
+
+    const data = { ...formData, url, description: formData.description.trim() || null };
+    const onError = (error: Error) => {
+      const fields = error instanceof ApiError ? error.fields : undefined;
+      toast.error(subscription ? "Failed to update webhook" : "Failed to create webhook", {
+        description: fields ? Object.values(fields).join(". ") : error.message || "Please try again.",
+      });
+    };
+
+    if (subscription) {
+      updateSubscription.mutate(
+        { id: subscription.id, data },
+        {
+          onSuccess: () => {
+            toast.success("Webhook updated");
+            onOpenChange(false);
+          },
+          onError,
+        }
+      );
+    } else {
+      createSubscription.mutate(data, {
+        onSuccess: (created) => {
+          toast.success("Webhook created");
+          onOpenChange(false);
+          onCreated?.(created);
+        },
+        onError,
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{subscription ? "Edit Webhook" : "Add Webhook"}</DialogTitle>
+          <DialogDescription>
+            Each event is POSTed to your endpoint as JSON, signed with the webhook's secret.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <ScrollArea className="max-h-[65vh] pr-4">
+            <div className="space-y-6 py-2">
+              <div className="space-y-2">
+                <Label htmlFor="webhookUrl">Endpoint URL *</Label>
+                <Input
+                  id="webhookUrl"
+                  type="url"
+                  placeholder="https://itsm.example.com/hooks/reuse"
+                  value={formData.url}
+                  onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+                  disabled={isSaving}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Use http://localhost to try out a receiver on your own machine.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="webhookDescription">Description</Label>
+                <Input
+                  id="webhookDescription"
+                  placeholder="e.g. ServiceNow - asset disposal tickets"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+
+              {WEBHOOK_EVENT_GROUPS.map(({ group, label, description }) => {
+                const events = WEBHOOK_EVENT_CATALOGUE.filter((info) => info.group === group);
+                const types = events.map((info) => info.type);
+                const allSelected = types.every((type) => formData.eventTypes.includes(type));
+                return (
+                  <div key={group} className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <Label>{label}</Label>
+                        <p className="text-xs text-muted-foreground">{description}</p>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEvents(types, !allSelected)}
+                        disabled={isSaving}
+                      >
+                        {allSelected ? "Clear" : "Select all"}
+                      </Button>
+                    </div>
+                    <div className="grid gap-2 sm:grid-cols-2">
+                      {events.map((info) => (
+                        <div key={info.type} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`webhook-event-${info.type}`}
+                            checked={formData.eventTypes.includes(info.type)}
+                            onCheckedChange={(checked) => setEvents([info.type], checked === true)}
+                            disabled={isSaving}
+                          />
+                          <Label htmlFor={`webhook-event-${info.type}`} className="font-normal">
+                            {info.label}
+                            <span className="ml-2 font-mono text-xs text-muted-foreground">{info.type}</span>
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+
+              <div className="flex items-center justify-between rounded-lg border p-4">
+                <div>
+                  <p className="font-medium">Active</p>
+                  <p className="text-xs text-muted-foreground">Paused webhooks only receive test events</p>
+                </div>
+                <Switch
+                  checked={formData.isActive}
+                  onCheckedChange={(isActive) => setFormData({ ...formData, isActive })}
+                  disabled={isSaving}
+                  className="data-[state=checked]:bg-success"
+                />
+              </div>
+            </div>
+          </ScrollArea>
+          <DialogFooter className="pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : subscription ? (
+                "Save Changes"
+              ) : (
+                "Create Webhook"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,299 @@
+// Outbound webhooks - subscriptions, signing secrets, test-fire and delivery log
+import { useState } from "react";
+import {
+  Copy,
+  History,
+  KeyRound,
+  Loader2,
+  Pencil,
+  Plus,
+  Send,
+  Trash2,
+  Webhook,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  useDeleteWebhookSubscription,
+  useRotateWebhookSecret,
+  useSendWebhookTest,
+  useUpdateWebhookSubscription,
+  useWebhookSubscriptions,
+} from "@/hooks/useWebhooks";
+import { webhookDeliveryStatusConfig, WEBHOOK_SIGNATURE_HEADER } from "@/lib/webhooks";
+import type { WebhookSubscription, WebhookSubscriptionWithSecret } from "@/types/webhooks";
+import { WebhookFormDialog } from "./WebhookFormDialog";
+import { WebhookDeliveryLog } from "./WebhookDeliveryLog";
+
+export function WebhooksCard() {
+  const { data: subscriptions = [], isLoading } = useWebhookSubscriptions();
+  const updateSubscription = useUpdateWebhookSubscription();
+  const deleteSubscription = useDeleteWebhookSubscription();
+  const rotateSecret = useRotateWebhookSecret();
+  const sendTest = useSendWebhookTest();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<WebhookSubscription | null>(null);
+  const [deleting, setDeleting] = useState<WebhookSubscription | null>(null);
+  const [revealed, setRevealed] = useState<WebhookSubscriptionWithSecret | null>(null);
+  const [logSubscriptionId, setLogSubscriptionId] = useState<string | null>(null);
+
+  const openForm = (subscription: WebhookSubscription | null) => {
+    setEditing(subscription);
+    setIsFormOpen(true);
+  };
+
+  const handleToggleActive = (subscription: WebhookSubscription, isActive: boolean) => {
+    updateSubscription.mutate(
+      { id: subscription.id, data: { isActive } },
+      {
+        onError: (error: Error) => {
+          toast.error("Failed to update webhook", { description: error.message || "Please try again." });
+        },
+      }
+    );
+  };
+
+  const handleSendTest = (subscription: WebhookSubscription) => {
+    sendTest.mutate(subscription.id, {
+      onSuccess: (delivery) => {
+        setLogSubscriptionId(subscription.id);
+        if (delivery.status === "succeeded") {
+          toast.success("Test event delivered", { description: `Your endpoint answered ${delivery.responseStatus}.` });
+        } else {
+          toast.error("Test event failed", {
+            description: delivery.error || `Your endpoint answered ${delivery.responseStatus}.`,
+          });
+        }
+      },
+      onError: (error: Error) => {
+        toast.error("Failed to send test event", { description: error.message || "Please try again." });
+      },
+    });
+  };
+
+  const handleRotateSecret = (subscription: WebhookSubscription) => {
+    rotateSecret.mutate(subscription.id, {
+      onSuccess: (rotated) => setRevealed(rotated),
+      onError: (error: Error) => {
+        toast.error("Failed to rotate secret", { description: error.message || "Please try again." });
+      },
+    });
+  };
+
+  const handleDeleteConfirm = () => {
+    if (!deleting) return;
+    deleteSubscription.mutate(deleting.id, {
+      onSuccess: () => {
+        toast.success("Webhook deleted");
+        if (logSubscriptionId === deleting.id) setLogSubscriptionId(null);
+        setDeleting(null);
+      },
+      onError: (error: Error) => {
+        toast.error("Failed to delete webhook", { description: error.message || "Please try again." });
+      },
+    });
+  };
+
+  const copySecret = () => {
+    if (!revealed) return;
+    navigator.clipboard.writeText(revealed.secret);
+    toast.success("Secret copied to clipboard");
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Webhook className="h-5 w-5" />
+            Webhooks
+          </CardTitle>
+          <CardDescription>
+            Send booking and job updates to your own systems, such as an ITSM or service desk tool
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openForm(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Webhook
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : subscriptions.length === 0 ? (
+          <div className="text-center py-8">
+            <Webhook className="h-10 w-10 mx-auto text-muted-foreground/50 mb-3" />
+            <p className="text-muted-foreground">No webhooks yet</p>
+            <p className="text-sm text-muted-foreground">
+              Add an endpoint to be notified when bookings and jobs change status
+            </p>
+          </div>
+        ) : (
+          subscriptions.map((subscription) => {
+            const lastStatus = subscription.lastDeliveryStatus
+              ? webhookDeliveryStatusConfig[subscription.lastDeliveryStatus]
+              : null;
+            const isLogOpen = logSubscriptionId === subscription.id;
+            return (
+              <div key={subscription.id} className="rounded-lg border">
+                <div className="flex flex-col gap-3 p-4 lg:flex-row lg:items-center lg:justify-between">
+                  <div className="min-w-0 space-y-1">
+                    <p className="font-mono text-sm truncate">{subscription.url}</p>
+                    {subscription.description && (
+                      <p className="text-sm text-muted-foreground">{subscription.description}</p>
+                    )}
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <Badge variant="outline">
+                        {subscription.eventTypes.length} {subscription.eventTypes.length === 1 ? "event" : "events"}
+                      </Badge>
+                      <span className="font-mono">Secret ····{subscription.secretHint}</span>
+                      {lastStatus && subscription.lastDeliveryAt && (
+                        <Badge variant="secondary" className={lastStatus.className}>
+                          Last delivery {lastStatus.label.toLowerCase()}{" "}
+                          {new Date(subscription.lastDeliveryAt).toLocaleString("en-GB", {
+                            day: "numeric",
+                            month: "short",
+                            hour: "2-digit",
+                            minute: "2-digit",
+                          })}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <div className="flex items-center gap-2 mr-2">
+                      <Switch
+                        checked={subscription.isActive}
+                        onCheckedChange={(checked) => handleToggleActive(subscription, checked)}
+                        aria-label="Active"
+                        className="data-[state=checked]:bg-success"
+                      />
+                      <span className="text-sm text-muted-foreground">{subscription.isActive ? "Active" : "Paused"}</span>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleSendTest(subscription)}
+                      disabled={sendTest.isPending}
+                    >
+                      {sendTest.isPending && sendTest.variables === subscription.id ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Send className="h-4 w-4 mr-2" />
+                      )}
+                      Send Test
+                    </Button>
+                    <Button
+                      variant={isLogOpen ? "secondary" : "outline"}
+                      size="sm"
+                      onClick={() => setLogSubscriptionId(isLogOpen ? null : subscription.id)}
+                    >
+                      <History className="h-4 w-4 mr-2" />
+                      Deliveries
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => openForm(subscription)} aria-label="Edit webhook">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRotateSecret(subscription)}
+                      disabled={rotateSecret.isPending}
+                      aria-label="Rotate secret"
+                    >
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDeleting(subscription)}
+                      aria-label="Delete webhook"
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {isLogOpen && (
+                  <div className="border-t p-4">
+                    <WebhookDeliveryLog subscriptionId={subscription.id} />
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <WebhookFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        subscription={editing}
+        onCreated={setRevealed}
+      />
+
+      {/* Signing secret - shown once, after create or rotate */}
+      <Dialog open={!!revealed} onOpenChange={(open) => !open && setRevealed(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Signing Secret</DialogTitle>
+            <DialogDescription>
+              Copy this secret now - it won't be shown again. Use it to verify the {WEBHOOK_SIGNATURE_HEADER} header
+              on each request.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={revealed?.secret || ""} className="font-mono text-xs" />
+            <Button variant="outline" size="icon" onClick={copySecret} aria-label="Copy secret">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealed(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Webhook</DialogTitle>
+            <DialogDescription>
+              Stop sending events to {deleting?.url}? Its delivery log is deleted too. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleting(null)} disabled={deleteSubscription.isPending}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteConfirm} disabled={deleteSubscription.isPending}>
+              {deleteSubscription.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                "Delete"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+// Checklist of permissions with a scope per permission, limited to what the editor may grant
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getAssignableScopes, permissionCatalog, scopeLabels } from "@/lib/permissions";
+import type { Permission, PermissionGrant, PermissionScope } from "@/types/permissions";
+
+interface PermissionGrantsEditorProps {
+  value: PermissionGrant[];
+  onChange: (grants: PermissionGrant[]) => void;
+  editorGrants: PermissionGrant[]; // Grants of the person editing - caps what can be handed out
+  disabled?: boolean;
+}
+
+export function PermissionGrantsEditor({ value, onChange, editorGrants, disabled }: PermissionGrantsEditorProps) {
+  const grantFor = (permission: Permission) => value.find((grant) => grant.permission === permission);
+
+  const togglePermission = (permission: Permission, checked: boolean, scopes: PermissionScope[]) => {
+    if (checked) {
+      // Default to the widest scope the editor holds
+      onChange([...value, { permission, scope: scopes[scopes.length - 1] }]);
+    } else {
+      onChange(value.filter((grant) => grant.permission !== permission));
+    }
+  };
+
+  const setScope = (permission: Permission, scope: PermissionScope) => {
+    onChange(value.map((grant) => (grant.permission === permission ? { ...grant, scope } : grant)));
+  };
+
+  const groups = permissionCatalog
+    .map((group) => ({
+      ...group,
+      permissions: group.permissions
+        .map((permission) => ({ ...permission, scopes: getAssignableScopes(editorGrants, permission.id) }))
+        .filter((permission) => permission.scopes.length > 0),
+    }))
+    .filter((group) => group.permissions.length > 0);
+
+  return (
+    <div className="space-y-4">
+      {groups.map((group) => (
+        <div key={group.group} className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">{group.group}</p>
+          {group.permissions.map((permission) => {
+            const grant = grantFor(permission.id);
+            return (
+              <div key={permission.id} className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Checkbox
+                    id={`permission-${permission.id}`}
+                    checked={!!grant}
+                    onCheckedChange={(checked) => togglePermission(permission.id, checked === true, permission.scopes)}
+                    disabled={disabled}
+                  />
+                  <Label htmlFor={`permission-${permission.id}`} className="font-normal truncate">
+                    {permission.label}
+                  </Label>
+                </div>
+                {grant && (
+                  <Select
+                    value={grant.scope}
+                    onValueChange={(scope) => setScope(permission.id, scope as PermissionScope)}
+                    disabled={disabled || permission.scopes.length === 1}
+                  >
+                    <SelectTrigger className="h-8 w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {permission.scopes.map((scope) => (
+                        <SelectItem key={scope} value={scope}>
+                          {scopeLabels[scope]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+// Create or edit a tenant-defined role
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { PermissionGrantsEditor } from "@/components/users/PermissionGrantsEditor";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCreateRole, useUpdateRole } from "@/hooks/useRoles";
+import type { UserRole } from "@/types/auth";
+import type { PermissionGrant, RoleDefinition } from "@/types/permissions";
+
+const baseRoleOptions: UserRole[] = ["admin", "client", "reseller", "driver"];
+
+interface RoleEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  role?: RoleDefinition | null; // Omit to create a new role
+}
+
+export function RoleEditorDialog({ open, onOpenChange, role }: RoleEditorDialogProps) {
+  const { user, permissions, hasPermission } = useAuth();
+  const createRole = useCreateRole();
+  const updateRole = useUpdateRole();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [baseRole, setBaseRole] = useState<UserRole>("client");
+  const [grants, setGrants] = useState<PermissionGrant[]>([]);
+
+  // Only tenant-wide role managers can define roles for other kinds of user
+  const canChooseBaseRole = hasPermission("roles.manage", "all");
+  const isSaving = createRole.isPending || updateRole.isPending;
+
+  useEffect(() => {
+    if (open) {
+      setName(role?.name || "");
+      setDescription(role?.description || "");
+      setBaseRole(role?.baseRole || user?.role || "client");
+      setGrants(role?.grants || []);
+    }
+  }, [open, role, user?.role]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error("Please enter a role name");
+      return;
+    }
+
+    const data = { name: name.trim(), description: description.trim() || undefined, baseRole, grants };
+    const options = {
+      onSuccess: () => {
+        toast.success(role ? "Role updated" : "Role created");
+        onOpenChange(false);
+      },
+      onError: (error: Error) => {
+        toast.error(role ? "Failed to update role" : "Failed to create role", {
+          description: error.message || "Please try again.",
+        });
+      },
+    };
+
+    if (role) {
+      updateRole.mutate({ id: role.id, data }, options);
+    } else {
+      createRole.mutate(data, options);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{role ? `Edit ${role.name}` : "Create Role"}</DialogTitle>
+          <DialogDescription>
+            Choose what people with this role can do and how far each permission reaches. You can only grant access you hold yourself.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-2">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="roleName">Name</Label>
+                <Input
+                  id="roleName"
+                  placeholder="e.g. Document Viewer"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={isSaving}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Based on</Label>
+                <Select
+                  value={baseRole}
+                  onValueChange={(value) => setBaseRole(value as UserRole)}
+                  disabled={isSaving || !canChooseBaseRole}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {baseRoleOptions.map((option) => (
+                      <SelectItem key={option} value={option} className="capitalize">
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="roleDescription">Description</Label>
+              <Textarea
+                id="roleDescription"
+                placeholder="What is this role for?"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                disabled={isSaving}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Permissions</Label>
+              <ScrollArea className="h-72 rounded-md border p-4">
+                <PermissionGrantsEditor
+                  value={grants}
+                  onChange={setGrants}
+                  editorGrants={permissions}
+                  disabled={isSaving}
+                />
+              </ScrollArea>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim()}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : role ? (
+                "Save Changes"
+              ) : (
+                "Create Role"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,129 @@
+// Assign a custom role and extra permissions to a user
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { PermissionGrantsEditor } from "@/components/users/PermissionGrantsEditor";
+import { useAuth } from "@/contexts/AuthContext";
+import { useUpdateUserPermissions } from "@/hooks/useRoles";
+import type { ExtendedUser } from "@/mocks/mock-entities";
+import type { PermissionGrant, RoleDefinition } from "@/types/permissions";
+
+// Select value for "no custom role" - Radix Select does not allow empty values
+const BUILT_IN_ROLE = "built-in";
+
+interface UserAccessDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user: ExtendedUser | null;
+  roles: RoleDefinition[];
+}
+
+export function UserAccessDialog({ open, onOpenChange, user, roles }: UserAccessDialogProps) {
+  const { permissions } = useAuth();
+  const updatePermissions = useUpdateUserPermissions();
+  const [customRoleId, setCustomRoleId] = useState(BUILT_IN_ROLE);
+  const [grants, setGrants] = useState<PermissionGrant[]>([]);
+
+  useEffect(() => {
+    if (open && user) {
+      setCustomRoleId(user.customRoleId || BUILT_IN_ROLE);
+      setGrants(user.permissions || []);
+    }
+  }, [open, user]);
+
+  if (!user) return null;
+
+  // A custom role keeps the user's app experience, so only roles built on it apply
+  const availableRoles = roles.filter((role) => role.baseRole === user.role);
+
+  const handleSave = () => {
+    updatePermissions.mutate(
+      {
+        userId: user.id,
+        data: { customRoleId: customRoleId === BUILT_IN_ROLE ? null : customRoleId, permissions: grants },
+      },
+      {
+        onSuccess: () => {
+          toast.success(`Access updated for ${user.name}`);
+          onOpenChange(false);
+        },
+        onError: (error) => {
+          toast.error("Failed to update access", {
+            description: error instanceof Error ? error.message : "Please try again.",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Access for {user.name}</DialogTitle>
+          <DialogDescription>
+            A custom role replaces the built-in {user.role} permissions. Extra permissions are added on top of the role.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={customRoleId} onValueChange={setCustomRoleId} disabled={updatePermissions.isPending}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={BUILT_IN_ROLE} className="capitalize">
+                  Built-in {user.role}
+                </SelectItem>
+                {availableRoles.map((role) => (
+                  <SelectItem key={role.id} value={role.id}>
+                    {role.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Extra permissions</Label>
+            <ScrollArea className="h-64 rounded-md border p-4">
+              <PermissionGrantsEditor
+                value={grants}
+                onChange={setGrants}
+                editorGrants={permissions}
+                disabled={updatePermissions.isPending}
+              />
+            </ScrollArea>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={updatePermissions.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={updatePermissions.isPending}>
+            {updatePermissions.isPending ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save Access"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
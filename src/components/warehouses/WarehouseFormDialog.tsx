@@ -0,0 +1,346 @@
+// Create or edit a warehouse - location, capabilities and opening hours
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { MapPicker } from "@/components/booking/MapPicker";
+import { useCreateWarehouse, useUpdateWarehouse } from "@/hooks/useWarehouses";
+import { EUROPEAN_COUNTRIES, getCountryCode, validateEuropeanPostcode } from "@/lib/european-validation";
+import { WEEKDAYS, warehouseCapabilityLabels } from "@/lib/warehouses";
+import type {
+  CreateWarehouseData,
+  Warehouse,
+  WarehouseCapability,
+  WarehouseOpeningHours,
+  Weekday,
+} from "@/services/warehouse.service";
+
+const DEFAULT_HOURS = { open: "08:00", close: "18:00" };
+
+const emptyForm = (): Omit<CreateWarehouseData, "lat" | "lng"> => ({
+  name: "",
+  code: "",
+  address: "",
+  postcode: "",
+  country: "GB",
+  capabilities: ["collections", "sanitisation", "grading"],
+  operatingHours: (["mon", "tue", "wed", "thu", "fri"] as Weekday[]).map((day) => ({ day, ...DEFAULT_HOURS })),
+  isActive: true,
+  isDefault: false,
+});
+
+interface WarehouseFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  warehouse?: Warehouse | null; // Omit to create a new warehouse
+}
+
+export function WarehouseFormDialog({ open, onOpenChange, warehouse }: WarehouseFormDialogProps) {
+  const createWarehouse = useCreateWarehouse();
+  const updateWarehouse = useUpdateWarehouse();
+  const [formData, setFormData] = useState(emptyForm);
+  const [location, setLocation] = useState<{ lat: number; lng: number } | null>(null);
+
+  const isSaving = createWarehouse.isPending || updateWarehouse.isPending;
+
+  useEffect(() => {
+    if (open) {
+      if (warehouse) {
+        const { name, code, address, postcode, country, capabilities, operatingHours, isActive, isDefault } = warehouse;
+        setFormData({ name, code, address, postcode, country, capabilities, operatingHours, isActive, isDefault });
+        setLocation({ lat: warehouse.lat, lng: warehouse.lng });
+      } else {
+        setFormData(emptyForm());
+        setLocation(null);
+      }
+    }
+  }, [open, warehouse]);
+
+  const toggleCapability = (capability: WarehouseCapability, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      capabilities: checked
+        ? [...prev.capabilities, capability]
+        : prev.capabilities.filter((candidate) => candidate !== capability),
+    }));
+  };
+
+  const hoursFor = (day: Weekday) => formData.operatingHours.find((hours) => hours.day === day);
+
+  const setHours = (day: Weekday, hours: Omit<WarehouseOpeningHours, "day"> | null) => {
+    setFormData((prev) => {
+      const others = prev.operatingHours.filter((candidate) => candidate.day !== day);
+      const operatingHours = hours ? [...others, { day, ...hours }] : others;
+      // Keep the week in order
+      operatingHours.sort(
+        (a, b) => WEEKDAYS.findIndex((weekday) => weekday.id === a.day) - WEEKDAYS.findIndex((weekday) => weekday.id === b.day)
+      );
+      return { ...prev, operatingHours };
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim() || !formData.code.trim()) {
+      toast.error("Warehouse name and code are required");
+      return;
+    }
+    if (!location) {
+      toast.error("Please set the warehouse location on the map");
+      return;
+    }
+    if (!validateEuropeanPostcode(formData.postcode)) {
+      toast.error("Please enter a valid postcode");
+      return;
+    }
+    if (formData.operatingHours.some((hours) => hours.open >= hours.close)) {
+      toast.error("Closing time must be after opening time");
+      return;
+    }
+
+    const data: CreateWarehouseData = {
+      ...formData,
+      name: formData.name.trim(),
+      code: formData.code.trim().toUpperCase(),
+      lat: location.lat,
+      lng: location.lng,
+    };
+    const options = {
+      onSuccess: () => {
+        toast.success(warehouse ? "Warehouse updated" : "Warehouse created");
+        onOpenChange(false);
+      },
+      onError: (error: Error) => {
+        toast.error(warehouse ? "Failed to update warehouse" : "Failed to create warehouse", {
+          description: error.message || "Please try again.",
+        });
+      },
+    };
+
+    if (warehouse) {
+      updateWarehouse.mutate({ id: warehouse.id, data }, options);
+    } else {
+      createWarehouse.mutate(data, options);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{warehouse ? `Edit ${warehouse.name}` : "Add Warehouse"}</DialogTitle>
+          <DialogDescription>
+            Bookings are routed to the nearest active warehouse with the capabilities they need.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <ScrollArea className="max-h-[65vh] pr-4">
+            <div className="space-y-6 py-2">
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-2 sm:col-span-2">
+                  <Label htmlFor="warehouseName">Name *</Label>
+                  <Input
+                    id="warehouseName"
+                    placeholder="e.g. London East"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="warehouseCode">Code *</Label>
+                  <Input
+                    id="warehouseCode"
+                    placeholder="LON1"
+                    value={formData.code}
+                    onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                    disabled={isSaving}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Location *</Label>
+                <MapPicker
+                  position={location}
+                  onPositionChange={setLocation}
+                  onAddressDetailsChange={(details) => {
+                    setFormData((prev) => ({
+                      ...prev,
+                      address: [details.street, details.city].filter(Boolean).join(", ") || prev.address,
+                      postcode: details.postcode || prev.postcode,
+                      country: (details.country && getCountryCode(details.country)) || prev.country,
+                    }));
+                  }}
+                  height="240px"
+                />
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-4">
+                <div className="space-y-2 sm:col-span-2">
+                  <Label htmlFor="warehouseAddress">Address</Label>
+                  <Input
+                    id="warehouseAddress"
+                    value={formData.address}
+                    onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="warehousePostcode">Postcode *</Label>
+                  <Input
+                    id="warehousePostcode"
+                    value={formData.postcode}
+                    onChange={(e) => setFormData({ ...formData, postcode: e.target.value.toUpperCase() })}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Country</Label>
+                  <Select
+                    value={formData.country}
+                    onValueChange={(country) => setFormData({ ...formData, country })}
+                    disabled={isSaving}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EUROPEAN_COUNTRIES.map((country) => (
+                        <SelectItem key={country} value={country}>
+                          {country}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Capabilities</Label>
+                <div className="grid gap-2 sm:grid-cols-3">
+                  {(Object.keys(warehouseCapabilityLabels) as WarehouseCapability[]).map((capability) => (
+                    <div key={capability} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`capability-${capability}`}
+                        checked={formData.capabilities.includes(capability)}
+                        onCheckedChange={(checked) => toggleCapability(capability, checked === true)}
+                        disabled={isSaving}
+                      />
+                      <Label htmlFor={`capability-${capability}`} className="font-normal">
+                        {warehouseCapabilityLabels[capability]}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Operating Hours</Label>
+                <div className="space-y-2">
+                  {WEEKDAYS.map((weekday) => {
+                    const hours = hoursFor(weekday.id);
+                    return (
+                      <div key={weekday.id} className="flex items-center gap-3">
+                        <div className="flex items-center gap-2 w-32">
+                          <Checkbox
+                            id={`hours-${weekday.id}`}
+                            checked={!!hours}
+                            onCheckedChange={(checked) => setHours(weekday.id, checked === true ? DEFAULT_HOURS : null)}
+                            disabled={isSaving}
+                          />
+                          <Label htmlFor={`hours-${weekday.id}`} className="font-normal">
+                            {weekday.label}
+                          </Label>
+                        </div>
+                        {hours ? (
+                          <>
+                            <Input
+                              type="time"
+                              className="h-8 w-28"
+                              value={hours.open}
+                              onChange={(e) => setHours(weekday.id, { open: e.target.value, close: hours.close })}
+                              disabled={isSaving}
+                            />
+                            <span className="text-sm text-muted-foreground">to</span>
+                            <Input
+                              type="time"
+                              className="h-8 w-28"
+                              value={hours.close}
+                              onChange={(e) => setHours(weekday.id, { open: hours.open, close: e.target.value })}
+                              disabled={isSaving}
+                            />
+                          </>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">Closed</span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <Label htmlFor="warehouseActive">Active</Label>
+                    <p className="text-xs text-muted-foreground">Inactive warehouses receive no new bookings</p>
+                  </div>
+                  <Switch
+                    id="warehouseActive"
+                    checked={formData.isActive}
+                    onCheckedChange={(isActive) => setFormData({ ...formData, isActive })}
+                    disabled={isSaving || warehouse?.isDefault}
+                  />
+                </div>
+                <div className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <Label htmlFor="warehouseDefault">Default</Label>
+                    <p className="text-xs text-muted-foreground">Used when a booking has no location</p>
+                  </div>
+                  <Switch
+                    id="warehouseDefault"
+                    checked={formData.isDefault}
+                    onCheckedChange={(isDefault) => setFormData({ ...formData, isDefault, isActive: isDefault || formData.isActive })}
+                    disabled={isSaving || warehouse?.isDefault}
+                  />
+                </div>
+              </div>
+            </div>
+          </ScrollArea>
+          <DialogFooter className="pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : warehouse ? (
+                "Save Changes"
+              ) : (
+                "Add Warehouse"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
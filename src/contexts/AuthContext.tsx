@@ -1,7 +1,10 @@
 // Authentication Context
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { createContext, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
 import type { AuthState, LoginCredentials, SignupData, InviteData } from '@/types/auth';
+import type { Permission, PermissionGrant, PermissionScope } from '@/types/permissions';
 import { authService } from '@/services/auth.service';
+import { useRole } from '@/hooks/useRoles';
+import { hasPermission as grantsAllow, resolveGrants } from '@/lib/permissions';
 
 interface AuthContextType extends AuthState {
   login: (credentials: LoginCredentials) => Promise<AuthState | { requiresTwoFactor: true; userId: string; email: string; message: string }>;
@@ -12,6 +15,8 @@ interface AuthContextType extends AuthState {
   logout: () => Promise<void>;
   isLoading: boolean;
   hasRole: (roles: string[]) => boolean;
+  permissions: PermissionGrant[];
+  hasPermission: (permission: Permission, scope?: PermissionScope) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -24,6 +29,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     isAuthenticated: false,
   });
   const [isLoading, setIsLoading] = useState(true);
+  const customRoleId = authState.user?.customRoleId;
+  const { data: customRole, isLoading: isLoadingRole } = useRole(customRoleId);
+
+  const permissions = useMemo(
+    () => (authState.user ? resolveGrants(authState.user, customRole) : []),
+    [authState.user, customRole]
+  );
 
   useEffect(() => {
     // Check for existing session on mount
@@ -111,6 +123,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return roles.includes(authState.user.role);
   };
 
+  const hasPermission = (permission: Permission, scope?: PermissionScope): boolean => {
+    return grantsAllow(permissions, permission, scope);
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -121,8 +137,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         signup,
         acceptInvite,
         logout,
-        isLoading,
+        isLoading: isLoading || (!!customRoleId && isLoadingRole),
         hasRole,
+        permissions,
+        hasPermission,
       }}
     >
       {children}
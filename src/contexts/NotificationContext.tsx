@@ -2,7 +2,9 @@
 import { createContext, useContext, ReactNode } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from './AuthContext';
+import { useRealtime } from './RealtimeContext';
 import { notificationsService } from '@/services/notifications.service';
+import type { NotificationCategory } from '@/types/notifications';
 
 // Notification type definition
 export interface Notification {
@@ -13,6 +15,7 @@ export interface Notification {
   time: string;
   read: boolean;
   url?: string;
+  category?: NotificationCategory; // Preference category the backend routed it by
 }
 
 interface NotificationContextType {
@@ -117,6 +120,7 @@ const getNotificationsByRole = (role: string): Notification[] => {
 
 export function NotificationProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth();
+  const { isLive } = useRealtime();
   const queryClient = useQueryClient();
 
   // Fetch notifications from API - only when explicitly requested (e.g., when bell icon is clicked)
@@ -154,7 +158,7 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
       }
     },
     enabled: !!user?.id,
-    refetchInterval: 30000, // Keep polling every 30 seconds
+    refetchInterval: isLive ? false : 30000, // New notifications are pushed while live; poll otherwise
   });
 
   const notifications = notificationsData?.notifications || [];
@@ -0,0 +1,152 @@
+// Offline Sync Context - tracks connectivity and replays the driver outbox
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useAuth } from './AuthContext';
+import {
+  clearOutboxForJob,
+  enqueueOutboxEntry,
+  getOutboxEntries,
+  subscribeToOutbox,
+  type OutboxEntry,
+  type OutboxPayload,
+} from '@/lib/offline-outbox';
+import { offlineSyncService } from '@/services/offline-sync.service';
+
+// Retry interval while entries are pending and the browser reports being online
+const RETRY_INTERVAL_MS = 30000;
+
+interface OfflineSyncContextType {
+  isOnline: boolean;
+  isSyncing: boolean;
+  entries: OutboxEntry[];
+  pendingCount: number;
+  conflictCount: number;
+  enqueue: (jobId: string, payload: OutboxPayload) => Promise<OutboxEntry | null>;
+  syncNow: () => Promise<void>;
+  discardJob: (jobId: string) => Promise<void>;
+}
+
+const OfflineSyncContext = createContext<OfflineSyncContextType | undefined>(undefined);
+
+export function OfflineSyncProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [isOnline, setIsOnline] = useState(() => (typeof navigator === 'undefined' ? true : navigator.onLine));
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  const isDriver = user?.role === 'driver';
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries(await getOutboxEntries());
+    } catch (error) {
+      console.error('[OfflineSync] Failed to read outbox:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+    return subscribeToOutbox(loadEntries);
+  }, [loadEntries]);
+
+  const syncNow = useCallback(async () => {
+    if (!isDriver) return;
+    setIsSyncing(true);
+    try {
+      const result = await offlineSyncService.replay();
+
+      if (result.syncedJobIds.length > 0) {
+        result.syncedJobIds.forEach((jobId) => {
+          queryClient.invalidateQueries({ queryKey: ['job', jobId] });
+        });
+        queryClient.invalidateQueries({ queryKey: ['jobs'] });
+        queryClient.invalidateQueries({ queryKey: ['notifications'] });
+        toast.success('Offline changes synced', {
+          description: `${result.synced} queued update${result.synced === 1 ? '' : 's'} sent to the server.`,
+        });
+      }
+
+      if (result.conflicts > 0) {
+        toast.error('Some offline changes could not be synced', {
+          description: 'Open the affected job to review the conflict.',
+        });
+      }
+    } catch (error) {
+      console.error('[OfflineSync] Replay failed:', error);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [isDriver, queryClient]);
+
+  // Track connectivity and replay as soon as the connection comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncNow]);
+
+  const pendingCount = entries.filter((entry) => entry.state === 'pending').length;
+  const conflictCount = entries.filter((entry) => entry.state === 'conflict').length;
+  const hasPending = pendingCount > 0;
+
+  // navigator.onLine can report true behind captive portals / dead Wi-Fi, so keep retrying
+  useEffect(() => {
+    if (!isDriver || !isOnline || !hasPending) return;
+
+    syncNow();
+    const interval = setInterval(syncNow, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isDriver, isOnline, hasPending, syncNow]);
+
+  const enqueue = useCallback(
+    async (jobId: string, payload: OutboxPayload) => {
+      if (!user?.id) return null;
+      return enqueueOutboxEntry({ jobId, driverId: user.id, payload });
+    },
+    [user?.id]
+  );
+
+  const discardJob = useCallback(
+    async (jobId: string) => {
+      await clearOutboxForJob(jobId);
+      queryClient.invalidateQueries({ queryKey: ['job', jobId] });
+    },
+    [queryClient]
+  );
+
+  return (
+    <OfflineSyncContext.Provider
+      value={{
+        isOnline,
+        isSyncing,
+        entries,
+        pendingCount,
+        conflictCount,
+        enqueue,
+        syncNow,
+        discardJob,
+      }}
+    >
+      {children}
+    </OfflineSyncContext.Provider>
+  );
+}
+
+export function useOfflineSync() {
+  const context = useContext(OfflineSyncContext);
+  if (context === undefined) {
+    throw new Error('useOfflineSync must be used within an OfflineSyncProvider');
+  }
+  return context;
+}
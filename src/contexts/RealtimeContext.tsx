@@ -0,0 +1,113 @@
+// Realtime Context - keeps the push channel open while signed in and applies
+// pushed events to the react-query cache
+import { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { useAuth } from './AuthContext';
+import type { Notification } from './NotificationContext';
+import { realtimeService } from '@/services/realtime.service';
+import { transformStatus } from '@/services/data-transform';
+import type { Job } from '@/types/jobs';
+import type { RealtimeConnectionStatus, RealtimeEvent } from '@/types/realtime';
+
+interface RealtimeContextType {
+  status: RealtimeConnectionStatus;
+  isLive: boolean; // Pushed updates are arriving - polling can be relaxed
+}
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+/**
+ * Patch what the event fully describes, invalidate the rest
+ */
+function applyEvent(queryClient: QueryClient, event: RealtimeEvent, userId: string) {
+  switch (event.type) {
+    case 'job.status_changed':
+      queryClient.setQueryData<Job | null>(['job', event.jobId], (job) =>
+        job ? { ...job, status: transformStatus(event.status) } : job
+      );
+      queryClient.invalidateQueries({ queryKey: ['job', event.jobId] });
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['bookings'] }); // Booking status follows the job
+      queryClient.invalidateQueries({ queryKey: ['booking'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
+      break;
+
+    case 'job.evidence_uploaded':
+      queryClient.invalidateQueries({ queryKey: ['job', event.jobId] });
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+      if (event.bookingId) queryClient.invalidateQueries({ queryKey: ['bookings', event.bookingId] });
+      break;
+
+    case 'booking.approved':
+      queryClient.invalidateQueries({ queryKey: ['bookings'] });
+      queryClient.invalidateQueries({ queryKey: ['booking'] });
+      queryClient.invalidateQueries({ queryKey: ['jobs'] }); // Approval creates the job
+      queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
+      break;
+
+    case 'notification.created': {
+      if (event.userId !== userId) break;
+      queryClient.setQueryData<{ notifications: Notification[]; total: number }>(
+        ['notifications', userId],
+        (data) =>
+          data && !data.notifications.some((notification) => notification.id === event.notification.id)
+            ? { notifications: [event.notification, ...data.notifications], total: data.total + 1 }
+            : data
+      );
+      queryClient.setQueryData<number>(['notifications', 'unread-count', userId], (count) =>
+        count === undefined ? count : count + 1
+      );
+      break;
+    }
+  }
+}
+
+export function RealtimeProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<RealtimeConnectionStatus>(realtimeService.getStatus());
+  const hasConnectedRef = useRef(false);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const unsubscribeStatus = realtimeService.onStatusChange((nextStatus) => {
+      setStatus(nextStatus);
+      if (nextStatus !== 'open') return;
+      // Events sent while disconnected are lost - refetch anything they could have changed
+      if (hasConnectedRef.current) {
+        queryClient.invalidateQueries({ queryKey: ['jobs'] });
+        queryClient.invalidateQueries({ queryKey: ['job'] });
+        queryClient.invalidateQueries({ queryKey: ['bookings'] });
+        queryClient.invalidateQueries({ queryKey: ['notifications'] });
+      }
+      hasConnectedRef.current = true;
+    });
+    const unsubscribeEvents = realtimeService.subscribe((event) => applyEvent(queryClient, event, userId));
+
+    realtimeService.start();
+    return () => {
+      unsubscribeEvents();
+      unsubscribeStatus();
+      realtimeService.stop();
+      hasConnectedRef.current = false;
+      setStatus('idle');
+    };
+  }, [userId, queryClient]);
+
+  return (
+    <RealtimeContext.Provider value={{ status, isLive: status === 'open' }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+}
+
+export function useRealtime() {
+  const context = useContext(RealtimeContext);
+  if (context === undefined) {
+    throw new Error('useRealtime must be used within a RealtimeProvider');
+  }
+  return context;
+}
@@ -3,20 +3,41 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { bookingService } from '@/services/booking.service';
 import { jmlBookingService } from '@/services/jml-booking.service';
 import { useAuth } from '@/contexts/AuthContext';
+import { checkTransition, runTransitionEffects, type BookingStatus } from '@/lib/booking-state-machine';
+import type { Booking } from '@/mocks/mock-entities';
+import type { BulkJmlImportRequest } from '@/types/jml-import';
+
+/**
+ * Client-side handlers for the lifecycle side effects (refresh whatever the transition changed).
+ * Must run before the booking queries are invalidated: the cached booking supplies the "from" status.
+ */
+function useBookingTransitionEffects() {
+  const queryClient = useQueryClient();
+
+  return (bookingId: string, to: BookingStatus) => {
+    const booking = queryClient.getQueryData<Booking>(['bookings', bookingId]);
+    if (!booking) return;
+
+    runTransitionEffects(checkTransition(booking, to).transition, {
+      inventory_changed: () => queryClient.invalidateQueries({ queryKey: ['inventory'] }),
+      certificates_issued: () => queryClient.invalidateQueries({ queryKey: ['documents'] }),
+    }, bookingId);
+  };
+}
 
 export function useBookings(filter?: { status?: string; clientId?: string }) {
   const { user } = useAuth();
   
   return useQuery({
     queryKey: ['bookings', user?.id, filter],
-    queryFn: () => bookingService.getBookings(user, filter),
+    queryFn: ({ signal }) => bookingService.getBookings(user, filter, { signal }),
   });
 }
 
 export function useBooking(id: string | null) {
   return useQuery({
     queryKey: ['bookings', id],
-    queryFn: () => id ? bookingService.getBookingById(id) : null,
+    queryFn: ({ signal }) => id ? bookingService.getBookingById(id, { signal }) : null,
     enabled: !!id,
   });
 }
@@ -49,14 +70,30 @@ export function useBookCourier() {
   });
 }
 
+export function useBulkJmlImport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: BulkJmlImportRequest) => jmlBookingService.importBulk(request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bookings'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications', 'unread-count'] });
+    },
+  });
+}
+
 export function useCompleteBooking() {
   const queryClient = useQueryClient();
   const { user } = useAuth();
+  const runEffects = useBookingTransitionEffects();
 
   return useMutation({
     mutationFn: (bookingId: string) =>
       bookingService.completeBooking(bookingId, user?.id || ''),
-    onSuccess: async () => {
+    onSuccess: async (_, bookingId) => {
+      runEffects(bookingId, 'completed');
       queryClient.invalidateQueries({ queryKey: ['bookings'] });
       queryClient.invalidateQueries({ queryKey: ['jobs'] });
       queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
@@ -71,10 +108,11 @@ export function useApproveBooking() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ bookingId, erpJobNumber, notes }: { bookingId: string; erpJobNumber: string; notes?: string }) =>
+    mutationFn: ({ bookingId, erpJobNumber, notes }: { bookingId: string; erpJobNumber?: string; notes?: string }) =>
       bookingService.approveBooking(bookingId, erpJobNumber, notes),
     onSuccess: async () => {
       queryClient.invalidateQueries({ queryKey: ['bookings'] });
+      queryClient.invalidateQueries({ queryKey: ['erp', 'job-numbers'] });
       queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
       queryClient.invalidateQueries({ queryKey: ['notifications'] });
       queryClient.invalidateQueries({ queryKey: ['notifications', 'unread-count'] });
@@ -85,11 +123,13 @@ export function useApproveBooking() {
 
 export function useUpdateBookingStatus() {
   const queryClient = useQueryClient();
+  const runEffects = useBookingTransitionEffects();
 
   return useMutation({
     mutationFn: ({ bookingId, status, notes }: { bookingId: string; status: string; notes?: string }) =>
       bookingService.updateBookingStatus(bookingId, status as any, notes),
-    onSuccess: async () => {
+    onSuccess: async (_, { bookingId, status }) => {
+      runEffects(bookingId, status as BookingStatus);
       queryClient.invalidateQueries({ queryKey: ['bookings'] });
       queryClient.invalidateQueries({ queryKey: ['jobs'] });
       queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
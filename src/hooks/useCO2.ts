@@ -1,6 +1,11 @@
 // Custom hook for CO2 calculations
-import { useQuery } from '@tanstack/react-query';
-import { co2Service, type CO2CalculationRequest, type CO2CalculationResponse } from '@/services/co2.service';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  co2Service,
+  type CO2CalculationRequest,
+  type CO2CalculationResponse,
+  type RestatementRequest,
+} from '@/services/co2.service';
 
 export function useCO2Calculation(request: CO2CalculationRequest | null) {
   return useQuery<CO2CalculationResponse>({
@@ -22,3 +27,46 @@ export function useJobCO2e(jobId: string | undefined) {
   });
 }
 
+
+export function useEmissionFactorSets() {
+  return useQuery({
+    queryKey: ['emissionFactorSets'],
+    queryFn: () => co2Service.getFactorSets(),
+    staleTime: 60 * 60 * 1000, // Factor sets are published yearly
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useRestatements(enabled = true) {
+  return useQuery({
+    queryKey: ['restatements'],
+    queryFn: () => co2Service.getRestatements(),
+    enabled,
+  });
+}
+
+export function usePreviewRestatement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: RestatementRequest) => co2Service.previewRestatement(request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['restatements'] });
+    },
+  });
+}
+
+export function useApplyRestatement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (restatementId: string) => co2Service.applyRestatement(restatementId),
+    onSuccess: () => {
+      // Reported figures changed on every restated job
+      queryClient.invalidateQueries({ queryKey: ['restatements'] });
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
+      queryClient.invalidateQueries({ queryKey: ['jobCO2e'] });
+    },
+  });
+}
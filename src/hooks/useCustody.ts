@@ -0,0 +1,39 @@
+// Custom hooks for the chain-of-custody ledger
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { custodyService } from '@/services/custody.service';
+import { verifyCustodyChain } from '@/lib/custody';
+
+/**
+ * A booking's custody ledger with the app's own verification of it. Every fetch
+ * recomputes the hashes, so refetch() is a re-verify.
+ */
+export function useCustodyLedger(bookingId?: string) {
+  return useQuery({
+    queryKey: ['bookings', bookingId, 'custody'],
+    queryFn: async ({ signal }) => {
+      const entries = await custodyService.getLedger(bookingId!, { signal });
+      return { entries, verification: await verifyCustodyChain(entries) };
+    },
+    enabled: !!bookingId,
+  });
+}
+
+export function useCustodyCertificate(bookingId?: string) {
+  return useQuery({
+    queryKey: ['bookings', bookingId, 'custody', 'certificate'],
+    queryFn: ({ signal }) => custodyService.getCertificate(bookingId!, { signal }),
+    enabled: !!bookingId,
+  });
+}
+
+export function useIssueCustodyCertificate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (bookingId: string) => custodyService.issueCertificate(bookingId),
+    onSuccess: (_certificate, bookingId) => {
+      queryClient.invalidateQueries({ queryKey: ['bookings', bookingId, 'custody'] });
+      queryClient.invalidateQueries({ queryKey: ['documents'] });
+    },
+  });
+}
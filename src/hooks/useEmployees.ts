@@ -0,0 +1,24 @@
+// Custom hooks for the employee device ledger
+import { useQuery } from '@tanstack/react-query';
+import { employeesService } from '@/services/employees.service';
+import type { EmployeeFilter } from '@/types/employees';
+
+/**
+ * Holdings are worked out from bookings, so employees live under the bookings key and
+ * refresh whenever a booking mutation invalidates it
+ */
+export function useEmployees(filter: EmployeeFilter = {}, enabled = true) {
+  return useQuery({
+    queryKey: ['bookings', 'employees', filter],
+    queryFn: ({ signal }) => employeesService.getEmployees(filter, { signal }),
+    enabled,
+  });
+}
+
+export function useEmployee(id?: string) {
+  return useQuery({
+    queryKey: ['bookings', 'employees', id],
+    queryFn: ({ signal }) => employeesService.getEmployee(id!, { signal }),
+    enabled: !!id,
+  });
+}
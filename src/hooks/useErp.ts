@@ -0,0 +1,77 @@
+// Custom hooks for the ERP connector and its sync history
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { erpService } from '@/services/erp.service';
+import type { ErpSyncRunStatus, StartErpSyncData, UpdateErpConnectorData } from '@/types/erp';
+
+export function useErpConnector(enabled = true) {
+  return useQuery({
+    queryKey: ['erp', 'connector'],
+    queryFn: ({ signal }) => erpService.getConnector({ signal }),
+    enabled,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useNextErpJobNumber(enabled = true) {
+  return useQuery({
+    queryKey: ['erp', 'job-numbers', 'next'],
+    queryFn: ({ signal }) => erpService.getNextJobNumber({ signal }),
+    enabled,
+  });
+}
+
+export function useErpSyncRuns(status?: ErpSyncRunStatus) {
+  return useQuery({
+    queryKey: ['erp', 'sync-runs', status ?? 'all'],
+    queryFn: ({ signal }) => erpService.getSyncRuns(status, { signal }),
+    // Scheduled runs happen in the background
+    refetchInterval: 60000,
+  });
+}
+
+export function useUpdateErpConnector() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: UpdateErpConnectorData) => erpService.updateConnector(data),
+    onSuccess: (connector) => {
+      queryClient.setQueryData(['erp', 'connector'], connector);
+      queryClient.invalidateQueries({ queryKey: ['erp', 'job-numbers'] });
+    },
+  });
+}
+
+export function useTestErpConnection() {
+  return useMutation({
+    mutationFn: () => erpService.testConnection(),
+  });
+}
+
+function useInvalidateAfterSync() {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['erp'] });
+    // Synced devices get their ERP inventory ID and last-synced time
+    queryClient.invalidateQueries({ queryKey: ['inventory'] });
+  };
+}
+
+export function useStartErpSync() {
+  const invalidate = useInvalidateAfterSync();
+
+  return useMutation({
+    mutationFn: (data: StartErpSyncData) => erpService.startSync(data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useRetryErpSyncRun() {
+  const invalidate = useInvalidateAfterSync();
+
+  return useMutation({
+    mutationFn: ({ runId, errorIds }: { runId: string; errorIds?: string[] }) =>
+      erpService.retrySyncRun(runId, errorIds),
+    onSuccess: invalidate,
+  });
+}
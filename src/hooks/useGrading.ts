@@ -1,13 +1,14 @@
 // Custom hooks for grading
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useQueries, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useState, useEffect } from 'react';
 import { gradingService } from '@/services/grading.service';
 import type { GradingRecord } from '@/mocks/mock-entities';
+import type { CreateBulkGradingData } from '@/types/grading';
 
 export function useGradingRecords(bookingId?: string) {
   return useQuery({
     queryKey: ['grading', bookingId],
-    queryFn: () => gradingService.getGradingRecords(bookingId),
+    queryFn: ({ signal }) => gradingService.getGradingRecords(bookingId, { signal }),
   });
 }
 
@@ -45,6 +46,18 @@ export function useCreateGradingRecord() {
   });
 }
 
+export function useCreateBulkGradingRecords() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateBulkGradingData) => gradingService.createBulkGradingRecords(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['grading'] });
+      queryClient.invalidateQueries({ queryKey: ['bookings'] });
+    },
+  });
+}
+
 export function useCalculateResaleValue(category?: string, grade?: GradingRecord['grade'], quantity?: number) {
   return useQuery({
     queryKey: ['calculateResaleValue', category, grade, quantity],
@@ -63,3 +76,18 @@ export function useCalculateResaleValueFn() {
   };
 }
 
+/**
+ * Resale values for several category/grade/quantity groups at once - shares the
+ * cache with useCalculateResaleValue
+ */
+export function useCalculateResaleValues(
+  groups: Array<{ category: string; grade: GradingRecord['grade']; quantity: number }>
+) {
+  return useQueries({
+    queries: groups.map(({ category, grade, quantity }) => ({
+      queryKey: ['calculateResaleValue', category, grade, quantity],
+      queryFn: () => gradingService.calculateResaleValue(category, grade, quantity),
+      staleTime: 5 * 60 * 1000,
+    })),
+  });
+}
@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { inventoryService, InventoryItem, InventoryUploadItem } from "@/services/inventory.service";
 import { toast } from "sonner";
+import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 
 export function useInventory(clientId?: string | null) {
@@ -8,7 +9,7 @@ export function useInventory(clientId?: string | null) {
   
   return useQuery({
     queryKey: ['inventory', clientId || user?.id],
-    queryFn: () => inventoryService.getInventory(clientId || undefined),
+    queryFn: ({ signal }) => inventoryService.getInventory(clientId || undefined, { signal }),
     enabled: !!user,
   });
 }
@@ -81,15 +82,27 @@ export function useUploadInventory() {
 
 export function useSyncInventory() {
   const queryClient = useQueryClient();
-  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { hasPermission } = useAuth();
 
   return useMutation({
     mutationFn: (clientId?: string | null) => inventoryService.syncInventory(clientId || undefined),
     onSuccess: (data) => {
-      toast.success("Inventory synced successfully", {
-        description: `Synced ${data.synced} items (${data.created} created, ${data.updated} updated)`,
-      });
+      const summary = `Synced ${data.synced} items (${data.created} created, ${data.updated} updated)`;
+      if (data.errors.length > 0) {
+        // Only ERP admins can see the sync history and retry failed records
+        const canViewRun = !!data.runId && hasPermission('settings.integrations', 'all');
+        toast.warning(`${data.errors.length} ${data.errors.length === 1 ? "item" : "items"} failed to sync`, {
+          description: `${summary}. ${data.errors[0]}${data.errors.length > 1 ? ` and ${data.errors.length - 1} more` : ""}`,
+          action: canViewRun
+            ? { label: "View details", onClick: () => navigate(`/admin/erp?run=${data.runId}`) }
+            : undefined,
+        });
+      } else {
+        toast.success("Inventory synced successfully", { description: summary });
+      }
       queryClient.invalidateQueries({ queryKey: ['inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['erp', 'sync-runs'] });
     },
     onError: (error) => {
       toast.error("Failed to sync inventory", {
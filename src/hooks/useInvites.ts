@@ -3,10 +3,11 @@ import { authService } from '@/services/auth.service';
 import type { Invite } from '@/types/auth';
 import { toast } from 'sonner';
 
-export function useInvites(status?: 'pending' | 'accepted' | 'expired', role?: 'client' | 'reseller' | 'driver') {
+export function useInvites(status?: 'pending' | 'accepted' | 'expired', role?: 'client' | 'reseller' | 'driver', enabled = true) {
   return useQuery({
     queryKey: ['invites', status, role],
     queryFn: () => authService.listInvites(status, role),
+    enabled,
   });
 }
 
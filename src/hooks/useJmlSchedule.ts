@@ -0,0 +1,35 @@
+// Custom hooks for the JML schedule
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { jmlScheduleService, type JmlMilestoneFilter } from '@/services/jml-schedule.service';
+import type { JmlLeadTimes } from '@/types/jml-schedule';
+
+/**
+ * Milestones move with booking statuses, so they live under the bookings key and
+ * refresh whenever a booking mutation invalidates it
+ */
+export function useJmlMilestones(filter: JmlMilestoneFilter = {}) {
+  return useQuery({
+    queryKey: ['bookings', 'jml-milestones', filter],
+    queryFn: ({ signal }) => jmlScheduleService.getMilestones(filter, { signal }),
+  });
+}
+
+export function useJmlLeadTimes() {
+  return useQuery({
+    queryKey: ['jml', 'lead-times'],
+    queryFn: ({ signal }) => jmlScheduleService.getLeadTimes({ signal }),
+  });
+}
+
+export function useUpdateJmlLeadTimes() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ clientId, leadTimes }: { clientId: string; leadTimes: JmlLeadTimes }) =>
+      jmlScheduleService.updateLeadTimes(clientId, leadTimes),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['jml', 'lead-times'] });
+      queryClient.invalidateQueries({ queryKey: ['bookings', 'jml-milestones'] });
+    },
+  });
+}
@@ -10,7 +10,7 @@ export function useJobs(filter?: JobsFilter) {
 
   return useQuery({
     queryKey: ['jobs', filter, user?.id],
-    queryFn: () => jobsService.getJobs(filter, user),
+    queryFn: ({ signal }) => jobsService.getJobs(filter, user, { signal }),
     staleTime: 30000, // 30 seconds
   });
 }
@@ -18,7 +18,7 @@ export function useJobs(filter?: JobsFilter) {
 export function useJob(id: string | undefined) {
   return useQuery({
     queryKey: ['job', id],
-    queryFn: () => id ? jobsService.getJob(id) : null,
+    queryFn: ({ signal }) => id ? jobsService.getJob(id, { signal }) : null,
     enabled: !!id,
     staleTime: 30000,
   });
@@ -0,0 +1,42 @@
+// Custom hooks for notification preferences
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { notificationsService } from '@/services/notifications.service';
+import { useAuth } from '@/contexts/AuthContext';
+import type { NotificationPreferences } from '@/types/notifications';
+
+export function useNotificationPreferences() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['notificationPreferences', user?.id],
+    queryFn: () => notificationsService.getPreferences(),
+    enabled: !!user,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useUpdateNotificationPreferences() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (preferences: Omit<NotificationPreferences, 'userId' | 'updatedAt'>) =>
+      notificationsService.updatePreferences(preferences),
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(['notificationPreferences', user?.id], preferences);
+      // Digest time or categories may have changed
+      queryClient.invalidateQueries({ queryKey: ['notificationDigest', user?.id] });
+    },
+  });
+}
+
+export function useNotificationDigest() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['notificationDigest', user?.id],
+    queryFn: () => notificationsService.getDigest(),
+    enabled: !!user,
+    staleTime: 60000,
+  });
+}
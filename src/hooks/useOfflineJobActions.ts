@@ -0,0 +1,107 @@
+// Custom hook for offline-capable driver job actions
+// Sends directly when online; queues to the offline outbox when there is no
+// connection (or when earlier actions for the job are still waiting to sync).
+import { useMemo } from 'react';
+import { useOfflineSync } from '@/contexts/OfflineSyncContext';
+import { useUpdateJobEvidence, useUpdateJobJourneyFields, useUpdateJobStatus } from './useJobs';
+import { ApiError, ApiErrorType } from '@/services/api-error';
+import { applyOutboxEntries, type JourneyFields } from '@/lib/offline-outbox';
+import type { Evidence, Job, WorkflowStatus } from '@/types/jobs';
+
+export interface OfflineActionResult {
+  queued: boolean;
+}
+
+function isConnectivityError(error: unknown): boolean {
+  return (
+    error instanceof ApiError &&
+    (error.type === ApiErrorType.NETWORK_ERROR || error.type === ApiErrorType.TIMEOUT)
+  );
+}
+
+export function useOfflineJobActions(serverJob: Job | null | undefined) {
+  const { isOnline, isSyncing, entries, enqueue, syncNow, discardJob } = useOfflineSync();
+  const updateStatus = useUpdateJobStatus();
+  const updateEvidence = useUpdateJobEvidence();
+  const updateJourneyFields = useUpdateJobJourneyFields();
+
+  const jobId = serverJob?.id;
+
+  const jobEntries = useMemo(
+    () => (jobId ? entries.filter((entry) => entry.jobId === jobId) : []),
+    [entries, jobId]
+  );
+  const pendingEntries = useMemo(() => jobEntries.filter((entry) => entry.state === 'pending'), [jobEntries]);
+  const conflict = useMemo(() => jobEntries.find((entry) => entry.state === 'conflict') || null, [jobEntries]);
+
+  // Job as the driver should see it: server state plus anything still queued locally
+  const job = useMemo(() => applyOutboxEntries(serverJob, jobEntries), [serverJob, jobEntries]);
+
+  // Once something is queued for a job, everything after it must queue too to keep ordering
+  const mustQueue = !isOnline || jobEntries.length > 0;
+
+  const submitEvidence = async (evidence: Partial<Evidence> & { status?: string }): Promise<OfflineActionResult> => {
+    if (!jobId) throw new Error('Job not loaded');
+    if (!mustQueue) {
+      try {
+        await updateEvidence.mutateAsync({ jobId, evidence });
+        return { queued: false };
+      } catch (error) {
+        if (!isConnectivityError(error)) throw error;
+      }
+    }
+    await enqueue(jobId, { kind: 'evidence', evidence });
+    return { queued: true };
+  };
+
+  /**
+   * Pass queue: true when the evidence this status depends on was just queued,
+   * so the status is never sent ahead of it.
+   */
+  const submitStatus = async (
+    status: WorkflowStatus,
+    options?: { queue?: boolean }
+  ): Promise<OfflineActionResult> => {
+    if (!jobId || !job) throw new Error('Job not loaded');
+    if (!mustQueue && !options?.queue) {
+      try {
+        await updateStatus.mutateAsync({ jobId, status });
+        return { queued: false };
+      } catch (error) {
+        if (!isConnectivityError(error)) throw error;
+      }
+    }
+    await enqueue(jobId, { kind: 'status', status, fromStatus: job.status });
+    return { queued: true };
+  };
+
+  const submitJourneyFields = async (fields: JourneyFields): Promise<OfflineActionResult & { job?: Job }> => {
+    if (!jobId) throw new Error('Job not loaded');
+    if (!mustQueue) {
+      try {
+        const updatedJob = await updateJourneyFields.mutateAsync({ jobId, fields });
+        return { queued: false, job: updatedJob };
+      } catch (error) {
+        if (!isConnectivityError(error)) throw error;
+      }
+    }
+    await enqueue(jobId, { kind: 'journey-fields', fields });
+    return { queued: true };
+  };
+
+  return {
+    job,
+    isOnline,
+    isSyncing,
+    pendingCount: pendingEntries.length,
+    conflict,
+    submitEvidence,
+    submitStatus,
+    submitJourneyFields,
+    syncNow,
+    discardQueued: () => (jobId ? discardJob(jobId) : Promise.resolve()),
+    isSubmittingEvidence: updateEvidence.isPending,
+    isSubmittingStatus: updateStatus.isPending,
+    isSubmittingJourneyFields: updateJourneyFields.isPending,
+  };
+}
@@ -0,0 +1,68 @@
+// Custom hooks for tenant-defined roles and user permissions
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { rolesService } from '@/services/roles.service';
+import type { RoleInput, UserPermissionsUpdate } from '@/types/permissions';
+
+export function useRoles(enabled = true) {
+  return useQuery({
+    queryKey: ['roles'],
+    queryFn: ({ signal }) => rolesService.getRoles({ signal }),
+    enabled,
+  });
+}
+
+export function useRole(id: string | null | undefined) {
+  return useQuery({
+    queryKey: ['roles', id],
+    queryFn: ({ signal }) => rolesService.getRole(id!, { signal }),
+    enabled: !!id,
+    retry: false,
+  });
+}
+
+export function useCreateRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: RoleInput) => rolesService.createRole(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['roles'] });
+    },
+  });
+}
+
+export function useUpdateRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<RoleInput> }) => rolesService.updateRole(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['roles'] });
+    },
+  });
+}
+
+export function useDeleteRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => rolesService.deleteRole(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['roles'] });
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+  });
+}
+
+export function useUpdateUserPermissions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, data }: { userId: string; data: UserPermissionsUpdate }) =>
+      rolesService.updateUserPermissions(userId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      queryClient.invalidateQueries({ queryKey: ['auth'] });
+    },
+  });
+}
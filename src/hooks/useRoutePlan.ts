@@ -0,0 +1,41 @@
+// Custom hooks for multi-stop driver route planning
+import { useQuery, useQueries, useMutation, useQueryClient } from '@tanstack/react-query';
+import { jobsService } from '@/services/jobs.service';
+import { planRoute, type LatLng, type RouteStop } from '@/lib/route-optimisation';
+import { DEFAULT_WAREHOUSE_COORDINATES } from '@/lib/calculations';
+import type { JobRoutePlan } from '@/types/jobs';
+
+const routePlanQuery = (stops: RouteStop[], depot: LatLng) => ({
+  queryKey: ['routePlan', depot.lat, depot.lng, stops.map((stop) => `${stop.id}@${stop.lat},${stop.lng}`)],
+  queryFn: ({ signal }: { signal: AbortSignal }) => planRoute(depot, stops, { signal }),
+  enabled: stops.length > 0,
+  staleTime: 5 * 60 * 1000, // Distances don't change; only re-plan when the stops do
+  retry: false,
+});
+
+export function useRoutePlan(stops: RouteStop[], depot: LatLng = DEFAULT_WAREHOUSE_COORDINATES) {
+  return useQuery(routePlanQuery(stops, depot));
+}
+
+/**
+ * Plan several routes at once, e.g. one per day of a driver's schedule
+ */
+export function useRoutePlans(routes: Array<{ stops: RouteStop[]; depot?: LatLng }>) {
+  return useQueries({
+    queries: routes.map((route) => routePlanQuery(route.stops, route.depot ?? DEFAULT_WAREHOUSE_COORDINATES)),
+  });
+}
+
+export function useSaveRoutePlan() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (plan: JobRoutePlan) => jobsService.saveRoutePlan(plan),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['job'] });
+      queryClient.invalidateQueries({ queryKey: ['jobCO2e'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
+    },
+  });
+}
@@ -2,11 +2,12 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { sanitisationService } from '@/services/sanitisation.service';
 import type { SanitisationRecord } from '@/mocks/mock-entities';
+import type { CreateSanitisationImportData, ResolveSanitisationImportItemData } from '@/types/sanitisation-imports';
 
 export function useSanitisationRecords(bookingId?: string) {
   return useQuery({
     queryKey: ['sanitisation', bookingId],
-    queryFn: () => sanitisationService.getSanitisationRecords(bookingId),
+    queryFn: ({ signal }) => sanitisationService.getSanitisationRecords(bookingId, { signal }),
   });
 }
 
@@ -47,3 +48,36 @@ export function useVerifySanitisation() {
   });
 }
 
+
+export function useSanitisationImports(bookingId?: string) {
+  return useQuery({
+    queryKey: ['sanitisation', 'imports', bookingId],
+    queryFn: ({ signal }) => sanitisationService.getImports(bookingId, { signal }),
+  });
+}
+
+export function useImportBlanccoReport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateSanitisationImportData) => sanitisationService.importBlanccoReport(data),
+    onSuccess: () => {
+      // Also refreshes the sanitisation records the import created
+      queryClient.invalidateQueries({ queryKey: ['sanitisation'] });
+      queryClient.invalidateQueries({ queryKey: ['bookings'] });
+    },
+  });
+}
+
+export function useResolveSanitisationImportItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ importId, itemId, data }: { importId: string; itemId: string; data: ResolveSanitisationImportItemData }) =>
+      sanitisationService.resolveImportItem(importId, itemId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sanitisation'] });
+      queryClient.invalidateQueries({ queryKey: ['bookings'] });
+    },
+  });
+}
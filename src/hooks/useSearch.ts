@@ -1,16 +1,42 @@
 // Search Hook
 import { useQuery } from '@tanstack/react-query';
-import { searchService } from '@/services/search.service';
+import { SEARCH_RESULT_TYPES, searchService, type SearchResultType } from '@/services/search.service';
 import { useAuth } from '@/contexts/AuthContext';
+import type { Permission } from '@/types/permissions';
 
-export function useSearch(query: string) {
+// Permission needed to search (and open) each type
+const SEARCH_TYPE_PERMISSIONS: Record<SearchResultType, Permission> = {
+  job: 'jobs.view',
+  booking: 'bookings.view',
+  client: 'clients.view',
+  site: 'sites.view',
+  inventory: 'inventory.view',
+  document: 'documents.view',
+  driver: 'fleet.manage',
+  vehicle: 'fleet.manage',
+};
+
+/**
+ * Types the signed-in user can search
+ */
+export function useSearchableTypes(): SearchResultType[] {
+  const { hasPermission } = useAuth();
+  return SEARCH_RESULT_TYPES.filter((type) => hasPermission(SEARCH_TYPE_PERMISSIONS[type]));
+}
+
+/**
+ * @param types - Limit to these types (default: every type the user can search)
+ */
+export function useSearch(query: string, types?: SearchResultType[]) {
   const { user } = useAuth();
-  
+  const searchableTypes = useSearchableTypes();
+  const searchTypes = types ? searchableTypes.filter((type) => types.includes(type)) : searchableTypes;
+  const term = query.trim();
+
   return useQuery({
-    queryKey: ['search', query],
-    queryFn: () => searchService.search(query, user),
-    enabled: query.length >= 2,
+    queryKey: ['search', term, searchTypes],
+    queryFn: ({ signal }) => searchService.search(term, user, { signal, types: searchTypes }),
+    enabled: term.length >= 2 && searchTypes.length > 0,
     staleTime: 30000,
   });
 }
-
@@ -0,0 +1,39 @@
+// Search Deep Link Hook
+// List pages opened from global search get ?search=<term>&highlight=<id>: the
+// page's own search box is prefilled with the term and the matching row is
+// scrolled into view and highlighted.
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+interface SearchDeepLinkOptions {
+  onSearch: (term: string) => void; // Prefill the page's search box
+  isReady: boolean; // The list has loaded, so the highlighted row can be scrolled to
+}
+
+export function useSearchDeepLink({ onSearch, isReady }: SearchDeepLinkOptions) {
+  const [searchParams] = useSearchParams();
+  const search = searchParams.get('search');
+  const highlightId = searchParams.get('highlight');
+  const onSearchRef = useRef(onSearch);
+  onSearchRef.current = onSearch;
+
+  useEffect(() => {
+    if (search !== null) onSearchRef.current(search);
+  }, [search]);
+
+  useEffect(() => {
+    if (!isReady || !highlightId) return;
+    // Wait a frame for the filtered list to render
+    const frame = requestAnimationFrame(() => {
+      document
+        .querySelector(`[data-search-id="${CSS.escape(highlightId)}"]`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isReady, highlightId]);
+
+  return {
+    highlightId,
+    isHighlighted: (id: string) => id === highlightId,
+  };
+}
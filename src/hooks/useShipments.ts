@@ -0,0 +1,56 @@
+// Custom hooks for carrier shipments
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { shipmentsService } from '@/services/shipments.service';
+import type { CreateShipmentData } from '@/types/carriers';
+import type { IssueReturnsKitData } from '@/types/returns-kit';
+
+// Parcels still moving are re-checked this often while their booking is open
+const TRACKING_REFRESH_MS = 60_000;
+
+export function useBookingShipments(bookingId?: string) {
+  return useQuery({
+    queryKey: ['bookings', bookingId, 'shipments'],
+    queryFn: ({ signal }) => shipmentsService.getBookingShipments(bookingId!, { signal }),
+    enabled: !!bookingId,
+    refetchInterval: (query) =>
+      query.state.data?.some((shipment) => shipment.status !== 'delivered') ? TRACKING_REFRESH_MS : false,
+  });
+}
+
+/**
+ * Tracking can move the booking on, so both invalidate every booking query
+ */
+export function useCreateShipment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ bookingId, data }: { bookingId: string; data: CreateShipmentData }) =>
+      shipmentsService.createShipment(bookingId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bookings'] });
+    },
+  });
+}
+
+export function useIssueReturnsKit() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ bookingId, data }: { bookingId: string; data: IssueReturnsKitData }) =>
+      shipmentsService.issueReturnsKit(bookingId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bookings'] });
+    },
+  });
+}
+
+export function useRefreshTracking() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (shipmentId: string) => shipmentsService.refreshTracking(shipmentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bookings'] });
+    },
+  });
+}
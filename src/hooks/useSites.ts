@@ -5,7 +5,7 @@ import { siteService, type Site, type CreateSiteRequest, type UpdateSiteRequest
 export function useSites(clientId?: string) {
   return useQuery({
     queryKey: ['sites', clientId],
-    queryFn: () => siteService.getSites(clientId),
+    queryFn: ({ signal }) => siteService.getSites(clientId, { signal }),
     retry: false,
     refetchOnWindowFocus: false,
   });
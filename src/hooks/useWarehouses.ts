@@ -0,0 +1,60 @@
+// Custom hooks for warehouse management
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  warehouseService,
+  type CreateWarehouseData,
+  type UpdateWarehouseData,
+} from '@/services/warehouse.service';
+
+export function useWarehouses() {
+  return useQuery({
+    queryKey: ['warehouses'],
+    queryFn: ({ signal }) => warehouseService.getWarehouses({ signal }),
+    staleTime: 5 * 60 * 1000, // Warehouses rarely change
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useWarehouse(id: string | null | undefined) {
+  return useQuery({
+    queryKey: ['warehouses', id],
+    queryFn: () => id ? warehouseService.getWarehouseById(id) : null,
+    enabled: !!id,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useCreateWarehouse() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateWarehouseData) => warehouseService.createWarehouse(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['warehouses'] });
+    },
+  });
+}
+
+export function useUpdateWarehouse() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateWarehouseData }) =>
+      warehouseService.updateWarehouse(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['warehouses'] });
+    },
+  });
+}
+
+export function useDeleteWarehouse() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => warehouseService.deleteWarehouse(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['warehouses'] });
+    },
+  });
+}
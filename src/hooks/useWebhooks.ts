@@ -0,0 +1,91 @@
+// Custom hooks for outbound webhook subscriptions
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { webhooksService } from '@/services/webhooks.service';
+import type { CreateWebhookSubscriptionData, UpdateWebhookSubscriptionData } from '@/types/webhooks';
+
+export function useWebhookSubscriptions(enabled = true) {
+  return useQuery({
+    queryKey: ['webhooks'],
+    queryFn: ({ signal }) => webhooksService.getSubscriptions({ signal }),
+    enabled,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useWebhookDeliveries(subscriptionId: string | null) {
+  return useQuery({
+    queryKey: ['webhooks', subscriptionId, 'deliveries'],
+    queryFn: ({ signal }) => webhooksService.getDeliveries(subscriptionId!, { signal }),
+    enabled: !!subscriptionId,
+    // Deliveries and automatic retries happen in the background
+    refetchInterval: 5000,
+  });
+}
+
+export function useCreateWebhookSubscription() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateWebhookSubscriptionData) => webhooksService.createSubscription(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+    },
+  });
+}
+
+export function useUpdateWebhookSubscription() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateWebhookSubscriptionData }) =>
+      webhooksService.updateSubscription(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+    },
+  });
+}
+
+export function useDeleteWebhookSubscription() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => webhooksService.deleteSubscription(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+    },
+  });
+}
+
+export function useRotateWebhookSecret() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => webhooksService.rotateSecret(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+    },
+  });
+}
+
+export function useSendWebhookTest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => webhooksService.sendTestEvent(id),
+    onSuccess: () => {
+      // Refreshes the subscription's last delivery status and its log
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+    },
+  });
+}
+
+export function useRedeliverWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (deliveryId: string) => webhooksService.redeliver(deliveryId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+    },
+  });
+}
@@ -0,0 +1,84 @@
+// AbortSignal helpers shared by the API client and third-party fetches (routing, geocoding)
+
+export interface TimeoutSignal {
+  signal: AbortSignal;
+  /** True if the signal aborted because the timeout elapsed (not the parent signal) */
+  didTimeout: () => boolean;
+  /** Clear the timer and detach from the parent signal */
+  cleanup: () => void;
+}
+
+/**
+ * Create an AbortSignal that aborts after timeoutMs, or earlier if the
+ * optional parent signal (e.g. from react-query) aborts first.
+ */
+export function createTimeoutSignal(timeoutMs: number, parent?: AbortSignal): TimeoutSignal {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onParentAbort = () => controller.abort(parent?.reason);
+
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else if (parent) {
+    parent.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  return {
+    signal: controller.signal,
+    didTimeout: () => timedOut,
+    cleanup: () => {
+      clearTimeout(timeoutId);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
+
+/**
+ * Check whether an error was caused by an aborted fetch
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException
+    ? error.name === 'AbortError'
+    : error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Wait for ms milliseconds, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Wait for a promise, rejecting early if the signal aborts. The promise itself carries on,
+ * so others can still wait for it.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('Aborted', 'AbortError'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    if (signal.aborted) onAbort();
+  });
+}
@@ -0,0 +1,210 @@
+// Address normaliser behaviour, with geocoder responses as fixtures
+import { describe, expect, it } from 'vitest';
+import {
+  extractHouseName,
+  extractPostcode,
+  looksLikeRoad,
+  normaliseAddress,
+  normaliseQuery,
+  pickCity,
+  resolveCountryCode,
+  type AddressComponents,
+} from './address-normaliser';
+
+interface Fixture {
+  components: AddressComponents;
+  displayName: string;
+}
+
+const gbHouseName: Fixture = {
+  displayName: 'Oak Cottage, 12 Mill Lane, Little Shelford, Cambridge, Cambridgeshire, England, CB22 5EJ, United Kingdom',
+  components: {
+    houseNumber: '12',
+    road: 'Mill Lane',
+    village: 'Little Shelford',
+    county: 'Cambridgeshire',
+    state: 'England',
+    postcode: 'cb225ej',
+    country: 'United Kingdom',
+    countryCode: 'gb',
+  },
+};
+
+const gbNumberedStreet: Fixture = {
+  displayName: '100, Deansgate, City Centre, Manchester, Greater Manchester, England, M3 2GP, United Kingdom',
+  components: {
+    houseNumber: '100',
+    road: 'Deansgate',
+    suburb: 'City Centre',
+    city: 'Manchester',
+    county: 'Greater Manchester',
+    postcode: 'M3 2GP',
+    country: 'United Kingdom',
+    countryCode: 'GB',
+  },
+};
+
+const germanCompound: Fixture = {
+  displayName: 'Lindenstraße 12, Kreuzberg, Berlin, 10969, Deutschland',
+  components: {
+    houseNumber: '12',
+    road: 'Lindenstraße',
+    suburb: 'Kreuzberg',
+    city: 'Berlin',
+    state: 'Berlin',
+    postcode: '10969',
+    country: 'Deutschland',
+    countryCode: 'DE',
+  },
+};
+
+const dutchCompound: Fixture = {
+  displayName: 'Keizersgracht 123, Grachtengordel-West, Amsterdam, Noord-Holland, Nederland, 1015CJ',
+  components: {
+    houseNumber: '123',
+    road: 'Keizersgracht',
+    neighbourhood: 'Grachtengordel-West',
+    city: 'Amsterdam',
+    province: 'Noord-Holland',
+    postcode: '1015cj',
+    country: 'Nederland',
+    countryCode: 'NL',
+  },
+};
+
+describe('normaliseAddress', () => {
+  describe('GB house names', () => {
+    it('takes the house name from the display name and puts it before the numbered road', () => {
+      expect(normaliseAddress(gbHouseName.components, gbHouseName.displayName)).toEqual({
+        street: 'Oak Cottage, 12 Mill Lane',
+        city: 'Little Shelford',
+        county: 'Cambridgeshire',
+        postcode: 'CB22 5EJ',
+        country: 'United Kingdom',
+        countryCode: 'GB',
+      });
+    });
+
+    it('prefers a structured house name from the provider', () => {
+      const components = { ...gbNumberedStreet.components, houseName: 'Sunlight House' };
+      expect(normaliseAddress(components, gbNumberedStreet.displayName).street).toBe('Sunlight House, 100 Deansgate');
+    });
+
+    it('ignores a structured house name that just repeats the road or postcode', () => {
+      expect(normaliseAddress({ ...gbNumberedStreet.components, houseName: 'Deansgate' }).street).toBe('100 Deansgate');
+      expect(normaliseAddress({ ...gbNumberedStreet.components, houseName: 'M3 2GP' }).street).toBe('100 Deansgate');
+    });
+
+    it('does not treat a house number, road or postcode as a house name', () => {
+      expect(normaliseAddress(gbNumberedStreet.components, gbNumberedStreet.displayName).street).toBe('100 Deansgate');
+      expect(extractHouseName('Mill Lane, Little Shelford, CB22 5EJ', 'Mill Lane', 'GB')).toBeUndefined();
+      expect(extractHouseName('Station Road, Cambridge', undefined, 'GB')).toBeUndefined();
+      expect(extractHouseName('CB22 5EJ, Cambridge', undefined, 'GB')).toBeUndefined();
+      expect(extractHouseName('12A, Mill Lane', 'Mill Lane', 'GB')).toBeUndefined();
+    });
+  });
+
+  describe('compound street names', () => {
+    it('writes the house number after a German compound street name', () => {
+      expect(normaliseAddress(germanCompound.components, germanCompound.displayName)).toMatchObject({
+        street: 'Lindenstraße 12',
+        city: 'Berlin',
+        county: 'Berlin',
+        postcode: '10969',
+        countryCode: 'DE',
+      });
+    });
+
+    it('writes the house number after a Dutch compound street name and formats the postcode', () => {
+      expect(normaliseAddress(dutchCompound.components, dutchCompound.displayName)).toMatchObject({
+        street: 'Keizersgracht 123',
+        city: 'Amsterdam',
+        county: 'Noord-Holland',
+        postcode: '1015 CJ',
+        countryCode: 'NL',
+      });
+    });
+
+    it('recognises compound roads by the country’s own suffixes', () => {
+      expect(looksLikeRoad('Lindenstraße', 'DE')).toBe(true);
+      expect(looksLikeRoad('Goethestr.', 'AT')).toBe(true);
+      expect(looksLikeRoad('Keizersgracht', 'NL')).toBe(true);
+      expect(looksLikeRoad('Vondellaan', 'NL')).toBe(true);
+      expect(looksLikeRoad('Kungsgatan', 'SE')).toBe(true);
+      expect(looksLikeRoad('Lindenstraße', 'GB')).toBe(false);
+    });
+
+    it('does not take a compound street at the start of the display name as a house name', () => {
+      expect(extractHouseName('Hauptstraße 5, München', undefined, 'DE')).toBeUndefined();
+      expect(extractHouseName('Prinsengracht 263, Amsterdam', undefined, 'NL')).toBeUndefined();
+      expect(extractHouseName('Haus Sonnenblick, Bergweg 3, Garmisch', 'Bergweg', 'DE')).toBe('Haus Sonnenblick');
+    });
+  });
+
+  describe('postcode extraction', () => {
+    it('finds the postcode in the display name when the provider gives none', () => {
+      const { postcode, ...components } = gbHouseName.components;
+      expect(postcode).toBeDefined();
+      expect(normaliseAddress(components, gbHouseName.displayName).postcode).toBe('CB22 5EJ');
+    });
+
+    it('uses the country’s postcode format first', () => {
+      expect(extractPostcode('10 Downing Street, London, sw1a2aa', 'GB')).toBe('SW1A 2AA');
+      expect(extractPostcode('Damrak 1, 1012lg Amsterdam', 'NL')).toBe('1012 LG');
+      expect(extractPostcode('Lindenstraße 12, 10969 Berlin', 'DE')).toBe('10969');
+    });
+
+    it('returns null when there is no postcode', () => {
+      expect(extractPostcode('Mill Lane, Little Shelford', 'GB')).toBeNull();
+      expect(extractPostcode('', 'GB')).toBeNull();
+    });
+  });
+
+  describe('unknown countries', () => {
+    it('resolves the country code from the country name', () => {
+      expect(resolveCountryCode({ country: 'Germany' })).toBe('DE');
+      expect(resolveCountryCode({ country: 'Atlantis' })).toBeUndefined();
+      expect(normaliseAddress({ ...germanCompound.components, countryCode: undefined, country: 'Germany' }).street).toBe(
+        'Lindenstraße 12'
+      );
+    });
+
+    it('falls back to number-first streets and generic postcode formats without a country', () => {
+      const address = normaliseAddress(
+        { houseNumber: '7', road: 'Harbour Road', town: 'Portsmouth' },
+        '7 Harbour Road, Portsmouth, PO1 3LJ'
+      );
+      expect(address).toEqual({
+        street: '7 Harbour Road',
+        city: 'Portsmouth',
+        county: undefined,
+        postcode: 'PO1 3LJ',
+        country: undefined,
+        countryCode: undefined,
+      });
+      expect(extractPostcode('Rue de Rivoli, 75001 Paris')).toBe('75001');
+    });
+
+    it('checks every known road type for a country without its own list', () => {
+      expect(looksLikeRoad('Lindenstraße', 'PL')).toBe(true);
+      expect(looksLikeRoad('Lindenstraße')).toBe(true);
+      expect(extractHouseName('Villa Rosa, Via Roma 1', 'Via Roma', 'XX')).toBe('Villa Rosa');
+    });
+  });
+
+  it('skips city fallbacks that just repeat the road', () => {
+    expect(pickCity({ road: 'Canary Wharf', locality: 'Canary Wharf', suburb: 'Poplar' })).toBe('Poplar');
+    expect(pickCity({ road: 'Deansgate', town: 'Manchester', suburb: 'City Centre' })).toBe('Manchester');
+  });
+});
+
+describe('normaliseQuery', () => {
+  it('ignores case, punctuation and extra whitespace', () => {
+    expect(normaliseQuery('  10 Downing St.,  London ')).toBe('10 downing st london');
+    expect(normaliseQuery('SW1A  1AA')).toBe(normaliseQuery('sw1a 1aa'));
+  });
+
+  it('returns an empty string for punctuation only', () => {
+    expect(normaliseQuery(' ,. ; ')).toBe('');
+  });
+});
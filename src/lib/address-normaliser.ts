@@ -0,0 +1,241 @@
+// Address normalisation for geocoder results
+// Turns provider address components (Nominatim, Photon, Pelias) into the
+// street / city / county / postcode / country fields our forms use. Heuristics
+// such as house-name detection and postcode extraction are country-aware and
+// use the postcode formats from european-validation.ts.
+import { EUROPEAN_POSTCODE_PATTERNS, getCountryCode } from './european-validation';
+
+/**
+ * Provider-neutral address parts. Field names follow Nominatim's addressdetails;
+ * other providers map their responses onto them.
+ */
+export interface AddressComponents {
+  houseName?: string;
+  houseNumber?: string;
+  road?: string;
+  suburb?: string;
+  neighbourhood?: string;
+  locality?: string;
+  postTown?: string;
+  city?: string;
+  town?: string;
+  village?: string;
+  municipality?: string;
+  county?: string;
+  state?: string;
+  region?: string;
+  province?: string;
+  postcode?: string;
+  country?: string;
+  countryCode?: string; // ISO 3166-1 alpha-2, upper case
+}
+
+export interface NormalisedAddress {
+  street?: string;
+  city?: string;
+  county?: string;
+  postcode?: string;
+  country?: string;
+  countryCode?: string;
+}
+
+// Words that mark a display name part as a road rather than a house name
+const ENGLISH_ROAD_TYPES = ['street', 'road', 'avenue', 'lane', 'drive', 'close', 'way', 'place', 'crescent', 'grove', 'terrace', 'gardens'];
+const GERMAN_ROAD_TYPES = ['straße', 'strasse', 'str.', 'weg', 'platz', 'allee', 'gasse', 'ring', 'damm'];
+const FRENCH_ROAD_TYPES = ['rue', 'avenue', 'boulevard', 'place', 'chemin', 'allée', 'impasse', 'quai', 'route'];
+const DUTCH_ROAD_TYPES = ['straat', 'weg', 'laan', 'plein', 'gracht', 'kade', 'singel', 'dijk'];
+const SPANISH_ROAD_TYPES = ['calle', 'avenida', 'plaza', 'paseo', 'camino', 'carrer', 'rúa'];
+const ITALIAN_ROAD_TYPES = ['via', 'viale', 'piazza', 'corso', 'largo', 'vicolo'];
+const NORDIC_ROAD_TYPES = ['gatan', 'vägen', 'gade', 'vej', 'gate', 'veien', 'katu', 'tie'];
+
+const ROAD_TYPES_BY_COUNTRY: Record<string, string[]> = {
+  GB: ENGLISH_ROAD_TYPES,
+  IE: ENGLISH_ROAD_TYPES,
+  MT: ENGLISH_ROAD_TYPES,
+  DE: GERMAN_ROAD_TYPES,
+  AT: GERMAN_ROAD_TYPES,
+  CH: [...GERMAN_ROAD_TYPES, ...FRENCH_ROAD_TYPES, ...ITALIAN_ROAD_TYPES],
+  LI: GERMAN_ROAD_TYPES,
+  FR: FRENCH_ROAD_TYPES,
+  MC: FRENCH_ROAD_TYPES,
+  BE: [...FRENCH_ROAD_TYPES, ...DUTCH_ROAD_TYPES],
+  LU: [...FRENCH_ROAD_TYPES, ...GERMAN_ROAD_TYPES],
+  NL: DUTCH_ROAD_TYPES,
+  ES: SPANISH_ROAD_TYPES,
+  AD: SPANISH_ROAD_TYPES,
+  IT: ITALIAN_ROAD_TYPES,
+  SM: ITALIAN_ROAD_TYPES,
+  VA: ITALIAN_ROAD_TYPES,
+  SE: NORDIC_ROAD_TYPES,
+  DK: NORDIC_ROAD_TYPES,
+  NO: NORDIC_ROAD_TYPES,
+  FI: NORDIC_ROAD_TYPES,
+};
+
+const ALL_ROAD_TYPES = Array.from(new Set(Object.values(ROAD_TYPES_BY_COUNTRY).flat()));
+
+// Road types that German, Dutch and Nordic addresses join onto the name ("Hauptstraße", "Kungsgatan")
+const COMPOUND_ROAD_SUFFIXES = ['straße', 'strasse', 'str.', 'weg', 'straat', 'laan', 'gracht', 'gatan', 'vägen', 'gade', 'vej', 'veien', 'katu'];
+
+// Tried in order when the country is unknown - most specific formats first
+const GENERIC_POSTCODE_PATTERNS = [
+  /\b[A-Z]{1,2}\d{1,2}[A-Z]?\s?\d[A-Z]{2}\b/i, // GB: SW1A 1AA
+  /\b\d{5}\b/, // 5 digits (DE, FR, IT, ES, FI, GR, HR, EE, UA, TR, etc.)
+  /\b\d{4}\s?[A-Z]{2}\b/i, // NL: 1234 AB
+  /\b\d{4}\b/, // 4 digits (BE, AT, CH, DK, etc.)
+  /\b\d{3}\s?\d{2}\b/, // SE, CZ, SK: 123 45
+  /\b[A-Z]\d{1,2}\s?[A-Z0-9]{4}\b/i, // IE: D02 AF30
+];
+
+/**
+ * Resolve an ISO country code from components, falling back to the country name
+ */
+export function resolveCountryCode(components: Pick<AddressComponents, 'country' | 'countryCode'>): string | undefined {
+  if (components.countryCode) return components.countryCode.toUpperCase();
+  return (components.country && getCountryCode(components.country)) || undefined;
+}
+
+/**
+ * A country's postcode format as a pattern that matches inside longer text
+ */
+function unanchoredPostcodePattern(countryCode: string): RegExp | null {
+  const pattern = EUROPEAN_POSTCODE_PATTERNS[countryCode];
+  if (!pattern) return null;
+  return new RegExp(`\\b${pattern.source.replace(/^\^/, '').replace(/\$$/, '')}\\b`, pattern.flags);
+}
+
+/**
+ * Tidy a postcode's spacing and case, e.g. "sw1a1aa" → "SW1A 1AA" (GB), "1234ab" → "1234 AB" (NL)
+ */
+export function formatPostcode(postcode: string, countryCode?: string): string {
+  const compact = postcode.replace(/\s+/g, '').toUpperCase();
+  if (countryCode === 'GB' && compact.length >= 5) {
+    return `${compact.slice(0, -3)} ${compact.slice(-3)}`;
+  }
+  if (countryCode === 'NL' && /^\d{4}[A-Z]{2}$/.test(compact)) {
+    return `${compact.slice(0, 4)} ${compact.slice(4)}`;
+  }
+  return postcode.replace(/\s+/g, ' ').trim().toUpperCase();
+}
+
+/**
+ * Find a postcode in free text. The country's own format is tried first, then
+ * common European formats.
+ */
+export function extractPostcode(text: string, countryCode?: string): string | null {
+  if (!text) return null;
+
+  const countryPattern = countryCode ? unanchoredPostcodePattern(countryCode) : null;
+  for (const pattern of countryPattern ? [countryPattern, ...GENERIC_POSTCODE_PATTERNS] : GENERIC_POSTCODE_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      return formatPostcode(match[0], countryCode);
+    }
+  }
+  return null;
+}
+
+/**
+ * Check if a display name part reads like a road for the given country
+ */
+export function looksLikeRoad(text: string, countryCode?: string): boolean {
+  const lower = text.toLowerCase();
+  const roadTypes = (countryCode && ROAD_TYPES_BY_COUNTRY[countryCode]) || ALL_ROAD_TYPES;
+  return lower.split(/[\s-]+/).some((word) =>
+    roadTypes.includes(word) ||
+    COMPOUND_ROAD_SUFFIXES.some((suffix) => roadTypes.includes(suffix) && word.endsWith(suffix))
+  );
+}
+
+/**
+ * Geocoders often give the road or postcode itself as a place's name
+ */
+function repeatsRoadOrPostcode(text: string, road?: string, countryCode?: string): boolean {
+  return (!!road && text.toLowerCase().includes(road.toLowerCase())) || extractPostcode(text, countryCode) !== null;
+}
+
+/**
+ * Guess a house name from the first part of a geocoder display name,
+ * e.g. "Oak Cottage, 123 High Street, London, UK" → "Oak Cottage"
+ */
+export function extractHouseName(displayName: string, road?: string, countryCode?: string): string | undefined {
+  const firstPart = displayName.split(',')[0]?.trim() || '';
+  const isNumber = /^\d+[A-Za-z]?$/.test(firstPart); // "123" or "123A"
+
+  if (isNumber || repeatsRoadOrPostcode(firstPart, road, countryCode) || looksLikeRoad(firstPart, countryCode)) return undefined;
+  if (firstPart.length <= 2 || firstPart.length >= 50) return undefined;
+  return firstPart;
+}
+
+/**
+ * Street line from house name, number and road.
+ * Continental Europe writes the number after the road ("Hauptstraße 5").
+ */
+export function buildStreet(components: AddressComponents, houseName?: string, countryCode?: string): string | undefined {
+  const { houseNumber, road } = components;
+  const numberFirst = !countryCode || ['GB', 'IE', 'FR', 'LU', 'MT', 'MC'].includes(countryCode);
+  const roadWithNumber = houseNumber && road
+    ? (numberFirst ? `${houseNumber} ${road}` : `${road} ${houseNumber}`)
+    : road || houseNumber;
+
+  if (houseName && roadWithNumber) return `${houseName}, ${roadWithNumber}`;
+  return roadWithNumber || houseName || components.suburb || components.neighbourhood || undefined;
+}
+
+/**
+ * Whether two place names overlap - a locality is often just the road name again
+ */
+function overlaps(a: string, b: string): boolean {
+  const lowerA = a.toLowerCase();
+  const lowerB = b.toLowerCase();
+  return lowerA === lowerB || lowerA.includes(lowerB) || lowerB.includes(lowerA);
+}
+
+/**
+ * Best city-level name, avoiding fallbacks that just repeat the road
+ */
+export function pickCity(components: AddressComponents): string | undefined {
+  const city = components.city || components.town || components.village || components.municipality || components.postTown;
+  if (city) return city;
+
+  const road = components.road || '';
+  return [components.locality, components.suburb, components.neighbourhood].find(
+    (candidate) => candidate && (!road || !overlaps(candidate, road))
+  );
+}
+
+/**
+ * Normalise geocoder address components into form fields
+ */
+export function normaliseAddress(components: AddressComponents, displayName = ''): NormalisedAddress {
+  const countryCode = resolveCountryCode(components);
+  const structuredHouseName = components.houseName && !repeatsRoadOrPostcode(components.houseName, components.road, countryCode)
+    ? components.houseName
+    : undefined;
+  const houseName = structuredHouseName || (displayName ? extractHouseName(displayName, components.road, countryCode) : undefined);
+
+  const postcode = components.postcode
+    ? formatPostcode(components.postcode, countryCode)
+    : extractPostcode(displayName, countryCode) || undefined;
+
+  return {
+    street: buildStreet(components, houseName, countryCode),
+    city: pickCity(components),
+    county: components.county || components.state || components.region || components.province || undefined,
+    postcode,
+    country: components.country || undefined,
+    countryCode,
+  };
+}
+
+/**
+ * Normalise a free-text query for use as a cache key: case, whitespace and
+ * punctuation differences should not cause a second lookup
+ */
+export function normaliseQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/[.,;]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,171 @@
+// Barcode scanning - Code 128, QR and DataMatrix from camera frames, plus IMEI checks
+// Uses the browser's BarcodeDetector where it supports the formats (Chrome on Android,
+// Safari 17+) and falls back to the zxing decoder everywhere else, reading one frame
+// at a time from a canvas.
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  MultiFormatReader,
+  RGBLuminanceSource,
+} from '@zxing/library';
+
+// BarcodeDetector format names
+export type ScanFormat = 'code_128' | 'qr_code' | 'data_matrix';
+
+export const SCAN_FORMATS: ScanFormat[] = ['code_128', 'qr_code', 'data_matrix'];
+
+export const scanFormatLabels: Record<ScanFormat, string> = {
+  code_128: 'Code 128',
+  qr_code: 'QR code',
+  data_matrix: 'DataMatrix',
+};
+
+export interface ScanResult {
+  value: string;
+  format: ScanFormat;
+}
+
+export interface BarcodeDecoder {
+  engine: 'native' | 'zxing';
+  decode(video: HTMLVideoElement): Promise<ScanResult | null>;
+}
+
+// Not in the TypeScript DOM lib yet
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): { detect(source: CanvasImageSource): Promise<DetectedBarcode[]> };
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const ZXING_FORMATS: Record<ScanFormat, BarcodeFormat> = {
+  code_128: BarcodeFormat.CODE_128,
+  qr_code: BarcodeFormat.QR_CODE,
+  data_matrix: BarcodeFormat.DATA_MATRIX,
+};
+
+// Frames are scaled down to this width before zxing decodes them - plenty for a label
+// filling part of the frame, and keeps each pass quick on phones
+const FALLBACK_FRAME_WIDTH = 800;
+
+function isScanFormat(format: string): format is ScanFormat {
+  return (SCAN_FORMATS as string[]).includes(format);
+}
+
+async function createNativeDecoder(): Promise<BarcodeDecoder | null> {
+  const Detector = (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  if (!Detector) return null;
+  try {
+    const supported = await Detector.getSupportedFormats();
+    if (!SCAN_FORMATS.every((format) => supported.includes(format))) return null;
+  } catch {
+    return null;
+  }
+
+  const detector = new Detector({ formats: SCAN_FORMATS });
+  return {
+    engine: 'native',
+    async decode(video) {
+      const [barcode] = await detector.detect(video);
+      if (!barcode?.rawValue || !isScanFormat(barcode.format)) return null;
+      return { value: barcode.rawValue, format: barcode.format };
+    },
+  };
+}
+
+function createZxingDecoder(): BarcodeDecoder {
+  const reader = new MultiFormatReader();
+  reader.setHints(
+    new Map<DecodeHintType, unknown>([
+      [DecodeHintType.POSSIBLE_FORMATS, Object.values(ZXING_FORMATS)],
+      [DecodeHintType.TRY_HARDER, true],
+    ])
+  );
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+
+  return {
+    engine: 'zxing',
+    async decode(video) {
+      if (!context || !video.videoWidth) return null;
+      const scale = Math.min(1, FALLBACK_FRAME_WIDTH / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const { data, width, height } = context.getImageData(0, 0, canvas.width, canvas.height);
+      const luminances = new Uint8ClampedArray(width * height);
+      for (let i = 0; i < luminances.length; i++) {
+        luminances[i] = (data[i * 4] + 2 * data[i * 4 + 1] + data[i * 4 + 2]) / 4;
+      }
+
+      try {
+        const result = reader.decodeWithState(
+          new BinaryBitmap(new HybridBinarizer(new RGBLuminanceSource(luminances, width, height)))
+        );
+        const format = SCAN_FORMATS.find((candidate) => ZXING_FORMATS[candidate] === result.getBarcodeFormat());
+        return format ? { value: result.getText(), format } : null;
+      } catch {
+        // Nothing readable in this frame
+        return null;
+      } finally {
+        reader.reset();
+      }
+    },
+  };
+}
+
+/**
+ * Native BarcodeDetector when it reads all of SCAN_FORMATS, zxing otherwise
+ */
+export async function createBarcodeDecoder(): Promise<BarcodeDecoder> {
+  return (await createNativeDecoder()) || createZxingDecoder();
+}
+
+/**
+ * Luhn check over a string of digits
+ */
+export function isLuhnValid(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * 15 digits with a valid Luhn check digit
+ */
+export function isValidImei(value: string): boolean {
+  return /^\d{15}$/.test(value) && isLuhnValid(value);
+}
+
+/**
+ * IMEI labels and QR codes often carry a prefix ("IMEI: 3569...", "IMEI1 3569...") -
+ * returns the 15 digits when there are exactly 15, otherwise the value as scanned
+ */
+export function extractImei(value: string): string {
+  const digits = value.replace(/^\s*IMEI\d?\s*[:=]?\s*/i, '').replace(/[\s-]/g, '');
+  return /^\d{15}$/.test(digits) ? digits : value.trim();
+}
+
+/**
+ * Why a scanned or typed IMEI isn't usable, or null when it is
+ */
+export function getImeiError(value: string): string | null {
+  const imei = extractImei(value);
+  if (!/^\d{15}$/.test(imei)) return 'An IMEI is 15 digits';
+  if (!isLuhnValid(imei)) return `${imei} fails the IMEI check digit - rescan or check for a typo`;
+  return null;
+}
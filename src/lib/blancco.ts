@@ -0,0 +1,158 @@
+// Blancco erasure reports - parsing and import review labels
+// Blancco Management Console exports reports as XML (<entries>/<entry name="..."> trees)
+// or as JSON with the same names as keys. Both are read into one shape, then the fields
+// the import needs are picked out wherever they sit in the report.
+import type {
+  BlanccoErasureReport,
+  BlanccoErasureResult,
+  BlanccoReportFormat,
+  SanitisationImportItemStatus,
+} from '@/types/sanitisation-imports';
+
+type ReportNode = string | number | boolean | null | ReportNode[] | { [key: string]: ReportNode };
+
+// Bookings whose devices can still be matched to an erasure report
+export const SANITISATION_BOOKING_STATUSES = ['collected', 'warehouse', 'sanitised', 'graded'];
+
+export const BLANCCO_FILE_EXTENSIONS = ['.xml', '.json'];
+
+export const sanitisationImportItemStatusConfig: Record<
+  SanitisationImportItemStatus,
+  { label: string; className: string }
+> = {
+  matched: { label: 'Matched', className: 'bg-success/10 text-success' },
+  unmatched: { label: 'Unmatched', className: 'bg-warning/10 text-warning' },
+  failed_erasure: { label: 'Erasure failed', className: 'bg-destructive/10 text-destructive' },
+  duplicate: { label: 'Already imported', className: 'bg-muted text-muted-foreground' },
+  resolved: { label: 'Assigned', className: 'bg-success/10 text-success' },
+  dismissed: { label: 'Dismissed', className: 'bg-muted text-muted-foreground' },
+};
+
+export function needsReview(status: SanitisationImportItemStatus): boolean {
+  return status === 'unmatched' || status === 'failed_erasure';
+}
+
+export function normaliseSerialNumber(value: string): string {
+  return value.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * XML element to a plain object: <entries name="x"> and <entry name="x"> are keyed by
+ * their name attribute, other elements by tag. Repeated keys become arrays.
+ */
+function xmlToNode(element: Element): ReportNode {
+  const children = Array.from(element.children);
+  if (children.length === 0) return element.textContent?.trim() ?? '';
+
+  const node: { [key: string]: ReportNode } = {};
+  children.forEach((child) => {
+    const key = child.getAttribute('name') || child.tagName;
+    const value = xmlToNode(child);
+    const existing = node[key];
+    if (existing === undefined) {
+      node[key] = value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      node[key] = [existing, value];
+    }
+  });
+  return node;
+}
+
+/**
+ * First value found under any of `keys`, searching depth first
+ */
+function findValue(node: ReportNode, keys: string[]): string | null {
+  if (node === null || typeof node !== 'object') return null;
+  if (!Array.isArray(node)) {
+    for (const key of keys) {
+      const value = node[key];
+      if (typeof value === 'string' || typeof value === 'number') {
+        const text = String(value).trim();
+        if (text) return text;
+      }
+    }
+  }
+  for (const child of Array.isArray(node) ? node : Object.values(node)) {
+    const value = findValue(child, keys);
+    if (value) return value;
+  }
+  return null;
+}
+
+function findNode(node: ReportNode, key: string): ReportNode | null {
+  if (node === null || typeof node !== 'object') return null;
+  if (!Array.isArray(node) && node[key] && typeof node[key] === 'object') return node[key];
+  for (const child of Array.isArray(node) ? node : Object.values(node)) {
+    const found = findNode(child, key);
+    if (found) return found;
+  }
+  return null;
+}
+
+function toIsoDate(value: string | null): string | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function toErasureResult(state: string | null): BlanccoErasureResult {
+  // 'Successful' and 'Successful with exceptions' both count; anything else needs follow-up
+  return state && /^success/i.test(state) ? 'successful' : 'failed';
+}
+
+function readReport(node: ReportNode): BlanccoErasureReport {
+  // The machine's serial is in the hardware report's system section; fall back to the erased drive's
+  const system = findNode(node, 'system');
+  const erasure = findNode(node, 'blancco_erasure_report') || node;
+  const serialNumber = (system && findValue(system, ['serial', 'serial_number'])) || findValue(node, ['serial', 'serial_number']);
+  const state = findValue(erasure, ['state', 'result', 'status']);
+  const completedAt = toIsoDate(findValue(erasure, ['end_time', 'completed', 'completed_at']));
+  const softwareName = findValue(node, ['product_name', 'software_name']);
+  const softwareVersion = findValue(node, ['product_version', 'software_version']);
+
+  return {
+    reportId:
+      findValue(node, ['document_id', 'report_uuid', 'report_id', 'uuid']) ||
+      `BL-${serialNumber || 'UNKNOWN'}-${completedAt ? Date.parse(completedAt) : 0}`,
+    serialNumber: serialNumber ? normaliseSerialNumber(serialNumber) : null,
+    manufacturer: system ? findValue(system, ['manufacturer']) : null,
+    model: system ? findValue(system, ['model', 'product_name']) : null,
+    erasureStandard: findValue(erasure, ['erasure_standard_name', 'erasure_standard', 'standard']),
+    result: toErasureResult(state),
+    resultDetail: state,
+    software: softwareName ? [softwareName, softwareVersion].filter(Boolean).join(' ') : null,
+    startedAt: toIsoDate(findValue(erasure, ['start_time', 'started', 'started_at'])),
+    completedAt,
+  };
+}
+
+/**
+ * Read every device report in a Blancco XML or JSON export. Throws when the file
+ * can't be read as either.
+ */
+export function parseBlanccoReports(content: string): { format: BlanccoReportFormat; reports: BlanccoErasureReport[] } {
+  const text = content.trim();
+
+  if (text.startsWith('<')) {
+    const document = new DOMParser().parseFromString(text, 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('The file is not valid XML');
+    }
+    const reportElements = Array.from(document.getElementsByTagName('report'));
+    const roots = reportElements.length > 0 ? reportElements : [document.documentElement];
+    return { format: 'xml', reports: roots.map((element) => readReport(xmlToNode(element))) };
+  }
+
+  let data: ReportNode;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not a Blancco XML or JSON report');
+  }
+  // A single report, a list of them, or an export wrapping them in "reports"/"report"
+  const wrapped = data && typeof data === 'object' && !Array.isArray(data) ? data.reports || data.report : null;
+  const list = Array.isArray(data) ? data : Array.isArray(wrapped) ? wrapped : [data];
+  return { format: 'json', reports: list.map((report) => readReport(report)) };
+}
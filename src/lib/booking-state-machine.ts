@@ -0,0 +1,443 @@
+// Booking lifecycle state machine
+// Each booking type / JML subtype has its own transition graph. A transition says
+// how it is performed (the action a page renders), who may perform it, which guard
+// conditions must hold and which side effects follow it.
+//
+// Used by the admin pages to decide which actions to show, by DriverJobView for the
+// driver's leg of the job, and by the mock backend to enforce the same rules.
+import type { BookingLifecycleStatus } from '@/types/booking-lifecycle';
+import type { WorkflowStatus } from '@/types/jobs';
+import type { Booking, GradingRecord, SanitisationRecord } from '@/mocks/mock-entities';
+
+export type BookingStatus = BookingLifecycleStatus | 'cancelled';
+
+export type BookingFlow = 'itad' | 'new_starter' | 'leaver' | 'breakfix' | 'mover';
+
+/**
+ * How a transition is performed. Most map to a dedicated admin page;
+ * 'advance' is a plain status update and 'driver_job' happens through the driver's job workflow.
+ */
+export type BookingAction =
+  | 'approve'
+  | 'assign_driver'
+  | 'allocate_device'
+  | 'book_courier'
+  | 'advance'
+  | 'driver_job'
+  | 'record_sanitisation'
+  | 'grade_assets'
+  | 'add_to_inventory'
+  | 'complete'
+  | 'cancel';
+
+export type BookingGuardId = 'all_assets_sanitised' | 'all_assets_graded';
+
+/**
+ * Side effects that follow a transition. Each caller supplies its own handlers
+ * (the client refreshes cached data, the mock backend writes notifications).
+ */
+export type BookingTransitionEffect = 'inventory_changed' | 'certificates_issued' | 'client_notified';
+
+type Role = 'admin' | 'driver';
+
+export interface BookingTransition {
+  from: BookingStatus;
+  to: BookingStatus;
+  action: BookingAction;
+  roles: Role[];
+  guards: BookingGuardId[];
+  effects: BookingTransitionEffect[];
+}
+
+/**
+ * The booking fields the machine reads
+ */
+export type BookingMachineInput = Pick<Booking, 'status' | 'bookingType' | 'jmlSubType' | 'assets'>;
+
+/**
+ * Data guards are evaluated against. Guards whose data isn't supplied are skipped:
+ * list views don't load records, the page that performs the transition does.
+ */
+export interface GuardContext {
+  gradingRecords?: GradingRecord[];
+  sanitisationRecords?: SanitisationRecord[];
+}
+
+export interface GuardResult {
+  id: BookingGuardId;
+  label: string;
+  passed: boolean;
+}
+
+export interface TransitionCheck {
+  allowed: boolean;
+  transition: BookingTransition | null;
+  guards: GuardResult[];
+  reason?: string;
+}
+
+interface TransitionSpec {
+  to: BookingStatus;
+  action: BookingAction;
+  roles?: Role[];
+  guards?: BookingGuardId[];
+  effects?: BookingTransitionEffect[];
+}
+
+const guardDefinitions: Record<
+  BookingGuardId,
+  { label: string; evaluate: (booking: BookingMachineInput, context: GuardContext) => boolean | null }
+> = {
+  all_assets_sanitised: {
+    label: 'All assets sanitised and verified',
+    evaluate: (booking, { sanitisationRecords }) => {
+      if (!sanitisationRecords) return null;
+      return booking.assets.every((asset) => {
+        const records = sanitisationRecords.filter((record) => record.assetId === asset.categoryId);
+        return records.length > 0 && records.every((record) => record.verified);
+      });
+    },
+  },
+  all_assets_graded: {
+    label: 'All assets graded',
+    evaluate: (booking, { gradingRecords }) => {
+      if (!gradingRecords) return null;
+      return booking.assets.every((asset) => {
+        const gradedQuantity = gradingRecords
+          .filter((record) => record.assetId === asset.categoryId)
+          .reduce((sum, record) => sum + (record.quantity || 0), 0);
+        return gradedQuantity >= asset.quantity;
+      });
+    },
+  },
+};
+
+// Shared legs of the graphs
+const approval: Record<string, TransitionSpec[]> = {
+  pending: [
+    { to: 'created', action: 'approve', effects: ['client_notified'] },
+    { to: 'cancelled', action: 'cancel', effects: ['client_notified'] },
+  ],
+};
+
+const courierDelivery: Record<string, TransitionSpec[]> = {
+  device_allocated: [
+    { to: 'courier_booked', action: 'book_courier' },
+    { to: 'cancelled', action: 'cancel', effects: ['inventory_changed', 'client_notified'] },
+  ],
+  courier_booked: [
+    { to: 'dispatched', action: 'advance' },
+    { to: 'cancelled', action: 'cancel', effects: ['inventory_changed', 'client_notified'] },
+  ],
+  dispatched: [
+    { to: 'delivered', action: 'advance', effects: ['inventory_changed', 'client_notified'] },
+    { to: 'cancelled', action: 'cancel', effects: ['inventory_changed', 'client_notified'] },
+  ],
+};
+
+const returnsProcessing: Record<string, TransitionSpec[]> = {
+  collected: [{ to: 'warehouse', action: 'advance' }],
+  warehouse: [{ to: 'sanitised', action: 'record_sanitisation', guards: ['all_assets_sanitised'] }],
+  sanitised: [{ to: 'graded', action: 'grade_assets', guards: ['all_assets_graded'] }],
+  graded: [
+    { to: 'inventory', action: 'add_to_inventory', guards: ['all_assets_graded'], effects: ['inventory_changed'] },
+  ],
+};
+
+const flowDefinitions: Record<BookingFlow, Partial<Record<BookingStatus, TransitionSpec[]>>> = {
+  // ITAD: approve → assign driver → driver collects → warehouse → sanitise → grade → complete
+  itad: {
+    ...approval,
+    created: [
+      { to: 'scheduled', action: 'assign_driver' },
+      { to: 'cancelled', action: 'cancel', effects: ['client_notified'] },
+    ],
+    scheduled: [
+      { to: 'collected', action: 'driver_job', roles: ['driver', 'admin'] },
+      { to: 'cancelled', action: 'cancel', effects: ['client_notified'] },
+    ],
+    collected: [{ to: 'warehouse', action: 'advance', roles: ['admin', 'driver'] }],
+    warehouse: returnsProcessing.warehouse,
+    sanitised: returnsProcessing.sanitised,
+    graded: [
+      {
+        to: 'completed',
+        action: 'complete',
+        guards: ['all_assets_sanitised', 'all_assets_graded'],
+        effects: ['certificates_issued', 'client_notified'],
+      },
+    ],
+  },
+
+  // New starter: approve → allocate device → courier delivers → complete
+  new_starter: {
+    ...approval,
+    created: [
+      { to: 'device_allocated', action: 'allocate_device', effects: ['inventory_changed'] },
+      { to: 'cancelled', action: 'cancel', effects: ['client_notified'] },
+    ],
+    ...courierDelivery,
+    delivered: [{ to: 'completed', action: 'complete', effects: ['client_notified'] }],
+  },
+
+  // Leaver: approve → collection → warehouse → sanitise → grade → inventory → complete
+  leaver: {
+    ...approval,
+    created: [
+      { to: 'collection_scheduled', action: 'book_courier' },
+      { to: 'cancelled', action: 'cancel', effects: ['client_notified'] },
+    ],
+    collection_scheduled: [
+      { to: 'collected', action: 'advance' },
+      { to: 'cancelled', action: 'cancel', effects: ['client_notified'] },
+    ],
+    ...returnsProcessing,
+    inventory: [
+      {
+        to: 'completed',
+        action: 'complete',
+        guards: ['all_assets_sanitised', 'all_assets_graded'],
+        effects: ['certificates_issued', 'client_notified'],
+      },
+    ],
+  },
+
+  // Breakfix: replacement goes out by courier, then the broken device comes back through processing
+  breakfix: {
+    ...approval,
+    created: [
+      { to: 'device_allocated', action: 'allocate_device', effects: ['inventory_changed'] },
+      { to: 'cancelled', action: 'cancel', effects: ['client_notified'] },
+    ],
+    ...courierDelivery,
+    delivered: [{ to: 'collected', action: 'advance' }],
+    ...returnsProcessing,
+    inventory: [
+      {
+        to: 'completed',
+        action: 'complete',
+        guards: ['all_assets_sanitised', 'all_assets_graded'],
+        effects: ['certificates_issued', 'client_notified'],
+      },
+    ],
+  },
+
+  // Mover: old devices are collected and graded (no sanitisation), then reallocated and delivered
+  mover: {
+    ...approval,
+    created: [
+      { to: 'collection_scheduled', action: 'book_courier' },
+      { to: 'cancelled', action: 'cancel', effects: ['client_notified'] },
+    ],
+    collection_scheduled: [
+      { to: 'collected', action: 'advance' },
+      { to: 'cancelled', action: 'cancel', effects: ['client_notified'] },
+    ],
+    collected: returnsProcessing.collected,
+    warehouse: [{ to: 'graded', action: 'grade_assets', guards: ['all_assets_graded'] }],
+    graded: returnsProcessing.graded,
+    inventory: [{ to: 'device_allocated', action: 'allocate_device', effects: ['inventory_changed'] }],
+    ...courierDelivery,
+    delivered: [{ to: 'completed', action: 'complete', effects: ['client_notified'] }],
+  },
+};
+
+/**
+ * Flow graphs keyed by source status, with defaults filled in
+ */
+export const bookingFlows: Record<BookingFlow, Partial<Record<BookingStatus, BookingTransition[]>>> =
+  Object.fromEntries(
+    Object.entries(flowDefinitions).map(([flow, graph]) => [
+      flow,
+      Object.fromEntries(
+        Object.entries(graph).map(([from, specs]) => [
+          from,
+          specs.map((spec) => ({
+            from: from as BookingStatus,
+            to: spec.to,
+            action: spec.action,
+            roles: spec.roles || ['admin'],
+            guards: spec.guards || [],
+            effects: spec.effects || [],
+          })),
+        ])
+      ),
+    ])
+  ) as Record<BookingFlow, Partial<Record<BookingStatus, BookingTransition[]>>>;
+
+/**
+ * Which graph a booking follows
+ */
+export function getBookingFlow(booking: Pick<Booking, 'bookingType' | 'jmlSubType'>): BookingFlow {
+  if (booking.bookingType === 'jml' && booking.jmlSubType) {
+    return booking.jmlSubType;
+  }
+  return 'itad';
+}
+
+/**
+ * All transitions out of the booking's current status, optionally limited to a role
+ */
+export function getTransitions(booking: BookingMachineInput, role?: string): BookingTransition[] {
+  const transitions = bookingFlows[getBookingFlow(booking)][booking.status] || [];
+  return role ? transitions.filter((transition) => transition.roles.includes(role as Role)) : transitions;
+}
+
+/**
+ * Evaluate a single guard; null when the data it needs isn't supplied
+ */
+export function evaluateGuard(id: BookingGuardId, booking: BookingMachineInput, context: GuardContext = {}): boolean | null {
+  return guardDefinitions[id].evaluate(booking, context);
+}
+
+/**
+ * Evaluate the guards of a transition. Guards without data are reported as passed.
+ */
+export function evaluateGuards(
+  booking: BookingMachineInput,
+  transition: BookingTransition,
+  context: GuardContext = {}
+): GuardResult[] {
+  return transition.guards.map((id) => ({
+    id,
+    label: guardDefinitions[id].label,
+    passed: evaluateGuard(id, booking, context) !== false,
+  }));
+}
+
+/**
+ * Check whether a booking can move to a status: the flow must allow it, the role
+ * must be permitted and every guard must pass
+ */
+export function checkTransition(
+  booking: BookingMachineInput,
+  to: BookingStatus,
+  options: GuardContext & { role?: string } = {}
+): TransitionCheck {
+  const transition = getTransitions(booking).find((candidate) => candidate.to === to) || null;
+  if (!transition) {
+    return {
+      allowed: false,
+      transition: null,
+      guards: [],
+      reason: `Invalid status transition from ${booking.status} to ${to}`,
+    };
+  }
+
+  if (options.role && !transition.roles.includes(options.role as Role)) {
+    return {
+      allowed: false,
+      transition,
+      guards: [],
+      reason: `A ${options.role} cannot move a booking to ${to}`,
+    };
+  }
+
+  const guards = evaluateGuards(booking, transition, options);
+  const failed = guards.filter((guard) => !guard.passed);
+  return {
+    allowed: failed.length === 0,
+    transition,
+    guards,
+    reason: failed.length > 0 ? failed.map((guard) => guard.label).join(', ') + ' required' : undefined,
+  };
+}
+
+/**
+ * Actions a role can take on a booking right now. Each action carries its
+ * guard results so pages can show them disabled with the reason.
+ */
+export function getAvailableActions(
+  booking: BookingMachineInput,
+  role: string,
+  context: GuardContext = {}
+): Array<BookingTransition & { blocked: boolean; guardResults: GuardResult[] }> {
+  return getTransitions(booking, role).map((transition) => {
+    const guardResults = evaluateGuards(booking, transition, context);
+    return { ...transition, guardResults, blocked: guardResults.some((guard) => !guard.passed) };
+  });
+}
+
+/**
+ * Run the side effects of a completed transition with the caller's handlers
+ */
+export function runTransitionEffects<TEvent>(
+  transition: BookingTransition | null,
+  handlers: Partial<Record<BookingTransitionEffect, (event: TEvent) => void>>,
+  event: TEvent
+): void {
+  transition?.effects.forEach((effect) => handlers[effect]?.(event));
+}
+
+/**
+ * Booking status implied by a job status (backend or frontend format), if any.
+ * The driver's job workflow drives the booking through these.
+ */
+export function getBookingStatusForJobStatus(jobStatus: string): BookingStatus | null {
+  const jobToBooking: Record<string, BookingStatus> = {
+    collected: 'collected',
+    warehouse: 'warehouse',
+    sanitised: 'sanitised',
+    graded: 'graded',
+    completed: 'completed',
+    cancelled: 'cancelled',
+    device_allocated: 'device_allocated',
+    courier_booked: 'courier_booked',
+    dispatched: 'dispatched',
+    delivered: 'delivered',
+    inventory: 'inventory',
+  };
+  return jobToBooking[jobStatus] || null;
+}
+
+// ---------------------------------------------------------------------------
+// Driver leg: the part of the job workflow a driver performs
+// ---------------------------------------------------------------------------
+
+interface DriverLeg {
+  transitions: Partial<Record<WorkflowStatus, WorkflowStatus>>;
+  finalStatuses: WorkflowStatus[]; // The driver hands the job back to admin here
+}
+
+const driverLegs: Record<BookingFlow, DriverLeg> = {
+  // Admin handles warehouse → sanitised → graded → completed
+  itad: {
+    transitions: { routed: 'en-route', 'en-route': 'arrived', arrived: 'collected', collected: 'warehouse' },
+    finalStatuses: ['warehouse'],
+  },
+  // JML jobs are courier-based; drivers never progress them
+  new_starter: { transitions: {}, finalStatuses: ['arrived'] },
+  leaver: { transitions: {}, finalStatuses: ['warehouse'] },
+  breakfix: { transitions: {}, finalStatuses: ['arrived', 'warehouse'] },
+  mover: { transitions: {}, finalStatuses: ['warehouse'] },
+};
+
+/**
+ * Job statuses the driver must submit evidence for before moving into them
+ */
+export const DRIVER_EVIDENCE_STATUSES: WorkflowStatus[] = ['en-route', 'arrived', 'collected', 'warehouse'];
+
+function normalizeJobStatus(status: string): WorkflowStatus {
+  return (status === 'en_route' ? 'en-route' : status) as WorkflowStatus;
+}
+
+/**
+ * Next job status on the driver's leg, or null when the driver has nothing left to do
+ */
+export function getNextDriverJobStatus(job: {
+  status: string;
+  bookingType?: Booking['bookingType'];
+  jmlSubType?: Booking['jmlSubType'];
+}): WorkflowStatus | null {
+  return driverLegs[getBookingFlow(job)].transitions[normalizeJobStatus(job.status)] || null;
+}
+
+/**
+ * Whether a job status ends the driver's leg for the job's flow
+ */
+export function isDriverLegFinalStatus(
+  job: { bookingType?: Booking['bookingType']; jmlSubType?: Booking['jmlSubType'] },
+  status: string
+): boolean {
+  return driverLegs[getBookingFlow(job)].finalStatuses.includes(normalizeJobStatus(status));
+}
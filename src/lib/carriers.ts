@@ -0,0 +1,495 @@
+// Courier carriers - one adapter per carrier, turning a JML shipment into the carrier's
+// create-shipment request and the carrier's tracking responses and webhooks back into
+// normalised tracking events. Shared by the courier booking screens (carriers, services,
+// tracking links) and the backend's shipment engine, which calls the carrier APIs and
+// moves bookings on as events arrive (getBookingStatusForTracking).
+// The simulated carrier needs no account: its tracking follows a fixed timeline from the
+// moment the shipment is created, for tests and demo environments.
+import type { BookingStatus } from '@/lib/booking-state-machine';
+import type {
+  CarrierCode,
+  CarrierShipmentRequest,
+  Shipment,
+  ShipmentAddress,
+  ShipmentDirection,
+  TrackingEvent,
+  TrackingStatus,
+} from '@/types/carriers';
+
+export type CarrierPayload = Record<string, unknown>;
+
+/**
+ * Tracking events for one shipment, as read from a tracking response or webhook
+ */
+export interface CarrierTrackingUpdate {
+  trackingNumber: string;
+  events: TrackingEvent[];
+}
+
+export interface CarrierAdapter {
+  code: CarrierCode;
+  name: string;
+  services: Array<{ code: string; label: string }>;
+  trackingNumberPattern: RegExp;
+  trackingUrl: (trackingNumber: string) => string | null;
+  /** Body for the carrier's create-shipment call */
+  buildShipmentRequest: (request: CarrierShipmentRequest) => CarrierPayload;
+  /** Tracking number from the carrier's create-shipment response */
+  parseShipmentResponse: (response: unknown) => string | null;
+  /** Events from a tracking poll response or a webhook body - both use the same shape */
+  parseTracking: (payload: unknown) => CarrierTrackingUpdate[];
+}
+
+export const trackingStatusConfig: Record<TrackingStatus, { label: string; className: string }> = {
+  label_created: { label: 'Label created', className: 'bg-muted text-muted-foreground' },
+  collected: { label: 'Collected', className: 'bg-primary/10 text-primary' },
+  in_transit: { label: 'In transit', className: 'bg-primary/10 text-primary' },
+  out_for_delivery: { label: 'Out for delivery', className: 'bg-warning/10 text-warning' },
+  delivered: { label: 'Delivered', className: 'bg-success/10 text-success' },
+  exception: { label: 'Exception', className: 'bg-destructive/10 text-destructive' },
+};
+
+function trackingEvent(
+  trackingNumber: string,
+  carrierStatus: string,
+  status: TrackingStatus,
+  occurredAt: string,
+  description: string,
+  location?: string | null
+): TrackingEvent {
+  return {
+    id: `${trackingNumber}:${carrierStatus}:${occurredAt}`,
+    status,
+    description,
+    location: location || null,
+    occurredAt,
+    carrierStatus,
+  };
+}
+
+function isoOrNull(value: string | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// ---------------------------------------------------------------------------
+// DPD
+// ---------------------------------------------------------------------------
+
+interface DpdTrackingResponse {
+  parcels?: Array<{
+    parcelNumber: string;
+    trackingEvents?: Array<{ eventCode: string; eventText?: string; eventDate: string; eventLocation?: string }>;
+  }>;
+}
+
+const dpdStatuses: Record<string, TrackingStatus> = {
+  PRE_ADVICE: 'label_created',
+  COLLECTED: 'collected',
+  AT_HUB: 'in_transit',
+  IN_TRANSIT: 'in_transit',
+  OUT_FOR_DELIVERY: 'out_for_delivery',
+  DELIVERED: 'delivered',
+  DELIVERED_TO_PICKUP_SHOP: 'delivered',
+  FAILED_DELIVERY: 'exception',
+  RETURNED_TO_SENDER: 'exception',
+};
+
+function dpdAddress(address: ShipmentAddress) {
+  return {
+    contactDetails: { contactName: address.name, telephone: address.phone || '' },
+    notificationDetails: { email: address.email || '' },
+    address: { street: address.address, postcode: address.postcode || '', countryCode: address.countryCode },
+  };
+}
+
+const dpd: CarrierAdapter = {
+  code: 'dpd',
+  name: 'DPD',
+  services: [
+    { code: '1^12', label: 'Next Day' },
+    { code: '1^13', label: 'Next Day by 12:00' },
+  ],
+  trackingNumberPattern: /^\d{14}$/,
+  trackingUrl: (trackingNumber) => `https://track.dpd.co.uk/parcels/${trackingNumber}`,
+  buildShipmentRequest: (request) => ({
+    collectionOnDelivery: false,
+    consignment: [
+      {
+        consignmentRef: request.reference,
+        networkCode: request.service,
+        numberOfParcels: request.parcels,
+        collectionDetails: dpdAddress(request.from),
+        deliveryDetails: dpdAddress(request.to),
+      },
+    ],
+  }),
+  parseShipmentResponse: (response) => {
+    const body = response as { data?: { consignmentDetail?: Array<{ parcelNumbers?: string[] }> } };
+    return body.data?.consignmentDetail?.[0]?.parcelNumbers?.[0] || null;
+  },
+  parseTracking: (payload) =>
+    ((payload as DpdTrackingResponse).parcels || []).map((parcel) => ({
+      trackingNumber: parcel.parcelNumber,
+      events: (parcel.trackingEvents || []).flatMap((event) => {
+        const status = dpdStatuses[event.eventCode];
+        const occurredAt = isoOrNull(event.eventDate);
+        return status && occurredAt
+          ? [trackingEvent(parcel.parcelNumber, event.eventCode, status, occurredAt, event.eventText || event.eventCode, event.eventLocation)]
+          : [];
+      }),
+    })),
+};
+
+// ---------------------------------------------------------------------------
+// DHL Express - checkpoint type codes
+// ---------------------------------------------------------------------------
+
+interface DhlTrackingResponse {
+  shipments?: Array<{
+    id: string;
+    events?: Array<{
+      timestamp: string;
+      typeCode: string;
+      description?: string;
+      location?: { address?: { addressLocality?: string } };
+    }>;
+  }>;
+}
+
+const dhlStatuses: Record<string, TrackingStatus> = {
+  SA: 'label_created', // Shipment information received
+  PU: 'collected',
+  PL: 'in_transit', // Processed at location
+  DF: 'in_transit', // Departed facility
+  AF: 'in_transit', // Arrived at facility
+  WC: 'out_for_delivery', // With delivery courier
+  OK: 'delivered',
+  NH: 'exception', // Not home
+  CA: 'exception', // Closed on arrival
+  BA: 'exception', // Bad address
+};
+
+function dhlParty(address: ShipmentAddress) {
+  return {
+    postalAddress: { addressLine1: address.address, postalCode: address.postcode || '', countryCode: address.countryCode },
+    contactInformation: { fullName: address.name, phone: address.phone || '', email: address.email || '' },
+  };
+}
+
+const dhl: CarrierAdapter = {
+  code: 'dhl',
+  name: 'DHL Express',
+  services: [
+    { code: 'N', label: 'Domestic Express' },
+    { code: 'P', label: 'Express Worldwide' },
+  ],
+  trackingNumberPattern: /^\d{10}$/,
+  trackingUrl: (trackingNumber) => `https://www.dhl.com/gb-en/home/tracking.html?tracking-id=${trackingNumber}`,
+  buildShipmentRequest: (request) => ({
+    productCode: request.service,
+    customerReferences: [{ value: request.reference, typeCode: 'CU' }],
+    customerDetails: { shipperDetails: dhlParty(request.from), receiverDetails: dhlParty(request.to) },
+    content: {
+      packages: Array.from({ length: request.parcels }, () => ({ weight: 3, dimensions: { length: 45, width: 35, height: 10 } })),
+      description: 'IT equipment',
+    },
+    outputImageProperties: { imageOptions: [{ typeCode: 'label', templateName: 'ECOM26_84_001' }] },
+  }),
+  parseShipmentResponse: (response) => (response as { shipmentTrackingNumber?: string }).shipmentTrackingNumber || null,
+  parseTracking: (payload) =>
+    ((payload as DhlTrackingResponse).shipments || []).map((shipment) => ({
+      trackingNumber: shipment.id,
+      events: (shipment.events || []).flatMap((event) => {
+        const status = dhlStatuses[event.typeCode];
+        const occurredAt = isoOrNull(event.timestamp);
+        return status && occurredAt
+          ? [
+              trackingEvent(
+                shipment.id,
+                event.typeCode,
+                status,
+                occurredAt,
+                event.description || event.typeCode,
+                event.location?.address?.addressLocality
+              ),
+            ]
+          : [];
+      }),
+    })),
+};
+
+// ---------------------------------------------------------------------------
+// UPS - activity status types (M manifest, P pickup, I in transit, D delivered, X exception)
+// ---------------------------------------------------------------------------
+
+interface UpsTrackingResponse {
+  trackResponse?: {
+    shipment?: Array<{
+      package?: Array<{
+        trackingNumber: string;
+        activity?: Array<{
+          date: string; // YYYYMMDD
+          time: string; // HHMMSS
+          status: { type: string; code?: string; description?: string };
+          location?: { address?: { city?: string } };
+        }>;
+      }>;
+    }>;
+  };
+}
+
+const upsStatuses: Record<string, TrackingStatus> = {
+  M: 'label_created',
+  P: 'collected',
+  I: 'in_transit',
+  D: 'delivered',
+  X: 'exception',
+};
+
+const UPS_OUT_FOR_DELIVERY_CODE = 'OT';
+
+function upsTimestamp(date: string, time: string): string | null {
+  if (!/^\d{8}$/.test(date) || !/^\d{6}$/.test(time)) return null;
+  return isoOrNull(
+    `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}T${time.slice(0, 2)}:${time.slice(2, 4)}:${time.slice(4, 6)}Z`
+  );
+}
+
+function upsParty(address: ShipmentAddress) {
+  return {
+    Name: address.name,
+    Phone: { Number: address.phone || '' },
+    EMailAddress: address.email || '',
+    Address: { AddressLine: [address.address], PostalCode: address.postcode || '', CountryCode: address.countryCode },
+  };
+}
+
+const ups: CarrierAdapter = {
+  code: 'ups',
+  name: 'UPS',
+  services: [
+    { code: '11', label: 'UPS Standard' },
+    { code: '65', label: 'UPS Express Saver' },
+  ],
+  trackingNumberPattern: /^1Z[0-9A-Z]{16}$/,
+  trackingUrl: (trackingNumber) => `https://www.ups.com/track?tracknum=${trackingNumber}`,
+  buildShipmentRequest: (request) => ({
+    ShipmentRequest: {
+      Shipment: {
+        Description: 'IT equipment',
+        ReferenceNumber: { Value: request.reference },
+        Shipper: upsParty(request.from),
+        ShipFrom: upsParty(request.from),
+        ShipTo: upsParty(request.to),
+        Service: { Code: request.service },
+        Package: Array.from({ length: request.parcels }, () => ({
+          Packaging: { Code: '02' },
+          PackageWeight: { UnitOfMeasurement: { Code: 'KGS' }, Weight: '3' },
+        })),
+      },
+      LabelSpecification: { LabelImageFormat: { Code: 'GIF' } },
+    },
+  }),
+  parseShipmentResponse: (response) => {
+    const body = response as {
+      ShipmentResponse?: { ShipmentResults?: { PackageResults?: Array<{ TrackingNumber?: string }> } };
+    };
+    return body.ShipmentResponse?.ShipmentResults?.PackageResults?.[0]?.TrackingNumber || null;
+  },
+  parseTracking: (payload) =>
+    ((payload as UpsTrackingResponse).trackResponse?.shipment || [])
+      .flatMap((shipment) => shipment.package || [])
+      .map((parcel) => ({
+        trackingNumber: parcel.trackingNumber,
+        events: (parcel.activity || []).flatMap((activity) => {
+          const status =
+            activity.status.code === UPS_OUT_FOR_DELIVERY_CODE ? 'out_for_delivery' : upsStatuses[activity.status.type];
+          const occurredAt = upsTimestamp(activity.date, activity.time);
+          const carrierStatus = activity.status.code || activity.status.type;
+          return status && occurredAt
+            ? [
+                trackingEvent(
+                  parcel.trackingNumber,
+                  carrierStatus,
+                  status,
+                  occurredAt,
+                  activity.status.description || carrierStatus,
+                  activity.location?.address?.city
+                ),
+              ]
+            : [];
+        }),
+      })),
+};
+
+// ---------------------------------------------------------------------------
+// Royal Mail
+// ---------------------------------------------------------------------------
+
+interface RoyalMailTrackingResponse {
+  mailPieces?: Array<{
+    mailPieceId: string;
+    events?: Array<{ eventCode: string; eventName?: string; eventDateTime: string; locationName?: string }>;
+  }>;
+}
+
+const royalMailStatuses: Record<string, TrackingStatus> = {
+  EVNMI: 'label_created', // Sender preparing item
+  EVPPA: 'collected', // Item collected
+  EVNRT: 'in_transit', // Item in transit
+  EVAIP: 'in_transit', // Item at delivery office
+  EVKOP: 'out_for_delivery', // Out for delivery
+  EVKSP: 'delivered',
+  EVKLC: 'exception', // Delivery attempted, card left
+  EVNRF: 'exception', // Returned to sender
+};
+
+function royalMailParty(address: ShipmentAddress) {
+  return {
+    address: {
+      fullName: address.name,
+      addressLine1: address.address,
+      postcode: address.postcode || '',
+      countryCode: address.countryCode,
+    },
+    phoneNumber: address.phone || '',
+    emailAddress: address.email || '',
+  };
+}
+
+const royalMail: CarrierAdapter = {
+  code: 'royal_mail',
+  name: 'Royal Mail',
+  services: [
+    { code: 'TPN24', label: 'Tracked 24' },
+    { code: 'TPS48', label: 'Tracked 48' },
+    { code: 'SD1', label: 'Special Delivery by 1pm' },
+  ],
+  trackingNumberPattern: /^[A-Z]{2}\d{9}GB$/,
+  trackingUrl: (trackingNumber) => `https://www.royalmail.com/track-your-item#/tracking-results/${trackingNumber}`,
+  buildShipmentRequest: (request) => ({
+    items: [
+      {
+        orderReference: request.reference,
+        recipient: royalMailParty(request.to),
+        sender: { tradingName: request.from.name, ...royalMailParty(request.from) },
+        packages: Array.from({ length: request.parcels }, () => ({
+          weightInGrams: 3000,
+          packageFormatIdentifier: 'parcel',
+        })),
+        postageDetails: { serviceCode: request.service, sendNotificationsTo: 'recipient' },
+        label: { includeLabelInResponse: true },
+      },
+    ],
+  }),
+  parseShipmentResponse: (response) =>
+    (response as { createdOrders?: Array<{ trackingNumber?: string }> }).createdOrders?.[0]?.trackingNumber || null,
+  parseTracking: (payload) =>
+    ((payload as RoyalMailTrackingResponse).mailPieces || []).map((mailPiece) => ({
+      trackingNumber: mailPiece.mailPieceId,
+      events: (mailPiece.events || []).flatMap((event) => {
+        const status = royalMailStatuses[event.eventCode];
+        const occurredAt = isoOrNull(event.eventDateTime);
+        return status && occurredAt
+          ? [
+              trackingEvent(
+                mailPiece.mailPieceId,
+                event.eventCode,
+                status,
+                occurredAt,
+                event.eventName || event.eventCode,
+                event.locationName
+              ),
+            ]
+          : [];
+      }),
+    })),
+};
+
+// ---------------------------------------------------------------------------
+// Simulated carrier - speaks the normalised format
+// ---------------------------------------------------------------------------
+
+interface SimulatedTrackingPayload {
+  shipments?: Array<{ trackingNumber: string; events?: TrackingEvent[] }>;
+}
+
+const simulated: CarrierAdapter = {
+  code: 'simulated',
+  name: 'Simulated Carrier',
+  services: [{ code: 'standard', label: 'Standard' }],
+  trackingNumberPattern: /^SIM\d{10}$/,
+  trackingUrl: () => null,
+  buildShipmentRequest: (request) => ({ ...request }),
+  parseShipmentResponse: (response) => (response as { trackingNumber?: string }).trackingNumber || null,
+  parseTracking: (payload) =>
+    ((payload as SimulatedTrackingPayload).shipments || []).map((shipment) => ({
+      trackingNumber: shipment.trackingNumber,
+      events: (shipment.events || []).filter((event) => !!trackingStatusConfig[event.status]),
+    })),
+};
+
+export const CARRIER_ADAPTERS: CarrierAdapter[] = [dpd, dhl, ups, royalMail, simulated];
+
+export function getCarrierAdapter(code: CarrierCode): CarrierAdapter {
+  const adapter = CARRIER_ADAPTERS.find((candidate) => candidate.code === code);
+  if (!adapter) throw new Error(`Unknown carrier: ${code}`);
+  return adapter;
+}
+
+export function isCarrierCode(value: unknown): value is CarrierCode {
+  return CARRIER_ADAPTERS.some((adapter) => adapter.code === value);
+}
+
+// When the simulated carrier's events happen, in minutes after the shipment is created
+export const SIMULATED_TRACKING_STEPS: Array<{ status: TrackingStatus; afterMinutes: number; description: string }> = [
+  { status: 'label_created', afterMinutes: 0, description: 'Shipment details received' },
+  { status: 'collected', afterMinutes: 2, description: 'Parcel collected' },
+  { status: 'in_transit', afterMinutes: 5, description: 'Parcel at the sorting hub' },
+  { status: 'out_for_delivery', afterMinutes: 10, description: 'Out for delivery' },
+  { status: 'delivered', afterMinutes: 15, description: 'Delivered' },
+];
+
+/**
+ * The simulated carrier's events for a shipment up to `now`
+ */
+export function simulateTrackingEvents(
+  shipment: Pick<Shipment, 'trackingNumber' | 'createdAt' | 'from' | 'to'>,
+  now: Date = new Date()
+): TrackingEvent[] {
+  const createdAt = new Date(shipment.createdAt).getTime();
+  return SIMULATED_TRACKING_STEPS.filter((step) => createdAt + step.afterMinutes * 60_000 <= now.getTime()).map((step) => {
+    const location =
+      step.status === 'collected' ? shipment.from.postcode : step.status === 'delivered' ? shipment.to.postcode : 'Hub';
+    const occurredAt = new Date(createdAt + step.afterMinutes * 60_000).toISOString();
+    return trackingEvent(shipment.trackingNumber, step.status.toUpperCase(), step.status, occurredAt, step.description, location);
+  });
+}
+
+/**
+ * Merge newly received events into a shipment's history. Events already recorded are
+ * ignored, so a webhook delivered twice (or a poll overlapping it) changes nothing.
+ */
+export function mergeTrackingEvents(
+  shipment: Pick<Shipment, 'events' | 'status'>,
+  received: TrackingEvent[]
+): { events: TrackingEvent[]; status: TrackingStatus; added: TrackingEvent[] } {
+  const known = new Set(shipment.events.map((event) => event.id));
+  const added = received.filter((event, index) => !known.has(event.id) && received.findIndex((other) => other.id === event.id) === index);
+  const events = [...shipment.events, ...added].sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+  return { events, status: events[events.length - 1]?.status || shipment.status, added };
+}
+
+/**
+ * The booking status a tracking status means, or null when it doesn't move the booking on.
+ * Outbound parcels are dispatched once the carrier has them; collections are collected as
+ * soon as the carrier has picked the devices up, and at the warehouse once delivered there.
+ * A returns kit box going out to a leaver doesn't move the booking at all.
+ */
+export function getBookingStatusForTracking(direction: ShipmentDirection, status: TrackingStatus): BookingStatus | null {
+  if (status === 'label_created' || status === 'exception' || direction === 'returns_kit') return null;
+  if (direction === 'collection') return status === 'delivered' ? 'warehouse' : 'collected';
+  return status === 'delivered' ? 'delivered' : 'dispatched';
+}
@@ -5,3 +5,61 @@
  */
 export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
 
+
+/**
+ * Default timeout for backend API requests (ms)
+ */
+export const API_TIMEOUT_MS = Number(import.meta.env.VITE_API_TIMEOUT_MS) || 30000;
+
+/**
+ * Default number of retries for idempotent API requests that fail with a
+ * network error or rate limit
+ */
+export const API_MAX_RETRIES = 2;
+
+/**
+ * Route all API requests to the in-memory mock backend (src/mocks/mock-server.ts)
+ * instead of the real server. Enable with VITE_USE_MOCKS=true.
+ */
+export const USE_MOCKS = import.meta.env.VITE_USE_MOCKS === 'true';
+
+/**
+ * OSRM server used for multi-stop route planning (table service). Set
+ * VITE_OSRM_URL to a self-hosted instance; the public demo is rate limited.
+ */
+export const OSRM_BASE_URL = import.meta.env.VITE_OSRM_URL || 'http://router.project-osrm.org';
+
+/**
+ * Geocoding provider for address search and postcode lookup: 'nominatim'
+ * (default), 'photon' or 'pelias'. Mock mode always uses offline fixtures.
+ */
+export const GEOCODER = import.meta.env.VITE_GEOCODER || 'nominatim';
+
+/**
+ * Base URL of the geocoding provider. Required for Pelias; Nominatim and Photon
+ * default to their public instances.
+ */
+export const GEOCODER_URL = import.meta.env.VITE_GEOCODER_URL || '';
+
+/**
+ * API key for hosted Pelias instances (e.g. geocode.earth)
+ */
+export const GEOCODER_API_KEY = import.meta.env.VITE_GEOCODER_API_KEY || '';
+
+/**
+ * Contact email sent with Nominatim requests, as its usage policy asks of
+ * applications (browsers cannot set a custom User-Agent)
+ */
+export const GEOCODER_CONTACT_EMAIL = import.meta.env.VITE_GEOCODER_EMAIL || '';
+
+/**
+ * Transport for the real-time push channel: 'websocket' (default), 'sse' for
+ * Server-Sent Events where proxies block WebSockets, or 'off' to rely on polling.
+ * Mock mode always uses the in-process stand-in.
+ */
+export const REALTIME_TRANSPORT = import.meta.env.VITE_REALTIME_TRANSPORT || 'websocket';
+
+/**
+ * Push channel endpoint. Defaults to /events on the API (ws:// or wss:// for WebSockets).
+ */
+export const REALTIME_URL = import.meta.env.VITE_REALTIME_URL || `${API_BASE_URL}/events`;
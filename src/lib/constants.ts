@@ -2,6 +2,7 @@
 // These are UI-level constants, not mock data
 
 import type { WorkflowStatus } from '@/types/jobs';
+import { BASELINE_FACTOR_SET, createCo2eEquivalencies } from './emission-factors';
 
 export const statusConfig: Record<WorkflowStatus, { label: string; color: string; bgColor: string }> = {
   'booked': { label: 'Booked', color: 'text-info', bgColor: 'bg-info/10' },
@@ -60,11 +61,8 @@ export function getWorkflowStatusLabel(status: WorkflowStatus): string {
   return statusConfig[status].label;
 }
 
-// CO2e equivalencies for visualisation (UI constants)
-export const co2eEquivalencies = {
-  treesPlanted: (kg: number) => Math.round(kg / 21), // 1 tree absorbs ~21kg CO2/year
-  householdDays: (kg: number) => Math.round(kg / 27), // UK household ~27kg CO2/day
-  carMiles: (kg: number) => Math.round(kg / 0.21), // ~0.21kg CO2 per mile
-  flightHours: (kg: number) => Math.round(kg / 250), // ~250kg CO2 per flight hour
-};
+// CO2e equivalencies for visualisation (UI constants) - conversions come from
+// the baseline factor set (1 tree absorbs ~21kg CO2/year, UK household ~27kg CO2/day,
+// ~0.21kg CO2 per car mile, ~250kg CO2 per flight hour)
+export const co2eEquivalencies = createCo2eEquivalencies(BASELINE_FACTOR_SET);
 
@@ -0,0 +1,150 @@
+// Emission factor sets and GHG Protocol breakdowns
+// Calculations take an explicit factor set and stamp their result with its id and
+// version, so a job's reported figures can always be traced to the factors used
+// and restated when a newer set is published.
+import type { AssetCategory } from '@/types/jobs';
+import type {
+  EmissionFactorSet,
+  EmissionsBreakdown,
+  EmissionTotals,
+  Scope3Category,
+  TravelFactorKey,
+} from '@/types/emissions';
+
+/**
+ * The factors the app used before factor sets were versioned. Also the fallback
+ * when the backend has not supplied a set. They were never taken from a published
+ * source, so the set doesn't claim one.
+ */
+export const BASELINE_FACTOR_SET: EmissionFactorSet = {
+  id: 'legacy',
+  version: 'Legacy (unversioned)',
+  name: 'Legacy emission factors',
+  source: 'Internal estimate',
+  sourceUrl: null,
+  publishedAt: '2023-01-01',
+  validFrom: '2023-01-01',
+  isCurrent: false,
+  travelKgPerKm: {
+    petrol: 0.21,
+    diesel: 0.19,
+    electric: 0.0,
+    car: 0.17,
+    van: 0.24,
+    truck: 0.89,
+  },
+  avoidedKgPerUnit: {}, // Reuse savings came from each asset category's own estimate
+  endOfLifeKgPerKg: 0.0213,
+  equivalencies: {
+    treeKgPerYear: 21,
+    householdKgPerDay: 27,
+    carKgPerMile: 0.21,
+    flightKgPerHour: 250,
+  },
+};
+
+export const SCOPE3_CATEGORIES: Record<Scope3Category, { ghgCategory: number; label: string; description: string }> = {
+  upstream_transport: {
+    ghgCategory: 4,
+    label: 'Upstream transportation',
+    description: 'Collection vehicle travel between the warehouse and client sites',
+  },
+  end_of_life_treatment: {
+    ghgCategory: 5,
+    label: 'End-of-life treatment',
+    description: 'Sanitisation, refurbishment and recycling of collected equipment',
+  },
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Travel factor to use for a vehicle under a factor set. Fuel type takes precedence
+ * over vehicle type; vehicles the set has no factor for are treated as diesel.
+ */
+export function getTravelFactorKey(
+  factorSet: Pick<EmissionFactorSet, 'travelKgPerKm'>,
+  vehicle?: { vehicleFuelType?: string | null; vehicleType?: string | null } | null
+): TravelFactorKey {
+  const key = vehicle?.vehicleFuelType || vehicle?.vehicleType;
+  return key && key in factorSet.travelKgPerKm ? (key as TravelFactorKey) : 'diesel';
+}
+
+/**
+ * Calculate a job's emissions under a factor set
+ */
+export function calculateEmissions(
+  factorSet: EmissionFactorSet,
+  input: {
+    assets: Array<{ categoryId?: string; quantity: number }>;
+    categories: Array<Pick<AssetCategory, 'id' | 'co2ePerUnit' | 'avgWeight'>>;
+    distanceKm?: number | null;
+    travelFactorKey?: TravelFactorKey;
+  },
+  calculatedAt: string = new Date().toISOString()
+): EmissionsBreakdown {
+  // A key kept from an earlier calculation may not be in this set
+  const travelFactorKey = getTravelFactorKey(factorSet, { vehicleType: input.travelFactorKey });
+  const distanceKm = input.distanceKm || 0;
+
+  let avoidedEmissions = 0;
+  let processedKg = 0;
+  for (const asset of input.assets) {
+    const category = input.categories.find((candidate) => candidate.id === asset.categoryId);
+    // Categories the factor set does not cover fall back to the category's own estimate
+    const setFactor = asset.categoryId ? factorSet.avoidedKgPerUnit[asset.categoryId] : undefined;
+    avoidedEmissions += (setFactor ?? category?.co2ePerUnit ?? 0) * asset.quantity;
+    processedKg += (category?.avgWeight || 0) * asset.quantity;
+  }
+
+  const scope3: Record<Scope3Category, number> = {
+    upstream_transport: round1(distanceKm * (factorSet.travelKgPerKm[travelFactorKey] ?? 0)),
+    end_of_life_treatment: round1(processedKg * factorSet.endOfLifeKgPerKg),
+  };
+  const totalScope3 = round1(scope3.upstream_transport + scope3.end_of_life_treatment);
+  avoidedEmissions = round1(avoidedEmissions);
+
+  return {
+    factorSetId: factorSet.id,
+    factorSetVersion: factorSet.version,
+    calculatedAt,
+    distanceKm,
+    travelFactorKey,
+    avoidedEmissions,
+    scope3,
+    totalScope3,
+    netImpact: round1(avoidedEmissions - totalScope3),
+  };
+}
+
+/**
+ * Add up breakdowns for reporting
+ */
+export function sumEmissions(breakdowns: Array<EmissionsBreakdown | null | undefined>): EmissionTotals {
+  const totals: EmissionTotals = {
+    avoidedEmissions: 0,
+    scope3: { upstream_transport: 0, end_of_life_treatment: 0 },
+    netImpact: 0,
+  };
+  for (const breakdown of breakdowns) {
+    if (!breakdown) continue;
+    totals.avoidedEmissions += breakdown.avoidedEmissions;
+    totals.scope3.upstream_transport += breakdown.scope3.upstream_transport;
+    totals.scope3.end_of_life_treatment += breakdown.scope3.end_of_life_treatment;
+    totals.netImpact += breakdown.netImpact;
+  }
+  return totals;
+}
+
+/**
+ * Everyday equivalents of an amount of CO₂e, using a factor set's conversions
+ */
+export function createCo2eEquivalencies(factorSet: Pick<EmissionFactorSet, 'equivalencies'>) {
+  const { treeKgPerYear, householdKgPerDay, carKgPerMile, flightKgPerHour } = factorSet.equivalencies;
+  return {
+    treesPlanted: (kg: number) => Math.round(kg / treeKgPerYear),
+    householdDays: (kg: number) => Math.round(kg / householdKgPerDay),
+    carMiles: (kg: number) => Math.round(kg / carKgPerMile),
+    flightHours: (kg: number) => Math.round(kg / flightKgPerHour),
+  };
+}
@@ -0,0 +1,218 @@
+// Employee device ledger - what each employee holds, worked out from their JML bookings
+// Devices allocated on a booking are issued to its employee (and with them once the booking
+// has been delivered). Serials recorded when their kit is collected, or graded back at the
+// warehouse, come back from them. Cancelled bookings don't count. A collected serial that
+// was never issued to the employee, or a device a leaver or mover still holds once their
+// collection has been checked in, is flagged as a mismatch.
+import { normaliseSerialNumber } from '@/lib/blancco';
+import {
+  getUnderlyingAssetCategoryNameForJml,
+  inferDeviceTypeFromJmlCategory,
+  type JmlAllowedCategoryName,
+  type JmlDeviceType,
+} from '@/lib/jml-assets';
+import type { Booking, GradingRecord } from '@/mocks/mock-entities';
+import type {
+  BookingDeviceRecord,
+  EmployeeDevice,
+  EmployeeDeviceEvent,
+  EmployeeDeviceMismatch,
+  EmployeeDeviceMismatchKind,
+  EmployeeStatus,
+} from '@/types/employees';
+
+export type LedgerBooking = Pick<
+  Booking,
+  'id' | 'bookingNumber' | 'jmlSubType' | 'status' | 'createdAt' | 'allocatedDevices' | 'collectedDevices'
+> & {
+  statusHistory: Array<{ status: string; changedAt: string }>;
+};
+
+export type LedgerGradingRecord = Pick<GradingRecord, 'bookingId' | 'assetCategory' | 'serialNumbers' | 'gradedAt'>;
+
+// Collections that should bring back everything the employee holds - breakfix only returns the broken device
+const FULL_RETURN_SUB_TYPES = ['leaver', 'mover'];
+
+export const employeeStatusConfig: Record<EmployeeStatus, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-success/10 text-success' },
+  leaving: { label: 'Leaving', className: 'bg-warning/10 text-warning' },
+  left: { label: 'Left', className: 'bg-muted text-muted-foreground' },
+};
+
+export const employeeMismatchConfig: Record<EmployeeDeviceMismatchKind, { label: string; description: string }> = {
+  not_issued: { label: 'Not issued', description: 'Collected from the employee but never issued to them' },
+  not_returned: { label: 'Not returned', description: 'Still held after a collection that should have returned it' },
+};
+
+function statusReachedAt(booking: LedgerBooking, status: string): string | undefined {
+  return booking.statusHistory.find((entry) => entry.status === status)?.changedAt;
+}
+
+/**
+ * Serials collected on a booking: those recorded at collection, plus any graded at the
+ * warehouse that weren't
+ */
+export function getCollectedDevices(booking: LedgerBooking, gradingRecords: LedgerGradingRecord[]): BookingDeviceRecord[] {
+  const devices = new Map<string, BookingDeviceRecord>();
+  (booking.collectedDevices || []).forEach((device) => devices.set(normaliseSerialNumber(device.serialNumber), device));
+  gradingRecords
+    .filter((record) => record.bookingId === booking.id)
+    .forEach((record) => {
+      (record.serialNumbers || []).forEach((serialNumber) => {
+        const key = normaliseSerialNumber(serialNumber);
+        if (!key || devices.has(key)) return;
+        devices.set(key, {
+          serialNumber,
+          category: record.assetCategory,
+          recordedAt: statusReachedAt(booking, 'collected') || record.gradedAt,
+        });
+      });
+    });
+  return [...devices.values()];
+}
+
+type LedgerStep =
+  | { type: 'issued'; at: string; booking: LedgerBooking; device: BookingDeviceRecord }
+  | { type: 'collected'; at: string; booking: LedgerBooking; devices: BookingDeviceRecord[] };
+
+function deviceEvent(type: EmployeeDeviceEvent['type'], booking: LedgerBooking, device: BookingDeviceRecord): EmployeeDeviceEvent {
+  return {
+    id: `${booking.id}:${type}:${device.serialNumber}`,
+    type,
+    serialNumber: device.serialNumber,
+    make: device.make,
+    model: device.model,
+    bookingId: booking.id,
+    bookingNumber: booking.bookingNumber,
+    jmlSubType: booking.jmlSubType || 'jml',
+    occurredAt: device.recordedAt,
+  };
+}
+
+function employeeStatus(bookings: LedgerBooking[]): EmployeeStatus {
+  const latest = [...bookings].sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  if (latest?.jmlSubType !== 'leaver') return 'active';
+  return statusReachedAt(latest, 'collected') || latest.status === 'completed' ? 'left' : 'leaving';
+}
+
+/**
+ * An employee's current holdings, device history (newest first) and mismatches, from their bookings
+ */
+export function buildEmployeeLedger(
+  bookings: LedgerBooking[],
+  gradingRecords: LedgerGradingRecord[]
+): { status: EmployeeStatus; holdings: EmployeeDevice[]; history: EmployeeDeviceEvent[]; mismatches: EmployeeDeviceMismatch[] } {
+  const counted = bookings.filter((booking) => booking.status !== 'cancelled');
+  const steps: LedgerStep[] = counted.flatMap((booking): LedgerStep[] => {
+    const issued = (booking.allocatedDevices || []).map(
+      (device): LedgerStep => ({ type: 'issued', at: device.recordedAt, booking, device })
+    );
+    const collected = getCollectedDevices(booking, gradingRecords);
+    if (collected.length === 0) return issued;
+    const at = statusReachedAt(booking, 'collected') || collected[0].recordedAt;
+    return [...issued, { type: 'collected', at, booking, devices: collected }];
+  });
+  // Same moment: issue before collecting, so a device allocated and returned together nets out
+  steps.sort((a, b) => a.at.localeCompare(b.at) || (a.type === b.type ? 0 : a.type === 'issued' ? -1 : 1));
+
+  const held = new Map<string, EmployeeDevice>();
+  const history: EmployeeDeviceEvent[] = [];
+  const mismatches: EmployeeDeviceMismatch[] = [];
+  const mismatch = (kind: EmployeeDeviceMismatchKind, booking: LedgerBooking, device: Pick<BookingDeviceRecord, 'serialNumber' | 'make' | 'model'>) =>
+    mismatches.push({
+      id: `${booking.id}:${kind}:${device.serialNumber}`,
+      kind,
+      serialNumber: device.serialNumber,
+      make: device.make,
+      model: device.model,
+      bookingId: booking.id,
+      bookingNumber: booking.bookingNumber,
+    });
+
+  steps.forEach((step) => {
+    if (step.type === 'issued') {
+      const { booking, device } = step;
+      held.set(normaliseSerialNumber(device.serialNumber), {
+        serialNumber: device.serialNumber,
+        category: device.category,
+        make: device.make,
+        model: device.model,
+        deviceType: device.deviceType,
+        issuedAt: device.recordedAt,
+        bookingId: booking.id,
+        bookingNumber: booking.bookingNumber,
+        delivered: !!statusReachedAt(booking, 'delivered'),
+      });
+      history.push(deviceEvent('issued', booking, device));
+      return;
+    }
+
+    step.devices.forEach((device) => {
+      const key = normaliseSerialNumber(device.serialNumber);
+      const holding = held.get(key);
+      history.push(deviceEvent('collected', step.booking, { ...device, make: device.make ?? holding?.make, model: device.model ?? holding?.model }));
+      if (holding) {
+        held.delete(key);
+      } else {
+        mismatch('not_issued', step.booking, device);
+      }
+    });
+    if (FULL_RETURN_SUB_TYPES.includes(step.booking.jmlSubType || '')) {
+      held.forEach((holding) => {
+        if (holding.delivered && holding.issuedAt <= step.at) mismatch('not_returned', step.booking, holding);
+      });
+    }
+  });
+
+  return {
+    status: employeeStatus(counted),
+    holdings: [...held.values()].sort((a, b) => b.issuedAt.localeCompare(a.issuedAt)),
+    history: history.reverse(),
+    // A device that came back on a later collection is no longer outstanding
+    mismatches: mismatches.filter(
+      (entry) => entry.kind !== 'not_returned' || held.has(normaliseSerialNumber(entry.serialNumber))
+    ),
+  };
+}
+
+function jmlCategoryFor(category: string | null | undefined): JmlAllowedCategoryName {
+  const underlying = getUnderlyingAssetCategoryNameForJml(category || '');
+  if (underlying === 'Laptop') return 'Laptop';
+  return underlying === 'Smart Phones' ? 'Phone' : 'Accessory';
+}
+
+function jmlDeviceTypeFor(device: EmployeeDevice, category: JmlAllowedCategoryName): JmlDeviceType {
+  if (device.deviceType === 'Windows' || device.deviceType === 'Apple' || device.deviceType === 'Android') {
+    return device.deviceType;
+  }
+  if (device.make?.toLowerCase() === 'apple') return 'Apple';
+  return inferDeviceTypeFromJmlCategory(category);
+}
+
+/**
+ * Holdings as the device lines of a leaver or mover form - one line per make and model,
+ * with the serials to collect in the notes
+ */
+export function getJmlDevicesForHoldings(holdings: EmployeeDevice[]): Array<{
+  category: JmlAllowedCategoryName;
+  make: string;
+  model: string;
+  quantity: number;
+  deviceType: JmlDeviceType;
+  notes: string;
+}> {
+  const lines = new Map<string, { category: JmlAllowedCategoryName; make: string; model: string; deviceType: JmlDeviceType; serials: string[] }>();
+  holdings.forEach((device) => {
+    const category = jmlCategoryFor(device.category);
+    const deviceType = jmlDeviceTypeFor(device, category);
+    const key = [category, device.make, device.model, deviceType].join('|');
+    const line = lines.get(key) || { category, make: device.make || '', model: device.model || '', deviceType, serials: [] };
+    line.serials.push(device.serialNumber);
+    lines.set(key, line);
+  });
+  return [...lines.values()].map(({ serials, ...line }) => ({
+    ...line,
+    quantity: serials.length,
+    notes: `Serials: ${serials.join(', ')}`,
+  }));
+}
@@ -0,0 +1,194 @@
+// ERP connector - field catalogue, mapping rules and job numbering
+// Shared by the ERP settings screen (which fields can be mapped, validation) and the
+// backend's sync engine (how a record becomes an ERP payload, when runs are due).
+import type {
+  ErpEntity,
+  ErpFieldMapping,
+  ErpJobNumberSettings,
+  ErpSyncRunStatus,
+  ErpSyncSchedule,
+  ErpSyncTrigger,
+} from '@/types/erp';
+import { getNextTimeOfDay, isValidTime } from './notification-preferences';
+
+export interface ErpFieldInfo {
+  field: string;
+  label: string;
+  required?: boolean; // Records without a value are rejected by the ERP
+}
+
+export interface ErpEntityInfo {
+  entity: ErpEntity;
+  label: string;
+  description: string;
+  fields: ErpFieldInfo[];
+}
+
+export const ERP_ENTITIES: ErpEntityInfo[] = [
+  {
+    entity: 'jobs',
+    label: 'Jobs',
+    description: 'Collection and JML jobs, keyed by ERP job number',
+    fields: [
+      { field: 'erpJobNumber', label: 'Job number', required: true },
+      { field: 'status', label: 'Status', required: true },
+      { field: 'organisationName', label: 'Organisation' },
+      { field: 'siteName', label: 'Site' },
+      { field: 'postcode', label: 'Postcode' },
+      { field: 'scheduledDate', label: 'Scheduled date' },
+      { field: 'completedDate', label: 'Completed date' },
+      { field: 'buybackValue', label: 'Buyback value' },
+      { field: 'co2eSaved', label: 'CO₂e saved' },
+    ],
+  },
+  {
+    entity: 'inventory',
+    label: 'Inventory',
+    description: 'Devices held for redeployment, keyed by serial number',
+    fields: [
+      { field: 'serialNumber', label: 'Serial number', required: true },
+      { field: 'erpInventoryId', label: 'ERP inventory ID' },
+      { field: 'category', label: 'Category' },
+      { field: 'make', label: 'Make' },
+      { field: 'model', label: 'Model' },
+      { field: 'conditionCode', label: 'Condition code' },
+      { field: 'imei', label: 'IMEI' },
+      { field: 'status', label: 'Status' },
+      { field: 'allocatedTo', label: 'Allocated client' },
+    ],
+  },
+  {
+    entity: 'clients',
+    label: 'Clients',
+    description: 'Customer accounts, keyed by name',
+    fields: [
+      { field: 'name', label: 'Name', required: true },
+      { field: 'organisationName', label: 'Organisation' },
+      { field: 'email', label: 'Email' },
+      { field: 'contactName', label: 'Contact name' },
+      { field: 'contactPhone', label: 'Contact phone' },
+      { field: 'status', label: 'Status' },
+    ],
+  },
+];
+
+export const DEFAULT_ERP_FIELD_MAPPINGS: Record<ErpEntity, ErpFieldMapping[]> = {
+  jobs: [
+    { localField: 'erpJobNumber', erpField: 'JobNo' },
+    { localField: 'status', erpField: 'JobStatus' },
+    { localField: 'organisationName', erpField: 'CustomerName' },
+    { localField: 'scheduledDate', erpField: 'ScheduledDate' },
+    { localField: 'completedDate', erpField: 'CompletedDate' },
+  ],
+  inventory: [
+    { localField: 'serialNumber', erpField: 'SerialNo' },
+    { localField: 'erpInventoryId', erpField: 'ItemId' },
+    { localField: 'make', erpField: 'Manufacturer' },
+    { localField: 'model', erpField: 'Model' },
+    { localField: 'conditionCode', erpField: 'Grade' },
+    { localField: 'status', erpField: 'StockStatus' },
+  ],
+  clients: [
+    { localField: 'name', erpField: 'CustomerName' },
+    { localField: 'email', erpField: 'Email' },
+    { localField: 'contactName', erpField: 'ContactName' },
+  ],
+};
+
+export const DEFAULT_ERP_JOB_NUMBERS: ErpJobNumberSettings = {
+  mode: 'manual',
+  prefix: 'JOB-',
+  padding: 6,
+  nextSequence: 1,
+};
+
+export const ERP_SCHEDULE_TIMEZONE = 'Europe/London';
+
+export const erpSyncRunStatusConfig: Record<ErpSyncRunStatus, { label: string; className: string }> = {
+  succeeded: { label: 'Succeeded', className: 'bg-success/10 text-success' },
+  partial: { label: 'Partly failed', className: 'bg-warning/10 text-warning' },
+  failed: { label: 'Failed', className: 'bg-destructive/10 text-destructive' },
+};
+
+export const erpSyncTriggerLabels: Record<ErpSyncTrigger, string> = {
+  manual: 'Manual',
+  scheduled: 'Scheduled',
+  retry: 'Retry',
+};
+
+export function getErpEntityInfo(entity: ErpEntity): ErpEntityInfo {
+  return ERP_ENTITIES.find((info) => info.entity === entity)!;
+}
+
+/**
+ * Job number for a sequence value, e.g. JOB-000123
+ */
+export function formatErpJobNumber(settings: ErpJobNumberSettings, sequence = settings.nextSequence): string {
+  return `${settings.prefix}${String(sequence).padStart(settings.padding, '0')}`;
+}
+
+/**
+ * Problems with a set of field mappings, keyed by entity (empty when valid)
+ */
+export function validateErpMappings(mappings: Record<ErpEntity, ErpFieldMapping[]>): Partial<Record<ErpEntity, string>> {
+  const errors: Partial<Record<ErpEntity, string>> = {};
+  ERP_ENTITIES.forEach(({ entity, label, fields }) => {
+    const entityMappings = mappings[entity] || [];
+    const missing = fields.filter((info) => info.required && !entityMappings.some((mapping) => mapping.localField === info.field));
+    const erpFields = entityMappings.map((mapping) => mapping.erpField.trim());
+    if (missing.length > 0) {
+      errors[entity] = `${label}: map ${missing.map((info) => info.label.toLowerCase()).join(', ')}`;
+    } else if (entityMappings.some((mapping) => !fields.some((info) => info.field === mapping.localField))) {
+      errors[entity] = `${label}: unknown field`;
+    } else if (erpFields.some((field) => !field)) {
+      errors[entity] = `${label}: every mapping needs an ERP field name`;
+    } else if (new Set(erpFields).size !== erpFields.length) {
+      errors[entity] = `${label}: each ERP field can only be mapped once`;
+    }
+  });
+  return errors;
+}
+
+export function isValidErpSchedule(schedule: ErpSyncSchedule): boolean {
+  return schedule.frequency !== 'daily' || isValidTime(schedule.time);
+}
+
+/**
+ * When the next scheduled sync is due after `from` (null for manual-only)
+ */
+export function getNextErpSyncTime(schedule: ErpSyncSchedule, from: Date): Date | null {
+  if (schedule.frequency === 'manual' || schedule.entities.length === 0) return null;
+  if (schedule.frequency === 'hourly') {
+    const next = new Date(from);
+    next.setMinutes(0, 0, 0);
+    next.setHours(next.getHours() + 1);
+    return next;
+  }
+  // A minute on, so a run that has just finished isn't due again straight away
+  return getNextTimeOfDay(schedule.time, ERP_SCHEDULE_TIMEZONE, new Date(from.getTime() + 60_000));
+}
+
+export type ErpPayload = Record<string, string | number | null>;
+
+/**
+ * Map a record to its ERP payload. Lists the mapped required fields the record has no value for.
+ */
+export function buildErpPayload(
+  entity: ErpEntity,
+  record: object,
+  mappings: ErpFieldMapping[]
+): { payload: ErpPayload; missing: ErpFieldInfo[] } {
+  const values = record as Record<string, unknown>;
+  const { fields } = getErpEntityInfo(entity);
+  const payload: ErpPayload = {};
+  const missing: ErpFieldInfo[] = [];
+
+  mappings.forEach((mapping) => {
+    const value = values[mapping.localField];
+    const isEmpty = value === undefined || value === null || value === '';
+    const info = fields.find((candidate) => candidate.field === mapping.localField);
+    if (isEmpty && info?.required) missing.push(info);
+    payload[mapping.erpField] = isEmpty ? null : typeof value === 'number' ? value : String(value);
+  });
+  return { payload, missing };
+}
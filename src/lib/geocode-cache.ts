@@ -0,0 +1,161 @@
+// Geocoding result cache
+// An in-memory LRU in front of an IndexedDB store, so repeated lookups (the same
+// postcode typed on several forms, address autocomplete after a reload) never
+// reach the geocoding provider again. Entries expire after CACHE_TTL_MS.
+
+const DB_NAME = 'reuse-geocode-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+const MEMORY_CACHE_SIZE = 500;
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+interface CacheRecord<T> {
+  key: string;
+  value: T;
+  storedAt: number;
+}
+
+/**
+ * Least-recently-used map with a fixed capacity. Map iteration order is
+ * insertion order, so re-inserting on read keeps the oldest entry first.
+ */
+export class LruCache<T> {
+  private entries = new Map<string, T>();
+
+  constructor(private readonly capacity: number) {}
+
+  get(key: string): T | undefined {
+    if (!this.entries.has(key)) return undefined;
+    const value = this.entries.get(key) as T;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  set(key: string, value: T) {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.capacity) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
+
+const memoryCache = new LruCache<CacheRecord<unknown>>(MEMORY_CACHE_SIZE);
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('[geocode-cache] IndexedDB unavailable, caching in memory only:', request.error);
+        resolve(null);
+      };
+    } catch (error) {
+      console.warn('[geocode-cache] IndexedDB unavailable, caching in memory only:', error);
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function isFresh(record: CacheRecord<unknown>): boolean {
+  return Date.now() - record.storedAt < CACHE_TTL_MS;
+}
+
+/**
+ * Look up a cached value. Checks memory first, then IndexedDB.
+ * Cache failures are treated as misses.
+ */
+export async function getCachedGeocode<T>(key: string): Promise<T | undefined> {
+  const cached = memoryCache.get(key);
+  if (cached) {
+    if (isFresh(cached)) return cached.value as T;
+    memoryCache.delete(key);
+  }
+
+  try {
+    const db = await openDatabase();
+    if (!db) return undefined;
+
+    const record = await promisifyRequest<CacheRecord<T> | undefined>(
+      db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key)
+    );
+    if (!record) return undefined;
+
+    if (!isFresh(record)) {
+      db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(key);
+      return undefined;
+    }
+
+    memoryCache.set(key, record);
+    return record.value;
+  } catch (error) {
+    console.warn('[geocode-cache] Read failed:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Store a value in memory and IndexedDB
+ */
+export async function setCachedGeocode<T>(key: string, value: T): Promise<void> {
+  const record: CacheRecord<T> = { key, value, storedAt: Date.now() };
+  memoryCache.set(key, record);
+
+  try {
+    const db = await openDatabase();
+    if (!db) return;
+    await promisifyRequest(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(record));
+  } catch (error) {
+    console.warn('[geocode-cache] Write failed:', error);
+  }
+}
+
+/**
+ * Drop every cached result (e.g. after switching geocoding provider)
+ */
+export async function clearGeocodeCache(): Promise<void> {
+  memoryCache.clear();
+
+  try {
+    const db = await openDatabase();
+    if (!db) return;
+    await promisifyRequest(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+  } catch (error) {
+    console.warn('[geocode-cache] Clear failed:', error);
+  }
+}
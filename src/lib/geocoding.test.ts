@@ -0,0 +1,108 @@
+// Geocoding through the fixture provider - search, reverse and caching
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFixtureProvider, reverseGeocode, searchPlaces, setGeocodingProvider, type RawGeocodeResult } from './geocoding';
+
+const fixtures: RawGeocodeResult[] = [
+  {
+    lat: 51.5014,
+    lng: -0.1419,
+    displayName: "Buckingham Palace, The Mall, St James's, London, Greater London, England, SW1A 1AA, United Kingdom",
+    components: {
+      houseName: 'Buckingham Palace',
+      road: 'The Mall',
+      suburb: "St James's",
+      city: 'London',
+      county: 'Greater London',
+      postcode: 'SW1A 1AA',
+      country: 'United Kingdom',
+      countryCode: 'GB',
+    },
+  },
+  {
+    lat: 53.4808,
+    lng: -2.2426,
+    displayName: '100 Deansgate, City Centre, Manchester, Greater Manchester, England, M3 2GP, United Kingdom',
+    components: {
+      houseNumber: '100',
+      road: 'Deansgate',
+      suburb: 'City Centre',
+      city: 'Manchester',
+      county: 'Greater Manchester',
+      postcode: 'M3 2GP',
+      country: 'United Kingdom',
+      countryCode: 'GB',
+    },
+  },
+  {
+    lat: 52.52,
+    lng: 13.405,
+    displayName: 'Lindenstraße 12, Kreuzberg, Berlin, 10969, Deutschland',
+    components: {
+      houseNumber: '12',
+      road: 'Lindenstraße',
+      suburb: 'Kreuzberg',
+      city: 'Berlin',
+      postcode: '10969',
+      country: 'Deutschland',
+      countryCode: 'DE',
+    },
+  },
+];
+
+describe('fixture geocoding provider', () => {
+  const provider = createFixtureProvider(fixtures);
+
+  beforeEach(() => {
+    setGeocodingProvider(provider);
+  });
+
+  describe('search', () => {
+    it('matches postcodes whatever their spacing or case', async () => {
+      const results = await searchPlaces('sw1a1aa');
+      expect(results).toHaveLength(1);
+      expect(results[0].address).toEqual({
+        street: 'Buckingham Palace, The Mall',
+        city: 'London',
+        county: 'Greater London',
+        postcode: 'SW1A 1AA',
+        country: 'United Kingdom',
+        countryCode: 'GB',
+      });
+    });
+
+    it('matches part of the display name and normalises the address', async () => {
+      const [result] = await searchPlaces('Lindenstraße 12');
+      expect(result.address.street).toBe('Lindenstraße 12');
+      expect(result.address.countryCode).toBe('DE');
+    });
+
+    it('respects the limit', async () => {
+      expect(await searchPlaces('united kingdom', { limit: 1 })).toHaveLength(1);
+    });
+
+    it('returns nothing for unknown places or an empty query', async () => {
+      expect(await searchPlaces('Atlantis')).toEqual([]);
+      expect(await searchPlaces(' , ')).toEqual([]);
+    });
+
+    it('answers a repeated search from the cache', async () => {
+      const search = vi.spyOn(provider, 'search');
+      await searchPlaces('Deansgate, Manchester');
+      await searchPlaces('  deansgate manchester ');
+      expect(search).toHaveBeenCalledTimes(1);
+      search.mockRestore();
+    });
+  });
+
+  describe('reverse', () => {
+    it('returns the nearest fixture at the clicked point', async () => {
+      const result = await reverseGeocode({ lat: 53.481, lng: -2.243 });
+      expect(result).toMatchObject({ lat: 53.481, lng: -2.243 });
+      expect(result?.address.street).toBe('100 Deansgate');
+    });
+
+    it('returns null when no fixture is close enough', async () => {
+      expect(await reverseGeocode({ lat: 48.8566, lng: 2.3522 })).toBeNull();
+    });
+  });
+});
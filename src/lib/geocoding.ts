@@ -0,0 +1,445 @@
+// Geocoding: address search, postcode lookup and reverse geocoding
+// Requests go through a pluggable provider (Nominatim by default, self-hosted
+// Photon or Pelias, or offline fixtures in mock mode). Every lookup is cached
+// (lib/geocode-cache.ts) and network providers are throttled to one request per
+// second, as the public Nominatim usage policy requires.
+import { abortable, createTimeoutSignal, sleep } from './abort';
+import { normaliseAddress, normaliseQuery, type AddressComponents, type NormalisedAddress } from './address-normaliser';
+import { GEOCODER, GEOCODER_API_KEY, GEOCODER_CONTACT_EMAIL, GEOCODER_URL, USE_MOCKS } from './config';
+import { getCachedGeocode, setCachedGeocode } from './geocode-cache';
+import { calculateStraightLineDistance } from './routing';
+
+/**
+ * A provider's answer before address normalisation
+ */
+export interface RawGeocodeResult {
+  lat: number;
+  lng: number;
+  displayName: string;
+  components: AddressComponents;
+}
+
+export interface GeocodeResult extends RawGeocodeResult {
+  address: NormalisedAddress;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  /** Minimum gap between requests (ms) - 0 for providers without a rate limit */
+  minIntervalMs: number;
+  search: (query: string, options: { limit: number; signal?: AbortSignal }) => Promise<RawGeocodeResult[]>;
+  reverse: (point: { lat: number; lng: number }, options: { signal?: AbortSignal }) => Promise<RawGeocodeResult | null>;
+}
+
+const GEOCODE_TIMEOUT_MS = 8000;
+
+// Public Nominatim and Photon allow at most one request per second
+const PUBLIC_MIN_INTERVAL_MS = 1000;
+
+async function fetchJson<T>(url: string, signal?: AbortSignal): Promise<T> {
+  const timeout = createTimeoutSignal(GEOCODE_TIMEOUT_MS, signal);
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: {
+      'Accept': 'application/json',
+    },
+    signal: timeout.signal,
+  }).finally(timeout.cleanup);
+
+  if (!response.ok) {
+    throw new Error(
+      response.status === 429 ? 'Geocoding rate limit exceeded' : `Geocoding request failed (${response.status})`
+    );
+  }
+  return response.json();
+}
+
+function joinParts(parts: Array<string | undefined>): string {
+  return parts.filter(Boolean).join(', ');
+}
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+  address?: Record<string, string | undefined>;
+  extratags?: { house_name?: string } | null;
+  namedetails?: { name?: string } | null;
+}
+
+function fromNominatim(place: NominatimPlace): RawGeocodeResult {
+  const address = place.address || {};
+  return {
+    lat: parseFloat(place.lat),
+    lng: parseFloat(place.lon),
+    displayName: place.display_name,
+    components: {
+      // Nominatim can store house names in extratags, namedetails or the address itself
+      houseName: place.extratags?.house_name || place.namedetails?.name || address.house_name || address.name,
+      houseNumber: address.house_number,
+      road: address.road,
+      suburb: address.suburb,
+      neighbourhood: address.neighbourhood,
+      locality: address.locality,
+      postTown: address.post_town,
+      city: address.city,
+      town: address.town,
+      village: address.village,
+      municipality: address.municipality,
+      county: address.county,
+      state: address.state,
+      region: address.region,
+      province: address.province,
+      postcode: address.postcode,
+      country: address.country,
+      countryCode: address.country_code?.toUpperCase(),
+    },
+  };
+}
+
+/**
+ * OpenStreetMap Nominatim (public instance by default)
+ */
+export function createNominatimProvider(
+  baseUrl = 'https://nominatim.openstreetmap.org',
+  options: { email?: string; minIntervalMs?: number } = {}
+): GeocodingProvider {
+  const params = `format=json&addressdetails=1&extratags=1&namedetails=1${options.email ? `&email=${encodeURIComponent(options.email)}` : ''}`;
+  return {
+    name: 'Nominatim',
+    minIntervalMs: options.minIntervalMs ?? PUBLIC_MIN_INTERVAL_MS,
+    search: async (query, { limit, signal }) => {
+      const places = await fetchJson<NominatimPlace[]>(
+        `${baseUrl}/search?${params}&q=${encodeURIComponent(query)}&limit=${limit}`,
+        signal
+      );
+      return places.map(fromNominatim);
+    },
+    reverse: async ({ lat, lng }, { signal }) => {
+      const place = await fetchJson<NominatimPlace & { error?: string }>(
+        `${baseUrl}/reverse?${params}&lat=${lat}&lon=${lng}&zoom=18`,
+        signal
+      );
+      return place.error ? null : fromNominatim(place);
+    },
+  };
+}
+
+interface GeoJsonFeature<P> {
+  geometry: { coordinates: [number, number] };
+  properties: P;
+}
+
+interface PhotonProperties {
+  name?: string;
+  type?: string;
+  housenumber?: string;
+  street?: string;
+  district?: string;
+  locality?: string;
+  city?: string;
+  county?: string;
+  state?: string;
+  postcode?: string;
+  country?: string;
+  countrycode?: string;
+}
+
+function fromPhoton({ geometry, properties }: GeoJsonFeature<PhotonProperties>): RawGeocodeResult {
+  // Named houses and venues carry their name; for roads and places the name is the road or place itself
+  const houseName = properties.type === 'house' ? properties.name : undefined;
+  return {
+    lat: geometry.coordinates[1],
+    lng: geometry.coordinates[0],
+    displayName: joinParts([
+      properties.name !== properties.street ? properties.name : undefined,
+      [properties.housenumber, properties.street].filter(Boolean).join(' ') || undefined,
+      properties.city,
+      properties.postcode,
+      properties.country,
+    ]),
+    components: {
+      houseName,
+      houseNumber: properties.housenumber,
+      road: properties.street || (properties.type === 'street' ? properties.name : undefined),
+      suburb: properties.district,
+      locality: properties.locality,
+      city: properties.city,
+      county: properties.county,
+      state: properties.state,
+      postcode: properties.postcode,
+      country: properties.country,
+      countryCode: properties.countrycode?.toUpperCase(),
+    },
+  };
+}
+
+/**
+ * Photon (komoot) - public instance by default, or self-hosted
+ */
+export function createPhotonProvider(
+  baseUrl = 'https://photon.komoot.io',
+  options: { minIntervalMs?: number } = {}
+): GeocodingProvider {
+  return {
+    name: 'Photon',
+    minIntervalMs: options.minIntervalMs ?? PUBLIC_MIN_INTERVAL_MS,
+    search: async (query, { limit, signal }) => {
+      const data = await fetchJson<{ features: GeoJsonFeature<PhotonProperties>[] }>(
+        `${baseUrl}/api/?q=${encodeURIComponent(query)}&limit=${limit}`,
+        signal
+      );
+      return data.features.map(fromPhoton);
+    },
+    reverse: async ({ lat, lng }, { signal }) => {
+      const data = await fetchJson<{ features: GeoJsonFeature<PhotonProperties>[] }>(
+        `${baseUrl}/reverse?lat=${lat}&lon=${lng}&limit=1`,
+        signal
+      );
+      return data.features[0] ? fromPhoton(data.features[0]) : null;
+    },
+  };
+}
+
+interface PeliasProperties {
+  label?: string;
+  name?: string;
+  layer?: string;
+  housenumber?: string;
+  street?: string;
+  neighbourhood?: string;
+  borough?: string;
+  locality?: string;
+  localadmin?: string;
+  county?: string;
+  region?: string;
+  macroregion?: string;
+  postalcode?: string;
+  country?: string;
+  country_code?: string;
+}
+
+function fromPelias({ geometry, properties }: GeoJsonFeature<PeliasProperties>): RawGeocodeResult {
+  return {
+    lat: geometry.coordinates[1],
+    lng: geometry.coordinates[0],
+    displayName: properties.label || joinParts([properties.name, properties.locality, properties.country]),
+    components: {
+      houseName: properties.layer === 'venue' ? properties.name : undefined,
+      houseNumber: properties.housenumber,
+      road: properties.street,
+      suburb: properties.borough,
+      neighbourhood: properties.neighbourhood,
+      city: properties.locality,
+      municipality: properties.localadmin,
+      county: properties.county,
+      state: properties.macroregion,
+      region: properties.region,
+      postcode: properties.postalcode,
+      country: properties.country,
+      countryCode: properties.country_code?.toUpperCase(),
+    },
+  };
+}
+
+/**
+ * Pelias - self-hosted or a hosted instance with an API key
+ */
+export function createPeliasProvider(
+  baseUrl: string,
+  options: { apiKey?: string; minIntervalMs?: number } = {}
+): GeocodingProvider {
+  const key = options.apiKey ? `&api_key=${encodeURIComponent(options.apiKey)}` : '';
+  return {
+    name: 'Pelias',
+    minIntervalMs: options.minIntervalMs ?? PUBLIC_MIN_INTERVAL_MS,
+    search: async (query, { limit, signal }) => {
+      const data = await fetchJson<{ features: GeoJsonFeature<PeliasProperties>[] }>(
+        `${baseUrl}/v1/search?text=${encodeURIComponent(query)}&size=${limit}${key}`,
+        signal
+      );
+      return data.features.map(fromPelias);
+    },
+    reverse: async ({ lat, lng }, { signal }) => {
+      const data = await fetchJson<{ features: GeoJsonFeature<PeliasProperties>[] }>(
+        `${baseUrl}/v1/reverse?point.lat=${lat}&point.lon=${lng}&size=1${key}`,
+        signal
+      );
+      return data.features[0] ? fromPelias(data.features[0]) : null;
+    },
+  };
+}
+
+/**
+ * Answers from a fixed list of places - no network access. Search matches
+ * fixtures whose display name or postcode contains the query; reverse returns
+ * the nearest fixture within maxReverseDistanceKm.
+ */
+export function createFixtureProvider(
+  fixtures: RawGeocodeResult[] | (() => Promise<RawGeocodeResult[]>),
+  options: { maxReverseDistanceKm?: number } = {}
+): GeocodingProvider {
+  const { maxReverseDistanceKm = 5 } = options;
+  const load = async () => (typeof fixtures === 'function' ? fixtures() : fixtures);
+  const compact = (text: string) => normaliseQuery(text).replace(/\s/g, '');
+
+  return {
+    name: 'Fixtures',
+    minIntervalMs: 0,
+    search: async (query, { limit }) => {
+      const needle = compact(query);
+      return (await load())
+        .filter((fixture) =>
+          compact(fixture.displayName).includes(needle) ||
+          (!!fixture.components.postcode && needle.includes(compact(fixture.components.postcode)))
+        )
+        .slice(0, limit);
+    },
+    reverse: async ({ lat, lng }) => {
+      const nearest = (await load())
+        .map((fixture) => ({ fixture, distanceKm: calculateStraightLineDistance(lat, lng, fixture.lat, fixture.lng) }))
+        .sort((a, b) => a.distanceKm - b.distanceKm)[0];
+      return nearest && nearest.distanceKm <= maxReverseDistanceKm ? { ...nearest.fixture, lat, lng } : null;
+    },
+  };
+}
+
+function createConfiguredProvider(): GeocodingProvider {
+  if (USE_MOCKS) {
+    return createFixtureProvider(() => import('@/mocks/geocode-fixtures').then((module) => module.geocodeFixtures));
+  }
+  switch (GEOCODER) {
+    case 'photon':
+      return createPhotonProvider(GEOCODER_URL || undefined);
+    case 'pelias':
+      if (GEOCODER_URL) {
+        return createPeliasProvider(GEOCODER_URL, { apiKey: GEOCODER_API_KEY });
+      }
+      console.warn('VITE_GEOCODER_URL is required for Pelias, using Nominatim');
+      return createNominatimProvider(undefined, { email: GEOCODER_CONTACT_EMAIL });
+    default:
+      return createNominatimProvider(GEOCODER_URL || undefined, { email: GEOCODER_CONTACT_EMAIL });
+  }
+}
+
+let geocodingProvider: GeocodingProvider = createConfiguredProvider();
+
+/**
+ * Replace the geocoding provider (e.g. fixtures in tests)
+ */
+export function setGeocodingProvider(provider: GeocodingProvider) {
+  geocodingProvider = provider;
+}
+
+export function getGeocodingProvider(): GeocodingProvider {
+  return geocodingProvider;
+}
+
+// Requests queue here so at most one reaches the provider per minIntervalMs.
+// Aborted requests leave the queue without using a slot.
+let requestQueue: Promise<void> = Promise.resolve();
+let lastRequestAt = 0;
+
+function waitForRequestSlot(minIntervalMs: number, signal?: AbortSignal): Promise<void> {
+  const slot = requestQueue.then(async () => {
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    const wait = lastRequestAt + minIntervalMs - Date.now();
+    if (wait > 0) await sleep(wait, signal);
+    lastRequestAt = Date.now();
+  });
+  requestQueue = slot.catch(() => undefined);
+  return slot;
+}
+
+// Identical lookups already in flight share one request. It runs on its own signal, so one
+// caller aborting (e.g. a stale keystroke) doesn't fail the others - each stops waiting when
+// its own signal aborts, and the request is only cancelled once nobody is waiting for it.
+interface SharedLookup {
+  request: Promise<unknown>;
+  controller: AbortController;
+  waiting: number;
+}
+
+const inFlight = new Map<string, SharedLookup>();
+
+async function cachedLookup<T>(
+  key: string,
+  signal: AbortSignal | undefined,
+  lookup: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const cached = await getCachedGeocode<T>(key);
+  if (cached !== undefined) return cached;
+
+  let shared = inFlight.get(key);
+  if (!shared) {
+    const controller = new AbortController();
+    const entry: SharedLookup = {
+      controller,
+      waiting: 0,
+      request: (async () => {
+        await waitForRequestSlot(geocodingProvider.minIntervalMs, controller.signal);
+        const value = await lookup(controller.signal);
+        await setCachedGeocode(key, value);
+        return value;
+      })().finally(() => {
+        if (inFlight.get(key) === entry) inFlight.delete(key);
+      }),
+    };
+    inFlight.set(key, entry);
+    shared = entry;
+  }
+
+  shared.waiting++;
+  try {
+    return await abortable(shared.request as Promise<T>, signal);
+  } finally {
+    shared.waiting--;
+    if (shared.waiting === 0 && signal?.aborted) {
+      shared.controller.abort();
+      if (inFlight.get(key) === shared) inFlight.delete(key);
+    }
+  }
+}
+
+function withAddress(result: RawGeocodeResult): GeocodeResult {
+  return { ...result, address: normaliseAddress(result.components, result.displayName) };
+}
+
+/**
+ * Search for places matching a free-text address or postcode
+ */
+export async function searchPlaces(
+  query: string,
+  options: { limit?: number; signal?: AbortSignal } = {}
+): Promise<GeocodeResult[]> {
+  const { limit = 5, signal } = options;
+  const normalised = normaliseQuery(query);
+  if (!normalised) return [];
+
+  const provider = geocodingProvider;
+  // Cached with the limit used, so a smaller search can reuse a larger one
+  const searchKey = (size: number) => `${provider.name}:search:${size}:${normalised}`;
+  for (const size of [5, 40].filter((size) => size > limit)) {
+    const cached = await getCachedGeocode<RawGeocodeResult[]>(searchKey(size));
+    if (cached) return cached.slice(0, limit).map(withAddress);
+  }
+
+  const results = await cachedLookup(searchKey(limit), signal, (lookupSignal) =>
+    provider.search(query.trim(), { limit, signal: lookupSignal })
+  );
+  return results.map(withAddress);
+}
+
+/**
+ * Find the address at a point (e.g. a map click)
+ */
+export async function reverseGeocode(
+  point: { lat: number; lng: number },
+  options: { signal?: AbortSignal } = {}
+): Promise<GeocodeResult | null> {
+  const provider = geocodingProvider;
+  // ~1 m precision - clicks on the same spot share a cache entry
+  const key = `${provider.name}:reverse:${point.lat.toFixed(5)},${point.lng.toFixed(5)}`;
+  const result = await cachedLookup(key, options.signal, (signal) => provider.reverse(point, { signal }));
+  return result ? withAddress(result) : null;
+}
@@ -0,0 +1,87 @@
+// Grading - grade and condition code options, hotkeys and serial checks
+// The grading workstation keeps focus in the scan field (keyboard-wedge scanners type
+// into it and press Enter), so hotkeys use Alt and are matched on KeyboardEvent.code:
+// Alt+letter changes what e.key reports on macOS.
+import type { GradingRecord } from '@/mocks/mock-entities';
+import type { Grade } from '@/types/grading';
+import { normaliseSerialNumber } from '@/lib/blancco';
+
+export const gradeOptions: { value: Grade; label: string; color: string; hotkey: string }[] = [
+  { value: 'A', label: 'Grade A', color: 'bg-success/10 text-success', hotkey: 'KeyA' },
+  { value: 'B', label: 'Grade B', color: 'bg-info/10 text-info', hotkey: 'KeyB' },
+  { value: 'C', label: 'Grade C', color: 'bg-warning/10 text-warning', hotkey: 'KeyC' },
+  { value: 'D', label: 'Grade D', color: 'bg-destructive/10 text-destructive', hotkey: 'KeyD' },
+  { value: 'Q', label: 'Grade Q', color: 'bg-destructive/10 text-destructive', hotkey: 'KeyQ' },
+];
+
+// Grades that go into inventory and so need a serial number (and IMEI where the category has one)
+export const INVENTORY_GRADES: Grade[] = ['A', 'B', 'C'];
+
+// Defects for the grading workstation, toggled on Alt+1 to Alt+8. They're recorded alongside
+// the condition code, never in place of it - inventory keys on the make+grade code.
+export const NO_FAULTS_DEFECT = 'NF';
+
+export const defectOptions: { code: string; label: string; hotkey: string }[] = [
+  { code: 'NF', label: 'No faults', hotkey: 'Digit1' },
+  { code: 'SC', label: 'Scratched', hotkey: 'Digit2' },
+  { code: 'DN', label: 'Dented', hotkey: 'Digit3' },
+  { code: 'SD', label: 'Screen damage', hotkey: 'Digit4' },
+  { code: 'KB', label: 'Keyboard/trackpad fault', hotkey: 'Digit5' },
+  { code: 'BT', label: 'Battery fault', hotkey: 'Digit6' },
+  { code: 'MP', label: 'Missing parts', hotkey: 'Digit7' },
+  { code: 'NP', label: 'No power', hotkey: 'Digit8' },
+];
+
+export function getHotkeyLabel(code: string): string {
+  return `Alt+${code.replace(/^(Key|Digit)/, '')}`;
+}
+
+/**
+ * Toggle a defect on a device. "No faults" and actual faults rule each other out.
+ */
+export function toggleDefect(defects: string[], code: string): string[] {
+  if (defects.includes(code)) return defects.filter((defect) => defect !== code);
+  if (code === NO_FAULTS_DEFECT) return [code];
+  return [...defects.filter((defect) => defect !== NO_FAULTS_DEFECT), code];
+}
+
+/**
+ * Defect codes as their labels, e.g. ['SC', 'BT'] -> 'Scratched, Battery fault'
+ */
+export function describeDefects(defects: string[] | undefined): string {
+  return (defects || [])
+    .map((code) => defectOptions.find((option) => option.code === code)?.label || code)
+    .join(', ');
+}
+
+export function isInventoryGrade(grade: Grade): boolean {
+  return INVENTORY_GRADES.includes(grade);
+}
+
+/**
+ * Condition code from the device make and grade: first 3 letters of the make + grade
+ * (DELL + A -> DELA). Empty when the make isn't known.
+ */
+export function buildConditionCode(make: string | undefined, grade: string): string {
+  const g = (grade || '').trim().toUpperCase();
+  const prefix = (make || '').replace(/[^a-zA-Z]/g, '').toUpperCase().slice(0, 3);
+  if (!g || !prefix) return '';
+  return `${prefix}${g.slice(0, 1)}`;
+}
+
+export function looksLikeImei(value: string): boolean {
+  return /^\d{15}$/.test(value);
+}
+
+/**
+ * Serial numbers and IMEIs already graded on a booking, normalised for comparison
+ */
+export function getGradedIdentifiers(records: GradingRecord[]): Set<string> {
+  const identifiers = new Set<string>();
+  records.forEach((record) => {
+    [...(record.serialNumbers || []), ...(record.imeiNumbers || [])].forEach((value) => {
+      if (value) identifiers.add(normaliseSerialNumber(value));
+    });
+  });
+  return identifiers;
+}
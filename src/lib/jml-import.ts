@@ -0,0 +1,619 @@
+// Bulk JML import - reading HR spreadsheets and HRIS exports into booking rows
+// One row per person: the action (joiner, mover or leaver), their details, the address the
+// booking runs to and how many laptops, phones and accessories are involved. Rows are checked
+// with the same rules as the single-booking JML forms, both here and again by the backend.
+import { differenceInBusinessDays, isValid, parseISO, startOfDay } from 'date-fns';
+import { isValidEuropeanCountry, validateEuropeanPostcode } from '@/lib/european-validation';
+import {
+  JML_ALLOWED_CATEGORY_NAMES,
+  getDeviceTypeOptionsForJmlCategory,
+  getUnderlyingAssetCategoryNameForJml,
+  inferDeviceTypeFromJmlCategory,
+  isAccessoriesCategory,
+  type JmlAllowedCategoryName,
+  type JmlDeviceType,
+} from '@/lib/jml-assets';
+import type { InventoryItem } from '@/services/inventory.service';
+import type { LeaverRequest, MoverRequest, NewStarterRequest } from '@/services/jml-booking.service';
+import type {
+  JmlImportAction,
+  JmlImportAddress,
+  JmlImportDevice,
+  JmlImportRow,
+  JmlImportRowErrors,
+  JmlImportSource,
+  JmlInventoryCoverage,
+} from '@/types/jml-import';
+
+type CellValue = string | number | boolean | Date | null | undefined;
+
+export const JML_IMPORT_FILE_EXTENSIONS = ['.csv', '.xlsx', '.json'];
+
+export const JML_IMPORT_MAX_ROWS = 500;
+
+// Same notice the New Starter form asks for
+export const NEW_STARTER_MIN_NOTICE_DAYS = 5;
+
+export const jmlImportActionConfig: Record<JmlImportAction, { label: string; className: string }> = {
+  new_starter: { label: 'Joiner', className: 'bg-success/10 text-success' },
+  mover: { label: 'Mover', className: 'bg-primary/10 text-primary' },
+  leaver: { label: 'Leaver', className: 'bg-warning/10 text-warning' },
+};
+
+const ACTION_ALIASES: Record<JmlImportAction, string[]> = {
+  new_starter: ['joiner', 'new starter', 'new_starter', 'starter', 'new hire', 'hire', 'onboard', 'onboarding'],
+  mover: ['mover', 'move', 'transfer', 'relocation'],
+  leaver: ['leaver', 'leave', 'termination', 'exit', 'offboard', 'offboarding'],
+};
+
+type JmlImportColumn =
+  | 'action'
+  | 'employeeName'
+  | 'email'
+  | 'phone'
+  | 'date'
+  | 'siteName'
+  | 'address'
+  | 'postcode'
+  | 'country'
+  | 'currentSiteName'
+  | 'currentAddress'
+  | 'currentPostcode'
+  | 'currentCountry'
+  | 'laptopQuantity'
+  | 'laptopMake'
+  | 'laptopModel'
+  | 'laptopType'
+  | 'phoneQuantity'
+  | 'phoneMake'
+  | 'phoneModel'
+  | 'phoneType'
+  | 'accessoryQuantity';
+
+// Header names we accept for each column, after normalising to snake_case. The first is
+// the one the template uses.
+const COLUMN_ALIASES: Record<JmlImportColumn, string[]> = {
+  action: ['action', 'type', 'event', 'jml_type', 'change_type'],
+  employeeName: ['employee_name', 'name', 'full_name', 'employee'],
+  email: ['email', 'work_email', 'personal_email', 'email_address'],
+  phone: ['phone', 'mobile', 'phone_number', 'telephone'],
+  date: ['date', 'effective_date', 'start_date', 'leaving_date', 'move_date'],
+  siteName: ['site_name', 'location_name', 'site'],
+  address: ['address', 'street_address', 'address_line_1'],
+  postcode: ['postcode', 'post_code', 'postal_code', 'zip'],
+  country: ['country'],
+  currentSiteName: ['current_site_name', 'previous_site_name'],
+  currentAddress: ['current_address', 'previous_address'],
+  currentPostcode: ['current_postcode', 'previous_postcode'],
+  currentCountry: ['current_country', 'previous_country'],
+  laptopQuantity: ['laptop_quantity', 'laptop_qty', 'laptops'],
+  laptopMake: ['laptop_make'],
+  laptopModel: ['laptop_model'],
+  laptopType: ['laptop_type', 'laptop_os'],
+  phoneQuantity: ['phone_quantity', 'phone_qty', 'phones'],
+  phoneMake: ['phone_make'],
+  phoneModel: ['phone_model'],
+  phoneType: ['phone_type', 'phone_os'],
+  accessoryQuantity: ['accessory_quantity', 'accessory_qty', 'accessories'],
+};
+
+const TEMPLATE_ROWS = [
+  [
+    'joiner', 'Jane Smith', 'jane.smith@example.com', '07700 900123', '', 'Jane Smith (home)',
+    '1 High Street, London', 'SW1A 1AA', 'United Kingdom', '', '', '', '',
+    '1', 'Dell', 'Latitude 5440', 'Windows', '1', 'Apple', 'iPhone 15', 'Apple', '2',
+  ],
+  [
+    'mover', 'Tom Jones', 'tom.jones@example.com', '07700 900456', '', 'Manchester office',
+    '10 Deansgate, Manchester', 'M3 4LQ', 'United Kingdom', 'London office', '1 High Street, London', 'SW1A 1AA',
+    'United Kingdom', '1', 'HP', 'EliteBook 840', 'Windows', '', '', '', '', '',
+  ],
+  [
+    'leaver', 'Ana García', 'ana.garcia@example.com', '+34 600 123 456', '', 'Ana García (home)',
+    'Calle Mayor 1, Madrid', '28013', 'Spain', '', '', '', '',
+    '1', 'Apple', 'MacBook Pro 14', 'Apple', '1', 'Samsung', 'Galaxy S23', 'Android', '',
+  ],
+];
+
+/**
+ * A CSV with the accepted columns and one example of each action, for HR teams to fill in
+ */
+export function buildJmlImportTemplate(): string {
+  const header = (Object.keys(COLUMN_ALIASES) as JmlImportColumn[]).map((column) => COLUMN_ALIASES[column][0]);
+  const date = new Date();
+  date.setDate(date.getDate() + 14);
+  const exampleDate = date.toISOString().slice(0, 10);
+  const rows = TEMPLATE_ROWS.map((row) => row.map((cell, index) => (index === 4 ? exampleDate : cell)));
+  return [header, ...rows]
+    .map((row) => row.map((cell) => (/[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(','))
+    .join('\n');
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const content = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function normaliseHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+function cellToString(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return isValid(value) ? value.toISOString().slice(0, 10) : '';
+  return String(value).trim();
+}
+
+/**
+ * YYYY-MM-DD from ISO dates, DD/MM/YYYY (as UK HR systems export them) or timestamps.
+ * Anything else is returned as written so validation can point at it.
+ */
+export function normaliseImportDate(value: string): string {
+  const trimmed = value.trim();
+  const ukDate = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (ukDate) {
+    const [, day, month, year] = ukDate;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+  const isoDate = trimmed.match(/^(\d{4}-\d{2}-\d{2})(T.*)?$/);
+  return isoDate ? isoDate[1] : trimmed;
+}
+
+export function parseJmlImportAction(value: string): JmlImportAction | null {
+  const normalised = value.trim().toLowerCase().replace(/[_-]+/g, ' ');
+  for (const [action, aliases] of Object.entries(ACTION_ALIASES) as [JmlImportAction, string[]][]) {
+    if (aliases.some((alias) => alias.replace(/_/g, ' ') === normalised)) return action;
+  }
+  return null;
+}
+
+/**
+ * Windows, Apple or Android from however the file spells it ("macOS", "iOS", "PC"...).
+ * Blank falls back to the category's default, like the JML forms.
+ */
+function parseDeviceType(value: string, category: JmlAllowedCategoryName): string {
+  const normalised = value.trim().toLowerCase();
+  if (!normalised) return inferDeviceTypeFromJmlCategory(category);
+  if (['windows', 'win', 'pc'].includes(normalised)) return 'Windows';
+  if (['apple', 'mac', 'macos', 'ios', 'iphone', 'macbook'].includes(normalised)) return 'Apple';
+  if (normalised === 'android') return 'Android';
+  return value.trim();
+}
+
+function parseQuantity(value: string): number {
+  if (!value.trim()) return 0;
+  const quantity = Number(value);
+  return Number.isFinite(quantity) ? quantity : NaN;
+}
+
+function device(category: JmlAllowedCategoryName, quantity: string, make = '', model = '', deviceType = ''): JmlImportDevice | null {
+  const parsed = parseQuantity(quantity);
+  if (parsed === 0) return null;
+  return {
+    category,
+    make: make.trim(),
+    model: model.trim(),
+    quantity: parsed,
+    deviceType: isAccessoriesCategory(category) ? inferDeviceTypeFromJmlCategory(category) : parseDeviceType(deviceType, category),
+  };
+}
+
+function address(siteName: string, street: string, postcode: string, country: string, fallbackName: string): JmlImportAddress {
+  return {
+    siteName: siteName.trim() || fallbackName,
+    address: street.trim(),
+    postcode: postcode.trim().toUpperCase(),
+    country: country.trim(),
+  };
+}
+
+/**
+ * Spreadsheet rows (first row is the header) to import rows. Blank lines are skipped;
+ * row numbers are the line in the file so errors can be found in the original.
+ */
+export function tableToJmlImportRows(table: CellValue[][]): JmlImportRow[] {
+  const [headerRow, ...dataRows] = table;
+  if (!headerRow) throw new Error('The file is empty');
+
+  const headers = headerRow.map((cell) => normaliseHeader(cellToString(cell)));
+  const columnIndex = {} as Record<JmlImportColumn, number>;
+  (Object.keys(COLUMN_ALIASES) as JmlImportColumn[]).forEach((column) => {
+    columnIndex[column] = headers.findIndex((header) => COLUMN_ALIASES[column].includes(header));
+  });
+
+  const missing = (['action', 'employeeName', 'postcode'] as JmlImportColumn[]).filter((column) => columnIndex[column] < 0);
+  if (missing.length > 0) {
+    throw new Error(`Missing column${missing.length === 1 ? '' : 's'}: ${missing.map((column) => COLUMN_ALIASES[column][0]).join(', ')}`);
+  }
+
+  const rows: JmlImportRow[] = [];
+  dataRows.forEach((cells, index) => {
+    const value = (column: JmlImportColumn) => (columnIndex[column] >= 0 ? cellToString(cells[columnIndex[column]]) : '');
+    if (cells.every((cell) => !cellToString(cell))) return;
+
+    const employeeName = value('employeeName');
+    const action = parseJmlImportAction(value('action'));
+    const hasCurrentSite = !!(value('currentAddress') || value('currentPostcode'));
+
+    rows.push({
+      rowNumber: index + 2,
+      action,
+      actionLabel: value('action'),
+      employeeName,
+      email: value('email'),
+      phone: value('phone'),
+      date: normaliseImportDate(value('date')),
+      site: address(value('siteName'), value('address'), value('postcode'), value('country'), employeeName),
+      currentSite: action === 'mover' || hasCurrentSite
+        ? address(value('currentSiteName'), value('currentAddress'), value('currentPostcode'), value('currentCountry'), employeeName)
+        : undefined,
+      devices: [
+        device('Laptop', value('laptopQuantity'), value('laptopMake'), value('laptopModel'), value('laptopType')),
+        device('Phone', value('phoneQuantity'), value('phoneMake'), value('phoneModel'), value('phoneType')),
+        device('Accessory', value('accessoryQuantity')),
+      ].filter((item): item is JmlImportDevice => item !== null),
+    });
+  });
+  return rows;
+}
+
+interface HrisLocation {
+  name?: string;
+  address?: string;
+  postcode?: string;
+  country?: string;
+}
+
+interface HrisEquipment {
+  category?: string;
+  make?: string;
+  model?: string;
+  quantity?: number | string;
+  os?: string;
+}
+
+interface HrisEvent {
+  type?: string;
+  effectiveDate?: string;
+  employee?: { name?: string; email?: string; phone?: string };
+  location?: HrisLocation;
+  previousLocation?: HrisLocation;
+  equipment?: HrisEquipment[];
+}
+
+function hrisCategory(value: string): JmlAllowedCategoryName | null {
+  const normalised = value.trim().toLowerCase();
+  if (isAccessoriesCategory(normalised)) return 'Accessory';
+  const underlying = getUnderlyingAssetCategoryNameForJml(normalised);
+  if (underlying === 'Laptop') return 'Laptop';
+  if (underlying === 'Smart Phones') return 'Phone';
+  return null;
+}
+
+/**
+ * The normalised HRIS export: { "events": [{ "type": "joiner" | "mover" | "leaver",
+ * "effectiveDate", "employee": { name, email, phone }, "location", "previousLocation",
+ * "equipment": [{ category, make, model, quantity, os }] }] }. Row numbers count events from 1.
+ */
+export function parseHrisExport(text: string): JmlImportRow[] {
+  let data: { events?: HrisEvent[] } | HrisEvent[];
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid JSON");
+  }
+  const events = Array.isArray(data) ? data : data.events;
+  if (!Array.isArray(events)) throw new Error('Expected an "events" list in the HRIS export');
+
+  return events.map((event, index) => {
+    const employeeName = (event.employee?.name || '').trim();
+    const toAddress = (location?: HrisLocation) =>
+      address(location?.name || '', location?.address || '', location?.postcode || '', location?.country || '', employeeName);
+
+    return {
+      rowNumber: index + 1,
+      action: parseJmlImportAction(event.type || ''),
+      actionLabel: event.type || '',
+      employeeName,
+      email: (event.employee?.email || '').trim(),
+      phone: (event.employee?.phone || '').trim(),
+      date: normaliseImportDate(event.effectiveDate || ''),
+      site: toAddress(event.location),
+      currentSite: event.previousLocation ? toAddress(event.previousLocation) : undefined,
+      devices: (event.equipment || []).map((item) => {
+        const category = hrisCategory(item.category || '');
+        const quantity = String(item.quantity ?? 1);
+        // Unknown categories are kept as written so validation can report them
+        return category
+          ? device(category, quantity, item.make, item.model, item.os) ?? { category, make: '', model: '', quantity: 0, deviceType: '' }
+          : { category: item.category || '', make: item.make || '', model: item.model || '', quantity: parseQuantity(quantity), deviceType: item.os || '' };
+      }),
+    };
+  });
+}
+
+/**
+ * Read an uploaded CSV, Excel workbook (first sheet) or HRIS JSON export
+ */
+export async function readJmlImportFile(file: File): Promise<{ source: JmlImportSource; rows: JmlImportRow[] }> {
+  const name = file.name.toLowerCase();
+  let source: JmlImportSource;
+  let rows: JmlImportRow[];
+
+  if (name.endsWith('.json')) {
+    source = 'hris';
+    rows = parseHrisExport(await file.text());
+  } else if (name.endsWith('.xlsx')) {
+    source = 'xlsx';
+    // Only loaded when someone imports a workbook
+    const { default: readXlsxFile } = await import('read-excel-file');
+    // Its typings declare date cells as `typeof Date`; they're Date instances at runtime
+    rows = tableToJmlImportRows((await readXlsxFile(file)) as unknown as CellValue[][]);
+  } else if (name.endsWith('.csv')) {
+    source = 'csv';
+    rows = tableToJmlImportRows(parseCsv(await file.text()));
+  } else {
+    throw new Error(`Unsupported file type - use ${JML_IMPORT_FILE_EXTENSIONS.join(', ')}`);
+  }
+
+  if (rows.length === 0) throw new Error('No rows found in the file');
+  if (rows.length > JML_IMPORT_MAX_ROWS) {
+    throw new Error(`${rows.length} rows found - split the file into batches of ${JML_IMPORT_MAX_ROWS} or fewer`);
+  }
+  return { source, rows };
+}
+
+function validateAddress(site: JmlImportAddress, prefix: string, label: string, errors: JmlImportRowErrors) {
+  if (!site.address) errors[`${prefix}address`] = `${label} address is required`;
+  // Without a recognised country the postcode is checked against every European format
+  const country = site.country && isValidEuropeanCountry(site.country) ? site.country : undefined;
+  if (site.country && !country) {
+    errors[`${prefix}country`] = `${site.country} isn't a supported European country`;
+  }
+  if (!site.postcode) {
+    errors[`${prefix}postcode`] = `${label} postcode is required`;
+  } else if (!validateEuropeanPostcode(site.postcode, country)) {
+    errors[`${prefix}postcode`] = country
+      ? `${site.postcode} isn't a valid postcode for ${country}`
+      : `${site.postcode} isn't a valid European postcode`;
+  }
+}
+
+/**
+ * Field errors for one row - empty when it can be booked
+ */
+export function validateJmlImportRow(row: JmlImportRow, today: Date = new Date()): JmlImportRowErrors {
+  const errors: JmlImportRowErrors = {};
+
+  if (!row.action) {
+    errors.action = row.actionLabel
+      ? `"${row.actionLabel}" isn't a joiner, mover or leaver`
+      : 'Action is required (joiner, mover or leaver)';
+  }
+  if (!row.employeeName) errors.employeeName = 'Employee name is required';
+  if (!row.email) {
+    errors.email = 'Email is required';
+  } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(row.email)) {
+    errors.email = `${row.email} isn't a valid email address`;
+  }
+  if (!row.phone) errors.phone = 'Phone is required';
+
+  const date = parseISO(row.date);
+  if (!row.date) {
+    errors.date = 'Date is required';
+  } else if (!/^\d{4}-\d{2}-\d{2}$/.test(row.date) || !isValid(date)) {
+    errors.date = `${row.date} isn't a date - use YYYY-MM-DD or DD/MM/YYYY`;
+  } else if (
+    row.action === 'new_starter' &&
+    differenceInBusinessDays(startOfDay(date), startOfDay(today)) < NEW_STARTER_MIN_NOTICE_DAYS
+  ) {
+    errors.date = `Start date must be at least ${NEW_STARTER_MIN_NOTICE_DAYS} working days from today`;
+  }
+
+  validateAddress(row.site, '', row.action === 'mover' ? 'New' : 'Site', errors);
+  if (row.action === 'mover') {
+    if (!row.currentSite) {
+      errors.currentAddress = 'Current address is required for movers';
+    } else {
+      validateAddress(row.currentSite, 'current', 'Current', errors);
+    }
+  }
+
+  if (row.devices.length === 0) {
+    errors.devices = row.action === 'new_starter' ? 'No devices to deliver' : 'No devices to collect';
+  }
+  row.devices.forEach((item, index) => {
+    const key = `devices.${index}`;
+    if (!(JML_ALLOWED_CATEGORY_NAMES as readonly string[]).includes(item.category)) {
+      errors[key] = `"${item.category}" isn't a JML category - use ${JML_ALLOWED_CATEGORY_NAMES.join(', ')}`;
+    } else if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      errors[key] = `${item.category} quantity must be a whole number of at least 1`;
+    } else if (!isAccessoriesCategory(item.category) && (!item.make || !item.model)) {
+      errors[key] = `${item.category} make and model are required`;
+    } else if (
+      !isAccessoriesCategory(item.category) &&
+      !(getDeviceTypeOptionsForJmlCategory(item.category) as string[]).includes(item.deviceType)
+    ) {
+      errors[key] = `${item.category} type must be ${getDeviceTypeOptionsForJmlCategory(item.category).join(' or ')}`;
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Errors for every row, keyed by row number. A person listed twice for the same action is
+ * booked once - later copies fail so a re-sent file doesn't double up.
+ */
+export function validateJmlImportRows(rows: JmlImportRow[], today: Date = new Date()): Map<number, JmlImportRowErrors> {
+  const firstRowFor = new Map<string, number>();
+  const errorsByRow = new Map<number, JmlImportRowErrors>();
+
+  rows.forEach((row) => {
+    const errors = validateJmlImportRow(row, today);
+    if (row.action && row.email) {
+      const key = `${row.action}:${row.email.toLowerCase()}`;
+      const firstRow = firstRowFor.get(key);
+      if (firstRow !== undefined) {
+        errors.duplicate = `Same ${jmlImportActionConfig[row.action].label.toLowerCase()} as row ${firstRow}`;
+      } else {
+        firstRowFor.set(key, row.rowNumber);
+      }
+    }
+    errorsByRow.set(row.rowNumber, errors);
+  });
+  return errorsByRow;
+}
+
+function inventoryDeviceType(item: InventoryItem): JmlDeviceType {
+  if (item.deviceType === 'Windows' || item.deviceType === 'Apple' || item.deviceType === 'Android') return item.deviceType;
+  // Phones are stocked without a device type - the make tells us
+  if (getUnderlyingAssetCategoryNameForJml(item.category) === 'Smart Phones') {
+    return item.make.trim().toLowerCase() === 'apple' ? 'Apple' : 'Android';
+  }
+  return inferDeviceTypeFromJmlCategory(item.category);
+}
+
+/**
+ * Devices the joiners in `rows` need against the client's available stock, by category
+ * and device type. Accessories aren't stocked per unit, so they're left out.
+ */
+export function getJmlInventoryCoverage(rows: JmlImportRow[], inventory: InventoryItem[]): JmlInventoryCoverage[] {
+  const coverage = new Map<string, JmlInventoryCoverage>();
+
+  rows
+    .filter((row) => row.action === 'new_starter')
+    .flatMap((row) => row.devices)
+    .forEach((item) => {
+      if (isAccessoriesCategory(item.category) || !Number.isInteger(item.quantity) || item.quantity < 1) return;
+      const category = item.category as JmlAllowedCategoryName;
+      const underlying = getUnderlyingAssetCategoryNameForJml(category);
+      if (!underlying) return;
+
+      const key = `${category}:${item.deviceType}`;
+      const entry = coverage.get(key) || {
+        category,
+        deviceType: item.deviceType as JmlDeviceType,
+        required: 0,
+        available: inventory.filter(
+          (stock) =>
+            stock.status === 'available' &&
+            getUnderlyingAssetCategoryNameForJml(stock.category) === underlying &&
+            inventoryDeviceType(stock) === item.deviceType
+        ).length,
+        shortfall: 0,
+      };
+      entry.required += item.quantity;
+      entry.shortfall = Math.max(entry.required - entry.available, 0);
+      coverage.set(key, entry);
+    });
+
+  return Array.from(coverage.values()).sort((a, b) => a.category.localeCompare(b.category) || a.deviceType.localeCompare(b.deviceType));
+}
+
+function fullAddress(site: JmlImportAddress): string {
+  return site.country ? `${site.address}, ${site.country}` : site.address;
+}
+
+function requestDevices(row: JmlImportRow) {
+  return row.devices.map((item) => ({
+    category: item.category,
+    make: isAccessoriesCategory(item.category) ? item.make || 'Accessory' : item.make,
+    model: isAccessoriesCategory(item.category) ? item.model || 'Accessory' : item.model,
+    quantity: item.quantity,
+    deviceType: item.deviceType as JmlDeviceType,
+  }));
+}
+
+export type JmlImportBookingRequest =
+  | { action: 'new_starter'; request: NewStarterRequest }
+  | { action: 'leaver'; request: LeaverRequest }
+  | { action: 'mover'; request: MoverRequest };
+
+/**
+ * The single-booking JML request a validated row stands for
+ */
+export function toJmlBookingRequest(row: JmlImportRow, clientId?: string): JmlImportBookingRequest {
+  const devices = requestDevices(row);
+  const site = {
+    clientId,
+    siteName: row.site.siteName,
+    address: fullAddress(row.site),
+    postcode: row.site.postcode,
+    phone: row.phone,
+  };
+
+  switch (row.action) {
+    case 'new_starter':
+      return {
+        action: 'new_starter',
+        request: {
+          ...site,
+          employeeName: row.employeeName,
+          email: row.email,
+          startDate: row.date,
+          deviceType: devices.find((item) => !isAccessoriesCategory(item.category))?.deviceType ?? 'Windows',
+          devices,
+        },
+      };
+    case 'leaver':
+      return {
+        action: 'leaver',
+        request: { ...site, leaverName: row.employeeName, personalEmail: row.email, leavingDate: row.date, devices },
+      };
+    case 'mover':
+      return {
+        action: 'mover',
+        request: {
+          ...site,
+          employeeName: row.employeeName,
+          email: row.email,
+          scheduledDate: row.date,
+          currentSiteName: row.currentSite?.siteName,
+          currentAddress: row.currentSite ? fullAddress(row.currentSite) : undefined,
+          currentPostcode: row.currentSite?.postcode,
+          currentDevices: devices,
+        },
+      };
+    default:
+      throw new Error(`Row ${row.rowNumber} has no action`);
+  }
+}
@@ -0,0 +1,185 @@
+// JML scheduler - milestone deadlines from a booking's start, leaving or move date
+// Joiners need devices allocated and a courier booked ahead of their start date; leavers
+// and movers need a collection booked ahead of their date and the kit collected just after.
+// Lead times are in calendar days and can be set per client. A milestone is done once the
+// booking's lifecycle has reached (or passed) the status it stands for.
+import { addDays, differenceInBusinessDays, format, isValid, parseISO, startOfDay } from 'date-fns';
+import { bookingFlows, getBookingFlow, type BookingFlow, type BookingStatus } from '@/lib/booking-state-machine';
+import type { Booking } from '@/mocks/mock-entities';
+import type {
+  JmlLeadTimes,
+  JmlMilestone,
+  JmlMilestoneState,
+  JmlMilestoneType,
+} from '@/types/jml-schedule';
+
+export const DEFAULT_JML_LEAD_TIMES: JmlLeadTimes = {
+  allocateDaysBefore: 5,
+  courierDaysBefore: 2,
+  collectDaysAfter: 1,
+};
+
+export const MAX_JML_LEAD_DAYS = 30;
+
+// Milestones due within this many working days are flagged as at risk
+export const JML_AT_RISK_WINDOW_DAYS = 1;
+
+export const jmlMilestoneConfig: Record<JmlMilestoneType, { label: string; description: string }> = {
+  allocate_devices: { label: 'Allocate devices', description: 'Devices allocated from inventory' },
+  book_courier: { label: 'Book courier', description: 'Courier booked for the delivery or collection' },
+  collect_kit: { label: 'Collect kit', description: 'Devices collected from the employee' },
+};
+
+export const jmlMilestoneStateConfig: Record<JmlMilestoneState, { label: string; className: string }> = {
+  done: { label: 'Done', className: 'bg-success/10 text-success' },
+  upcoming: { label: 'Upcoming', className: 'bg-muted text-muted-foreground' },
+  at_risk: { label: 'At risk', className: 'bg-warning/10 text-warning' },
+  overdue: { label: 'Overdue', className: 'bg-destructive/10 text-destructive' },
+};
+
+export const jmlLeadTimeFields: Array<{ key: keyof JmlLeadTimes; label: string; description: string }> = [
+  { key: 'allocateDaysBefore', label: 'Allocate devices', description: 'Days before a joiner starts' },
+  { key: 'courierDaysBefore', label: 'Book courier', description: 'Days before the start, leaving or move date' },
+  { key: 'collectDaysAfter', label: 'Collect kit', description: 'Days after a leaver or mover\'s date' },
+];
+
+type ScheduledFlow = Extract<BookingFlow, 'new_starter' | 'leaver' | 'mover'>;
+
+interface MilestoneRule {
+  type: JmlMilestoneType;
+  status: BookingStatus; // Reaching this status completes the milestone
+  offset: (leadTimes: JmlLeadTimes) => number; // Calendar days from the anchor date
+}
+
+const collectionRules: MilestoneRule[] = [
+  { type: 'book_courier', status: 'collection_scheduled', offset: (leadTimes) => -leadTimes.courierDaysBefore },
+  { type: 'collect_kit', status: 'collected', offset: (leadTimes) => leadTimes.collectDaysAfter },
+];
+
+// Breakfix bookings are raised when something breaks, so there's no date to schedule from
+const milestoneRules: Record<ScheduledFlow, MilestoneRule[]> = {
+  new_starter: [
+    { type: 'allocate_devices', status: 'device_allocated', offset: (leadTimes) => -leadTimes.allocateDaysBefore },
+    { type: 'book_courier', status: 'courier_booked', offset: (leadTimes) => -leadTimes.courierDaysBefore },
+  ],
+  leaver: collectionRules,
+  mover: collectionRules,
+};
+
+const reachedStatuses = new Map<string, Set<BookingStatus>>();
+
+/**
+ * The status itself and every status the flow can move on to from it (cancelling aside)
+ */
+function statusesFrom(flow: BookingFlow, status: BookingStatus): Set<BookingStatus> {
+  const key = `${flow}:${status}`;
+  const cached = reachedStatuses.get(key);
+  if (cached) return cached;
+
+  const reached = new Set<BookingStatus>([status]);
+  const queue: BookingStatus[] = [status];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    (bookingFlows[flow][current] || []).forEach((transition) => {
+      if (transition.to !== 'cancelled' && !reached.has(transition.to)) {
+        reached.add(transition.to);
+        queue.push(transition.to);
+      }
+    });
+  }
+  reachedStatuses.set(key, reached);
+  return reached;
+}
+
+export type JmlScheduleBooking = Pick<
+  Booking,
+  | 'id'
+  | 'bookingNumber'
+  | 'clientId'
+  | 'clientName'
+  | 'status'
+  | 'bookingType'
+  | 'jmlSubType'
+  | 'employeeName'
+  | 'scheduledDate'
+  | 'startDate'
+>;
+
+function toDateString(value: string | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isValid(date) ? format(date, 'yyyy-MM-dd') : null;
+}
+
+/**
+ * The date a JML booking's milestones count from: the joiner's start date, or the
+ * leaving/move date (stored as the booking's scheduled date)
+ */
+export function getJmlAnchorDate(booking: JmlScheduleBooking): string | null {
+  if (booking.bookingType !== 'jml') return null;
+  return booking.jmlSubType === 'new_starter'
+    ? toDateString(booking.startDate) ?? toDateString(booking.scheduledDate)
+    : toDateString(booking.scheduledDate);
+}
+
+export function getJmlMilestoneState(dueDate: string, done: boolean, today: Date = new Date()): JmlMilestoneState {
+  if (done) return 'done';
+  const due = parseISO(dueDate);
+  const start = startOfDay(today);
+  if (due < start) return 'overdue';
+  return differenceInBusinessDays(due, start) <= JML_AT_RISK_WINDOW_DAYS ? 'at_risk' : 'upcoming';
+}
+
+/**
+ * Milestones for one booking, or none for bookings that aren't scheduled JML work
+ */
+export function getJmlMilestones(
+  booking: JmlScheduleBooking,
+  leadTimes: JmlLeadTimes = DEFAULT_JML_LEAD_TIMES,
+  today: Date = new Date()
+): JmlMilestone[] {
+  if (booking.status === 'cancelled' || !booking.jmlSubType || booking.jmlSubType === 'breakfix') return [];
+  const anchorDate = getJmlAnchorDate(booking);
+  if (!anchorDate) return [];
+
+  const flow = getBookingFlow(booking) as ScheduledFlow;
+  return milestoneRules[flow].map((rule) => {
+    const dueDate = format(addDays(parseISO(anchorDate), rule.offset(leadTimes)), 'yyyy-MM-dd');
+    const done = statusesFrom(flow, rule.status).has(booking.status);
+    return {
+      id: `${booking.id}:${rule.type}`,
+      bookingId: booking.id,
+      bookingNumber: booking.bookingNumber,
+      clientId: booking.clientId,
+      clientName: booking.clientName,
+      jmlSubType: flow,
+      employeeName: booking.employeeName || booking.bookingNumber,
+      bookingStatus: booking.status,
+      type: rule.type,
+      anchorDate,
+      dueDate,
+      state: getJmlMilestoneState(dueDate, done, today),
+    };
+  });
+}
+
+/**
+ * Field errors for a client's lead times - empty when they can be saved
+ */
+export function validateJmlLeadTimes(leadTimes: JmlLeadTimes): Record<string, string> {
+  const errors: Record<string, string> = {};
+  jmlLeadTimeFields.forEach(({ key, label }) => {
+    const value = leadTimes[key];
+    if (!Number.isInteger(value) || value < 0 || value > MAX_JML_LEAD_DAYS) {
+      errors[key] = `${label} must be a whole number of days from 0 to ${MAX_JML_LEAD_DAYS}`;
+    }
+  });
+  if (!errors.allocateDaysBefore && !errors.courierDaysBefore && leadTimes.courierDaysBefore > leadTimes.allocateDaysBefore) {
+    errors.courierDaysBefore = 'The courier can only be booked once devices are allocated';
+  }
+  return errors;
+}
+
+export function isJmlMilestoneBehind(milestone: Pick<JmlMilestone, 'state'>): boolean {
+  return milestone.state === 'at_risk' || milestone.state === 'overdue';
+}
@@ -0,0 +1,192 @@
+// Notification preferences and delivery rules
+// Shared by the Settings page (what each category means, defaults) and the
+// backend's notification pipeline (which channels a notification goes to, and
+// whether an email is sent now or held for the daily digest).
+import type { UserRole } from '@/types/auth';
+import type {
+  NotificationCategory,
+  NotificationCategoryPreference,
+  NotificationChannel,
+  NotificationDeliveryMode,
+  NotificationPreferences,
+  QuietHours,
+} from '@/types/notifications';
+
+export interface NotificationCategoryInfo {
+  category: NotificationCategory;
+  label: string;
+  description: string;
+  roles: UserRole[]; // Roles that receive this category
+  defaultChannels: NotificationChannel[];
+}
+
+export const NOTIFICATION_CATEGORIES: NotificationCategoryInfo[] = [
+  {
+    category: 'booking_approved',
+    label: 'Booking approved',
+    description: 'A booking you submitted has been approved',
+    roles: ['client', 'reseller'],
+    defaultChannels: ['in_app', 'email'],
+  },
+  {
+    category: 'booking_updates',
+    label: 'Booking updates',
+    description: 'New booking requests and other status changes',
+    roles: ['admin', 'client', 'reseller'],
+    defaultChannels: ['in_app'],
+  },
+  {
+    category: 'driver_assigned',
+    label: 'Driver assigned',
+    description: 'A driver has been scheduled for a job',
+    roles: ['driver', 'client', 'reseller'],
+    defaultChannels: ['in_app', 'email'],
+  },
+  {
+    category: 'eta_delayed',
+    label: 'ETA delayed',
+    description: 'A driver is running late for a collection or delivery',
+    roles: ['admin', 'client', 'reseller'],
+    defaultChannels: ['in_app', 'email'],
+  },
+  {
+    category: 'certificate_ready',
+    label: 'Certificate ready',
+    description: 'Data wipe and recycling certificates are available',
+    roles: ['admin', 'client', 'reseller'],
+    defaultChannels: ['in_app', 'email'],
+  },
+  {
+    category: 'inventory_low',
+    label: 'Inventory low',
+    description: 'Available stock for a device category is running out',
+    roles: ['admin', 'client'],
+    defaultChannels: ['in_app', 'email'],
+  },
+  {
+    category: 'jml_milestones',
+    label: 'JML milestones',
+    description: 'A joiner, mover or leaver booking is behind its schedule',
+    roles: ['admin', 'client'],
+    defaultChannels: ['in_app', 'email'],
+  },
+];
+
+export const NOTIFICATION_CHANNELS: Array<{ channel: NotificationChannel; label: string }> = [
+  { channel: 'in_app', label: 'In-app' },
+  { channel: 'email', label: 'Email' },
+  { channel: 'webhook', label: 'Webhook' },
+];
+
+export const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: false,
+  start: '20:00',
+  end: '07:00',
+  timezone: 'Europe/London',
+};
+
+export const DEFAULT_DIGEST_TIME = '08:00';
+
+export function getNotificationCategoriesForRole(role: UserRole): NotificationCategoryInfo[] {
+  return NOTIFICATION_CATEGORIES.filter((info) => info.roles.includes(role));
+}
+
+export function createDefaultNotificationPreferences(userId: string): NotificationPreferences {
+  return {
+    userId,
+    categories: NOTIFICATION_CATEGORIES.map((info) => ({
+      category: info.category,
+      channels: [...info.defaultChannels],
+      digest: false,
+    })),
+    quietHours: { ...DEFAULT_QUIET_HOURS },
+    digestTime: DEFAULT_DIGEST_TIME,
+    webhookUrl: null,
+  };
+}
+
+export function getCategoryPreference(
+  preferences: NotificationPreferences,
+  category: NotificationCategory
+): NotificationCategoryPreference {
+  return (
+    preferences.categories.find((preference) => preference.category === category) || {
+      category,
+      channels: [...(NOTIFICATION_CATEGORIES.find((info) => info.category === category)?.defaultChannels || ['in_app'])],
+      digest: false,
+    }
+  );
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function isValidTime(value: string): boolean {
+  return TIME_PATTERN.test(value);
+}
+
+/**
+ * Minutes since midnight of `at` in the given timezone
+ */
+function minutesInTimezone(at: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const hour = Number(parts.find((part) => part.type === 'hour')?.value || 0);
+  const minute = Number(parts.find((part) => part.type === 'minute')?.value || 0);
+  return hour * 60 + minute;
+}
+
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+}
+
+export function isWithinQuietHours(quietHours: QuietHours, at: Date): boolean {
+  if (!quietHours.enabled || quietHours.start === quietHours.end) return false;
+  const current = minutesInTimezone(at, quietHours.timezone);
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  // Overnight windows (e.g. 20:00-07:00) wrap past midnight
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+/**
+ * The next time the clock in `timezone` reads `time` ('HH:mm'), on or after `from`
+ */
+export function getNextTimeOfDay(time: string, timezone: string, from: Date): Date {
+  const minutesUntil = (toMinutes(time) - minutesInTimezone(from, timezone) + 1440) % 1440;
+  const next = new Date(from.getTime() + minutesUntil * 60_000);
+  next.setSeconds(0, 0);
+  return next;
+}
+
+/**
+ * When the next daily digest goes out, on or after `from`
+ */
+export function getNextDigestTime(preferences: NotificationPreferences, from: Date): Date {
+  return getNextTimeOfDay(preferences.digestTime, preferences.quietHours.timezone, from);
+}
+
+/**
+ * Which channels a notification goes to and how. Quiet hours hold emails for the
+ * digest; in-app notifications are silent anyway and webhooks are machine-to-machine,
+ * so both go out immediately. Webhook delivery needs a webhook URL.
+ */
+export function planNotificationDelivery(
+  preferences: NotificationPreferences,
+  category: NotificationCategory,
+  at: Date
+): Array<{ channel: NotificationChannel; mode: NotificationDeliveryMode }> {
+  const preference = getCategoryPreference(preferences, category);
+  const isQuiet = isWithinQuietHours(preferences.quietHours, at);
+
+  return preference.channels
+    .filter((channel) => channel !== 'webhook' || !!preferences.webhookUrl)
+    .map((channel) => ({
+      channel,
+      mode: channel === 'email' && (preference.digest || isQuiet) ? 'digest' : 'immediate',
+    }));
+}
@@ -0,0 +1,227 @@
+// Offline outbox for driver job actions
+// Persists queued status transitions, evidence and journey fields to IndexedDB
+// so they survive reloads and can be replayed in order once connectivity returns.
+
+import type { Evidence, Job, WorkflowStatus } from '@/types/jobs';
+
+const DB_NAME = 'reuse-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+export type OutboxEntryState = 'pending' | 'conflict';
+
+export interface JourneyFields {
+  dial2Collection?: string;
+  securityRequirements?: string;
+  idRequired?: string;
+  loadingBayLocation?: string;
+  vehicleHeightRestrictions?: string;
+  doorLiftSize?: string;
+  roadWorksPublicEvents?: string;
+  manualHandlingRequirements?: string;
+}
+
+export type OutboxPayload =
+  | { kind: 'status'; status: WorkflowStatus; fromStatus: WorkflowStatus }
+  | { kind: 'evidence'; evidence: Partial<Evidence> & { status?: string } }
+  | { kind: 'journey-fields'; fields: JourneyFields };
+
+export interface OutboxEntry {
+  id?: number; // Auto-incremented key - also defines replay order
+  jobId: string;
+  driverId: string; // Driver who queued the action (used to detect reassignment)
+  payload: OutboxPayload;
+  state: OutboxEntryState;
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+}
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+// In-memory fallback when IndexedDB is unavailable (private browsing, old WebViews)
+let memoryStore: OutboxEntry[] = [];
+let memoryId = 0;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('jobId', 'jobId', { unique: false });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('[offline-outbox] IndexedDB unavailable, falling back to memory:', request.error);
+        resolve(null);
+      };
+    } catch (error) {
+      console.warn('[offline-outbox] IndexedDB unavailable, falling back to memory:', error);
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Subscribe to outbox changes. Returns an unsubscribe function.
+ */
+export function subscribeToOutbox(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Add an action to the end of the outbox
+ */
+export async function enqueueOutboxEntry(
+  entry: Omit<OutboxEntry, 'id' | 'state' | 'attempts' | 'createdAt'>
+): Promise<OutboxEntry> {
+  const record: OutboxEntry = {
+    ...entry,
+    state: 'pending',
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  };
+
+  const db = await openDatabase();
+  if (!db) {
+    record.id = ++memoryId;
+    memoryStore.push(record);
+  } else {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    record.id = (await promisifyRequest(tx.objectStore(STORE_NAME).add(record))) as number;
+  }
+
+  notify();
+  return record;
+}
+
+/**
+ * Get all outbox entries in replay order (oldest first)
+ */
+export async function getOutboxEntries(jobId?: string): Promise<OutboxEntry[]> {
+  const db = await openDatabase();
+  let entries: OutboxEntry[];
+
+  if (!db) {
+    entries = [...memoryStore];
+  } else {
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    entries = await promisifyRequest(tx.objectStore(STORE_NAME).getAll());
+  }
+
+  return entries
+    .filter((entry) => !jobId || entry.jobId === jobId)
+    .sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+/**
+ * Update an existing outbox entry (attempt count, state, last error)
+ */
+export async function updateOutboxEntry(entry: OutboxEntry): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    memoryStore = memoryStore.map((existing) => (existing.id === entry.id ? entry : existing));
+  } else {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    await promisifyRequest(tx.objectStore(STORE_NAME).put(entry));
+  }
+  notify();
+}
+
+/**
+ * Remove an entry once it has been replayed (or discarded by the driver)
+ */
+export async function removeOutboxEntry(id: number): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    memoryStore = memoryStore.filter((entry) => entry.id !== id);
+  } else {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    await promisifyRequest(tx.objectStore(STORE_NAME).delete(id));
+  }
+  notify();
+}
+
+/**
+ * Remove every queued entry for a job (used when discarding conflicted work)
+ */
+export async function clearOutboxForJob(jobId: string): Promise<void> {
+  const entries = await getOutboxEntries(jobId);
+  for (const entry of entries) {
+    if (entry.id !== undefined) {
+      await removeOutboxEntry(entry.id);
+    }
+  }
+}
+
+/**
+ * Overlay queued (not yet synced) entries on top of the last known server job,
+ * so the driver UI reflects work captured offline.
+ */
+export function applyOutboxEntries(job: Job | null | undefined, entries: OutboxEntry[]): Job | null | undefined {
+  if (!job) return job;
+
+  return entries
+    .filter((entry) => entry.jobId === job.id)
+    .reduce<Job>((current, entry) => {
+      const { payload } = entry;
+      switch (payload.kind) {
+        case 'status':
+          return { ...current, status: payload.status };
+        case 'journey-fields':
+          return { ...current, ...payload.fields };
+        case 'evidence': {
+          const existing = current.evidence
+            ? Array.isArray(current.evidence) ? current.evidence : [current.evidence]
+            : [];
+          return {
+            ...current,
+            evidence: [
+              ...existing,
+              {
+                status: payload.evidence.status,
+                photos: payload.evidence.photos || [],
+                signature: payload.evidence.signature,
+                sealNumbers: payload.evidence.sealNumbers || [],
+                notes: payload.evidence.notes,
+                createdAt: entry.createdAt,
+              },
+            ],
+          };
+        }
+        default:
+          return current;
+      }
+    }, job);
+}
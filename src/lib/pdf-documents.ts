@@ -0,0 +1,443 @@
+// PDF documents - certificates of data destruction, chain-of-custody certificates,
+// grading reports and booking summaries, rendered in the browser (see lib/pdf)
+// Each document's QR code links back to its page in the app and carries a fingerprint
+// of what was printed, so a paper copy can be checked against the live records.
+// Shipping labels are the exception: plain black 4x6" labels for thermal printers.
+import { jsPDF } from 'jspdf';
+import type { Booking, GradingRecord, SanitisationRecord } from '@/mocks/mock-entities';
+import type { CustodyCertificate } from '@/types/custody';
+import type { Shipment, ShipmentAddress } from '@/types/carriers';
+import { custodyEventConfig, sha256Hex } from '@/lib/custody';
+import { describeDefects } from '@/lib/grading';
+import { PdfDocumentBuilder, downloadPdf, drawQrCode, type PdfBranding, type PdfVerification } from '@/lib/pdf';
+
+export type PdfDocumentRequest =
+  | { kind: 'data_destruction_certificate'; booking: Booking; records: SanitisationRecord[] }
+  | { kind: 'chain_of_custody'; booking: Booking; certificate: CustodyCertificate }
+  | { kind: 'grading_report'; booking: Booking; records: GradingRecord[] }
+  | {
+      kind: 'booking_summary';
+      booking: Booking;
+      gradingRecords: GradingRecord[];
+      sanitisationRecords: SanitisationRecord[];
+    }
+  | { kind: 'shipping_label'; shipment: Shipment };
+
+export interface PdfRenderOptions {
+  generatedBy: string; // Name printed on the sign-off line
+  origin?: string; // Base URL for the QR code, defaults to the app's own origin
+}
+
+type ResolvedRenderOptions = Required<PdfRenderOptions> & { branding: PdfBranding };
+
+const sanitisationMethodLabels: Record<SanitisationRecord['method'], string> = {
+  blancco: 'Blancco Software Wipe',
+  'physical-destruction': 'Physical Destruction',
+  degaussing: 'Degaussing',
+  shredding: 'Shredding',
+  other: 'Other',
+};
+
+const formatDate = (value?: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }) : '';
+
+const formatDateTime = (value?: string | null) =>
+  value
+    ? new Date(value).toLocaleString('en-GB', {
+        day: 'numeric',
+        month: 'short',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      })
+    : '';
+
+const formatCurrency = (value: number) =>
+  `£${value.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Grouped so it can be read out or typed: 3F2A-91C0-...
+const formatVerificationCode = (hash: string) => hash.slice(0, 16).toUpperCase().match(/.{4}/g)!.join('-');
+
+const getAssetName = (booking: Booking, assetId: string) =>
+  booking.assets.find((asset) => asset.categoryId === assetId)?.categoryName || assetId;
+
+// The make+grade condition code (see buildConditionCode), then any defects found at grading
+const describeCondition = (record: Pick<GradingRecord, 'condition' | 'defects'>) =>
+  [record.condition, describeDefects(record.defects)].filter(Boolean).join(' - ');
+
+async function createVerification(url: string, payload: unknown): Promise<PdfVerification> {
+  const fingerprint = await sha256Hex(JSON.stringify(payload));
+  return { url: `${url}#fingerprint=${fingerprint}`, code: formatVerificationCode(fingerprint) };
+}
+
+function bookingDetails(booking: Booking): Array<[string, string | undefined]> {
+  return [
+    ['Client', booking.organisationName || booking.clientName],
+    ['Booking reference', booking.bookingNumber],
+    ['Collection site', [booking.siteName, booking.siteAddress].filter(Boolean).join(', ')],
+    ['Processing warehouse', booking.warehouseName],
+  ];
+}
+
+async function renderDataDestructionCertificate(
+  booking: Booking,
+  records: SanitisationRecord[],
+  options: ResolvedRenderOptions
+) {
+  const builder = await PdfDocumentBuilder.create(options.branding, 'Certificate of Data Destruction', booking.bookingNumber);
+  const verified = records.filter((record) => record.verified);
+  const issuedAt = new Date().toISOString();
+
+  builder.titleBlock(
+    `This certifies that the data-bearing assets collected under booking ${booking.bookingNumber} ` +
+      `for ${booking.organisationName || booking.clientName} were sanitised as recorded below.`
+  );
+  builder.section('Booking');
+  builder.keyValues([
+    ...bookingDetails(booking),
+    ['Collected', formatDate(booking.collectedAt)],
+    ['Sanitised', formatDate(booking.sanitisedAt)],
+  ]);
+  builder.stats([
+    { label: 'Records', value: String(records.length) },
+    { label: 'Verified', value: `${verified.length} of ${records.length}` },
+    { label: 'Issued', value: formatDate(issuedAt) },
+  ]);
+  builder.section('Sanitisation records');
+  builder.table(
+    [
+      { header: 'Asset', width: 0.17 },
+      { header: 'Serial number', width: 0.18, mono: true },
+      { header: 'Method', width: 0.2 },
+      { header: 'Certificate ID', width: 0.2, mono: true },
+      { header: 'Date', width: 0.13 },
+      { header: 'Verified', width: 0.12 },
+    ],
+    records.map((record) => [
+      getAssetName(booking, record.assetId),
+      record.serialNumber || '',
+      record.methodDetails
+        ? `${sanitisationMethodLabels[record.method]} (${record.methodDetails})`
+        : sanitisationMethodLabels[record.method],
+      record.certificateId,
+      formatDate(record.timestamp),
+      record.verified ? 'Yes' : 'Pending',
+    ]),
+    'No sanitisation records yet'
+  );
+  if (verified.length < records.length) {
+    builder.paragraph('Records pending verification are not covered by this certificate until they are verified.', {
+      muted: true,
+    });
+  }
+  builder.signOff(options.generatedBy, 'Issued by', formatDate(issuedAt));
+
+  const verification = await createVerification(`${options.origin}/bookings/${booking.id}/certificates`, [
+    booking.bookingNumber,
+    records.map((record) => [record.id, record.certificateId, record.serialNumber ?? null, record.verified]),
+  ]);
+  return {
+    doc: builder.finish(verification),
+    filename: `Certificate of Data Destruction - ${booking.bookingNumber}.pdf`,
+  };
+}
+
+async function renderChainOfCustodyCertificate(
+  booking: Booking,
+  certificate: CustodyCertificate,
+  options: ResolvedRenderOptions
+) {
+  const builder = await PdfDocumentBuilder.create(options.branding, 'Chain-of-Custody Certificate', booking.bookingNumber);
+
+  builder.titleBlock(
+    'Every custody event below includes the hash of the event before it. The head hash identifies the whole ' +
+      'chain: if any event or its evidence changed, the head hash would no longer match.'
+  );
+  builder.section('Booking');
+  builder.keyValues([
+    ...bookingDetails(booking),
+    ['Issued', formatDateTime(certificate.issuedAt)],
+    ['Issued by', certificate.issuedBy],
+    ['Events covered', String(certificate.entryCount)],
+  ]);
+  builder.section('Head hash');
+  builder.paragraph(certificate.headHash, { size: 9 });
+  builder.section('Custody events');
+  builder.table(
+    [
+      { header: '#', width: 0.05 },
+      { header: 'Event', width: 0.15 },
+      { header: 'Date', width: 0.16 },
+      { header: 'Handled by', width: 0.18 },
+      { header: 'Location', width: 0.3 },
+      { header: 'Evidence', width: 0.16 },
+    ],
+    certificate.entries.map((entry) => [
+      String(entry.sequence),
+      custodyEventConfig[entry.eventType].label,
+      formatDateTime(entry.occurredAt),
+      `${entry.actor.name} (${entry.actor.role})`,
+      entry.location.label,
+      entry.evidence.length > 0 ? entry.evidence.map((evidence) => evidence.label).join(', ') : 'None',
+    ])
+  );
+  builder.section('Entry hashes');
+  builder.table(
+    [
+      { header: '#', width: 0.05 },
+      { header: 'Entry hash', width: 0.475, mono: true },
+      { header: 'Previous hash', width: 0.475, mono: true },
+    ],
+    certificate.entries.map((entry) => [String(entry.sequence), entry.hash, entry.previousHash])
+  );
+  builder.signOff(certificate.issuedBy, 'Issued by', formatDate(certificate.issuedAt));
+
+  // The head hash already fingerprints the chain - the code is its first 16 characters
+  const verification: PdfVerification = {
+    url: `${options.origin}/bookings/${booking.id}/timeline#head=${certificate.headHash}`,
+    code: formatVerificationCode(certificate.headHash),
+  };
+  return {
+    doc: builder.finish(verification),
+    filename: `Chain of Custody - ${booking.bookingNumber}.pdf`,
+  };
+}
+
+async function renderGradingReport(booking: Booking, records: GradingRecord[], options: ResolvedRenderOptions) {
+  const builder = await PdfDocumentBuilder.create(options.branding, 'Asset Grading Report', booking.bookingNumber);
+  const totalAssets = booking.assets.reduce((sum, asset) => sum + asset.quantity, 0);
+  const unitsGraded = records.reduce((sum, record) => sum + record.quantity, 0);
+  const totalValue = records.reduce((sum, record) => sum + record.resaleValue * record.quantity, 0);
+  const identified = records.filter((record) => record.serialNumbers?.length || record.imeiNumbers?.length);
+
+  builder.titleBlock(`Grades and resale values for the assets processed under booking ${booking.bookingNumber}.`);
+  builder.section('Booking');
+  builder.keyValues([...bookingDetails(booking), ['Graded', formatDate(booking.gradedAt)]]);
+  builder.stats([
+    { label: 'Total assets', value: String(totalAssets) },
+    { label: 'Units graded', value: String(unitsGraded) },
+    { label: 'Resale value', value: formatCurrency(totalValue) },
+  ]);
+  builder.section('Grades');
+  builder.table(
+    [
+      { header: 'Asset', width: 0.18 },
+      { header: 'Grade', width: 0.08 },
+      { header: 'Condition', width: 0.26 },
+      { header: 'Qty', width: 0.07, align: 'right' },
+      { header: 'Unit value', width: 0.13, align: 'right' },
+      { header: 'Total', width: 0.14, align: 'right' },
+      { header: 'Graded', width: 0.14 },
+    ],
+    records.map((record) => [
+      record.assetCategory || getAssetName(booking, record.assetId),
+      record.grade,
+      describeCondition(record),
+      String(record.quantity),
+      formatCurrency(record.resaleValue),
+      formatCurrency(record.resaleValue * record.quantity),
+      formatDate(record.gradedAt),
+    ]),
+    'No assets graded yet'
+  );
+  if (identified.length > 0) {
+    builder.section('Device identifiers');
+    builder.table(
+      [
+        { header: 'Asset', width: 0.18 },
+        { header: 'Grade', width: 0.08 },
+        { header: 'Serial numbers', width: 0.37, mono: true },
+        { header: 'IMEIs', width: 0.37, mono: true },
+      ],
+      identified.map((record) => [
+        record.assetCategory || getAssetName(booking, record.assetId),
+        record.grade,
+        (record.serialNumbers || []).join(', '),
+        (record.imeiNumbers || []).join(', '),
+      ])
+    );
+  }
+  builder.signOff(options.generatedBy, 'Generated by', formatDate(new Date().toISOString()));
+
+  const verification = await createVerification(`${options.origin}/bookings/${booking.id}/grading`, [
+    booking.bookingNumber,
+    records.map((record) => [record.id, record.grade, record.quantity, record.resaleValue, record.serialNumbers ?? []]),
+  ]);
+  return { doc: builder.finish(verification), filename: `Grading Report - ${booking.bookingNumber}.pdf` };
+}
+
+async function renderBookingSummary(
+  booking: Booking,
+  gradingRecords: GradingRecord[],
+  sanitisationRecords: SanitisationRecord[],
+  options: ResolvedRenderOptions
+) {
+  const builder = await PdfDocumentBuilder.create(options.branding, 'Booking Completion Summary', booking.bookingNumber);
+  const totalAssets = booking.assets.reduce((sum, asset) => sum + asset.quantity, 0);
+  const totalValue = gradingRecords.reduce((sum, record) => sum + record.resaleValue * record.quantity, 0);
+  const co2eKg = booking.estimatedCO2e || 0;
+
+  builder.titleBlock(`Summary of booking ${booking.bookingNumber} from collection to completion.`);
+  builder.section('Booking');
+  builder.keyValues([
+    ...bookingDetails(booking),
+    ['Scheduled', formatDate(booking.scheduledDate)],
+    ['Completed', formatDateTime(booking.completedAt)],
+    ['Driver', booking.driverName],
+    ['Round trip', booking.roundTripDistanceKm ? `${booking.roundTripDistanceKm.toFixed(1)} km` : undefined],
+  ]);
+  builder.stats([
+    { label: 'Total assets', value: String(totalAssets) },
+    { label: 'Resale value', value: formatCurrency(totalValue) },
+    { label: 'CO2e saved', value: co2eKg >= 1000 ? `${(co2eKg / 1000).toFixed(1)} t` : `${Math.round(co2eKg)} kg` },
+  ]);
+  builder.section('Assets');
+  builder.table(
+    [
+      { header: 'Category', width: 0.34 },
+      { header: 'Quantity', width: 0.14, align: 'right' },
+      { header: 'Grades', width: 0.3 },
+      { header: 'Resale value', width: 0.22, align: 'right' },
+    ],
+    booking.assets.map((asset) => {
+      const records = gradingRecords.filter((record) => record.assetId === asset.categoryId);
+      return [
+        asset.categoryName,
+        String(asset.quantity),
+        records.map((record) => `${record.grade} x ${record.quantity}`).join(', '),
+        formatCurrency(records.reduce((sum, record) => sum + record.resaleValue * record.quantity, 0)),
+      ];
+    })
+  );
+  builder.section('Data sanitisation');
+  builder.table(
+    [
+      { header: 'Asset', width: 0.25 },
+      { header: 'Method', width: 0.3 },
+      { header: 'Certificate ID', width: 0.3, mono: true },
+      { header: 'Verified', width: 0.15 },
+    ],
+    sanitisationRecords.map((record) => [
+      getAssetName(booking, record.assetId),
+      sanitisationMethodLabels[record.method],
+      record.certificateId,
+      record.verified ? 'Yes' : 'Pending',
+    ]),
+    'No sanitisation records'
+  );
+  builder.signOff(options.generatedBy, 'Generated by', formatDate(new Date().toISOString()));
+
+  const verification = await createVerification(`${options.origin}/bookings/${booking.id}/summary`, [
+    booking.bookingNumber,
+    booking.completedAt ?? null,
+    gradingRecords.map((record) => [record.id, record.grade, record.quantity, record.resaleValue]),
+    sanitisationRecords.map((record) => [record.id, record.certificateId, record.verified]),
+  ]);
+  return { doc: builder.finish(verification), filename: `Booking Summary - ${booking.bookingNumber}.pdf` };
+}
+
+const LABEL_WIDTH = 102;
+const LABEL_HEIGHT = 152;
+const LABEL_MARGIN = 5;
+
+/**
+ * One label per parcel, each with the tracking number as text and as a QR code
+ */
+function renderShippingLabel(shipment: Shipment, { branding }: ResolvedRenderOptions) {
+  const doc = new jsPDF({ unit: 'mm', format: [LABEL_WIDTH, LABEL_HEIGHT], orientation: 'portrait' });
+  doc.setProperties({ title: `Shipping label - ${shipment.trackingNumber}`, author: branding.tenantName });
+  const right = LABEL_WIDTH - LABEL_MARGIN;
+  const rule = (y: number) => {
+    doc.setDrawColor(0, 0, 0);
+    doc.setLineWidth(0.5);
+    doc.line(LABEL_MARGIN, y, right, y);
+  };
+  const addressLines = (address: ShipmentAddress) =>
+    [address.address, address.postcode, address.countryCode].filter((part): part is string => !!part);
+
+  for (let parcel = 1; parcel <= shipment.parcels; parcel++) {
+    if (parcel > 1) doc.addPage([LABEL_WIDTH, LABEL_HEIGHT], 'portrait');
+    doc.setTextColor(0, 0, 0);
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(18);
+    doc.text(shipment.carrierName, LABEL_MARGIN, 13);
+    doc.setFontSize(10);
+    doc.text(shipment.service, right, 13, { align: 'right' });
+    rule(17);
+
+    doc.setFontSize(7);
+    doc.text('FROM', LABEL_MARGIN, 22);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    const from = doc.splitTextToSize([shipment.from.name, ...addressLines(shipment.from)].join(', '), right - LABEL_MARGIN);
+    doc.text(from.slice(0, 3), LABEL_MARGIN, 26);
+    rule(38);
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(7);
+    doc.text('TO', LABEL_MARGIN, 43);
+    doc.setFontSize(14);
+    doc.text(shipment.to.name, LABEL_MARGIN, 50);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    const to = doc.splitTextToSize(shipment.to.address, right - LABEL_MARGIN);
+    doc.text(to.slice(0, 4), LABEL_MARGIN, 57);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(20);
+    doc.text([shipment.to.postcode, shipment.to.countryCode].filter(Boolean).join('  '), LABEL_MARGIN, 84);
+    rule(89);
+
+    drawQrCode(doc, shipment.trackingNumber, LABEL_MARGIN, 93, 36);
+    const detailsX = LABEL_MARGIN + 40;
+    doc.setFontSize(7);
+    doc.text('TRACKING NUMBER', detailsX, 97);
+    doc.setFont('courier', 'bold');
+    doc.setFontSize(11);
+    doc.text(shipment.trackingNumber, detailsX, 102);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(7);
+    doc.text('REFERENCE', detailsX, 110);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.text(shipment.bookingNumber, detailsX, 115);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(7);
+    doc.text('PARCEL', detailsX, 123);
+    doc.setFontSize(14);
+    doc.text(`${parcel} of ${shipment.parcels}`, detailsX, 129);
+    rule(133);
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    // Collections are prepaid - a remote leaver just sticks the label on their returns kit
+    const sender = shipment.direction === 'collection' ? `Postage paid return to ${branding.tenantName}` : `Shipped by ${branding.tenantName}`;
+    doc.text(`${sender} · ${formatDate(shipment.createdAt)}`, LABEL_MARGIN, 139);
+    if (shipment.to.phone) doc.text(`Recipient tel: ${shipment.to.phone}`, LABEL_MARGIN, 143);
+  }
+  return { doc, filename: `Shipping Label - ${shipment.bookingNumber} - ${shipment.trackingNumber}.pdf` };
+}
+
+/**
+ * Render a document to a jsPDF instance, with the filename it should be saved under
+ */
+export async function renderPdfDocument(request: PdfDocumentRequest, branding: PdfBranding, options: PdfRenderOptions) {
+  const resolved = { ...options, origin: options.origin ?? window.location.origin, branding };
+  switch (request.kind) {
+    case 'data_destruction_certificate':
+      return renderDataDestructionCertificate(request.booking, request.records, resolved);
+    case 'chain_of_custody':
+      return renderChainOfCustodyCertificate(request.booking, request.certificate, resolved);
+    case 'grading_report':
+      return renderGradingReport(request.booking, request.records, resolved);
+    case 'booking_summary':
+      return renderBookingSummary(request.booking, request.gradingRecords, request.sanitisationRecords, resolved);
+    case 'shipping_label':
+      return renderShippingLabel(request.shipment, resolved);
+  }
+}
+
+export async function downloadPdfDocument(request: PdfDocumentRequest, branding: PdfBranding, options: PdfRenderOptions) {
+  const { doc, filename } = await renderPdfDocument(request, branding, options);
+  downloadPdf(doc, filename);
+}
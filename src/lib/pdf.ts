@@ -0,0 +1,390 @@
+// PDF rendering - tenant-branded A4 documents built in the browser with jsPDF
+// Every document shares one layout: a header band in the tenant's primary colour with
+// its logo, fixed margins, tables that repeat their header row across page breaks, and
+// a footer with the verification QR code and page numbers. Measurements are millimetres.
+import { jsPDF } from 'jspdf';
+import { QRCodeDecoderErrorCorrectionLevel, QRCodeEncoder } from '@zxing/library';
+
+export interface PdfBranding {
+  tenantName: string;
+  logo?: string; // Any image URL the browser can decode - re-encoded as PNG for the PDF
+  primaryColor: string; // HSL components as in TenantThemeContext, e.g. '168, 70%, 35%'
+  accentColor: string;
+}
+
+export interface PdfVerification {
+  url: string; // Encoded in the QR code
+  code: string; // Printed beside it so a paper copy can be checked by hand
+}
+
+export interface PdfTableColumn {
+  header: string;
+  width: number; // Share of the content width; a table's widths should add up to 1
+  align?: 'left' | 'right';
+  mono?: boolean;
+}
+
+type Rgb = [number, number, number];
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const HEADER_HEIGHT = 26;
+const FOOTER_HEIGHT = 30;
+const CONTENT_TOP = HEADER_HEIGHT + 12;
+const CONTENT_BOTTOM = PAGE_HEIGHT - FOOTER_HEIGHT - 4;
+const QR_SIZE = 22;
+const LINE_HEIGHT = 4.6;
+const TABLE_ROW_PADDING = 1.6;
+
+const TEXT_COLOR: Rgb = [30, 41, 59];
+const MUTED_COLOR: Rgb = [100, 116, 139];
+const RULE_COLOR: Rgb = [226, 232, 240];
+const STRIPE_COLOR: Rgb = [248, 250, 252];
+
+/**
+ * 'h, s%, l%' (the CSS variable format the theme uses) to RGB. Falls back to slate
+ * when the value doesn't parse.
+ */
+export function hslToRgb(hsl: string): Rgb {
+  const match = /^\s*([\d.]+)\s*,?\s*([\d.]+)%\s*,?\s*([\d.]+)%\s*$/.exec(hsl);
+  if (!match) return [51, 65, 85];
+  const h = Number(match[1]) / 360;
+  const s = Number(match[2]) / 100;
+  const l = Number(match[3]) / 100;
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (offset: number) => {
+    let t = h + offset;
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+  return [channel(1 / 3), channel(0), channel(-1 / 3)].map((value) => Math.round(value * 255)) as Rgb;
+}
+
+interface LoadedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * jsPDF only embeds PNG and JPEG, so the logo (AVIF, SVG, ...) is redrawn on a canvas.
+ * Null when it can't be loaded - the header then shows the tenant name alone.
+ */
+async function loadImageAsPng(url: string): Promise<LoadedImage | null> {
+  try {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.src = url;
+    await image.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    canvas.getContext('2d')?.drawImage(image, 0, 0);
+    return { dataUrl: canvas.toDataURL('image/png'), width: image.naturalWidth, height: image.naturalHeight };
+  } catch (error) {
+    console.warn('Failed to load logo for PDF:', error);
+    return null;
+  }
+}
+
+/**
+ * Draw a QR code as filled modules - vector, so it stays sharp when printed
+ */
+export function drawQrCode(doc: jsPDF, content: string, x: number, y: number, size: number) {
+  const matrix = QRCodeEncoder.encode(content, QRCodeDecoderErrorCorrectionLevel.M).getMatrix();
+  const modules = matrix.getWidth();
+  const moduleSize = size / modules;
+  doc.setFillColor(0, 0, 0);
+  for (let row = 0; row < modules; row++) {
+    // One rectangle per run of dark modules keeps the file small
+    let column = 0;
+    while (column < modules) {
+      if (matrix.get(column, row) !== 1) {
+        column++;
+        continue;
+      }
+      const start = column;
+      while (column < modules && matrix.get(column, row) === 1) column++;
+      // Slight overlap stops hairline gaps between rows in some viewers
+      doc.rect(x + start * moduleSize, y + row * moduleSize, (column - start) * moduleSize, moduleSize + 0.05, 'F');
+    }
+  }
+}
+
+/**
+ * Lays out one branded document. Content methods advance a cursor and start a new
+ * page when the next block wouldn't fit; finish() draws the footers once the page
+ * count is known.
+ */
+export class PdfDocumentBuilder {
+  readonly doc: jsPDF;
+  private y = CONTENT_TOP;
+  private readonly primary: Rgb;
+  private readonly accent: Rgb;
+
+  private constructor(
+    private readonly branding: PdfBranding,
+    private readonly logo: LoadedImage | null,
+    private readonly title: string,
+    private readonly reference: string
+  ) {
+    this.doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+    this.primary = hslToRgb(branding.primaryColor);
+    this.accent = hslToRgb(branding.accentColor);
+    this.doc.setProperties({ title: `${title} - ${reference}`, author: branding.tenantName, creator: branding.tenantName });
+    this.drawHeader();
+  }
+
+  static async create(branding: PdfBranding, title: string, reference: string): Promise<PdfDocumentBuilder> {
+    const logo = branding.logo ? await loadImageAsPng(branding.logo) : null;
+    return new PdfDocumentBuilder(branding, logo, title, reference);
+  }
+
+  /**
+   * Document title and subtitle, at the top of the first page
+   */
+  titleBlock(subtitle?: string) {
+    this.setText(18, 'bold', TEXT_COLOR);
+    this.doc.text(this.title, MARGIN, this.y + 4);
+    this.y += 10;
+    if (subtitle) {
+      this.setText(10, 'normal', MUTED_COLOR);
+      const lines = this.doc.splitTextToSize(subtitle, CONTENT_WIDTH);
+      this.doc.text(lines, MARGIN, this.y);
+      this.y += lines.length * LINE_HEIGHT;
+    }
+    this.y += 4;
+  }
+
+  section(title: string) {
+    this.ensureSpace(14);
+    this.y += 3;
+    this.setText(11, 'bold', this.primary);
+    this.doc.text(title.toUpperCase(), MARGIN, this.y);
+    this.doc.setDrawColor(...this.accent);
+    this.doc.setLineWidth(0.4);
+    this.doc.line(MARGIN, this.y + 1.8, MARGIN + CONTENT_WIDTH, this.y + 1.8);
+    this.y += 7;
+  }
+
+  paragraph(text: string, options: { muted?: boolean; size?: number } = {}) {
+    this.setText(options.size ?? 9.5, 'normal', options.muted ? MUTED_COLOR : TEXT_COLOR);
+    const lines: string[] = this.doc.splitTextToSize(text, CONTENT_WIDTH);
+    lines.forEach((line) => {
+      this.ensureSpace(LINE_HEIGHT);
+      this.doc.text(line, MARGIN, this.y);
+      this.y += LINE_HEIGHT;
+    });
+    this.y += 2;
+  }
+
+  /**
+   * Label/value pairs in two columns
+   */
+  keyValues(rows: Array<[string, string | number | null | undefined]>) {
+    const columnWidth = CONTENT_WIDTH / 2;
+    const filled = rows.filter(([, value]) => value !== null && value !== undefined && value !== '');
+    for (let index = 0; index < filled.length; index += 2) {
+      const pair = filled.slice(index, index + 2);
+      this.setText(9.5, 'normal', TEXT_COLOR);
+      const heights = pair.map(([, value]) => this.doc.splitTextToSize(String(value), columnWidth - 4).length);
+      const height = 4 + Math.max(...heights) * LINE_HEIGHT;
+      this.ensureSpace(height);
+      pair.forEach(([label, value], column) => {
+        const x = MARGIN + column * columnWidth;
+        this.setText(7.5, 'bold', MUTED_COLOR);
+        this.doc.text(label.toUpperCase(), x, this.y);
+        this.setText(9.5, 'normal', TEXT_COLOR);
+        this.doc.text(this.doc.splitTextToSize(String(value), columnWidth - 4), x, this.y + 4.2);
+      });
+      this.y += height + 1.5;
+    }
+    this.y += 1;
+  }
+
+  /**
+   * Headline figures in a row of tinted boxes
+   */
+  stats(items: Array<{ label: string; value: string }>) {
+    const gap = 4;
+    const width = (CONTENT_WIDTH - gap * (items.length - 1)) / items.length;
+    const height = 17;
+    this.ensureSpace(height + 3);
+    items.forEach((item, index) => {
+      const x = MARGIN + index * (width + gap);
+      this.doc.setFillColor(...STRIPE_COLOR);
+      this.doc.setDrawColor(...RULE_COLOR);
+      this.doc.setLineWidth(0.2);
+      this.doc.roundedRect(x, this.y, width, height, 1.5, 1.5, 'FD');
+      this.setText(7.5, 'bold', MUTED_COLOR);
+      this.doc.text(item.label.toUpperCase(), x + 3, this.y + 5.5);
+      this.setText(14, 'bold', this.primary);
+      this.doc.text(item.value, x + 3, this.y + 13);
+    });
+    this.y += height + 5;
+  }
+
+  table(columns: PdfTableColumn[], rows: string[][], emptyMessage = 'None recorded') {
+    const widths = columns.map((column) => column.width * CONTENT_WIDTH);
+    const drawHeaderRow = () => {
+      const height = LINE_HEIGHT + TABLE_ROW_PADDING * 2;
+      this.doc.setFillColor(...this.primary);
+      this.doc.rect(MARGIN, this.y, CONTENT_WIDTH, height, 'F');
+      this.setText(8, 'bold', [255, 255, 255]);
+      let x = MARGIN;
+      columns.forEach((column, index) => {
+        this.cellText(column.header, x, widths[index], column.align, this.y + TABLE_ROW_PADDING + 3.2);
+        x += widths[index];
+      });
+      this.y += height;
+    };
+
+    this.ensureSpace(LINE_HEIGHT * 3);
+    drawHeaderRow();
+
+    if (rows.length === 0) {
+      this.setText(9, 'normal', MUTED_COLOR);
+      this.doc.text(emptyMessage, MARGIN + 2, this.y + 5);
+      this.y += 9;
+      return;
+    }
+
+    rows.forEach((row, rowIndex) => {
+      const cells = row.map((value, index) => {
+        this.setCellFont(columns[index]);
+        return this.doc.splitTextToSize(value || '-', widths[index] - 3) as string[];
+      });
+      const height = Math.max(...cells.map((lines) => lines.length)) * LINE_HEIGHT + TABLE_ROW_PADDING * 2;
+      if (this.y + height > CONTENT_BOTTOM) {
+        this.addPage();
+        drawHeaderRow();
+      }
+      if (rowIndex % 2 === 1) {
+        this.doc.setFillColor(...STRIPE_COLOR);
+        this.doc.rect(MARGIN, this.y, CONTENT_WIDTH, height, 'F');
+      }
+      let x = MARGIN;
+      cells.forEach((lines, index) => {
+        this.setCellFont(columns[index]);
+        this.cellText(lines, x, widths[index], columns[index].align, this.y + TABLE_ROW_PADDING + 3.2);
+        x += widths[index];
+      });
+      this.y += height;
+      this.doc.setDrawColor(...RULE_COLOR);
+      this.doc.setLineWidth(0.2);
+      this.doc.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y);
+    });
+    this.y += 5;
+  }
+
+  /**
+   * Signature line for whoever issued the document
+   */
+  signOff(name: string, role: string, date: string) {
+    this.ensureSpace(22);
+    this.y += 8;
+    this.doc.setDrawColor(...TEXT_COLOR);
+    this.doc.setLineWidth(0.3);
+    this.doc.line(MARGIN, this.y, MARGIN + 70, this.y);
+    this.setText(9.5, 'bold', TEXT_COLOR);
+    this.doc.text(name, MARGIN, this.y + 5);
+    this.setText(8.5, 'normal', MUTED_COLOR);
+    this.doc.text(`${role} - ${date}`, MARGIN, this.y + 9.5);
+    this.y += 14;
+  }
+
+  /**
+   * Draw every page's footer and return the finished document
+   */
+  finish(verification: PdfVerification): jsPDF {
+    const pageCount = this.doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+      this.doc.setPage(page);
+      const top = PAGE_HEIGHT - FOOTER_HEIGHT;
+      this.doc.setDrawColor(...RULE_COLOR);
+      this.doc.setLineWidth(0.3);
+      this.doc.line(MARGIN, top, MARGIN + CONTENT_WIDTH, top);
+
+      drawQrCode(this.doc, verification.url, MARGIN, top + 4, QR_SIZE);
+      const textX = MARGIN + QR_SIZE + 5;
+      this.setText(8, 'bold', TEXT_COLOR);
+      this.doc.text('Verify this document', textX, top + 8);
+      this.setText(7.5, 'normal', MUTED_COLOR);
+      this.doc.text(`Verification code: ${verification.code}`, textX, top + 12.5);
+      this.doc.text(this.doc.splitTextToSize(verification.url, CONTENT_WIDTH - QR_SIZE - 40), textX, top + 17);
+
+      this.doc.text(`Page ${page} of ${pageCount}`, MARGIN + CONTENT_WIDTH, top + 8, { align: 'right' });
+      this.doc.text(this.reference, MARGIN + CONTENT_WIDTH, top + 12.5, { align: 'right' });
+    }
+    this.doc.setPage(pageCount);
+    return this.doc;
+  }
+
+  private drawHeader() {
+    this.doc.setFillColor(...this.primary);
+    this.doc.rect(0, 0, PAGE_WIDTH, HEADER_HEIGHT, 'F');
+    this.doc.setFillColor(...this.accent);
+    this.doc.rect(0, HEADER_HEIGHT, PAGE_WIDTH, 1.2, 'F');
+
+    let textX = MARGIN;
+    if (this.logo) {
+      const height = 14;
+      const width = Math.min(40, (this.logo.width / this.logo.height) * height);
+      // White plate so dark and transparent logos read on the brand colour
+      this.doc.setFillColor(255, 255, 255);
+      this.doc.roundedRect(MARGIN - 2, (HEADER_HEIGHT - height) / 2 - 2, width + 4, height + 4, 1.5, 1.5, 'F');
+      this.doc.addImage(this.logo.dataUrl, 'PNG', MARGIN, (HEADER_HEIGHT - height) / 2, width, height);
+      textX = MARGIN + width + 6;
+    }
+    this.setText(12, 'bold', [255, 255, 255]);
+    this.doc.text(this.branding.tenantName, textX, HEADER_HEIGHT / 2 + 1);
+    this.setText(8.5, 'normal', [255, 255, 255]);
+    this.doc.text(this.title, MARGIN + CONTENT_WIDTH, HEADER_HEIGHT / 2 - 1.5, { align: 'right' });
+    this.doc.text(this.reference, MARGIN + CONTENT_WIDTH, HEADER_HEIGHT / 2 + 3.5, { align: 'right' });
+  }
+
+  private addPage() {
+    this.doc.addPage('a4', 'portrait');
+    this.drawHeader();
+    this.y = CONTENT_TOP;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y + height > CONTENT_BOTTOM) {
+      this.addPage();
+    }
+  }
+
+  private setText(size: number, style: 'normal' | 'bold', color: Rgb) {
+    this.doc.setFont('helvetica', style);
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(...color);
+  }
+
+  private setCellFont(column: PdfTableColumn) {
+    this.setText(column.mono ? 7.5 : 8.5, 'normal', TEXT_COLOR);
+    if (column.mono) this.doc.setFont('courier', 'normal');
+  }
+
+  private cellText(text: string | string[], x: number, width: number, align: PdfTableColumn['align'], y: number) {
+    if (align === 'right') {
+      this.doc.text(text, x + width - 1.5, y, { align: 'right' });
+    } else {
+      this.doc.text(text, x + 1.5, y);
+    }
+  }
+}
+
+/**
+ * Trigger a browser download of a finished document
+ */
+export function downloadPdf(doc: jsPDF, filename: string) {
+  doc.save(filename.endsWith('.pdf') ? filename : `${filename}.pdf`);
+}
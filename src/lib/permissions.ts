@@ -1,163 +1,241 @@
 // Centralized Permission System
-import type { UserRole } from '@/types/auth';
-
-export type Permission = 
-  // Job permissions
-  | 'jobs.view.all'
-  | 'jobs.view.own'
-  | 'jobs.view.assigned'
-  | 'jobs.create'
-  | 'jobs.update.status'
-  | 'jobs.update.evidence'
-  | 'jobs.view.driver'
-  
-  // Booking permissions
-  | 'bookings.view.all'
-  | 'bookings.view.own'
-  | 'bookings.view.client'
-  | 'bookings.create'
-  | 'bookings.create.for.client'
-  
-  // User management
-  | 'users.view.all'
-  | 'users.invite'
-  | 'users.manage'
-  
-  // Client management
-  | 'clients.view.all'
-  | 'clients.view.own'
-  | 'clients.manage'
-  
-  // Reseller permissions
-  | 'resellers.view.all'
-  | 'resellers.manage'
-  
-  // Documents
-  | 'documents.view.all'
-  | 'documents.view.own'
-  | 'documents.download'
-  
-  // Settings
-  | 'settings.organisation'
-  | 'settings.integrations'
-  | 'settings.users'
-  | 'settings.security';
-
-// Role-based permission mapping
-const rolePermissions: Record<UserRole, Permission[]> = {
-  admin: [
-    // Jobs
-    'jobs.view.all',
-    'jobs.create',
-    'jobs.update.status',
-    'jobs.view.driver',
-    
-    // Bookings
-    'bookings.view.all',
-    'bookings.create',
-    'bookings.create.for.client',
-    
-    // User management
-    'users.view.all',
-    'users.invite',
-    'users.manage',
-    
-    // Client management
-    'clients.view.all',
-    'clients.manage',
-    
-    // Reseller management
-    'resellers.view.all',
-    'resellers.manage',
-    
-    // Documents
-    'documents.view.all',
-    'documents.download',
-    
-    // Settings
-    'settings.organisation',
-    'settings.integrations',
-    'settings.users',
-    'settings.security',
-  ],
-  
+// Permissions are evaluated from policies: the built-in grants for each UserRole,
+// tenant-defined custom roles that replace them, and extra grants attached to a user.
+import type { User, UserRole } from '@/types/auth';
+import type { Permission, PermissionGrant, PermissionScope, RoleDefinition } from '@/types/permissions';
+
+export type { Permission, PermissionGrant, PermissionScope, RoleDefinition } from '@/types/permissions';
+
+// Narrowest first - a grant covers its own scope and every scope before it
+export const PERMISSION_SCOPES: PermissionScope[] = ['own', 'client', 'reseller', 'all'];
+
+export const scopeLabels: Record<PermissionScope, string> = {
+  own: 'Own records',
+  client: 'Their organisation',
+  reseller: 'All reseller clients',
+  all: 'Everything',
+};
+
+// Grouped for display when building custom roles
+export const permissionCatalog: Array<{ group: string; permissions: Array<{ id: Permission; label: string }> }> = [
+  {
+    group: 'Jobs',
+    permissions: [
+      { id: 'jobs.view', label: 'View jobs' },
+      { id: 'jobs.create', label: 'Create jobs' },
+      { id: 'jobs.update.status', label: 'Update job status' },
+      { id: 'jobs.update.evidence', label: 'Upload job evidence' },
+      { id: 'jobs.view.driver', label: 'Driver job view' },
+    ],
+  },
+  {
+    group: 'Bookings',
+    permissions: [
+      { id: 'bookings.view', label: 'View bookings' },
+      { id: 'bookings.create', label: 'Create bookings' },
+      { id: 'bookings.create.for.client', label: 'Book on behalf of clients' },
+      { id: 'bookings.manage', label: 'Process bookings' },
+    ],
+  },
+  {
+    group: 'Users & Access',
+    permissions: [
+      { id: 'users.view', label: 'View users' },
+      { id: 'users.invite', label: 'Invite users' },
+      { id: 'users.manage', label: 'Manage users' },
+      { id: 'roles.manage', label: 'Manage roles' },
+    ],
+  },
+  {
+    group: 'Clients & Resellers',
+    permissions: [
+      { id: 'clients.view', label: 'View clients' },
+      { id: 'clients.manage', label: 'Manage clients' },
+      { id: 'resellers.view', label: 'View resellers' },
+      { id: 'resellers.manage', label: 'Manage resellers' },
+    ],
+  },
+  {
+    group: 'Operations',
+    permissions: [
+      { id: 'sites.view', label: 'View sites' },
+      { id: 'sites.manage', label: 'Manage sites' },
+      { id: 'inventory.view', label: 'View inventory' },
+      { id: 'fleet.manage', label: 'Manage drivers & vehicles' },
+      { id: 'warehouses.manage', label: 'Manage warehouses' },
+      { id: 'co2e.view', label: 'View CO₂e reporting' },
+      { id: 'co2e.restate', label: 'Restate CO₂e under a new factor set' },
+    ],
+  },
+  {
+    group: 'Documents',
+    permissions: [
+      { id: 'documents.view', label: 'View documents' },
+      { id: 'documents.download', label: 'Download documents' },
+    ],
+  },
+  {
+    group: 'Settings',
+    permissions: [
+      { id: 'settings.organisation', label: 'Organisation settings' },
+      { id: 'settings.integrations', label: 'Integration settings' },
+      { id: 'settings.users', label: 'User settings' },
+      { id: 'settings.security', label: 'Security settings' },
+    ],
+  },
+];
+
+const grant = (scope: PermissionScope, permissions: Permission[]): PermissionGrant[] =>
+  permissions.map((permission) => ({ permission, scope }));
+
+// Built-in policy for each role, used when the user has no custom role. Only admins manage
+// users and roles by default; tenants hand that to others through a custom role.
+const systemRoleGrants: Record<UserRole, PermissionGrant[]> = {
+  admin: grant(
+    'all',
+    permissionCatalog.flatMap((group) => group.permissions.map((permission) => permission.id))
+  ),
+
   client: [
-    // Jobs
-    'jobs.view.own',
-    'jobs.create',
-    
-    // Bookings
-    'bookings.view.own',
-    'bookings.create',
-    
-    // Documents
-    'documents.view.own',
-    'documents.download',
-    
-    // Settings
-    'settings.organisation',
-    'settings.integrations',
-    'settings.security',
+    ...grant('client', [
+      'jobs.view',
+      'jobs.create',
+      'bookings.view',
+      'bookings.create',
+      'sites.view',
+      'sites.manage',
+      'inventory.view',
+      'co2e.view',
+      'documents.view',
+      'documents.download',
+    ]),
+    ...grant('own', ['settings.organisation', 'settings.integrations', 'settings.security']),
   ],
-  
+
   reseller: [
-    // Jobs
-    'jobs.view.own',
-    'jobs.create',
-    
-    // Bookings
-    'bookings.view.client',
-    'bookings.create',
-    'bookings.create.for.client',
-    
-    // Client management
-    'clients.view.own',
-    'clients.manage',
-    
-    // Documents
-    'documents.view.own',
-    'documents.download',
-    
-    // Settings
-    'settings.organisation',
-    'settings.integrations',
-    'settings.security',
-  ],
-  
-  driver: [
-    // Jobs
-    'jobs.view.assigned',
-    'jobs.update.status',
-    'jobs.update.evidence',
-    'jobs.view.driver',
+    ...grant('reseller', [
+      'jobs.view',
+      'jobs.create',
+      'bookings.view',
+      'bookings.create',
+      'bookings.create.for.client',
+      'clients.view',
+      'clients.manage',
+      'co2e.view',
+      'documents.view',
+      'documents.download',
+    ]),
+    ...grant('own', ['settings.organisation', 'settings.integrations', 'settings.security']),
   ],
+
+  driver: grant('own', ['jobs.view', 'jobs.update.status', 'jobs.update.evidence', 'jobs.view.driver']),
 };
 
 /**
- * Check if a role has a specific permission
+ * Get the built-in grants for a role
+ */
+export function getSystemRoleGrants(role: UserRole): PermissionGrant[] {
+  return systemRoleGrants[role] ?? [];
+}
+
+/**
+ * Check whether a granted scope reaches at least as far as the required one
+ */
+export function scopeCovers(granted: PermissionScope, required: PermissionScope): boolean {
+  return PERMISSION_SCOPES.indexOf(granted) >= PERMISSION_SCOPES.indexOf(required);
+}
+
+/**
+ * Work out the effective grants for a user: their custom role (or the
+ * built-in role when they have none) plus any grants attached directly.
+ * A custom role that has not been loaded grants nothing.
  */
-export function hasPermission(role: UserRole, permission: Permission): boolean {
-  return rolePermissions[role]?.includes(permission) ?? false;
+export function resolveGrants(
+  user: Pick<User, 'role' | 'customRoleId' | 'permissions'>,
+  customRole?: RoleDefinition | null
+): PermissionGrant[] {
+  let roleGrants = getSystemRoleGrants(user.role);
+  if (user.customRoleId) {
+    roleGrants = customRole?.id === user.customRoleId ? customRole.grants : [];
+  }
+  return [...roleGrants, ...(user.permissions ?? [])];
 }
 
 /**
- * Check if a role has any of the specified permissions
+ * Get the broadest scope granted for a permission, or null when not granted
  */
-export function hasAnyPermission(role: UserRole, permissions: Permission[]): boolean {
-  return permissions.some(permission => hasPermission(role, permission));
+export function getPermissionScope(grants: PermissionGrant[], permission: Permission): PermissionScope | null {
+  return grants
+    .filter((candidate) => candidate.permission === permission)
+    .reduce<PermissionScope | null>(
+      (broadest, candidate) => (!broadest || scopeCovers(candidate.scope, broadest) ? candidate.scope : broadest),
+      null
+    );
 }
 
 /**
- * Check if a role has all of the specified permissions
+ * Check if the grants include a permission reaching at least the given scope
  */
-export function hasAllPermissions(role: UserRole, permissions: Permission[]): boolean {
-  return permissions.every(permission => hasPermission(role, permission));
+export function hasPermission(grants: PermissionGrant[], permission: Permission, scope: PermissionScope = 'own'): boolean {
+  const granted = getPermissionScope(grants, permission);
+  return granted !== null && scopeCovers(granted, scope);
 }
 
 /**
- * Get all permissions for a role
+ * Check if the grants include any of the specified permissions
  */
-export function getRolePermissions(role: UserRole): Permission[] {
-  return rolePermissions[role] ?? [];
+export function hasAnyPermission(grants: PermissionGrant[], permissions: Permission[], scope?: PermissionScope): boolean {
+  return permissions.some(permission => hasPermission(grants, permission, scope));
 }
 
+/**
+ * Check if the grants include all of the specified permissions
+ */
+export function hasAllPermissions(grants: PermissionGrant[], permissions: Permission[], scope?: PermissionScope): boolean {
+  return permissions.every(permission => hasPermission(grants, permission, scope));
+}
+
+export interface ScopeSubject {
+  id: string;
+  clientId?: string;
+  resellerId?: string;
+}
+
+export interface ScopedRecord {
+  ownerId?: string;
+  clientId?: string;
+  resellerId?: string;
+}
+
+/**
+ * Check whether a record falls inside a scope for the given user
+ */
+export function isInScope(scope: PermissionScope, subject: ScopeSubject, record: ScopedRecord): boolean {
+  if (scope === 'all') return true;
+  if (record.ownerId && record.ownerId === subject.id) return true;
+  if (scopeCovers(scope, 'client') && subject.clientId && record.clientId === subject.clientId) return true;
+  if (scopeCovers(scope, 'reseller') && subject.resellerId && record.resellerId === subject.resellerId) return true;
+  return false;
+}
+
+/**
+ * Check if a permission is granted for a specific record
+ */
+export function canAccessRecord(
+  grants: PermissionGrant[],
+  permission: Permission,
+  subject: ScopeSubject,
+  record: ScopedRecord
+): boolean {
+  const scope = getPermissionScope(grants, permission);
+  return scope !== null && isInScope(scope, subject, record);
+}
+
+/**
+ * Scopes of a permission the holder of these grants may hand out - nobody can
+ * grant more than they hold, so resellers and clients can only narrow access
+ */
+export function getAssignableScopes(grants: PermissionGrant[], permission: Permission): PermissionScope[] {
+  const granted = getPermissionScope(grants, permission);
+  return granted ? PERMISSION_SCOPES.filter((scope) => scopeCovers(granted, scope)) : [];
+}
@@ -0,0 +1,88 @@
+// Returns kit rules - reminders to the leaver and escalation when the devices don't come back
+// The leaver is emailed ahead of their leaving date until the carrier has the return parcel.
+// If it hasn't reached the warehouse a few working days after the leaving date, the client
+// is told so they can chase the leaver. Dates are in working days, like the JML schedule.
+import { addBusinessDays, format, parseISO, startOfDay, subBusinessDays } from 'date-fns';
+import type { Shipment } from '@/types/carriers';
+import type { LeaverFulfilment, ReturnsKit } from '@/types/returns-kit';
+
+// Working days before the leaving date the leaver is reminded to post the devices
+export const RETURNS_KIT_REMINDER_DAYS = [3, 1];
+
+// Working days after the leaving date the devices must be back at the warehouse
+export const RETURNS_KIT_RETURN_DAYS = 5;
+
+export const leaverFulfilmentConfig: Record<LeaverFulfilment, { label: string; description: string }> = {
+  collection: {
+    label: 'Driver collection',
+    description: 'A driver or courier collects the devices from the leaver',
+  },
+  returns_kit: {
+    label: 'Returns kit',
+    description: 'We post a box and prepaid label and the leaver sends the devices back',
+  },
+};
+
+export type ReturnsKitStage = 'kit_sent' | 'with_leaver' | 'returning' | 'received' | 'overdue';
+
+export const returnsKitStageConfig: Record<ReturnsKitStage, { label: string; className: string }> = {
+  kit_sent: { label: 'Kit on its way', className: 'bg-primary/10 text-primary' },
+  with_leaver: { label: 'With leaver', className: 'bg-muted text-muted-foreground' },
+  returning: { label: 'Returning', className: 'bg-primary/10 text-primary' },
+  received: { label: 'Received', className: 'bg-success/10 text-success' },
+  overdue: { label: 'Not returned', className: 'bg-destructive/10 text-destructive' },
+};
+
+/**
+ * The date the devices must be back at the warehouse, for a leaving date ('yyyy-MM-dd')
+ */
+export function getReturnsKitDeadline(leavingDate: string): string {
+  return format(addBusinessDays(parseISO(leavingDate), RETURNS_KIT_RETURN_DAYS), 'yyyy-MM-dd');
+}
+
+/**
+ * Whether the leaver still has the devices - the carrier hasn't taken the return parcel
+ */
+export function isAwaitingLeaver(returnShipment: Pick<Shipment, 'status'>): boolean {
+  return returnShipment.status === 'label_created' || returnShipment.status === 'exception';
+}
+
+/**
+ * The reminder due now (as working days before the leaving date), or null. Only the latest
+ * reminder that has come due is sent - a kit issued late doesn't send the earlier ones too.
+ */
+export function getDueReturnsKitReminder(
+  kit: Pick<ReturnsKit, 'reminders'>,
+  returnShipment: Pick<Shipment, 'status'>,
+  leavingDate: string,
+  today: Date = new Date()
+): number | null {
+  if (!isAwaitingLeaver(returnShipment)) return null;
+  const start = startOfDay(today);
+  const leaving = parseISO(leavingDate);
+  if (leaving < start) return null;
+
+  const due = RETURNS_KIT_REMINDER_DAYS.filter((days) => subBusinessDays(leaving, days) <= start);
+  if (due.length === 0) return null;
+  const latest = Math.min(...due);
+  return kit.reminders.some((reminder) => reminder.daysBefore <= latest) ? null : latest;
+}
+
+/**
+ * Past the return deadline without the devices reaching the warehouse
+ */
+export function isReturnsKitOverdue(kit: Pick<ReturnsKit, 'returnDeadline' | 'receivedAt'>, today: Date = new Date()): boolean {
+  return !kit.receivedAt && parseISO(kit.returnDeadline) < startOfDay(today);
+}
+
+export function getReturnsKitStage(
+  kit: Pick<ReturnsKit, 'returnDeadline' | 'receivedAt'>,
+  kitShipment: Pick<Shipment, 'status'> | undefined,
+  returnShipment: Pick<Shipment, 'status'> | undefined,
+  today: Date = new Date()
+): ReturnsKitStage {
+  if (kit.receivedAt) return 'received';
+  if (isReturnsKitOverdue(kit, today)) return 'overdue';
+  if (returnShipment && !isAwaitingLeaver(returnShipment)) return 'returning';
+  return kitShipment?.status === 'delivered' ? 'with_leaver' : 'kit_sent';
+}
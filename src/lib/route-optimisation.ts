@@ -0,0 +1,233 @@
+// Multi-stop route planning for driver days
+// Orders a driver's collections into a depot → stops → depot tour using
+// nearest-neighbour construction improved with 2-opt. Distances come from a
+// pluggable distance matrix provider: the OSRM table service by default, or a
+// straight-line estimate in mock mode and whenever OSRM is unavailable.
+import { createTimeoutSignal } from './abort';
+import { OSRM_BASE_URL, USE_MOCKS } from './config';
+import { calculateStraightLineDistance } from './routing';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface RouteStop extends LatLng {
+  id: string;
+  label: string;
+}
+
+export interface DistanceMatrixProvider {
+  name: string;
+  isEstimate: boolean;
+  /** Road distances in km, matrix[from][to] */
+  getMatrix: (points: LatLng[], signal?: AbortSignal) => Promise<number[][]>;
+}
+
+export interface RoutePlan {
+  depot: LatLng;
+  stops: RouteStop[]; // In visiting order
+  legDistancesKm: number[]; // depot → stop 1, ..., last stop → depot
+  totalDistanceKm: number;
+  allocatedDistanceKm: Record<string, number>; // Route distance attributed to each stop, keyed by stop id
+  provider: string;
+  isEstimate: boolean;
+}
+
+// Road distance is typically ~1.3x straight-line distance (same approximation as routing.ts)
+const ROAD_DISTANCE_FACTOR = 1.3;
+
+const OSRM_TIMEOUT_MS = 8000;
+
+// The public OSRM demo rejects larger tables
+const OSRM_MAX_POINTS = 100;
+
+/**
+ * Straight-line distances scaled to approximate roads - no network access
+ */
+export const estimatedDistanceProvider: DistanceMatrixProvider = {
+  name: 'Estimated (straight-line)',
+  isEstimate: true,
+  getMatrix: async (points) =>
+    points.map((from) =>
+      points.map((to) => calculateStraightLineDistance(from.lat, from.lng, to.lat, to.lng) * ROAD_DISTANCE_FACTOR)
+    ),
+};
+
+/**
+ * Road distances from an OSRM table service
+ */
+export function createOsrmTableProvider(baseUrl: string = OSRM_BASE_URL): DistanceMatrixProvider {
+  return {
+    name: 'OSRM',
+    isEstimate: false,
+    getMatrix: async (points, signal) => {
+      if (points.length > OSRM_MAX_POINTS) {
+        throw new Error(`OSRM table supports at most ${OSRM_MAX_POINTS} points`);
+      }
+
+      const coordinates = points.map((point) => `${point.lng},${point.lat}`).join(';');
+      const timeout = createTimeoutSignal(OSRM_TIMEOUT_MS, signal);
+
+      const response = await fetch(`${baseUrl}/table/v1/driving/${coordinates}?annotations=distance`, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+        },
+        signal: timeout.signal,
+      }).finally(timeout.cleanup);
+
+      if (!response.ok) {
+        throw new Error(`OSRM table request failed (${response.status})`);
+      }
+
+      const data = await response.json();
+      if (data.code !== 'Ok' || !Array.isArray(data.distances)) {
+        throw new Error(`OSRM table error: ${data.code || 'unexpected response'}`);
+      }
+
+      // OSRM returns metres, and null where no route exists
+      return (data.distances as Array<Array<number | null>>).map((row, from) =>
+        row.map((metres, to) =>
+          metres === null
+            ? calculateStraightLineDistance(points[from].lat, points[from].lng, points[to].lat, points[to].lng) * ROAD_DISTANCE_FACTOR
+            : metres / 1000
+        )
+      );
+    },
+  };
+}
+
+let distanceMatrixProvider: DistanceMatrixProvider = USE_MOCKS ? estimatedDistanceProvider : createOsrmTableProvider();
+
+/**
+ * Replace the distance matrix provider (e.g. a self-hosted router or a stub)
+ */
+export function setDistanceMatrixProvider(provider: DistanceMatrixProvider) {
+  distanceMatrixProvider = provider;
+}
+
+export function getDistanceMatrixProvider(): DistanceMatrixProvider {
+  return distanceMatrixProvider;
+}
+
+/**
+ * Total length of a closed tour that starts and ends at index 0
+ */
+export function tourDistance(order: number[], matrix: number[][]): number {
+  let total = 0;
+  let previous = 0;
+  for (const index of order) {
+    total += matrix[previous][index];
+    previous = index;
+  }
+  return total + matrix[previous][0];
+}
+
+/**
+ * Build a tour by always driving to the closest unvisited stop.
+ * Index 0 is the depot; the returned order lists stop indexes only.
+ */
+export function nearestNeighbourOrder(matrix: number[][]): number[] {
+  const unvisited = new Set(matrix.map((_, index) => index).slice(1));
+  const order: number[] = [];
+  let current = 0;
+
+  while (unvisited.size > 0) {
+    let nearest = -1;
+    for (const candidate of unvisited) {
+      if (nearest === -1 || matrix[current][candidate] < matrix[current][nearest]) {
+        nearest = candidate;
+      }
+    }
+    order.push(nearest);
+    unvisited.delete(nearest);
+    current = nearest;
+  }
+
+  return order;
+}
+
+/**
+ * Improve a tour by reversing segments while that shortens it (2-opt).
+ * Works on the full distance (asymmetric matrices are fine, just slower to converge).
+ */
+export function twoOpt(order: number[], matrix: number[][], maxIterations = 100): number[] {
+  let best = [...order];
+  let bestDistance = tourDistance(best, matrix);
+  let improved = true;
+  let iterations = 0;
+
+  while (improved && iterations < maxIterations) {
+    improved = false;
+    iterations++;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let k = i + 1; k < best.length; k++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, k + 1).reverse(), ...best.slice(k + 1)];
+        const candidateDistance = tourDistance(candidate, matrix);
+        if (candidateDistance < bestDistance - 1e-9) {
+          best = candidate;
+          bestDistance = candidateDistance;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Plan the shortest practical depot → stops → depot route.
+ * Falls back to estimated distances if the provider fails.
+ */
+export async function planRoute(
+  depot: LatLng,
+  stops: RouteStop[],
+  options: { provider?: DistanceMatrixProvider; signal?: AbortSignal } = {}
+): Promise<RoutePlan> {
+  if (stops.length === 0) {
+    return { depot, stops: [], legDistancesKm: [], totalDistanceKm: 0, allocatedDistanceKm: {}, provider: 'none', isEstimate: false };
+  }
+
+  let provider = options.provider || distanceMatrixProvider;
+  const points = [depot, ...stops];
+  let matrix: number[][];
+
+  try {
+    matrix = await provider.getMatrix(points, options.signal);
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    console.warn(
+      `${provider.name} distance matrix unavailable, using estimated distances:`,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+    provider = estimatedDistanceProvider;
+    matrix = await provider.getMatrix(points);
+  }
+
+  const order = twoOpt(nearestNeighbourOrder(matrix), matrix);
+  const path = [0, ...order, 0];
+  const legDistancesKm = path.slice(1).map((to, index) => matrix[path[index]][to]);
+  const totalDistanceKm = legDistancesKm.reduce((sum, distance) => sum + distance, 0);
+
+  // Share the route between stops in proportion to what each would cost as its own round trip
+  const standaloneKm = stops.map((_, index) => matrix[0][index + 1] + matrix[index + 1][0]);
+  const standaloneTotalKm = standaloneKm.reduce((sum, distance) => sum + distance, 0);
+  const allocatedDistanceKm = Object.fromEntries(
+    stops.map((stop, index) => [
+      stop.id,
+      standaloneTotalKm > 0 ? (totalDistanceKm * standaloneKm[index]) / standaloneTotalKm : totalDistanceKm / stops.length,
+    ])
+  );
+
+  return {
+    depot,
+    stops: order.map((index) => stops[index - 1]),
+    legDistancesKm,
+    totalDistanceKm,
+    allocatedDistanceKm,
+    provider: provider.name,
+    isEstimate: provider.isEstimate,
+  };
+}
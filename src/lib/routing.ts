@@ -1,5 +1,6 @@
 // Road distance calculation using routing APIs (client-side)
 // Falls back to straight-line distance with multiplier if routing API is unavailable
+import { createTimeoutSignal } from './abort';
 
 /**
  * Calculate road distance using OSRM (Open Source Routing Machine) public API
@@ -15,18 +16,15 @@ async function calculateRoadDistanceOSRM(
     // OSRM public demo uses HTTP (router.project-osrm.org doesn't support HTTPS)
     const url = `http://router.project-osrm.org/route/v1/driving/${lon1},${lat1};${lon2},${lat2}?overview=false`;
     
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
+    const timeout = createTimeoutSignal(5000); // 5 second timeout
 
     const response = await fetch(url, {
       method: 'GET',
       headers: {
         'Accept': 'application/json',
       },
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
+      signal: timeout.signal,
+    }).finally(timeout.cleanup);
 
     if (!response.ok) {
       return null;
@@ -50,7 +48,7 @@ async function calculateRoadDistanceOSRM(
 /**
  * Calculate straight-line distance using Haversine formula (fallback)
  */
-function calculateStraightLineDistance(
+export function calculateStraightLineDistance(
   lat1: number,
   lon1: number,
   lat2: number,
@@ -0,0 +1,57 @@
+// In-memory log of backend responses that failed schema validation
+// Feeds the development overlay; nothing is persisted.
+
+export interface SchemaMismatchIssue {
+  path: string; // e.g. "[0].driver.vehicleType"
+  message: string;
+}
+
+export interface SchemaMismatch {
+  id: number;
+  method: string;
+  endpoint: string;
+  issues: SchemaMismatchIssue[];
+  occurredAt: string;
+}
+
+const MAX_ENTRIES = 20;
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+let mismatches: SchemaMismatch[] = [];
+let nextId = 0;
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Subscribe to log changes. Returns an unsubscribe function.
+ */
+export function subscribeToSchemaMismatches(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Most recent mismatches first (stable reference until the log changes)
+ */
+export function getSchemaMismatches(): SchemaMismatch[] {
+  return mismatches;
+}
+
+export function recordSchemaMismatch(mismatch: Omit<SchemaMismatch, 'id' | 'occurredAt'>): void {
+  mismatches = [
+    { ...mismatch, id: ++nextId, occurredAt: new Date().toISOString() },
+    ...mismatches,
+  ].slice(0, MAX_ENTRIES);
+  notify();
+}
+
+export function clearSchemaMismatches(): void {
+  mismatches = [];
+  notify();
+}
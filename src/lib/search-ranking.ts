@@ -0,0 +1,71 @@
+// Search ranking
+// Scores how well a record matches a search query, so results across entity
+// types can be merged into one ranked list. Used by the search endpoints.
+
+export interface SearchField {
+  value?: string | null;
+  weight?: number; // Identifiers (job numbers, serials) outrank free text
+}
+
+// Per query term, best match type wins
+const EXACT_SCORE = 100;
+const PREFIX_SCORE = 75;
+const WORD_PREFIX_SCORE = 55;
+const CONTAINS_SCORE = 30;
+
+/**
+ * Lowercase and drop spacing/punctuation so "RC24 EVN" matches "rc24evn" and
+ * "35-209900-176148-1" matches an IMEI typed without dashes
+ */
+function compact(value: string): string {
+  return value.toLowerCase().replace(/[\s\-_./]/g, '');
+}
+
+function scoreTerm(term: string, value: string): number {
+  const text = value.toLowerCase();
+  if (text === term) return EXACT_SCORE;
+  if (text.startsWith(term)) return PREFIX_SCORE;
+  if (text.split(/[\s,•-]+/).some((word) => word.startsWith(term))) return WORD_PREFIX_SCORE;
+  if (text.includes(term)) return CONTAINS_SCORE;
+
+  const compactTerm = compact(term);
+  if (compactTerm.length < 2) return 0;
+  const compactText = compact(value);
+  if (compactText === compactTerm) return EXACT_SCORE;
+  if (compactText.startsWith(compactTerm)) return PREFIX_SCORE;
+  if (compactText.includes(compactTerm)) return CONTAINS_SCORE;
+  return 0;
+}
+
+/**
+ * Score a record against a query (0 = no match). Every term must match at
+ * least one field; the whole query matching a field exactly scores highest.
+ */
+export function scoreSearchMatch(query: string, fields: SearchField[]): number {
+  const normalised = query.trim().toLowerCase();
+  if (!normalised) return 0;
+
+  const terms = normalised.split(/\s+/);
+  let total = 0;
+
+  for (const term of terms) {
+    let best = 0;
+    for (const field of fields) {
+      if (!field.value) continue;
+      best = Math.max(best, scoreTerm(term, field.value) * (field.weight ?? 1));
+    }
+    if (best === 0) return 0;
+    total += best;
+  }
+
+  // Multi-word queries that match one field as a phrase (e.g. a site name)
+  if (terms.length > 1) {
+    for (const field of fields) {
+      if (!field.value) continue;
+      const phraseScore = scoreTerm(normalised, field.value) * (field.weight ?? 1);
+      total = Math.max(total, phraseScore * terms.length);
+    }
+  }
+
+  return Math.round(total / terms.length);
+}
@@ -0,0 +1,104 @@
+// Warehouse selection helpers
+// Bookings are processed at the nearest active warehouse that can handle them and
+// is open on the collection day. Distances and travel emissions are measured from
+// that warehouse rather than a single fixed depot.
+import { DEFAULT_WAREHOUSE_COORDINATES } from './calculations';
+import { calculateStraightLineDistance } from './routing';
+import type { Warehouse, WarehouseCapability, Weekday } from '@/services/warehouse.service';
+
+export const warehouseCapabilityLabels: Record<WarehouseCapability, string> = {
+  collections: 'Collections',
+  sanitisation: 'Data sanitisation',
+  grading: 'Grading',
+  storage: 'Storage',
+  jml_fulfilment: 'JML fulfilment',
+};
+
+export const WEEKDAYS: Array<{ id: Weekday; label: string }> = [
+  { id: 'mon', label: 'Monday' },
+  { id: 'tue', label: 'Tuesday' },
+  { id: 'wed', label: 'Wednesday' },
+  { id: 'thu', label: 'Thursday' },
+  { id: 'fri', label: 'Friday' },
+  { id: 'sat', label: 'Saturday' },
+  { id: 'sun', label: 'Sunday' },
+];
+
+// Date#getDay() order
+const WEEKDAY_BY_INDEX: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Capabilities a warehouse needs to process a booking of the given type
+ */
+export function getRequiredCapabilities(bookingType?: 'itad_collection' | 'jml' | null): WarehouseCapability[] {
+  return bookingType === 'jml' ? ['jml_fulfilment'] : ['collections', 'sanitisation', 'grading'];
+}
+
+/**
+ * Check if a warehouse has opening hours on the day of the given date
+ */
+export function isWarehouseOpenOn(warehouse: Warehouse, date: Date | string): boolean {
+  const day = WEEKDAY_BY_INDEX[new Date(date).getDay()];
+  return warehouse.operatingHours.some((hours) => hours.day === day);
+}
+
+/**
+ * Find the closest active warehouse with every required capability.
+ * When a date is given, warehouses closed that day are skipped.
+ */
+export function findNearestWarehouse(
+  warehouses: Warehouse[],
+  location: { lat: number; lng: number },
+  options: { capabilities?: WarehouseCapability[]; date?: Date | string } = {}
+): { warehouse: Warehouse; distanceKm: number } | null {
+  const { capabilities = [], date } = options;
+
+  return warehouses
+    .filter((warehouse) =>
+      warehouse.isActive &&
+      capabilities.every((capability) => warehouse.capabilities.includes(capability)) &&
+      (!date || isWarehouseOpenOn(warehouse, date))
+    )
+    .map((warehouse) => ({
+      warehouse,
+      distanceKm: calculateStraightLineDistance(location.lat, location.lng, warehouse.lat, warehouse.lng),
+    }))
+    .reduce<{ warehouse: Warehouse; distanceKm: number } | null>(
+      (nearest, candidate) => (!nearest || candidate.distanceKm < nearest.distanceKm ? candidate : nearest),
+      null
+    );
+}
+
+/**
+ * Choose the warehouse to process a booking: the nearest capable warehouse open
+ * on the collection day, then the nearest capable one, then the default
+ */
+export function selectWarehouseForBooking(
+  warehouses: Warehouse[],
+  location: { lat: number; lng: number } | null | undefined,
+  options: { bookingType?: 'itad_collection' | 'jml' | null; date?: Date | string } = {}
+): Warehouse | null {
+  if (location) {
+    const capabilities = getRequiredCapabilities(options.bookingType);
+    const nearest =
+      (options.date && findNearestWarehouse(warehouses, location, { capabilities, date: options.date })) ||
+      findNearestWarehouse(warehouses, location, { capabilities });
+    if (nearest) return nearest.warehouse;
+  }
+  return getDefaultWarehouse(warehouses);
+}
+
+/**
+ * The tenant's default warehouse, or the first active one
+ */
+export function getDefaultWarehouse(warehouses: Warehouse[]): Warehouse | null {
+  const active = warehouses.filter((warehouse) => warehouse.isActive);
+  return active.find((warehouse) => warehouse.isDefault) || active[0] || null;
+}
+
+/**
+ * Coordinates of a warehouse, falling back to the default depot when unknown
+ */
+export function getWarehouseCoordinates(warehouse?: Pick<Warehouse, 'lat' | 'lng'> | null): { lat: number; lng: number } {
+  return warehouse ? { lat: warehouse.lat, lng: warehouse.lng } : DEFAULT_WAREHOUSE_COORDINATES;
+}
@@ -0,0 +1,164 @@
+// Outbound webhooks - event catalogue and request signing
+// Shared by the Settings subscription manager (which events can be picked) and the
+// backend's delivery pipeline (how each request is signed and retried).
+//
+// Each delivery is a JSON POST with these headers:
+//   X-Reuse-Event: booking.collected
+//   X-Reuse-Delivery: <delivery id> (one per attempt - dedupe on the event id in the body)
+//   X-Reuse-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256(secret, "<t>.<raw body>")>
+// Receivers should recompute the HMAC over the raw body (verifyWebhookSignature)
+// and reject stale timestamps to stop replayed requests.
+import { lifecycleTransitions, getStatusLabelExtended, type BookingLifecycleStatus } from '@/types/booking-lifecycle';
+import type { WorkflowStatus } from '@/types/jobs';
+import type { WebhookDeliveryStatus, WebhookEventType } from '@/types/webhooks';
+import { statusConfig } from './constants';
+
+export type WebhookEventGroup = 'booking' | 'job';
+
+export interface WebhookEventInfo {
+  type: WebhookEventType;
+  group: WebhookEventGroup;
+  label: string;
+}
+
+export const WEBHOOK_EVENT_GROUPS: Array<{ group: WebhookEventGroup; label: string; description: string }> = [
+  { group: 'booking', label: 'Booking lifecycle', description: 'Sent when a booking changes status' },
+  { group: 'job', label: 'Job workflow', description: 'Sent when a job moves through collection and processing' },
+];
+
+export const WEBHOOK_TEST_EVENT: WebhookEventType = 'webhook.test';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Reuse-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-Reuse-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Reuse-Delivery';
+
+// Receivers should reject signatures older than this
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Delay before each automatic retry of a failed delivery; a delivery is given up
+// (and can only be replayed by hand) after the last one
+export const WEBHOOK_RETRY_DELAYS_SECONDS = [10, 60, 300];
+
+// Receivers must answer within this, or the attempt counts as failed
+export const WEBHOOK_TIMEOUT_MS = 10000;
+
+export function bookingEventType(status: BookingLifecycleStatus | 'cancelled'): WebhookEventType {
+  return `booking.${status}`;
+}
+
+/**
+ * Job events use the backend status format ('en_route', not 'en-route')
+ */
+export function jobEventType(status: WorkflowStatus | string): WebhookEventType {
+  return `job.${status.replace(/-/g, '_')}`;
+}
+
+export const WEBHOOK_EVENT_CATALOGUE: WebhookEventInfo[] = [
+  ...([...Object.keys(lifecycleTransitions), 'cancelled'] as Array<BookingLifecycleStatus | 'cancelled'>).map(
+    (status): WebhookEventInfo => ({
+      type: bookingEventType(status),
+      group: 'booking',
+      label: `Booking ${getStatusLabelExtended(status).toLowerCase()}`,
+    })
+  ),
+  ...(Object.keys(statusConfig) as WorkflowStatus[]).map(
+    (status): WebhookEventInfo => ({
+      type: jobEventType(status),
+      group: 'job',
+      label: `Job ${statusConfig[status].label.toLowerCase()}`,
+    })
+  ),
+];
+
+export const webhookDeliveryStatusConfig: Record<WebhookDeliveryStatus, { label: string; className: string }> = {
+  pending: { label: 'Sending', className: 'bg-info/10 text-info' },
+  succeeded: { label: 'Delivered', className: 'bg-success/10 text-success' },
+  failed: { label: 'Failed', className: 'bg-destructive/10 text-destructive' },
+};
+
+export function isKnownWebhookEventType(type: string): boolean {
+  return WEBHOOK_EVENT_CATALOGUE.some((info) => info.type === type);
+}
+
+export function getWebhookEventLabel(type: WebhookEventType): string {
+  if (type === WEBHOOK_TEST_EVENT) return 'Test event';
+  return WEBHOOK_EVENT_CATALOGUE.find((info) => info.type === type)?.label || type;
+}
+
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * HTTPS only, except plain HTTP to this machine so a local receiver can be used
+ * while developing an integration
+ */
+export function isValidWebhookUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    if (url.protocol === 'https:') return true;
+    return url.protocol === 'http:' && LOCAL_HOSTNAMES.includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return `whsec_${toHex(bytes)}`;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return toHex(new Uint8Array(signature));
+}
+
+/**
+ * Value of the X-Reuse-Signature header for a raw request body
+ */
+export async function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  return `t=${timestamp},v1=${await hmacSha256Hex(secret, `${timestamp}.${body}`)}`;
+}
+
+/**
+ * Check an X-Reuse-Signature header against the raw request body, as a receiver would
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  now = Math.floor(Date.now() / 1000)
+): Promise<boolean> {
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')];
+    })
+  );
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isFinite(timestamp)) return false;
+  if (Math.abs(now - timestamp) > WEBHOOK_SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = await hmacSha256Hex(secret, `${timestamp}.${body}`);
+  if (expected.length !== parts.v1.length) return false;
+  // Constant-time comparison
+  let difference = 0;
+  for (let index = 0; index < expected.length; index++) {
+    difference |= expected.charCodeAt(index) ^ parts.v1.charCodeAt(index);
+  }
+  return difference === 0;
+}
@@ -0,0 +1,125 @@
+// Carrier sandbox
+// Stands in for the carriers' APIs in mock mode (VITE_USE_MOCKS=true). Shipments get a
+// tracking number in the carrier's own format, and tracking follows the simulated
+// carrier's timeline, sent back in each carrier's tracking response shape so the real
+// adapters (lib/carriers.ts) parse it exactly as they would in production.
+import type { CarrierPayload } from '@/lib/carriers';
+import type { CarrierCode, TrackingEvent, TrackingStatus } from '@/types/carriers';
+
+const digits = (sequence: number, length: number) => String(sequence).padStart(length, '0').slice(-length);
+
+/**
+ * The carrier's create-shipment response for the nth sandbox shipment
+ */
+export function sandboxShipmentResponse(carrier: CarrierCode, sequence: number): CarrierPayload {
+  switch (carrier) {
+    case 'dpd':
+      return { data: { consignmentDetail: [{ consignmentNumber: digits(sequence, 10), parcelNumbers: [`1550${digits(sequence, 10)}`] }] } };
+    case 'dhl':
+      return { shipmentTrackingNumber: `12${digits(sequence, 8)}` };
+    case 'ups':
+      return { ShipmentResponse: { ShipmentResults: { PackageResults: [{ TrackingNumber: `1Z999AA1${digits(sequence, 10)}` }] } } };
+    case 'royal_mail':
+      return { createdOrders: [{ orderIdentifier: sequence, trackingNumber: `TT${digits(sequence, 9)}GB` }] };
+    case 'simulated':
+      return { trackingNumber: `SIM${digits(sequence, 10)}` };
+  }
+}
+
+const carrierCodes: Record<Exclude<CarrierCode, 'simulated'>, Record<TrackingStatus, string>> = {
+  dpd: {
+    label_created: 'PRE_ADVICE',
+    collected: 'COLLECTED',
+    in_transit: 'AT_HUB',
+    out_for_delivery: 'OUT_FOR_DELIVERY',
+    delivered: 'DELIVERED',
+    exception: 'FAILED_DELIVERY',
+  },
+  dhl: { label_created: 'SA', collected: 'PU', in_transit: 'PL', out_for_delivery: 'WC', delivered: 'OK', exception: 'NH' },
+  ups: { label_created: 'M', collected: 'P', in_transit: 'I', out_for_delivery: 'OT', delivered: 'D', exception: 'X' },
+  royal_mail: {
+    label_created: 'EVNMI',
+    collected: 'EVPPA',
+    in_transit: 'EVNRT',
+    out_for_delivery: 'EVKOP',
+    delivered: 'EVKSP',
+    exception: 'EVKLC',
+  },
+};
+
+/**
+ * Events for one shipment in the carrier's tracking response (and webhook) shape
+ */
+export function sandboxTrackingPayload(carrier: CarrierCode, trackingNumber: string, events: TrackingEvent[]): CarrierPayload {
+  switch (carrier) {
+    case 'dpd':
+      return {
+        parcels: [
+          {
+            parcelNumber: trackingNumber,
+            trackingEvents: events.map((event) => ({
+              eventCode: carrierCodes.dpd[event.status],
+              eventText: event.description,
+              eventDate: event.occurredAt,
+              eventLocation: event.location,
+            })),
+          },
+        ],
+      };
+    case 'dhl':
+      return {
+        shipments: [
+          {
+            id: trackingNumber,
+            events: events.map((event) => ({
+              timestamp: event.occurredAt,
+              typeCode: carrierCodes.dhl[event.status],
+              description: event.description,
+              location: { address: { addressLocality: event.location } },
+            })),
+          },
+        ],
+      };
+    case 'ups':
+      return {
+        trackResponse: {
+          shipment: [
+            {
+              package: [
+                {
+                  trackingNumber,
+                  activity: events.map((event) => {
+                    const code = carrierCodes.ups[event.status];
+                    const [date, time] = event.occurredAt.replace(/[-:]/g, '').split('T');
+                    return {
+                      date,
+                      time: time.slice(0, 6),
+                      // Out for delivery is an in-transit activity with its own code
+                      status: { type: code === 'OT' ? 'I' : code, code, description: event.description },
+                      location: { address: { city: event.location } },
+                    };
+                  }),
+                },
+              ],
+            },
+          ],
+        },
+      };
+    case 'royal_mail':
+      return {
+        mailPieces: [
+          {
+            mailPieceId: trackingNumber,
+            events: events.map((event) => ({
+              eventCode: carrierCodes.royal_mail[event.status],
+              eventName: event.description,
+              eventDateTime: event.occurredAt,
+              locationName: event.location,
+            })),
+          },
+        ],
+      };
+    case 'simulated':
+      return { shipments: [{ trackingNumber, events }] };
+  }
+}
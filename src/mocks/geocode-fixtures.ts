@@ -0,0 +1,86 @@
+// Offline geocoding fixtures
+// Used by the fixture geocoding provider in mock mode (VITE_USE_MOCKS=true) so
+// address search, postcode lookup and map clicks work without network access.
+// Covers the seeded client sites and warehouses plus a few European addresses.
+import type { RawGeocodeResult } from '@/lib/geocoding';
+
+export const geocodeFixtures: RawGeocodeResult[] = [
+  {
+    lat: 51.5049,
+    lng: -0.0197,
+    displayName: '1 Canada Square, Canary Wharf, London, Greater London, England, E14 5AB, United Kingdom',
+    components: { houseNumber: '1', road: 'Canada Square', suburb: 'Canary Wharf', city: 'London', county: 'Greater London', state: 'England', postcode: 'E14 5AB', country: 'United Kingdom', countryCode: 'GB' },
+  },
+  {
+    lat: 51.5416,
+    lng: -0.0042,
+    displayName: '12 Westfield Avenue, Stratford, London, Greater London, England, E20 1GL, United Kingdom',
+    components: { houseNumber: '12', road: 'Westfield Avenue', suburb: 'Stratford', city: 'London', county: 'Greater London', state: 'England', postcode: 'E20 1GL', country: 'United Kingdom', countryCode: 'GB' },
+  },
+  {
+    lat: 51.3762,
+    lng: -0.0982,
+    displayName: '3 Wellesley Road, Croydon, London Borough of Croydon, England, CR0 2AG, United Kingdom',
+    components: { houseNumber: '3', road: 'Wellesley Road', town: 'Croydon', county: 'London Borough of Croydon', state: 'England', postcode: 'CR0 2AG', country: 'United Kingdom', countryCode: 'GB' },
+  },
+  {
+    lat: 51.5174,
+    lng: 0.1904,
+    displayName: 'Unit 4, Ferry Lane, Rainham, London Borough of Havering, England, RM13 8BT, United Kingdom',
+    components: { houseName: 'Unit 4', road: 'Ferry Lane', town: 'Rainham', county: 'London Borough of Havering', state: 'England', postcode: 'RM13 8BT', country: 'United Kingdom', countryCode: 'GB' },
+  },
+  {
+    lat: 51.5014,
+    lng: -0.1419,
+    displayName: 'Buckingham Palace, The Mall, St James\'s, London, Greater London, England, SW1A 1AA, United Kingdom',
+    components: { houseName: 'Buckingham Palace', road: 'The Mall', suburb: 'St James\'s', city: 'London', county: 'Greater London', state: 'England', postcode: 'SW1A 1AA', country: 'United Kingdom', countryCode: 'GB' },
+  },
+  {
+    lat: 53.4808,
+    lng: -2.2426,
+    displayName: '100 Deansgate, City Centre, Manchester, Greater Manchester, England, M3 2GP, United Kingdom',
+    components: { houseNumber: '100', road: 'Deansgate', suburb: 'City Centre', city: 'Manchester', county: 'Greater Manchester', state: 'England', postcode: 'M3 2GP', country: 'United Kingdom', countryCode: 'GB' },
+  },
+  {
+    lat: 53.4668,
+    lng: -2.3175,
+    displayName: 'Westinghouse Road, Trafford Park, Trafford, Greater Manchester, England, M17 1PY, United Kingdom',
+    components: { road: 'Westinghouse Road', suburb: 'Trafford Park', town: 'Trafford', county: 'Greater Manchester', state: 'England', postcode: 'M17 1PY', country: 'United Kingdom', countryCode: 'GB' },
+  },
+  {
+    lat: 51.4543,
+    lng: -0.9781,
+    displayName: 'Broad Street, Reading, England, RG1 1AA, United Kingdom',
+    components: { road: 'Broad Street', town: 'Reading', county: 'Reading', state: 'England', postcode: 'RG1 1AA', country: 'United Kingdom', countryCode: 'GB' },
+  },
+  {
+    lat: 51.4248,
+    lng: -0.9868,
+    displayName: 'Green Park, Reading, England, RG2 6GP, United Kingdom',
+    components: { road: 'Longwater Avenue', suburb: 'Green Park', town: 'Reading', county: 'Reading', state: 'England', postcode: 'RG2 6GP', country: 'United Kingdom', countryCode: 'GB' },
+  },
+  {
+    lat: 52.287,
+    lng: 4.7656,
+    displayName: 'Pudongweg 37, Schiphol-Rijk, Haarlemmermeer, Noord-Holland, Nederland, 1437 EM, Nederland',
+    components: { houseNumber: '37', road: 'Pudongweg', village: 'Schiphol-Rijk', municipality: 'Haarlemmermeer', state: 'Noord-Holland', postcode: '1437 EM', country: 'Nederland', countryCode: 'NL' },
+  },
+  {
+    lat: 52.5163,
+    lng: 13.3777,
+    displayName: 'Pariser Platz 1, Mitte, Berlin, 10117, Deutschland',
+    components: { houseNumber: '1', road: 'Pariser Platz', suburb: 'Mitte', city: 'Berlin', state: 'Berlin', postcode: '10117', country: 'Deutschland', countryCode: 'DE' },
+  },
+  {
+    lat: 48.8584,
+    lng: 2.2945,
+    displayName: '5 Avenue Anatole France, Paris 7e Arrondissement, Paris, Île-de-France, France métropolitaine, 75007, France',
+    components: { houseNumber: '5', road: 'Avenue Anatole France', suburb: 'Paris 7e Arrondissement', city: 'Paris', state: 'Île-de-France', postcode: '75007', country: 'France', countryCode: 'FR' },
+  },
+  {
+    lat: 53.3498,
+    lng: -6.2603,
+    displayName: 'O\'Connell Street Upper, Dublin 1, Dublin, Leinster, D01 F5P2, Éire / Ireland',
+    components: { road: 'O\'Connell Street Upper', suburb: 'Dublin 1', city: 'Dublin', state: 'Leinster', postcode: 'D01 F5P2', country: 'Ireland', countryCode: 'IE' },
+  },
+];
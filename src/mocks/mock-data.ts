@@ -2,3 +2,1327 @@
 import type { Job, AssetCategory } from '@/types/jobs';
 
 export type { WorkflowStatus, Job, Asset, Driver, Evidence, Certificate, AssetCategory } from '@/types/jobs';
+
+// Seed data for the local mock backend (VITE_USE_MOCKS=true)
+// Shapes mirror the backend responses, so jobs are stored in backend format
+// (underscore statuses) and go through data-transform like real data.
+import type { Invite } from '@/types/auth';
+import type { RoleDefinition } from '@/types/permissions';
+import type { Notification } from '@/contexts/NotificationContext';
+import type { Driver as DriverProfile } from '@/services/driver.service';
+import type { InventoryItem } from '@/services/inventory.service';
+import type { Site } from '@/services/site.service';
+import type { Vehicle } from '@/services/vehicle.service';
+import type { Warehouse } from '@/services/warehouse.service';
+import type { Document } from '@/services/documents.service';
+import type { OrganisationProfile } from '@/services/organisation-profile.service';
+import type { EmissionFactorSet, EmissionsBreakdown, Restatement } from '@/types/emissions';
+import type {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationDeliveryMode,
+  NotificationPreferences,
+} from '@/types/notifications';
+import type { WebhookDelivery, WebhookSubscription } from '@/types/webhooks';
+import type { ErpConnectorConfig, ErpSyncRun } from '@/types/erp';
+import type { SanitisationImport } from '@/types/sanitisation-imports';
+import type { CustodyCertificate, CustodyLedgerEntry } from '@/types/custody';
+import type { ClientJmlLeadTimes, JmlMilestoneAlert } from '@/types/jml-schedule';
+import type { Shipment } from '@/types/carriers';
+import { BASELINE_FACTOR_SET, calculateEmissions, getTravelFactorKey } from '@/lib/emission-factors';
+import { DEFAULT_ERP_FIELD_MAPPINGS } from '@/lib/erp';
+import { getSystemRoleGrants } from '@/lib/permissions';
+import type { CarrierPayload } from '@/lib/carriers';
+import type { Booking, Client, ExtendedUser, GradingRecord, SanitisationRecord } from './mock-entities';
+
+export const MOCK_PASSWORD = 'password';
+
+export interface MockUser extends ExtendedUser {
+  phone?: string;
+}
+
+export interface MockBooking extends Booking {
+  tenantId: string;
+  siteId?: string;
+  postcode?: string;
+  lat?: number;
+  lng?: number;
+  erpJobNumber?: string;
+  vehicleId?: string;
+  statusHistory: Array<{ status: string; changedAt: string; changedBy: string; notes?: string }>;
+}
+
+export interface MockShipment extends Shipment {
+  createdById: string; // Tracking moves the booking on as this user
+  carrierRequest: CarrierPayload; // What was sent to the carrier, kept for support queries
+}
+
+/**
+ * The stored employee - holdings and history are worked out from their bookings
+ */
+export interface MockEmployee {
+  id: string;
+  clientId: string;
+  name: string;
+  emails: string[]; // Lower-cased; a leaver's personal email is added alongside their work email
+  phone?: string | null;
+  createdAt: string;
+}
+
+export interface MockJob {
+  id: string;
+  tenantId: string;
+  clientId: string;
+  erpJobNumber: string;
+  bookingId: string;
+  organisationName: string;
+  createdByName?: string;
+  siteName: string;
+  siteAddress: string;
+  postcode?: string;
+  lat?: number;
+  lng?: number;
+  routeSequence?: number | null;
+  routeDistanceKm?: number | null;
+  warehouseId?: string;
+  warehouseName?: string;
+  emissions?: EmissionsBreakdown;
+  status: string; // Backend format, e.g. 'en_route'
+  scheduledDate: string;
+  completedDate?: string | null;
+  co2eSaved: number;
+  travelEmissions: number;
+  buybackValue: number;
+  charityPercent: number;
+  roundTripDistanceKm?: number | null;
+  roundTripDistanceMiles?: number | null;
+  bookingType: 'itad_collection' | 'jml';
+  jmlSubType?: 'new_starter' | 'leaver' | 'breakfix' | 'mover';
+  assets: Array<{
+    id: string;
+    categoryId: string;
+    categoryName: string;
+    quantity: number;
+    serialNumbers?: string[];
+    grade?: string | null;
+    sanitised?: boolean;
+    resaleValue?: number | null;
+  }>;
+  driver: {
+    id: string;
+    name: string;
+    email?: string;
+    vehicleReg?: string;
+    vehicleType?: 'van' | 'truck' | 'car';
+    vehicleFuelType?: 'petrol' | 'diesel' | 'electric';
+    phone?: string;
+  } | null;
+  evidence: Array<{
+    status?: string;
+    photos: string[];
+    signature?: string | null;
+    sealNumbers: string[];
+    notes?: string | null;
+    createdAt?: string;
+  }>;
+  certificates: Array<{ id: string; type: string; generatedDate: string; downloadUrl: string }>;
+  [journeyField: string]: unknown;
+}
+
+export interface MockNotification extends Notification {
+  userId: string;
+}
+
+/**
+ * An email or webhook the backend sent (or is holding for the daily digest)
+ */
+export interface MockNotificationDelivery {
+  id: string;
+  userId: string;
+  notificationId: string;
+  category: NotificationCategory;
+  channel: Exclude<NotificationChannel, 'in_app'>;
+  mode: NotificationDeliveryMode;
+  status: 'queued' | 'sent';
+  target: string; // Email address or webhook URL
+  title: string;
+  message: string;
+  createdAt: string;
+  sentAt?: string;
+}
+
+/**
+ * Webhook subscriptions keep their signing secret server-side; responses only carry secretHint
+ */
+export interface MockWebhookSubscription extends WebhookSubscription {
+  secret: string;
+}
+
+/**
+ * The ERP credential is write-only; responses only carry credentialHint
+ */
+export interface MockErpConnector extends ErpConnectorConfig {
+  credential: string | null;
+}
+
+export interface MockSeed {
+  users: MockUser[];
+  roles: RoleDefinition[];
+  clients: Client[];
+  sites: Site[];
+  drivers: DriverProfile[];
+  vehicles: Vehicle[];
+  warehouses: Warehouse[];
+  assetCategories: AssetCategory[];
+  emissionFactorSets: EmissionFactorSet[];
+  restatements: Restatement[];
+  bookings: MockBooking[];
+  jobs: MockJob[];
+  inventory: InventoryItem[];
+  gradingRecords: GradingRecord[];
+  sanitisationRecords: SanitisationRecord[];
+  sanitisationImports: SanitisationImport[]; // Newest first
+  notifications: MockNotification[];
+  notificationPreferences: NotificationPreferences[]; // Users who have never saved theirs get the defaults
+  notificationDeliveries: MockNotificationDelivery[];
+  webhookSubscriptions: MockWebhookSubscription[];
+  webhookDeliveries: WebhookDelivery[]; // Newest first
+  erpConnector: MockErpConnector;
+  erpSyncRuns: ErpSyncRun[]; // Newest first
+  custodyLedger: CustodyLedgerEntry[]; // Append-only; the mock server backfills seeded bookings from their status history
+  custodyCertificates: CustodyCertificate[]; // Newest first
+  jmlLeadTimes: ClientJmlLeadTimes[]; // Clients without an entry use the default lead times
+  jmlMilestoneAlerts: JmlMilestoneAlert[];
+  shipments: MockShipment[];
+  employees: MockEmployee[]; // The mock server links seeded JML bookings to employees on start-up
+  invites: Invite[];
+  documents: Document[];
+  organisationProfiles: OrganisationProfile[];
+}
+
+const PLATFORM_TENANT_ID = 'tenant-1';
+const PLATFORM_TENANT_NAME = 'Reuse Connect ITAD Platform';
+
+function daysFromNow(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  date.setHours(9, 0, 0, 0);
+  return date.toISOString();
+}
+
+const mockAssetCategories: AssetCategory[] = [
+  { id: 'cat-laptop', name: 'Laptop', icon: 'laptop', co2ePerUnit: 250, avgWeight: 2.2, avgBuybackValue: 120 },
+  { id: 'cat-desktop', name: 'Desktop', icon: 'monitor', co2ePerUnit: 350, avgWeight: 8.5, avgBuybackValue: 80 },
+  { id: 'cat-monitor', name: 'Monitor', icon: 'monitor', co2ePerUnit: 180, avgWeight: 5.5, avgBuybackValue: 30 },
+  { id: 'cat-phone', name: 'Smartphone', icon: 'smartphone', co2ePerUnit: 60, avgWeight: 0.2, avgBuybackValue: 90 },
+  { id: 'cat-tablet', name: 'Tablet', icon: 'tablet', co2ePerUnit: 90, avgWeight: 0.5, avgBuybackValue: 70 },
+  { id: 'cat-server', name: 'Server', icon: 'server', co2ePerUnit: 900, avgWeight: 25, avgBuybackValue: 300 },
+  { id: 'cat-network', name: 'Networking', icon: 'router', co2ePerUnit: 120, avgWeight: 3, avgBuybackValue: 40 },
+];
+
+// The 2024 set is current, so seed jobs (stamped with the baseline set) can be restated
+const mockEmissionFactorSets: EmissionFactorSet[] = [
+  BASELINE_FACTOR_SET,
+  {
+    id: 'internal-2024',
+    version: 'Internal 2024 v1.0',
+    name: 'Internal emission factors 2024',
+    source: 'Internal estimate', // Demo figures, not a published factor set
+    sourceUrl: null,
+    publishedAt: '2024-07-08',
+    validFrom: '2024-01-01',
+    isCurrent: true,
+    travelKgPerKm: {
+      petrol: 0.2,
+      diesel: 0.18,
+      electric: 0.05, // Grid electricity for charging
+      car: 0.166,
+      van: 0.235,
+      truck: 0.86,
+    },
+    avoidedKgPerUnit: {
+      'cat-laptop': 264,
+      'cat-desktop': 362,
+      'cat-monitor': 186,
+      'cat-phone': 62,
+      'cat-tablet': 94,
+      'cat-server': 940,
+      'cat-network': 126,
+    },
+    endOfLifeKgPerKg: 0.0212,
+    equivalencies: {
+      treeKgPerYear: 21,
+      householdKgPerDay: 25,
+      carKgPerMile: 0.27,
+      flightKgPerHour: 250,
+    },
+  },
+];
+
+const mockUsers: MockUser[] = [
+  {
+    id: 'user-admin',
+    email: 'admin@reuse.local',
+    name: 'Alex Admin',
+    role: 'admin',
+    status: 'active',
+    isActive: true,
+    tenantId: PLATFORM_TENANT_ID,
+    tenantName: PLATFORM_TENANT_NAME,
+    createdAt: '2024-01-01T09:00:00.000Z',
+  },
+  {
+    id: 'user-client',
+    email: 'client@acme.local',
+    name: 'Casey Client',
+    role: 'client',
+    status: 'active',
+    isActive: true,
+    clientId: 'client-acme',
+    resellerId: 'user-reseller',
+    tenantId: PLATFORM_TENANT_ID,
+    tenantName: PLATFORM_TENANT_NAME,
+    createdAt: '2024-02-01T09:00:00.000Z',
+  },
+  {
+    id: 'user-client-viewer',
+    email: 'viewer@acme.local',
+    name: 'Vic Viewer',
+    role: 'client',
+    status: 'active',
+    isActive: true,
+    clientId: 'client-acme',
+    resellerId: 'user-reseller',
+    customRoleId: 'role-acme-viewer',
+    tenantId: PLATFORM_TENANT_ID,
+    tenantName: PLATFORM_TENANT_NAME,
+    createdAt: '2024-03-01T09:00:00.000Z',
+  },
+  {
+    id: 'user-reseller',
+    email: 'reseller@partner.local',
+    name: 'Robin Reseller',
+    role: 'reseller',
+    status: 'active',
+    isActive: true,
+    resellerId: 'user-reseller',
+    tenantId: PLATFORM_TENANT_ID,
+    tenantName: PLATFORM_TENANT_NAME,
+    createdAt: '2024-02-10T09:00:00.000Z',
+  },
+  {
+    id: 'user-driver',
+    email: 'driver@reuse.local',
+    name: 'Dana Driver',
+    role: 'driver',
+    status: 'active',
+    isActive: true,
+    phone: '07700 900123',
+    tenantId: PLATFORM_TENANT_ID,
+    tenantName: PLATFORM_TENANT_NAME,
+    createdAt: '2024-01-15T09:00:00.000Z',
+  },
+  {
+    id: 'user-pending',
+    email: 'newclient@globex.local',
+    name: 'Pat Pending',
+    role: 'client',
+    status: 'pending',
+    isActive: false,
+    tenantId: PLATFORM_TENANT_ID,
+    tenantName: PLATFORM_TENANT_NAME,
+    createdAt: daysFromNow(-1),
+  },
+];
+
+// Tenant-defined roles (system roles are built into lib/permissions)
+const mockRoles: RoleDefinition[] = [
+  {
+    id: 'role-acme-viewer',
+    tenantId: PLATFORM_TENANT_ID,
+    name: 'Document Viewer',
+    description: 'Sees bookings, documents and CO₂e reporting but cannot book',
+    baseRole: 'client',
+    clientId: 'client-acme',
+    resellerId: 'user-reseller',
+    grants: [
+      { permission: 'bookings.view', scope: 'client' },
+      { permission: 'documents.view', scope: 'client' },
+      { permission: 'documents.download', scope: 'client' },
+      { permission: 'co2e.view', scope: 'client' },
+    ],
+    isSystem: false,
+    createdAt: '2024-03-01T09:00:00.000Z',
+    updatedAt: '2024-03-01T09:00:00.000Z',
+  },
+  {
+    id: 'role-acme-admin',
+    tenantId: PLATFORM_TENANT_ID,
+    name: 'Client Admin',
+    description: 'Standard client access, plus managing Acme users and roles',
+    baseRole: 'client',
+    clientId: 'client-acme',
+    resellerId: 'user-reseller',
+    grants: [
+      ...getSystemRoleGrants('client'),
+      { permission: 'users.view', scope: 'client' },
+      { permission: 'users.manage', scope: 'client' },
+      { permission: 'roles.manage', scope: 'client' },
+    ],
+    isSystem: false,
+    createdAt: '2024-03-01T09:00:00.000Z',
+    updatedAt: '2024-03-01T09:00:00.000Z',
+  },
+];
+
+const mockClients: Client[] = [
+  {
+    id: 'client-acme',
+    name: 'Acme Ltd',
+    organisationName: 'Acme Ltd',
+    tenantId: PLATFORM_TENANT_ID,
+    tenantName: PLATFORM_TENANT_NAME,
+    email: 'client@acme.local',
+    contactName: 'Casey Client',
+    contactPhone: '020 7946 0001',
+    resellerId: 'user-reseller',
+    resellerName: 'Robin Reseller',
+    status: 'active',
+    createdAt: '2024-02-01T09:00:00.000Z',
+    totalBookings: 0,
+    totalJobs: 0,
+    totalValue: 0,
+  },
+  {
+    id: 'client-initech',
+    name: 'Initech plc',
+    organisationName: 'Initech plc',
+    tenantId: PLATFORM_TENANT_ID,
+    tenantName: PLATFORM_TENANT_NAME,
+    email: 'it@initech.local',
+    contactName: 'Sam Lumb',
+    contactPhone: '0161 496 0002',
+    status: 'active',
+    createdAt: '2024-03-05T09:00:00.000Z',
+    totalBookings: 0,
+    totalJobs: 0,
+    totalValue: 0,
+  },
+];
+
+const mockSites: Site[] = [
+  {
+    id: 'site-acme-hq',
+    clientId: 'client-acme',
+    tenantId: PLATFORM_TENANT_ID,
+    name: 'Acme HQ',
+    address: '1 Canada Square, London',
+    postcode: 'E14 5AB',
+    lat: 51.5049,
+    lng: -0.0195,
+    contactName: 'Casey Client',
+    contactPhone: '020 7946 0001',
+    createdAt: '2024-02-01T09:00:00.000Z',
+    updatedAt: '2024-02-01T09:00:00.000Z',
+  },
+  {
+    id: 'site-initech-mcr',
+    clientId: 'client-initech',
+    tenantId: PLATFORM_TENANT_ID,
+    name: 'Initech Manchester',
+    address: '100 Deansgate, Manchester',
+    postcode: 'M3 2GP',
+    lat: 53.4808,
+    lng: -2.2484,
+    contactName: 'Sam Lumb',
+    contactPhone: '0161 496 0002',
+    createdAt: '2024-03-05T09:00:00.000Z',
+    updatedAt: '2024-03-05T09:00:00.000Z',
+  },  {
+    id: 'site-acme-stratford',
+    clientId: 'client-acme',
+    tenantId: PLATFORM_TENANT_ID,
+    name: 'Acme Stratford Depot',
+    address: '12 Westfield Avenue, London',
+    postcode: 'E20 1GL',
+    lat: 51.5416,
+    lng: -0.0034,
+    contactName: 'Casey Client',
+    contactPhone: '020 7946 0001',
+    createdAt: '2024-02-01T09:00:00.000Z',
+    updatedAt: '2024-02-01T09:00:00.000Z',
+  },
+  {
+    id: 'site-acme-croydon',
+    clientId: 'client-acme',
+    tenantId: PLATFORM_TENANT_ID,
+    name: 'Acme Croydon Office',
+    address: '3 Wellesley Road, Croydon',
+    postcode: 'CR0 2AG',
+    lat: 51.3762,
+    lng: -0.0982,
+    contactName: 'Casey Client',
+    contactPhone: '020 7946 0001',
+    createdAt: '2024-02-01T09:00:00.000Z',
+    updatedAt: '2024-02-01T09:00:00.000Z',
+  },
+];
+
+const mockVehicles: Vehicle[] = [
+  {
+    id: 'vehicle-1',
+    tenantId: PLATFORM_TENANT_ID,
+    vehicleReg: 'RC24 EVN',
+    vehicleType: 'van',
+    vehicleFuelType: 'electric',
+    createdAt: '2024-01-15T09:00:00.000Z',
+    updatedAt: '2024-01-15T09:00:00.000Z',
+    createdBy: 'user-admin',
+  },
+  {
+    id: 'vehicle-2',
+    tenantId: PLATFORM_TENANT_ID,
+    vehicleReg: 'RC23 DSL',
+    vehicleType: 'truck',
+    vehicleFuelType: 'diesel',
+    createdAt: '2024-01-15T09:00:00.000Z',
+    updatedAt: '2024-01-15T09:00:00.000Z',
+    createdBy: 'user-admin',
+  },
+];
+
+const weekdayHours = (['mon', 'tue', 'wed', 'thu', 'fri'] as const).map((day) => ({ day, open: '08:00', close: '18:00' }));
+
+const mockWarehouses: Warehouse[] = [
+  {
+    id: 'warehouse-london',
+    tenantId: PLATFORM_TENANT_ID,
+    name: 'London East',
+    code: 'LON1',
+    address: 'Unit 4, Ferry Lane, Rainham',
+    postcode: 'RM13 8BT',
+    country: 'GB',
+    lat: 51.5174,
+    lng: 0.1904,
+    capabilities: ['collections', 'sanitisation', 'grading', 'storage', 'jml_fulfilment'],
+    operatingHours: [...weekdayHours, { day: 'sat', open: '09:00', close: '13:00' }],
+    isActive: true,
+    isDefault: true,
+    createdAt: '2024-01-01T09:00:00.000Z',
+    updatedAt: '2024-01-01T09:00:00.000Z',
+  },
+  {
+    id: 'warehouse-manchester',
+    tenantId: PLATFORM_TENANT_ID,
+    name: 'Manchester Trafford Park',
+    code: 'MAN1',
+    address: 'Westinghouse Road, Trafford Park, Manchester',
+    postcode: 'M17 1PY',
+    country: 'GB',
+    lat: 53.4668,
+    lng: -2.334,
+    capabilities: ['collections', 'sanitisation', 'grading', 'storage'],
+    operatingHours: weekdayHours,
+    isActive: true,
+    isDefault: false,
+    createdAt: '2024-06-01T09:00:00.000Z',
+    updatedAt: '2024-06-01T09:00:00.000Z',
+  },
+  {
+    id: 'warehouse-reading',
+    tenantId: PLATFORM_TENANT_ID,
+    name: 'Reading Fulfilment',
+    code: 'RDG1',
+    address: 'Green Park, Reading',
+    postcode: 'RG2 6GP',
+    country: 'GB',
+    lat: 51.4248,
+    lng: -0.9869,
+    capabilities: ['storage', 'jml_fulfilment'],
+    operatingHours: weekdayHours,
+    isActive: true,
+    isDefault: false,
+    createdAt: '2024-06-01T09:00:00.000Z',
+    updatedAt: '2024-06-01T09:00:00.000Z',
+  },
+  {
+    id: 'warehouse-amsterdam',
+    tenantId: PLATFORM_TENANT_ID,
+    name: 'Amsterdam Schiphol',
+    code: 'AMS1',
+    address: 'Pudongweg 37, Schiphol-Rijk',
+    postcode: '1437 EM',
+    country: 'NL',
+    lat: 52.287,
+    lng: 4.757,
+    capabilities: ['collections', 'sanitisation', 'grading', 'jml_fulfilment'],
+    operatingHours: weekdayHours,
+    isActive: true,
+    isDefault: false,
+    createdAt: '2024-09-01T09:00:00.000Z',
+    updatedAt: '2024-09-01T09:00:00.000Z',
+  },
+];
+
+const mockDrivers: DriverProfile[] = [
+  {
+    id: 'user-driver',
+    name: 'Dana Driver',
+    email: 'driver@reuse.local',
+    phone: '07700 900123',
+    status: 'active',
+    vehicleId: 'vehicle-1',
+    vehicleReg: 'RC24 EVN',
+    vehicleType: 'van',
+    vehicleFuelType: 'electric',
+    vehicles: [{ id: 'vehicle-1', vehicleReg: 'RC24 EVN', vehicleType: 'van', vehicleFuelType: 'electric' }],
+    hasVehicle: true,
+    hasProfile: true,
+  },
+];
+
+const mockBookings: MockBooking[] = [
+  {
+    id: 'booking-1',
+    bookingNumber: 'BK-1001',
+    tenantId: PLATFORM_TENANT_ID,
+    clientId: 'client-acme',
+    clientName: 'Acme Ltd',
+    organisationName: 'Acme Ltd',
+    siteId: 'site-acme-hq',
+    siteName: 'Acme HQ',
+    siteAddress: '1 Canada Square, London',
+    postcode: 'E14 5AB',
+    lat: 51.5049,
+    lng: -0.0195,
+    scheduledDate: daysFromNow(5),
+    status: 'pending',
+    assets: [
+      { categoryId: 'cat-laptop', categoryName: 'Laptop', quantity: 20 },
+      { categoryId: 'cat-monitor', categoryName: 'Monitor', quantity: 10 },
+    ],
+    charityPercent: 10,
+    estimatedCO2e: 6800,
+    estimatedBuyback: 2700,
+    preferredVehicleType: 'electric',
+    roundTripDistanceKm: 30,
+    roundTripDistanceMiles: 18.6,
+    warehouseId: 'warehouse-london',
+    warehouseName: 'London East',
+    bookingType: 'itad_collection',
+    createdAt: daysFromNow(-2),
+    createdBy: 'user-client',
+    createdByName: 'Casey Client',
+    statusHistory: [{ status: 'pending', changedAt: daysFromNow(-2), changedBy: 'user-client' }],
+  },
+  {
+    id: 'booking-2',
+    bookingNumber: 'BK-1002',
+    tenantId: PLATFORM_TENANT_ID,
+    clientId: 'client-acme',
+    clientName: 'Acme Ltd',
+    organisationName: 'Acme Ltd',
+    siteId: 'site-acme-hq',
+    siteName: 'Acme HQ',
+    siteAddress: '1 Canada Square, London',
+    postcode: 'E14 5AB',
+    lat: 51.5049,
+    lng: -0.0195,
+    scheduledDate: daysFromNow(1),
+    status: 'scheduled',
+    assets: [{ categoryId: 'cat-desktop', categoryName: 'Desktop', quantity: 15 }],
+    charityPercent: 0,
+    estimatedCO2e: 5250,
+    estimatedBuyback: 1200,
+    preferredVehicleType: 'electric',
+    roundTripDistanceKm: 30,
+    roundTripDistanceMiles: 18.6,
+    warehouseId: 'warehouse-london',
+    warehouseName: 'London East',
+    jobId: 'job-2',
+    jobStatus: 'routed',
+    driverId: 'user-driver',
+    driverName: 'Dana Driver',
+    vehicleId: 'vehicle-1',
+    erpJobNumber: 'ERP-2002',
+    bookingType: 'itad_collection',
+    createdAt: daysFromNow(-6),
+    createdBy: 'user-client',
+    createdByName: 'Casey Client',
+    scheduledBy: 'user-admin',
+    scheduledAt: daysFromNow(-4),
+    statusHistory: [
+      { status: 'pending', changedAt: daysFromNow(-6), changedBy: 'user-client' },
+      { status: 'created', changedAt: daysFromNow(-5), changedBy: 'user-admin' },
+      { status: 'scheduled', changedAt: daysFromNow(-4), changedBy: 'user-admin' },
+    ],
+  },
+  {
+    id: 'booking-5',
+    bookingNumber: 'BK-1005',
+    tenantId: PLATFORM_TENANT_ID,
+    clientId: 'client-acme',
+    clientName: 'Acme Ltd',
+    organisationName: 'Acme Ltd',
+    siteId: 'site-acme-stratford',
+    siteName: 'Acme Stratford Depot',
+    siteAddress: '12 Westfield Avenue, London',
+    postcode: 'E20 1GL',
+    lat: 51.5416,
+    lng: -0.0034,
+    scheduledDate: daysFromNow(1),
+    status: 'scheduled',
+    assets: [{ categoryId: 'cat-laptop', categoryName: 'Laptop', quantity: 20 }],
+    charityPercent: 0,
+    estimatedCO2e: 5000,
+    estimatedBuyback: 2400,
+    preferredVehicleType: 'electric',
+    roundTripDistanceKm: 22.4,
+    roundTripDistanceMiles: 13.9,
+    warehouseId: 'warehouse-london',
+    warehouseName: 'London East',
+    jobId: 'job-5',
+    jobStatus: 'routed',
+    driverId: 'user-driver',
+    driverName: 'Dana Driver',
+    vehicleId: 'vehicle-1',
+    erpJobNumber: 'ERP-2005',
+    bookingType: 'itad_collection',
+    createdAt: daysFromNow(-6),
+    createdBy: 'user-client',
+    createdByName: 'Casey Client',
+    scheduledBy: 'user-admin',
+    scheduledAt: daysFromNow(-4),
+    statusHistory: [
+      { status: 'pending', changedAt: daysFromNow(-6), changedBy: 'user-client' },
+      { status: 'created', changedAt: daysFromNow(-5), changedBy: 'user-admin' },
+      { status: 'scheduled', changedAt: daysFromNow(-4), changedBy: 'user-admin' },
+    ],
+  },
+  {
+    id: 'booking-6',
+    bookingNumber: 'BK-1006',
+    tenantId: PLATFORM_TENANT_ID,
+    clientId: 'client-acme',
+    clientName: 'Acme Ltd',
+    organisationName: 'Acme Ltd',
+    siteId: 'site-acme-croydon',
+    siteName: 'Acme Croydon Office',
+    siteAddress: '3 Wellesley Road, Croydon',
+    postcode: 'CR0 2AG',
+    lat: 51.3762,
+    lng: -0.0982,
+    scheduledDate: daysFromNow(1),
+    status: 'scheduled',
+    assets: [{ categoryId: 'cat-monitor', categoryName: 'Monitor', quantity: 8 }],
+    charityPercent: 0,
+    estimatedCO2e: 1440,
+    estimatedBuyback: 240,
+    preferredVehicleType: 'electric',
+    roundTripDistanceKm: 43.6,
+    roundTripDistanceMiles: 27.1,
+    warehouseId: 'warehouse-london',
+    warehouseName: 'London East',
+    jobId: 'job-6',
+    jobStatus: 'routed',
+    driverId: 'user-driver',
+    driverName: 'Dana Driver',
+    vehicleId: 'vehicle-1',
+    erpJobNumber: 'ERP-2006',
+    bookingType: 'itad_collection',
+    createdAt: daysFromNow(-6),
+    createdBy: 'user-client',
+    createdByName: 'Casey Client',
+    scheduledBy: 'user-admin',
+    scheduledAt: daysFromNow(-4),
+    statusHistory: [
+      { status: 'pending', changedAt: daysFromNow(-6), changedBy: 'user-client' },
+      { status: 'created', changedAt: daysFromNow(-5), changedBy: 'user-admin' },
+      { status: 'scheduled', changedAt: daysFromNow(-4), changedBy: 'user-admin' },
+    ],
+  },
+  {
+    id: 'booking-3',
+    bookingNumber: 'BK-1003',
+    tenantId: PLATFORM_TENANT_ID,
+    clientId: 'client-initech',
+    clientName: 'Initech plc',
+    organisationName: 'Initech plc',
+    siteId: 'site-initech-mcr',
+    siteName: 'Initech Manchester',
+    siteAddress: '100 Deansgate, Manchester',
+    postcode: 'M3 2GP',
+    lat: 53.4808,
+    lng: -2.2484,
+    scheduledDate: daysFromNow(-10),
+    status: 'completed',
+    assets: [
+      { categoryId: 'cat-laptop', categoryName: 'Laptop', quantity: 8 },
+      { categoryId: 'cat-phone', categoryName: 'Smartphone', quantity: 12 },
+    ],
+    charityPercent: 5,
+    estimatedCO2e: 2720,
+    estimatedBuyback: 2040,
+    preferredVehicleType: 'diesel',
+    roundTripDistanceKm: 590,
+    roundTripDistanceMiles: 366.6,
+    warehouseId: 'warehouse-london',
+    warehouseName: 'London East',
+    jobId: 'job-3',
+    jobStatus: 'completed',
+    driverId: 'user-driver',
+    driverName: 'Dana Driver',
+    vehicleId: 'vehicle-2',
+    erpJobNumber: 'ERP-2003',
+    bookingType: 'itad_collection',
+    createdAt: daysFromNow(-20),
+    createdBy: 'user-admin',
+    createdByName: 'Alex Admin',
+    collectedAt: daysFromNow(-10),
+    sanitisedAt: daysFromNow(-8),
+    gradedAt: daysFromNow(-7),
+    completedAt: daysFromNow(-6),
+    statusHistory: [
+      { status: 'pending', changedAt: daysFromNow(-20), changedBy: 'user-admin' },
+      { status: 'created', changedAt: daysFromNow(-19), changedBy: 'user-admin' },
+      { status: 'scheduled', changedAt: daysFromNow(-15), changedBy: 'user-admin' },
+      { status: 'collected', changedAt: daysFromNow(-10), changedBy: 'user-driver' },
+      { status: 'sanitised', changedAt: daysFromNow(-8), changedBy: 'user-admin' },
+      { status: 'graded', changedAt: daysFromNow(-7), changedBy: 'user-admin' },
+      { status: 'completed', changedAt: daysFromNow(-6), changedBy: 'user-admin' },
+    ],
+  },
+  {
+    id: 'booking-4',
+    bookingNumber: 'BK-1004',
+    tenantId: PLATFORM_TENANT_ID,
+    clientId: 'client-acme',
+    clientName: 'Acme Ltd',
+    organisationName: 'Acme Ltd',
+    siteName: 'Jordan Starter (home)',
+    siteAddress: '22 Acacia Avenue, Reading',
+    postcode: 'RG1 1AA',
+    lat: 51.4543,
+    lng: -0.9781,
+    scheduledDate: daysFromNow(7),
+    status: 'pending',
+    assets: [{ categoryId: 'cat-laptop', categoryName: 'Laptop', quantity: 1 }],
+    charityPercent: 0,
+    estimatedCO2e: 0,
+    estimatedBuyback: 0,
+    warehouseId: 'warehouse-reading',
+    warehouseName: 'Reading Fulfilment',
+    bookingType: 'jml',
+    jmlSubType: 'new_starter',
+    employeeName: 'Jordan Starter',
+    employeeEmail: 'jordan@acme.local',
+    employeePhone: '07700 900456',
+    startDate: daysFromNow(7),
+    deviceType: 'Windows',
+    createdAt: daysFromNow(-1),
+    createdBy: 'user-client',
+    createdByName: 'Casey Client',
+    statusHistory: [{ status: 'pending', changedAt: daysFromNow(-1), changedBy: 'user-client' }],
+  },
+];
+
+const mockJobs: MockJob[] = [
+  {
+    id: 'job-2',
+    tenantId: PLATFORM_TENANT_ID,
+    clientId: 'client-acme',
+    erpJobNumber: 'ERP-2002',
+    bookingId: 'booking-2',
+    organisationName: 'Acme Ltd',
+    createdByName: 'Casey Client',
+    siteName: 'Acme HQ',
+    siteAddress: '1 Canada Square, London',
+    postcode: 'E14 5AB',
+    lat: 51.5049,
+    lng: -0.0195,
+    status: 'routed',
+    scheduledDate: daysFromNow(1),
+    completedDate: null,
+    co2eSaved: 5250,
+    travelEmissions: 0,
+    buybackValue: 1200,
+    charityPercent: 0,
+    roundTripDistanceKm: 30,
+    roundTripDistanceMiles: 18.6,
+    warehouseId: 'warehouse-london',
+    warehouseName: 'London East',
+    bookingType: 'itad_collection',
+    assets: [
+      {
+        id: 'asset-2-1',
+        categoryId: 'cat-desktop',
+        categoryName: 'Desktop',
+        quantity: 15,
+        // Pre-registered by the client, so Blancco reports can be matched once collected
+        serialNumbers: ['CZC4211ABC', 'CZC4211ABD', 'CZC4211ABE'],
+      },
+    ],
+    driver: {
+      id: 'user-driver',
+      name: 'Dana Driver',
+      email: 'driver@reuse.local',
+      vehicleReg: 'RC24 EVN',
+      vehicleType: 'van',
+      vehicleFuelType: 'electric',
+      phone: '07700 900123',
+    },
+    evidence: [],
+    certificates: [],
+  },
+  {
+    id: 'job-5',
+    tenantId: PLATFORM_TENANT_ID,
+    clientId: 'client-acme',
+    erpJobNumber: 'ERP-2005',
+    bookingId: 'booking-5',
+    organisationName: 'Acme Ltd',
+    createdByName: 'Casey Client',
+    siteName: 'Acme Stratford Depot',
+    siteAddress: '12 Westfield Avenue, London',
+    postcode: 'E20 1GL',
+    lat: 51.5416,
+    lng: -0.0034,
+    status: 'routed',
+    scheduledDate: daysFromNow(1),
+    completedDate: null,
+    co2eSaved: 5000,
+    travelEmissions: 0,
+    buybackValue: 2400,
+    charityPercent: 0,
+    roundTripDistanceKm: 22.4,
+    roundTripDistanceMiles: 13.9,
+    warehouseId: 'warehouse-london',
+    warehouseName: 'London East',
+    bookingType: 'itad_collection',
+    assets: [{ id: 'asset-5-1', categoryId: 'cat-laptop', categoryName: 'Laptop', quantity: 20 }],
+    driver: {
+      id: 'user-driver',
+      name: 'Dana Driver',
+      email: 'driver@reuse.local',
+      vehicleReg: 'RC24 EVN',
+      vehicleType: 'van',
+      vehicleFuelType: 'electric',
+      phone: '07700 900123',
+    },
+    evidence: [],
+    certificates: [],
+  },
+  {
+    id: 'job-6',
+    tenantId: PLATFORM_TENANT_ID,
+    clientId: 'client-acme',
+    erpJobNumber: 'ERP-2006',
+    bookingId: 'booking-6',
+    organisationName: 'Acme Ltd',
+    createdByName: 'Casey Client',
+    siteName: 'Acme Croydon Office',
+    siteAddress: '3 Wellesley Road, Croydon',
+    postcode: 'CR0 2AG',
+    lat: 51.3762,
+    lng: -0.0982,
+    status: 'routed',
+    scheduledDate: daysFromNow(1),
+    completedDate: null,
+    co2eSaved: 1440,
+    travelEmissions: 0,
+    buybackValue: 240,
+    charityPercent: 0,
+    roundTripDistanceKm: 43.6,
+    roundTripDistanceMiles: 27.1,
+    warehouseId: 'warehouse-london',
+    warehouseName: 'London East',
+    bookingType: 'itad_collection',
+    assets: [{ id: 'asset-6-1', categoryId: 'cat-monitor', categoryName: 'Monitor', quantity: 8 }],
+    driver: {
+      id: 'user-driver',
+      name: 'Dana Driver',
+      email: 'driver@reuse.local',
+      vehicleReg: 'RC24 EVN',
+      vehicleType: 'van',
+      vehicleFuelType: 'electric',
+      phone: '07700 900123',
+    },
+    evidence: [],
+    certificates: [],
+  },
+  {
+    id: 'job-3',
+    tenantId: PLATFORM_TENANT_ID,
+    clientId: 'client-initech',
+    erpJobNumber: 'ERP-2003',
+    bookingId: 'booking-3',
+    organisationName: 'Initech plc',
+    createdByName: 'Alex Admin',
+    siteName: 'Initech Manchester',
+    siteAddress: '100 Deansgate, Manchester',
+    postcode: 'M3 2GP',
+    lat: 53.4808,
+    lng: -2.2484,
+    status: 'completed',
+    scheduledDate: daysFromNow(-10),
+    completedDate: daysFromNow(-6),
+    co2eSaved: 2720,
+    travelEmissions: 112.1,
+    buybackValue: 2040,
+    charityPercent: 5,
+    roundTripDistanceKm: 590,
+    roundTripDistanceMiles: 366.6,
+    warehouseId: 'warehouse-london',
+    warehouseName: 'London East',
+    bookingType: 'itad_collection',
+    assets: [
+      {
+        id: 'asset-3-1',
+        categoryId: 'cat-laptop',
+        categoryName: 'Laptop',
+        quantity: 8,
+        grade: 'A',
+        sanitised: true,
+        resaleValue: 140,
+      },
+      {
+        id: 'asset-3-2',
+        categoryId: 'cat-phone',
+        categoryName: 'Smartphone',
+        quantity: 12,
+        grade: 'B',
+        sanitised: true,
+        resaleValue: 75,
+      },
+    ],
+    driver: {
+      id: 'user-driver',
+      name: 'Dana Driver',
+      email: 'driver@reuse.local',
+      vehicleReg: 'RC23 DSL',
+      vehicleType: 'truck',
+      vehicleFuelType: 'diesel',
+      phone: '07700 900123',
+    },
+    evidence: [
+      {
+        status: 'collected',
+        photos: [],
+        signature: null,
+        sealNumbers: ['SEAL-0001', 'SEAL-0002'],
+        notes: 'Collected from loading bay 2',
+        createdAt: daysFromNow(-10),
+      },
+    ],
+    certificates: [
+      { id: 'cert-3-1', type: 'chain_of_custody', generatedDate: daysFromNow(-10), downloadUrl: '#' },
+      { id: 'cert-3-2', type: 'data_wipe', generatedDate: daysFromNow(-8), downloadUrl: '#' },
+    ],
+  },
+];
+
+// Seed jobs were calculated before the 2024 factor set was published
+for (const job of mockJobs) {
+  job.emissions = calculateEmissions(
+    BASELINE_FACTOR_SET,
+    {
+      assets: job.assets,
+      categories: mockAssetCategories,
+      distanceKm: job.roundTripDistanceKm,
+      travelFactorKey: getTravelFactorKey(BASELINE_FACTOR_SET, job.driver),
+    },
+    daysFromNow(-14)
+  );
+}
+
+const mockInventory: InventoryItem[] = [
+  ...['5CG1234ABC', '5CG1234ABD', '5CG1234ABE'].map((serialNumber, index) => ({
+    id: `inv-${index + 1}`,
+    tenantId: PLATFORM_TENANT_ID,
+    category: 'laptop',
+    deviceType: 'Windows',
+    make: 'HP',
+    model: 'EliteBook 840 G8',
+    serialNumber,
+    conditionCode: 'A',
+    status: 'available' as const,
+    allocatedTo: 'client-acme',
+    createdAt: '2024-04-01T09:00:00.000Z',
+    updatedAt: '2024-04-01T09:00:00.000Z',
+  })),
+  {
+    id: 'inv-4',
+    tenantId: PLATFORM_TENANT_ID,
+    category: 'laptop',
+    deviceType: 'Apple',
+    make: 'Apple',
+    model: 'MacBook Air M2',
+    serialNumber: 'C02XK0AAJG5J',
+    conditionCode: 'A',
+    status: 'available',
+    allocatedTo: 'client-acme',
+    createdAt: '2024-04-01T09:00:00.000Z',
+    updatedAt: '2024-04-01T09:00:00.000Z',
+  },
+  {
+    id: 'inv-5',
+    tenantId: PLATFORM_TENANT_ID,
+    category: 'smart phones',
+    deviceType: null,
+    make: 'Apple',
+    model: 'iPhone 13',
+    serialNumber: 'F2LXK1ABCD12',
+    imei: '356938035643809',
+    conditionCode: 'B',
+    status: 'available',
+    allocatedTo: 'client-initech',
+    createdAt: '2024-04-01T09:00:00.000Z',
+    updatedAt: '2024-04-01T09:00:00.000Z',
+  },
+];
+
+const mockGradingRecords: GradingRecord[] = [
+  {
+    id: 'grading-1',
+    bookingId: 'booking-3',
+    jobId: 'job-3',
+    assetId: 'asset-3-1',
+    assetCategory: 'cat-laptop',
+    grade: 'A',
+    quantity: 8,
+    resaleValue: 140,
+    gradedAt: daysFromNow(-7),
+    gradedBy: 'user-admin',
+  },
+  {
+    id: 'grading-2',
+    bookingId: 'booking-3',
+    jobId: 'job-3',
+    assetId: 'asset-3-2',
+    assetCategory: 'cat-phone',
+    grade: 'B',
+    quantity: 12,
+    resaleValue: 75,
+    gradedAt: daysFromNow(-7),
+    gradedBy: 'user-admin',
+  },
+];
+
+const mockSanitisationRecords: SanitisationRecord[] = [
+  {
+    id: 'sanitisation-1',
+    bookingId: 'booking-3',
+    jobId: 'job-3',
+    assetId: 'asset-3-1',
+    method: 'blancco',
+    methodDetails: 'Blancco Drive Eraser - NIST 800-88 Purge',
+    timestamp: daysFromNow(-8),
+    performedBy: 'user-admin',
+    certificateId: 'BL-000123',
+    certificateUrl: '#',
+    verified: true,
+  },
+  {
+    id: 'sanitisation-2',
+    bookingId: 'booking-3',
+    jobId: 'job-3',
+    assetId: 'asset-3-2',
+    method: 'blancco',
+    methodDetails: 'Blancco Mobile Diagnostics & Erasure',
+    timestamp: daysFromNow(-8),
+    performedBy: 'user-admin',
+    certificateId: 'BL-000124',
+    certificateUrl: '#',
+    verified: true,
+  },
+];
+
+const mockNotifications: MockNotification[] = [
+  {
+    id: 'notification-1',
+    userId: 'user-admin',
+    type: 'info',
+    title: 'New booking request',
+    message: 'Acme Ltd submitted booking BK-1001 for approval.',
+    time: daysFromNow(-2),
+    read: false,
+    url: '/admin/bookings',
+  },
+  {
+    id: 'notification-2',
+    userId: 'user-driver',
+    type: 'info',
+    title: 'Job assigned',
+    message: 'You have been assigned job ERP-2002 at Acme HQ.',
+    time: daysFromNow(-4),
+    read: false,
+    url: '/driver/jobs/job-2',
+  },
+  {
+    id: 'notification-3',
+    userId: 'user-client',
+    type: 'success',
+    title: 'Booking scheduled',
+    message: 'Booking BK-1002 has been scheduled for collection.',
+    time: daysFromNow(-4),
+    read: true,
+    url: '/bookings/booking-2',
+  },
+];
+
+const mockInvites: Invite[] = [
+  {
+    id: 'invite-1',
+    email: 'newdriver@reuse.local',
+    role: 'driver',
+    tenantId: PLATFORM_TENANT_ID,
+    tenantName: PLATFORM_TENANT_NAME,
+    invitedBy: 'user-admin',
+    invitedAt: daysFromNow(-1),
+    expiresAt: daysFromNow(6),
+    token: 'mock-invite-token',
+    status: 'pending',
+  },
+];
+
+const mockDocuments: Document[] = [
+  {
+    id: 'document-1',
+    tenantId: PLATFORM_TENANT_ID,
+    jobId: 'job-3',
+    bookingId: 'booking-3',
+    name: 'Chain of Custody - ERP-2003.pdf',
+    type: 'chain-of-custody',
+    filePath: '/documents/document-1.pdf',
+    fileSize: 184320,
+    mimeType: 'application/pdf',
+    uploadedBy: 'user-admin',
+    createdAt: daysFromNow(-10),
+    updatedAt: daysFromNow(-10),
+    booking: { bookingNumber: 'BK-1003', client: { name: 'Initech plc' } },
+    job: { erpJobNumber: 'ERP-2003', clientName: 'Initech plc' },
+  },
+];
+
+const mockOrganisationProfiles: OrganisationProfile[] = [
+  {
+    id: 'org-profile-client',
+    userId: 'user-client',
+    organisationName: 'Acme Ltd',
+    registrationNumber: '01234567',
+    address: '1 Canada Square, London E14 5AB',
+    email: 'client@acme.local',
+    phone: '020 7946 0001',
+    createdAt: '2024-02-01T09:00:00.000Z',
+    updatedAt: '2024-02-01T09:00:00.000Z',
+  },
+];
+
+// Picked up from the warehouse's Blancco export folder; neither device could be matched automatically
+const mockSanitisationImports: SanitisationImport[] = [
+  {
+    id: 'sanitisation-import-1',
+    source: 'watched_folder',
+    fileName: 'london-east-bench-3.xml',
+    format: 'xml',
+    bookingId: null,
+    importedAt: daysFromNow(-1),
+    importedBy: null,
+    total: 2,
+    matched: 0,
+    needsReview: 2,
+    items: [
+      {
+        id: 'sanitisation-import-item-1',
+        report: {
+          reportId: 'BL-7A61C2',
+          serialNumber: 'CZC4211ABF',
+          manufacturer: 'HP',
+          model: 'EliteDesk 800 G6',
+          erasureStandard: 'NIST 800-88 Purge',
+          result: 'successful',
+          resultDetail: 'Successful',
+          software: 'Blancco Drive Eraser 7.9.0',
+          startedAt: daysFromNow(-1),
+          completedAt: daysFromNow(-1),
+        },
+        status: 'unmatched',
+        message: 'Serial number not found on any booking awaiting sanitisation',
+      },
+      {
+        id: 'sanitisation-import-item-2',
+        report: {
+          reportId: 'BL-7A61C3',
+          serialNumber: 'CZC4211ABG',
+          manufacturer: 'HP',
+          model: 'EliteDesk 800 G6',
+          erasureStandard: 'NIST 800-88 Purge',
+          result: 'failed',
+          resultDetail: 'Failed',
+          software: 'Blancco Drive Eraser 7.9.0',
+          startedAt: daysFromNow(-1),
+          completedAt: daysFromNow(-1),
+        },
+        status: 'failed_erasure',
+        message: 'Blancco reported the erasure as Failed',
+      },
+    ],
+  },
+];
+
+// Seeded job numbers run ERP-2002..ERP-2006, so auto-numbering carries on from there
+const mockErpConnector: MockErpConnector = {
+  enabled: true,
+  endpointUrl: 'https://erp.reuse.local/api/v2',
+  authType: 'api_key',
+  username: null,
+  credential: 'erp-demo-key-7f3a',
+  credentialHint: '7f3a',
+  mappings: DEFAULT_ERP_FIELD_MAPPINGS,
+  schedule: { frequency: 'manual', time: '02:00', entities: ['jobs', 'inventory', 'clients'] },
+  jobNumbers: { mode: 'manual', prefix: 'ERP-', padding: 4, nextSequence: 2100 },
+  lastSyncAt: null,
+  nextSyncAt: null,
+  updatedAt: '2024-02-01T09:00:00.000Z',
+};
+
+/**
+ * Fresh copy of the seed data. The mock server mutates its copy, so every
+ * server instance (and page reload) starts from the same state.
+ */
+export function createMockSeed(): MockSeed {
+  return structuredClone({
+    users: mockUsers,
+    roles: mockRoles,
+    clients: mockClients,
+    sites: mockSites,
+    drivers: mockDrivers,
+    vehicles: mockVehicles,
+    warehouses: mockWarehouses,
+    assetCategories: mockAssetCategories,
+    emissionFactorSets: mockEmissionFactorSets,
+    restatements: [],
+    bookings: mockBookings,
+    jobs: mockJobs,
+    inventory: mockInventory,
+    gradingRecords: mockGradingRecords,
+    sanitisationRecords: mockSanitisationRecords,
+    sanitisationImports: mockSanitisationImports,
+    notifications: mockNotifications,
+    notificationPreferences: [],
+    notificationDeliveries: [],
+    webhookSubscriptions: [],
+    webhookDeliveries: [],
+    erpConnector: mockErpConnector,
+    erpSyncRuns: [],
+    custodyLedger: [],
+    custodyCertificates: [],
+    jmlLeadTimes: [],
+    jmlMilestoneAlerts: [],
+    shipments: [],
+    employees: [],
+    invites: mockInvites,
+    documents: mockDocuments,
+    organisationProfiles: mockOrganisationProfiles,
+  });
+}
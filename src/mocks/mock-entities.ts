@@ -1,5 +1,7 @@
 import type { User } from '@/types/auth';
 import type { BookingLifecycleStatus } from '@/types/booking-lifecycle';
+import type { LeaverFulfilment, ReturnsKit } from '@/types/returns-kit';
+import type { BookingDeviceRecord } from '@/types/employees';
 
 export interface ExtendedUser extends User {
   isActive: boolean;
@@ -36,6 +38,8 @@ export interface Booking {
   resellerName?: string;
   siteName: string;
   siteAddress: string;
+  lat?: number; // Site coordinates
+  lng?: number;
   scheduledDate: string;
   status: BookingLifecycleStatus | 'cancelled';
   assets: Array<{
@@ -49,6 +53,8 @@ export interface Booking {
   preferredVehicleType?: 'petrol' | 'diesel' | 'electric';
   roundTripDistanceKm?: number;
   roundTripDistanceMiles?: number;
+  warehouseId?: string; // Warehouse processing the booking
+  warehouseName?: string;
   jobId?: string;
   jobStatus?: string;
   driverId?: string;
@@ -70,11 +76,17 @@ export interface Booking {
   employeeName?: string;
   employeeEmail?: string;
   employeePhone?: string;
+  employeeId?: string; // The employee's device ledger this booking belongs to
+  allocatedDevices?: BookingDeviceRecord[]; // Issued to the employee from inventory
+  collectedDevices?: BookingDeviceRecord[]; // Serials recorded when their kit was collected
   startDate?: string;
   deviceType?: string;
   courierTracking?: string;
   courierService?: string;
   deliveryDate?: string;
+  // Leaver booking specific fields
+  leaverFulfilment?: LeaverFulfilment;
+  returnsKit?: ReturnsKit | null; // Once the kit has been issued
   // Mover booking specific fields
   currentAddress?: string;
   currentPostcode?: string;
@@ -96,6 +108,8 @@ export interface SanitisationRecord {
   certificateUrl: string;
   verified: boolean;
   notes?: string;
+  serialNumber?: string; // Set for per-device records, e.g. from a Blancco report
+  importId?: string; // Blancco import the record came from
 }
 
 export interface GradingRecord {
@@ -111,6 +125,7 @@ export interface GradingRecord {
   gradedBy: string;
   notes?: string;
   condition?: string;
+  defects?: string[]; // Defect codes from the grading workstation - see defectOptions in lib/grading.ts
   serialNumbers?: string[];
   imeiNumbers?: string[];
 }
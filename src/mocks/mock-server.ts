@@ -0,0 +1,4222 @@
+// Local mock backend (VITE_USE_MOCKS=true)
+// In-memory, stateful implementation of the endpoints the services call, seeded
+// from mock-data. ApiClient routes requests here instead of fetch(), so the whole
+// middleware pipeline (retries, timeouts, schema validation) still applies.
+//
+// - Booking status changes go through the booking state machine (lib/booking-state-machine).
+// - Each endpoint group honours the per-service error simulation config, keyed by
+//   the first path segment (e.g. localStorage error_sim_bookings, error_sim_jobs).
+// - Sign in with any seeded user's email and MOCK_PASSWORD ("password").
+// - Stands in for the push channel too: subscribe() receives the events the real
+//   server would push to the signed-in user (see createMockTransport).
+// - Outbound webhooks really are sent, with fetch() from the browser, so a local
+//   receiver works as long as it answers CORS preflights from the app's origin.
+import type { Tenant, User } from '@/types/auth';
+import { getStatusLabelExtended } from '@/types/booking-lifecycle';
+import type { ApiRequest, HttpMethod } from '@/services/api-client';
+import { ApiError, ApiErrorType, getErrorSimulationConfig, shouldSimulateError } from '@/services/api-error';
+import { sleep } from '@/lib/abort';
+import {
+  checkTransition,
+  getBookingStatusForJobStatus,
+  getTransitions,
+  runTransitionEffects,
+  type BookingTransitionEffect,
+} from '@/lib/booking-state-machine';
+import { kmToMiles } from '@/lib/calculations';
+import {
+  BASELINE_FACTOR_SET,
+  calculateEmissions,
+  createCo2eEquivalencies,
+  getTravelFactorKey,
+  sumEmissions,
+} from '@/lib/emission-factors';
+import { calculateStraightLineDistance } from '@/lib/routing';
+import { getAssignableScopes, getPermissionScope, isInScope, resolveGrants, type ScopedRecord } from '@/lib/permissions';
+import { getWarehouseCoordinates, selectWarehouseForBooking } from '@/lib/warehouses';
+import { scoreSearchMatch, type SearchField } from '@/lib/search-ranking';
+import {
+  createDefaultNotificationPreferences,
+  getNextDigestTime,
+  isValidTime,
+  NOTIFICATION_CATEGORIES,
+  planNotificationDelivery,
+} from '@/lib/notification-preferences';
+import {
+  buildErpPayload,
+  formatErpJobNumber,
+  getNextErpSyncTime,
+  isValidErpSchedule,
+  validateErpMappings,
+} from '@/lib/erp';
+import {
+  bookingEventType,
+  generateWebhookSecret,
+  isKnownWebhookEventType,
+  isValidWebhookUrl,
+  jobEventType,
+  signWebhookPayload,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_RETRY_DELAYS_SECONDS,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TEST_EVENT,
+  WEBHOOK_TIMEOUT_MS,
+} from '@/lib/webhooks';
+import {
+  needsReview,
+  normaliseSerialNumber,
+  parseBlanccoReports,
+  SANITISATION_BOOKING_STATUSES,
+} from '@/lib/blancco';
+import { getGradedIdentifiers, isInventoryGrade } from '@/lib/grading';
+import { isValidImei } from '@/lib/barcode';
+import { categoryRequiresImei } from '@/lib/jml-assets';
+import { JML_IMPORT_MAX_ROWS, toJmlBookingRequest, validateJmlImportRows } from '@/lib/jml-import';
+import {
+  DEFAULT_JML_LEAD_TIMES,
+  getJmlAnchorDate,
+  getJmlMilestones,
+  isJmlMilestoneBehind,
+  jmlMilestoneConfig,
+  validateJmlLeadTimes,
+} from '@/lib/jml-schedule';
+import {
+  getBookingStatusForTracking,
+  getCarrierAdapter,
+  isCarrierCode,
+  mergeTrackingEvents,
+  simulateTrackingEvents,
+} from '@/lib/carriers';
+import { getCountryCode } from '@/lib/european-validation';
+import { getDueReturnsKitReminder, getReturnsKitDeadline, isReturnsKitOverdue } from '@/lib/returns-kit';
+import { buildEmployeeLedger } from '@/lib/employee-ledger';
+import {
+  CUSTODY_GENESIS_HASH,
+  getCustodyEventForStatus,
+  hashCustodyEntry,
+  sha256Hex,
+  verifyCustodyChain,
+} from '@/lib/custody';
+import type { Permission, PermissionGrant, PermissionScope, RoleDefinition } from '@/types/permissions';
+import {
+  createMockSeed,
+  MOCK_PASSWORD,
+  type MockBooking,
+  type MockEmployee,
+  type MockJob,
+  type MockSeed,
+  type MockShipment,
+  type MockUser,
+  type MockWebhookSubscription,
+} from './mock-data';
+import { sandboxShipmentResponse, sandboxTrackingPayload } from './carrier-sandbox';
+import type { InventoryItem, InventoryUploadItem } from '@/services/inventory.service';
+import type { Warehouse } from '@/services/warehouse.service';
+import type { EmissionFactorSet, EmissionsBreakdown, Restatement, TravelFactorKey } from '@/types/emissions';
+import type { RealtimeEvent } from '@/types/realtime';
+import type { NotificationCategory, NotificationChannel, NotificationPreferences } from '@/types/notifications';
+import type { WebhookDelivery, WebhookEvent, WebhookEventType, WebhookSubscription } from '@/types/webhooks';
+import type {
+  ErpConnectorConfig,
+  ErpEntity,
+  ErpSyncRecordError,
+  ErpSyncRun,
+  ErpSyncTrigger,
+} from '@/types/erp';
+import type {
+  BlanccoErasureReport,
+  SanitisationImport,
+  SanitisationImportItem,
+} from '@/types/sanitisation-imports';
+import type { BulkGradingItem } from '@/types/grading';
+import type { BulkJmlImportRowResult, JmlImportRow } from '@/types/jml-import';
+import type { ClientJmlLeadTimes, JmlLeadTimes, JmlMilestone, JmlMilestoneAlert } from '@/types/jml-schedule';
+import type { CreateShipmentData, ShipmentAddress, TrackingEvent } from '@/types/carriers';
+import type { IssueReturnsKitData } from '@/types/returns-kit';
+import type { Employee, EmployeeLedger } from '@/types/employees';
+import type {
+  CustodyActor,
+  CustodyCertificate,
+  CustodyEventType,
+  CustodyEvidenceKind,
+  CustodyLocation,
+} from '@/types/custody';
+import type { Document } from '@/services/documents.service';
+import type { Booking, GradingRecord, SanitisationRecord } from './mock-entities';
+
+const SESSION_STORAGE_KEY = 'mock_session_user';
+const MOCK_CSRF_TOKEN = 'mock-csrf-token';
+
+// Simulated network latency so loading states are visible
+const MIN_LATENCY_MS = 150;
+const MAX_LATENCY_MS = 400;
+const PUSH_LATENCY_MS = 100;
+
+// Road distance is typically ~1.3x straight-line distance (same approximation as lib/routing)
+const ROAD_DISTANCE_FACTOR = 1.3;
+
+const GRADE_VALUE_MULTIPLIERS: Record<string, number> = { A: 1.2, B: 1, C: 0.7, D: 0.4, Q: 0 };
+
+const TERMINAL_JOB_STATUSES = ['completed', 'cancelled'];
+
+// Available devices per client and category below this raises an inventory_low notification
+const INVENTORY_LOW_THRESHOLD = 3;
+
+const SEARCH_DEFAULT_LIMIT = 8;
+const SEARCH_MAX_LIMIT = 25;
+
+// Share of records the simulated ERP rejects with a transient error (they succeed on retry)
+const ERP_TRANSIENT_FAILURE_RATE = 0.05;
+const ERP_SYNC_HISTORY_LIMIT = 50;
+const ERP_ENTITY_TYPES: ErpEntity[] = ['jobs', 'inventory', 'clients'];
+
+const WEBHOOK_DELIVERY_LOG_LIMIT = 50;
+const WEBHOOK_RESPONSE_BODY_LIMIT = 1000; // Characters of the receiver's response kept in the log
+
+// Request payloads arrive as parsed JSON, as they would on the real server
+type JsonBody = ReturnType<typeof JSON.parse>;
+
+interface RouteContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: JsonBody;
+  user: MockUser | null;
+}
+
+interface MockRoute {
+  method: HttpMethod;
+  pattern: RegExp;
+  keys: string[];
+  isPublic: boolean;
+  handler: (context: RouteContext) => unknown; // May return a promise
+}
+
+function badRequest(message: string, fields?: Record<string, string>): never {
+  throw new ApiError(ApiErrorType.VALIDATION_ERROR, message, 400, undefined, fields);
+}
+
+function notFound(entity: string): never {
+  throw new ApiError(ApiErrorType.NOT_FOUND, `${entity} not found`, 404);
+}
+
+function forbidden(message = 'You do not have permission to perform this action'): never {
+  throw new ApiError(ApiErrorType.FORBIDDEN, message, 403);
+}
+
+function statusCodeForErrorType(type: ApiErrorType): number {
+  switch (type) {
+    case ApiErrorType.NETWORK_ERROR:
+      return 0;
+    case ApiErrorType.VALIDATION_ERROR:
+    case ApiErrorType.BAD_REQUEST:
+      return 400;
+    case ApiErrorType.UNAUTHORIZED:
+      return 401;
+    case ApiErrorType.FORBIDDEN:
+      return 403;
+    case ApiErrorType.NOT_FOUND:
+      return 404;
+    case ApiErrorType.TIMEOUT:
+      return 408;
+    case ApiErrorType.RATE_LIMIT:
+      return 429;
+    default:
+      return 500;
+  }
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+class MockServer {
+  private db: MockSeed = createMockSeed();
+  private routes: MockRoute[] = [];
+  private sessionUserId: string | null = null;
+  private eventListeners = new Set<(event: RealtimeEvent) => void>();
+  // Custody entries are hashed asynchronously; appends run one at a time in this chain
+  private custodyWrites: Promise<void> = Promise.resolve();
+
+  constructor() {
+    try {
+      this.sessionUserId = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    } catch {
+      // sessionStorage unavailable - session lasts until reload
+    }
+    this.registerRoutes();
+    this.backfillCustodyLedger();
+    this.backfillEmployees();
+  }
+
+  /**
+   * Handle a request from ApiClient. Resolves with the envelope's data or throws ApiError.
+   */
+  async handle(request: Pick<ApiRequest, 'method' | 'endpoint' | 'body' | 'signal'>): Promise<unknown> {
+    const [path, queryString = ''] = request.endpoint.split('?');
+    const group = path.split('/')[1] || '';
+    const simulation = getErrorSimulationConfig(group);
+
+    try {
+      await sleep(
+        MIN_LATENCY_MS + Math.random() * (MAX_LATENCY_MS - MIN_LATENCY_MS) + (simulation.delay || 0),
+        request.signal
+      );
+    } catch {
+      throw new ApiError(ApiErrorType.CANCELLED, 'Request was cancelled', 0);
+    }
+
+    if (shouldSimulateError(group)) {
+      const type = simulation.errorType || ApiErrorType.SERVER_ERROR;
+      throw new ApiError(type, `Simulated ${group} error`, statusCodeForErrorType(type));
+    }
+
+    for (const route of this.routes) {
+      if (route.method !== request.method) continue;
+      const match = route.pattern.exec(path);
+      if (!match) continue;
+
+      const user = this.getSessionUser();
+      if (!route.isPublic && !user) {
+        throw new ApiError(ApiErrorType.UNAUTHORIZED, 'Authentication required', 401);
+      }
+
+      const params = Object.fromEntries(route.keys.map((key, index) => [key, decodeURIComponent(match[index + 1])]));
+      const result = await route.handler({
+        params,
+        query: new URLSearchParams(queryString),
+        body: request.body ?? {},
+        user,
+      });
+
+      // Never hand out references into the database
+      return result === undefined ? null : structuredClone(result);
+    }
+
+    throw new ApiError(ApiErrorType.NOT_FOUND, `Mock endpoint not implemented: ${request.method} ${path}`, 404);
+  }
+
+  /**
+   * Receive push events for the signed-in user, as a push connection would
+   */
+  subscribe(listener: (event: RealtimeEvent) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => this.eventListeners.delete(listener);
+  }
+
+  /**
+   * Restore the seed data (handy from the console while demoing)
+   */
+  reset() {
+    this.db = createMockSeed();
+    this.backfillCustodyLedger();
+    this.backfillEmployees();
+  }
+
+  private route(method: HttpMethod, path: string, handler: MockRoute['handler'], isPublic = false) {
+    const keys: string[] = [];
+    const pattern = new RegExp(
+      `^${path.replace(/:(\w+)/g, (_, key) => {
+        keys.push(key);
+        return '([^/]+)';
+      })}$`
+    );
+    this.routes.push({ method, pattern, keys, isPublic, handler });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Session and scoping helpers
+  // ---------------------------------------------------------------------------
+
+  private getSessionUser(): MockUser | null {
+    if (!this.sessionUserId) return null;
+    return this.db.users.find((user) => user.id === this.sessionUserId) || null;
+  }
+
+  private setSession(userId: string | null) {
+    this.sessionUserId = userId;
+    try {
+      if (userId) {
+        sessionStorage.setItem(SESSION_STORAGE_KEY, userId);
+      } else {
+        sessionStorage.removeItem(SESSION_STORAGE_KEY);
+      }
+    } catch {
+      // Ignore - in-memory session still works
+    }
+  }
+
+  private toUser(user: MockUser): User {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      status: user.status,
+      tenantId: user.tenantId,
+      tenantName: user.tenantName,
+      clientId: user.clientId,
+      resellerId: user.resellerId,
+      avatar: user.avatar,
+      customRoleId: user.customRoleId,
+      permissions: user.permissions,
+      createdAt: user.createdAt,
+    };
+  }
+
+  private toTenant(user: MockUser): Tenant {
+    return {
+      id: user.tenantId,
+      name: user.tenantName,
+      slug: 'admin',
+      createdAt: user.createdAt,
+    };
+  }
+
+  private authResponse(user: MockUser) {
+    this.setSession(user.id);
+    return { user: this.toUser(user), tenant: this.toTenant(user), csrfToken: MOCK_CSRF_TOKEN };
+  }
+
+  private requireAdmin(user: MockUser | null) {
+    if (user?.role !== 'admin') forbidden();
+  }
+
+  /**
+   * Broadest scope the user's permission policy grants for a permission (403 when none)
+   */
+  private requirePermission(user: MockUser | null, permission: Permission): PermissionScope {
+    const customRole = this.db.roles.find((role) => role.id === user?.customRoleId);
+    const scope = user ? getPermissionScope(resolveGrants(user, customRole), permission) : null;
+    if (!scope) forbidden();
+    return scope;
+  }
+
+  private requireRecordAccess(user: MockUser | null, permission: Permission, record: ScopedRecord) {
+    const scope = this.requirePermission(user, permission);
+    if (!isInScope(scope, user!, record)) forbidden();
+  }
+
+  private userRecord(target: MockUser): ScopedRecord {
+    return { ownerId: target.id, clientId: target.clientId, resellerId: target.resellerId };
+  }
+
+  /**
+   * Reject grants the user could not hold themselves - policies can only narrow access
+   */
+  private validateGrants(user: MockUser, grants: PermissionGrant[] = []) {
+    const customRole = this.db.roles.find((role) => role.id === user.customRoleId);
+    const userGrants = resolveGrants(user, customRole);
+    grants.forEach((grant) => {
+      if (!getAssignableScopes(userGrants, grant.permission).includes(grant.scope)) {
+        forbidden(`You cannot grant ${grant.permission} with ${grant.scope} scope`);
+      }
+    });
+  }
+
+  /**
+   * Client IDs the user may see, or null for no restriction
+   */
+  private visibleClientIds(user: MockUser): string[] | null {
+    switch (user.role) {
+      case 'client':
+        return user.clientId ? [user.clientId] : [];
+      case 'reseller':
+        return this.db.clients.filter((client) => client.resellerId === user.id).map((client) => client.id);
+      default:
+        return null;
+    }
+  }
+
+  private visibleBookings(user: MockUser): MockBooking[] {
+    if (user.role === 'driver') {
+      return this.db.bookings.filter((booking) => booking.driverId === user.id);
+    }
+    const clientIds = this.visibleClientIds(user);
+    return clientIds ? this.db.bookings.filter((booking) => clientIds.includes(booking.clientId)) : this.db.bookings;
+  }
+
+  private visibleJobs(user: MockUser): MockJob[] {
+    if (user.role === 'driver') {
+      return this.db.jobs.filter((job) => job.driver?.id === user.id);
+    }
+    const clientIds = this.visibleClientIds(user);
+    return clientIds ? this.db.jobs.filter((job) => clientIds.includes(job.clientId)) : this.db.jobs;
+  }
+
+  private findBooking(user: MockUser, id: string): MockBooking {
+    return this.visibleBookings(user).find((booking) => booking.id === id) || notFound('Booking');
+  }
+
+  private findJob(user: MockUser, id: string): MockJob {
+    return this.visibleJobs(user).find((job) => job.id === id) || notFound('Job');
+  }
+
+  private notificationPreferencesFor(userId: string): NotificationPreferences {
+    return (
+      this.db.notificationPreferences.find((preferences) => preferences.userId === userId) ||
+      createDefaultNotificationPreferences(userId)
+    );
+  }
+
+  /**
+   * Route a notification through each recipient's preferences: in-app is stored and
+   * pushed, emails and webhooks are recorded as deliveries (emails may be held for
+   * the daily digest)
+   */
+  private notify(
+    userIds: string[],
+    notification: {
+      category: NotificationCategory;
+      type: 'success' | 'warning' | 'info' | 'error';
+      title: string;
+      message: string;
+      url?: string;
+    }
+  ) {
+    userIds.forEach((userId) => {
+      const recipient = this.db.users.find((candidate) => candidate.id === userId);
+      const preferences = this.notificationPreferencesFor(userId);
+      const created = { ...notification, id: generateId('notification'), time: now(), read: false };
+
+      planNotificationDelivery(preferences, notification.category, new Date()).forEach(({ channel, mode }) => {
+        if (channel === 'in_app') {
+          this.db.notifications.unshift({ ...created, userId });
+          this.publish({ type: 'notification.created', userId, notification: created, occurredAt: created.time });
+          return;
+        }
+        const target = channel === 'email' ? recipient?.email : preferences.webhookUrl;
+        if (!target) return;
+        this.db.notificationDeliveries.unshift({
+          id: generateId('delivery'),
+          userId,
+          notificationId: created.id,
+          category: notification.category,
+          channel,
+          mode,
+          status: mode === 'digest' ? 'queued' : 'sent',
+          target,
+          title: notification.title,
+          message: notification.message,
+          createdAt: created.time,
+          sentAt: mode === 'digest' ? undefined : created.time,
+        });
+      });
+    });
+  }
+
+  /**
+   * Send digests that have come due (the real backend runs this on a schedule)
+   */
+  private sendDueDigests() {
+    const current = new Date();
+    this.db.notificationDeliveries.forEach((delivery) => {
+      if (delivery.status !== 'queued') return;
+      const preferences = this.notificationPreferencesFor(delivery.userId);
+      if (getNextDigestTime(preferences, new Date(delivery.createdAt)) <= current) {
+        delivery.status = 'sent';
+        delivery.sentAt = current.toISOString();
+      }
+    });
+  }
+
+
+  /**
+   * Push an event to subscribers once the current request has resolved.
+   * Like the real server, only events the session user may see are delivered.
+   */
+  private publish(event: RealtimeEvent) {
+    setTimeout(() => {
+      const user = this.getSessionUser();
+      if (!user || !this.canReceive(user, event)) return;
+      this.eventListeners.forEach((listener) => listener(structuredClone(event)));
+    }, PUSH_LATENCY_MS);
+  }
+
+  private canReceive(user: MockUser, event: RealtimeEvent): boolean {
+    switch (event.type) {
+      case 'notification.created':
+        return event.userId === user.id;
+      case 'booking.approved':
+        return this.visibleBookings(user).some((booking) => booking.id === event.bookingId);
+      default:
+        return this.visibleJobs(user).some((job) => job.id === event.jobId);
+    }
+  }
+
+  private setJobStatus(job: MockJob, status: string) {
+    if (job.status === status) return;
+    const previousStatus = job.status;
+    job.status = status;
+    this.publish({
+      type: 'job.status_changed',
+      jobId: job.id,
+      bookingId: job.bookingId,
+      status,
+      previousStatus,
+      occurredAt: now(),
+    });
+    this.emitWebhookEvent(jobEventType(status), this.jobWebhookData(job, previousStatus));
+  }
+
+  private adminIds(): string[] {
+    return this.db.users.filter((user) => user.role === 'admin').map((user) => user.id);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Outbound webhooks
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Response shape - the secret never leaves the server after create/rotate
+   */
+  private toWebhookSubscription(record: MockWebhookSubscription): WebhookSubscription {
+    const { secret, ...subscription } = record;
+    return subscription;
+  }
+
+  /**
+   * Admins manage every subscription, clients their organisation's and resellers their own
+   */
+  private visibleWebhookSubscriptions(user: MockUser): MockWebhookSubscription[] {
+    this.requirePermission(user, 'settings.integrations');
+    switch (user.role) {
+      case 'admin':
+        return this.db.webhookSubscriptions;
+      case 'client':
+        return this.db.webhookSubscriptions.filter((subscription) => subscription.clientId === user.clientId);
+      default:
+        return this.db.webhookSubscriptions.filter((subscription) => subscription.createdBy === user.id);
+    }
+  }
+
+  private findWebhookSubscription(user: MockUser, id: string): MockWebhookSubscription {
+    return this.visibleWebhookSubscriptions(user).find((subscription) => subscription.id === id) || notFound('Webhook');
+  }
+
+  /**
+   * Subscriptions without a client receive events for every client their creator can see
+   */
+  private webhookCoversClient(subscription: MockWebhookSubscription, clientId?: string | null): boolean {
+    if (subscription.clientId) return subscription.clientId === clientId;
+    const creator = this.db.users.find((candidate) => candidate.id === subscription.createdBy);
+    if (!creator) return false;
+    const clientIds = this.visibleClientIds(creator);
+    return clientIds === null || (!!clientId && clientIds.includes(clientId));
+  }
+
+  private bookingWebhookData(booking: MockBooking, previousStatus?: string | null): WebhookEvent['data'] {
+    return {
+      bookingId: booking.id,
+      bookingNumber: booking.bookingNumber,
+      jobId: booking.jobId ?? null,
+      erpJobNumber: booking.erpJobNumber ?? null,
+      clientId: booking.clientId,
+      status: booking.status,
+      previousStatus: previousStatus ?? null,
+    };
+  }
+
+  private jobWebhookData(job: MockJob, previousStatus?: string | null): WebhookEvent['data'] {
+    const booking = this.db.bookings.find((candidate) => candidate.id === job.bookingId);
+    return {
+      jobId: job.id,
+      erpJobNumber: job.erpJobNumber,
+      bookingId: job.bookingId ?? null,
+      bookingNumber: booking?.bookingNumber ?? null,
+      clientId: job.clientId,
+      status: job.status,
+      previousStatus: previousStatus ?? null,
+    };
+  }
+
+  /**
+   * Deliver an event to every active subscription that wants it, in the background
+   */
+  private emitWebhookEvent(type: WebhookEventType, data: WebhookEvent['data']) {
+    const subscriptions = this.db.webhookSubscriptions.filter(
+      (subscription) =>
+        subscription.isActive && subscription.eventTypes.includes(type) && this.webhookCoversClient(subscription, data.clientId)
+    );
+    if (subscriptions.length === 0) return;
+
+    const event: WebhookEvent = { id: generateId('evt'), type, createdAt: now(), data };
+    subscriptions.forEach((subscription) => {
+      void this.deliverWebhook(subscription, event, 1);
+    });
+  }
+
+  /**
+   * POST a signed event to the subscription's URL and log the attempt. Failed event
+   * deliveries are retried on WEBHOOK_RETRY_DELAYS_SECONDS; test events and manual
+   * replays are not.
+   */
+  private async deliverWebhook(
+    subscription: MockWebhookSubscription,
+    event: WebhookEvent,
+    attempt: number,
+    replayOf?: string
+  ): Promise<WebhookDelivery> {
+    const requestBody = JSON.stringify(event);
+    const delivery: WebhookDelivery = {
+      id: generateId('delivery'),
+      subscriptionId: subscription.id,
+      eventId: event.id,
+      eventType: event.type,
+      attempt,
+      status: 'pending',
+      requestBody,
+      replayOf: replayOf ?? null,
+      createdAt: now(),
+    };
+    this.db.webhookDeliveries.unshift(delivery);
+
+    const startedAt = Date.now();
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [WEBHOOK_EVENT_HEADER]: event.type,
+          [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(subscription.secret, requestBody),
+        },
+        body: requestBody,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      delivery.status = response.ok ? 'succeeded' : 'failed';
+      delivery.responseStatus = response.status;
+      delivery.responseBody = (await response.text()).slice(0, WEBHOOK_RESPONSE_BODY_LIMIT);
+    } catch (error) {
+      // Refused connections and CORS rejections both surface as a TypeError
+      delivery.status = 'failed';
+      delivery.error = error instanceof Error ? error.message : String(error);
+    }
+    delivery.durationMs = Date.now() - startedAt;
+    subscription.lastDeliveryAt = delivery.createdAt;
+    subscription.lastDeliveryStatus = delivery.status;
+
+    const retryDelaySeconds = WEBHOOK_RETRY_DELAYS_SECONDS[attempt - 1];
+    if (delivery.status === 'failed' && event.type !== WEBHOOK_TEST_EVENT && !replayOf && retryDelaySeconds) {
+      delivery.nextRetryAt = new Date(Date.now() + retryDelaySeconds * 1000).toISOString();
+      setTimeout(() => {
+        delivery.nextRetryAt = null;
+        // Deleted or paused in the meantime
+        if (!subscription.isActive || !this.db.webhookSubscriptions.includes(subscription)) return;
+        void this.deliverWebhook(subscription, event, attempt + 1);
+      }, retryDelaySeconds * 1000);
+    }
+    return delivery;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lifecycle helpers
+  // ---------------------------------------------------------------------------
+
+  private notificationCategoryForTransition(
+    to: Booking['status'],
+    effects: BookingTransitionEffect[]
+  ): NotificationCategory {
+    if (to === 'created') return 'booking_approved';
+    if (to === 'scheduled' || to === 'collection_scheduled') return 'driver_assigned';
+    if (effects.includes('certificates_issued')) return 'certificate_ready';
+    return 'booking_updates';
+  }
+
+  /**
+   * Move a booking to a new status, enforcing the booking state machine
+   * (flow graph, role and guards) and running its side effects
+   */
+  private transitionBooking(booking: MockBooking, to: Booking['status'], user: MockUser, notes?: string) {
+    if (booking.status === to) return;
+    const check = checkTransition(booking, to, {
+      role: user.role,
+      gradingRecords: this.db.gradingRecords.filter((record) => record.bookingId === booking.id),
+      sanitisationRecords: this.db.sanitisationRecords.filter((record) => record.bookingId === booking.id),
+    });
+    if (!check.allowed) {
+      badRequest(check.reason || `Invalid status transition from ${booking.status} to ${to}`);
+    }
+
+    const previousStatus = booking.status;
+    booking.status = to;
+    booking.statusHistory.push({ status: to, changedAt: now(), changedBy: user.id, notes });
+    this.emitWebhookEvent(bookingEventType(to), this.bookingWebhookData(booking, previousStatus));
+    const custodyEvent = getCustodyEventForStatus(to);
+    if (custodyEvent) {
+      this.recordCustodyEvent(booking, custodyEvent, user);
+    }
+
+    const timestampField: Partial<Record<Booking['status'], keyof Booking>> = {
+      collected: 'collectedAt',
+      sanitised: 'sanitisedAt',
+      graded: 'gradedAt',
+      completed: 'completedAt',
+    };
+    const field = timestampField[to];
+    if (field) {
+      (booking as unknown as Record<string, string>)[field] = now();
+    }
+
+    // Keep the linked job in step with the booking
+    const job = this.db.jobs.find((candidate) => candidate.id === booking.jobId);
+    if (job && getBookingStatusForJobStatus(to) === to) {
+      this.setJobStatus(job, to);
+      booking.jobStatus = to;
+      if (to === 'completed') {
+        job.completedDate = now();
+      }
+    }
+
+    runTransitionEffects(check.transition, {
+      client_notified: () => {
+        const label = getStatusLabelExtended(to);
+        this.notify([booking.createdBy], {
+          category: this.notificationCategoryForTransition(to, check.transition?.effects || []),
+          type: to === 'cancelled' ? 'warning' : to === 'completed' || to === 'created' ? 'success' : 'info',
+          title: `Booking ${label.toLowerCase()}`,
+          message:
+            to === 'completed'
+              ? `Booking ${booking.bookingNumber} is complete. Certificates are available.`
+              : `Booking ${booking.bookingNumber} is now ${label.toLowerCase()}.`,
+          url: `/bookings/${booking.id}`,
+        });
+      },
+      certificates_issued: () => this.queueCustodyCertificate(booking, user),
+    }, booking);
+  }
+
+  private estimateBooking(assets: Array<{ categoryId: string; quantity: number }>) {
+    const buyback = assets.reduce((total, asset) => {
+      const category = this.db.assetCategories.find((candidate) => candidate.id === asset.categoryId);
+      return total + (category?.avgBuybackValue || 0) * asset.quantity;
+    }, 0);
+    const { avoidedEmissions } = calculateEmissions(this.currentFactorSet(), {
+      assets,
+      categories: this.db.assetCategories,
+    });
+    return { co2e: avoidedEmissions, buyback };
+  }
+
+  private currentFactorSet(): EmissionFactorSet {
+    return this.db.emissionFactorSets.find((factorSet) => factorSet.isCurrent) || BASELINE_FACTOR_SET;
+  }
+
+  /**
+   * A job's emissions under a factor set. Reuses the distance and vehicle of the
+   * job's last calculation so a restatement only changes the factors.
+   */
+  private calculateJobEmissions(job: MockJob, factorSet: EmissionFactorSet, distanceKm?: number | null): EmissionsBreakdown {
+    return calculateEmissions(
+      factorSet,
+      {
+        assets: job.assets,
+        categories: this.db.assetCategories,
+        distanceKm: distanceKm ?? job.emissions?.distanceKm ?? job.roundTripDistanceKm,
+        travelFactorKey: job.driver ? getTravelFactorKey(factorSet, job.driver) : job.emissions?.travelFactorKey,
+      },
+      now()
+    );
+  }
+
+  /**
+   * Recalculate a job under the current factor set and update its reported figures
+   */
+  private stampEmissions(job: MockJob, distanceKm?: number | null) {
+    this.applyEmissions(job, this.calculateJobEmissions(job, this.currentFactorSet(), distanceKm));
+  }
+
+  private applyEmissions(job: MockJob, emissions: EmissionsBreakdown) {
+    job.emissions = emissions;
+    job.co2eSaved = emissions.avoidedEmissions;
+    job.travelEmissions = emissions.scope3.upstream_transport;
+  }
+
+  private roundTripDistanceKm(lat?: number, lng?: number, warehouse?: Warehouse | null): number | undefined {
+    if (lat === undefined || lng === undefined) return undefined;
+    const depot = getWarehouseCoordinates(warehouse);
+    const oneWay = calculateStraightLineDistance(lat, lng, depot.lat, depot.lng);
+    return Math.round(oneWay * ROAD_DISTANCE_FACTOR * 2 * 10) / 10;
+  }
+
+  private findWarehouse(id: string): Warehouse {
+    return this.db.warehouses.find((warehouse) => warehouse.id === id) || notFound('Warehouse');
+  }
+
+  /**
+   * The requested warehouse, or the one selectWarehouseForBooking picks for the site
+   */
+  private resolveWarehouse(
+    warehouseId: string | undefined,
+    fields: Pick<MockBooking, 'lat' | 'lng' | 'bookingType' | 'scheduledDate'>
+  ): Warehouse | null {
+    if (warehouseId) {
+      const warehouse = this.db.warehouses.find((candidate) => candidate.id === warehouseId && candidate.isActive);
+      if (!warehouse) badRequest('Warehouse not found', { warehouseId: 'Unknown or inactive warehouse' });
+      return warehouse;
+    }
+    const location = fields.lat !== undefined && fields.lng !== undefined ? { lat: fields.lat, lng: fields.lng } : null;
+    return selectWarehouseForBooking(this.db.warehouses, location, {
+      bookingType: fields.bookingType,
+      date: fields.scheduledDate,
+    });
+  }
+
+  private nextBookingNumber(): string {
+    const highest = this.db.bookings.reduce((max, booking) => {
+      const value = Number(booking.bookingNumber.replace(/\D/g, ''));
+      return Number.isFinite(value) ? Math.max(max, value) : max;
+    }, 1000);
+    return `BK-${highest + 1}`;
+  }
+
+  private createBookingRecord(
+    user: MockUser,
+    fields: Partial<MockBooking> & Pick<MockBooking, 'siteName' | 'siteAddress' | 'scheduledDate' | 'assets'>,
+    notes?: string
+  ): MockBooking {
+    const clientId = fields.clientId || user.clientId || this.db.clients[0]?.id;
+    const client = this.db.clients.find((candidate) => candidate.id === clientId);
+    if (!client) badRequest('Client not found', { clientId: 'Unknown client' });
+
+    const estimate = this.estimateBooking(fields.assets);
+    const warehouse = this.resolveWarehouse(fields.warehouseId, fields);
+    const distanceKm = this.roundTripDistanceKm(fields.lat, fields.lng, warehouse);
+
+    const booking: MockBooking = {
+      id: generateId('booking'),
+      bookingNumber: this.nextBookingNumber(),
+      tenantId: user.tenantId,
+      clientName: client.name,
+      organisationName: client.organisationName || client.name,
+      charityPercent: 0,
+      estimatedCO2e: estimate.co2e,
+      estimatedBuyback: estimate.buyback,
+      roundTripDistanceKm: distanceKm,
+      roundTripDistanceMiles: distanceKm !== undefined ? Math.round(kmToMiles(distanceKm) * 10) / 10 : undefined,
+      bookingType: 'itad_collection',
+      createdAt: now(),
+      createdBy: user.id,
+      createdByName: user.name,
+      ...fields,
+      clientId: client.id,
+      warehouseId: warehouse?.id,
+      warehouseName: warehouse?.name,
+      status: 'pending',
+      statusHistory: [{ status: 'pending', changedAt: now(), changedBy: user.id, notes }],
+    };
+
+    this.db.bookings.unshift(booking);
+    this.emitWebhookEvent(bookingEventType('pending'), this.bookingWebhookData(booking));
+    this.notify(this.adminIds(), {
+      category: 'booking_updates',
+      type: 'info',
+      title: 'New booking request',
+      message: `${booking.clientName} submitted booking ${booking.bookingNumber} for approval.`,
+      url: '/admin/bookings',
+    });
+    return booking;
+  }
+
+  private createJobForBooking(booking: MockBooking, erpJobNumber: string): MockJob {
+    const job: MockJob = {
+      id: generateId('job'),
+      tenantId: booking.tenantId,
+      clientId: booking.clientId,
+      erpJobNumber,
+      bookingId: booking.id,
+      organisationName: booking.organisationName || booking.clientName,
+      createdByName: booking.createdByName,
+      siteName: booking.siteName,
+      siteAddress: booking.siteAddress,
+      postcode: booking.postcode,
+      lat: booking.lat,
+      lng: booking.lng,
+      status: 'booked',
+      scheduledDate: booking.scheduledDate,
+      completedDate: null,
+      co2eSaved: booking.estimatedCO2e,
+      travelEmissions: 0,
+      buybackValue: booking.estimatedBuyback,
+      charityPercent: booking.charityPercent,
+      roundTripDistanceKm: booking.roundTripDistanceKm ?? null,
+      roundTripDistanceMiles: booking.roundTripDistanceMiles ?? null,
+      warehouseId: booking.warehouseId,
+      warehouseName: booking.warehouseName,
+      bookingType: booking.bookingType || 'itad_collection',
+      jmlSubType: booking.jmlSubType,
+      currentAddress: booking.currentAddress,
+      currentPostcode: booking.currentPostcode,
+      currentSiteName: booking.currentSiteName,
+      assets: booking.assets.map((asset) => ({
+        id: generateId('asset'),
+        categoryId: asset.categoryId,
+        categoryName: asset.categoryName,
+        quantity: asset.quantity,
+      })),
+      driver: null,
+      evidence: [],
+      certificates: [],
+    };
+    this.stampEmissions(job, 0); // Travel is charged once a driver is assigned
+    this.db.jobs.unshift(job);
+    booking.jobId = job.id;
+    booking.jobStatus = job.status;
+    booking.erpJobNumber = erpJobNumber;
+    this.emitWebhookEvent(jobEventType(job.status), this.jobWebhookData(job));
+    return job;
+  }
+
+  private assignDriverToJob(job: MockJob, driverId: string | null, vehicleId?: string) {
+    if (!driverId) {
+      job.driver = null;
+      return;
+    }
+
+    const driver = this.db.drivers.find((candidate) => candidate.id === driverId) || notFound('Driver');
+    const vehicle =
+      this.db.vehicles.find((candidate) => candidate.id === (vehicleId || driver.vehicleId)) || null;
+
+    job.driver = {
+      id: driver.id,
+      name: driver.name,
+      email: driver.email,
+      phone: driver.phone,
+      vehicleReg: vehicle?.vehicleReg,
+      vehicleType: vehicle?.vehicleType,
+      vehicleFuelType: vehicle?.vehicleFuelType,
+    };
+    this.stampEmissions(job, job.roundTripDistanceKm || 0);
+  }
+
+  private jmlBooking(user: MockUser, subType: NonNullable<MockBooking['jmlSubType']>, body: JsonBody): MockBooking {
+    const clientId = body.clientId || user.clientId;
+    if (
+      body.employeeId &&
+      !this.db.employees.some((employee) => employee.id === body.employeeId && (!clientId || employee.clientId === clientId))
+    ) {
+      badRequest('Employee not found', { employeeId: "Choose one of the client's employees" });
+    }
+    const devices = body.devices || body.currentDevices || [];
+    const notes =
+      subType === 'breakfix'
+        ? `Broken devices: ${JSON.stringify(body.brokenDevices || [])}. Replacement Device details: ${JSON.stringify(devices)}`
+        : `Device details: ${JSON.stringify(devices)}`;
+
+    const category = this.db.assetCategories.find((candidate) => candidate.id === 'cat-laptop');
+    const assets = body.assets?.length
+      ? body.assets.map((asset: { categoryId: string; quantity: number }) => ({
+          ...asset,
+          categoryName: this.db.assetCategories.find((candidate) => candidate.id === asset.categoryId)?.name || asset.categoryId,
+        }))
+      : [{ categoryId: category?.id || 'cat-laptop', categoryName: category?.name || 'Laptop', quantity: Math.max(devices.length, 1) }];
+
+    const booking = this.createBookingRecord(
+      user,
+      {
+        clientId: body.clientId,
+        siteName: body.siteName,
+        siteAddress: body.address,
+        postcode: body.postcode,
+        lat: body.lat,
+        lng: body.lng,
+        scheduledDate: body.startDate || body.leavingDate || body.scheduledDate || now(),
+        assets,
+        charityPercent: body.charityPercent || 0,
+        preferredVehicleType: body.preferredVehicleType,
+        bookingType: 'jml',
+        jmlSubType: subType,
+        employeeName: body.employeeName || body.leaverName,
+        employeeEmail: body.email || body.personalEmail,
+        employeePhone: body.phone,
+        startDate: body.startDate,
+        deviceType: body.deviceType,
+        currentAddress: body.currentAddress,
+        currentPostcode: body.currentPostcode,
+        currentSiteName: body.currentSiteName,
+        currentLat: body.currentLat,
+        currentLng: body.currentLng,
+        leaverFulfilment: subType === 'leaver' ? (body.fulfilment === 'returns_kit' ? 'returns_kit' : 'collection') : undefined,
+      },
+      notes
+    );
+    this.linkEmployee(booking, body.employeeId);
+    return booking;
+  }
+
+  private jmlBookingResponse(booking: MockBooking) {
+    return {
+      id: booking.id,
+      bookingNumber: booking.bookingNumber,
+      erpJobNumber: booking.erpJobNumber,
+      status: booking.status,
+      createdAt: booking.createdAt,
+      bookingType: booking.bookingType || 'jml',
+      jmlSubType: booking.jmlSubType,
+      employeeName: booking.employeeName,
+      employeeEmail: booking.employeeEmail,
+      employeePhone: booking.employeePhone,
+      startDate: booking.startDate,
+      deviceType: booking.deviceType,
+      courierTracking: booking.courierTracking,
+      deliveryDate: booking.deliveryDate,
+      leaverFulfilment: booking.leaverFulfilment,
+      employeeId: booking.employeeId,
+    };
+  }
+
+  private allocateInventory(user: MockUser, booking: MockBooking, serialNumbers: string[]) {
+    const allocatedCategories = new Set<string>();
+    serialNumbers.forEach((serialNumber) => {
+      const item = this.db.inventory.find((candidate) => candidate.serialNumber === serialNumber);
+      if (!item) badRequest(`Device ${serialNumber} not found in inventory`);
+      if (item.status !== 'available' && item.status !== 'mover_allocated') {
+        badRequest(`Device ${serialNumber} is not available`);
+      }
+      item.status = 'allocated';
+      item.updatedAt = now();
+      allocatedCategories.add(item.category);
+    });
+    allocatedCategories.forEach((category) => this.notifyIfInventoryLow(booking.clientId, category));
+    booking.allocatedDevices = [
+      ...(booking.allocatedDevices || []),
+      ...serialNumbers.map((serialNumber) => {
+        const item = this.db.inventory.find((candidate) => candidate.serialNumber === serialNumber)!;
+        return {
+          serialNumber,
+          category: item.category,
+          make: item.make,
+          model: item.model,
+          deviceType: item.deviceType,
+          imei: item.imei,
+          recordedAt: now(),
+        };
+      }),
+    ];
+
+    const notes = `Allocated ${serialNumbers.length} device(s): ${serialNumbers.join(', ')}`;
+    if (booking.status === 'device_allocated') {
+      booking.statusHistory.push({ status: booking.status, changedAt: now(), changedBy: user.id, notes });
+    } else {
+      this.transitionBooking(booking, 'device_allocated', user, notes);
+    }
+    return { booking: this.jmlBookingResponse(booking), allocatedSerialNumbers: serialNumbers, quantity: serialNumbers.length };
+  }
+
+  private notifyIfInventoryLow(clientId: string, category: string) {
+    const available = this.db.inventory.filter(
+      (item) => item.allocatedTo === clientId && item.category === category && item.status === 'available'
+    ).length;
+    if (available >= INVENTORY_LOW_THRESHOLD) return;
+
+    const client = this.db.clients.find((candidate) => candidate.id === clientId);
+    const clientUserIds = this.db.users
+      .filter((candidate) => candidate.role === 'client' && candidate.clientId === clientId)
+      .map((candidate) => candidate.id);
+    this.notify([...this.adminIds(), ...clientUserIds], {
+      category: 'inventory_low',
+      type: 'warning',
+      title: 'Inventory low',
+      message: `${client?.name || 'Client'} has ${available} available ${category} device${available === 1 ? '' : 's'} left.`,
+      url: '/inventory',
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Blancco imports
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Serial number -> booking asset, from the serials recorded on each job's assets
+   * and grading records. Covers one booking, or every booking awaiting sanitisation.
+   */
+  private sanitisationSerialIndex(bookingId?: string | null) {
+    const index = new Map<string, { booking: MockBooking; assetId: string }>();
+    this.db.bookings
+      .filter((booking) => (bookingId ? booking.id === bookingId : SANITISATION_BOOKING_STATUSES.includes(booking.status)))
+      .forEach((booking) => {
+        const job = this.db.jobs.find((candidate) => candidate.id === booking.jobId);
+        const add = (serialNumbers: string[] | undefined, assetId: string) => {
+          serialNumbers?.forEach((serialNumber) => index.set(normaliseSerialNumber(serialNumber), { booking, assetId }));
+        };
+        job?.assets.forEach((asset) => add(asset.serialNumbers, asset.categoryId));
+        this.db.gradingRecords
+          .filter((record) => record.bookingId === booking.id)
+          .forEach((record) => {
+            // Older records point at the job asset rather than its category
+            const asset = job?.assets.find((candidate) => candidate.id === record.assetId);
+            add(record.serialNumbers, asset?.categoryId || record.assetId);
+          });
+      });
+    return index;
+  }
+
+  /**
+   * Verified sanitisation record for one erased device. Blancco reports are signed,
+   * so they don't need checking by hand.
+   */
+  private createBlanccoRecord(
+    booking: MockBooking,
+    assetId: string,
+    report: BlanccoErasureReport,
+    importId: string,
+    user: MockUser | null,
+    notes?: string
+  ): SanitisationRecord {
+    const record: SanitisationRecord = {
+      id: generateId('sanitisation'),
+      bookingId: booking.id,
+      jobId: booking.jobId,
+      assetId,
+      method: 'blancco',
+      methodDetails: [report.software, report.erasureStandard].filter(Boolean).join(' - ') || undefined,
+      timestamp: report.completedAt || now(),
+      performedBy: user?.id || 'blancco',
+      certificateId: report.reportId,
+      certificateUrl: '#',
+      verified: true,
+      notes,
+      serialNumber: report.serialNumber || undefined,
+      importId,
+    };
+    this.db.sanitisationRecords.push(record);
+
+    const job = this.db.jobs.find((candidate) => candidate.id === booking.jobId);
+    const asset = job?.assets.find((candidate) => candidate.categoryId === assetId || candidate.id === assetId);
+    if (asset) asset.sanitised = true;
+    return record;
+  }
+
+  private toImportItem(
+    report: BlanccoErasureReport,
+    context: { importId: string; bookingId?: string | null; user: MockUser | null; seen: Set<string> }
+  ): SanitisationImportItem {
+    const item: SanitisationImportItem = { id: generateId('sanitisation-import-item'), report, status: 'matched' };
+    const match = report.serialNumber
+      ? this.sanitisationSerialIndex(context.bookingId).get(report.serialNumber)
+      : undefined;
+    if (match) {
+      item.bookingId = match.booking.id;
+      item.bookingNumber = match.booking.bookingNumber;
+      item.assetId = match.assetId;
+      item.assetName = match.booking.assets.find((asset) => asset.categoryId === match.assetId)?.categoryName || null;
+    }
+
+    const isDuplicate =
+      context.seen.has(report.reportId) ||
+      this.db.sanitisationRecords.some((record) => record.certificateId === report.reportId);
+    context.seen.add(report.reportId);
+
+    if (isDuplicate) {
+      item.status = 'duplicate';
+      item.message = 'This report has already been imported';
+    } else if (report.result === 'failed') {
+      item.status = 'failed_erasure';
+      item.message = `Blancco reported the erasure as ${report.resultDetail || 'failed'}`;
+    } else if (!report.serialNumber) {
+      item.status = 'unmatched';
+      item.message = 'The report has no serial number';
+    } else if (!match) {
+      item.status = 'unmatched';
+      item.message = context.bookingId
+        ? 'Serial number not found on this booking'
+        : 'Serial number not found on any booking awaiting sanitisation';
+    } else {
+      item.sanitisationRecordId = this.createBlanccoRecord(
+        match.booking,
+        match.assetId,
+        report,
+        context.importId,
+        context.user
+      ).id;
+    }
+    return item;
+  }
+
+  private updateImportCounts(sanitisationImport: SanitisationImport) {
+    const { items } = sanitisationImport;
+    sanitisationImport.total = items.length;
+    sanitisationImport.matched = items.filter((item) => item.status === 'matched' || item.status === 'resolved').length;
+    sanitisationImport.needsReview = items.filter((item) => needsReview(item.status)).length;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Grading
+  // ---------------------------------------------------------------------------
+
+  private createGradingRecord(
+    booking: MockBooking,
+    user: MockUser,
+    data: Pick<GradingRecord, 'assetId' | 'assetCategory' | 'grade' | 'quantity'> &
+      Partial<Pick<GradingRecord, 'notes' | 'condition' | 'defects' | 'serialNumbers' | 'imeiNumbers'>>
+  ): GradingRecord {
+    const category = this.db.assetCategories.find(
+      (candidate) => candidate.id === data.assetCategory || candidate.name === data.assetCategory
+    );
+    const unitValue = Math.round((category?.avgBuybackValue || 0) * (GRADE_VALUE_MULTIPLIERS[data.grade] ?? 0) * 100) / 100;
+
+    const record: GradingRecord = {
+      id: generateId('grading'),
+      bookingId: booking.id,
+      jobId: booking.jobId,
+      assetId: data.assetId,
+      assetCategory: data.assetCategory,
+      grade: data.grade,
+      quantity: data.quantity,
+      resaleValue: unitValue,
+      gradedAt: now(),
+      gradedBy: user.id,
+      notes: data.notes,
+      condition: data.condition,
+      defects: data.defects,
+      serialNumbers: data.serialNumbers,
+      imeiNumbers: data.imeiNumbers,
+    };
+    this.db.gradingRecords.push(record);
+
+    const job = this.db.jobs.find((candidate) => candidate.id === booking.jobId);
+    const asset = job?.assets.find((candidate) => candidate.id === data.assetId || candidate.categoryId === data.assetCategory);
+    if (asset) {
+      asset.grade = data.grade;
+      asset.resaleValue = unitValue;
+    }
+    return record;
+  }
+
+  /**
+   * Problems with a bulk grading batch, keyed `items.<index>.<field>` - empty when it can be saved
+   */
+  private validateBulkGrading(booking: MockBooking, items: BulkGradingItem[]): Record<string, string> {
+    const fields: Record<string, string> = {};
+    const bookingRecords = this.db.gradingRecords.filter((record) => record.bookingId === booking.id);
+    const graded = getGradedIdentifiers(bookingRecords);
+    const seen = new Set<string>();
+    const batchQuantities = new Map<string, number>();
+
+    items.forEach((item, index) => {
+      const field = (name: string) => `items.${index}.${name}`;
+      const asset = booking.assets.find((candidate) => candidate.categoryId === item.assetId);
+      if (!asset) {
+        fields[field('assetId')] = 'Asset is not on this booking';
+        return;
+      }
+      if (!(item.grade in GRADE_VALUE_MULTIPLIERS)) fields[field('grade')] = 'Grade is required';
+      if (!item.condition?.trim()) fields[field('condition')] = 'Condition code is required';
+
+      const serialNumber = item.serialNumber ? normaliseSerialNumber(item.serialNumber) : '';
+      const imei = item.imei ? normaliseSerialNumber(item.imei) : '';
+      if (isInventoryGrade(item.grade)) {
+        if (!serialNumber) fields[field('serialNumber')] = `Serial number is required for Grade ${item.grade}`;
+        if (!imei && categoryRequiresImei(asset.categoryName)) fields[field('imei')] = `IMEI is required for ${asset.categoryName}`;
+      }
+      if (imei && !isValidImei(imei)) fields[field('imei')] = `${imei} is not a valid IMEI`;
+
+      [
+        ['serialNumber', serialNumber],
+        ['imei', imei],
+      ].forEach(([name, value]) => {
+        if (!value) return;
+        if (graded.has(value)) fields[field(name)] = `${value} has already been graded on this booking`;
+        else if (seen.has(value)) fields[field(name)] = `${value} is scanned more than once`;
+        seen.add(value);
+      });
+
+      const batchQuantity = (batchQuantities.get(asset.categoryId) || 0) + 1;
+      batchQuantities.set(asset.categoryId, batchQuantity);
+      const gradedQuantity = bookingRecords
+        .filter((record) => record.assetId === asset.categoryId)
+        .reduce((sum, record) => sum + (record.quantity || 0), 0);
+      if (gradedQuantity + batchQuantity > asset.quantity) {
+        fields[field('assetId')] = `Only ${Math.max(0, asset.quantity - gradedQuantity)} ungraded ${asset.categoryName} left`;
+      }
+    });
+    return fields;
+  }
+
+  // ---------------------------------------------------------------------------
+  // ERP sync
+  // ---------------------------------------------------------------------------
+
+  /**
+   * The ERP connector is platform-wide, so only tenant-wide integration admins manage it
+   */
+  private requireErpAdmin(user: MockUser | null) {
+    if (this.requirePermission(user, 'settings.integrations') !== 'all') forbidden();
+  }
+
+  private toErpConnector(): ErpConnectorConfig {
+    const { credential, ...config } = this.db.erpConnector;
+    return config;
+  }
+
+  /**
+   * The next ERP job number not already used by a booking or job. `reserve` moves the sequence past it.
+   */
+  private nextErpJobNumber(reserve: boolean): string {
+    const settings = this.db.erpConnector.jobNumbers;
+    const used = new Set([
+      ...this.db.bookings.map((booking) => booking.erpJobNumber),
+      ...this.db.jobs.map((job) => job.erpJobNumber),
+    ]);
+    let sequence = settings.nextSequence;
+    while (used.has(formatErpJobNumber(settings, sequence))) sequence++;
+    if (reserve) settings.nextSequence = sequence + 1;
+    return formatErpJobNumber(settings, sequence);
+  }
+
+  private erpRecords(entity: ErpEntity, clientId?: string | null): Array<{ id: string; label: string; record: object }> {
+    switch (entity) {
+      case 'jobs':
+        return this.db.jobs
+          .filter((job) => !clientId || job.clientId === clientId)
+          .map((job) => ({ id: job.id, label: job.erpJobNumber, record: job }));
+      case 'inventory':
+        return this.db.inventory
+          .filter((item) => !clientId || item.allocatedTo === clientId)
+          .map((item) => ({ id: item.id, label: item.serialNumber || item.id, record: item }));
+      case 'clients':
+        return this.db.clients
+          .filter((client) => !clientId || client.id === clientId)
+          .map((client) => ({ id: client.id, label: client.name, record: client }));
+    }
+  }
+
+  /**
+   * Push records to the (simulated) ERP and log the run. A retry run re-sends the
+   * given failed records and marks the ones that now succeed as resolved.
+   */
+  private runErpSync(
+    entities: ErpEntity[],
+    options: { trigger: ErpSyncTrigger; clientId?: string | null; user?: MockUser | null; retry?: { run: ErpSyncRun; errors: ErpSyncRecordError[] } }
+  ): ErpSyncRun {
+    const connector = this.db.erpConnector;
+    const run: ErpSyncRun = {
+      id: generateId('erp-sync'),
+      trigger: options.trigger,
+      entities,
+      clientId: options.clientId ?? null,
+      status: 'succeeded',
+      message: null,
+      startedAt: now(),
+      finishedAt: now(),
+      startedBy: options.user?.name ?? null,
+      retryOfRunId: options.retry?.run.id ?? null,
+      synced: 0,
+      created: 0,
+      updated: 0,
+      failed: 0,
+      errors: [],
+    };
+
+    if (!connector.enabled || !connector.credential) {
+      run.status = 'failed';
+      run.message = connector.enabled ? 'No ERP credentials are configured' : 'The ERP connector is disabled';
+    } else {
+      const targets = options.retry
+        ? options.retry.errors.map((error) => ({
+            entity: error.entity,
+            source: error,
+            target: this.erpRecords(error.entity).find((candidate) => candidate.id === error.recordId),
+          }))
+        : entities.flatMap((entity) =>
+            this.erpRecords(entity, options.clientId).map((target) => ({ entity, source: null, target }))
+          );
+
+      targets.forEach(({ entity, source, target }) => {
+        const fail = (message: string, retryable: boolean) => {
+          run.failed++;
+          run.errors.push({
+            id: generateId('erp-error'),
+            entity,
+            recordId: target?.id || source!.recordId,
+            recordLabel: target?.label || source!.recordLabel,
+            message,
+            retryable,
+          });
+        };
+
+        if (!target) return fail('Record no longer exists', false);
+        const { missing } = buildErpPayload(entity, target.record, connector.mappings[entity]);
+        if (missing.length > 0) {
+          return fail(`Missing ${missing.map((info) => info.label.toLowerCase()).join(', ')} (required by the ERP)`, false);
+        }
+        if (Math.random() < ERP_TRANSIENT_FAILURE_RATE) {
+          return fail('ERP did not respond in time (504 Gateway Timeout)', true);
+        }
+
+        run.synced++;
+        if (entity === 'inventory') {
+          const item = target.record as InventoryItem;
+          // The ERP assigns an ID the first time it sees a device
+          if (item.erpInventoryId) {
+            run.updated++;
+          } else {
+            item.erpInventoryId = generateId('ERP-INV').toUpperCase();
+            run.created++;
+          }
+          item.lastSyncedAt = run.startedAt;
+        } else {
+          run.updated++;
+        }
+        if (source) source.resolvedAt = run.startedAt;
+      });
+
+      if (run.failed > 0) run.status = run.synced > 0 ? 'partial' : 'failed';
+    }
+
+    run.finishedAt = now();
+    connector.lastSyncAt = run.finishedAt;
+    this.db.erpSyncRuns = [run, ...this.db.erpSyncRuns].slice(0, ERP_SYNC_HISTORY_LIMIT);
+    return run;
+  }
+
+  /**
+   * Run a scheduled sync that has come due (the real backend runs these on a timer)
+   */
+  private runDueErpSyncs() {
+    const connector = this.db.erpConnector;
+    if (!connector.enabled || !connector.nextSyncAt || new Date(connector.nextSyncAt) > new Date()) return;
+    this.runErpSync(connector.schedule.entities, { trigger: 'scheduled' });
+    connector.nextSyncAt = getNextErpSyncTime(connector.schedule, new Date())?.toISOString() ?? null;
+  }
+
+  private withClientTotals(clientId: string) {
+    const client = this.db.clients.find((candidate) => candidate.id === clientId) || notFound('Client');
+    const bookings = this.db.bookings.filter((booking) => booking.clientId === client.id);
+    const jobs = this.db.jobs.filter((job) => job.clientId === client.id);
+    return {
+      ...client,
+      totalBookings: bookings.length,
+      totalJobs: jobs.length,
+      totalValue: jobs.reduce((sum, job) => sum + job.buybackValue, 0),
+    };
+  }
+
+  private vehicleWithDrivers(vehicleId: string) {
+    const vehicle = this.db.vehicles.find((candidate) => candidate.id === vehicleId) || notFound('Vehicle');
+    return {
+      ...vehicle,
+      drivers: this.db.drivers
+        .filter((driver) => driver.vehicles?.some((assigned) => assigned.id === vehicle.id))
+        .map((driver) => ({
+          id: `${vehicle.id}-${driver.id}`,
+          driverId: driver.id,
+          vehicleId: vehicle.id,
+          driver: { id: driver.id, name: driver.name, email: driver.email, status: driver.status },
+        })),
+    };
+  }
+
+  private syncDriverVehicles(driverId: string) {
+    const driver = this.db.drivers.find((candidate) => candidate.id === driverId);
+    if (!driver) return;
+    const first = driver.vehicles?.[0];
+    driver.vehicleId = first?.id ?? null;
+    driver.vehicleReg = first?.vehicleReg ?? null;
+    driver.vehicleType = first?.vehicleType ?? null;
+    driver.vehicleFuelType = first?.vehicleFuelType ?? null;
+    driver.hasVehicle = !!first;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Chain of custody
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Append a custody event to a booking's ledger. The evidence and location are read
+   * now; hashing finishes in the background, in order, on custodyWrites.
+   */
+  private recordCustodyEvent(booking: MockBooking, eventType: CustodyEventType, user: MockUser, occurredAt = now()) {
+    const db = this.db;
+    const actor: CustodyActor = { id: user.id, name: user.name, role: user.role };
+    const location = this.custodyLocation(booking, eventType);
+    const evidence = this.custodyEvidence(booking, eventType);
+
+    this.custodyWrites = this.custodyWrites
+      .then(async () => {
+        const previous = db.custodyLedger.filter((entry) => entry.bookingId === booking.id).pop();
+        const entry = {
+          bookingId: booking.id,
+          sequence: (previous?.sequence || 0) + 1,
+          eventType,
+          actor,
+          occurredAt,
+          location,
+          evidence: await Promise.all(
+            evidence.map(async ({ kind, label, content }) => ({ kind, label, hash: await sha256Hex(content) }))
+          ),
+          previousHash: previous?.hash || CUSTODY_GENESIS_HASH,
+        };
+        db.custodyLedger.push({ id: generateId('custody'), ...entry, hash: await hashCustodyEntry(entry) });
+      })
+      .catch((error) => console.error('Failed to record custody event:', error));
+  }
+
+  /**
+   * Seeded bookings arrive part-way through their lifecycle - record the custody
+   * events their status history already covers
+   */
+  private backfillCustodyLedger() {
+    this.db.bookings.forEach((booking) => {
+      booking.statusHistory.forEach(({ status, changedAt, changedBy }) => {
+        const eventType = getCustodyEventForStatus(status);
+        const user = this.db.users.find((candidate) => candidate.id === changedBy);
+        if (eventType && user) {
+          this.recordCustodyEvent(booking, eventType, user, changedAt);
+        }
+      });
+    });
+  }
+
+  /**
+   * Collections and deliveries happen at the booking's site; everything in between at its warehouse
+   */
+  private custodyLocation(booking: MockBooking, eventType: CustodyEventType): CustodyLocation {
+    if (eventType === 'collected' || eventType === 'delivered') {
+      return {
+        label: [booking.siteName, booking.siteAddress].filter(Boolean).join(', '),
+        lat: booking.lat ?? null,
+        lng: booking.lng ?? null,
+      };
+    }
+    const warehouse = this.db.warehouses.find((candidate) => candidate.id === booking.warehouseId) || null;
+    const coordinates = getWarehouseCoordinates(warehouse);
+    return {
+      label: warehouse ? `${warehouse.name}, ${warehouse.address}` : booking.warehouseName || 'Warehouse',
+      lat: coordinates.lat,
+      lng: coordinates.lng,
+    };
+  }
+
+  /**
+   * The evidence a custody event vouches for: the driver's photos, signature and seals
+   * for that status, plus the sanitisation or grading records behind those steps
+   */
+  private custodyEvidence(booking: MockBooking, eventType: CustodyEventType) {
+    const evidence: Array<{ kind: CustodyEvidenceKind; label: string; content: string }> = [];
+    const status = eventType === 'warehouse_arrival' ? 'warehouse' : eventType;
+    const job = this.db.jobs.find((candidate) => candidate.id === booking.jobId);
+
+    job?.evidence
+      .filter((item) => item.status === status)
+      .forEach((item) => {
+        item.photos.forEach((photo, index) => {
+          evidence.push({ kind: 'photo', label: `Photo ${index + 1}`, content: photo });
+        });
+        if (item.signature) {
+          evidence.push({ kind: 'signature', label: 'Signature', content: item.signature });
+        }
+        item.sealNumbers.forEach((sealNumber) => {
+          evidence.push({ kind: 'seal_number', label: `Seal ${sealNumber}`, content: sealNumber });
+        });
+      });
+
+    if (eventType === 'sanitised') {
+      this.db.sanitisationRecords
+        .filter((record) => record.bookingId === booking.id)
+        .forEach((record) => {
+          evidence.push({
+            kind: 'sanitisation_record',
+            label: `Certificate ${record.certificateId}`,
+            content: JSON.stringify([
+              record.id,
+              record.assetId,
+              record.method,
+              record.certificateId,
+              record.timestamp,
+              record.serialNumber ?? null,
+              record.verified,
+            ]),
+          });
+        });
+    }
+
+    if (eventType === 'graded') {
+      this.db.gradingRecords
+        .filter((record) => record.bookingId === booking.id)
+        .forEach((record) => {
+          evidence.push({
+            kind: 'grading_record',
+            label: `${record.assetCategory} grade ${record.grade} × ${record.quantity}`,
+            content: JSON.stringify([
+              record.id,
+              record.assetId,
+              record.grade,
+              record.quantity,
+              record.condition ?? null,
+              record.serialNumbers ?? [],
+              record.imeiNumbers ?? [],
+            ]),
+          });
+        });
+    }
+
+    return evidence;
+  }
+
+  /**
+   * Snapshot a booking's ledger into a certificate and list it under Documents.
+   * Refuses a ledger that doesn't verify - call once pending custody writes have landed.
+   */
+  private async createCustodyCertificate(booking: MockBooking, user: MockUser): Promise<CustodyCertificate> {
+    const entries = this.db.custodyLedger
+      .filter((entry) => entry.bookingId === booking.id)
+      .sort((a, b) => a.sequence - b.sequence);
+    if (entries.length === 0) {
+      badRequest('No custody events have been recorded for this booking yet');
+    }
+    const verification = await verifyCustodyChain(entries);
+    if (!verification.valid || !verification.headHash) {
+      badRequest(`The custody chain fails verification at entry ${verification.brokenAt}: ${verification.reason}`);
+    }
+
+    const job = this.db.jobs.find((candidate) => candidate.id === booking.jobId);
+    const reference = job?.erpJobNumber || booking.bookingNumber;
+    const issuedAt = now();
+    const documentId = generateId('document');
+    const document: Document = {
+      id: documentId,
+      tenantId: booking.tenantId,
+      jobId: booking.jobId,
+      bookingId: booking.id,
+      name: `Chain of Custody - ${reference}.pdf`,
+      type: 'chain-of-custody',
+      filePath: `/documents/${documentId}.pdf`,
+      fileSize: 0,
+      mimeType: 'application/pdf',
+      uploadedBy: user.id,
+      metadata: JSON.stringify({ headHash: verification.headHash, entryCount: verification.entryCount }),
+      createdAt: issuedAt,
+      updatedAt: issuedAt,
+      booking: { bookingNumber: booking.bookingNumber, client: { name: booking.clientName } },
+      job: job?.erpJobNumber ? { erpJobNumber: job.erpJobNumber, clientName: booking.clientName } : undefined,
+    };
+    const certificate: CustodyCertificate = {
+      id: generateId('custody-cert'),
+      documentId,
+      bookingId: booking.id,
+      bookingNumber: booking.bookingNumber,
+      issuedAt,
+      issuedBy: user.name,
+      entryCount: verification.entryCount,
+      headHash: verification.headHash,
+      entries,
+    };
+    this.db.documents.push(document);
+    this.db.custodyCertificates.unshift(certificate);
+    return certificate;
+  }
+
+  /**
+   * Issue the certificate once the custody writes queued so far have landed
+   * (certificates_issued effect, on completion)
+   */
+  private queueCustodyCertificate(booking: MockBooking, user: MockUser) {
+    this.custodyWrites = this.custodyWrites
+      .then(async () => {
+        if (this.db.custodyLedger.some((entry) => entry.bookingId === booking.id)) {
+          await this.createCustodyCertificate(booking, user);
+        }
+      })
+      .catch((error) => console.error('Failed to issue custody certificate:', error));
+  }
+
+  // ---------------------------------------------------------------------------
+  // JML schedule
+  // ---------------------------------------------------------------------------
+
+  private jmlLeadTimesFor(clientId: string): ClientJmlLeadTimes {
+    return (
+      this.db.jmlLeadTimes.find((leadTimes) => leadTimes.clientId === clientId) || {
+        clientId,
+        clientName: this.db.clients.find((client) => client.id === clientId)?.name || clientId,
+        ...DEFAULT_JML_LEAD_TIMES,
+        isDefault: true,
+      }
+    );
+  }
+
+  private jmlMilestonesFor(bookings: MockBooking[]): JmlMilestone[] {
+    const today = new Date();
+    return bookings
+      .flatMap((booking) => getJmlMilestones(booking, this.jmlLeadTimesFor(booking.clientId), today))
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.bookingNumber.localeCompare(b.bookingNumber));
+  }
+
+  /**
+   * Warn admins and the client's users about milestones that have fallen behind, once per
+   * milestone and state (the real backend runs this on a schedule)
+   */
+  private raiseJmlMilestoneAlerts() {
+    this.jmlMilestonesFor(this.db.bookings)
+      .filter(isJmlMilestoneBehind)
+      .forEach((milestone) => {
+        const state = milestone.state as JmlMilestoneAlert['state'];
+        if (this.db.jmlMilestoneAlerts.some((alert) => alert.milestoneId === milestone.id && alert.state === state)) return;
+        this.db.jmlMilestoneAlerts.push({ milestoneId: milestone.id, state, raisedAt: now() });
+
+        const clientUserIds = this.db.users
+          .filter((candidate) => candidate.role === 'client' && candidate.clientId === milestone.clientId)
+          .map((candidate) => candidate.id);
+        const label = jmlMilestoneConfig[milestone.type].label;
+        const due = new Date(milestone.dueDate).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+        this.notify([...this.adminIds(), ...clientUserIds], {
+          category: 'jml_milestones',
+          type: state === 'overdue' ? 'error' : 'warning',
+          title: state === 'overdue' ? 'JML milestone overdue' : 'JML milestone at risk',
+          message: `${label} for ${milestone.employeeName} (${milestone.bookingNumber}) ${state === 'overdue' ? 'was' : 'is'} due ${due}.`,
+          url: '/jml/schedule',
+        });
+      });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Courier shipments
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Record the courier on the booking and take its book_courier transition - the
+   * outbound courier, or the collection for leavers and movers
+   */
+  private bookCourier(booking: MockBooking, courierService: string, trackingNumber: string, user: MockUser) {
+    booking.courierTracking = trackingNumber;
+    booking.courierService = courierService;
+    const courierTransition = getTransitions(booking).find((transition) => transition.action === 'book_courier');
+    this.transitionBooking(
+      booking,
+      courierTransition?.to || 'courier_booked',
+      user,
+      `Courier booked: ${courierService} ${trackingNumber}`
+    );
+  }
+
+  /**
+   * Where a booking's parcel goes: devices out to the employee, or collected from them
+   * (a mover's old address) back to the warehouse
+   */
+  private shipmentRoute(booking: MockBooking): Pick<MockShipment, 'direction' | 'from' | 'to'> {
+    const warehouse =
+      this.db.warehouses.find((candidate) => candidate.id === booking.warehouseId) ||
+      this.db.warehouses.find((candidate) => candidate.isDefault) ||
+      this.db.warehouses[0];
+    const warehouseAddress: ShipmentAddress = {
+      name: warehouse ? `${warehouse.name} (${warehouse.code})` : 'Warehouse',
+      address: warehouse?.address || '',
+      postcode: warehouse?.postcode || null,
+      countryCode: warehouse?.country || 'GB',
+    };
+    const employeeAddress = (address: string, postcode?: string): ShipmentAddress => ({
+      name: booking.employeeName || booking.siteName,
+      address,
+      postcode: postcode || null,
+      // JML addresses end with the country name
+      countryCode: getCountryCode(address.split(',').pop() || '') || warehouseAddress.countryCode,
+      phone: booking.employeePhone || null,
+      email: booking.employeeEmail || null,
+    });
+
+    if (booking.status === 'created' && (booking.jmlSubType === 'leaver' || booking.jmlSubType === 'mover')) {
+      const from =
+        booking.jmlSubType === 'mover' && booking.currentAddress
+          ? employeeAddress(booking.currentAddress, booking.currentPostcode)
+          : employeeAddress(booking.siteAddress, booking.postcode);
+      return { direction: 'collection', from, to: warehouseAddress };
+    }
+    return { direction: 'outbound', from: warehouseAddress, to: employeeAddress(booking.siteAddress, booking.postcode) };
+  }
+
+  private requireCourierBookable(booking: MockBooking) {
+    if (!getTransitions(booking).some((transition) => transition.action === 'book_courier')) {
+      badRequest(`A courier can't be booked while the booking is ${getStatusLabelExtended(booking.status).toLowerCase()}`);
+    }
+  }
+
+  /**
+   * Create a shipment with the carrier through its adapter. In mock mode the carrier
+   * sandbox answers in the carrier's own format.
+   */
+  private bookShipment(
+    booking: MockBooking,
+    data: CreateShipmentData,
+    route: Pick<MockShipment, 'direction' | 'from' | 'to'>,
+    user: MockUser
+  ): MockShipment {
+    if (!isCarrierCode(data.carrier)) badRequest('Unknown carrier', { carrier: 'Choose a supported carrier' });
+    const adapter = getCarrierAdapter(data.carrier);
+    const service = data.service || adapter.services[0].code;
+    if (!adapter.services.some((candidate) => candidate.code === service)) {
+      badRequest(`${adapter.name} doesn't offer that service`, { service: 'Unknown service' });
+    }
+    const parcels = Number(data.parcels ?? 1);
+    if (!Number.isInteger(parcels) || parcels < 1 || parcels > 20) {
+      badRequest('Invalid parcel count', { parcels: 'Between 1 and 20 parcels' });
+    }
+
+    const carrierRequest = adapter.buildShipmentRequest({ reference: booking.bookingNumber, service, parcels, ...route });
+    const trackingNumber = adapter.parseShipmentResponse(sandboxShipmentResponse(adapter.code, this.db.shipments.length + 1));
+    if (!trackingNumber) {
+      throw new ApiError(ApiErrorType.SERVER_ERROR, `${adapter.name} didn't return a tracking number`, 502);
+    }
+
+    const shipment: MockShipment = {
+      id: generateId('shipment'),
+      bookingId: booking.id,
+      bookingNumber: booking.bookingNumber,
+      carrier: adapter.code,
+      carrierName: adapter.name,
+      service,
+      ...route,
+      trackingNumber,
+      trackingUrl: adapter.trackingUrl(trackingNumber),
+      parcels,
+      status: 'label_created',
+      events: [],
+      createdAt: now(),
+      createdBy: user.name,
+      createdById: user.id,
+      carrierRequest,
+      lastTrackedAt: null,
+      deliveredAt: null,
+    };
+    this.db.shipments.push(shipment);
+    return shipment;
+  }
+
+  /**
+   * Book the booking's courier with a carrier - the delivery, or the collection for
+   * leavers and movers
+   */
+  private createShipment(booking: MockBooking, data: CreateShipmentData, user: MockUser): MockShipment {
+    this.requireCourierBookable(booking);
+    if (booking.leaverFulfilment === 'returns_kit') {
+      badRequest('This leaver is being sent a returns kit rather than a collection');
+    }
+    const shipment = this.bookShipment(booking, data, this.shipmentRoute(booking), user);
+    this.bookCourier(booking, shipment.carrierName, shipment.trackingNumber, user);
+    this.trackShipment(shipment);
+    return shipment;
+  }
+
+  /**
+   * Send a remote leaver a returns kit: a box out to them and a prepaid label for the
+   * devices back to the warehouse. The return parcel stands in for the collection.
+   */
+  private issueReturnsKit(booking: MockBooking, data: IssueReturnsKitData, user: MockUser): MockBooking {
+    if (booking.jmlSubType !== 'leaver' || booking.leaverFulfilment !== 'returns_kit') {
+      badRequest('Returns kits are for leavers who return their devices by post');
+    }
+    if (booking.returnsKit) badRequest('A returns kit has already been issued');
+    this.requireCourierBookable(booking);
+    const leavingDate = getJmlAnchorDate(booking) || badRequest('The booking has no leaving date');
+
+    const collection = this.shipmentRoute(booking);
+    const options = { carrier: data.carrier, service: data.service };
+    const kitShipment = this.bookShipment(
+      booking,
+      options,
+      { direction: 'returns_kit', from: collection.to, to: collection.from },
+      user
+    );
+    const returnShipment = this.bookShipment(booking, options, collection, user);
+
+    booking.returnsKit = {
+      kitShipmentId: kitShipment.id,
+      returnShipmentId: returnShipment.id,
+      issuedAt: now(),
+      issuedBy: user.name,
+      returnDeadline: getReturnsKitDeadline(leavingDate),
+      reminders: [],
+      receivedAt: null,
+      escalatedAt: null,
+    };
+    booking.courierTracking = returnShipment.trackingNumber;
+    booking.courierService = returnShipment.carrierName;
+    this.transitionBooking(
+      booking,
+      'collection_scheduled',
+      user,
+      `Returns kit issued: ${kitShipment.carrierName} box ${kitShipment.trackingNumber}, prepaid return ${returnShipment.trackingNumber}`
+    );
+    this.trackShipment(kitShipment);
+    this.trackShipment(returnShipment);
+    return booking;
+  }
+
+  /**
+   * Apply tracking events to a shipment and move its booking on. Outbound parcels take
+   * the booking through dispatched to delivered; collections mark the devices collected,
+   * then at the warehouse once delivered there. Events for a leg the booking has already
+   * moved past change nothing.
+   */
+  private applyTrackingEvents(shipment: MockShipment, received: TrackingEvent[]): number {
+    shipment.lastTrackedAt = now();
+    const { events, status, added } = mergeTrackingEvents(shipment, received);
+    if (added.length === 0) return 0;
+    shipment.events = events;
+    shipment.status = status;
+    const latest = events[events.length - 1];
+    if (status === 'delivered') shipment.deliveredAt = latest.occurredAt;
+
+    const booking = this.db.bookings.find((candidate) => candidate.id === shipment.bookingId);
+    const actor =
+      this.db.users.find((candidate) => candidate.id === shipment.createdById && candidate.role === 'admin') ||
+      this.db.users.find((candidate) => candidate.role === 'admin');
+    if (!booking || !actor) return added.length;
+
+    if (added.some((event) => event.status === 'exception')) {
+      this.notify([...this.adminIds(), booking.createdBy], {
+        category: 'eta_delayed',
+        type: 'warning',
+        title: 'Shipment exception',
+        message: `${shipment.carrierName} ${shipment.trackingNumber} for ${booking.bookingNumber}: ${added.find((event) => event.status === 'exception')!.description}.`,
+        url: `/bookings/${booking.id}/timeline`,
+      });
+    }
+
+    const target = getBookingStatusForTracking(shipment.direction, status);
+    const notes = `${shipment.carrierName} tracking ${shipment.trackingNumber}: ${latest.description}`;
+    if (shipment.direction === 'collection') {
+      if ((target === 'collected' || target === 'warehouse') && booking.status === 'collection_scheduled') {
+        this.transitionBooking(booking, 'collected', actor, notes);
+      }
+      if (target === 'warehouse' && booking.status === 'collected') {
+        this.transitionBooking(booking, 'warehouse', actor, notes);
+      }
+      if (target === 'warehouse' && booking.returnsKit?.returnShipmentId === shipment.id) {
+        booking.returnsKit.receivedAt = shipment.deliveredAt;
+      }
+      return added.length;
+    }
+    if ((target === 'dispatched' || target === 'delivered') && booking.status === 'courier_booked') {
+      this.transitionBooking(booking, 'dispatched', actor, notes);
+    }
+    if (target === 'delivered' && booking.status === 'dispatched') {
+      this.transitionBooking(booking, 'delivered', actor, notes);
+      booking.deliveryDate = shipment.deliveredAt || now();
+    }
+    return added.length;
+  }
+
+  /**
+   * Poll the carrier for a shipment's tracking (the real backend polls on a schedule
+   * and also takes the carriers' webhooks)
+   */
+  private trackShipment(shipment: MockShipment) {
+    if (shipment.status === 'delivered') return;
+    // A returns kit's return parcel only moves once the box has reached the leaver
+    const kit = this.db.bookings.find((booking) => booking.returnsKit?.returnShipmentId === shipment.id)?.returnsKit;
+    const kitShipment = kit && this.db.shipments.find((candidate) => candidate.id === kit.kitShipmentId);
+    if (kitShipment && !kitShipment.deliveredAt) return;
+
+    const adapter = getCarrierAdapter(shipment.carrier);
+    const simulated = simulateTrackingEvents(kitShipment ? { ...shipment, createdAt: kitShipment.deliveredAt! } : shipment);
+    const payload = sandboxTrackingPayload(shipment.carrier, shipment.trackingNumber, simulated);
+    adapter
+      .parseTracking(payload)
+      .filter((update) => update.trackingNumber === shipment.trackingNumber)
+      .forEach((update) => this.applyTrackingEvents(shipment, update.events));
+  }
+
+  private shipmentResponse(shipment: MockShipment) {
+    const { createdById, carrierRequest, ...rest } = shipment;
+    return rest;
+  }
+
+  /**
+   * Remind leavers to post their returns kit ahead of their leaving date, and tell the
+   * client once the devices are past their return deadline (the real backend runs this
+   * on a schedule and emails the leaver directly)
+   */
+  private processReturnsKits() {
+    const today = new Date();
+    this.db.bookings.forEach((booking) => {
+      const kit = booking.returnsKit;
+      // Nothing to chase once the devices are at the warehouse or the booking is cancelled
+      if (!kit || (booking.status !== 'collection_scheduled' && booking.status !== 'collected')) return;
+      const returnShipment = this.db.shipments.find((shipment) => shipment.id === kit.returnShipmentId);
+      const leavingDate = getJmlAnchorDate(booking);
+      if (!returnShipment || !leavingDate) return;
+
+      const daysBefore = getDueReturnsKitReminder(kit, returnShipment, leavingDate, today);
+      if (daysBefore !== null && booking.employeeEmail) {
+        kit.reminders.push({ id: generateId('reminder'), daysBefore, sentTo: booking.employeeEmail, sentAt: now() });
+      }
+
+      if (!kit.escalatedAt && isReturnsKitOverdue(kit, today)) {
+        kit.escalatedAt = now();
+        const clientUserIds = this.db.users
+          .filter((candidate) => candidate.role === 'client' && candidate.clientId === booking.clientId)
+          .map((candidate) => candidate.id);
+        const deadline = new Date(kit.returnDeadline).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+        this.notify([...this.adminIds(), ...clientUserIds], {
+          category: 'jml_milestones',
+          type: 'error',
+          title: 'Leaver devices not returned',
+          message: `${booking.employeeName || 'The leaver'}'s devices (${booking.bookingNumber}) were due back at the warehouse by ${deadline}. Please chase the leaver.`,
+          url: `/bookings/${booking.id}/timeline`,
+        });
+      }
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Employee device ledger
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Link a JML booking to its employee: the one picked on the form, else the client's
+   * employee with the same name and email (forms default the email to the client's contact,
+   * so the email alone doesn't identify a person), else a new one
+   */
+  private linkEmployee(booking: MockBooking, employeeId?: string): MockEmployee {
+    const email = booking.employeeEmail?.trim().toLowerCase();
+    const name = booking.employeeName?.trim().toLowerCase();
+    let employee = employeeId
+      ? this.db.employees.find((candidate) => candidate.id === employeeId)
+      : email && name
+        ? this.db.employees.find(
+            (candidate) =>
+              candidate.clientId === booking.clientId &&
+              candidate.name.toLowerCase() === name &&
+              candidate.emails.includes(email)
+          )
+        : undefined;
+    if (!employee) {
+      employee = {
+        id: generateId('employee'),
+        clientId: booking.clientId,
+        name: booking.employeeName?.trim() || booking.bookingNumber,
+        emails: [],
+        phone: null,
+        createdAt: booking.createdAt,
+      };
+      this.db.employees.push(employee);
+    }
+    if (email && !employee.emails.includes(email)) employee.emails.push(email);
+    if (booking.employeePhone) employee.phone = booking.employeePhone;
+    booking.employeeId = employee.id;
+    return employee;
+  }
+
+  /**
+   * Seeded JML bookings arrive without employees - link them, oldest first
+   */
+  private backfillEmployees() {
+    [...this.db.bookings]
+      .filter((booking) => booking.bookingType === 'jml' && !booking.employeeId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .forEach((booking) => this.linkEmployee(booking));
+  }
+
+  private employeeLedger(employee: MockEmployee): EmployeeLedger {
+    const bookings = this.db.bookings
+      .filter((booking) => booking.employeeId === employee.id)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    const { status, holdings, history, mismatches } = buildEmployeeLedger(bookings, this.db.gradingRecords);
+    const activity = [bookings[0]?.createdAt, history[0]?.occurredAt, employee.createdAt].filter((value): value is string => !!value);
+    return {
+      id: employee.id,
+      clientId: employee.clientId,
+      clientName: this.db.clients.find((client) => client.id === employee.clientId)?.name || employee.clientId,
+      name: employee.name,
+      email: bookings.find((booking) => booking.employeeEmail)?.employeeEmail || employee.emails[0] || null,
+      phone: employee.phone,
+      status,
+      holdings,
+      bookingCount: bookings.length,
+      mismatchCount: mismatches.length,
+      lastActivityAt: activity.sort().reverse()[0],
+      createdAt: employee.createdAt,
+      bookings: bookings.map((booking) => ({
+        bookingId: booking.id,
+        bookingNumber: booking.bookingNumber,
+        jmlSubType: booking.jmlSubType || 'jml',
+        status: booking.status,
+        scheduledDate: booking.startDate || booking.scheduledDate,
+        createdAt: booking.createdAt,
+      })),
+      history,
+      mismatches,
+    };
+  }
+
+  private employeeSummary(employee: MockEmployee): Employee {
+    const { bookings, history, mismatches, ...summary } = this.employeeLedger(employee);
+    return summary;
+  }
+
+  private findEmployee(user: MockUser, id: string): MockEmployee {
+    const clientIds = this.visibleClientIds(user);
+    return (
+      this.db.employees.find((employee) => employee.id === id && (!clientIds || clientIds.includes(employee.clientId))) ||
+      notFound('Employee')
+    );
+  }
+
+  /**
+   * Tell admins and the booker when the serials collected on a booking don't match what
+   * its employee was issued
+   */
+  private flagCollectionMismatches(booking: MockBooking) {
+    const employee = this.db.employees.find((candidate) => candidate.id === booking.employeeId);
+    if (!employee) return;
+    const mismatches = this.employeeLedger(employee).mismatches.filter((mismatch) => mismatch.bookingId === booking.id);
+    if (mismatches.length === 0) return;
+    this.notify([...new Set([...this.adminIds(), booking.createdBy])], {
+      category: 'booking_updates',
+      type: 'warning',
+      title: "Collected devices don't match",
+      message: `${mismatches.length} device(s) on ${booking.bookingNumber} don't match what ${employee.name} was issued: ${mismatches.map((mismatch) => mismatch.serialNumber).join(', ')}.`,
+      url: `/employees/${employee.id}`,
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Routes
+  // ---------------------------------------------------------------------------
+
+  private registerRoutes() {
+    this.registerAuthRoutes();
+    this.registerBookingRoutes();
+    this.registerJobRoutes();
+    this.registerInventoryRoutes();
+    this.registerProcessingRoutes();
+    this.registerCalculationRoutes();
+    this.registerFleetRoutes();
+    this.registerAccountRoutes();
+    this.registerNotificationRoutes();
+    this.registerSearchRoutes();
+    this.registerWebhookRoutes();
+    this.registerErpRoutes();
+    this.registerCustodyRoutes();
+    this.registerJmlScheduleRoutes();
+    this.registerShipmentRoutes();
+    this.registerEmployeeRoutes();
+  }
+
+  private registerAuthRoutes() {
+    this.route('POST', '/auth/login', ({ body }) => {
+      const user = this.db.users.find((candidate) => candidate.email.toLowerCase() === String(body.email || '').toLowerCase());
+      if (!user || body.password !== MOCK_PASSWORD) {
+        throw new ApiError(ApiErrorType.UNAUTHORIZED, 'Invalid email or password', 401);
+      }
+      if (user.status === 'pending') {
+        forbidden('Your account is awaiting approval');
+      }
+      if (user.status === 'declined' || user.status === 'inactive') {
+        forbidden('Your account has been deactivated');
+      }
+      user.lastLogin = now();
+      return this.authResponse(user);
+    }, true);
+
+    this.route('POST', '/auth/signup', ({ body }) => {
+      if (this.db.users.some((user) => user.email.toLowerCase() === String(body.email || '').toLowerCase())) {
+        badRequest('An account with this email already exists', { email: 'Email already registered' });
+      }
+      const clientId = generateId('client');
+      const user: MockUser = {
+        id: generateId('user'),
+        email: body.email,
+        name: body.name,
+        role: body.role || 'client',
+        status: 'active',
+        isActive: true,
+        clientId,
+        tenantId: 'tenant-1',
+        tenantName: 'Reuse Connect ITAD Platform',
+        createdAt: now(),
+      };
+      this.db.users.push(user);
+      this.db.clients.push({
+        id: clientId,
+        name: body.companyName,
+        organisationName: body.companyName,
+        tenantId: user.tenantId,
+        tenantName: user.tenantName,
+        email: user.email,
+        contactName: user.name,
+        contactPhone: '',
+        status: 'active',
+        createdAt: now(),
+        totalBookings: 0,
+        totalJobs: 0,
+        totalValue: 0,
+      });
+      return this.authResponse(user);
+    }, true);
+
+    this.route('POST', '/auth/verify-2fa', ({ body }) => {
+      const user = this.db.users.find((candidate) => candidate.id === body.userId) || notFound('User');
+      return this.authResponse(user);
+    }, true);
+
+    this.route('POST', '/auth/resend-2fa', () => ({ message: 'A new verification code has been sent.' }), true);
+
+    this.route('POST', '/auth/logout', () => {
+      this.setSession(null);
+      return { message: 'Logged out' };
+    }, true);
+
+    this.route('GET', '/auth/me', ({ user }) => ({
+      user: user ? this.toUser(user) : null,
+      csrfToken: user ? MOCK_CSRF_TOKEN : undefined,
+    }), true);
+
+    this.route('GET', '/auth/csrf-token', ({ user }) => ({ csrfToken: user ? MOCK_CSRF_TOKEN : null }), true);
+
+    this.route('POST', '/auth/change-password', ({ body }) => {
+      if (body.currentPassword !== MOCK_PASSWORD) {
+        badRequest('Current password is incorrect', { currentPassword: 'Incorrect password' });
+      }
+      return { message: 'Password changed (mock passwords are always "password")' };
+    });
+
+    this.route('GET', '/invites/token/:token', ({ params }) =>
+      this.db.invites.find((invite) => invite.token === params.token && invite.status === 'pending') || notFound('Invite'),
+    true);
+
+    this.route('POST', '/invites/accept', ({ body }) => {
+      const invite = this.db.invites.find((candidate) => candidate.token === body.inviteToken) || notFound('Invite');
+      invite.status = 'accepted';
+      invite.acceptedAt = now();
+      const user: MockUser = {
+        id: generateId('user'),
+        email: body.email || invite.email,
+        name: body.name,
+        role: invite.role,
+        status: 'active',
+        isActive: true,
+        tenantId: invite.tenantId,
+        tenantName: invite.tenantName,
+        createdAt: now(),
+      };
+      this.db.users.push(user);
+      if (user.role === 'driver') {
+        this.db.drivers.push({
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          status: 'active',
+          vehicles: [],
+          hasVehicle: false,
+          hasProfile: false,
+        });
+      }
+      return this.authResponse(user);
+    }, true);
+
+    this.route('GET', '/invites', ({ query }) =>
+      this.db.invites.filter(
+        (invite) =>
+          (!query.get('status') || invite.status === query.get('status')) &&
+          (!query.get('role') || invite.role === query.get('role'))
+      )
+    );
+
+    this.route('POST', '/invites', ({ body, user }) => {
+      const invite = {
+        id: generateId('invite'),
+        email: body.email,
+        role: body.role,
+        tenantId: user!.tenantId,
+        tenantName: user!.tenantName,
+        invitedBy: user!.id,
+        invitedAt: now(),
+        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+        token: generateId('invite-token'),
+        status: 'pending' as const,
+        inviter: { id: user!.id, name: user!.name, email: user!.email },
+      };
+      this.db.invites.unshift(invite);
+      return invite;
+    });
+
+    this.route('DELETE', '/invites/:id', ({ params }) => {
+      this.db.invites = this.db.invites.filter((invite) => invite.id !== params.id);
+    });
+  }
+
+  private registerBookingRoutes() {
+    this.route('GET', '/bookings', ({ query, user }) => {
+      const status = query.get('status');
+      const clientId = query.get('clientId');
+      const search = query.get('searchQuery')?.toLowerCase();
+      const limit = Number(query.get('limit')) || undefined;
+
+      const bookings = this.visibleBookings(user!).filter(
+        (booking) =>
+          (!status || booking.status === status) &&
+          (!clientId || booking.clientId === clientId) &&
+          (!search ||
+            [booking.bookingNumber, booking.clientName, booking.siteName, booking.erpJobNumber]
+              .some((value) => value?.toLowerCase().includes(search)))
+      );
+      return limit ? bookings.slice(0, limit) : bookings;
+    });
+
+    this.route('POST', '/bookings', ({ body, user }) => {
+      const booking = this.createBookingRecord(user!, {
+        clientId: body.clientId,
+        siteId: body.siteId,
+        siteName: body.siteName,
+        siteAddress: body.address,
+        postcode: body.postcode,
+        lat: body.lat,
+        lng: body.lng,
+        scheduledDate: body.scheduledDate,
+        assets: (body.assets || []).map((asset: { categoryId: string; quantity: number }) => ({
+          ...asset,
+          categoryName: this.db.assetCategories.find((category) => category.id === asset.categoryId)?.name || asset.categoryId,
+        })),
+        charityPercent: body.charityPercent || 0,
+        preferredVehicleType: body.preferredVehicleType,
+        warehouseId: body.warehouseId,
+      });
+      return {
+        id: booking.id,
+        erpJobNumber: booking.erpJobNumber || '',
+        status: booking.status,
+        estimatedCO2e: booking.estimatedCO2e,
+        estimatedBuyback: booking.estimatedBuyback,
+        createdAt: booking.createdAt,
+      };
+    });
+
+    this.route('POST', '/bookings/jml/new-starter', ({ body, user }) => this.jmlBookingResponse(this.jmlBooking(user!, 'new_starter', body)));
+    this.route('POST', '/bookings/jml/leaver', ({ body, user }) => this.jmlBookingResponse(this.jmlBooking(user!, 'leaver', body)));
+    this.route('POST', '/bookings/jml/breakfix', ({ body, user }) => this.jmlBookingResponse(this.jmlBooking(user!, 'breakfix', body)));
+    this.route('POST', '/bookings/jml/mover', ({ body, user }) => this.jmlBookingResponse(this.jmlBooking(user!, 'mover', body)));
+
+    // Bulk JML import - every row is re-validated here, valid rows are booked and the rest reported back
+    this.route('POST', '/bookings/jml/bulk', ({ body, user }) => {
+      const rows: JmlImportRow[] = body.rows;
+      if (!Array.isArray(rows) || rows.length === 0) badRequest('No rows to import');
+      if (rows.length > JML_IMPORT_MAX_ROWS) badRequest(`A batch can have at most ${JML_IMPORT_MAX_ROWS} rows`);
+      if (rows.some((row) => !row?.site || !Array.isArray(row.devices))) badRequest('Rows are missing a site or devices');
+      if (user!.role !== 'client' && !body.clientId) badRequest('Client is required', { clientId: 'Required' });
+      const clientId = user!.role === 'client' ? user!.clientId : body.clientId;
+
+      const errorsByRow = validateJmlImportRows(rows);
+      const results = rows.map((row): BulkJmlImportRowResult => {
+        const result = { rowNumber: row.rowNumber, action: row.action, employeeName: row.employeeName };
+        const fields = errorsByRow.get(row.rowNumber) || {};
+        if (Object.keys(fields).length > 0) {
+          return { ...result, status: 'failed', error: Object.values(fields)[0], fields };
+        }
+        try {
+          const { action, request } = toJmlBookingRequest(row, clientId);
+          const booking = this.jmlBooking(user!, action, request);
+          return { ...result, status: 'created', bookingId: booking.id, bookingNumber: booking.bookingNumber };
+        } catch (error) {
+          if (!(error instanceof ApiError)) throw error;
+          return { ...result, status: 'failed', error: error.message, fields: error.fields };
+        }
+      });
+
+      const created = results.filter((result) => result.status === 'created').length;
+      return { total: results.length, created, failed: results.length - created, results };
+    });
+
+    this.route('GET', '/bookings/:id', ({ params, user }) => this.findBooking(user!, params.id));
+
+    this.route('GET', '/bookings/:id/check-job-id', ({ params, query }) => {
+      const erpJobNumber = query.get('erpJobNumber') || '';
+      const isUnique = !this.db.bookings.some(
+        (booking) => booking.id !== params.id && booking.erpJobNumber === erpJobNumber
+      );
+      return { isUnique, erpJobNumber };
+    });
+
+    this.route('POST', '/bookings/:id/approve', ({ params, body, user }) => {
+      this.requireAdmin(user);
+      const booking = this.findBooking(user!, params.id);
+      const isAutoNumbered = !body.erpJobNumber && this.db.erpConnector.jobNumbers.mode === 'auto';
+      if (!body.erpJobNumber && !isAutoNumbered) badRequest('ERP job number is required', { erpJobNumber: 'Required' });
+      if (
+        !isAutoNumbered &&
+        this.db.bookings.some((other) => other.id !== booking.id && other.erpJobNumber === body.erpJobNumber)
+      ) {
+        badRequest('ERP job number is already in use', { erpJobNumber: 'Already in use' });
+      }
+
+      this.transitionBooking(booking, 'created', user!, body.notes);
+      const job = this.createJobForBooking(booking, isAutoNumbered ? this.nextErpJobNumber(true) : body.erpJobNumber);
+      this.publish({ type: 'booking.approved', bookingId: booking.id, jobId: job.id, occurredAt: now() });
+      return booking;
+    });
+
+    this.route('POST', '/bookings/:id/assign-driver', ({ params, body, user }) => {
+      this.requireAdmin(user);
+      const booking = this.findBooking(user!, params.id);
+      const job = this.db.jobs.find((candidate) => candidate.id === booking.jobId);
+      if (!job) badRequest('Booking must be approved before a driver can be assigned');
+
+      this.assignDriverToJob(job, body.driverId, body.vehicleId);
+      const isCollection = booking.bookingType === 'jml' && ['leaver', 'mover'].includes(booking.jmlSubType || '');
+      this.transitionBooking(booking, isCollection ? 'collection_scheduled' : 'scheduled', user!);
+      this.setJobStatus(job, 'routed');
+      booking.jobStatus = job.status;
+      booking.driverId = body.driverId;
+      booking.driverName = job.driver?.name;
+      booking.vehicleId = body.vehicleId;
+      booking.scheduledBy = user!.id;
+      booking.scheduledAt = now();
+
+      this.notify([body.driverId], {
+        category: 'driver_assigned',
+        type: 'info',
+        title: 'Job assigned',
+        message: `You have been assigned job ${job.erpJobNumber} at ${job.siteName}.`,
+        url: `/driver/jobs/${job.id}`,
+      });
+      return booking;
+    });
+
+    this.route('POST', '/bookings/:id/complete', ({ params, user }) => {
+      this.requireAdmin(user);
+      const booking = this.findBooking(user!, params.id);
+      this.transitionBooking(booking, 'completed', user!);
+      return booking;
+    });
+
+    this.route('PATCH', '/bookings/:id/status', ({ params, body, user }) => {
+      this.requireAdmin(user);
+      const booking = this.findBooking(user!, params.id);
+      this.transitionBooking(booking, body.status, user!, body.notes);
+      if (body.status === 'cancelled') {
+        booking.cancellationNotes = body.notes;
+      }
+      return booking;
+    });
+
+    this.route('PATCH', '/bookings/:id/allocate-device', ({ params, body, user }) => {
+      this.requireAdmin(user);
+      const booking = this.findBooking(user!, params.id);
+      if (body.serialNumber) {
+        return this.allocateInventory(user!, booking, [body.serialNumber]);
+      }
+
+      const matches = this.db.inventory
+        .filter(
+          (item) =>
+            item.status === 'available' &&
+            item.allocatedTo === booking.clientId &&
+            item.category === body.category &&
+            (!body.make || item.make === body.make) &&
+            (!body.model || item.model === body.model) &&
+            (!body.deviceType || item.deviceType === body.deviceType)
+        )
+        .slice(0, body.quantity || 1);
+      if (matches.length < (body.quantity || 1)) {
+        badRequest('Not enough matching devices available in inventory');
+      }
+      return this.allocateInventory(user!, booking, matches.map((item) => item.serialNumber));
+    });
+
+    this.route('POST', '/bookings/:id/allocate-mover-all', ({ params, user }) => {
+      this.requireAdmin(user);
+      const booking = this.findBooking(user!, params.id);
+      const serialNumbers = this.db.inventory
+        .filter((item) => item.status === 'mover_allocated' && item.allocatedTo === booking.clientId)
+        .map((item) => item.serialNumber);
+      return { ...this.allocateInventory(user!, booking, serialNumbers), allMoverDevicesLinked: true, linkedSerialNumbers: serialNumbers };
+    });
+
+    this.route('POST', '/bookings/:id/mover-commit-devices', ({ params, body, user }) => {
+      this.requireAdmin(user);
+      return this.allocateInventory(user!, this.findBooking(user!, params.id), body.serialNumbers || []);
+    });
+
+    this.route('PATCH', '/bookings/:id/courier-tracking', ({ params, body, user }) => {
+      this.requireAdmin(user);
+      const booking = this.findBooking(user!, params.id);
+      this.bookCourier(booking, body.courierService, body.trackingNumber, user!);
+      return this.jmlBookingResponse(booking);
+    });
+
+    this.route('PATCH', '/bookings/:id/mark-delivered', ({ params, user }) => {
+      this.requireAdmin(user);
+      const booking = this.findBooking(user!, params.id);
+      // The courier picks up before delivering: walk through dispatched so the graph is respected
+      if (booking.status === 'courier_booked') {
+        this.transitionBooking(booking, 'dispatched', user!);
+      }
+      this.transitionBooking(booking, 'delivered', user!);
+      booking.deliveryDate = now();
+      return this.jmlBookingResponse(booking);
+    });
+
+    this.route('PATCH', '/bookings/:id/mark-collected', ({ params, body, user }) => {
+      const booking = this.findBooking(user!, params.id);
+      const items: Array<{ serialNumber: string; make?: string; model?: string; imei?: string }> = (body.items || []).filter(
+        (item: { serialNumber?: string }) => item.serialNumber?.trim()
+      );
+      this.transitionBooking(
+        booking,
+        'collected',
+        user!,
+        items.length ? `Collected ${items.length} device(s): ${items.map((item) => item.serialNumber).join(', ')}` : undefined
+      );
+      if (items.length) {
+        booking.collectedDevices = items.map((item) => ({
+          serialNumber: item.serialNumber.trim(),
+          make: item.make || null,
+          model: item.model || null,
+          imei: item.imei || null,
+          recordedAt: now(),
+        }));
+        this.flagCollectionMismatches(booking);
+      }
+      return this.jmlBookingResponse(booking);
+    });
+  }
+
+  private registerJobRoutes() {
+    this.route('GET', '/jobs', ({ query, user }) => {
+      const status = query.get('status');
+      const clientId = query.get('clientId');
+      const clientName = query.get('clientName')?.toLowerCase();
+      const search = query.get('searchQuery')?.toLowerCase();
+      const offset = Number(query.get('offset')) || 0;
+      const limit = Number(query.get('limit')) || undefined;
+
+      const jobs = this.visibleJobs(user!).filter(
+        (job) =>
+          (!status || job.status === status) &&
+          (!clientId || job.clientId === clientId) &&
+          (!clientName || job.organisationName.toLowerCase().includes(clientName)) &&
+          (!search ||
+            [job.erpJobNumber, job.organisationName, job.siteName, job.siteAddress]
+              .some((value) => value?.toLowerCase().includes(search)))
+      );
+      return jobs.slice(offset, limit ? offset + limit : undefined);
+    });
+
+    this.route('GET', '/jobs/:id', ({ params, user }) => this.findJob(user!, params.id));
+
+    this.route('PATCH', '/jobs/:id/status', ({ params, body, user }) => {
+      const job = this.findJob(user!, params.id);
+      if (user!.role === 'client' || user!.role === 'reseller') forbidden();
+      if (TERMINAL_JOB_STATUSES.includes(job.status)) {
+        badRequest(`Job is already ${job.status}`);
+      }
+
+      const booking = this.db.bookings.find((candidate) => candidate.id === job.bookingId);
+      const bookingStatus = getBookingStatusForJobStatus(body.status);
+      if (booking && bookingStatus) {
+        this.transitionBooking(booking, bookingStatus, user!);
+      }
+      this.setJobStatus(job, body.status);
+      if (booking) booking.jobStatus = job.status;
+      return job;
+    });
+
+    this.route('PATCH', '/jobs/:id/evidence', ({ params, body, user }) => {
+      const job = this.findJob(user!, params.id);
+      if (body.status && job.evidence.some((evidence) => evidence.status === body.status)) {
+        badRequest(`Evidence for ${body.status} has already been submitted`);
+      }
+      job.evidence.push({
+        status: body.status,
+        photos: body.photos || [],
+        signature: body.signature ?? null,
+        sealNumbers: body.sealNumbers || [],
+        notes: body.notes ?? null,
+        createdAt: now(),
+      });
+      this.publish({
+        type: 'job.evidence_uploaded',
+        jobId: job.id,
+        bookingId: job.bookingId,
+        status: body.status ?? null,
+        occurredAt: now(),
+      });
+      return job;
+    });
+
+    this.route('PATCH', '/jobs/:id/journey-fields', ({ params, body, user }) => {
+      const job = this.findJob(user!, params.id);
+      Object.assign(job, body);
+      return job;
+    });
+
+    // Driver day route: record the visiting order and charge each job its share of the route
+    this.route('POST', '/jobs/route-plan', ({ body, user }) => {
+      if (user!.role !== 'admin' && !(user!.role === 'driver' && body.driverId === user!.id)) forbidden();
+      return (body.stops || []).map((stop: { jobId: string; sequence: number; distanceKm: number }) => {
+        const job = this.findJob(user!, stop.jobId);
+        if (job.driver?.id !== body.driverId) {
+          badRequest(`Job ${job.erpJobNumber} is not assigned to this driver`);
+        }
+        job.routeSequence = stop.sequence;
+        job.routeDistanceKm = Math.round(stop.distanceKm * 10) / 10;
+        this.stampEmissions(job, stop.distanceKm);
+        return job;
+      });
+    });
+
+    this.route('POST', '/jobs/:id/reassign-driver', ({ params, body, user }) => {
+      this.requireAdmin(user);
+      const job = this.findJob(user!, params.id);
+      this.assignDriverToJob(job, body.driverId, body.vehicleId);
+      const booking = this.db.bookings.find((candidate) => candidate.id === job.bookingId);
+      if (booking) {
+        booking.driverId = body.driverId || undefined;
+        booking.driverName = job.driver?.name;
+        booking.vehicleId = body.vehicleId;
+      }
+      if (body.driverId) {
+        this.notify([body.driverId], {
+          category: 'driver_assigned',
+          type: 'info',
+          title: 'Job assigned',
+          message: `You have been assigned job ${job.erpJobNumber} at ${job.siteName}.`,
+          url: `/driver/jobs/${job.id}`,
+        });
+      }
+      return job;
+    });
+
+    this.route('GET', '/dashboard/stats', ({ user }) => {
+      const jobs = this.visibleJobs(user!);
+      const completed = jobs.filter((job) => job.status === 'completed');
+      const active = jobs.filter((job) => !TERMINAL_JOB_STATUSES.includes(job.status));
+      const totalDistanceKm = jobs.reduce((sum, job) => sum + (job.roundTripDistanceKm || 0), 0);
+      const sum = (list: MockJob[], pick: (job: MockJob) => number) => list.reduce((total, job) => total + pick(job), 0);
+      const { travelKgPerKm } = this.currentFactorSet();
+
+      return {
+        totalJobs: jobs.length,
+        activeJobs: active.length,
+        totalCO2eSaved: sum(jobs, (job) => job.co2eSaved),
+        totalBuyback: sum(jobs, (job) => job.buybackValue),
+        totalAssets: sum(jobs, (job) => job.assets.reduce((total, asset) => total + asset.quantity, 0)),
+        avgCharityPercent: jobs.length ? sum(jobs, (job) => job.charityPercent) / jobs.length : 0,
+        travelEmissions: {
+          petrol: totalDistanceKm * travelKgPerKm.petrol,
+          diesel: totalDistanceKm * travelKgPerKm.diesel,
+          electric: totalDistanceKm * travelKgPerKm.electric,
+          totalDistanceKm,
+          totalDistanceMiles: kmToMiles(totalDistanceKm),
+        },
+        completedJobsCount: completed.length,
+        bookedJobsCount: active.length,
+        completedCO2eSaved: sum(completed, (job) => job.co2eSaved),
+        estimatedCO2eSaved: sum(active, (job) => job.co2eSaved),
+      };
+    });
+  }
+
+  private registerInventoryRoutes() {
+    this.route('GET', '/inventory', ({ query, user }) => {
+      const allocatedTo = query.get('allocatedTo');
+      const clientIds = this.visibleClientIds(user!);
+      return this.db.inventory.filter(
+        (item) =>
+          (!allocatedTo || item.allocatedTo === allocatedTo) &&
+          (!clientIds || (item.allocatedTo !== null && clientIds.includes(item.allocatedTo)))
+      );
+    });
+
+    this.route('GET', '/inventory/available', ({ query }) =>
+      this.db.inventory.filter(
+        (item) =>
+          item.status === 'available' &&
+          item.allocatedTo === query.get('allocatedTo') &&
+          (!query.get('category') || item.category === query.get('category')) &&
+          (!query.get('conditionCode') || item.conditionCode === query.get('conditionCode'))
+      )
+    );
+
+    this.route('GET', '/inventory/mover-allocated', ({ query }) =>
+      this.db.inventory.filter(
+        (item) =>
+          item.status === 'mover_allocated' &&
+          item.allocatedTo === query.get('clientId') &&
+          (!query.get('category') || item.category === query.get('category')) &&
+          (!query.get('conditionCode') || item.conditionCode === query.get('conditionCode'))
+      )
+    );
+
+    this.route('POST', '/inventory/upload', ({ body, user }) => {
+      const items: InventoryUploadItem[] = body.items || [];
+      items.forEach((item) => {
+        this.db.inventory.push({
+          id: generateId('inv'),
+          tenantId: user!.tenantId,
+          category: body.category || 'laptop',
+          deviceType: item.deviceType ?? null,
+          make: item.make,
+          model: item.model,
+          serialNumber: item.serialNumber,
+          imei: item.imei,
+          conditionCode: item.conditionCode,
+          status: (item.status as InventoryItem['status']) || 'available',
+          allocatedTo: body.clientId || user!.clientId || null,
+          createdAt: now(),
+          updatedAt: now(),
+        });
+      });
+      return { created: items.length, total: this.db.inventory.length };
+    });
+
+    this.route('POST', '/inventory/sync', ({ body, user }) => {
+      const clientIds = this.visibleClientIds(user!);
+      const clientId = clientIds ? clientIds[0] || notFound('Client') : body.clientId;
+      const run = this.runErpSync(['inventory'], { trigger: 'manual', clientId, user });
+      if (run.message) badRequest(run.message);
+      return {
+        synced: run.synced,
+        created: run.created,
+        updated: run.updated,
+        errors: run.errors.map((error) => `${error.recordLabel}: ${error.message}`),
+        runId: run.id,
+      };
+    });
+
+    this.route('PATCH', '/inventory/:id', ({ params, body }) => {
+      const item = this.db.inventory.find((candidate) => candidate.id === params.id) || notFound('Inventory item');
+      Object.assign(item, body, { updatedAt: now() });
+      return item;
+    });
+
+    this.route('GET', '/asset-categories', () => this.db.assetCategories);
+  }
+
+  private registerProcessingRoutes() {
+    this.route('GET', '/grading', ({ query }) =>
+      this.db.gradingRecords.filter((record) => !query.get('bookingId') || record.bookingId === query.get('bookingId'))
+    );
+
+    this.route('GET', '/grading/calculate-resale-value', ({ query }) => {
+      const categoryKey = query.get('category') || '';
+      const category = this.db.assetCategories.find(
+        (candidate) => candidate.id === categoryKey || candidate.name.toLowerCase() === categoryKey.toLowerCase()
+      );
+      const multiplier = GRADE_VALUE_MULTIPLIERS[query.get('grade') || ''] ?? 0;
+      return Math.round((category?.avgBuybackValue || 0) * multiplier * (Number(query.get('quantity')) || 1) * 100) / 100;
+    });
+
+    this.route('POST', '/grading', ({ body, user }) => {
+      this.requireAdmin(user);
+      const booking = this.findBooking(user!, body.bookingId);
+      return this.createGradingRecord(booking, user!, {
+        assetId: body.assetId,
+        assetCategory: body.assetCategory,
+        grade: body.grade,
+        quantity: body.quantity || 1,
+        notes: body.notes,
+        condition: body.condition,
+        serialNumbers: body.serialNumbers,
+        imeiNumbers: body.imeiNumbers,
+      });
+    });
+
+    // Grading workstation batches: all or nothing, one record per asset + grade + condition code
+    this.route('POST', '/grading/bulk', ({ body, user }) => {
+      this.requireAdmin(user);
+      const booking = this.findBooking(user!, body.bookingId);
+      const items: BulkGradingItem[] = body.items || [];
+      if (items.length === 0) badRequest('Scan at least one device');
+
+      const fields = this.validateBulkGrading(booking, items);
+      const problems = Object.keys(fields).length;
+      if (problems > 0) {
+        badRequest(problems === 1 ? Object.values(fields)[0] : `${problems} problems in this batch - nothing was graded`, fields);
+      }
+
+      const groups = new Map<string, BulkGradingItem[]>();
+      items.forEach((item) => {
+        const key = [item.assetId, item.grade, item.condition.trim(), [...(item.defects || [])].sort().join(',')].join('|');
+        groups.set(key, [...(groups.get(key) || []), item]);
+      });
+      const records = Array.from(groups.values()).map((group) => {
+        const [first] = group;
+        const serialNumbers = group.map((item) => item.serialNumber).filter((value): value is string => !!value);
+        const imeiNumbers = group.map((item) => item.imei).filter((value): value is string => !!value);
+        const notes = group.map((item) => item.notes?.trim()).filter(Boolean);
+        return this.createGradingRecord(booking, user!, {
+          assetId: first.assetId,
+          assetCategory: first.assetCategory,
+          grade: first.grade,
+          quantity: group.length,
+          condition: first.condition.trim(),
+          defects: first.defects?.length ? [...first.defects].sort() : undefined,
+          notes: notes.length > 0 ? notes.join('; ') : undefined,
+          serialNumbers: serialNumbers.map(normaliseSerialNumber),
+          imeiNumbers: imeiNumbers.length > 0 ? imeiNumbers.map(normaliseSerialNumber) : undefined,
+        });
+      });
+      return { graded: items.length, records };
+    });
+
+    this.route('GET', '/sanitisation', ({ query }) =>
+      this.db.sanitisationRecords.filter((record) => !query.get('bookingId') || record.bookingId === query.get('bookingId'))
+    );
+
+    this.route('POST', '/sanitisation', ({ body, user }) => {
+      this.requireAdmin(user);
+      const booking = this.findBooking(user!, body.bookingId);
+      const record = {
+        id: generateId('sanitisation'),
+        bookingId: booking.id,
+        jobId: booking.jobId,
+        assetId: body.assetId,
+        method: body.method,
+        methodDetails: body.methodDetails,
+        timestamp: now(),
+        performedBy: user!.id,
+        certificateId: `CERT-${Math.floor(100000 + Math.random() * 900000)}`,
+        certificateUrl: '#',
+        verified: false,
+        notes: body.notes,
+      };
+      this.db.sanitisationRecords.push(record);
+
+      const job = this.db.jobs.find((candidate) => candidate.id === booking.jobId);
+      const asset = job?.assets.find((candidate) => candidate.id === body.assetId || candidate.categoryId === body.assetId);
+      if (asset) asset.sanitised = true;
+      return record;
+    });
+
+    this.route('POST', '/sanitisation/:id/verify', ({ params, user }) => {
+      this.requireAdmin(user);
+      const record = this.db.sanitisationRecords.find((candidate) => candidate.id === params.id) || notFound('Sanitisation record');
+      record.verified = true;
+      return record;
+    });
+
+    // Uploads for a booking, plus watched-folder imports (which may hold devices from any booking)
+    this.route('GET', '/sanitisation/imports', ({ query, user }) => {
+      this.requireAdmin(user);
+      const bookingId = query.get('bookingId');
+      return this.db.sanitisationImports.filter(
+        (candidate) =>
+          !bookingId ||
+          !candidate.bookingId ||
+          candidate.bookingId === bookingId ||
+          candidate.items.some((item) => item.bookingId === bookingId)
+      );
+    });
+
+    this.route('GET', '/sanitisation/imports/:id', ({ params, user }) => {
+      this.requireAdmin(user);
+      return this.db.sanitisationImports.find((candidate) => candidate.id === params.id) || notFound('Import');
+    });
+
+    this.route('POST', '/sanitisation/imports', ({ body, user }) => {
+      this.requireAdmin(user);
+      if (body.bookingId) {
+        const booking = this.findBooking(user!, body.bookingId);
+        if (!SANITISATION_BOOKING_STATUSES.includes(booking.status)) {
+          badRequest('Erasure reports can only be imported once the booking has been collected');
+        }
+      }
+
+      let parsed: ReturnType<typeof parseBlanccoReports>;
+      try {
+        parsed = parseBlanccoReports(String(body.content || ''));
+      } catch (error) {
+        badRequest(error instanceof Error ? error.message : 'Unreadable report', { content: 'Unreadable report' });
+      }
+      if (parsed.reports.length === 0) badRequest('The file contains no erasure reports');
+
+      const sanitisationImport: SanitisationImport = {
+        id: generateId('sanitisation-import'),
+        source: 'upload',
+        fileName: body.fileName || 'blancco-report',
+        format: parsed.format,
+        bookingId: body.bookingId || null,
+        importedAt: now(),
+        importedBy: user!.name,
+        total: 0,
+        matched: 0,
+        needsReview: 0,
+        items: [],
+      };
+      const context = { importId: sanitisationImport.id, bookingId: body.bookingId, user, seen: new Set<string>() };
+      sanitisationImport.items = parsed.reports.map((report) => this.toImportItem(report, context));
+      this.updateImportCounts(sanitisationImport);
+      this.db.sanitisationImports.unshift(sanitisationImport);
+      return sanitisationImport;
+    });
+
+    // Assign an unmatched device to a booking asset by hand, or dismiss the item
+    this.route('POST', '/sanitisation/imports/:id/items/:itemId/resolve', ({ params, body, user }) => {
+      this.requireAdmin(user);
+      const sanitisationImport =
+        this.db.sanitisationImports.find((candidate) => candidate.id === params.id) || notFound('Import');
+      const item = sanitisationImport.items.find((candidate) => candidate.id === params.itemId) || notFound('Import item');
+      if (!needsReview(item.status)) badRequest('This item has already been reviewed');
+
+      if (body.action === 'assign') {
+        if (item.status === 'failed_erasure') {
+          badRequest('A failed erasure cannot be recorded as sanitised. Erase the device again or record its destruction.');
+        }
+        const booking = this.findBooking(user!, body.bookingId);
+        const asset = booking.assets.find((candidate) => candidate.categoryId === body.assetId);
+        if (!asset) badRequest('Choose an asset on this booking', { assetId: 'Not on this booking' });
+        if (this.db.sanitisationRecords.some((record) => record.certificateId === item.report.reportId)) {
+          badRequest('This report has already been imported');
+        }
+        item.bookingId = booking.id;
+        item.bookingNumber = booking.bookingNumber;
+        item.assetId = asset!.categoryId;
+        item.assetName = asset!.categoryName;
+        item.sanitisationRecordId = this.createBlanccoRecord(
+          booking,
+          asset!.categoryId,
+          item.report,
+          sanitisationImport.id,
+          user,
+          body.notes || undefined
+        ).id;
+        item.status = 'resolved';
+      } else if (body.action === 'dismiss') {
+        item.status = 'dismissed';
+      } else {
+        badRequest('Unknown action', { action: 'Must be assign or dismiss' });
+      }
+
+      item.reviewedBy = user!.name;
+      item.reviewedAt = now();
+      item.reviewNotes = body.notes || null;
+      this.updateImportCounts(sanitisationImport);
+      return sanitisationImport;
+    });
+
+    this.route('GET', '/documents', ({ user }) => {
+      const bookingIds = this.visibleBookings(user!).map((booking) => booking.id);
+      return this.db.documents.filter((document) => !document.bookingId || bookingIds.includes(document.bookingId));
+    });
+  }
+
+  private registerCalculationRoutes() {
+    this.route('POST', '/co2/calculate', ({ body }) => {
+      const factorSet = this.currentFactorSet();
+      const warehouse = body.warehouseId ? this.findWarehouse(body.warehouseId) : null;
+      const distanceKm = body.distanceKm ?? this.roundTripDistanceKm(body.collectionLat, body.collectionLng, warehouse) ?? 0;
+      const travelFactorKey = getTravelFactorKey(factorSet, { vehicleType: body.vehicleType });
+      const emissions = calculateEmissions(factorSet, {
+        assets: body.assets || [],
+        categories: this.db.assetCategories,
+        distanceKm,
+        travelFactorKey,
+      });
+      return this.co2Response(factorSet, emissions, emissions.scope3.upstream_transport, distanceKm);
+    });
+
+    this.route('GET', '/co2/job/:id', ({ params, user }) => {
+      const job = this.findJob(user!, params.id);
+      const factorSet =
+        this.db.emissionFactorSets.find((candidate) => candidate.id === job.emissions?.factorSetId) ||
+        this.currentFactorSet();
+      const emissions = job.emissions || this.calculateJobEmissions(job, factorSet);
+      return this.co2Response(factorSet, emissions, job.travelEmissions, job.roundTripDistanceKm || 0);
+    });
+
+    this.route('GET', '/co2/factor-sets', () => this.db.emissionFactorSets);
+
+    this.route('GET', '/co2/restatements', ({ user }) => {
+      this.requirePermission(user, 'co2e.restate');
+      return this.db.restatements;
+    });
+
+    // Preview: recalculate matching jobs under the chosen set without touching them
+    this.route('POST', '/co2/restatements', ({ body, user }) => {
+      this.requirePermission(user, 'co2e.restate');
+      const factorSet =
+        this.db.emissionFactorSets.find((candidate) => candidate.id === body.factorSetId) || notFound('Factor set');
+      if (body.from && body.to && body.from > body.to) {
+        badRequest('Invalid date range', { to: 'End date must be on or after the start date' });
+      }
+
+      const jobs = this.visibleJobs(user!).filter((job) => {
+        const scheduledDay = job.scheduledDate.slice(0, 10);
+        return (
+          job.status !== 'cancelled' &&
+          job.emissions?.factorSetId !== factorSet.id &&
+          (!body.clientId || job.clientId === body.clientId) &&
+          (!body.from || scheduledDay >= body.from) &&
+          (!body.to || scheduledDay <= body.to)
+        );
+      });
+      const diffs = jobs.map((job) => ({
+        jobId: job.id,
+        erpJobNumber: job.erpJobNumber,
+        clientName: job.organisationName,
+        scheduledDate: job.scheduledDate,
+        before: job.emissions || null,
+        after: this.calculateJobEmissions(job, factorSet),
+      }));
+
+      const restatement: Restatement = {
+        id: generateId('restatement'),
+        factorSetId: factorSet.id,
+        factorSetVersion: factorSet.version,
+        status: 'preview',
+        filter: { clientId: body.clientId || null, from: body.from || null, to: body.to || null },
+        jobs: diffs,
+        totals: {
+          before: sumEmissions(diffs.map((diff) => diff.before)),
+          after: sumEmissions(diffs.map((diff) => diff.after)),
+        },
+        createdAt: now(),
+        createdBy: user!.id,
+        createdByName: user!.name,
+        appliedAt: null,
+      };
+      this.db.restatements.unshift(restatement);
+      return restatement;
+    });
+
+    this.route('POST', '/co2/restatements/:id/apply', ({ params, user }) => {
+      this.requirePermission(user, 'co2e.restate');
+      const restatement =
+        this.db.restatements.find((candidate) => candidate.id === params.id) || notFound('Restatement');
+      if (restatement.status === 'applied') badRequest('This restatement has already been applied');
+
+      const jobs = restatement.jobs.map((diff) => ({
+        diff,
+        job: this.db.jobs.find((candidate) => candidate.id === diff.jobId),
+      }));
+      // A job recalculated since the preview would have its newer figures overwritten
+      const stale = jobs.some(({ diff, job }) => job && job.emissions?.calculatedAt !== diff.before?.calculatedAt);
+      if (stale) badRequest('Jobs have been recalculated since this preview. Preview the restatement again.');
+
+      for (const { diff, job } of jobs) {
+        if (job) this.applyEmissions(job, diff.after);
+      }
+      restatement.status = 'applied';
+      restatement.appliedAt = now();
+      return restatement;
+    });
+
+    this.route('POST', '/buyback/calculate', ({ body }) => ({
+      estimatedBuyback: this.estimateBooking(body.assets || []).buyback,
+    }));
+  }
+
+  private co2Response(
+    factorSet: EmissionFactorSet,
+    emissions: EmissionsBreakdown,
+    travelEmissions: number,
+    distanceKm: number
+  ) {
+    const reuseSavings = emissions.avoidedEmissions;
+    const emissionsFor = (key: TravelFactorKey) => Math.round(distanceKm * factorSet.travelKgPerKm[key] * 100) / 100;
+    const equivalencies = createCo2eEquivalencies(factorSet);
+    return {
+      reuseSavings,
+      travelEmissions,
+      netImpact: emissions.netImpact,
+      distanceKm,
+      distanceMiles: kmToMiles(distanceKm),
+      vehicleEmissions: {
+        petrol: emissionsFor('petrol'),
+        diesel: emissionsFor('diesel'),
+        electric: emissionsFor('electric'),
+      },
+      equivalencies: {
+        treesPlanted: equivalencies.treesPlanted(reuseSavings),
+        householdDays: equivalencies.householdDays(reuseSavings),
+        carMiles: equivalencies.carMiles(reuseSavings),
+        flightHours: equivalencies.flightHours(reuseSavings),
+      },
+      factorSetId: emissions.factorSetId,
+      factorSetVersion: emissions.factorSetVersion,
+      scope3: emissions.scope3,
+      totalScope3: emissions.totalScope3,
+    };
+  }
+
+  private registerFleetRoutes() {
+    this.route('GET', '/drivers', () => this.db.drivers);
+    this.route('GET', '/drivers/:id', ({ params }) =>
+      this.db.drivers.find((driver) => driver.id === params.id) || notFound('Driver')
+    );
+
+    this.route('POST', '/drivers/profile', ({ body, user }) => {
+      const driverId = body.userId || user!.id;
+      const existing = this.db.drivers.find((driver) => driver.id === driverId);
+      if (existing) {
+        Object.assign(existing, { name: body.name ?? existing.name, phone: body.phone ?? existing.phone, hasProfile: true });
+        return existing;
+      }
+      const driver = {
+        id: driverId,
+        name: body.name || user!.name,
+        email: body.email || user!.email,
+        phone: body.phone,
+        status: 'active',
+        vehicles: [],
+        hasVehicle: false,
+        hasProfile: true,
+      };
+      this.db.drivers.push(driver);
+      return driver;
+    });
+
+    this.route('PATCH', '/drivers/:id/profile', ({ params, body }) => {
+      const driver = this.db.drivers.find((candidate) => candidate.id === params.id) || notFound('Driver');
+      Object.assign(driver, body);
+      return driver;
+    });
+
+    const deleteDriver = ({ params, user }: RouteContext) => {
+      this.requireAdmin(user);
+      this.db.drivers = this.db.drivers.filter((driver) => driver.id !== params.id);
+    };
+    this.route('DELETE', '/drivers/:id', deleteDriver);
+    this.route('DELETE', '/drivers/:id/profile', (context) => {
+      deleteDriver(context);
+      this.db.users = this.db.users.filter((candidate) => candidate.id !== context.params.id);
+    });
+
+    this.route('GET', '/vehicles', () => this.db.vehicles.map((vehicle) => this.vehicleWithDrivers(vehicle.id)));
+    this.route('GET', '/vehicles/driver/:driverId', ({ params }) =>
+      this.db.vehicles
+        .map((vehicle) => this.vehicleWithDrivers(vehicle.id))
+        .filter((vehicle) => vehicle.drivers.some((assigned) => assigned.driverId === params.driverId))
+    );
+    this.route('GET', '/vehicles/:id', ({ params }) => this.vehicleWithDrivers(params.id));
+
+    this.route('POST', '/vehicles', ({ body, user }) => {
+      this.requireAdmin(user);
+      if (this.db.vehicles.some((vehicle) => vehicle.vehicleReg === body.vehicleReg)) {
+        badRequest('A vehicle with this registration already exists', { vehicleReg: 'Already exists' });
+      }
+      const vehicle = {
+        id: generateId('vehicle'),
+        tenantId: user!.tenantId,
+        vehicleReg: body.vehicleReg,
+        vehicleType: body.vehicleType,
+        vehicleFuelType: body.vehicleFuelType,
+        createdAt: now(),
+        updatedAt: now(),
+        createdBy: user!.id,
+      };
+      this.db.vehicles.push(vehicle);
+      return this.vehicleWithDrivers(vehicle.id);
+    });
+
+    this.route('PATCH', '/vehicles/:id', ({ params, body, user }) => {
+      this.requireAdmin(user);
+      const vehicle = this.db.vehicles.find((candidate) => candidate.id === params.id) || notFound('Vehicle');
+      Object.assign(vehicle, body, { updatedAt: now() });
+      return this.vehicleWithDrivers(vehicle.id);
+    });
+
+    this.route('POST', '/vehicles/:id/allocate', ({ params, body, user }) => {
+      this.requireAdmin(user);
+      const vehicle = this.db.vehicles.find((candidate) => candidate.id === params.id) || notFound('Vehicle');
+      if (body.driverId) {
+        const driver = this.db.drivers.find((candidate) => candidate.id === body.driverId) || notFound('Driver');
+        if (!driver.vehicles?.some((assigned) => assigned.id === vehicle.id)) {
+          driver.vehicles = [
+            ...(driver.vehicles || []),
+            { id: vehicle.id, vehicleReg: vehicle.vehicleReg, vehicleType: vehicle.vehicleType, vehicleFuelType: vehicle.vehicleFuelType },
+          ];
+        }
+        this.syncDriverVehicles(driver.id);
+      }
+      return this.vehicleWithDrivers(vehicle.id);
+    });
+
+    this.route('DELETE', '/vehicles/:id/drivers/:driverId', ({ params, user }) => {
+      this.requireAdmin(user);
+      const driver = this.db.drivers.find((candidate) => candidate.id === params.driverId) || notFound('Driver');
+      driver.vehicles = (driver.vehicles || []).filter((assigned) => assigned.id !== params.id);
+      this.syncDriverVehicles(driver.id);
+      return this.vehicleWithDrivers(params.id);
+    });
+
+    this.route('DELETE', '/vehicles/:id', ({ params, user }) => {
+      this.requireAdmin(user);
+      this.db.vehicles = this.db.vehicles.filter((vehicle) => vehicle.id !== params.id);
+      this.db.drivers.forEach((driver) => {
+        driver.vehicles = (driver.vehicles || []).filter((assigned) => assigned.id !== params.id);
+        this.syncDriverVehicles(driver.id);
+      });
+    });
+
+    this.route('GET', '/warehouses', () => this.db.warehouses);
+    this.route('GET', '/warehouses/:id', ({ params }) => this.findWarehouse(params.id));
+
+    // Only one warehouse can be the default
+    const applyDefault = (warehouse: Warehouse) => {
+      if (warehouse.isDefault) {
+        this.db.warehouses.forEach((candidate) => {
+          if (candidate.id !== warehouse.id) candidate.isDefault = false;
+        });
+      }
+    };
+
+    this.route('POST', '/warehouses', ({ body, user }) => {
+      this.requirePermission(user, 'warehouses.manage');
+      if (this.db.warehouses.some((warehouse) => warehouse.code.toLowerCase() === String(body.code).toLowerCase())) {
+        badRequest('A warehouse with this code already exists', { code: 'Already exists' });
+      }
+      const warehouse: Warehouse = {
+        id: generateId('warehouse'),
+        tenantId: user!.tenantId,
+        name: body.name,
+        code: body.code,
+        address: body.address,
+        postcode: body.postcode,
+        country: body.country,
+        lat: body.lat,
+        lng: body.lng,
+        capabilities: body.capabilities || [],
+        operatingHours: body.operatingHours || [],
+        isActive: body.isActive ?? true,
+        isDefault: body.isDefault ?? this.db.warehouses.length === 0,
+        createdAt: now(),
+        updatedAt: now(),
+      };
+      this.db.warehouses.push(warehouse);
+      applyDefault(warehouse);
+      return warehouse;
+    });
+
+    this.route('PATCH', '/warehouses/:id', ({ params, body, user }) => {
+      this.requirePermission(user, 'warehouses.manage');
+      const warehouse = this.findWarehouse(params.id);
+      if (warehouse.isDefault && (body.isDefault === false || body.isActive === false)) {
+        badRequest('Choose another default warehouse first');
+      }
+      Object.assign(warehouse, body, { updatedAt: now() });
+      applyDefault(warehouse);
+      return warehouse;
+    });
+
+    this.route('DELETE', '/warehouses/:id', ({ params, user }) => {
+      this.requirePermission(user, 'warehouses.manage');
+      const warehouse = this.findWarehouse(params.id);
+      if (warehouse.isDefault) badRequest('The default warehouse cannot be deleted');
+      const openBookings = this.db.bookings.filter(
+        (booking) => booking.warehouseId === warehouse.id && !['completed', 'cancelled'].includes(booking.status)
+      );
+      if (openBookings.length > 0) {
+        badRequest(`${openBookings.length} open booking(s) are still assigned to this warehouse`);
+      }
+      this.db.warehouses = this.db.warehouses.filter((candidate) => candidate.id !== warehouse.id);
+    });
+
+    this.route('GET', '/sites', ({ query, user }) => {
+      const clientId = query.get('clientId');
+      const clientIds = this.visibleClientIds(user!);
+      return this.db.sites.filter(
+        (site) => (!clientId || site.clientId === clientId) && (!clientIds || clientIds.includes(site.clientId))
+      );
+    });
+
+    this.route('GET', '/sites/:id', ({ params }) =>
+      this.db.sites.find((site) => site.id === params.id) || notFound('Site')
+    );
+
+    this.route('POST', '/sites', ({ body, user }) => {
+      const clientId = body.clientId || user!.clientId;
+      if (!clientId) badRequest('Client is required', { clientId: 'Required' });
+      const site = {
+        id: generateId('site'),
+        clientId,
+        tenantId: user!.tenantId,
+        name: body.name,
+        address: body.address,
+        postcode: body.postcode,
+        lat: body.lat,
+        lng: body.lng,
+        contactName: body.contactName,
+        contactPhone: body.contactPhone,
+        createdAt: now(),
+        updatedAt: now(),
+      };
+      this.db.sites.push(site);
+      return site;
+    });
+
+    this.route('PUT', '/sites/:id', ({ params, body }) => {
+      const site = this.db.sites.find((candidate) => candidate.id === params.id) || notFound('Site');
+      Object.assign(site, body, { updatedAt: now() });
+      return site;
+    });
+
+    this.route('DELETE', '/sites/:id', ({ params }) => {
+      this.db.sites = this.db.sites.filter((site) => site.id !== params.id);
+    });
+  }
+
+  private registerAccountRoutes() {
+    this.route('GET', '/users', ({ query, user }) => {
+      const scope = this.requirePermission(user, 'users.view');
+      const isActive = query.get('isActive');
+      return this.db.users.filter(
+        (candidate) =>
+          isInScope(scope, user!, this.userRecord(candidate)) &&
+          (!query.get('role') || candidate.role === query.get('role')) &&
+          (!query.get('status') || candidate.status === query.get('status')) &&
+          (!query.get('tenantId') || candidate.tenantId === query.get('tenantId')) &&
+          (isActive === null || String(candidate.isActive) === isActive)
+      );
+    });
+
+    this.route('GET', '/users/:id', ({ params }) =>
+      this.db.users.find((candidate) => candidate.id === params.id) || notFound('User')
+    );
+
+    const findManagedUser = (user: MockUser, userId: string) => {
+      const target = this.db.users.find((candidate) => candidate.id === userId) || notFound('User');
+      this.requireRecordAccess(user, 'users.manage', this.userRecord(target));
+      return target;
+    };
+
+    const setUserStatus = (user: MockUser, userId: string, status: MockUser['status']) => {
+      const target = findManagedUser(user, userId);
+      target.status = status;
+      target.isActive = status === 'active';
+      return target;
+    };
+
+    this.route('PATCH', '/users/:id/status', ({ params, body, user }) => setUserStatus(user!, params.id, body.status));
+    this.route('PATCH', '/users/:id/approve', ({ params, user }) => setUserStatus(user!, params.id, 'active'));
+    this.route('PATCH', '/users/:id/decline', ({ params, user }) => setUserStatus(user!, params.id, 'declined'));
+    this.route('DELETE', '/users/:id', ({ params, user }) => {
+      findManagedUser(user!, params.id);
+      this.db.users = this.db.users.filter((candidate) => candidate.id !== params.id);
+    });
+
+    const roleRecord = (role: RoleDefinition): ScopedRecord => ({ clientId: role.clientId, resellerId: role.resellerId });
+
+    const findRole = (user: MockUser, roleId: string) => {
+      const role = this.db.roles.find((candidate) => candidate.id === roleId) || notFound('Role');
+      this.requireRecordAccess(user, 'roles.manage', roleRecord(role));
+      return role;
+    };
+
+    this.route('PATCH', '/users/:id/permissions', ({ params, body, user }) => {
+      const target = findManagedUser(user!, params.id);
+      if (body.customRoleId) {
+        const role = findRole(user!, body.customRoleId);
+        if (role.baseRole !== target.role) {
+          badRequest(`The ${role.name} role can only be given to ${role.baseRole} users`);
+        }
+      }
+      this.validateGrants(user!, body.permissions);
+      target.customRoleId = body.customRoleId || undefined;
+      target.permissions = body.permissions || [];
+      return target;
+    });
+
+    const validateRoleInput = (user: MockUser, scope: PermissionScope, body: JsonBody) => {
+      if (body.name !== undefined && !String(body.name).trim()) {
+        badRequest('Role name is required', { name: 'Required' });
+      }
+      if (body.baseRole !== undefined && scope !== 'all' && body.baseRole !== user.role) {
+        forbidden(`You can only create ${user.role} roles`);
+      }
+      this.validateGrants(user, body.grants);
+    };
+
+    this.route('GET', '/roles', ({ user }) => {
+      const scope = this.requirePermission(user, 'roles.manage');
+      return this.db.roles.filter((role) => isInScope(scope, user!, roleRecord(role)));
+    });
+
+    // Any user may read the custom role they have been given
+    this.route('GET', '/roles/:id', ({ params, user }) =>
+      user!.customRoleId === params.id
+        ? this.db.roles.find((role) => role.id === params.id) || notFound('Role')
+        : findRole(user!, params.id)
+    );
+
+    this.route('POST', '/roles', ({ body, user }) => {
+      const scope = this.requirePermission(user, 'roles.manage');
+      validateRoleInput(user!, scope, { ...body, baseRole: body.baseRole || user!.role });
+      const role: RoleDefinition = {
+        id: generateId('role'),
+        tenantId: user!.tenantId,
+        name: String(body.name).trim(),
+        description: body.description,
+        baseRole: body.baseRole || user!.role,
+        // Roles belong to the organisation of whoever defines them, unless they manage the whole tenant
+        clientId: scope === 'client' ? user!.clientId : undefined,
+        resellerId: scope === 'client' || scope === 'reseller' ? user!.resellerId : undefined,
+        grants: body.grants || [],
+        isSystem: false,
+        createdAt: now(),
+        updatedAt: now(),
+      };
+      this.db.roles.push(role);
+      return role;
+    });
+
+    this.route('PATCH', '/roles/:id', ({ params, body, user }) => {
+      const role = findRole(user!, params.id);
+      validateRoleInput(user!, this.requirePermission(user, 'roles.manage'), body);
+      if (body.baseRole && body.baseRole !== role.baseRole && this.db.users.some((candidate) => candidate.customRoleId === role.id)) {
+        badRequest('The base role cannot change while users have this role');
+      }
+      Object.assign(role, {
+        ...(body.name !== undefined && { name: String(body.name).trim() }),
+        ...(body.description !== undefined && { description: body.description }),
+        ...(body.baseRole !== undefined && { baseRole: body.baseRole }),
+        ...(body.grants !== undefined && { grants: body.grants }),
+        updatedAt: now(),
+      });
+      return role;
+    });
+
+    this.route('DELETE', '/roles/:id', ({ params, user }) => {
+      findRole(user!, params.id);
+      this.db.roles = this.db.roles.filter((role) => role.id !== params.id);
+      // Users on a deleted role fall back to the built-in policy for their role
+      this.db.users
+        .filter((candidate) => candidate.customRoleId === params.id)
+        .forEach((candidate) => {
+          candidate.customRoleId = undefined;
+        });
+    });
+
+    this.route('GET', '/clients', ({ query, user }) => {
+      const clientIds = this.visibleClientIds(user!);
+      const search = query.get('searchQuery')?.toLowerCase();
+      const clients = this.db.clients
+        .filter(
+          (client) =>
+            (!clientIds || clientIds.includes(client.id)) &&
+            (!query.get('status') || client.status === query.get('status')) &&
+            (!query.get('resellerId') || client.resellerId === query.get('resellerId')) &&
+            (!search || [client.name, client.email, client.contactName].some((value) => value?.toLowerCase().includes(search)))
+        )
+        .map((client) => this.withClientTotals(client.id));
+      const limit = Number(query.get('limit')) || undefined;
+      return limit ? clients.slice(0, limit) : clients;
+    });
+
+    this.route('GET', '/clients/profile/me', ({ user }) => {
+      const client = this.db.clients.find((candidate) => candidate.id === user!.clientId) || notFound('Client profile');
+      return {
+        id: client.id,
+        name: client.contactName,
+        email: client.email,
+        phone: client.contactPhone,
+        organisationName: client.organisationName || client.name,
+        registrationNumber: '',
+        address: '',
+        hasProfile: true,
+      };
+    });
+
+    this.route('PATCH', '/clients/profile/me', ({ body, user }) => {
+      const client = this.db.clients.find((candidate) => candidate.id === user!.clientId) || notFound('Client profile');
+      Object.assign(client, {
+        contactName: body.name,
+        email: body.email,
+        contactPhone: body.phone,
+        organisationName: body.organisationName,
+        name: body.organisationName || client.name,
+      });
+      return { ...body, id: client.id, hasProfile: true };
+    });
+
+    this.route('GET', '/clients/:id', ({ params, user }) => {
+      const clientIds = this.visibleClientIds(user!);
+      if (clientIds && !clientIds.includes(params.id)) notFound('Client');
+      return this.withClientTotals(params.id);
+    });
+
+    this.route('PATCH', '/clients/:id/status', ({ params, body, user }) => {
+      this.requireAdmin(user);
+      const client = this.db.clients.find((candidate) => candidate.id === params.id) || notFound('Client');
+      client.status = body.status;
+      return this.withClientTotals(client.id);
+    });
+
+    this.route('GET', '/organisation-profile', ({ user }) =>
+      this.db.organisationProfiles.find((profile) => profile.userId === user!.id) || null
+    );
+
+    this.route('GET', '/organisation-profile/complete', ({ user }) => {
+      const profile = this.db.organisationProfiles.find((candidate) => candidate.userId === user!.id);
+      return {
+        isComplete: !!profile && [profile.organisationName, profile.registrationNumber, profile.address, profile.email, profile.phone].every(Boolean),
+      };
+    });
+
+    this.route('PATCH', '/organisation-profile', ({ body, user }) => {
+      let profile = this.db.organisationProfiles.find((candidate) => candidate.userId === user!.id);
+      if (!profile) {
+        profile = { id: generateId('org-profile'), userId: user!.id, createdAt: now(), updatedAt: now(), ...body };
+        this.db.organisationProfiles.push(profile);
+      }
+      Object.assign(profile, {
+        organisationName: body.organisationName,
+        registrationNumber: body.registrationNumber,
+        address: body.address,
+        email: body.email,
+        phone: body.phone,
+        updatedAt: now(),
+      });
+      if (body.name) user!.name = body.name;
+      return profile;
+    });
+  }
+
+  private registerNotificationRoutes() {
+    const forUser = (user: MockUser) => this.db.notifications.filter((notification) => notification.userId === user.id);
+
+    this.route('GET', '/notifications/preferences', ({ user }) => this.notificationPreferencesFor(user!.id));
+
+    this.route('PUT', '/notifications/preferences', ({ body, user }) => {
+      const fields: Record<string, string> = {};
+      const channels: NotificationChannel[] = ['in_app', 'email', 'webhook'];
+      const categories = (body.categories || []).filter((preference: { category: NotificationCategory }) =>
+        NOTIFICATION_CATEGORIES.some((info) => info.category === preference.category)
+      );
+      if (categories.some((preference: { channels: string[] }) => preference.channels.some((channel) => !channels.includes(channel as NotificationChannel)))) {
+        fields.categories = 'Unknown channel';
+      }
+      if (!isValidTime(body.quietHours?.start || '') || !isValidTime(body.quietHours?.end || '')) {
+        fields.quietHours = 'Use HH:mm';
+      }
+      if (!isValidTime(body.digestTime || '')) fields.digestTime = 'Use HH:mm';
+      try {
+        new Intl.DateTimeFormat('en-GB', { timeZone: body.quietHours?.timezone });
+      } catch {
+        fields.timezone = 'Unknown timezone';
+      }
+      const usesWebhook = categories.some((preference: { channels: string[] }) => preference.channels.includes('webhook'));
+      if (body.webhookUrl && !/^https:\/\/\S+$/.test(body.webhookUrl)) {
+        fields.webhookUrl = 'Must be an https:// URL';
+      } else if (usesWebhook && !body.webhookUrl) {
+        fields.webhookUrl = 'Required for webhook notifications';
+      }
+      if (Object.keys(fields).length > 0) badRequest('Invalid notification preferences', fields);
+
+      const preferences: NotificationPreferences = {
+        userId: user!.id,
+        categories,
+        quietHours: body.quietHours,
+        digestTime: body.digestTime,
+        webhookUrl: body.webhookUrl || null,
+        updatedAt: now(),
+      };
+      this.db.notificationPreferences = [
+        ...this.db.notificationPreferences.filter((existing) => existing.userId !== user!.id),
+        preferences,
+      ];
+      return preferences;
+    });
+
+    this.route('GET', '/notifications/digest', ({ user }) => {
+      this.sendDueDigests();
+      return {
+        nextSendAt: getNextDigestTime(this.notificationPreferencesFor(user!.id), new Date()).toISOString(),
+        items: this.db.notificationDeliveries
+          .filter((delivery) => delivery.userId === user!.id && delivery.status === 'queued')
+          .map(({ id, category, title, message, createdAt }) => ({ id, category, title, message, createdAt })),
+      };
+    });
+
+    this.route('GET', '/notifications', ({ query, user }) => {
+      this.raiseJmlMilestoneAlerts();
+      this.processReturnsKits();
+      const read = query.get('read');
+      const offset = Number(query.get('offset')) || 0;
+      const limit = Number(query.get('limit')) || undefined;
+      const notifications = forUser(user!).filter((notification) => read === null || String(notification.read) === read);
+      return {
+        notifications: notifications.slice(offset, limit ? offset + limit : undefined),
+        total: notifications.length,
+      };
+    });
+
+    this.route('GET', '/notifications/unread-count', ({ user }) => ({
+      count: forUser(user!).filter((notification) => !notification.read).length,
+    }));
+
+    this.route('PATCH', '/notifications/read-all', ({ user }) => {
+      forUser(user!).forEach((notification) => {
+        notification.read = true;
+      });
+    });
+
+    this.route('PATCH', '/notifications/:id/read', ({ params, user }) => {
+      const notification = forUser(user!).find((candidate) => candidate.id === params.id) || notFound('Notification');
+      notification.read = true;
+      return notification;
+    });
+
+    this.route('DELETE', '/notifications/read', ({ user }) => {
+      this.db.notifications = this.db.notifications.filter(
+        (notification) => notification.userId !== user!.id || !notification.read
+      );
+    });
+
+    this.route('DELETE', '/notifications/:id', ({ params, user }) => {
+      this.db.notifications = this.db.notifications.filter(
+        (notification) => notification.userId !== user!.id || notification.id !== params.id
+      );
+    });
+  }
+
+  private registerSearchRoutes() {
+    interface SearchCandidate {
+      id: string;
+      title: string;
+      subtitle: string;
+      fields: SearchField[];
+    }
+
+    const candidatesFor = (type: string, user: MockUser): SearchCandidate[] => {
+      const clientIds = this.visibleClientIds(user);
+      const clientName = (clientId: string | null | undefined) =>
+        this.db.clients.find((client) => client.id === clientId)?.name;
+
+      switch (type) {
+        case 'job':
+          return this.visibleJobs(user).map((job) => ({
+            id: job.id,
+            title: job.erpJobNumber,
+            subtitle: `${job.organisationName} • ${job.siteName}`,
+            fields: [
+              { value: job.erpJobNumber, weight: 1.5 },
+              { value: job.organisationName },
+              { value: job.siteName },
+              { value: job.postcode },
+              { value: job.driver?.name, weight: 0.8 },
+            ],
+          }));
+        case 'booking':
+          return this.visibleBookings(user).map((booking) => ({
+            id: booking.id,
+            title: booking.bookingNumber,
+            subtitle: [booking.organisationName || booking.clientName, booking.employeeName || booking.siteName]
+              .filter(Boolean)
+              .join(' • '),
+            fields: [
+              { value: booking.bookingNumber, weight: 1.5 },
+              { value: booking.erpJobNumber, weight: 1.2 },
+              { value: booking.organisationName || booking.clientName },
+              { value: booking.siteName },
+              { value: booking.postcode },
+              { value: booking.employeeName },
+              { value: booking.employeeEmail, weight: 0.8 },
+            ],
+          }));
+        case 'client':
+          return this.db.clients
+            .filter((client) => !clientIds || clientIds.includes(client.id))
+            .map((client) => ({
+              id: client.id,
+              title: client.name,
+              subtitle: client.email || client.contactName || 'Client',
+              fields: [
+                { value: client.name, weight: 1.2 },
+                { value: client.organisationName, weight: 1.2 },
+                { value: client.email, weight: 0.8 },
+                { value: client.contactName },
+              ],
+            }));
+        case 'site':
+          return this.db.sites
+            .filter((site) => !clientIds || clientIds.includes(site.clientId))
+            .map((site) => ({
+              id: site.id,
+              title: site.name,
+              subtitle: [site.postcode, clientName(site.clientId)].filter(Boolean).join(' • '),
+              fields: [
+                { value: site.name, weight: 1.2 },
+                { value: site.postcode, weight: 1.2 },
+                { value: site.address },
+                { value: clientName(site.clientId), weight: 0.8 },
+              ],
+            }));
+        case 'inventory':
+          return this.db.inventory
+            .filter((item) => !clientIds || (item.allocatedTo !== null && clientIds.includes(item.allocatedTo)))
+            .map((item) => ({
+              id: item.id,
+              title: item.serialNumber,
+              subtitle: [`${item.make} ${item.model}`, item.imei && `IMEI ${item.imei}`, clientName(item.allocatedTo)]
+                .filter(Boolean)
+                .join(' • '),
+              fields: [
+                { value: item.serialNumber, weight: 1.5 },
+                { value: item.imei, weight: 1.5 },
+                { value: item.erpInventoryId, weight: 1.2 },
+                { value: `${item.make} ${item.model}` },
+              ],
+            }));
+        case 'document': {
+          const bookingIds = this.visibleBookings(user).map((booking) => booking.id);
+          return this.db.documents
+            .filter((document) => !document.bookingId || bookingIds.includes(document.bookingId))
+            .map((document) => ({
+              id: document.id,
+              title: document.name,
+              subtitle: [document.booking?.bookingNumber, document.job?.erpJobNumber, document.booking?.client?.name]
+                .filter(Boolean)
+                .join(' • '),
+              fields: [
+                { value: document.name },
+                { value: document.booking?.bookingNumber, weight: 1.2 },
+                { value: document.job?.erpJobNumber, weight: 1.2 },
+                { value: document.type, weight: 0.8 },
+              ],
+            }));
+        }
+        case 'driver':
+          this.requirePermission(user, 'fleet.manage');
+          return this.db.drivers.map((driver) => {
+            const vehicleRegs = driver.vehicles?.map((vehicle) => vehicle.vehicleReg).join(', ') || driver.vehicleReg;
+            return {
+              id: driver.id,
+              title: driver.name,
+              subtitle: [driver.email, vehicleRegs].filter(Boolean).join(' • '),
+              fields: [
+                { value: driver.name, weight: 1.2 },
+                { value: driver.email },
+                { value: driver.phone },
+                { value: vehicleRegs },
+              ],
+            };
+          });
+        case 'vehicle':
+          this.requirePermission(user, 'fleet.manage');
+          return this.db.vehicles.map((vehicle) => ({
+            id: vehicle.id,
+            title: vehicle.vehicleReg,
+            subtitle: `${vehicle.vehicleType} • ${vehicle.vehicleFuelType}`,
+            fields: [
+              { value: vehicle.vehicleReg, weight: 1.5 },
+              { value: vehicle.vehicleType, weight: 0.8 },
+              { value: vehicle.vehicleFuelType, weight: 0.8 },
+            ],
+          }));
+        default:
+          return notFound('Search type');
+      }
+    };
+
+    // One endpoint per entity type, so a slow or failing type doesn't hold up the rest
+    this.route('GET', '/search/:type', ({ params, query, user }) => {
+      const candidates = candidatesFor(params.type, user!);
+      const term = query.get('q')?.trim() || '';
+      if (term.length < 2) return [];
+
+      const limit = Math.min(Number(query.get('limit')) || SEARCH_DEFAULT_LIMIT, SEARCH_MAX_LIMIT);
+      return candidates
+        .map(({ fields, ...candidate }) => ({ ...candidate, type: params.type, score: scoreSearchMatch(term, fields) }))
+        .filter((result) => result.score > 0)
+        .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+        .slice(0, limit);
+    });
+  }
+
+  private registerWebhookRoutes() {
+    const validate = (body: JsonBody, isUpdate: boolean) => {
+      const fields: Record<string, string> = {};
+      if ((!isUpdate || body.url !== undefined) && !isValidWebhookUrl(body.url || '')) {
+        fields.url = 'Must be an https:// URL (http:// is allowed for localhost)';
+      }
+      if (!isUpdate || body.eventTypes !== undefined) {
+        if (!Array.isArray(body.eventTypes) || body.eventTypes.length === 0) {
+          fields.eventTypes = 'Choose at least one event';
+        } else if (body.eventTypes.some((type: string) => !isKnownWebhookEventType(type))) {
+          fields.eventTypes = 'Unknown event type';
+        }
+      }
+      if (body.secret !== undefined && String(body.secret).length < 16) {
+        fields.secret = 'Must be at least 16 characters';
+      }
+      if (Object.keys(fields).length > 0) badRequest('Invalid webhook', fields);
+    };
+
+    this.route('GET', '/webhooks', ({ user }) =>
+      this.visibleWebhookSubscriptions(user!).map((subscription) => this.toWebhookSubscription(subscription))
+    );
+
+    this.route('POST', '/webhooks', ({ body, user }) => {
+      this.requirePermission(user, 'settings.integrations');
+      validate(body, false);
+      const secret: string = body.secret || generateWebhookSecret();
+      const subscription: MockWebhookSubscription = {
+        id: generateId('webhook'),
+        // Client webhooks cover their organisation; admin and reseller webhooks every client they can see
+        clientId: user!.role === 'client' ? user!.clientId || null : null,
+        url: body.url,
+        description: body.description || null,
+        eventTypes: body.eventTypes,
+        isActive: body.isActive ?? true,
+        secret,
+        secretHint: secret.slice(-4),
+        createdBy: user!.id,
+        createdAt: now(),
+        updatedAt: now(),
+        lastDeliveryAt: null,
+        lastDeliveryStatus: null,
+      };
+      this.db.webhookSubscriptions.unshift(subscription);
+      return { ...this.toWebhookSubscription(subscription), secret };
+    });
+
+    this.route('PATCH', '/webhooks/:id', ({ params, body, user }) => {
+      const subscription = this.findWebhookSubscription(user!, params.id);
+      validate(body, true);
+      if (body.url !== undefined) subscription.url = body.url;
+      if (body.description !== undefined) subscription.description = body.description || null;
+      if (body.eventTypes !== undefined) subscription.eventTypes = body.eventTypes;
+      if (body.isActive !== undefined) subscription.isActive = !!body.isActive;
+      subscription.updatedAt = now();
+      return this.toWebhookSubscription(subscription);
+    });
+
+    this.route('DELETE', '/webhooks/:id', ({ params, user }) => {
+      const subscription = this.findWebhookSubscription(user!, params.id);
+      this.db.webhookSubscriptions = this.db.webhookSubscriptions.filter((candidate) => candidate !== subscription);
+      this.db.webhookDeliveries = this.db.webhookDeliveries.filter(
+        (delivery) => delivery.subscriptionId !== subscription.id
+      );
+    });
+
+    this.route('POST', '/webhooks/:id/rotate-secret', ({ params, user }) => {
+      const subscription = this.findWebhookSubscription(user!, params.id);
+      subscription.secret = generateWebhookSecret();
+      subscription.secretHint = subscription.secret.slice(-4);
+      subscription.updatedAt = now();
+      return { ...this.toWebhookSubscription(subscription), secret: subscription.secret };
+    });
+
+    // Sent even when the subscription is paused, so a receiver can be checked before going live
+    this.route('POST', '/webhooks/:id/test', ({ params, user }) => {
+      const subscription = this.findWebhookSubscription(user!, params.id);
+      const event: WebhookEvent = {
+        id: generateId('evt'),
+        type: WEBHOOK_TEST_EVENT,
+        createdAt: now(),
+        data: { clientId: subscription.clientId, message: `Test event sent by ${user!.name}` },
+      };
+      return this.deliverWebhook(subscription, event, 1);
+    });
+
+    this.route('GET', '/webhooks/:id/deliveries', ({ params, user }) => {
+      const subscription = this.findWebhookSubscription(user!, params.id);
+      return this.db.webhookDeliveries
+        .filter((delivery) => delivery.subscriptionId === subscription.id)
+        .slice(0, WEBHOOK_DELIVERY_LOG_LIMIT);
+    });
+
+    this.route('POST', '/webhooks/deliveries/:id/redeliver', ({ params, user }) => {
+      const delivery =
+        this.db.webhookDeliveries.find((candidate) => candidate.id === params.id) || notFound('Webhook delivery');
+      const subscription = this.findWebhookSubscription(user!, delivery.subscriptionId);
+      const attempts = this.db.webhookDeliveries.filter(
+        (candidate) => candidate.subscriptionId === subscription.id && candidate.eventId === delivery.eventId
+      );
+      // Same event and body, freshly signed
+      const event: WebhookEvent = JSON.parse(delivery.requestBody);
+      return this.deliverWebhook(
+        subscription,
+        event,
+        Math.max(...attempts.map((attempt) => attempt.attempt)) + 1,
+        delivery.id
+      );
+    });
+  }
+
+  private registerErpRoutes() {
+    const parseEntities = (value: unknown): ErpEntity[] => {
+      if (!Array.isArray(value) || value.length === 0) {
+        badRequest('Choose at least one record type', { entities: 'Required' });
+      }
+      if (value.some((entity) => !ERP_ENTITY_TYPES.includes(entity))) {
+        badRequest('Unknown record type', { entities: 'Unknown record type' });
+      }
+      return value;
+    };
+
+    this.route('GET', '/erp/connector', ({ user }) => {
+      this.requireErpAdmin(user);
+      return this.toErpConnector();
+    });
+
+    this.route('PUT', '/erp/connector', ({ body, user }) => {
+      this.requireErpAdmin(user);
+      const connector = this.db.erpConnector;
+      const fields: Record<string, string> = {};
+      try {
+        if (new URL(body.endpointUrl).protocol !== 'https:') fields.endpointUrl = 'Must be an https:// URL';
+      } catch {
+        fields.endpointUrl = 'Must be an https:// URL';
+      }
+      if (!['api_key', 'basic'].includes(body.authType)) fields.authType = 'Unknown authentication type';
+      if (body.authType === 'basic' && !body.username?.trim()) fields.username = 'Required for basic authentication';
+      const credential = typeof body.credential === 'string' ? body.credential.trim() : '';
+      // Switching auth type needs a new credential, as the stored one no longer applies
+      if (!credential && (!connector.credential || body.authType !== connector.authType)) {
+        fields.credential = 'Required';
+      }
+      Object.entries(validateErpMappings(body.mappings || {})).forEach(([entity, message]) => {
+        fields[`mappings.${entity}`] = message!;
+      });
+      const schedule = body.schedule || {};
+      if (!['manual', 'hourly', 'daily'].includes(schedule.frequency) || !isValidErpSchedule(schedule)) {
+        fields.schedule = 'Choose a frequency and a valid time (HH:mm)';
+      } else if (!Array.isArray(schedule.entities) || schedule.entities.some((entity: string) => !ERP_ENTITY_TYPES.includes(entity as ErpEntity))) {
+        fields.schedule = 'Unknown record type';
+      }
+      const jobNumbers = body.jobNumbers || {};
+      if (!['manual', 'auto'].includes(jobNumbers.mode)) fields['jobNumbers.mode'] = 'Choose manual or automatic';
+      if (typeof jobNumbers.prefix !== 'string' || jobNumbers.prefix.length > 10) {
+        fields['jobNumbers.prefix'] = 'Up to 10 characters';
+      }
+      if (!Number.isInteger(jobNumbers.padding) || jobNumbers.padding < 1 || jobNumbers.padding > 10) {
+        fields['jobNumbers.padding'] = 'Between 1 and 10 digits';
+      }
+      if (!Number.isInteger(jobNumbers.nextSequence) || jobNumbers.nextSequence < 1) {
+        fields['jobNumbers.nextSequence'] = 'Must be a positive whole number';
+      }
+      if (Object.keys(fields).length > 0) badRequest('Invalid ERP connector settings', fields);
+
+      connector.enabled = !!body.enabled;
+      connector.endpointUrl = body.endpointUrl;
+      connector.authType = body.authType;
+      connector.username = body.authType === 'basic' ? body.username.trim() : null;
+      if (credential) {
+        connector.credential = credential;
+        connector.credentialHint = credential.slice(-4);
+      }
+      connector.mappings = {
+        jobs: body.mappings.jobs,
+        inventory: body.mappings.inventory,
+        clients: body.mappings.clients,
+      };
+      connector.schedule = { frequency: schedule.frequency, time: schedule.time, entities: schedule.entities };
+      connector.jobNumbers = {
+        mode: jobNumbers.mode,
+        prefix: jobNumbers.prefix,
+        padding: jobNumbers.padding,
+        nextSequence: jobNumbers.nextSequence,
+      };
+      connector.nextSyncAt = connector.enabled
+        ? getNextErpSyncTime(connector.schedule, new Date())?.toISOString() ?? null
+        : null;
+      connector.updatedAt = now();
+      return this.toErpConnector();
+    });
+
+    // Checks the saved settings; works while the connector is disabled so it can be tried before going live
+    this.route('POST', '/erp/connector/test', ({ user }) => {
+      this.requireErpAdmin(user);
+      const connector = this.db.erpConnector;
+      if (!connector.credential) return { ok: false, message: 'No credentials are configured' };
+      if (connector.authType === 'basic' && !connector.username) return { ok: false, message: 'No username is configured' };
+      return {
+        ok: true,
+        message: `Connected to ${new URL(connector.endpointUrl).host}`,
+        latencyMs: 80 + Math.floor(Math.random() * 120),
+      };
+    });
+
+    // Preview of the number an approval would be given; only reserved when the booking is approved
+    this.route('GET', '/erp/job-numbers/next', ({ user }) => {
+      this.requireAdmin(user);
+      const { mode } = this.db.erpConnector.jobNumbers;
+      return { mode, erpJobNumber: mode === 'auto' ? this.nextErpJobNumber(false) : null };
+    });
+
+    this.route('GET', '/erp/sync-runs', ({ query, user }) => {
+      this.requireErpAdmin(user);
+      this.runDueErpSyncs();
+      const status = query.get('status');
+      return this.db.erpSyncRuns.filter((run) => !status || run.status === status);
+    });
+
+    this.route('GET', '/erp/sync-runs/:id', ({ params, user }) => {
+      this.requireErpAdmin(user);
+      return this.db.erpSyncRuns.find((run) => run.id === params.id) || notFound('Sync run');
+    });
+
+    this.route('POST', '/erp/sync-runs', ({ body, user }) => {
+      this.requireErpAdmin(user);
+      const entities = parseEntities(body.entities);
+      if (body.clientId && !this.db.clients.some((client) => client.id === body.clientId)) notFound('Client');
+      return this.runErpSync(entities, { trigger: 'manual', clientId: body.clientId || null, user });
+    });
+
+    // Re-sends a run's unresolved retryable errors (or just the chosen ones) as a new run
+    this.route('POST', '/erp/sync-runs/:id/retry', ({ params, body, user }) => {
+      this.requireErpAdmin(user);
+      const run = this.db.erpSyncRuns.find((candidate) => candidate.id === params.id) || notFound('Sync run');
+      const errorIds: string[] | undefined = Array.isArray(body.errorIds) ? body.errorIds : undefined;
+      const errors = run.errors.filter(
+        (error) => !error.resolvedAt && (errorIds ? errorIds.includes(error.id) : error.retryable)
+      );
+      if (errors.length === 0) badRequest('There are no failed records to retry');
+      return this.runErpSync([...new Set(errors.map((error) => error.entity))], {
+        trigger: 'retry',
+        clientId: run.clientId,
+        user,
+        retry: { run, errors },
+      });
+    });
+  }
+
+  private registerCustodyRoutes() {
+    this.route('GET', '/bookings/:id/custody', async ({ params, user }) => {
+      const booking = this.findBooking(user!, params.id);
+      await this.custodyWrites;
+      return this.db.custodyLedger
+        .filter((entry) => entry.bookingId === booking.id)
+        .sort((a, b) => a.sequence - b.sequence);
+    });
+
+    this.route('GET', '/bookings/:id/custody/certificate', async ({ params, user }) => {
+      const booking = this.findBooking(user!, params.id);
+      await this.custodyWrites;
+      return (
+        this.db.custodyCertificates.find((certificate) => certificate.bookingId === booking.id) ||
+        notFound('Chain-of-custody certificate')
+      );
+    });
+
+    // Completion issues the first certificate; admins can snapshot the ledger again later
+    this.route('POST', '/bookings/:id/custody/certificate', async ({ params, user }) => {
+      this.requireAdmin(user);
+      const booking = this.findBooking(user!, params.id);
+      await this.custodyWrites;
+      return this.createCustodyCertificate(booking, user!);
+    });
+  }
+
+  private registerJmlScheduleRoutes() {
+    this.route('GET', '/jml/milestones', ({ query, user }) => {
+      this.raiseJmlMilestoneAlerts();
+      this.processReturnsKits();
+      const clientId = query.get('clientId');
+      const from = query.get('from');
+      const to = query.get('to');
+      const bookings = this.visibleBookings(user!).filter((booking) => !clientId || booking.clientId === clientId);
+      // Anything still outstanding is returned whatever its date, so old overdue work isn't hidden
+      return this.jmlMilestonesFor(bookings).filter(
+        (milestone) =>
+          milestone.state !== 'done' || ((!from || milestone.dueDate >= from) && (!to || milestone.dueDate <= to))
+      );
+    });
+
+    this.route('GET', '/jml/lead-times', ({ user }) => {
+      const clientIds = this.visibleClientIds(user!);
+      return this.db.clients
+        .filter((client) => !clientIds || clientIds.includes(client.id))
+        .map((client) => this.jmlLeadTimesFor(client.id));
+    });
+
+    this.route('PUT', '/jml/lead-times/:clientId', ({ params, body, user }) => {
+      this.requireAdmin(user);
+      const client = this.db.clients.find((candidate) => candidate.id === params.clientId);
+      if (!client) notFound('Client');
+      const leadTimes: JmlLeadTimes = {
+        allocateDaysBefore: Number(body.allocateDaysBefore),
+        courierDaysBefore: Number(body.courierDaysBefore),
+        collectDaysAfter: Number(body.collectDaysAfter),
+      };
+      const errors = validateJmlLeadTimes(leadTimes);
+      if (Object.keys(errors).length > 0) badRequest('Invalid lead times', errors);
+
+      const updated: ClientJmlLeadTimes = {
+        clientId: params.clientId,
+        clientName: client.name,
+        ...leadTimes,
+        isDefault: false,
+        updatedAt: now(),
+        updatedBy: user!.name,
+      };
+      this.db.jmlLeadTimes = [
+        ...this.db.jmlLeadTimes.filter((existing) => existing.clientId !== params.clientId),
+        updated,
+      ];
+      return updated;
+    });
+  }
+
+  private registerShipmentRoutes() {
+    this.route('GET', '/bookings/:id/shipments', ({ params, user }) => {
+      const booking = this.findBooking(user!, params.id);
+      const shipments = this.db.shipments.filter((shipment) => shipment.bookingId === booking.id);
+      shipments.forEach((shipment) => this.trackShipment(shipment));
+      this.processReturnsKits();
+      return shipments
+        .map((shipment) => this.shipmentResponse(shipment))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    });
+
+    this.route('POST', '/bookings/:id/shipments', ({ params, body, user }) => {
+      this.requireAdmin(user);
+      const booking = this.findBooking(user!, params.id);
+      if (booking.bookingType !== 'jml') badRequest('Carrier shipments are for JML bookings');
+      return this.shipmentResponse(this.createShipment(booking, body, user!));
+    });
+
+    this.route('POST', '/bookings/:id/returns-kit', ({ params, body, user }) => {
+      this.requireAdmin(user);
+      return this.issueReturnsKit(this.findBooking(user!, params.id), body, user!);
+    });
+
+    this.route('POST', '/shipments/:id/track', ({ params, user }) => {
+      this.requireAdmin(user);
+      const shipment = this.db.shipments.find((candidate) => candidate.id === params.id) || notFound('Shipment');
+      this.findBooking(user!, shipment.bookingId);
+      this.trackShipment(shipment);
+      return this.shipmentResponse(shipment);
+    });
+
+    // Carrier tracking webhooks - the body is the carrier's own tracking payload
+    this.route('POST', '/carriers/:carrier/webhook', ({ params, body }) => {
+      if (!isCarrierCode(params.carrier)) notFound('Carrier');
+      const updates = getCarrierAdapter(params.carrier).parseTracking(body);
+      let applied = 0;
+      updates.forEach((update) => {
+        const shipment = this.db.shipments.find(
+          (candidate) => candidate.carrier === params.carrier && candidate.trackingNumber === update.trackingNumber
+        );
+        if (shipment) applied += this.applyTrackingEvents(shipment, update.events);
+      });
+      // Events already recorded count as received but not applied
+      return { received: updates.reduce((sum, update) => sum + update.events.length, 0), applied };
+    }, true);
+  }
+
+  private registerEmployeeRoutes() {
+    this.route('GET', '/employees', ({ query, user }) => {
+      if (user!.role === 'driver') forbidden();
+      const clientIds = this.visibleClientIds(user!);
+      const clientId = query.get('clientId');
+      const search = query.get('search')?.trim().toLowerCase();
+      return this.db.employees
+        .filter(
+          (employee) =>
+            (!clientIds || clientIds.includes(employee.clientId)) &&
+            (!clientId || employee.clientId === clientId) &&
+            (!search ||
+              employee.name.toLowerCase().includes(search) ||
+              employee.emails.some((email) => email.includes(search)))
+        )
+        .map((employee) => this.employeeSummary(employee))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    });
+
+    this.route('GET', '/employees/:id', ({ params, user }) => {
+      if (user!.role === 'driver') forbidden();
+      return this.employeeLedger(this.findEmployee(user!, params.id));
+    });
+  }
+}
+
+export const mockServer = new MockServer();
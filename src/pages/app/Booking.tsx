@@ -23,7 +23,8 @@ import {
   Fuel,
   PoundSterling,
   AlertCircle,
-  UserPlus
+  UserPlus,
+  Warehouse as WarehouseIcon
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -46,8 +47,11 @@ import { useAssetCategories } from "@/hooks/useAssets";
 import { useCO2Calculation } from "@/hooks/useCO2";
 import { useBuybackCalculation } from "@/hooks/useBuyback";
 import { useCreateBooking } from "@/hooks/useBooking";
+import { useWarehouses } from "@/hooks/useWarehouses";
 import { geocodePostcode, geocodeAddressWithDetails } from "@/lib/calculations";
 import { validateEuropeanPostcode, isValidEuropeanCountry } from "@/lib/european-validation";
+import { selectWarehouseForBooking } from "@/lib/warehouses";
+import { calculateStraightLineDistance } from "@/lib/routing";
 import { BookingTypeSelector } from "@/components/booking/BookingTypeSelector";
 import { JMLSubTypeSelector } from "@/components/booking/JMLSubTypeSelector";
 
@@ -89,6 +93,7 @@ const Booking = () => {
   const [charityPercent, setCharityPercent] = useState(10);
   const [selectedVehicleType, setSelectedVehicleType] = useState<'petrol' | 'diesel' | 'electric'>('petrol');
   const [isGeocodingAddress, setIsGeocodingAddress] = useState(false);
+  const [warehouseOverrideId, setWarehouseOverrideId] = useState<string>("auto"); // Admins can pick a warehouse manually
 
   // Determine user roles first (needed for conditional queries)
   const isReseller = user?.role === 'reseller';
@@ -109,6 +114,15 @@ const Booking = () => {
   );
   
   const { data: assetCategories = [], error: categoriesError, isLoading: isLoadingCategories } = useAssetCategories();
+  const { data: warehouses = [] } = useWarehouses();
+
+  // Nearest warehouse that can process a collection and is open on the collection day
+  const selectedWarehouse = useMemo(() => {
+    if (warehouseOverrideId !== "auto") {
+      return warehouses.find(warehouse => warehouse.id === warehouseOverrideId) || null;
+    }
+    return selectWarehouseForBooking(warehouses, siteLocation, { bookingType: 'itad_collection', date: scheduledDate });
+  }, [warehouses, warehouseOverrideId, siteLocation, scheduledDate]);
   const createBooking = useCreateBooking();
   const createSite = useCreateSite();
   
@@ -125,8 +139,9 @@ const Booking = () => {
       assets: selectedAssets,
       collectionCoordinates: coordinates,
       vehicleType: selectedVehicleType,
+      warehouseId: selectedWarehouse?.id,
     };
-  }, [selectedAssets, siteLocation, selectedVehicleType]);
+  }, [selectedAssets, siteLocation, selectedVehicleType, selectedWarehouse?.id]);
 
   const { data: co2Calculation, isLoading: isCalculatingCO2, isFetching: isFetchingCO2 } = useCO2Calculation(co2CalculationRequest);
   
@@ -476,6 +491,7 @@ const Booking = () => {
         charityPercent,
         preferredVehicleType: selectedVehicleType, // Save client's vehicle preference
         coordinates: siteLocation || undefined,
+        warehouseId: selectedWarehouse?.id,
       },
       {
         onSuccess: (booking) => {
@@ -954,6 +970,51 @@ const Booking = () => {
                       Enter a valid postcode to see location on map
                     </p>
                   )}
+
+                  {/* Processing Warehouse */}
+                  {warehouses.length > 0 && (
+                    <div className="mt-4 p-3 rounded-lg bg-muted/50 border space-y-2">
+                      <div className="flex items-center gap-2">
+                        <WarehouseIcon className="h-4 w-4 text-muted-foreground" />
+                        <span className="text-sm font-medium">Processing Warehouse</span>
+                      </div>
+                      {isAdmin ? (
+                        <Select value={warehouseOverrideId} onValueChange={setWarehouseOverrideId}>
+                          <SelectTrigger className="h-9">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="auto">
+                              Nearest available{warehouseOverrideId === "auto" && selectedWarehouse ? ` (${selectedWarehouse.name})` : ""}
+                            </SelectItem>
+                            {warehouses.filter(warehouse => warehouse.isActive).map(warehouse => (
+                              <SelectItem key={warehouse.id} value={warehouse.id}>
+                                {warehouse.name} ({warehouse.code})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <p className="text-sm">{selectedWarehouse?.name || "To be confirmed"}</p>
+                      )}
+                      {selectedWarehouse && (
+                        <p className="text-xs text-muted-foreground">
+                          {selectedWarehouse.address}, {selectedWarehouse.postcode}
+                          {siteLocation && ` · ${calculateStraightLineDistance(
+                            siteLocation.lat,
+                            siteLocation.lng,
+                            selectedWarehouse.lat,
+                            selectedWarehouse.lng
+                          ).toFixed(0)} km from site`}
+                        </p>
+                      )}
+                      {!siteLocation && warehouseOverrideId === "auto" && (
+                        <p className="text-xs text-muted-foreground">
+                          Set the collection location to choose the nearest warehouse
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
               </div>
@@ -1138,7 +1199,7 @@ const Booking = () => {
                         </span>
                       </div>
                       <div className="text-xs text-muted-foreground mb-3">
-                        From collection site to warehouse (RM13 8BT) and return
+                        From collection site to {selectedWarehouse ? `${selectedWarehouse.name} (${selectedWarehouse.postcode})` : "warehouse"} and return
                         {!siteLocation && (
                           <span className="ml-2 text-warning">(Estimated - Location not set)</span>
                         )}
@@ -1322,7 +1383,7 @@ const Booking = () => {
                         </span>
                       </div>
                       <div className="text-xs text-muted-foreground mt-2">
-                        From collection site to warehouse (RM13 8BT) and return
+                        From collection site to {selectedWarehouse ? `${selectedWarehouse.name} (${selectedWarehouse.postcode})` : "warehouse"} and return
                         {!siteLocation && (
                           <span className="ml-2 text-warning">(Estimated - Location not set)</span>
                         )}
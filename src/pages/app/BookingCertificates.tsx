@@ -11,6 +11,8 @@ import { useSanitisationRecords } from "@/hooks/useSanitisation";
 import { canDriverEditJob } from "@/utils/job-helpers";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { cn } from "@/lib/utils";
+import { CustodyCertificateCard } from "@/components/bookings/CustodyLedger";
+import { PdfDownloadButton } from "@/components/documents/PdfDownloadButton";
 
 const sanitisationMethods = [
   { value: 'blancco', label: 'Blancco Software Wipe' },
@@ -124,6 +126,10 @@ const BookingCertificates = () => {
           <h2 className="text-2xl font-bold text-foreground">Sanitisation Certificates</h2>
           <p className="text-muted-foreground">{booking.bookingNumber} - {booking.clientName}</p>
         </div>
+        <PdfDownloadButton
+          label="Certificate of Destruction"
+          request={records.length > 0 ? { kind: 'data_destruction_certificate', booking, records } : null}
+        />
       </motion.div>
 
       {/* Certificates List */}
@@ -300,6 +306,8 @@ const BookingCertificates = () => {
         )}
       </div>
 
+      <CustodyCertificateCard booking={booking} canIssue={user?.role === 'admin'} />
+
       {/* Info Card */}
       <Card className="bg-info/5 border-info/20">
         <CardContent className="pt-6">
@@ -11,6 +11,7 @@ import { useGradingRecords } from "@/hooks/useGrading";
 import { canDriverEditJob } from "@/utils/job-helpers";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { cn } from "@/lib/utils";
+import { PdfDownloadButton } from "@/components/documents/PdfDownloadButton";
 
 const grades: { value: 'A' | 'B' | 'C' | 'D' | 'Recycled'; label: string; color: string }[] = [
   { value: 'A', label: 'Grade A - Excellent', color: 'bg-success/10 text-success' },
@@ -158,6 +159,7 @@ const BookingGradingReport = () => {
             <p className="text-muted-foreground">{booking.bookingNumber} - {booking.organisationName || booking.clientName}</p>
           </div>
         </div>
+        <PdfDownloadButton request={records.length > 0 ? { kind: 'grading_report', booking, records } : null} />
       </motion.div>
 
       {/* Summary Cards */}
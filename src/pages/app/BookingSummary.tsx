@@ -27,6 +27,7 @@ import { useSanitisationRecords } from "@/hooks/useSanitisation";
 import { canDriverEditJob } from "@/utils/job-helpers";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { cn } from "@/lib/utils";
+import { PdfDownloadButton } from "@/components/documents/PdfDownloadButton";
 
 const BookingSummary = () => {
   const { id } = useParams();
@@ -118,6 +119,7 @@ const BookingSummary = () => {
             <p className="text-muted-foreground">{booking.bookingNumber} - {booking.organisationName || booking.clientName}</p>
           </div>
         </div>
+        <PdfDownloadButton request={{ kind: 'booking_summary', booking, gradingRecords, sanitisationRecords }} />
       </motion.div>
 
       {/* Summary Cards */}
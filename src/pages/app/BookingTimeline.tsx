@@ -14,6 +14,9 @@ import { getStatusLabelExtended, getStatusColor } from "@/types/booking-lifecycl
 import type { BookingLifecycleStatus } from "@/types/booking-lifecycle";
 import { cn } from "@/lib/utils";
 import { useMemo } from "react";
+import { CustodyLedgerCard } from "@/components/bookings/CustodyLedger";
+import { ShipmentTrackingCard } from "@/components/bookings/ShipmentTracking";
+import { ReturnsKitCard } from "@/components/bookings/ReturnsKit";
 
 // Helper function to get timeline steps based on booking type
 function getTimelineSteps(
@@ -230,7 +233,10 @@ const BookingTimeline = () => {
                           </Badge>
                         )}
                       </div>
-                      <p className="text-sm text-muted-foreground mb-2">{step.description}</p>
+                      <p className="text-sm text-muted-foreground mb-2">
+                        {step.description}
+                        {step.status === 'warehouse' && booking.warehouseName && ` (${booking.warehouseName})`}
+                      </p>
                       {timestamp && (
                         <p className="text-xs text-muted-foreground">
                           {new Date(timestamp).toLocaleString("en-GB", {
@@ -271,6 +277,12 @@ const BookingTimeline = () => {
         </CardContent>
       </Card>
 
+      <CustodyLedgerCard bookingId={booking.id} />
+
+      <ReturnsKitCard booking={booking} />
+
+      <ShipmentTrackingCard bookingId={booking.id} />
+
       {/* Booking Information */}
       <div className="grid gap-6 lg:grid-cols-2">
         {/* Round Trip Mileage */}
@@ -290,7 +302,7 @@ const BookingTimeline = () => {
                     ({booking.roundTripDistanceKm.toFixed(1)} km)
                   </p>
                   <p className="text-xs text-muted-foreground mt-1">
-                    From collection site to warehouse and return
+                    From collection site to {booking.warehouseName || "warehouse"} and return
                   </p>
                 </div>
               </div>
@@ -42,9 +42,12 @@ import { useAuth } from "@/contexts/AuthContext";
 import { Loader2 } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { cn } from "@/lib/utils";
+import { Scope3BreakdownCard } from "@/components/co2e/Scope3BreakdownCard";
+import { FactorSetRestatementCard } from "@/components/co2e/FactorSetRestatementCard";
 
 const CO2eDashboard = () => {
-  const { user, isLoading: isAuthLoading } = useAuth();
+  const { user, isLoading: isAuthLoading, hasPermission } = useAuth();
+  const canRestate = hasPermission('co2e.restate');
   const isReseller = user?.role === 'reseller';
   const { data: clients = [], isLoading: isLoadingClients } = useClients();
   const [selectedClientId, setSelectedClientId] = useState<string | null>(null);
@@ -775,6 +778,25 @@ const CO2eDashboard = () => {
                 </CardContent>
               </Card>
             </motion.div>
+
+            {/* Scope 3 */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.8 }}
+            >
+              <Scope3BreakdownCard jobs={filteredJobs} compact />
+            </motion.div>
+
+            {canRestate && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.9 }}
+              >
+                <FactorSetRestatementCard clientId={selectedClientId} />
+              </motion.div>
+            )}
           </div>
         </div>
       </div>
@@ -1161,6 +1183,25 @@ const CO2eDashboard = () => {
           </CardContent>
         </Card>
       </motion.div>
+
+      {/* Scope 3 */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.8 }}
+      >
+        <Scope3BreakdownCard jobs={filteredJobs} />
+      </motion.div>
+
+      {canRestate && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.9 }}
+        >
+          <FactorSetRestatementCard />
+        </motion.div>
+      )}
     </div>
   );
 };
@@ -19,6 +19,7 @@ import {
 import { Label } from "@/components/ui/label";
 import { useClients } from "@/hooks/useClients";
 import { useInvites, useCancelInvite } from "@/hooks/useInvites";
+import { useSearchDeepLink } from "@/hooks/useSearchDeepLink";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useAuth } from "@/contexts/AuthContext";
 import { cn } from "@/lib/utils";
@@ -114,6 +115,7 @@ const Clients = () => {
   const { data: clients = [], isLoading, error } = useClients({
     status: statusFilter !== "all" ? statusFilter : undefined,
   });
+  const { isHighlighted } = useSearchDeepLink({ onSearch: setSearchQuery, isReady: !isLoading });
 
   // Show error state first
   if (error) {
@@ -336,7 +338,10 @@ const Clients = () => {
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: index * 0.05 }}
               >
-                <Card className="hover:shadow-md transition-shadow h-full">
+                <Card
+                  data-search-id={client.id}
+                  className={cn("hover:shadow-md transition-shadow h-full", isHighlighted(client.id) && "ring-2 ring-primary")}
+                >
                   <CardContent className="p-6">
                     <div className="flex items-start justify-between mb-4">
                       <div className="flex h-12 w-12 items-center justify-center rounded-full bg-primary/10 text-primary">
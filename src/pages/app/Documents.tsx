@@ -18,6 +18,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { cn } from "@/lib/utils";
 import { useJobs } from "@/hooks/useJobs";
 import { useDocuments } from "@/hooks/useDocuments";
+import { useSearchDeepLink } from "@/hooks/useSearchDeepLink";
 import { documentsService } from "@/services/documents.service";
 import { Loader2 } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -60,6 +61,7 @@ const Documents = () => {
       jobId: job.id,
       jobNumber: job.erpJobNumber,
       clientName: job.organisationName,
+      name: cert.type as string,
       type: cert.type as string,
       generatedDate: cert.generatedDate,
       downloadUrl: cert.downloadUrl,
@@ -73,6 +75,7 @@ const Documents = () => {
     jobId: doc.jobId || '',
     jobNumber: doc.job?.erpJobNumber || doc.booking?.bookingNumber || 'N/A',
     clientName: doc.job?.organisationName || doc.booking?.client?.name || 'N/A',
+    name: doc.name,
     type: doc.type,
     generatedDate: doc.createdAt,
     downloadUrl: documentsService.getDownloadUrl(doc.id),
@@ -86,6 +89,7 @@ const Documents = () => {
   );
 
   const isLoading = isLoadingJobs || isLoadingDocuments;
+  const { isHighlighted } = useSearchDeepLink({ onSearch: setSearchQuery, isReady: !isLoading });
 
   const filters = [
     { value: "all", label: "All Documents" },
@@ -98,7 +102,8 @@ const Documents = () => {
   const filteredDocs = uniqueDocuments.filter((doc) => {
     const matchesSearch =
       doc.clientName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      doc.jobNumber.toLowerCase().includes(searchQuery.toLowerCase());
+      doc.jobNumber.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      doc.name.toLowerCase().includes(searchQuery.toLowerCase());
     const matchesFilter = activeFilter === "all" || doc.type === activeFilter;
     return matchesSearch && matchesFilter;
   });
@@ -222,7 +227,10 @@ const Documents = () => {
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: index * 0.05 }}
               >
-                <Card className="hover:shadow-md transition-shadow">
+                <Card
+                  data-search-id={doc.id}
+                  className={cn("hover:shadow-md transition-shadow", isHighlighted(doc.id) && "ring-2 ring-primary")}
+                >
                   <CardContent className="flex items-center gap-4 py-4">
                     <div className={cn("p-3 rounded-xl", config.color)}>
                       <Icon className="h-5 w-5" />
@@ -11,7 +11,9 @@ import {
   Save,
   CheckCircle2,
   Loader2,
-  AlertCircle
+  AlertCircle,
+  CloudOff,
+  RefreshCw
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -20,14 +22,17 @@ import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { PhotoCapture } from "@/components/driver/PhotoCapture";
+import { BarcodeScanButton } from "@/components/scanner/BarcodeScanner";
 import { SignatureCapture } from "@/components/driver/SignatureCapture";
 import { toast } from "sonner";
-import { useJob, useUpdateJobEvidence, useUpdateJobStatus, useUpdateJobJourneyFields } from "@/hooks/useJobs";
+import { useJob } from "@/hooks/useJobs";
+import { useOfflineJobActions } from "@/hooks/useOfflineJobActions";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import type { WorkflowStatus } from "@/types/jobs";
 import { useAuth } from "@/contexts/AuthContext";
 import { useDriver } from "@/hooks/useDrivers";
 import { canDriverEditJob, isDriverFinalStatus } from "@/utils/job-helpers";
+import { DRIVER_EVIDENCE_STATUSES, getNextDriverJobStatus } from "@/lib/booking-state-machine";
 
 const DriverJobView = () => {
   const { id } = useParams();
@@ -37,10 +42,10 @@ const DriverJobView = () => {
   const { data: driverProfile, isLoading: isLoadingDriverProfile } = useDriver(
     isDriver ? user?.id || null : null
   );
-  const { data: job, isLoading, refetch: refetchJob } = useJob(id);
-  const updateEvidence = useUpdateJobEvidence();
-  const updateStatus = useUpdateJobStatus();
-  const updateJourneyFields = useUpdateJobJourneyFields();
+  const { data: serverJob, isLoading, refetch: refetchJob } = useJob(id);
+  // Wraps status/evidence/journey updates so they queue to the outbox when offline
+  const offlineActions = useOfflineJobActions(serverJob);
+  const job = offlineActions.job;
 
   const [photos, setPhotos] = useState<string[]>([]);
   const [signature, setSignature] = useState<string | null>(null);
@@ -173,40 +178,10 @@ const DriverJobView = () => {
     previousStatusRef.current = job.status;
   }, [job?.id, job?.status]);
 
-  // Helper function to get next status based on booking type
-  const getNextStatusForType = (
-    currentStatus: WorkflowStatus,
-    bookingType?: 'itad_collection' | 'jml',
-    jmlSubType?: 'new_starter' | 'leaver' | 'breakfix' | 'mover'
-  ): WorkflowStatus | null => {
-    // ITAD workflow
-    if (!bookingType || bookingType === 'itad_collection') {
-      // ITAD: booked → routed → en-route → arrived → collected → warehouse (driver final status)
-      // Admin handles: warehouse → sanitised → graded → completed
-      const itadTransitions: Record<string, WorkflowStatus> = {
-        'routed': 'en-route',
-        'en-route': 'arrived',
-        'arrived': 'collected',
-        'collected': 'warehouse', // Driver final status
-        // 'warehouse' has no next status for driver - admin moves to sanitised → graded → completed
-      };
-      return itadTransitions[currentStatus] || null;
-    }
-    
-    // JML workflows
-    // Drivers only handle ITAD collection jobs (JML jobs are handled by couriers)
-    // JML workflows removed - drivers don't see JML jobs
-    if (bookingType === 'jml') {
-      // JML jobs are not accessible to drivers
-      return null;
-    }
-    
-    return null;
-  };
-
   const nextStatus = useMemo((): WorkflowStatus | null => {
     if (!job) return null;
-    return getNextStatusForType(job.status, job.bookingType, job.jmlSubType);
+    // Drivers only progress ITAD collection jobs; JML jobs are courier-based
+    return getNextDriverJobStatus(job);
   }, [job?.status, job?.bookingType, job?.jmlSubType]);
 
   // Normalize status for comparison (handle both en-route and en_route)
@@ -216,9 +191,7 @@ const DriverJobView = () => {
   };
 
   // Statuses that require evidence submission (these are the statuses FOR which evidence is submitted)
-  // Drivers only handle ITAD collection jobs
-  // Includes: en-route, arrived, collected, warehouse
-  const statusesRequiringEvidence: WorkflowStatus[] = ['en-route', 'arrived', 'collected', 'warehouse'];
+  const statusesRequiringEvidence = DRIVER_EVIDENCE_STATUSES;
   
   // Evidence is ALWAYS submitted for the NEXT status (not current)
   // Pattern: Driver in status X submits evidence for status Y (next status) → job moves to status Y
@@ -368,6 +341,10 @@ const DriverJobView = () => {
     }
   };
 
+  const handleScanSealNumber = (sealNumber: string) => {
+    setSealNumbers((current) => (current.includes(sealNumber) ? current : [...current, sealNumber]));
+  };
+
   const handleRemoveSealNumber = (index: number) => {
     setSealNumbers(sealNumbers.filter((_, i) => i !== index));
   };
@@ -408,89 +385,87 @@ const DriverJobView = () => {
       return;
     }
 
-    updateEvidence.mutate(
-      {
-        jobId: id,
-        evidence: {
-          photos,
-          signature: signature || undefined,
-          sealNumbers,
-          notes: notes || undefined,
-          status: evidenceTargetStatus, // Submit evidence for target status (current or next depending on workflow)
-        },
-      },
-      {
-        onSuccess: () => {
-          // After evidence is saved, update the job status
-          updateStatus.mutate(
-            { jobId: id, status: nextStatus },
-            {
-              onSuccess: () => {
-                toast.success("Evidence saved and job status updated!", {
-                  description: `Job status changed to ${nextStatus}.`,
-                });
-                // If this is the driver's final status, redirect to job history
-                // Otherwise, redirect to schedule
-                if (job && isDriverFinalStatus(job, nextStatus)) {
-                  navigate('/jobs/history');
-                } else {
-                  navigate('/driver/schedule');
-                }
-              },
-              onError: (error) => {
-                toast.error("Evidence saved but failed to update job status", {
-                  description: error instanceof Error ? error.message : "Please try again.",
-                });
-                // Still refetch to get updated evidence
-                refetchJob();
-              },
-            }
-          );
-        },
-        onError: (error) => {
-          // Check if error is about existing evidence
-          const errorMessage = error instanceof Error ? error.message : "Please try again.";
-          if (errorMessage.includes("already been submitted")) {
-            toast.error("Evidence already exists", {
-              description: "Evidence for this status already exists. The page will refresh to show the current state.",
-            });
-            refetchJob();
-          } else {
-            toast.error("Failed to save evidence", {
-              description: errorMessage,
-            });
-          }
-        },
+    let evidenceQueued = false;
+    try {
+      const result = await offlineActions.submitEvidence({
+        photos,
+        signature: signature || undefined,
+        sealNumbers,
+        notes: notes || undefined,
+        status: evidenceTargetStatus, // Submit evidence for target status (current or next depending on workflow)
+      });
+      evidenceQueued = result.queued;
+    } catch (error) {
+      // Check if error is about existing evidence
+      const errorMessage = error instanceof Error ? error.message : "Please try again.";
+      if (errorMessage.includes("already been submitted")) {
+        toast.error("Evidence already exists", {
+          description: "Evidence for this status already exists. The page will refresh to show the current state.",
+        });
+        refetchJob();
+      } else {
+        toast.error("Failed to save evidence", {
+          description: errorMessage,
+        });
       }
-    );
+      return;
+    }
+
+    // After evidence is saved (or queued), update the job status
+    try {
+      const result = await offlineActions.submitStatus(nextStatus, { queue: evidenceQueued });
+      if (result.queued) {
+        toast.success("Saved offline", {
+          description: `Evidence and the move to ${nextStatus} will sync automatically when you're back online.`,
+        });
+      } else {
+        toast.success("Evidence saved and job status updated!", {
+          description: `Job status changed to ${nextStatus}.`,
+        });
+      }
+      // If this is the driver's final status, redirect to job history
+      // Otherwise, redirect to schedule
+      if (job && isDriverFinalStatus(job, nextStatus)) {
+        navigate('/jobs/history');
+      } else {
+        navigate('/driver/schedule');
+      }
+    } catch (error) {
+      toast.error("Evidence saved but failed to update job status", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+      // Still refetch to get updated evidence
+      refetchJob();
+    }
   };
 
   const handleStatusUpdate = async (newStatus: WorkflowStatus) => {
     if (!id) return;
 
-    updateStatus.mutate(
-      { jobId: id, status: newStatus },
-      {
-        onSuccess: () => {
-          toast.success("Job status updated successfully!", {
-            description: `Job status changed to ${newStatus}.`,
-          });
-          // Clear form when status updates (to allow evidence for new status)
-          setPhotos([]);
-          setSignature(null);
-          setSealNumbers([]);
-          setNotes("");
-          setNewSealNumber("");
-          // Refetch job data to update the UI immediately
-          refetchJob();
-        },
-        onError: (error) => {
-          toast.error("Failed to update job status", {
-            description: error instanceof Error ? error.message : "Please try again.",
-          });
-        },
+    try {
+      const result = await offlineActions.submitStatus(newStatus);
+      if (result.queued) {
+        toast.success("Saved offline", {
+          description: `The move to ${newStatus} will sync automatically when you're back online.`,
+        });
+      } else {
+        toast.success("Job status updated successfully!", {
+          description: `Job status changed to ${newStatus}.`,
+        });
       }
-    );
+      // Clear form when status updates (to allow evidence for new status)
+      setPhotos([]);
+      setSignature(null);
+      setSealNumbers([]);
+      setNotes("");
+      setNewSealNumber("");
+      // Refetch job data to update the UI immediately
+      refetchJob();
+    } catch (error) {
+      toast.error("Failed to update job status", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    }
   };
 
   return (
@@ -516,6 +491,55 @@ const DriverJobView = () => {
       </div>
 
       <div className="space-y-4 sm:space-y-6 p-3 sm:p-4 max-w-2xl mx-auto">
+        {/* Offline / pending sync status */}
+        {offlineActions.conflict ? (
+          <Alert variant="destructive" className="p-3 sm:p-4">
+            <AlertCircle className="h-4 w-4 sm:h-5 sm:w-5 flex-shrink-0" />
+            <AlertDescription className="text-xs sm:text-sm space-y-3">
+              <p>
+                <strong>Offline changes could not be synced.</strong>{" "}
+                {offlineActions.conflict.lastError || "The job changed on the server while you were offline."}
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={async () => {
+                  await offlineActions.discardQueued();
+                  refetchJob();
+                  toast.info("Queued changes discarded", {
+                    description: "The job now shows the latest server state.",
+                  });
+                }}
+              >
+                Discard queued changes
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ) : (offlineActions.pendingCount > 0 || !offlineActions.isOnline) && (
+          <Alert className="bg-warning/10 border-warning/20 p-3 sm:p-4">
+            <CloudOff className="h-4 w-4 sm:h-5 sm:w-5 text-warning flex-shrink-0" />
+            <AlertDescription className="text-xs sm:text-sm flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <span>
+                {!offlineActions.isOnline && <strong>You're offline. </strong>}
+                {offlineActions.pendingCount > 0
+                  ? `${offlineActions.pendingCount} update${offlineActions.pendingCount === 1 ? "" : "s"} pending sync.`
+                  : "Changes will be saved on this device and synced when you're back online."}
+              </span>
+              {offlineActions.pendingCount > 0 && offlineActions.isOnline && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => offlineActions.syncNow()}
+                  disabled={offlineActions.isSyncing}
+                >
+                  <RefreshCw className={`h-4 w-4 mr-2 ${offlineActions.isSyncing ? "animate-spin" : ""}`} />
+                  Sync now
+                </Button>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Driver Journey Fields Form - Only show when status is routed */}
         {job.status === 'routed' && (
           <Card className="bg-primary/5 border-primary/20">
@@ -663,10 +687,7 @@ const DriverJobView = () => {
                       manualHandlingRequirements: manualHandlingRequirements.trim(),
                     };
 
-                    const updatedJob = await updateJourneyFields.mutateAsync({
-                      jobId: id,
-                      fields: savedFields,
-                    });
+                    const { queued, job: updatedJob } = await offlineActions.submitJourneyFields(savedFields);
 
                     // Explicitly preserve the saved values in the form fields
                     // Use the returned job data if available, otherwise use the values we just saved
@@ -691,7 +712,13 @@ const DriverJobView = () => {
                       manualHandlingRequirements: savedFields.manualHandlingRequirements,
                     };
 
-                    toast.success("Journey information saved successfully!");
+                    if (queued) {
+                      toast.success("Journey information saved offline", {
+                        description: "It will sync automatically when you're back online.",
+                      });
+                    } else {
+                      toast.success("Journey information saved successfully!");
+                    }
                     // Refetch to ensure job data is up to date, but fields are already preserved above
                     refetchJob();
                   } catch (error) {
@@ -700,11 +727,11 @@ const DriverJobView = () => {
                     });
                   }
                 }}
-                disabled={updateJourneyFields.isPending || !areJourneyFieldsValid || !hasJourneyFieldsChanged}
+                disabled={offlineActions.isSubmittingJourneyFields || !areJourneyFieldsValid || !hasJourneyFieldsChanged}
                 className="w-full text-sm sm:text-base"
                 size="lg"
               >
-                {updateJourneyFields.isPending ? (
+                {offlineActions.isSubmittingJourneyFields ? (
                   <>
                     <Loader2 className="animate-spin mr-2 h-4 w-4 sm:h-5 sm:w-5" />
                     <span>Saving...</span>
@@ -927,6 +954,13 @@ const DriverJobView = () => {
                   >
                     Add
                   </Button>
+                  <BarcodeScanButton
+                    title="Scan Seal Numbers"
+                    description="Scan the barcode on each seal"
+                    continuous
+                    validate={(value) => (sealNumbers.includes(value) ? `Seal ${value} is already added` : null)}
+                    onScan={handleScanSealNumber}
+                  />
                 </div>
                 {sealNumbers.length > 0 && (
                   <div className="flex flex-wrap gap-2">
@@ -994,20 +1028,20 @@ const DriverJobView = () => {
               onClick={handleSaveAndUpdateStatus}
               disabled={
                 !canSave || 
-                updateEvidence.isPending || 
-                updateStatus.isPending
+                offlineActions.isSubmittingEvidence || 
+                offlineActions.isSubmittingStatus
               }
               className="w-full text-sm sm:text-base"
               size="lg"
             >
-              {updateEvidence.isPending || updateStatus.isPending ? (
+              {offlineActions.isSubmittingEvidence || offlineActions.isSubmittingStatus ? (
                 <>
                   <Loader2 className="animate-spin mr-2 h-4 w-4 sm:h-5 sm:w-5" />
                   <span className="hidden sm:inline">
-                  {updateEvidence.isPending ? "Saving Evidence..." : "Updating Status..."}
+                  {offlineActions.isSubmittingEvidence ? "Saving Evidence..." : "Updating Status..."}
                   </span>
                   <span className="sm:hidden">
-                    {updateEvidence.isPending ? "Saving..." : "Updating..."}
+                    {offlineActions.isSubmittingEvidence ? "Saving..." : "Updating..."}
                   </span>
                 </>
               ) : (
@@ -1049,11 +1083,11 @@ const DriverJobView = () => {
                 </div>
                 <Button
                   onClick={() => handleStatusUpdate(nextStatus)}
-                  disabled={updateStatus.isPending}
+                  disabled={offlineActions.isSubmittingStatus}
                   size="lg"
                   className="w-full sm:w-auto text-sm sm:text-base"
                 >
-                  {updateStatus.isPending ? (
+                  {offlineActions.isSubmittingStatus ? (
                     <>
                       <Loader2 className="animate-spin h-4 w-4 sm:h-5 sm:w-5" />
                       <span className="ml-2">Updating...</span>
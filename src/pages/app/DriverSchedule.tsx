@@ -9,23 +9,59 @@ import {
   Loader2, 
   Navigation,
   Route as RouteIcon,
-  ArrowRight
+  ArrowRight,
+  CloudOff,
+  Leaf,
+  Save
 } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { JobStatusBadge } from "@/components/jobs/JobStatusBadge";
 import { BookingTypeBadge } from "@/components/bookings/BookingTypeBadge";
 import { useJobs } from "@/hooks/useJobs";
+import { useRoutePlans, useSaveRoutePlan } from "@/hooks/useRoutePlan";
+import { useWarehouses } from "@/hooks/useWarehouses";
+import { MapPicker } from "@/components/booking/MapPicker";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useAuth } from "@/contexts/AuthContext";
+import { useOfflineSync } from "@/contexts/OfflineSyncContext";
+import { applyOutboxEntries } from "@/lib/offline-outbox";
 import { cn } from "@/lib/utils";
-import { kmToMiles } from "@/lib/calculations";
-import { canDriverEditJob } from "@/utils/job-helpers";
+import { calculateTravelEmissions, kmToMiles } from "@/lib/calculations";
+import { getWarehouseCoordinates } from "@/lib/warehouses";
+import type { RoutePlan, RouteStop } from "@/lib/route-optimisation";
+import { canDriverEditJob, getJobRouteStop } from "@/utils/job-helpers";
+import type { Job } from "@/types/jobs";
+
+// Average speed for travel time estimates (urban/rural mix)
+const AVERAGE_SPEED_KMH = 40;
+
+/**
+ * Order a day's jobs by the planned route; jobs without coordinates go last
+ */
+function orderJobsByRoute(jobs: Job[], plan?: RoutePlan): Job[] {
+  if (!plan) return jobs;
+  const sequence = new Map(plan.stops.map((stop, index) => [stop.id, index]));
+  return [...jobs].sort(
+    (a, b) => (sequence.get(a.id) ?? Number.MAX_SAFE_INTEGER) - (sequence.get(b.id) ?? Number.MAX_SAFE_INTEGER)
+  );
+}
 
 const DriverSchedule = () => {
   const { user } = useAuth();
-  const { data: allJobs = [], isLoading, error } = useJobs();
+  const { data: serverJobs = [], isLoading, error } = useJobs();
+  const { entries: outboxEntries } = useOfflineSync();
+  const saveRoutePlan = useSaveRoutePlan();
+  const { data: warehouses = [] } = useWarehouses();
+
+  // Reflect status changes captured offline that haven't synced yet
+  const allJobs = useMemo(
+    () => serverJobs.map(job => applyOutboxEntries(job, outboxEntries)!),
+    [serverJobs, outboxEntries]
+  );
 
   // Filter jobs for current driver (assigned to this driver, only show jobs driver can still work on)
   // Jobs at or beyond driver's final status should only appear in Job History
@@ -60,77 +96,104 @@ const DriverSchedule = () => {
     });
   }, [driverJobs]);
 
-  // Group jobs by date
-  const jobsByDate = useMemo(() => {
-    const grouped: Record<string, typeof upcomingJobs> = {};
+  // Group jobs by date - each day is planned as one route from the warehouse of its first job
+  const days = useMemo(() => {
+    const grouped: Record<string, { date: string; jobs: Job[] }> = {};
     upcomingJobs.forEach(job => {
-      const dateKey = new Date(job.scheduledDate).toLocaleDateString("en-GB", {
+      const scheduledDate = new Date(job.scheduledDate);
+      const dateKey = scheduledDate.toLocaleDateString("en-GB", {
         weekday: "long",
         day: "numeric",
         month: "long",
         year: "numeric",
       });
       if (!grouped[dateKey]) {
-        grouped[dateKey] = [];
+        grouped[dateKey] = { date: format(scheduledDate, "yyyy-MM-dd"), jobs: [] };
       }
-      grouped[dateKey].push(job);
+      grouped[dateKey].jobs.push(job);
     });
-    return grouped;
-  }, [upcomingJobs]);
+    return Object.entries(grouped).map(([dateKey, day]) => {
+      const warehouseId = day.jobs.find(job => job.warehouseId)?.warehouseId;
+      return {
+        dateKey,
+        ...day,
+        warehouse: warehouses.find(warehouse => warehouse.id === warehouseId) || null,
+        stops: day.jobs.map(getJobRouteStop).filter((stop): stop is RouteStop => stop !== null),
+      };
+    });
+  }, [upcomingJobs, warehouses]);
+
+  const routePlanQueries = useRoutePlans(
+    days.map(day => ({ stops: day.stops, depot: getWarehouseCoordinates(day.warehouse) }))
+  );
 
-  // Calculate route statistics based on actual distance data from bookings
+  // Calculate route statistics from the planned routes
   const routeStats = useMemo(() => {
     if (upcomingJobs.length === 0) return null;
 
     let totalDistanceKm = 0;
-    let jobsWithDistance = 0;
-
-    for (const job of upcomingJobs) {
-      // Use actual roundTripDistanceKm from booking if available
-      if (job.roundTripDistanceKm && job.roundTripDistanceKm > 0) {
-        // For multiple jobs, we can't simply sum roundTripDistanceKm because:
-        // - Each roundTripDistanceKm = warehouse → site → warehouse
-        // - Actual route = warehouse → job1 → job2 → ... → warehouse (much shorter)
-        // So we use a simplified estimate: sum of one-way distances + return to warehouse
-        // This is still an approximation but better than summing full round trips
-        const oneWayDistanceKm = job.roundTripDistanceKm / 2;
-        totalDistanceKm += oneWayDistanceKm;
-        jobsWithDistance++;
-      }
-      // Do not use travelEmissions / 0.24 as fallback - this is inaccurate
-      // If distance is not available, skip it (distance remains 0) to show error/warning
-    }
+    let totalTravelEmissions = 0;
+    let unplannedJobs = 0;
 
-    // Add return trip to warehouse (only if we have jobs with distance)
-    if (jobsWithDistance > 0) {
-      // Estimate return distance: use average one-way distance of jobs
-      const avgOneWayDistance = totalDistanceKm / jobsWithDistance;
-      totalDistanceKm += avgOneWayDistance; // Add return to warehouse
-    }
+    days.forEach((day, index) => {
+      const plan = routePlanQueries[index]?.data;
+      const plannedIds = new Set(plan?.stops.map(stop => stop.id));
+      let dayDistanceKm = plan?.totalDistanceKm ?? 0;
 
-    // Estimate total time: sum travel time of each job
-    // - Travel time at ~40 km/h average speed (urban/rural mix)
-    // - Calculate travel time for each job's roundTripDistanceKm and sum them
-    const averageSpeedKmh = 40;
-    let totalTravelTimeMinutes = 0;
-
-    for (const job of upcomingJobs) {
-      if (job.roundTripDistanceKm && job.roundTripDistanceKm > 0) {
-        // Calculate travel time for this job's round trip distance
-        const jobTravelTimeMinutes = (job.roundTripDistanceKm / averageSpeedKmh) * 60;
-        totalTravelTimeMinutes += jobTravelTimeMinutes;
+      // Jobs without coordinates can't join the route - count them as their own round trip
+      for (const job of day.jobs) {
+        if (plannedIds.has(job.id)) continue;
+        if (job.roundTripDistanceKm && job.roundTripDistanceKm > 0) {
+          dayDistanceKm += job.roundTripDistanceKm;
+        } else {
+          unplannedJobs++;
+        }
       }
-    }
 
-    const estimatedTimeMinutes = Math.round(totalTravelTimeMinutes);
+      totalDistanceKm += dayDistanceKm;
+      totalTravelEmissions += calculateTravelEmissions(dayDistanceKm, day.jobs[0]?.driver);
+    });
 
     return {
       totalJobs: upcomingJobs.length,
       totalDistanceKm,
       totalDistanceMiles: kmToMiles(totalDistanceKm),
-      estimatedTimeMinutes,
+      estimatedTimeMinutes: Math.round((totalDistanceKm / AVERAGE_SPEED_KMH) * 60),
+      totalTravelEmissions,
+      unplannedJobs,
+      isPlanning: routePlanQueries.some(query => query.isLoading),
+      isEstimate: routePlanQueries.some(query => query.data?.isEstimate),
     };
-  }, [upcomingJobs]);
+  }, [upcomingJobs, days, routePlanQueries]);
+
+  const handleSaveRoute = (date: string, plan: RoutePlan) => {
+    if (!user) return;
+    saveRoutePlan.mutate(
+      {
+        driverId: user.id,
+        date,
+        totalDistanceKm: plan.totalDistanceKm,
+        isEstimate: plan.isEstimate,
+        stops: plan.stops.map((stop, index) => ({
+          jobId: stop.id,
+          sequence: index + 1,
+          distanceKm: plan.allocatedDistanceKm[stop.id] ?? 0,
+        })),
+      },
+      {
+        onSuccess: () => {
+          toast.success("Route saved", {
+            description: `${plan.stops.length} stops sequenced, ${plan.totalDistanceKm.toFixed(1)} km in total.`,
+          });
+        },
+        onError: (error) => {
+          toast.error("Failed to save route", {
+            description: error instanceof Error ? error.message : "Please try again.",
+          });
+        },
+      }
+    );
+  };
 
   if (error) {
     return (
@@ -162,7 +225,7 @@ const DriverSchedule = () => {
           initial={{ opacity: 0, y: -10 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.1 }}
-          className="grid gap-4 sm:grid-cols-3"
+          className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4"
         >
           <Card>
             <CardContent className="pt-6">
@@ -180,7 +243,9 @@ const DriverSchedule = () => {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm text-muted-foreground">Total Distance</p>
-                  {routeStats.totalDistanceKm > 0 ? (
+                  {routeStats.isPlanning ? (
+                    <Loader2 className="h-6 w-6 mt-1 animate-spin text-muted-foreground" />
+                  ) : routeStats.totalDistanceKm > 0 ? (
                     <>
                       <p className="text-2xl font-bold">
                         {routeStats.totalDistanceMiles.toFixed(1)} miles
@@ -188,6 +253,11 @@ const DriverSchedule = () => {
                       <p className="text-xs text-muted-foreground mt-1">
                         ({routeStats.totalDistanceKm.toFixed(1)} km)
                       </p>
+                      {routeStats.unplannedJobs > 0 && (
+                        <p className="text-xs text-warning mt-0.5">
+                          ⚠️ {routeStats.unplannedJobs} {routeStats.unplannedJobs === 1 ? 'job' : 'jobs'} without location data
+                        </p>
+                      )}
                     </>
                   ) : (
                     <>
@@ -207,7 +277,9 @@ const DriverSchedule = () => {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm text-muted-foreground">Estimated Time</p>
-                  {routeStats.totalDistanceKm > 0 ? (
+                  {routeStats.isPlanning ? (
+                    <Loader2 className="h-6 w-6 mt-1 animate-spin text-muted-foreground" />
+                  ) : routeStats.totalDistanceKm > 0 ? (
                     <>
                       <p className="text-2xl font-bold">
                         {Math.floor(routeStats.estimatedTimeMinutes / 60)}h{" "}
@@ -216,9 +288,9 @@ const DriverSchedule = () => {
                       <p className="text-xs text-muted-foreground mt-1">
                         Travel time only
                       </p>
-                      {upcomingJobs.length > 1 && (
+                      {routeStats.isEstimate && (
                         <p className="text-xs text-warning mt-0.5">
-                          ⚠️ Estimate only (route optimization not included)
+                          ⚠️ Based on estimated road distances
                         </p>
                       )}
                     </>
@@ -235,6 +307,28 @@ const DriverSchedule = () => {
               </div>
             </CardContent>
           </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">Travel Emissions</p>
+                  {routeStats.isPlanning ? (
+                    <Loader2 className="h-6 w-6 mt-1 animate-spin text-muted-foreground" />
+                  ) : (
+                    <>
+                      <p className="text-2xl font-bold">
+                        {routeStats.totalTravelEmissions.toFixed(1)} kg
+                      </p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        CO₂e for the planned routes
+                      </p>
+                    </>
+                  )}
+                </div>
+                <Leaf className="h-8 w-8 text-success/50" />
+              </div>
+            </CardContent>
+          </Card>
         </motion.div>
       )}
 
@@ -267,18 +361,59 @@ const DriverSchedule = () => {
         </div>
       ) : (
         <div className="space-y-6">
-          {Object.entries(jobsByDate).map(([dateKey, jobs]) => (
+          {days.map((day, dayIndex) => {
+            const { data: plan, isLoading: isPlanning } = routePlanQueries[dayIndex] ?? {};
+            const jobs = orderJobsByRoute(day.jobs, plan);
+            const isRouteSaved = !!plan && plan.stops.every((stop, index) =>
+              day.jobs.find(job => job.id === stop.id)?.routeSequence === index + 1
+            );
+
+            return (
             <motion.div
-              key={dateKey}
+              key={day.dateKey}
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               className="space-y-4"
             >
-              <div className="flex items-center gap-3">
+              <div className="flex flex-wrap items-center gap-3">
                 <Calendar className="h-5 w-5 text-primary" />
-                <h3 className="text-lg font-semibold">{dateKey}</h3>
+                <h3 className="text-lg font-semibold">{day.dateKey}</h3>
                 <Badge variant="secondary">{jobs.length} {jobs.length === 1 ? 'job' : 'jobs'}</Badge>
+                {isPlanning && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                {plan && plan.stops.length > 0 && (
+                  <>
+                    <Badge variant="outline">
+                      <RouteIcon className="h-3 w-3 mr-1" />
+                      {plan.totalDistanceKm.toFixed(1)} km
+                    </Badge>
+                    <Button
+                      size="sm"
+                      variant={isRouteSaved ? "outline" : "default"}
+                      className="ml-auto"
+                      onClick={() => handleSaveRoute(day.date, plan)}
+                      disabled={saveRoutePlan.isPending || isRouteSaved}
+                    >
+                      {saveRoutePlan.isPending && saveRoutePlan.variables?.date === day.date ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Save className="h-4 w-4 mr-2" />
+                      )}
+                      {isRouteSaved ? "Route Saved" : "Save Route"}
+                    </Button>
+                  </>
+                )}
               </div>
+              {plan && plan.stops.length > 1 && (
+                <div className="space-y-2">
+                  <MapPicker position={null} route={plan} readOnly height="280px" />
+                  <p className="text-xs text-muted-foreground">
+                    Stops in optimised order, starting and finishing at {day.warehouse?.name || "the warehouse"}
+                    {plan.isEstimate && " (approximate road distances)"}
+                    {plan.stops.length < day.jobs.length &&
+                      `. ${day.jobs.length - plan.stops.length} job(s) without location data are listed last.`}
+                  </p>
+                </div>
+              )}
               <div className="space-y-3">
                 {jobs.map((job, index) => (
                   <motion.div
@@ -347,6 +482,12 @@ const DriverSchedule = () => {
 
                         {/* Action */}
                         <div className="flex items-center gap-3">
+                          {outboxEntries.some(entry => entry.jobId === job.id) && (
+                            <Badge variant="outline" className="bg-warning/10 text-warning border-warning/20">
+                              <CloudOff className="h-3 w-3 mr-1" />
+                              Pending sync
+                            </Badge>
+                          )}
                           {job.status === 'booked' && (
                             <Badge variant="outline" className="bg-warning/10 text-warning border-warning/20">
                               Start Job
@@ -365,26 +506,11 @@ const DriverSchedule = () => {
                 ))}
               </div>
             </motion.div>
-          ))}
+            );
+          })}
         </div>
       )}
 
-      {/* Route Optimization Note */}
-      {upcomingJobs.length > 1 && (
-        <Card className="bg-info/5 border-info/20">
-          <CardContent className="pt-6">
-            <div className="flex items-start gap-3">
-              <Navigation className="h-5 w-5 text-info mt-0.5" />
-              <div>
-                <p className="font-medium mb-1">Route Optimization</p>
-                <p className="text-sm text-muted-foreground">
-                  Jobs are displayed in chronological order. For optimal routing, consider starting with the earliest scheduled job and planning your route based on geographic proximity.
-                </p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      )}
     </div>
   );
 };
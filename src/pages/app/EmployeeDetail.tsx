@@ -0,0 +1,268 @@
+import { motion } from "framer-motion";
+import { Link, useParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import {
+  AlertTriangle,
+  ArrowDownLeft,
+  ArrowLeft,
+  ArrowRight,
+  ArrowUpRight,
+  History,
+  Loader2,
+  Mail,
+  Package,
+  Phone,
+  UserMinus,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { EmployeeStatusBadge } from "@/components/bookings/EmployeeLedger";
+import { useAuth } from "@/contexts/AuthContext";
+import { useEmployee } from "@/hooks/useEmployees";
+import { employeeMismatchConfig } from "@/lib/employee-ledger";
+import { getStatusLabelExtended, type BookingLifecycleStatus } from "@/types/booking-lifecycle";
+
+const subTypeLabels: Record<string, string> = {
+  new_starter: "New Starter",
+  leaver: "Leaver",
+  breakfix: "Breakfix",
+  mover: "Mover",
+};
+
+const formatDay = (value: string) => format(parseISO(value), "d MMM yyyy");
+
+const deviceName = (device: { make?: string | null; model?: string | null; category?: string | null }) =>
+  [device.make, device.model].filter(Boolean).join(" ") || device.category || "Device";
+
+const EmployeeDetail = () => {
+  const { id } = useParams();
+  const { hasPermission } = useAuth();
+  const { data: employee, isLoading, error } = useEmployee(id);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !employee) {
+    return (
+      <div className="space-y-6">
+        <Alert variant="destructive">
+          <AlertDescription>Employee not found</AlertDescription>
+        </Alert>
+        <Button asChild>
+          <Link to="/employees" className="text-inherit no-underline">Back to Employees</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const canBook = hasPermission("bookings.create") && employee.status === "active";
+
+  return (
+    <div className="space-y-6 max-w-5xl mx-auto">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col gap-4 sm:flex-row sm:items-center"
+      >
+        <div className="flex flex-1 items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/employees" className="text-inherit no-underline">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <div className="min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <h2 className="text-2xl font-bold text-foreground">{employee.name}</h2>
+              <EmployeeStatusBadge status={employee.status} />
+            </div>
+            <p className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+              <span>{employee.clientName}</span>
+              {employee.email && (
+                <span className="flex items-center gap-1">
+                  <Mail className="h-3.5 w-3.5" />
+                  {employee.email}
+                </span>
+              )}
+              {employee.phone && (
+                <span className="flex items-center gap-1">
+                  <Phone className="h-3.5 w-3.5" />
+                  {employee.phone}
+                </span>
+              )}
+            </p>
+          </div>
+        </div>
+        {canBook && (
+          <Button variant="outline" asChild>
+            <Link to={`/bookings/jml/leaver?employee=${employee.id}`} className="text-inherit no-underline">
+              <UserMinus className="h-4 w-4 mr-2" />
+              Book Leaver
+            </Link>
+          </Button>
+        )}
+      </motion.div>
+
+      {/* Mismatched collections */}
+      {employee.mismatches.length > 0 && (
+        <Card className="border-destructive/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              Collection Mismatches
+            </CardTitle>
+            <CardDescription>Serials collected that don't match what {employee.name} was issued</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {employee.mismatches.map((mismatch) => (
+              <div
+                key={mismatch.id}
+                className="flex flex-col gap-2 rounded-lg border p-3 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-mono text-sm">{mismatch.serialNumber}</span>
+                    <Badge variant="secondary" className="bg-destructive/10 text-destructive">
+                      {employeeMismatchConfig[mismatch.kind].label}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {deviceName(mismatch)} · {employeeMismatchConfig[mismatch.kind].description}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" asChild>
+                  <Link to={`/bookings/${mismatch.bookingId}`}>
+                    {mismatch.bookingNumber}
+                    <ArrowRight className="h-4 w-4 ml-1" />
+                  </Link>
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          {/* Current holdings */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Package className="h-5 w-5" />
+                Current Holdings
+              </CardTitle>
+              <CardDescription>Devices issued from inventory that haven't been collected back</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {employee.holdings.length === 0 ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">No devices held</p>
+              ) : (
+                <div className="space-y-2">
+                  {employee.holdings.map((device) => (
+                    <div
+                      key={device.serialNumber}
+                      className="flex flex-col gap-2 rounded-lg border p-3 sm:flex-row sm:items-center sm:justify-between"
+                    >
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium">{deviceName(device)}</span>
+                          {!device.delivered && <Badge variant="outline">Not yet delivered</Badge>}
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          <span className="font-mono">{device.serialNumber}</span>
+                          {device.category && ` · ${device.category}`} · issued {formatDay(device.issuedAt)}
+                        </p>
+                      </div>
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link to={`/bookings/${device.bookingId}`}>
+                          {device.bookingNumber}
+                          <ArrowRight className="h-4 w-4 ml-1" />
+                        </Link>
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Device history */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <History className="h-5 w-5" />
+                Device History
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {employee.history.length === 0 ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  Nothing issued or collected yet
+                </p>
+              ) : (
+                <ul className="space-y-3">
+                  {employee.history.map((event) => (
+                    <li key={event.id} className="flex items-start gap-3 text-sm">
+                      {event.type === "issued" ? (
+                        <ArrowUpRight className="mt-0.5 h-4 w-4 shrink-0 text-primary" />
+                      ) : (
+                        <ArrowDownLeft className="mt-0.5 h-4 w-4 shrink-0 text-success" />
+                      )}
+                      <div className="min-w-0 flex-1">
+                        <p>
+                          {event.type === "issued" ? "Issued" : "Collected"} {deviceName(event)}{" "}
+                          <span className="font-mono text-muted-foreground">{event.serialNumber}</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDay(event.occurredAt)} ·{" "}
+                          <Link to={`/bookings/${event.bookingId}`} className="hover:underline">
+                            {event.bookingNumber}
+                          </Link>{" "}
+                          ({subTypeLabels[event.jmlSubType] || event.jmlSubType})
+                        </p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* JML bookings */}
+        <Card className="h-fit">
+          <CardHeader>
+            <CardTitle className="text-base">Bookings</CardTitle>
+            <CardDescription>Every JML booking for {employee.name}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {employee.bookings.map((booking) => (
+              <Link
+                key={booking.bookingId}
+                to={`/bookings/${booking.bookingId}`}
+                className="block rounded-lg border p-3 text-inherit no-underline transition-colors hover:bg-muted/50"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{booking.bookingNumber}</span>
+                  <Badge variant="outline">{subTypeLabels[booking.jmlSubType] || booking.jmlSubType}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {getStatusLabelExtended(booking.status as BookingLifecycleStatus)} · {formatDay(booking.scheduledDate)}
+                </p>
+              </Link>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default EmployeeDetail;
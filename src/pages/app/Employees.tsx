@@ -0,0 +1,186 @@
+import { useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { Link } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, Contact, Loader2, Package, Search, Users } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { EmployeeStatusBadge } from "@/components/bookings/EmployeeLedger";
+import { useAuth } from "@/contexts/AuthContext";
+import { useClients } from "@/hooks/useClients";
+import { useEmployees } from "@/hooks/useEmployees";
+import { cn } from "@/lib/utils";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const Employees = () => {
+  const { user } = useAuth();
+  const [clientFilter, setClientFilter] = useState("all");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [search, setSearch] = useState("");
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const { data: clients = [] } = useClients();
+  const { data: employees = [], isLoading, error } = useEmployees({
+    clientId: clientFilter === "all" ? undefined : clientFilter,
+    search: search || undefined,
+  });
+
+  const totals = useMemo(
+    () => ({
+      employees: employees.length,
+      devices: employees.reduce((sum, employee) => sum + employee.holdings.length, 0),
+      mismatches: employees.filter((employee) => employee.mismatchCount > 0).length,
+    }),
+    [employees]
+  );
+
+  const stats = [
+    { label: "Employees", value: totals.employees, icon: Users, className: "text-primary/50" },
+    { label: "Devices Held", value: totals.devices, icon: Package, className: "text-success/50" },
+    { label: "With Mismatches", value: totals.mismatches, icon: AlertTriangle, className: "text-destructive/50" },
+  ];
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        <Alert variant="destructive">
+          <AlertDescription>Failed to load employees. Please try refreshing the page.</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between"
+      >
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Employees</h2>
+          <p className="text-muted-foreground">
+            Everyone with a JML booking, and the devices they hold
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search name or email..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-[240px] pl-9"
+            />
+          </div>
+          {(user?.role === "admin" || user?.role === "reseller") && (
+            <Select value={clientFilter} onValueChange={setClientFilter}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Client" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Clients</SelectItem>
+                {clients.map((client) => (
+                  <SelectItem key={client.id} value={client.id}>
+                    {client.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </motion.div>
+
+      {/* Totals */}
+      <motion.div
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="grid gap-4 sm:grid-cols-3"
+      >
+        {stats.map(({ label, value, icon: Icon, className }) => (
+          <Card key={label}>
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">{label}</p>
+                  <p className="text-2xl font-bold">{isLoading ? "-" : value}</p>
+                </div>
+                <Icon className={cn("h-8 w-8", className)} />
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </motion.div>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : employees.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-center text-muted-foreground">
+              <Contact className="h-8 w-8" />
+              <p className="text-sm">
+                {search ? "No employees match your search" : "Employees appear here once they have a JML booking"}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  {user?.role !== "client" && <TableHead>Client</TableHead>}
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Devices Held</TableHead>
+                  <TableHead className="text-right">Bookings</TableHead>
+                  <TableHead>Last Activity</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {employees.map((employee) => (
+                  <TableRow key={employee.id}>
+                    <TableCell>
+                      <Link to={`/employees/${employee.id}`} className="font-medium hover:underline">
+                        {employee.name}
+                      </Link>
+                      {employee.email && <p className="text-xs text-muted-foreground">{employee.email}</p>}
+                    </TableCell>
+                    {user?.role !== "client" && <TableCell>{employee.clientName}</TableCell>}
+                    <TableCell>
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        <EmployeeStatusBadge status={employee.status} />
+                        {employee.mismatchCount > 0 && (
+                          <Badge variant="secondary" className="bg-destructive/10 text-destructive">
+                            {employee.mismatchCount} {employee.mismatchCount === 1 ? "mismatch" : "mismatches"}
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{employee.holdings.length}</TableCell>
+                    <TableCell className="text-right">{employee.bookingCount}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {format(parseISO(employee.lastActivityAt), "d MMM yyyy")}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Employees;
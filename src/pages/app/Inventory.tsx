@@ -12,9 +12,11 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { useInventory, useUploadInventory, useSyncInventory } from "@/hooks/useInventory";
 import { useAssetCategories } from "@/hooks/useAssets";
 import { useClients } from "@/hooks/useClients";
+import { useSearchDeepLink } from "@/hooks/useSearchDeepLink";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
 import { InventoryItem } from "@/services/inventory.service";
+import { cn } from "@/lib/utils";
 
 const Inventory = () => {
   const { user } = useAuth();
@@ -47,6 +49,7 @@ const Inventory = () => {
   const [showAddDevice, setShowAddDevice] = useState(false);
   const [pageSize, setPageSize] = useState<10 | 20 | 50>(20);
   const [page, setPage] = useState(1);
+  const { isHighlighted } = useSearchDeepLink({ onSearch: setSearchTerm, isReady: !isLoading });
   
   // Manual Add form state
   const [manualForm, setManualForm] = useState({
@@ -65,7 +68,8 @@ const Inventory = () => {
       const matchesSearch = 
         item.make.toLowerCase().includes(searchTerm.toLowerCase()) ||
         item.model.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        item.serialNumber.toLowerCase().includes(searchTerm.toLowerCase());
+        item.serialNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        (item.imei && item.imei.toLowerCase().includes(searchTerm.toLowerCase()));
       
       const matchesDeviceType = deviceTypeFilter === "all" || item.category === deviceTypeFilter;
       const matchesStatus = statusFilter === "all" || item.status === statusFilter;
@@ -642,7 +646,11 @@ const Inventory = () => {
               </TableHeader>
               <TableBody>
                 {(isAdmin ? paginatedInventory : filteredInventory).map((item) => (
-                  <TableRow key={item.id}>
+                  <TableRow
+                    key={item.id}
+                    data-search-id={item.id}
+                    className={cn(isHighlighted(item.id) && "bg-primary/5 ring-2 ring-inset ring-primary")}
+                  >
                     <TableCell>{getCategory(item.category)}</TableCell>
                     <TableCell>{item.make}</TableCell>
                     <TableCell>{item.model}</TableCell>
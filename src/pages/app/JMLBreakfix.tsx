@@ -24,6 +24,8 @@ import { validateEuropeanPostcode } from "@/lib/european-validation";
 import { MapPicker } from "@/components/booking/MapPicker";
 import { cn } from "@/lib/utils";
 import { filterJmlAssetCategories, getDeviceTypeOptionsForJmlCategory, inferDeviceTypeFromJmlCategory, isAccessoriesCategory, shouldShowDeviceTypeForJmlCategory, type JmlDeviceType } from "@/lib/jml-assets";
+import { EmployeeField } from "@/components/bookings/EmployeeLedger";
+import type { Employee } from "@/types/employees";
 
 interface BrokenDevice {
   make: string;
@@ -71,6 +73,8 @@ const JMLBreakfix = () => {
   );
   const createSite = useCreateSite();
 
+  const [employeeName, setEmployeeName] = useState("");
+  const [employee, setEmployee] = useState<Employee | null>(null);
   const [email, setEmail] = useState("");
   const [phone, setPhone] = useState("");
   const [siteLocation, setSiteLocation] = useState<{ lat: number; lng: number } | null>(null);
@@ -109,6 +113,15 @@ const JMLBreakfix = () => {
     }
   }, [selectedClientId, isAdmin, isReseller]);
 
+  // Picking an existing employee fills in their contact details
+  const selectEmployee = (selected: Employee | null) => {
+    setEmployee(selected);
+    if (!selected) return;
+    setEmployeeName(selected.name);
+    if (selected.email) setEmail(selected.email);
+    if (selected.phone) setPhone(selected.phone);
+  };
+
   // Default email/phone for step 1 (does not override user edits)
   useEffect(() => {
     if (isClient && clientProfile) {
@@ -455,7 +468,7 @@ const JMLBreakfix = () => {
         clientId = selectedClientId;
         const selectedClient = clients.find((c) => c.id === selectedClientId);
         clientName = selectedClient?.organisationName || selectedClient?.name || "Client";
-        resolvedEmployeeName = clientName;
+        resolvedEmployeeName = employeeName.trim() || clientName;
 
         // Save new site automatically when using a new address
         if (selectedSiteId === "new") {
@@ -503,6 +516,7 @@ const JMLBreakfix = () => {
               clientId,
               clientName,
               employeeName: resolvedEmployeeName,
+              employeeId: employee?.id,
               email,
               address: bookingAddress,
               postcode: bookingPostcode,
@@ -525,6 +539,7 @@ const JMLBreakfix = () => {
         }
       } else if (isClient) {
         resolvedEmployeeName =
+          employeeName.trim() ||
           clientProfile?.organisationName ||
           clientProfile?.name ||
           user?.tenantName ||
@@ -550,7 +565,7 @@ const JMLBreakfix = () => {
           }
         }
       } else {
-        resolvedEmployeeName = user?.name || "User";
+        resolvedEmployeeName = employeeName.trim() || user?.name || "User";
       }
 
       const filteredBroken = brokenDevices
@@ -572,6 +587,7 @@ const JMLBreakfix = () => {
         clientId,
         clientName,
         employeeName: resolvedEmployeeName,
+        employeeId: employee?.id,
         email,
         address: fullAddress,
         postcode: siteDetails.postcode,
@@ -714,7 +730,10 @@ const JMLBreakfix = () => {
                       ) : (
                         <Select
                           value={selectedClientId}
-                          onValueChange={setSelectedClientId}
+                          onValueChange={(value) => {
+                            setSelectedClientId(value);
+                            setEmployee(null);
+                          }}
                         >
                           <SelectTrigger className="bg-background h-9">
                             <SelectValue placeholder="Select a client" />
@@ -740,6 +759,15 @@ const JMLBreakfix = () => {
                     </div>
                   )}
 
+                  <EmployeeField
+                    label="Employee Name"
+                    clientId={isAdmin || isReseller ? selectedClientId || null : undefined}
+                    name={employeeName}
+                    employee={employee}
+                    onNameChange={setEmployeeName}
+                    onSelect={selectEmployee}
+                  />
+
                   {/* Email Address, Phone Number - Side by side */}
                   <div className="grid sm:grid-cols-2 gap-3">
                     <div className="space-y-1.5">
@@ -1313,6 +1341,12 @@ const JMLBreakfix = () => {
                   <CardTitle className="text-base">Employee Summary</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-3">
+                  {employeeName.trim() && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Name</span>
+                      <span className="font-semibold text-foreground">{employeeName.trim()}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Email</span>
                     <span className="font-semibold text-foreground">{email}</span>
@@ -0,0 +1,499 @@
+// Bulk JML import - joiners, movers and leavers from an HR spreadsheet or HRIS export, booked in one batch
+import { useMemo, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Building2,
+  CheckCircle2,
+  Download,
+  FileSpreadsheet,
+  Loader2,
+  Package,
+  Upload,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/contexts/AuthContext";
+import { useClients } from "@/hooks/useClients";
+import { useAvailableInventory } from "@/hooks/useInventory";
+import { useBulkJmlImport } from "@/hooks/useBookings";
+import {
+  JML_IMPORT_FILE_EXTENSIONS,
+  JML_IMPORT_MAX_ROWS,
+  buildJmlImportTemplate,
+  getJmlInventoryCoverage,
+  jmlImportActionConfig,
+  readJmlImportFile,
+  validateJmlImportRows,
+} from "@/lib/jml-import";
+import { cn } from "@/lib/utils";
+import type { BulkJmlImportResult, JmlImportRow, JmlImportSource } from "@/types/jml-import";
+
+const sourceLabels: Record<JmlImportSource, string> = {
+  csv: "CSV",
+  xlsx: "Excel",
+  hris: "HRIS export",
+};
+
+const formatDate = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric" });
+};
+
+const describeDevices = (row: JmlImportRow) =>
+  row.devices
+    .map((device) =>
+      device.make || device.model
+        ? `${device.quantity}× ${[device.make, device.model].filter(Boolean).join(" ")}`
+        : `${device.quantity}× ${device.category}`
+    )
+    .join(", ");
+
+function ActionBadge({ row }: { row: Pick<JmlImportRow, "action" | "actionLabel"> }) {
+  if (!row.action) {
+    return <Badge variant="outline">{row.actionLabel || "—"}</Badge>;
+  }
+  const config = jmlImportActionConfig[row.action];
+  return (
+    <Badge variant="secondary" className={config.className}>
+      {config.label}
+    </Badge>
+  );
+}
+
+const JMLBulkImport = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const isClient = user?.role === "client";
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const [selectedClientId, setSelectedClientId] = useState("");
+  const [file, setFile] = useState<{ name: string; source: JmlImportSource; rows: JmlImportRow[] } | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [result, setResult] = useState<BulkJmlImportResult | null>(null);
+
+  const { data: allClients = [], isLoading: isLoadingClients } = useClients({ status: "active" });
+  const clients = useMemo(() => allClients.filter((client) => client.status === "active"), [allClients]);
+  const clientId = isClient ? user?.clientId || "" : selectedClientId;
+  const { data: inventory = [], isLoading: isLoadingInventory } = useAvailableInventory(clientId);
+  const importBulk = useBulkJmlImport();
+
+  const rows = useMemo(() => file?.rows ?? [], [file]);
+  const errorsByRow = useMemo(() => validateJmlImportRows(rows), [rows]);
+  const validRows = useMemo(
+    () => rows.filter((row) => Object.keys(errorsByRow.get(row.rowNumber) || {}).length === 0),
+    [rows, errorsByRow]
+  );
+  const coverage = useMemo(() => getJmlInventoryCoverage(validRows, inventory), [validRows, inventory]);
+  const hasShortfall = coverage.some((line) => line.shortfall > 0);
+  const invalidCount = rows.length - validRows.length;
+
+  const handleFileChange = async (selected: File | undefined) => {
+    setFile(null);
+    setParseError(null);
+    setResult(null);
+    if (!selected) return;
+
+    setIsReading(true);
+    try {
+      const { source, rows } = await readJmlImportFile(selected);
+      setFile({ name: selected.name, source, rows });
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : "The file couldn't be read");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    const url = URL.createObjectURL(new Blob([buildJmlImportTemplate()], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "jml-import-template.csv";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSubmit = async () => {
+    if (!file) return;
+    try {
+      const response = await importBulk.mutateAsync({
+        clientId: isClient ? undefined : selectedClientId,
+        source: file.source,
+        rows: file.rows,
+      });
+      setResult(response);
+      if (response.failed === 0) {
+        toast.success(`${response.created} ${response.created === 1 ? "booking" : "bookings"} created`);
+      } else {
+        toast.warning(`${response.created} created, ${response.failed} failed`, {
+          description: "Check the result report for the rows that weren't booked.",
+        });
+      }
+    } catch (error) {
+      toast.error("Import failed", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    }
+  };
+
+  const handleReset = () => {
+    setFile(null);
+    setResult(null);
+    setParseError(null);
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 p-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate("/booking")}>
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Bulk JML Import</h1>
+          <p className="text-muted-foreground">
+            Book joiners, movers and leavers from an HR spreadsheet or HRIS export
+          </p>
+        </div>
+      </div>
+
+      {!result && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <FileSpreadsheet className="h-5 w-5" />
+                Upload
+              </CardTitle>
+              <CardDescription>
+                One row per person. CSV and Excel files use the template columns; HRIS exports use the normalised
+                JSON events format. Up to {JML_IMPORT_MAX_ROWS} rows per file.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleDownloadTemplate}>
+              <Download className="h-4 w-4 mr-2" />
+              Template
+            </Button>
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-2">
+            {!isClient && (
+              <div className="space-y-2">
+                <Label>
+                  Client <span className="text-destructive">*</span>
+                </Label>
+                <Select value={selectedClientId} onValueChange={setSelectedClientId} disabled={isLoadingClients}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue placeholder={isLoadingClients ? "Loading clients..." : "Select a client"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {clients.map((client) => (
+                      <SelectItem key={client.id} value={client.id}>
+                        <div className="flex items-center gap-2">
+                          <Building2 className="h-4 w-4" />
+                          <span>{client.organisationName || client.name}</span>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="jml-import-file">HR file</Label>
+              <Input
+                ref={inputRef}
+                id="jml-import-file"
+                type="file"
+                accept={JML_IMPORT_FILE_EXTENSIONS.join(",")}
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+                disabled={isReading || importBulk.isPending}
+                className="cursor-pointer"
+              />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {isReading && (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {parseError && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{parseError}</AlertDescription>
+        </Alert>
+      )}
+
+      {file && !result && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Package className="h-5 w-5" />
+                Devices for Joiners
+              </CardTitle>
+              <CardDescription>
+                What the valid joiner rows need, against the client's available inventory
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!clientId ? (
+                <p className="text-sm text-muted-foreground">Select a client to check their inventory.</p>
+              ) : isLoadingInventory ? (
+                <div className="flex items-center justify-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : coverage.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No joiner devices to allocate in this file.</p>
+              ) : (
+                <>
+                  {hasShortfall && (
+                    <Alert className="bg-warning/10 border-warning/20">
+                      <AlertTriangle className="h-4 w-4 text-warning" />
+                      <AlertDescription>
+                        There isn't enough stock for every joiner. Their bookings are still created, but devices
+                        can't be allocated until more stock arrives.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Category</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead className="text-right">Required</TableHead>
+                        <TableHead className="text-right">Available</TableHead>
+                        <TableHead className="text-right">Shortfall</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {coverage.map((line) => (
+                        <TableRow key={`${line.category}:${line.deviceType}`}>
+                          <TableCell className="font-medium">{line.category}</TableCell>
+                          <TableCell>{line.deviceType}</TableCell>
+                          <TableCell className="text-right">{line.required}</TableCell>
+                          <TableCell className="text-right">{line.available}</TableCell>
+                          <TableCell className="text-right">
+                            {line.shortfall > 0 ? (
+                              <Badge variant="secondary" className="bg-warning/10 text-warning">
+                                {line.shortfall}
+                              </Badge>
+                            ) : (
+                              <span className="text-muted-foreground">—</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Preview</CardTitle>
+                <CardDescription>
+                  {file.name} · {sourceLabels[file.source]} · {rows.length} {rows.length === 1 ? "row" : "rows"}
+                </CardDescription>
+              </div>
+              <div className="flex flex-wrap justify-end gap-1">
+                <Badge variant="secondary" className="bg-success/10 text-success">
+                  {validRows.length} ready
+                </Badge>
+                {invalidCount > 0 && (
+                  <Badge variant="secondary" className="bg-destructive/10 text-destructive">
+                    {invalidCount} with errors
+                  </Badge>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="rounded-lg border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Address</TableHead>
+                      <TableHead>Devices</TableHead>
+                      <TableHead>Checks</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => {
+                      const errors = Object.values(errorsByRow.get(row.rowNumber) || {});
+                      return (
+                        <TableRow key={row.rowNumber} className={cn(errors.length > 0 && "bg-destructive/5")}>
+                          <TableCell className="font-mono text-muted-foreground">{row.rowNumber}</TableCell>
+                          <TableCell>
+                            <ActionBadge row={row} />
+                          </TableCell>
+                          <TableCell>
+                            <p className="font-medium">{row.employeeName || "—"}</p>
+                            <p className="text-xs text-muted-foreground">{row.email}</p>
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">{row.date ? formatDate(row.date) : "—"}</TableCell>
+                          <TableCell className="text-sm">
+                            {row.currentSite && (
+                              <p className="text-muted-foreground">
+                                From {row.currentSite.postcode || row.currentSite.address || "—"}
+                              </p>
+                            )}
+                            <p>
+                              {row.site.address || "—"}
+                              {row.site.postcode && <span className="text-muted-foreground">, {row.site.postcode}</span>}
+                            </p>
+                          </TableCell>
+                          <TableCell className="text-sm">{describeDevices(row) || "—"}</TableCell>
+                          <TableCell>
+                            {errors.length === 0 ? (
+                              <span className="flex items-center gap-1 text-sm text-success">
+                                <CheckCircle2 className="h-4 w-4" />
+                                Ready
+                              </span>
+                            ) : (
+                              <ul className="space-y-0.5 text-xs text-destructive">
+                                {errors.map((error) => (
+                                  <li key={error}>{error}</li>
+                                ))}
+                              </ul>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {invalidCount > 0 && validRows.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Rows with errors are skipped and listed in the result report - fix them in the file and import
+                  them again afterwards.
+                </p>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={handleReset} disabled={importBulk.isPending}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleSubmit}
+                  disabled={validRows.length === 0 || (!isClient && !selectedClientId) || importBulk.isPending}
+                >
+                  {importBulk.isPending ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Creating bookings...
+                    </>
+                  ) : (
+                    <>
+                      <Upload className="h-4 w-4 mr-2" />
+                      Create {validRows.length} {validRows.length === 1 ? "Booking" : "Bookings"}
+                    </>
+                  )}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {result && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Result Report</CardTitle>
+              <CardDescription>
+                {result.created} of {result.total} {result.total === 1 ? "row" : "rows"} booked
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap justify-end gap-1">
+              <Badge variant="secondary" className="bg-success/10 text-success">
+                {result.created} created
+              </Badge>
+              {result.failed > 0 && (
+                <Badge variant="secondary" className="bg-destructive/10 text-destructive">
+                  {result.failed} failed
+                </Badge>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="rounded-lg border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.results.map((row) => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell className="font-mono text-muted-foreground">{row.rowNumber}</TableCell>
+                      <TableCell>
+                        <ActionBadge row={{ action: row.action, actionLabel: "" }} />
+                      </TableCell>
+                      <TableCell className="font-medium">{row.employeeName || "—"}</TableCell>
+                      <TableCell>
+                        {row.status === "created" ? (
+                          <span className="flex items-center gap-1 text-sm text-success">
+                            <CheckCircle2 className="h-4 w-4" />
+                            <Link to={`/bookings/${row.bookingId}`} className="underline-offset-4 hover:underline">
+                              {row.bookingNumber}
+                            </Link>
+                          </span>
+                        ) : (
+                          <span className="flex items-start gap-1 text-sm text-destructive">
+                            <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                            {row.fields && Object.keys(row.fields).length > 1
+                              ? Object.values(row.fields).join("; ")
+                              : row.error}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={handleReset}>
+                Import Another File
+              </Button>
+              <Button onClick={() => navigate("/bookings")}>View Bookings</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default JMLBulkImport;
@@ -1,5 +1,5 @@
-import { useState, useMemo, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useMemo, useEffect, useCallback } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import * as SelectPrimitive from "@radix-ui/react-select";
 import { Calendar, MapPin, Phone, User, Mail, ArrowLeft, ArrowRight, Loader2, CheckCircle2, Plus, X, Building2, AlertCircle, UserPlus, Package, Calculator, Leaf, TreeDeciduous, Truck, Fuel, Zap, Heart, PoundSterling } from "lucide-react";
@@ -28,6 +28,12 @@ import { cn } from "@/lib/utils";
 import { useCO2Calculation } from "@/hooks/useCO2";
 import { useBuybackCalculation } from "@/hooks/useBuyback";
 import { co2eEquivalencies } from "@/lib/constants";
+import { leaverFulfilmentConfig } from "@/lib/returns-kit";
+import type { LeaverFulfilment } from "@/types/returns-kit";
+import { EmployeeField } from "@/components/bookings/EmployeeLedger";
+import { getJmlDevicesForHoldings } from "@/lib/employee-ledger";
+import { useEmployee } from "@/hooks/useEmployees";
+import type { Employee } from "@/types/employees";
 import { filterJmlAssetCategories, getDeviceTypeOptionsForJmlCategory, getUnderlyingAssetCategoryNameForJml, inferDeviceTypeFromJmlCategory, isAccessoriesCategory, shouldShowDeviceTypeForJmlCategory, type JmlDeviceType } from "@/lib/jml-assets";
 
 interface LeaverDevice {
@@ -74,9 +80,12 @@ const JMLLeaver = () => {
   );
   const createSite = useCreateSite();
 
+  const [leaverName, setLeaverName] = useState("");
+  const [employee, setEmployee] = useState<Employee | null>(null);
   const [personalEmail, setPersonalEmail] = useState("");
   const [phone, setPhone] = useState("");
   const [leavingDate, setLeavingDate] = useState<Date | undefined>(undefined);
+  const [fulfilment, setFulfilment] = useState<LeaverFulfilment>("collection");
   const [siteLocation, setSiteLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [isGeocodingAddress, setIsGeocodingAddress] = useState(false);
   const [devices, setDevices] = useState<LeaverDevice[]>([
@@ -179,6 +188,27 @@ const JMLLeaver = () => {
     }
   }, [selectedClientId, isAdmin, isReseller]);
 
+  // Picking an existing employee fills in their contact details and the devices they hold
+  const selectEmployee = useCallback((selected: Employee | null) => {
+    setEmployee(selected);
+    if (!selected) return;
+    setLeaverName(selected.name);
+    if (selected.email) setPersonalEmail(selected.email);
+    if (selected.phone) setPhone(selected.phone);
+    if (selected.holdings.length > 0) setDevices(getJmlDevicesForHoldings(selected.holdings));
+  }, []);
+
+  // Booking a leaver from their employee page (?employee=) starts from that employee
+  const [searchParams] = useSearchParams();
+  const { data: linkedEmployee } = useEmployee(searchParams.get("employee") || undefined);
+  const [appliedEmployeeId, setAppliedEmployeeId] = useState<string | null>(null);
+  useEffect(() => {
+    if (!linkedEmployee || appliedEmployeeId === linkedEmployee.id) return;
+    setAppliedEmployeeId(linkedEmployee.id);
+    if (isAdmin || isReseller) setSelectedClientId(linkedEmployee.clientId);
+    selectEmployee(linkedEmployee);
+  }, [linkedEmployee, appliedEmployeeId, isAdmin, isReseller, selectEmployee]);
+
   // Default email/phone for step 1 (does not override user edits)
   useEffect(() => {
     if (isClient && clientProfile) {
@@ -431,6 +461,10 @@ const JMLLeaver = () => {
     }
 
     setIsSubmitting(true);
+    const fulfilmentNextStep =
+      fulfilment === "returns_kit"
+        ? "We'll post the leaver a returns kit and remind them to send the devices back."
+        : "Team will contact the leaver after the leaving date.";
 
     try {
       // Resolve client and leaver name
@@ -455,7 +489,7 @@ const JMLLeaver = () => {
         clientId = selectedClientId;
         const selectedClient = clients.find((c) => c.id === selectedClientId);
         clientName = selectedClient?.organisationName || selectedClient?.name || "Client";
-        resolvedLeaverName = clientName;
+        resolvedLeaverName = leaverName.trim() || clientName;
 
         if (selectedSiteId === "new") {
           try {
@@ -487,6 +521,7 @@ const JMLLeaver = () => {
               clientId,
               clientName,
               leaverName: resolvedLeaverName,
+              employeeId: employee?.id,
               address: bookingAddress,
               postcode: bookingPostcode,
               personalEmail,
@@ -502,10 +537,11 @@ const JMLLeaver = () => {
               charityPercent,
               preferredVehicleType: selectedVehicleType,
               assets: selectedAssets,
+              fulfilment,
             });
 
             toast.success("Booking created successfully!", {
-              description: `Leaver booking ${booking.bookingNumber} has been created. Team will contact the leaver after the leaving date.`,
+              description: `Leaver booking ${booking.bookingNumber} has been created. ${fulfilmentNextStep}`,
             });
 
             navigate('/booking');
@@ -514,6 +550,7 @@ const JMLLeaver = () => {
         }
       } else if (isClient) {
         resolvedLeaverName =
+          leaverName.trim() ||
           clientProfile?.organisationName ||
           clientProfile?.name ||
           user?.tenantName ||
@@ -539,13 +576,14 @@ const JMLLeaver = () => {
           }
         }
       } else {
-        resolvedLeaverName = user?.name || "User";
+        resolvedLeaverName = leaverName.trim() || user?.name || "User";
       }
 
       const booking = await jmlBookingService.createLeaver({
         clientId,
         clientName,
         leaverName: resolvedLeaverName,
+        employeeId: employee?.id,
         address: fullAddress,
         postcode: siteDetails.postcode,
         personalEmail,
@@ -561,10 +599,11 @@ const JMLLeaver = () => {
         charityPercent,
         preferredVehicleType: selectedVehicleType,
         assets: selectedAssets,
+        fulfilment,
       });
 
       toast.success("Booking created successfully!", {
-        description: `Leaver booking ${booking.bookingNumber} has been created. Team will contact the leaver after the leaving date.`,
+        description: `Leaver booking ${booking.bookingNumber} has been created. ${fulfilmentNextStep}`,
       });
 
       navigate('/booking');
@@ -693,7 +732,10 @@ const JMLLeaver = () => {
                       ) : (
                         <Select
                           value={selectedClientId}
-                          onValueChange={setSelectedClientId}
+                          onValueChange={(value) => {
+                            setSelectedClientId(value);
+                            setEmployee(null);
+                          }}
                         >
                           <SelectTrigger className="bg-background h-9">
                             <SelectValue placeholder="Select a client" />
@@ -719,6 +761,15 @@ const JMLLeaver = () => {
                     </div>
                   )}
 
+                  <EmployeeField
+                    label="Leaver Name"
+                    clientId={isAdmin || isReseller ? selectedClientId || null : undefined}
+                    name={leaverName}
+                    employee={employee}
+                    onNameChange={setLeaverName}
+                    onSelect={selectEmployee}
+                  />
+
                   {/* Email Address, Phone Number - Side by side */}
                   <div className="grid sm:grid-cols-2 gap-3">
                     <div className="space-y-1.5">
@@ -763,6 +814,35 @@ const JMLLeaver = () => {
                     />
                   </div>
 
+                  {/* How the devices come back */}
+                  <div className="space-y-1.5">
+                    <Label className="text-sm">Return Method *</Label>
+                    <RadioGroup
+                      value={fulfilment}
+                      onValueChange={(value) => setFulfilment(value as LeaverFulfilment)}
+                      className="grid gap-2 sm:grid-cols-2"
+                    >
+                      {(Object.keys(leaverFulfilmentConfig) as LeaverFulfilment[]).map((option) => (
+                        <Label
+                          key={option}
+                          htmlFor={`fulfilment-${option}`}
+                          className={cn(
+                            "flex cursor-pointer items-start gap-2 rounded-lg border p-3 font-normal",
+                            fulfilment === option && "border-primary bg-primary/5"
+                          )}
+                        >
+                          <RadioGroupItem value={option} id={`fulfilment-${option}`} className="mt-0.5" />
+                          <span className="space-y-0.5">
+                            <span className="block text-sm font-medium">{leaverFulfilmentConfig[option].label}</span>
+                            <span className="block text-xs text-muted-foreground">
+                              {leaverFulfilmentConfig[option].description}
+                            </span>
+                          </span>
+                        </Label>
+                      ))}
+                    </RadioGroup>
+                  </div>
+
                   {/* Delivery Address */}
                   <div className="space-y-2 p-3 bg-muted/50 rounded-lg border">
                     <Label className="text-sm font-semibold">
@@ -1363,6 +1443,12 @@ const JMLLeaver = () => {
                   <CardTitle className="text-base">Collection Summary</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-3">
+                  {leaverName.trim() && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Leaver</span>
+                      <span className="font-semibold text-foreground">{leaverName.trim()}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Site</span>
                     <span className="font-semibold text-foreground">{siteDetails.siteName || (selectedSiteId !== 'new' ? sites.find(s => s.id === selectedSiteId)?.name : 'N/A')}</span>
@@ -1392,6 +1478,10 @@ const JMLLeaver = () => {
                       </span>
                     </div>
                   )}
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Return Method</span>
+                    <span className="font-semibold text-foreground">{leaverFulfilmentConfig[fulfilment].label}</span>
+                  </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Total Assets</span>
                     <span className="font-semibold text-foreground">{totalAssets} units</span>
@@ -25,6 +25,9 @@ import { MapPicker } from "@/components/booking/MapPicker";
 import { DatePicker } from "@/components/booking/DatePicker";
 import { cn } from "@/lib/utils";
 import { filterJmlAssetCategories, getDeviceTypeOptionsForJmlCategory, inferDeviceTypeFromJmlCategory, isAccessoriesCategory, shouldShowDeviceTypeForJmlCategory, type JmlDeviceType } from "@/lib/jml-assets";
+import { EmployeeField } from "@/components/bookings/EmployeeLedger";
+import { getJmlDevicesForHoldings } from "@/lib/employee-ledger";
+import type { Employee } from "@/types/employees";
 
 interface CurrentDevice {
   make: string;
@@ -73,6 +76,8 @@ const JMLMover = () => {
   );
   const createSite = useCreateSite();
 
+  const [employeeName, setEmployeeName] = useState("");
+  const [employee, setEmployee] = useState<Employee | null>(null);
   const [email, setEmail] = useState("");
   const [phone, setPhone] = useState("");
   const [moveDate, setMoveDate] = useState<Date | undefined>(undefined);
@@ -130,6 +135,16 @@ const JMLMover = () => {
     }
   }, [selectedClientId, isAdmin, isReseller]);
 
+  // Picking an existing employee fills in their contact details and the devices they hold
+  const selectEmployee = (selected: Employee | null) => {
+    setEmployee(selected);
+    if (!selected) return;
+    setEmployeeName(selected.name);
+    if (selected.email) setEmail(selected.email);
+    if (selected.phone) setPhone(selected.phone);
+    if (selected.holdings.length > 0) setCurrentDevices(getJmlDevicesForHoldings(selected.holdings));
+  };
+
   // Default email/phone for step 1 (does not override user edits)
   useEffect(() => {
     if (isClient && clientProfile) {
@@ -481,7 +496,7 @@ const JMLMover = () => {
         clientId = selectedClientId;
         const selectedClient = clients.find((c) => c.id === selectedClientId);
         clientName = selectedClient?.organisationName || selectedClient?.name || "Client";
-        resolvedEmployeeName = clientName;
+        resolvedEmployeeName = employeeName.trim() || clientName;
 
         // Save new sites automatically when using new addresses
         if (selectedCurrentSiteId === "new") {
@@ -583,6 +598,7 @@ const JMLMover = () => {
               clientId,
               clientName,
               employeeName: resolvedEmployeeName,
+              employeeId: employee?.id,
               email,
               address: bookingAddress,
               postcode: bookingPostcode,
@@ -612,6 +628,7 @@ const JMLMover = () => {
         }
       } else if (isClient) {
         resolvedEmployeeName =
+          employeeName.trim() ||
           clientProfile?.organisationName ||
           clientProfile?.name ||
           user?.tenantName ||
@@ -666,7 +683,7 @@ const JMLMover = () => {
           }
         }
       } else {
-        resolvedEmployeeName = user?.name || "User";
+        resolvedEmployeeName = employeeName.trim() || user?.name || "User";
       }
 
       // Get current address - either from selected site or structured fields
@@ -713,6 +730,7 @@ const JMLMover = () => {
         clientId,
         clientName,
         employeeName: resolvedEmployeeName,
+        employeeId: employee?.id,
         email,
         address: newFullAddress,
         postcode: newAddressDetails.postcode,
@@ -861,7 +879,10 @@ const JMLMover = () => {
                     ) : (
                       <Select
                         value={selectedClientId}
-                        onValueChange={setSelectedClientId}
+                        onValueChange={(value) => {
+                          setSelectedClientId(value);
+                          setEmployee(null);
+                        }}
                       >
                         <SelectTrigger className="bg-background h-9">
                           <SelectValue placeholder="Select a client" />
@@ -887,6 +908,15 @@ const JMLMover = () => {
                   </div>
                 )}
 
+                <EmployeeField
+                  label="Employee Name"
+                  clientId={isAdmin || isReseller ? selectedClientId || null : undefined}
+                  name={employeeName}
+                  employee={employee}
+                  onNameChange={setEmployeeName}
+                  onSelect={selectEmployee}
+                />
+
                 <div className="grid sm:grid-cols-2 gap-3">
                   <div className="space-y-1.5">
                     <Label htmlFor="email" className="text-sm">
@@ -1567,6 +1597,12 @@ const JMLMover = () => {
                   <CardTitle className="text-base">Employee Summary</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-3">
+                  {employeeName.trim() && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Name</span>
+                      <span className="font-semibold text-foreground">{employeeName.trim()}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Email</span>
                     <span className="font-semibold text-foreground">{email}</span>
@@ -25,6 +25,8 @@ import { geocodeAddressWithDetails } from "@/lib/calculations";
 import { validateEuropeanPostcode } from "@/lib/european-validation";
 import { cn } from "@/lib/utils";
 import { filterJmlAssetCategories, getDeviceTypeOptionsForJmlCategory, inferDeviceTypeFromJmlCategory, isAccessoriesCategory, shouldShowDeviceTypeForJmlCategory, type JmlDeviceType } from "@/lib/jml-assets";
+import { EmployeeField } from "@/components/bookings/EmployeeLedger";
+import type { Employee } from "@/types/employees";
 
 interface StarterDevice {
   make: string;
@@ -72,6 +74,8 @@ const JMLNewStarter = () => {
   );
   const createSite = useCreateSite();
 
+  const [employeeName, setEmployeeName] = useState("");
+  const [employee, setEmployee] = useState<Employee | null>(null);
   const [email, setEmail] = useState("");
   const [phone, setPhone] = useState("");
   const [startDate, setStartDate] = useState<Date | undefined>(undefined);
@@ -107,6 +111,15 @@ const JMLNewStarter = () => {
     }
   }, [selectedClientId, isAdmin, isReseller]);
 
+  // Picking an existing employee fills in their contact details
+  const selectEmployee = (selected: Employee | null) => {
+    setEmployee(selected);
+    if (!selected) return;
+    setEmployeeName(selected.name);
+    if (selected.email) setEmail(selected.email);
+    if (selected.phone) setPhone(selected.phone);
+  };
+
   // Default email/phone for step 1 (does not override user edits)
   useEffect(() => {
     if (isClient && clientProfile) {
@@ -396,7 +409,7 @@ const JMLNewStarter = () => {
         clientId = selectedClientId;
         const selectedClient = clients.find((c) => c.id === selectedClientId);
         clientName = selectedClient?.organisationName || selectedClient?.name || "Client";
-        resolvedEmployeeName = clientName;
+        resolvedEmployeeName = employeeName.trim() || clientName;
 
         // Save new site automatically when using a new address
         if (selectedSiteId === "new") {
@@ -443,6 +456,7 @@ const JMLNewStarter = () => {
               clientId,
               clientName,
               employeeName: resolvedEmployeeName,
+              employeeId: employee?.id,
               email,
               address: bookingAddress,
               postcode: bookingPostcode,
@@ -466,6 +480,7 @@ const JMLNewStarter = () => {
       } else if (isClient) {
         // Use client account name as employee name
         resolvedEmployeeName =
+          employeeName.trim() ||
           clientProfile?.organisationName ||
           clientProfile?.name ||
           user?.tenantName ||
@@ -492,7 +507,7 @@ const JMLNewStarter = () => {
         }
       } else {
         // Fallback for other roles
-        resolvedEmployeeName = user?.name || "User";
+        resolvedEmployeeName = employeeName.trim() || user?.name || "User";
       }
 
       const filteredDevices = devices
@@ -506,6 +521,7 @@ const JMLNewStarter = () => {
         clientId,
         clientName,
         employeeName: resolvedEmployeeName,
+        employeeId: employee?.id,
         email,
         address: fullAddress,
         postcode: siteDetails.postcode,
@@ -655,7 +671,10 @@ const JMLNewStarter = () => {
                       ) : (
                         <Select
                           value={selectedClientId}
-                          onValueChange={setSelectedClientId}
+                          onValueChange={(value) => {
+                            setSelectedClientId(value);
+                            setEmployee(null);
+                          }}
                         >
                           <SelectTrigger className="bg-background h-9">
                             <SelectValue placeholder="Select a client" />
@@ -681,6 +700,15 @@ const JMLNewStarter = () => {
                     </div>
                   )}
 
+                  <EmployeeField
+                    label="Employee Name"
+                    clientId={isAdmin || isReseller ? selectedClientId || null : undefined}
+                    name={employeeName}
+                    employee={employee}
+                    onNameChange={setEmployeeName}
+                    onSelect={selectEmployee}
+                  />
+
                   {/* Email Address, Phone Number - Side by side */}
                   <div className="grid sm:grid-cols-2 gap-3">
                     <div className="space-y-1.5">
@@ -1137,6 +1165,12 @@ const JMLNewStarter = () => {
                   <CardTitle className="text-base">Employee Summary</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-3">
+                  {employeeName.trim() && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Name</span>
+                      <span className="font-semibold text-foreground">{employeeName.trim()}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Email</span>
                     <span className="font-semibold text-foreground">{email}</span>
@@ -0,0 +1,297 @@
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { Link } from "react-router-dom";
+import { addDays, format, parseISO } from "date-fns";
+import { AlertTriangle, ArrowRight, CalendarClock, CheckCircle2, Clock, Loader2, Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { JmlLeadTimesDialog, JmlMilestoneStateBadge } from "@/components/bookings/JmlSchedule";
+import { useAuth } from "@/contexts/AuthContext";
+import { useClients } from "@/hooks/useClients";
+import { useJmlLeadTimes, useJmlMilestones } from "@/hooks/useJmlSchedule";
+import { isJmlMilestoneBehind, jmlLeadTimeFields, jmlMilestoneConfig } from "@/lib/jml-schedule";
+import { getStatusLabelExtended, type BookingLifecycleStatus } from "@/types/booking-lifecycle";
+import { cn } from "@/lib/utils";
+import type { ClientJmlLeadTimes, JmlMilestone, JmlMilestoneState } from "@/types/jml-schedule";
+
+const subTypeLabels: Record<JmlMilestone["jmlSubType"], string> = {
+  new_starter: "New Starter",
+  leaver: "Leaver",
+  mover: "Mover",
+};
+
+// Completed milestones from the last week stay on the timeline for context
+const LOOKBACK_DAYS = 7;
+
+function formatDay(date: string) {
+  return format(parseISO(date), "EEE d MMM");
+}
+
+function MilestoneRow({ milestone }: { milestone: JmlMilestone }) {
+  return (
+    <div className="flex flex-col gap-2 rounded-lg border p-3 sm:flex-row sm:items-center sm:justify-between">
+      <div className="min-w-0 space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium">{jmlMilestoneConfig[milestone.type].label}</span>
+          <JmlMilestoneStateBadge state={milestone.state} />
+          <Badge variant="outline">{subTypeLabels[milestone.jmlSubType]}</Badge>
+        </div>
+        <p className="text-sm text-muted-foreground truncate">
+          {milestone.employeeName} · {milestone.clientName} · {milestone.jmlSubType === "new_starter" ? "Starts" : "Date"}{" "}
+          {formatDay(milestone.anchorDate)}
+        </p>
+      </div>
+      <div className="flex items-center gap-3 text-sm">
+        <span className="text-muted-foreground">
+          {getStatusLabelExtended(milestone.bookingStatus as BookingLifecycleStatus)}
+        </span>
+        <Button variant="ghost" size="sm" asChild>
+          <Link to={`/bookings/${milestone.bookingId}`}>
+            {milestone.bookingNumber}
+            <ArrowRight className="h-4 w-4 ml-1" />
+          </Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+const JMLSchedule = () => {
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
+  const [clientFilter, setClientFilter] = useState("all");
+  const [rangeWeeks, setRangeWeeks] = useState("4");
+  const [editing, setEditing] = useState<ClientJmlLeadTimes | null>(null);
+
+  const { data: clients = [] } = useClients();
+  const filter = useMemo(() => {
+    const today = new Date();
+    return {
+      clientId: clientFilter === "all" ? undefined : clientFilter,
+      from: format(addDays(today, -LOOKBACK_DAYS), "yyyy-MM-dd"),
+      to: format(addDays(today, Number(rangeWeeks) * 7), "yyyy-MM-dd"),
+    };
+  }, [clientFilter, rangeWeeks]);
+  const { data: milestones = [], isLoading, error } = useJmlMilestones(filter);
+  const { data: leadTimes = [] } = useJmlLeadTimes();
+
+  const counts = useMemo(() => {
+    const result: Record<JmlMilestoneState, number> = { overdue: 0, at_risk: 0, upcoming: 0, done: 0 };
+    milestones.forEach((milestone) => result[milestone.state]++);
+    return result;
+  }, [milestones]);
+
+  const behind = useMemo(() => milestones.filter(isJmlMilestoneBehind), [milestones]);
+
+  // Everything else on the timeline, grouped by due date
+  const days = useMemo(() => {
+    const grouped = new Map<string, JmlMilestone[]>();
+    milestones
+      .filter((milestone) => !isJmlMilestoneBehind(milestone))
+      .forEach((milestone) => {
+        grouped.set(milestone.dueDate, [...(grouped.get(milestone.dueDate) || []), milestone]);
+      });
+    return [...grouped.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [milestones]);
+
+  const todayKey = format(new Date(), "yyyy-MM-dd");
+  const visibleLeadTimes = leadTimes.filter((entry) => clientFilter === "all" || entry.clientId === clientFilter);
+
+  const stats: Array<{ state: JmlMilestoneState; label: string; icon: typeof Clock; className: string }> = [
+    { state: "overdue", label: "Overdue", icon: AlertTriangle, className: "text-destructive/50" },
+    { state: "at_risk", label: "At Risk", icon: AlertTriangle, className: "text-warning/50" },
+    { state: "upcoming", label: "Upcoming", icon: Clock, className: "text-primary/50" },
+    { state: "done", label: "Done", icon: CheckCircle2, className: "text-success/50" },
+  ];
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        <Alert variant="destructive">
+          <AlertDescription>Failed to load the JML schedule. Please try refreshing the page.</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between"
+      >
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">JML Schedule</h2>
+          <p className="text-muted-foreground">
+            Milestone deadlines worked back from each start, leaving and move date
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {(user?.role === "admin" || user?.role === "reseller") && (
+            <Select value={clientFilter} onValueChange={setClientFilter}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Client" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Clients</SelectItem>
+                {clients.map((client) => (
+                  <SelectItem key={client.id} value={client.id}>
+                    {client.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={rangeWeeks} onValueChange={setRangeWeeks}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="2">Next 2 weeks</SelectItem>
+              <SelectItem value="4">Next 4 weeks</SelectItem>
+              <SelectItem value="8">Next 8 weeks</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </motion.div>
+
+      {/* Milestone counts */}
+      <motion.div
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4"
+      >
+        {stats.map(({ state, label, icon: Icon, className }) => (
+          <Card key={state}>
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">{label}</p>
+                  <p className="text-2xl font-bold">{isLoading ? "-" : counts[state]}</p>
+                </div>
+                <Icon className={cn("h-8 w-8", className)} />
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </motion.div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="space-y-6 lg:col-span-2">
+            {/* Milestones the booking's lifecycle is behind on */}
+            {behind.length > 0 && (
+              <Card className="border-warning/50">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <AlertTriangle className="h-5 w-5 text-warning" />
+                    Needs Attention
+                  </CardTitle>
+                  <CardDescription>
+                    Bookings that haven't reached a milestone that's due or overdue
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {behind.map((milestone) => (
+                    <div key={milestone.id} className="space-y-1">
+                      <p className="text-xs font-medium text-muted-foreground">Due {formatDay(milestone.dueDate)}</p>
+                      <MilestoneRow milestone={milestone} />
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Timeline */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarClock className="h-5 w-5" />
+                  Timeline
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {days.length === 0 ? (
+                  <p className="py-8 text-center text-sm text-muted-foreground">
+                    No milestones in this period
+                  </p>
+                ) : (
+                  <div className="space-y-6">
+                    {days.map(([date, dayMilestones]) => (
+                      <div key={date} className="space-y-2">
+                        <div className="flex items-center gap-2">
+                          <h3 className={cn("text-sm font-semibold", date === todayKey && "text-primary")}>
+                            {formatDay(date)}
+                          </h3>
+                          {date === todayKey && <Badge>Today</Badge>}
+                        </div>
+                        {dayMilestones.map((milestone) => (
+                          <MilestoneRow key={milestone.id} milestone={milestone} />
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Per-client lead times */}
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle>Lead Times</CardTitle>
+              <CardDescription>Calendar days each milestone is due either side of the date</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {visibleLeadTimes.map((entry) => (
+                <div key={entry.clientId} className="space-y-2 rounded-lg border p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="font-medium truncate">{entry.clientName}</span>
+                      {entry.isDefault && <Badge variant="secondary">Default</Badge>}
+                    </div>
+                    {isAdmin && (
+                      <Button variant="ghost" size="icon" onClick={() => setEditing(entry)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <dl className="grid grid-cols-3 gap-2 text-sm">
+                    {jmlLeadTimeFields.map((field) => (
+                      <div key={field.key}>
+                        <dt className="text-xs text-muted-foreground">{field.label}</dt>
+                        <dd className="font-medium">
+                          {field.key === "collectDaysAfter" ? "T+" : "T-"}
+                          {entry[field.key]}
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <JmlLeadTimesDialog
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        clientName={editing?.clientName || ""}
+        leadTimes={editing}
+      />
+    </div>
+  );
+};
+
+export default JMLSchedule;
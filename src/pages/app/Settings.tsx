@@ -2,12 +2,9 @@ import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
 import { 
   Building2, 
-  Bell, 
-  Link2, 
   Shield,
   Save,
   User,
-  Settings as SettingsIcon,
   Eye,
   EyeOff,
   CheckCircle2,
@@ -19,8 +16,6 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Switch } from "@/components/ui/switch";
-import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -32,20 +27,12 @@ import { useQueryClient } from "@tanstack/react-query";
 import { useDriver, useUpdateDriverProfile } from "@/hooks/useDrivers";
 import { useClientProfile, useUpdateClientProfile } from "@/hooks/useClients";
 import { useOrganisationProfile, useUpdateOrganisationProfile } from "@/hooks/useOrganisationProfile";
-
-// Default notification preferences used for initial state and "unsaved changes" checks
-const defaultNotifications = {
-  email: true,
-  jobAssignments: true,
-  routeUpdates: true,
-  collectionReminders: true,
-  certificateAvailability: true,
-  esgReports: false,
-  clientActivity: true,
-};
+import { NotificationPreferencesCard } from "@/components/settings/NotificationPreferencesCard";
+import { WebhooksCard } from "@/components/settings/WebhooksCard";
+import { ErpStatusCard } from "@/components/settings/ErpStatusCard";
 
 const Settings = () => {
-  const { user, login } = useAuth();
+  const { user, login, hasPermission } = useAuth();
   const { tenantName } = useTenantTheme();
   const queryClient = useQueryClient();
   const isReseller = user?.role === 'reseller';
@@ -206,9 +193,6 @@ const Settings = () => {
     organisationProfile.phone?.trim()
   );
 
-  // Notification state management
-  const [notifications, setNotifications] = useState(defaultNotifications);
-
   // Password visibility state
   const [showPasswords, setShowPasswords] = useState({
     current: false,
@@ -224,11 +208,6 @@ const Settings = () => {
   });
   const [isChangingPassword, setIsChangingPassword] = useState(false);
 
-  const handleNotificationChange = (key: keyof typeof notifications, value: boolean) => {
-    setNotifications(prev => ({ ...prev, [key]: value }));
-    toast.success(`Notification ${value ? 'enabled' : 'disabled'}`);
-  };
-
   // Change detection for profile sections
   const hasDriverProfileChanges =
     isDriver &&
@@ -905,188 +884,25 @@ const Settings = () => {
       )}
 
 
-      {/* Notifications - All roles with functional toggles */}
-      {/* Temporarily hidden */}
-      {false && (
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: isDriver ? 0.2 : 0.3 }}
-        >
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2 text-base">
-                <Bell className="h-5 w-5" />
-                Notifications
-              </CardTitle>
-              <CardDescription>
-                Configure how and when you receive updates. Toggle notifications on or off as needed.
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              {/* Common notifications - Email */}
-              <div className="flex items-center justify-between p-3 rounded-lg border bg-muted/30 hover:bg-muted/50 transition-colors">
-                <div className="flex-1">
-                  <p className="font-medium mb-1">Email notifications</p>
-                  <p className="text-sm text-muted-foreground">
-                    {isDriver && "Receive updates about assigned jobs"}
-                    {!isDriver && "Receive updates about job status changes"}
-                  </p>
-                </div>
-                <Switch 
-                  checked={notifications.email}
-                  onCheckedChange={(checked) => handleNotificationChange('email', checked)}
-                  className="data-[state=checked]:bg-success"
-                />
-              </div>
-              
-              {/* Driver-specific notifications */}
-              {isDriver && (
-                <>
-                  <div className="flex items-center justify-between p-3 rounded-lg border bg-muted/30 hover:bg-muted/50 transition-colors">
-                    <div className="flex-1">
-                      <p className="font-medium mb-1">Job assignments</p>
-                      <p className="text-sm text-muted-foreground">Get notified when new jobs are assigned to you</p>
-                    </div>
-                    <Switch 
-                      checked={notifications.jobAssignments}
-                      onCheckedChange={(checked) => handleNotificationChange('jobAssignments', checked)}
-                      className="data-[state=checked]:bg-success"
-                    />
-                  </div>
-                  <div className="flex items-center justify-between p-3 rounded-lg border bg-muted/30 hover:bg-muted/50 transition-colors">
-                    <div className="flex-1">
-                      <p className="font-medium mb-1">Route updates</p>
-                      <p className="text-sm text-muted-foreground">Receive updates about route changes or delays</p>
-                    </div>
-                    <Switch 
-                      checked={notifications.routeUpdates}
-                      onCheckedChange={(checked) => handleNotificationChange('routeUpdates', checked)}
-                      className="data-[state=checked]:bg-success"
-                    />
-                  </div>
-                </>
-              )}
-              
-              {/* Client/Reseller/Admin notifications */}
-              {!isDriver && (
-                <>
-                  <div className="flex items-center justify-between p-3 rounded-lg border bg-muted/30 hover:bg-muted/50 transition-colors">
-                    <div className="flex-1">
-                      <p className="font-medium mb-1">Collection reminders</p>
-                      <p className="text-sm text-muted-foreground">Get notified 24h before scheduled collections</p>
-                    </div>
-                    <Switch 
-                      checked={notifications.collectionReminders}
-                      onCheckedChange={(checked) => handleNotificationChange('collectionReminders', checked)}
-                      className="data-[state=checked]:bg-success"
-                    />
-                  </div>
-                  <div className="flex items-center justify-between p-3 rounded-lg border bg-muted/30 hover:bg-muted/50 transition-colors">
-                    <div className="flex-1">
-                      <p className="font-medium mb-1">Certificate availability</p>
-                      <p className="text-sm text-muted-foreground">Notify when new certificates are ready</p>
-                    </div>
-                    <Switch 
-                      checked={notifications.certificateAvailability}
-                      onCheckedChange={(checked) => handleNotificationChange('certificateAvailability', checked)}
-                      className="data-[state=checked]:bg-success"
-                    />
-                  </div>
-                  {(isAdmin || isClient) && (
-                    <div className="flex items-center justify-between p-3 rounded-lg border bg-muted/30 hover:bg-muted/50 transition-colors">
-                      <div className="flex-1">
-                        <p className="font-medium mb-1">ESG report summaries</p>
-                        <p className="text-sm text-muted-foreground">Weekly environmental impact digests</p>
-                      </div>
-                      <Switch 
-                        checked={notifications.esgReports}
-                        onCheckedChange={(checked) => handleNotificationChange('esgReports', checked)}
-                        className="data-[state=checked]:bg-success"
-                      />
-                    </div>
-                  )}
-                  {isReseller && (
-                    <div className="flex items-center justify-between p-3 rounded-lg border bg-muted/30 hover:bg-muted/50 transition-colors">
-                      <div className="flex-1">
-                        <p className="font-medium mb-1">Client activity</p>
-                        <p className="text-sm text-muted-foreground">Get notified about your clients' bookings and jobs</p>
-                      </div>
-                      <Switch 
-                        checked={notifications.clientActivity}
-                        onCheckedChange={(checked) => handleNotificationChange('clientActivity', checked)}
-                        className="data-[state=checked]:bg-success"
-                      />
-                    </div>
-                  )}
-                </>
-              )}
-            </CardContent>
-          </Card>
-        </motion.div>
-      )}
+      {/* Notifications - All roles */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: isDriver ? 0.2 : 0.3 }}
+      >
+        <NotificationPreferencesCard />
+      </motion.div>
 
-      {/* Integrations - Admin only */}
-      {/* Temporarily hidden */}
-      {false && isAdmin && (
+      {/* Integrations - ERP connector (tenant-wide) and outbound webhooks */}
+      {hasPermission('settings.integrations') && (
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.4 }}
+          className="space-y-6"
         >
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2 text-base">
-                <Link2 className="h-5 w-5" />
-                Integrations
-              </CardTitle>
-              <CardDescription>
-                Manage platform-wide system integrations with external services
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex items-center justify-between p-4 rounded-lg border bg-muted/30">
-                <div className="flex items-center gap-3">
-                  <div className="h-10 w-10 rounded-lg bg-secondary flex items-center justify-center">
-                    <span className="text-lg">📊</span>
-                  </div>
-                  <div>
-                    <p className="font-medium">ERP System</p>
-                    <p className="text-sm text-muted-foreground">
-                      Platform ERP integration for automated data synchronization
-                    </p>
-                  </div>
-                </div>
-                <div className="flex items-center gap-2">
-                  <Badge variant="secondary" className="bg-success/10 text-success">Connected</Badge>
-                  <Button variant="outline" size="sm">
-                    <SettingsIcon className="h-4 w-4 mr-2" />
-                    Configure
-                  </Button>
-                </div>
-              </div>
-              <div className="flex items-center justify-between p-4 rounded-lg border bg-muted/30">
-                <div className="flex items-center gap-3">
-                  <div className="h-10 w-10 rounded-lg bg-secondary flex items-center justify-center">
-                    <span className="text-lg">💾</span>
-                  </div>
-                  <div>
-                    <p className="font-medium">Blancco Data Wipe</p>
-                    <p className="text-sm text-muted-foreground">
-                      Sanitisation system integration for automated certificate generation
-                    </p>
-                  </div>
-                </div>
-                <div className="flex items-center gap-2">
-                  <Badge variant="secondary" className="bg-success/10 text-success">Connected</Badge>
-                  <Button variant="outline" size="sm">
-                    <SettingsIcon className="h-4 w-4 mr-2" />
-                    Configure
-                  </Button>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+          {hasPermission('settings.integrations', 'all') && <ErpStatusCard />}
+          <WebhooksCard />
         </motion.div>
       )}
 
@@ -30,9 +30,11 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useAuth } from "@/contexts/AuthContext";
 import { useSites, useCreateSite, useUpdateSite, useDeleteSite } from "@/hooks/useSites";
 import { useClients } from "@/hooks/useClients";
+import { useSearchDeepLink } from "@/hooks/useSearchDeepLink";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { geocodePostcode } from "@/lib/calculations";
+import { searchPlaces } from "@/lib/geocoding";
 import { 
   validateEuropeanPostcode, 
   isValidEuropeanCountry, 
@@ -94,6 +96,7 @@ const Sites = () => {
   const createSite = useCreateSite();
   const updateSite = useUpdateSite();
   const deleteSite = useDeleteSite();
+  const { isHighlighted } = useSearchDeepLink({ onSearch: setSearchQuery, isReady: !isLoading });
 
   // Show error state
   if (error) {
@@ -333,10 +336,7 @@ const Sites = () => {
       // Geocode postcode to get actual address details - fetch multiple results to check if city is valid
       // Postcodes can cover multiple cities, so we need to check multiple results
       // Using maximum limit=40 to get comprehensive coverage of all cities for a postcode
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(postcode)}&limit=40&addressdetails=1`
-      );
-      const allData = await response.json();
+      const allData = await searchPlaces(postcode, { limit: 40 });
       
       if (allData.length === 0) {
         return { match: true, error: "Postcode not found" };
@@ -348,8 +348,8 @@ const Sites = () => {
       // CRITICAL: Filter results to only those matching the entered country
       // Same postcode can exist in multiple countries (e.g., "77120" in France and Finland)
       // We must only validate against results from the correct country
-      const data = allData.filter((r: any) => {
-        const geocodedCountry = (r.address?.country || "").toLowerCase();
+      const data = allData.filter((r) => {
+        const geocodedCountry = (r.components.country || "").toLowerCase();
         const normalizedGeocodedCountry = normalizeEuropeanCountry(geocodedCountry);
         return normalizedEnteredCountry && normalizedGeocodedCountry && 
                normalizedEnteredCountry === normalizedGeocodedCountry;
@@ -360,8 +360,8 @@ const Sites = () => {
       if (data.length === 0) {
         // Find a sample result from a different country to show in error message
         const sampleResult = allData[0];
-        const sampleCountry = sampleResult.address?.country || "Unknown";
-        const sampleCounty = sampleResult.address?.county || sampleResult.address?.state || "Unknown";
+        const sampleCountry = sampleResult.components.country || "Unknown";
+        const sampleCounty = sampleResult.components.county || sampleResult.components.state || "Unknown";
         return {
           match: false,
           isError: true, // Critical error - block submission
@@ -377,11 +377,11 @@ const Sites = () => {
       // Use first result as primary, but check all results for city matches (all from correct country now)
       const result = data[0];
       // Get city from first result (for comparison purposes)
-      const geocodedCity = (result.address?.city || result.address?.town || result.address?.village || result.address?.municipality || "").toLowerCase();
+      const geocodedCity = (result.components.city || result.components.town || result.components.village || result.components.municipality || "").toLowerCase();
       // Get county from first result, but also check all results for county matches
-      const geocodedCounty = (result.address?.county || result.address?.state || result.address?.region || result.address?.province || "").toLowerCase();
-      const geocodedCountry = (result.address?.country || "").toLowerCase();
-      const geocodedStreet = (result.address?.road || "").toLowerCase();
+      const geocodedCounty = (result.components.county || result.components.state || result.components.region || result.components.province || "").toLowerCase();
+      const geocodedCountry = (result.components.country || "").toLowerCase();
+      const geocodedStreet = (result.components.road || "").toLowerCase();
       
       const enteredCity = city.trim().toLowerCase();
       const enteredCounty = county.trim().toLowerCase();
@@ -391,19 +391,19 @@ const Sites = () => {
       // Also check all administrative levels (city, town, village, municipality) from all results
       // Also check display_name for city names (some cities might only appear there)
       // Note: all results are now from the correct country
-      const allGeocodedCities = data.map((r: any) => {
+      const allGeocodedCities = data.map((r) => {
         const cities = [
-          r.address?.city,
-          r.address?.town,
-          r.address?.village,
-          r.address?.municipality,
-          r.address?.locality,
-          r.address?.post_town // UK addresses
+          r.components.city,
+          r.components.town,
+          r.components.village,
+          r.components.municipality,
+          r.components.locality,
+          r.components.postTown // UK addresses
         ].filter(Boolean).map((c: string) => c.toLowerCase());
         
         // Also extract city names from display_name (e.g., "Beautheil-Saints, Seine-et-Marne, France")
-        if (r.display_name) {
-          const displayParts = r.display_name.split(',').map((p: string) => p.trim().toLowerCase());
+        if (r.displayName) {
+          const displayParts = r.displayName.split(',').map((p: string) => p.trim().toLowerCase());
           // The first part is usually the most specific location (city/town)
           if (displayParts.length > 0 && displayParts[0]) {
             cities.push(displayParts[0]);
@@ -531,12 +531,12 @@ const Sites = () => {
       
       // County validation: use strict matching to prevent partial matches like "S" matching "Seine-et-Marne"
       // Check against all results, not just first one (counties can vary across results)
-      const allGeocodedCounties = data.map((r: any) => {
+      const allGeocodedCounties = data.map((r) => {
         return [
-          r.address?.county,
-          r.address?.state,
-          r.address?.region,
-          r.address?.province
+          r.components.county,
+          r.components.state,
+          r.components.region,
+          r.components.province
         ].filter(Boolean).map((c: string) => c.toLowerCase());
       }).flat().filter((c: string, index: number, self: string[]) => self.indexOf(c) === index);
       
@@ -699,8 +699,8 @@ const Sites = () => {
           fieldErrors: fieldErrors,
           fieldWarnings: fieldWarnings,
           coordinates: {
-            lat: parseFloat(result.lat),
-            lng: parseFloat(result.lon),
+            lat: result.lat,
+            lng: result.lng,
           },
         };
       }
@@ -713,8 +713,8 @@ const Sites = () => {
           fieldErrors: {},
           fieldWarnings: fieldWarnings,
           coordinates: {
-            lat: parseFloat(result.lat),
-            lng: parseFloat(result.lon),
+            lat: result.lat,
+            lng: result.lng,
           },
         };
       }
@@ -727,8 +727,8 @@ const Sites = () => {
         fieldErrors: {},
         fieldWarnings: {},
         coordinates: {
-          lat: parseFloat(result.lat),
-          lng: parseFloat(result.lon),
+          lat: result.lat,
+          lng: result.lng,
         },
       };
     } catch (error) {
@@ -1005,7 +1005,10 @@ const Sites = () => {
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: index * 0.05 }}
             >
-              <Card className="h-full hover:shadow-md transition-shadow">
+              <Card
+                data-search-id={site.id}
+                className={cn("h-full hover:shadow-md transition-shadow", isHighlighted(site.id) && "ring-2 ring-primary")}
+              >
                 <CardHeader>
                   <div className="flex items-start justify-between">
                     <div className="flex-1 min-w-0">
@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
 import { useSearchParams } from "react-router-dom";
-import { Search, Users as UsersIcon, Mail, Building2, Shield, UserCheck, UserX, Loader2, Clock, CheckCircle2, UserPlus, Trash2, Copy, XCircle } from "lucide-react";
+import { Search, Users as UsersIcon, Mail, Building2, Shield, UserCheck, UserX, Loader2, Clock, CheckCircle2, UserPlus, Trash2, Copy, XCircle, KeyRound, Pencil, Plus } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -19,6 +19,10 @@ import {
 import { Label } from "@/components/ui/label";
 import { useUsers, useUpdateUserStatus, useApproveUser, useDeclineUser } from "@/hooks/useUsers";
 import { useInvites, useCancelInvite } from "@/hooks/useInvites";
+import { useRoles, useDeleteRole } from "@/hooks/useRoles";
+import { RoleEditorDialog } from "@/components/users/RoleEditorDialog";
+import { UserAccessDialog } from "@/components/users/UserAccessDialog";
+import { canAccessRecord } from "@/lib/permissions";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
@@ -27,6 +31,8 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { authService } from "@/services/auth.service";
 import type { UserRole } from "@/types/auth";
 import type { Invite } from "@/types/auth";
+import type { RoleDefinition } from "@/types/permissions";
+import type { ExtendedUser } from "@/mocks/mock-entities";
 
 const roleColors: Record<UserRole, string> = {
   admin: "bg-primary/10 text-primary",
@@ -36,7 +42,7 @@ const roleColors: Record<UserRole, string> = {
 };
 
 const Users = () => {
-  const { user: currentUser } = useAuth();
+  const { user: currentUser, permissions, hasPermission } = useAuth();
   const queryClient = useQueryClient();
   const [searchParams, setSearchParams] = useSearchParams();
   const [searchQuery, setSearchQuery] = useState("");
@@ -61,6 +67,13 @@ const Users = () => {
   const [inviteStatusFilter, setInviteStatusFilter] = useState<string>("all");
   const [isDeclineDialogOpen, setIsDeclineDialogOpen] = useState(false);
   const [userToDecline, setUserToDecline] = useState<{ id: string; name: string } | null>(null);
+  const [isRoleDialogOpen, setIsRoleDialogOpen] = useState(false);
+  const [roleToEdit, setRoleToEdit] = useState<RoleDefinition | null>(null);
+  const [userForAccess, setUserForAccess] = useState<ExtendedUser | null>(null);
+
+  // Reseller invitations are a platform-wide action; roles are managed within the user's own scope
+  const canInviteResellers = hasPermission('users.invite', 'all');
+  const canManageRoles = hasPermission('roles.manage');
 
   const { data: users = [], isLoading, error } = useUsers({
     role: roleFilter !== "all" ? roleFilter : undefined,
@@ -70,11 +83,14 @@ const Users = () => {
   const approveUser = useApproveUser();
   const declineUser = useDeclineUser();
   const cancelInvite = useCancelInvite();
+  const { data: roles = [], isLoading: isLoadingRoles } = useRoles(canManageRoles);
+  const deleteRole = useDeleteRole();
 
   // Fetch reseller invitations only
   const { data: resellerInvites = [], isLoading: isLoadingInvites } = useInvites(
     inviteStatusFilter !== "all" ? inviteStatusFilter as 'pending' | 'accepted' | 'expired' : undefined,
-    'reseller' // Only fetch reseller invitations
+    'reseller', // Only fetch reseller invitations
+    canInviteResellers
   );
 
   // Create invite mutation
@@ -186,6 +202,38 @@ const Users = () => {
     return user.status || (user.isActive ? 'active' : 'inactive');
   };
 
+  const canManageUser = (user: ExtendedUser) =>
+    !!currentUser &&
+    canAccessRecord(permissions, 'users.manage', currentUser, {
+      ownerId: user.id,
+      clientId: user.clientId,
+      resellerId: user.resellerId,
+    });
+
+  const getRoleName = (user: ExtendedUser) =>
+    user.customRoleId ? roles.find((role) => role.id === user.customRoleId)?.name : undefined;
+
+  const handleEditRole = (role: RoleDefinition | null) => {
+    setRoleToEdit(role);
+    setIsRoleDialogOpen(true);
+  };
+
+  const handleDeleteRole = (role: RoleDefinition) => {
+    if (!confirm(`Delete the ${role.name} role? Users with this role will fall back to their built-in permissions.`)) {
+      return;
+    }
+    deleteRole.mutate(role.id, {
+      onSuccess: () => {
+        toast.success("Role deleted");
+      },
+      onError: (error) => {
+        toast.error("Failed to delete role", {
+          description: error instanceof Error ? error.message : "Please try again.",
+        });
+      },
+    });
+  };
+
   if (error) {
     return (
       <div className="space-y-6">
@@ -206,14 +254,24 @@ const Users = () => {
       >
         <div>
           <h2 className="text-2xl font-bold text-foreground">User Management</h2>
-          <p className="text-muted-foreground">Manage platform users and access</p>
+          <p className="text-muted-foreground">Manage platform users, roles and access</p>
         </div>
-        <Button onClick={() => setIsInviteDialogOpen(true)}>
-          <UserPlus className="h-4 w-4 mr-2" />
-          Invite Reseller
-        </Button>
+        {canInviteResellers && (
+          <Button onClick={() => setIsInviteDialogOpen(true)}>
+            <UserPlus className="h-4 w-4 mr-2" />
+            Invite Reseller
+          </Button>
+        )}
       </motion.div>
 
+      <RoleEditorDialog open={isRoleDialogOpen} onOpenChange={setIsRoleDialogOpen} role={roleToEdit} />
+      <UserAccessDialog
+        open={!!userForAccess}
+        onOpenChange={(open) => !open && setUserForAccess(null)}
+        user={userForAccess}
+        roles={roles}
+      />
+
       {/* Decline User Confirmation Dialog */}
       <Dialog open={isDeclineDialogOpen} onOpenChange={setIsDeclineDialogOpen}>
         <DialogContent>
@@ -326,14 +384,26 @@ const Users = () => {
               </Badge>
             )}
           </TabsTrigger>
-          <TabsTrigger value="invitations">
-            Reseller Invitations
-            {resellerInvites.length > 0 && (
-              <Badge variant="secondary" className="ml-2">
-                {resellerInvites.length}
-              </Badge>
-            )}
-          </TabsTrigger>
+          {canInviteResellers && (
+            <TabsTrigger value="invitations">
+              Reseller Invitations
+              {resellerInvites.length > 0 && (
+                <Badge variant="secondary" className="ml-2">
+                  {resellerInvites.length}
+                </Badge>
+              )}
+            </TabsTrigger>
+          )}
+          {canManageRoles && (
+            <TabsTrigger value="roles">
+              Roles
+              {roles.length > 0 && (
+                <Badge variant="secondary" className="ml-2">
+                  {roles.length}
+                </Badge>
+              )}
+            </TabsTrigger>
+          )}
         </TabsList>
 
         {/* Users Tab */}
@@ -410,6 +480,12 @@ const Users = () => {
                         <Badge className={cn("text-xs flex-shrink-0", roleColors[user.role])}>
                         {user.role}
                       </Badge>
+                      {getRoleName(user) && (
+                          <Badge variant="outline" className="text-xs flex-shrink-0">
+                            <Shield className="h-3 w-3 mr-1" />
+                            {getRoleName(user)}
+                          </Badge>
+                      )}
                       {getUserStatus(user) === 'pending' ? (
                           <Badge variant="secondary" className="bg-warning/10 text-warning flex-shrink-0">
                           <Clock className="h-3 w-3 mr-1" />
@@ -449,7 +525,19 @@ const Users = () => {
                     </div>
                   </div>
                   </div>
+                  {canManageUser(user) && (
                   <div className="flex gap-2 flex-shrink-0 sm:flex-shrink-0">
+                    {canManageRoles && user.id !== currentUser?.id && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setUserForAccess(user)}
+                        className="w-full sm:w-auto"
+                      >
+                        <KeyRound className="h-4 w-4 mr-2" />
+                        Access
+                      </Button>
+                    )}
                     {getUserStatus(user) === 'pending' && user.role === 'reseller' ? (
                       <>
                         <Button
@@ -529,6 +617,7 @@ const Users = () => {
                       </Button>
                     )}
                   </div>
+                  )}
                 </CardContent>
               </Card>
             </motion.div>
@@ -538,6 +627,7 @@ const Users = () => {
         </TabsContent>
 
         {/* Reseller Invitations Tab */}
+        {canInviteResellers && (
         <TabsContent value="invitations" className="space-y-4">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
             <div>
@@ -675,6 +765,91 @@ const Users = () => {
             </div>
           )}
         </TabsContent>
+        )}
+
+        {/* Roles Tab */}
+        {canManageRoles && (
+        <TabsContent value="roles" className="space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <h3 className="text-lg font-semibold">Roles</h3>
+              <p className="text-sm text-muted-foreground">
+                Custom roles replace the built-in permissions for the users they are assigned to
+              </p>
+            </div>
+            <Button onClick={() => handleEditRole(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create Role
+            </Button>
+          </div>
+
+          {isLoadingRoles ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : roles.length === 0 ? (
+            <Card>
+              <CardContent className="py-8 text-center text-muted-foreground">
+                <Shield className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <p>No custom roles yet</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-4">
+              {roles.map((role) => {
+                const assignedCount = users.filter((user) => user.customRoleId === role.id).length;
+
+                return (
+                  <Card key={role.id}>
+                    <CardContent className="p-4">
+                      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+                        <div className="flex-1 space-y-2 min-w-0">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Shield className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                            <span className="font-medium break-words">{role.name}</span>
+                            <Badge className={cn("text-xs flex-shrink-0", roleColors[role.baseRole])}>
+                              {role.baseRole}
+                            </Badge>
+                          </div>
+                          {role.description && (
+                            <p className="text-sm text-muted-foreground break-words">{role.description}</p>
+                          )}
+                          <p className="text-xs text-muted-foreground">
+                            {role.grants.length} permission{role.grants.length === 1 ? "" : "s"} • {assignedCount} user{assignedCount === 1 ? "" : "s"}
+                          </p>
+                        </div>
+                        {!role.isSystem && (
+                          <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 flex-shrink-0">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEditRole(role)}
+                              className="w-full sm:w-auto"
+                            >
+                              <Pencil className="h-4 w-4 mr-1" />
+                              Edit
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDeleteRole(role)}
+                              disabled={deleteRole.isPending}
+                              className="w-full sm:w-auto"
+                            >
+                              <Trash2 className="h-4 w-4 mr-1" />
+                              Delete
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { motion } from "framer-motion";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { ArrowLeft, UserPlus, Truck, Calendar, MapPin, Package, Loader2, CheckCircle2, Car, AlertTriangle, Route, Fuel, PackageSearch } from "lucide-react";
@@ -9,10 +9,20 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useBooking, useAssignDriver, useBookCourier } from "@/hooks/useBookings";
 import { useDrivers } from "@/hooks/useDrivers";
+import { useJobs } from "@/hooks/useJobs";
+import { useRoutePlan } from "@/hooks/useRoutePlan";
+import { useWarehouses } from "@/hooks/useWarehouses";
+import { MapPicker } from "@/components/booking/MapPicker";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { toast } from "sonner";
 import type { BookingLifecycleStatus } from "@/types/booking-lifecycle";
-import { calculateRoundTripDistance, geocodePostcode, kmToMiles } from "@/lib/calculations";
+import { calculateRoundTripDistance, calculateTravelEmissions, geocodePostcode, kmToMiles } from "@/lib/calculations";
+import type { RouteStop } from "@/lib/route-optimisation";
+import { getWarehouseCoordinates } from "@/lib/warehouses";
+import { canDriverEditJob, getJobRouteStop } from "@/utils/job-helpers";
+import { getTransitions } from "@/lib/booking-state-machine";
+import { CarrierShipmentForm } from "@/components/bookings/ShipmentTracking";
+import { IssueReturnsKitForm } from "@/components/bookings/ReturnsKit";
 
 const Assignment = () => {
   const navigate = useNavigate();
@@ -29,8 +39,17 @@ const Assignment = () => {
   const [otherCourierService, setOtherCourierService] = useState<string>("");
   const assignMutation = useAssignDriver();
   const bookCourierMutation = useBookCourier();
+  const { data: jobs = [] } = useJobs();
+  const { data: warehouses = [], isLoading: isLoadingWarehouses } = useWarehouses();
+
+  // Distances and the driver's route start from the warehouse processing this booking
+  const bookingWarehouse = warehouses.find(warehouse => warehouse.id === booking?.warehouseId) || null;
+  const depot = useMemo(() => getWarehouseCoordinates(bookingWarehouse), [bookingWarehouse]);
   
   const isJMLBooking = booking?.bookingType === 'jml';
+  // Carrier shipments replace the manual tracking entry wherever a courier can still be booked
+  const canBookCarrier =
+    isJMLBooking && !!booking && getTransitions(booking).some((transition) => transition.action === 'book_courier');
   
   // Filter out drivers without allocated vehicles
   const driversWithVehicles = drivers.filter(driver => driver.hasVehicle && (driver.vehicleReg || (driver.vehicles && driver.vehicles.length > 0)));
@@ -42,6 +61,38 @@ const Assignment = () => {
       ? [{ id: assignedDriver.vehicleId || '', vehicleReg: assignedDriver.vehicleReg, vehicleType: assignedDriver.vehicleType || 'van', vehicleFuelType: assignedDriver.vehicleFuelType || 'diesel' }]
       : [];
 
+  // Stops the selected driver already has on the booking's collection day
+  const driverDayStops = useMemo(() => {
+    if (!booking || !selectedDriverVehicle) return [];
+    const bookingDay = new Date(booking.scheduledDate).toDateString();
+    return jobs
+      .filter(job =>
+        job.driver?.id === selectedDriverVehicle.driverId &&
+        job.bookingId !== booking.id &&
+        canDriverEditJob(job) &&
+        new Date(job.scheduledDate).toDateString() === bookingDay
+      )
+      .map(getJobRouteStop)
+      .filter((stop): stop is RouteStop => stop !== null);
+  }, [jobs, booking, selectedDriverVehicle]);
+
+  const bookingStop = useMemo<RouteStop | null>(
+    () => booking?.lat && booking?.lng
+      ? { id: booking.id, lat: booking.lat, lng: booking.lng, label: `${booking.bookingNumber} · ${booking.siteName}` }
+      : null,
+    [booking]
+  );
+
+  // Plan the driver's day with and without this collection to show what it adds
+  const { data: currentRoute } = useRoutePlan(driverDayStops, depot);
+  const { data: proposedRoute, isLoading: isPlanningRoute } = useRoutePlan(
+    bookingStop && selectedDriverVehicle ? [...driverDayStops, bookingStop] : [],
+    depot
+  );
+  const addedRouteDistanceKm = proposedRoute
+    ? proposedRoute.totalDistanceKm - (driverDayStops.length > 0 ? currentRoute?.totalDistanceKm ?? 0 : 0)
+    : null;
+
   // Set selected driver-vehicle if booking already has one
   useEffect(() => {
     if (booking?.driverId) {
@@ -73,7 +124,7 @@ const Assignment = () => {
       if (booking?.lat && booking?.lng) {
         setIsCalculatingDistance(true);
         try {
-          const distanceKm = await calculateRoundTripDistance(booking.lat, booking.lng);
+          const distanceKm = await calculateRoundTripDistance(booking.lat, booking.lng, depot);
           setRoundTripDistanceKm(distanceKm);
         } catch (error) {
           console.error('Error calculating road distance from coordinates:', error);
@@ -85,7 +136,7 @@ const Assignment = () => {
                 const postcode = postcodeMatch[0].replace(/\s+/g, ' ').trim().toUpperCase();
                 const coordinates = await geocodePostcode(postcode);
                 if (coordinates) {
-                  const distanceKm = await calculateRoundTripDistance(coordinates.lat, coordinates.lng);
+                  const distanceKm = await calculateRoundTripDistance(coordinates.lat, coordinates.lng, depot);
                   setRoundTripDistanceKm(distanceKm);
                   return;
                 }
@@ -113,7 +164,7 @@ const Assignment = () => {
             const postcode = postcodeMatch[0].replace(/\s+/g, ' ').trim().toUpperCase();
             const coordinates = await geocodePostcode(postcode);
             if (coordinates) {
-              const distanceKm = await calculateRoundTripDistance(coordinates.lat, coordinates.lng);
+              const distanceKm = await calculateRoundTripDistance(coordinates.lat, coordinates.lng, depot);
               setRoundTripDistanceKm(distanceKm);
               setIsCalculatingDistance(false);
               return;
@@ -135,10 +186,10 @@ const Assignment = () => {
       setIsCalculatingDistance(false);
     };
 
-    if (booking) {
+    if (booking && !isLoadingWarehouses) {
       calculateDistance();
     }
-  }, [booking]);
+  }, [booking, depot, isLoadingWarehouses]);
 
   const handleAssign = () => {
     if (!bookingId || !selectedDriverVehicle) {
@@ -418,7 +469,7 @@ const Assignment = () => {
                     )}
                     {roundTripDistanceKm > 0 && (
                       <p className="text-xs text-muted-foreground mt-0.5">
-                        From collection site to warehouse and return
+                        From collection site to {bookingWarehouse?.name || "warehouse"} and return
                       </p>
                     )}
                   </div>
@@ -504,6 +555,26 @@ const Assignment = () => {
                     )}
                   </div>
                 )}
+                {canBookCarrier && (
+                  <>
+                    {booking.leaverFulfilment === "returns_kit" ? (
+                      <IssueReturnsKitForm
+                        bookingId={booking.id}
+                        onIssued={() => navigate(`/bookings/${booking.id}/timeline`)}
+                      />
+                    ) : (
+                      <CarrierShipmentForm
+                        bookingId={booking.id}
+                        onBooked={() => navigate(`/bookings/${booking.id}/timeline`)}
+                      />
+                    )}
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                      <div className="h-px flex-1 bg-border" />
+                      or enter a tracking number booked elsewhere
+                      <div className="h-px flex-1 bg-border" />
+                    </div>
+                  </>
+                )}
                 <div className="space-y-2">
                   <Label htmlFor="courier-service">Courier Service *</Label>
                   <Select value={courierService} onValueChange={setCourierService}>
@@ -713,6 +784,36 @@ const Assignment = () => {
                           </div>
                         </div>
                         
+                        {/* Driver's day with this collection added */}
+                        {isPlanningRoute ? (
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            Planning route...
+                          </div>
+                        ) : proposedRoute && addedRouteDistanceKm !== null && (
+                          <div className="space-y-2">
+                            <div className="flex items-center justify-between text-sm">
+                              <span className="flex items-center gap-2 font-medium">
+                                <Route className="h-4 w-4 text-muted-foreground" />
+                                {proposedRoute.stops.length === 1
+                                  ? "Only collection that day"
+                                  : `Stop ${proposedRoute.stops.findIndex(stop => stop.id === booking.id) + 1} of ${proposedRoute.stops.length}`}
+                              </span>
+                              <span className="text-muted-foreground">
+                                +{addedRouteDistanceKm.toFixed(1)} km · {calculateTravelEmissions(addedRouteDistanceKm, vehicle).toFixed(1)} kg CO₂e
+                              </span>
+                            </div>
+                            {proposedRoute.stops.length > 1 && (
+                              <MapPicker position={null} route={proposedRoute} readOnly height="220px" />
+                            )}
+                            <p className="text-xs text-muted-foreground">
+                              Day route {proposedRoute.totalDistanceKm.toFixed(1)} km
+                              {roundTripDistanceKm ? ` vs ${roundTripDistanceKm.toFixed(1)} km as a standalone trip` : ""}
+                              {proposedRoute.isEstimate && " (approximate road distances)"}
+                            </p>
+                          </div>
+                        )}
+
                         {/* Vehicle Mismatch Warning */}
                         {booking.preferredVehicleType && 
                          vehicle.vehicleFuelType !== booking.preferredVehicleType && (
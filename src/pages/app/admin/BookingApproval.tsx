@@ -26,6 +26,7 @@ import { Label } from "@/components/ui/label";
 import { useBooking, useApproveBooking, useUpdateBookingStatus, useCompleteBooking, useCheckJobIdUnique } from "@/hooks/useBookings";
 import { useGradingRecords } from "@/hooks/useGrading";
 import { useSanitisationRecords } from "@/hooks/useSanitisation";
+import { useNextErpJobNumber } from "@/hooks/useErp";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { toast } from "sonner";
 import { useMemo, useState } from "react";
@@ -33,6 +34,7 @@ import { cn } from "@/lib/utils";
 import { useQuery } from "@tanstack/react-query";
 import { inventoryService } from "@/services/inventory.service";
 import { getUnderlyingAssetCategoryNameForJml } from "@/lib/jml-assets";
+import { checkTransition, evaluateGuard } from "@/lib/booking-state-machine";
 
 /** Match JML device line category (e.g. "Phone") to client inventory row category (e.g. "Smart Phones"). */
 function jmlInventoryCategoryMatchesDevice(deviceCategory: string, inventoryCategory: string): boolean {
@@ -65,6 +67,7 @@ const BookingApproval = () => {
   const cancelBooking = useUpdateBookingStatus();
   const completeBooking = useCompleteBooking();
   const checkJobIdUnique = useCheckJobIdUnique();
+  const { data: nextJobNumber } = useNextErpJobNumber(booking?.status === 'pending');
   const [approvalNotes, setApprovalNotes] = useState("");
   const [erpJobNumber, setErpJobNumber] = useState("");
   const [cancellationNotes, setCancellationNotes] = useState("");
@@ -78,17 +81,16 @@ const BookingApproval = () => {
     (booking?.jmlSubType === 'leaver' ||
       booking?.jmlSubType === 'breakfix' ||
       booking?.jmlSubType === 'mover');
-  const isJmlMover = booking?.bookingType === 'jml' && booking?.jmlSubType === 'mover';
-  // Leaver/breakfix/mover collection leg: must reach inventory before complete from this page (graded → inventory → …).
-  // Mover at inventory continues to device allocation (not completed from this page).
   const isDeliveredNewStarter = booking?.bookingType === 'jml' && booking?.jmlSubType === 'new_starter' && booking?.status === 'delivered';
   const isDeliveredMover = booking?.bookingType === 'jml' && booking?.jmlSubType === 'mover' && booking?.status === 'delivered';
   /** JML bookings that use this page after delivery, before completed (final overview). */
   const isDeliveredJmlFinalReview = isDeliveredNewStarter || isDeliveredMover;
-  const canCompleteFromThisPage =
-    (isGraded && !isLeaverOrBreakfixOrMover) ||
-    (isInventory && !isJmlMover) ||
-    isDeliveredJmlFinalReview;
+  // The booking's flow decides whether it completes from here (e.g. a leaver at graded
+  // still has to go through inventory, a mover at inventory goes on to device allocation)
+  const completion = booking
+    ? checkTransition(booking, 'completed', { gradingRecords, sanitisationRecords })
+    : null;
+  const canCompleteFromThisPage = !!completion?.transition;
 
   const { data: clientInventory = [], isLoading: isLoadingClientInventory } = useQuery({
     queryKey: ['inventory', booking?.clientId, 'delivered-jml-final', booking?.jmlSubType],
@@ -141,10 +143,13 @@ const BookingApproval = () => {
     return clientInventory.filter((i) => serialSet.has(i.serialNumber));
   }, [clientInventory, deliveredSerialNumbers]);
 
+  // With automatic numbering the Job ID can be left blank and is generated on approval
+  const isAutoNumbered = nextJobNumber?.mode === 'auto';
+
   const handleApprove = async () => {
     if (!id) return;
 
-    if (!erpJobNumber.trim()) {
+    if (!erpJobNumber.trim() && !isAutoNumbered) {
       toast.error("Job ID is required", {
         description: "Please enter a unique Job ID before approving the booking.",
       });
@@ -153,21 +158,23 @@ const BookingApproval = () => {
 
     // Check if Job ID is unique before approving
     try {
-      const result = await checkJobIdUnique.mutateAsync({
-        bookingId: id,
-        erpJobNumber: erpJobNumber.trim(),
-      });
-
-      if (!result.isUnique) {
-        toast.error("Duplicate Job ID", {
-          description: `Job ID "${erpJobNumber.trim()}" already exists. Please enter a unique Job ID.`,
+      if (erpJobNumber.trim()) {
+        const result = await checkJobIdUnique.mutateAsync({
+          bookingId: id,
+          erpJobNumber: erpJobNumber.trim(),
         });
-        return;
+
+        if (!result.isUnique) {
+          toast.error("Duplicate Job ID", {
+            description: `Job ID "${erpJobNumber.trim()}" already exists. Please enter a unique Job ID.`,
+          });
+          return;
+        }
       }
 
-      // Job ID is unique, proceed with approval
+      // Job ID is unique (or will be generated), proceed with approval
       approveBooking.mutate(
-        { bookingId: id, erpJobNumber: erpJobNumber.trim(), notes: approvalNotes || undefined },
+        { bookingId: id, erpJobNumber: erpJobNumber.trim() || undefined, notes: approvalNotes || undefined },
         {
           onSuccess: () => {
             toast.success("Booking approved successfully!", {
@@ -281,16 +288,13 @@ const BookingApproval = () => {
   // For graded/inventory bookings, calculate completion data
   const isPostGrading = isGraded || isInventory;
   const showFinalReviewChrome = isPostGrading || isDeliveredJmlFinalReview;
-  const allAssetsGraded = isPostGrading ? booking?.assets.every(asset => {
-    const gradedQty = gradingRecords
-      .filter(r => r.assetId === asset.categoryId)
-      .reduce((s, r) => s + (r.quantity || 0), 0);
-    return gradedQty >= asset.quantity;
-  }) : false;
+  const allAssetsGraded = isPostGrading
+    ? evaluateGuard('all_assets_graded', booking, { gradingRecords })
+    : false;
   
-  const allAssetsSanitised = isPostGrading ? booking?.assets.every(asset => {
-    return sanitisationRecords.some(record => record.assetId === asset.categoryId);
-  }) : false;
+  const allAssetsSanitised = isPostGrading
+    ? evaluateGuard('all_assets_sanitised', booking, { sanitisationRecords })
+    : false;
   
   const totalResaleValue = isPostGrading ? gradingRecords.reduce((sum, record) => {
     return sum + (record.resaleValue * (record.quantity || 1));
@@ -311,7 +315,7 @@ const BookingApproval = () => {
     },
     {
       id: 'sanitised',
-      label: 'All assets sanitised',
+      label: 'All assets sanitised and verified',
       completed: allAssetsSanitised || false,
       count: `${uniqueSanitisedAssets}/${booking?.assets.length || 0} assets`,
     },
@@ -328,9 +332,9 @@ const BookingApproval = () => {
   const handleComplete = () => {
     if (!id) return;
     
-    if (!allProcessesComplete) {
+    if (!allProcessesComplete || !completion?.allowed) {
       toast.error("Cannot approve booking", {
-        description: "Some required processes appear incomplete. Please verify all steps have been completed.",
+        description: completion?.reason || "Some required processes appear incomplete. Please verify all steps have been completed.",
       });
       return;
     }
@@ -1018,18 +1022,24 @@ const BookingApproval = () => {
                 <div className="space-y-4">
                   <div className="space-y-2">
                     <Label htmlFor="erp-job-number" className="text-sm font-medium">
-                      Job ID <span className="text-destructive">*</span>
+                      Job ID {isAutoNumbered ? "(Optional)" : <span className="text-destructive">*</span>}
                     </Label>
                     <Input
                       id="erp-job-number"
-                      placeholder="Enter unique Job ID from ERP system"
+                      placeholder={
+                        isAutoNumbered
+                          ? `Leave blank to use ${nextJobNumber?.erpJobNumber}`
+                          : "Enter unique Job ID from ERP system"
+                      }
                       value={erpJobNumber}
                       onChange={(e) => setErpJobNumber(e.target.value)}
-                      required
+                      required={!isAutoNumbered}
                       className="font-mono"
                     />
                     <p className="text-xs text-muted-foreground">
-                      Enter the unique Job ID from the ERP system. This will be used to link the booking to the ERP job. The system will verify uniqueness when you approve.
+                      {isAutoNumbered
+                        ? "Job IDs are generated automatically. Enter one only if this booking needs a specific number. The system will verify uniqueness when you approve."
+                        : "Enter the unique Job ID from the ERP system. This will be used to link the booking to the ERP job. The system will verify uniqueness when you approve."}
                     </p>
                   </div>
                   <div className="space-y-2">
@@ -1103,7 +1113,9 @@ const BookingApproval = () => {
                       variant="success"
                       size="lg"
                       onClick={handleApprove}
-                      disabled={approveBooking.isPending || checkJobIdUnique.isPending || !erpJobNumber.trim()}
+                      disabled={
+                        approveBooking.isPending || checkJobIdUnique.isPending || (!erpJobNumber.trim() && !isAutoNumbered)
+                      }
                       className="w-full sm:w-auto"
                     >
                       {checkJobIdUnique.isPending ? (
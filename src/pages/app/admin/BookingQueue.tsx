@@ -22,6 +22,8 @@ import { useDrivers } from "@/hooks/useDrivers";
 import { useReassignDriver } from "@/hooks/useJobs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { getStatusLabelExtended, getStatusColor, getStatusLabel } from "@/types/booking-lifecycle";
+import { getAvailableActions, type BookingAction } from "@/lib/booking-state-machine";
+import { useAuth } from "@/contexts/AuthContext";
 import type { BookingLifecycleStatus } from "@/types/booking-lifecycle";
 import { BookingTypeBadge } from "@/components/bookings/BookingTypeBadge";
 import { toast } from "sonner";
@@ -39,122 +41,22 @@ const statusGroups: { label: string; statuses: (BookingLifecycleStatus | 'cancel
   { label: "Cancelled", statuses: ['cancelled'] },
 ];
 
-// Determine the single logical next status for a booking
-// This respects different workflows (ITAD, New Starter, Leaver, Breakfix, Mover)
-const getNextStatusForBooking = (booking: {
-  status: BookingLifecycleStatus | "cancelled";
-  bookingType?: "itad_collection" | "jml" | null;
-  jmlSubType?: "new_starter" | "leaver" | "breakfix" | "mover" | null;
-}): BookingLifecycleStatus | null => {
-  const { status, bookingType, jmlSubType } = booking;
-
-  // No next status for terminal states
-  if (status === "completed" || status === "cancelled") return null;
-
-  // Created, device_allocated, warehouse, sanitised, graded are driven by
-  // explicit actions (Assign Driver, Allocate Device, Record Sanitisation, Grade Assets, Final Approval)
-  if (
-    status === "created" ||
-    status === "device_allocated" ||
-    status === "warehouse" ||
-    status === "sanitised" ||
-    status === "graded"
-  ) {
-    return null;
-  }
-
-  // ITAD collection (non-JML)
-  const isItad = !bookingType || bookingType === "itad_collection";
-  const isJml = bookingType === "jml";
-
-  if (isItad) {
-    switch (status) {
-      // ITAD: driver moves created → scheduled → collected → warehouse.
-      // Admin only needs a helper from collected → warehouse if needed.
-      case "collected":
-        return "warehouse";
-      default:
-        return null;
-    }
-  }
-
-  // JML flows
-  if (isJml) {
-    switch (jmlSubType) {
-      case "new_starter":
-        switch (status) {
-          // Created → device_allocated (Allocate Device button)
-          // device_allocated → courier_booked (Book Courier button)
-          case "courier_booked":
-            return "dispatched";
-          case "dispatched":
-            return "delivered";
-          case "delivered":
-            return "completed";
-          default:
-            return null;
-        }
-      case "leaver":
-        switch (status) {
-          // Created → collection_scheduled (Book Courier button)
-          case "collection_scheduled":
-            return "collected";
-          case "collected":
-            return "warehouse";
-          case "graded":
-            return "inventory";
-          case "inventory":
-            return "completed";
-          default:
-            return null;
-        }
-      case "breakfix":
-        switch (status) {
-          // Created → device_allocated (Allocate Device button)
-          // device_allocated → courier_booked (Book Courier button)
-          case "courier_booked":
-            return "dispatched";
-          case "dispatched":
-            return "delivered";
-          case "delivered":
-            return "collected"; // Broken device collected
-          case "collected":
-            return "warehouse";
-          case "graded":
-            return "inventory";
-          case "inventory":
-            return "completed";
-          default:
-            return null;
-        }
-      case "mover":
-        switch (status) {
-          // Created → collection_scheduled (Book Courier button)
-          case "collection_scheduled":
-            return "collected";
-          case "collected":
-            return "warehouse";
-          case "graded":
-            return "inventory";
-          case "inventory":
-            return "device_allocated";
-          case "device_allocated":
-            return "courier_booked";
-          case "courier_booked":
-            return "dispatched";
-          case "dispatched":
-            return "delivered";
-          case "delivered":
-            return "completed";
-          default:
-            return null;
-        }
-      default:
-        return null;
-    }
-  }
-
-  return null;
+// Admin pages that perform each lifecycle action ('advance' is a plain status update
+// rendered as a button; 'driver_job' and 'cancel' happen elsewhere)
+const actionLinks: Partial<Record<BookingAction, {
+  label: string;
+  icon?: typeof Package;
+  href: (bookingId: string) => string;
+  variant?: "default" | "success";
+}>> = {
+  approve: { label: "Review & Approve", href: (id) => `/admin/booking-approval/${id}` },
+  assign_driver: { label: "Assign Driver", icon: UserPlus, href: (id) => `/admin/assign?booking=${id}` },
+  allocate_device: { label: "Allocate Device", icon: Package, href: (id) => `/admin/device-allocation?booking=${id}` },
+  book_courier: { label: "Book Courier", icon: PackageSearch, href: (id) => `/admin/assign?booking=${id}` },
+  record_sanitisation: { label: "Record Sanitisation", href: (id) => `/admin/sanitisation/${id}` },
+  grade_assets: { label: "Grade Assets", href: (id) => `/admin/grading/${id}` },
+  add_to_inventory: { label: "Add to Inventory List", href: (id) => `/admin/booking-inventory/${id}` },
+  complete: { label: "Final Overview", href: (id) => `/admin/booking-approval/${id}`, variant: "success" },
 };
 
 const BookingQueue = () => {
@@ -162,6 +64,7 @@ const BookingQueue = () => {
   const [statusGroup, setStatusGroup] = useState<string>("all");
   const [reassignBookingId, setReassignBookingId] = useState<string | null>(null);
   const [selectedDriverId, setSelectedDriverId] = useState<string>("");
+  const { user } = useAuth();
 
   const { data: bookings = [], isLoading, error } = useBookings();
   const { data: drivers = [] } = useDrivers();
@@ -402,140 +305,34 @@ const BookingQueue = () => {
                                 Re-assign Driver
                               </Button>
                             )}
-                            {booking.status === 'pending' && (
-                              <Button variant="default" asChild className="w-full mt-2" size="sm">
-                                <Link to={`/admin/booking-approval/${booking.id}`} className="text-inherit no-underline">
-                                  Review & Approve
-                                </Link>
-                              </Button>
-                            )}
-                            {/* Only show Assign Driver for ITAD bookings - explicitly exclude JML */}
-                            {booking.status === 'created' && 
-                             booking.bookingType !== 'jml' && 
-                             (booking.bookingType === 'itad_collection' || booking.bookingType === undefined || booking.bookingType === null) && (
-                              <Button variant="default" asChild className="w-full mt-2" size="sm">
-                                <Link to={`/admin/assign?booking=${booking.id}`} className="text-inherit no-underline">
-                                  <UserPlus />
-                                  Assign Driver
-                                </Link>
-                              </Button>
-                            )}
-                            {/* Show Allocate Device for new_starter and breakfix in created status */}
-                            {booking.status === 'created' &&
-                              booking.bookingType === 'jml' &&
-                              (booking.jmlSubType === 'new_starter' || booking.jmlSubType === 'breakfix') && (
-                              <Button variant="default" asChild className="w-full mt-2" size="sm">
-                                <Link to={`/admin/device-allocation?booking=${booking.id}`} className="text-inherit no-underline">
-                                  <Package />
-                                  Allocate Device
-                                </Link>
-                              </Button>
-                            )}
-                            {/* Show Book Courier for JML bookings in device_allocated status */}
-                            {booking.status === 'device_allocated' &&
-                              booking.bookingType === 'jml' && (
-                              <Button variant="default" asChild className="w-full mt-2" size="sm">
-                                <Link to={`/admin/assign?booking=${booking.id}`} className="text-inherit no-underline">
-                                  <PackageSearch />
-                                  Book Courier
-                                </Link>
-                              </Button>
-                            )}
-                            {/* Show Book Courier for leaver and mover in created status (no device allocation needed) */}
-                            {booking.status === 'created' &&
-                              booking.bookingType === 'jml' &&
-                              (booking.jmlSubType === 'leaver' || booking.jmlSubType === 'mover') && (
-                              <Button variant="default" asChild className="w-full mt-2" size="sm">
-                                <Link to={`/admin/assign?booking=${booking.id}`} className="text-inherit no-underline">
-                                  <PackageSearch />
-                                  Book Courier
-                                </Link>
-                              </Button>
-                            )}
-                            {booking.status === 'warehouse' &&
-                              (booking.bookingType === 'jml' && booking.jmlSubType === 'mover' ? (
-                                <Button asChild className="w-full mt-2" size="sm" variant="default">
-                                  <Link to={`/admin/grading/${booking.id}`} className="text-inherit no-underline">
-                                    Grade Assets
-                                  </Link>
-                                </Button>
-                              ) : (
-                                <Button asChild className="w-full mt-2" size="sm" variant="default">
-                                  <Link to={`/admin/sanitisation/${booking.id}`} className="text-inherit no-underline">
-                                    Record Sanitisation
-                                  </Link>
-                                </Button>
-                              ))}
-                            {booking.status === 'sanitised' && (
-                              <Button asChild className="w-full mt-2" size="sm" variant="default">
-                                <Link to={`/admin/grading/${booking.id}`} className="text-inherit no-underline">
-                                  Grade Assets
-                                </Link>
-                              </Button>
-                            )}
-                            {booking.status === 'graded' &&
-                              booking.bookingType === 'jml' &&
-                              (booking.jmlSubType === 'leaver' ||
-                                booking.jmlSubType === 'breakfix' ||
-                                booking.jmlSubType === 'mover') && (
-                              <Button asChild className="w-full mt-2" size="sm" variant="default">
-                                <Link to={`/admin/booking-inventory/${booking.id}`} className="text-inherit no-underline">
-                                  Add to Inventory List
-                                </Link>
-                              </Button>
-                            )}
-                            {/* Next-step button: for inventory status nextStatus is 'completed', so dynamic block below shows Final Overview */}
-                            {/* Single next-step button per status, only where there is no dedicated action */}
-                            {(() => {
-                              const nextStatus = getNextStatusForBooking(booking as any);
-                              if (!nextStatus) return null;
-
-                              // Mover at inventory: allocate all devices linked to this booking (device allocation page auto-runs)
-                              if (
-                                booking.bookingType === 'jml' &&
-                                booking.jmlSubType === 'mover' &&
-                                booking.status === 'inventory' &&
-                                nextStatus === 'device_allocated'
-                              ) {
-                                return (
-                                  <Button asChild className="w-full mt-2" size="sm" variant="success">
-                                    <Link to={`/admin/device-allocation?booking=${booking.id}`} className="text-inherit no-underline">
-                                      <Package className="h-4 w-4 mr-2 inline" />
-                                      Allocate Device
-                                    </Link>
-                                  </Button>
-                                );
-                              }
-
-                              // For any status that goes directly to Completed, send admin to final overview page
-                              if (nextStatus === 'completed') {
+                            {getAvailableActions(booking, user?.role || "admin").map((action) => {
+                              if (action.action === 'advance') {
                                 return (
                                   <Button
-                                    asChild
+                                    key={action.to}
+                                    variant="default"
                                     className="w-full mt-2"
                                     size="sm"
-                                    variant="success"
                                     disabled={updateBookingStatus.isPending}
+                                    onClick={() => handleUpdateStatus(booking.id, action.to)}
                                   >
-                                    <Link to={`/admin/booking-approval/${booking.id}`} className="text-inherit no-underline">
-                                      Final Overview
-                                    </Link>
+                                    {`Move to ${getStatusLabelExtended(action.to)}`}
                                   </Button>
                                 );
                               }
 
+                              const link = actionLinks[action.action];
+                              if (!link) return null;
+                              const Icon = link.icon;
                               return (
-                                <Button
-                                  variant="default"
-                                  className="w-full mt-2"
-                                  size="sm"
-                                  disabled={updateBookingStatus.isPending}
-                                  onClick={() => handleUpdateStatus(booking.id, nextStatus)}
-                                >
-                                  {`Move to ${getStatusLabel(nextStatus)}`}
+                                <Button key={action.to} variant={link.variant || "default"} asChild className="w-full mt-2" size="sm">
+                                  <Link to={link.href(booking.id)} className="text-inherit no-underline">
+                                    {Icon && <Icon />}
+                                    {link.label}
+                                  </Link>
                                 </Button>
                               );
-                            })()}
+                            })}
                             <Button variant="outline" asChild className="w-full mt-2" size="sm">
                               <Link to={`/bookings/${booking.id}`} className="text-inherit no-underline">
                                 View Details
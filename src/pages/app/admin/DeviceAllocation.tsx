@@ -17,6 +17,8 @@ import { toast } from "sonner";
 import { format } from "date-fns";
 import { Badge } from "@/components/ui/badge";
 import { InventoryItem } from "@/services/inventory.service";
+import { BarcodeScanButton } from "@/components/scanner/BarcodeScanner";
+import { normaliseSerialNumber } from "@/lib/blancco";
 
 interface DeviceRequirement {
   category: string;
@@ -306,6 +308,23 @@ const DeviceAllocation = () => {
     setSelectValues(prev => ({ ...prev, [requirementIndex]: "" }));
   };
 
+  // A scanned serial number or IMEI picks the matching device for the requirement
+  const handleDeviceScan = (requirementIndex: number, value: string) => {
+    const scanned = normaliseSerialNumber(value);
+    const inventoryItem = getAvailableDevicesForRequirement(deviceRequirements[requirementIndex]).find(
+      (item) =>
+        normaliseSerialNumber(item.serialNumber) === scanned ||
+        (!!item.imei && normaliseSerialNumber(item.imei) === scanned)
+    );
+    if (!inventoryItem) {
+      toast.error("Device not available for this requirement", {
+        description: `${value} isn't in inventory, is already allocated or doesn't match the make and model.`,
+      });
+      return;
+    }
+    handleDeviceSelect(requirementIndex, inventoryItem.serialNumber);
+  };
+
   const handleRemoveDevice = (requirementIndex: number, serialNumber: string) => {
     setSelectedDevices(prev => 
       prev.filter(s => !(s.requirementIndex === requirementIndex && s.serialNumber === serialNumber))
@@ -574,31 +593,39 @@ const DeviceAllocation = () => {
                             </AlertDescription>
                           </Alert>
                         ) : (
-                          <Select
-                            value={selectValues[index] || ""}
-                            onValueChange={(value) => handleDeviceSelect(index, value)}
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="Choose a device..." />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {availableDevices
-                                .filter(item => !selectedForReq.some(s => s.serialNumber === item.serialNumber))
-                                .map((item) => (
-                                  <SelectItem key={item.id} value={item.serialNumber}>
-                                    <div className="flex flex-col gap-1">
-                                      <span className="font-medium">{item.make} • {item.model}</span>
-                                      <div className="text-xs text-muted-foreground">
-                                        <span className="font-mono">{item.serialNumber}</span>
-                                        {item.conditionCode && (
-                                          <span className="ml-2">• Condition: {item.conditionCode}</span>
-                                        )}
+                          <div className="flex gap-2">
+                            <Select
+                              value={selectValues[index] || ""}
+                              onValueChange={(value) => handleDeviceSelect(index, value)}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Choose a device..." />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {availableDevices
+                                  .filter(item => !selectedForReq.some(s => s.serialNumber === item.serialNumber))
+                                  .map((item) => (
+                                    <SelectItem key={item.id} value={item.serialNumber}>
+                                      <div className="flex flex-col gap-1">
+                                        <span className="font-medium">{item.make} • {item.model}</span>
+                                        <div className="text-xs text-muted-foreground">
+                                          <span className="font-mono">{item.serialNumber}</span>
+                                          {item.conditionCode && (
+                                            <span className="ml-2">• Condition: {item.conditionCode}</span>
+                                          )}
+                                        </div>
                                       </div>
-                                    </div>
-                                  </SelectItem>
-                                ))}
-                            </SelectContent>
-                          </Select>
+                                    </SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                            <BarcodeScanButton
+                              title="Scan Device"
+                              description="Scan the serial number or IMEI of the device to allocate"
+                              continuous={requirement.quantity > 1}
+                              onScan={(value) => handleDeviceScan(index, value)}
+                            />
+                          </div>
                         )}
                       </div>
 
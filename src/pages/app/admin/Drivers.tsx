@@ -25,6 +25,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useDrivers, useDeleteDriverProfile } from "@/hooks/useDrivers";
 import { useInvites, useCancelInvite } from "@/hooks/useInvites";
 import { useVehicles, useAllocateVehicle, useRemoveDriverFromVehicle } from "@/hooks/useVehicles";
+import { useSearchDeepLink } from "@/hooks/useSearchDeepLink";
 import { useAuth } from "@/contexts/AuthContext";
 import { authService } from "@/services/auth.service";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
@@ -52,6 +53,7 @@ const Drivers = () => {
   const cancelInvite = useCancelInvite();
   const allocateVehicle = useAllocateVehicle();
   const removeDriver = useRemoveDriverFromVehicle();
+  const { isHighlighted } = useSearchDeepLink({ onSearch: setSearchQuery, isReady: !isLoading });
 
   // Create invite mutation
   const createInvite = useMutation({
@@ -369,7 +371,7 @@ const Drivers = () => {
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: index * 0.05 }}
             >
-              <Card>
+              <Card data-search-id={driver.id} className={cn(isHighlighted(driver.id) && "ring-2 ring-primary")}>
                 <CardHeader>
                   <div className="flex items-center justify-between">
                     <CardTitle className="text-lg">{driver.name}</CardTitle>
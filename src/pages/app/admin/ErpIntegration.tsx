@@ -0,0 +1,79 @@
+import { useSearchParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { History, Loader2, Settings2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ErpConnectorForm } from "@/components/erp/ErpConnectorForm";
+import { ErpSyncHistory } from "@/components/erp/ErpSyncHistory";
+import { useErpConnector } from "@/hooks/useErp";
+
+const ErpIntegration = () => {
+  const [searchParams] = useSearchParams();
+  const runId = searchParams.get("run");
+  const { data: connector, isLoading, error } = useErpConnector();
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-destructive">Failed to load the ERP connector. Please try refreshing the page.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-3">
+            ERP Integration
+            {connector && (
+              <Badge
+                variant="secondary"
+                className={connector.enabled ? "bg-success/10 text-success" : "bg-muted text-muted-foreground"}
+              >
+                {connector.enabled ? "Connected" : "Disabled"}
+              </Badge>
+            )}
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Configure how jobs, inventory and clients are synced to the ERP, and follow up on failed records
+          </p>
+        </div>
+      </div>
+
+      {isLoading || !connector ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.1 }}>
+          <Tabs defaultValue={runId ? "history" : "connector"} className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="connector">
+                <Settings2 className="h-4 w-4 mr-2" />
+                Connector
+              </TabsTrigger>
+              <TabsTrigger value="history">
+                <History className="h-4 w-4 mr-2" />
+                Sync History
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="connector">
+              <ErpConnectorForm connector={connector} />
+            </TabsContent>
+            <TabsContent value="history">
+              <ErpSyncHistory initialRunId={runId} />
+            </TabsContent>
+          </Tabs>
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+export default ErpIntegration;
@@ -1,7 +1,7 @@
 import { useEffect, useMemo, useState } from "react";
 import { motion } from "framer-motion";
 import { useParams, Link, useNavigate } from "react-router-dom";
-import { ArrowLeft, Award, Loader2, Plus, PoundSterling, CheckCircle2, FileCheck, ArrowRight, X } from "lucide-react";
+import { ArrowLeft, Award, Loader2, Plus, PoundSterling, CheckCircle2, FileCheck, ArrowRight, X, ScanBarcode } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -17,14 +17,10 @@ import { useAuth } from "@/contexts/AuthContext";
 import { cn } from "@/lib/utils";
 import { categoryRequiresImei, getUnderlyingAssetCategoryNameForJml } from "@/lib/jml-assets";
 import { buildJmlDeviceDetailsMapFromBooking } from "@/lib/jml-booking-device-details";
-
-const grades: { value: 'A' | 'B' | 'C' | 'D' | 'Q'; label: string; color: string }[] = [
-  { value: 'A', label: 'Grade A', color: 'bg-success/10 text-success' },
-  { value: 'B', label: 'Grade B', color: 'bg-info/10 text-info' },
-  { value: 'C', label: 'Grade C', color: 'bg-warning/10 text-warning' },
-  { value: 'D', label: 'Grade D', color: 'bg-destructive/10 text-destructive' },
-  { value: 'Q', label: 'Grade Q', color: 'bg-destructive/10 text-destructive' },
-];
+import { buildConditionCode, describeDefects, gradeOptions } from "@/lib/grading";
+import { BulkGradingStation } from "@/components/grading/BulkGradingStation";
+import { BarcodeScanButton } from "@/components/scanner/BarcodeScanner";
+import { getImeiError } from "@/lib/barcode";
 
 const Grading = () => {
   const { id } = useParams();
@@ -44,6 +40,7 @@ const Grading = () => {
   const [quantity, setQuantity] = useState<number>(1);
   const [serialNumbersText, setSerialNumbersText] = useState<string>("");
   const [showForm, setShowForm] = useState(false);
+  const [showBulk, setShowBulk] = useState(false);
   const [serialInput, setSerialInput] = useState<string>("");
   const [imeiNumbersText, setImeiNumbersText] = useState<string>("");
   const [imeiInput, setImeiInput] = useState<string>("");
@@ -131,17 +128,22 @@ const Grading = () => {
     return undefined;
   }, [deviceDetailsMap, selectedAsset]);
 
-  const autoConditionCode = useMemo(() => {
-    const g = (grade || '').trim().toUpperCase();
-    if (!g) return '';
-
-    const make = (selectedAssetDevice?.make || '').trim();
-    if (!make) return '';
+  // Device make per asset category, for the bulk grading condition codes
+  const deviceMakes = useMemo(() => {
+    const makes: Record<string, string | undefined> = {};
+    booking?.assets.forEach((asset) => {
+      const device =
+        deviceDetailsMap.get(String(asset.categoryName || "").trim().toLowerCase()) ||
+        deviceDetailsMap.get(String(asset.categoryId || "").trim().toLowerCase());
+      makes[asset.categoryId] = device?.make;
+    });
+    return makes;
+  }, [booking, deviceDetailsMap]);
 
-    const prefix = make.replace(/[^a-zA-Z]/g, '').toUpperCase().slice(0, 3);
-    if (!prefix) return '';
-    return `${prefix}${g.slice(0, 1)}`;
-  }, [grade, selectedAssetDevice?.make]);
+  const autoConditionCode = useMemo(
+    () => buildConditionCode(selectedAssetDevice?.make, grade),
+    [grade, selectedAssetDevice?.make]
+  );
 
   useEffect(() => {
     if (autoConditionCode) setCondition(autoConditionCode);
@@ -174,6 +176,29 @@ const Grading = () => {
     quantity || 0
   );
 
+  const addSerialNumber = (value: string) => {
+    const serial = value.trim();
+    if (!serial || parsedSerialNumbers.length >= quantity) return;
+    if (!parsedSerialNumbers.includes(serial)) {
+      setSerialNumbersText(prev => prev ? `${prev}\n${serial}` : serial);
+    }
+    setSerialInput("");
+  };
+
+  const addImei = (value: string) => {
+    const imei = value.trim();
+    if (!imei || parsedImeiNumbers.length >= quantity) return;
+    const imeiError = getImeiError(imei);
+    if (imeiError) {
+      toast.error("Invalid IMEI", { description: imeiError });
+      return;
+    }
+    if (!parsedImeiNumbers.includes(imei)) {
+      setImeiNumbersText(prev => prev ? `${prev}\n${imei}` : imei);
+    }
+    setImeiInput("");
+  };
+
   const handleCreateRecord = async () => {
     if (!id || !selectedAssetId || !grade || !user) {
       toast.error("Please fill in all required fields");
@@ -217,6 +242,11 @@ const Grading = () => {
           });
           return;
         }
+        const invalidImei = parsedImeiNumbers.map(getImeiError).find(Boolean);
+        if (invalidImei) {
+          toast.error("Invalid IMEI", { description: invalidImei });
+          return;
+        }
       }
     }
 
@@ -357,11 +387,17 @@ const Grading = () => {
           <p className="text-muted-foreground">{booking.bookingNumber} - {booking.organisationName || booking.clientName}</p>
           </div>
         </div>
-        {!showForm && (
-          <Button variant="default" onClick={() => setShowForm(true)} className="w-full sm:w-auto">
-            <Plus className="h-4 w-4 mr-2" />
-            Grade Asset
-          </Button>
+        {!showForm && !showBulk && (
+          <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+            <Button variant="outline" onClick={() => setShowBulk(true)} className="w-full sm:w-auto">
+              <ScanBarcode className="h-4 w-4 mr-2" />
+              Bulk Grading
+            </Button>
+            <Button variant="default" onClick={() => setShowForm(true)} className="w-full sm:w-auto">
+              <Plus className="h-4 w-4 mr-2" />
+              Grade Asset
+            </Button>
+          </div>
         )}
       </motion.div>
 
@@ -440,6 +476,21 @@ const Grading = () => {
         </CardContent>
       </Card>
 
+      {showBulk && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <BulkGradingStation
+            bookingId={booking.id}
+            assets={booking.assets}
+            records={records}
+            deviceMakes={deviceMakes}
+            onClose={() => setShowBulk(false)}
+          />
+        </motion.div>
+      )}
+
       {/* Create Record Form */}
       {showForm && (
         <motion.div
@@ -484,7 +535,7 @@ const Grading = () => {
                     <SelectValue placeholder="Select grade..." />
                   </SelectTrigger>
                   <SelectContent>
-                    {grades.map((g) => (
+                    {gradeOptions.map((g) => (
                       <SelectItem key={g.value} value={g.value}>
                         {g.label}
                       </SelectItem>
@@ -558,15 +609,7 @@ const Grading = () => {
                       onKeyDown={(e) => {
                         if (e.key === "Enter") {
                           e.preventDefault();
-                          const value = serialInput.trim();
-                          if (!value) return;
-                          if (parsedSerialNumbers.length >= quantity) return;
-                          if (!parsedSerialNumbers.includes(value)) {
-                            setSerialNumbersText(prev =>
-                              prev ? `${prev}\n${value}` : value
-                            );
-                          }
-                          setSerialInput("");
+                          addSerialNumber(serialInput);
                         }
                       }}
                     />
@@ -574,20 +617,24 @@ const Grading = () => {
                       type="button"
                       variant="outline"
                       disabled={parsedSerialNumbers.length >= quantity}
-                      onClick={() => {
-                        const value = serialInput.trim();
-                        if (!value) return;
-                        if (parsedSerialNumbers.length >= quantity) return;
-                        if (!parsedSerialNumbers.includes(value)) {
-                          setSerialNumbersText(prev =>
-                            prev ? `${prev}\n${value}` : value
-                          );
-                        }
-                        setSerialInput("");
-                      }}
+                      onClick={() => addSerialNumber(serialInput)}
                     >
                       Add
                     </Button>
+                    <BarcodeScanButton
+                      title="Scan Serial Numbers"
+                      description="Scan each device's serial number label"
+                      continuous
+                      disabled={parsedSerialNumbers.length >= quantity}
+                      validate={(value) =>
+                        parsedSerialNumbers.includes(value)
+                          ? `${value} is already added`
+                          : parsedSerialNumbers.length >= quantity
+                            ? `Maximum ${quantity} serial(s) added`
+                            : null
+                      }
+                      onScan={addSerialNumber}
+                    />
                   </div>
                   <p className="text-xs text-muted-foreground">
                     Add up to {quantity} serial number{quantity !== 1 ? "s" : ""}: {parsedSerialNumbers.length}/{quantity}
@@ -643,15 +690,7 @@ const Grading = () => {
                       onKeyDown={(e) => {
                         if (e.key === "Enter") {
                           e.preventDefault();
-                          const value = imeiInput.trim();
-                          if (!value) return;
-                          if (parsedImeiNumbers.length >= quantity) return;
-                          if (!parsedImeiNumbers.includes(value)) {
-                            setImeiNumbersText(prev =>
-                              prev ? `${prev}\n${value}` : value
-                            );
-                          }
-                          setImeiInput("");
+                          addImei(imeiInput);
                         }
                       }}
                     />
@@ -659,20 +698,25 @@ const Grading = () => {
                       type="button"
                       variant="outline"
                       disabled={parsedImeiNumbers.length >= quantity}
-                      onClick={() => {
-                        const value = imeiInput.trim();
-                        if (!value) return;
-                        if (parsedImeiNumbers.length >= quantity) return;
-                        if (!parsedImeiNumbers.includes(value)) {
-                          setImeiNumbersText(prev =>
-                            prev ? `${prev}\n${value}` : value
-                          );
-                        }
-                        setImeiInput("");
-                      }}
+                      onClick={() => addImei(imeiInput)}
                     >
                       Add
                     </Button>
+                    <BarcodeScanButton
+                      title="Scan IMEIs"
+                      description="Scan the IMEI barcode on each device or its box"
+                      kind="imei"
+                      continuous
+                      disabled={parsedImeiNumbers.length >= quantity}
+                      validate={(value) =>
+                        parsedImeiNumbers.includes(value)
+                          ? `${value} is already added`
+                          : parsedImeiNumbers.length >= quantity
+                            ? `Maximum ${quantity} IMEI(s) added`
+                            : null
+                      }
+                      onScan={addImei}
+                    />
                   </div>
                   <p className="text-xs text-muted-foreground">
                     Add {quantity} IMEI{quantity !== 1 ? "s" : ""} (one per device): {parsedImeiNumbers.length}/{quantity}
@@ -773,7 +817,7 @@ const Grading = () => {
                         <div className="flex-1 space-y-2">
                           <div className="flex items-center gap-2">
                             <Award className="h-4 w-4 text-muted-foreground" />
-                            <Badge className={cn("text-sm", grades.find(g => g.value === r.grade)?.color)}>
+                            <Badge className={cn("text-sm", gradeOptions.find(g => g.value === r.grade)?.color)}>
                               Grade {r.grade}
                             </Badge>
                             <Badge variant="outline">{r.quantity} unit{r.quantity === 1 ? '' : 's'}</Badge>
@@ -794,6 +838,9 @@ const Grading = () => {
                             {r.condition && (
                               <p><span className="text-muted-foreground">Condition:</span> <span className="text-foreground">{r.condition}</span></p>
                             )}
+                            {r.defects?.length ? (
+                              <p><span className="text-muted-foreground">Defects:</span> <span className="text-foreground">{describeDefects(r.defects)}</span></p>
+                            ) : null}
                             {r.serialNumbers?.length ? (
                               <p>
                                 <span className="text-muted-foreground">Serials:</span>{" "}
@@ -1,6 +1,6 @@
 import { useState, useMemo } from "react";
 import { Link } from "react-router-dom";
-import { Search, Calendar, MapPin, Package, ArrowRight, Loader2, Truck, User, Mail, Phone, Laptop, Wrench } from "lucide-react";
+import { Search, Calendar, CalendarClock, MapPin, Package, ArrowRight, Loader2, Truck, User, Mail, Phone, Laptop, Wrench } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -16,11 +16,15 @@ import {
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { useBookings } from "@/hooks/useBookings";
+import { useJmlMilestones } from "@/hooks/useJmlSchedule";
+import { JmlMilestoneAlertBadge } from "@/components/bookings/JmlSchedule";
+import { leaverFulfilmentConfig } from "@/lib/returns-kit";
 import { useAvailableInventory } from "@/hooks/useInventory";
 import { jmlBookingService } from "@/services/jml-booking.service";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { format } from "date-fns";
+import type { JmlMilestone } from "@/types/jml-schedule";
 
 const JMLBookings = () => {
   const [searchQuery, setSearchQuery] = useState("");
@@ -40,6 +44,15 @@ const JMLBookings = () => {
   const queryClient = useQueryClient();
 
   const { data: bookings = [], isLoading } = useBookings();
+  const { data: milestones = [] } = useJmlMilestones();
+
+  const milestonesByBooking = useMemo(() => {
+    const grouped = new Map<string, JmlMilestone[]>();
+    milestones.forEach((milestone) => {
+      grouped.set(milestone.bookingId, [...(grouped.get(milestone.bookingId) || []), milestone]);
+    });
+    return grouped;
+  }, [milestones]);
   
   // Filter JML bookings only
   const jmlBookings = useMemo(() => {
@@ -227,6 +240,12 @@ const JMLBookings = () => {
             Manage Joiners, Leavers, Movers bookings
           </p>
         </div>
+        <Button variant="outline" asChild>
+          <Link to="/jml/schedule">
+            <CalendarClock className="h-4 w-4 mr-2" />
+            JML Schedule
+          </Link>
+        </Button>
       </div>
 
       <div className="flex gap-4">
@@ -280,13 +299,25 @@ const JMLBookings = () => {
                   <div className="flex-1 space-y-2">
                     <div className="flex items-center gap-3">
                       <SubTypeIcon className="h-5 w-5 text-muted-foreground" />
-                      <h3 className="font-semibold text-lg">{booking.employeeName || 'N/A'}</h3>
+                      <h3 className="font-semibold text-lg">
+                        {booking.employeeId ? (
+                          <Link to={`/employees/${booking.employeeId}`} className="hover:underline">
+                            {booking.employeeName || 'N/A'}
+                          </Link>
+                        ) : (
+                          booking.employeeName || 'N/A'
+                        )}
+                      </h3>
                       <Badge className={statusColors[booking.status] || ''}>
                         {booking.status.replace('_', ' ')}
                       </Badge>
                       <Badge variant="outline">
                         {subTypeLabels[booking.jmlSubType || ''] || booking.jmlSubType}
                       </Badge>
+                      {booking.leaverFulfilment === 'returns_kit' && (
+                        <Badge variant="outline">{leaverFulfilmentConfig.returns_kit.label}</Badge>
+                      )}
+                      <JmlMilestoneAlertBadge milestones={milestonesByBooking.get(booking.id) || []} />
                     </div>
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm text-muted-foreground">
                       <div className="flex items-center gap-2">
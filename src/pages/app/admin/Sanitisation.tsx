@@ -2,7 +2,7 @@ import { useState } from "react";
 import { motion } from "framer-motion";
 import { useParams, Link, useNavigate } from "react-router-dom";
 import { useQueryClient } from "@tanstack/react-query";
-import { ArrowLeft, Shield, CheckCircle2, Clock, Loader2, Plus, Download, ArrowRight } from "lucide-react";
+import { ArrowLeft, Shield, CheckCircle2, Clock, Loader2, Plus, Download, ArrowRight, FileUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -16,6 +16,8 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
 import { cn } from "@/lib/utils";
+import { BlanccoImportDialog } from "@/components/sanitisation/BlanccoImportDialog";
+import { BlanccoImportReview } from "@/components/sanitisation/BlanccoImportReview";
 
 const sanitisationMethods = [
   { value: 'blancco', label: 'NIST-800-88 Software Wipe' },
@@ -41,6 +43,7 @@ const Sanitisation = () => {
   const [methodDetails, setMethodDetails] = useState<string>("");
   const [notes, setNotes] = useState<string>("");
   const [showForm, setShowForm] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   const handleCreateRecord = () => {
     if (!id || !selectedAssetId || !method || !user) {
@@ -206,13 +209,24 @@ const Sanitisation = () => {
           </div>
         </div>
         {!showForm && (
-          <Button variant="default" onClick={() => setShowForm(true)} className="w-full sm:w-auto">
-            <Plus className="h-4 w-4 mr-2" />
-            Record Sanitisation
-          </Button>
+          <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+            <Button variant="outline" onClick={() => setIsImportOpen(true)} className="w-full sm:w-auto">
+              <FileUp className="h-4 w-4 mr-2" />
+              Import Blancco Reports
+            </Button>
+            <Button variant="default" onClick={() => setShowForm(true)} className="w-full sm:w-auto">
+              <Plus className="h-4 w-4 mr-2" />
+              Record Sanitisation
+            </Button>
+          </div>
         )}
       </motion.div>
 
+      <BlanccoImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} bookingId={booking.id} />
+
+      {/* Imported devices needing review */}
+      <BlanccoImportReview bookingId={booking.id} assets={booking.assets} />
+
       {/* Create Record Form */}
       {showForm && (
         <motion.div
@@ -351,6 +365,9 @@ const Sanitisation = () => {
                           </div>
                           <div className="text-sm space-y-1">
                             <p><span className="text-muted-foreground">Certificate ID:</span> <span className="font-mono text-foreground">{record.certificateId}</span></p>
+                            {record.serialNumber && (
+                              <p><span className="text-muted-foreground">Serial Number:</span> <span className="font-mono text-foreground">{record.serialNumber}</span></p>
+                            )}
                             <p>
                               <span className="text-muted-foreground">Performed:</span> <span className="text-foreground">{new Date(record.timestamp).toLocaleString("en-GB")}</span>
                             </p>
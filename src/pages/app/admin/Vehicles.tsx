@@ -26,6 +26,7 @@ import {
 } from "@/components/ui/select";
 import { useVehicles, useCreateVehicle, useUpdateVehicle, useDeleteVehicle, useAllocateVehicle, useRemoveDriverFromVehicle } from "@/hooks/useVehicles";
 import { useDrivers } from "@/hooks/useDrivers";
+import { useSearchDeepLink } from "@/hooks/useSearchDeepLink";
 import { toast } from "sonner";
 
 // Steering Wheel Icon Component (from @lucide/lab)
@@ -54,6 +55,7 @@ const Vehicles = () => {
   const deleteVehicle = useDeleteVehicle();
   const allocateVehicle = useAllocateVehicle();
   const removeDriver = useRemoveDriverFromVehicle();
+  const { isHighlighted } = useSearchDeepLink({ onSearch: setSearchQuery, isReady: !isLoading });
 
   const filteredVehicles = vehicles.filter((vehicle) => {
     const driverNames = vehicle.drivers?.map(vd => vd.driver.name).join(' ') || '';
@@ -323,11 +325,13 @@ const Vehicles = () => {
               transition={{ delay: index * 0.05 }}
             >
               <Card
+                data-search-id={vehicle.id}
                 className={cn(
                   "transition-all",
                   vehicle.drivers && vehicle.drivers.length > 0
                     ? "bg-success/5"
-                    : "bg-warning/5"
+                    : "bg-warning/5",
+                  isHighlighted(vehicle.id) && "ring-2 ring-primary"
                 )}
               >
                 <CardHeader>
@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { Search, Plus, Trash2, Loader2, Edit2, MapPin, Clock, Star, Warehouse as WarehouseIcon } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { WarehouseFormDialog } from "@/components/warehouses/WarehouseFormDialog";
+import { useWarehouses, useDeleteWarehouse } from "@/hooks/useWarehouses";
+import { WEEKDAYS, warehouseCapabilityLabels } from "@/lib/warehouses";
+import type { Warehouse } from "@/services/warehouse.service";
+import { toast } from "sonner";
+
+/**
+ * Summarise opening hours, e.g. "Mon–Fri 08:00–18:00, Sat 09:00–13:00"
+ */
+function formatOperatingHours(warehouse: Warehouse): string {
+  // Consecutive days with the same hours share a group
+  const groups: Array<{ from: string; to: string; hours: string; lastIndex: number }> = [];
+  WEEKDAYS.forEach((weekday, index) => {
+    const hours = warehouse.operatingHours.find((candidate) => candidate.day === weekday.id);
+    if (!hours) return;
+    const label = weekday.label.slice(0, 3);
+    const range = `${hours.open}–${hours.close}`;
+    const last = groups[groups.length - 1];
+    if (last && last.hours === range && last.lastIndex === index - 1) {
+      last.to = label;
+      last.lastIndex = index;
+    } else {
+      groups.push({ from: label, to: label, hours: range, lastIndex: index });
+    }
+  });
+  return groups.length > 0
+    ? groups.map((group) => `${group.from === group.to ? group.from : `${group.from}–${group.to}`} ${group.hours}`).join(", ")
+    : "No opening hours";
+}
+
+const Warehouses = () => {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [selectedWarehouse, setSelectedWarehouse] = useState<Warehouse | null>(null);
+
+  const { data: warehouses = [], isLoading, error } = useWarehouses();
+  const deleteWarehouse = useDeleteWarehouse();
+
+  const filteredWarehouses = warehouses.filter((warehouse) =>
+    [warehouse.name, warehouse.code, warehouse.address, warehouse.postcode, warehouse.country]
+      .some((value) => value.toLowerCase().includes(searchQuery.toLowerCase()))
+  );
+
+  const handleCreateClick = () => {
+    setSelectedWarehouse(null);
+    setIsFormDialogOpen(true);
+  };
+
+  const handleEditClick = (warehouse: Warehouse) => {
+    setSelectedWarehouse(warehouse);
+    setIsFormDialogOpen(true);
+  };
+
+  const handleDeleteClick = (warehouse: Warehouse) => {
+    setSelectedWarehouse(warehouse);
+    setIsDeleteDialogOpen(true);
+  };
+
+  const handleDeleteConfirm = () => {
+    if (!selectedWarehouse) return;
+
+    deleteWarehouse.mutate(selectedWarehouse.id, {
+      onSuccess: () => {
+        toast.success("Warehouse deleted successfully");
+        setIsDeleteDialogOpen(false);
+        setSelectedWarehouse(null);
+      },
+      onError: (error) => {
+        toast.error("Failed to delete warehouse", {
+          description: error instanceof Error ? error.message : "Please try again.",
+        });
+      },
+    });
+  };
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-destructive">
+              Failed to load warehouses. Please try refreshing the page.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Warehouses</h1>
+          <p className="text-muted-foreground mt-1">
+            Manage the depots that collections are routed to and processed at
+          </p>
+        </div>
+        <Button onClick={handleCreateClick}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Warehouse
+        </Button>
+      </div>
+
+      {/* Search */}
+      <motion.div
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="relative"
+      >
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search warehouses by name, code, address or country..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="pl-9"
+        />
+      </motion.div>
+
+      {/* Warehouses List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : filteredWarehouses.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <WarehouseIcon className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">
+              {searchQuery
+                ? "No warehouses found matching your search."
+                : "No warehouses found. Add your first warehouse to get started."}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {filteredWarehouses.map((warehouse, index) => (
+            <motion.div
+              key={warehouse.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+            >
+              <Card className={cn("transition-all", !warehouse.isActive && "opacity-60")}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <CardTitle className="text-lg truncate">{warehouse.name}</CardTitle>
+                      <Badge variant="outline" className="font-mono">{warehouse.code}</Badge>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => handleEditClick(warehouse)}>
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteClick(warehouse)}
+                        disabled={deleteWarehouse.isPending || warehouse.isDefault}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {warehouse.isDefault && (
+                      <Badge className="bg-primary/10 text-primary border-primary/20">
+                        <Star className="h-3 w-3 mr-1" />
+                        Default
+                      </Badge>
+                    )}
+                    {!warehouse.isActive && <Badge variant="secondary">Inactive</Badge>}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <div className="flex items-start gap-2">
+                    <MapPin className="h-4 w-4 text-muted-foreground mt-0.5 shrink-0" />
+                    <span>
+                      {warehouse.address}, {warehouse.postcode} ({warehouse.country})
+                    </span>
+                  </div>
+                  <div className="flex items-start gap-2">
+                    <Clock className="h-4 w-4 text-muted-foreground mt-0.5 shrink-0" />
+                    <span className="text-muted-foreground">{formatOperatingHours(warehouse)}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1 pt-1">
+                    {warehouse.capabilities.map((capability) => (
+                      <Badge key={capability} variant="secondary" className="text-xs">
+                        {warehouseCapabilityLabels[capability]}
+                      </Badge>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          ))}
+        </div>
+      )}
+
+      <WarehouseFormDialog
+        open={isFormDialogOpen}
+        onOpenChange={setIsFormDialogOpen}
+        warehouse={selectedWarehouse}
+      />
+
+      {/* Delete Warehouse Confirmation Dialog */}
+      <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Warehouse</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete {selectedWarehouse?.name}? This action cannot be undone. The
+              warehouse must not have any open bookings.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setIsDeleteDialogOpen(false);
+                setSelectedWarehouse(null);
+              }}
+              disabled={deleteWarehouse.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeleteConfirm}
+              disabled={deleteWarehouse.isPending}
+            >
+              {deleteWarehouse.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                "Delete"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Warehouses;
@@ -1,6 +1,14 @@
 // API Client for making HTTP requests to backend
-import { API_BASE_URL } from '@/lib/config';
-import { ApiError, ApiErrorType } from './api-error';
+import { API_BASE_URL, API_MAX_RETRIES, API_TIMEOUT_MS, USE_MOCKS } from '@/lib/config';
+import { recordSchemaMismatch } from '@/lib/schema-mismatch-log';
+import { ApiError, ApiErrorType, errorTypeFromStatus } from './api-error';
+import {
+  createCsrfMiddleware,
+  createSchemaValidationMiddleware,
+  retryMiddleware,
+  timeoutMiddleware,
+} from './api-middleware';
+import { findResponseSchema } from './api-schemas';
 
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -10,12 +18,61 @@ export interface ApiResponse<T = any> {
   fields?: Record<string, string>; // Field-specific validation errors
 }
 
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Per-request options accepted by every ApiClient method
+ */
+export interface RequestOptions {
+  signal?: AbortSignal; // Cancel the request (e.g. react-query's queryFn signal)
+  timeoutMs?: number; // Override the default timeout
+  retries?: number; // Override the default retry count (0 disables retries)
+  headers?: Record<string, string>;
+}
+
+/**
+ * A request as it flows through the middleware pipeline
+ */
+export interface ApiRequest {
+  endpoint: string;
+  url: string;
+  method: HttpMethod;
+  body?: unknown;
+  headers: Record<string, string>;
+  signal?: AbortSignal;
+  timeoutMs: number;
+  retries: number;
+  attempt: number; // 0 for the first attempt, incremented by the retry middleware
+}
+
+export type ApiHandler = (request: ApiRequest) => Promise<unknown>;
+
+/**
+ * Middleware wraps the rest of the pipeline: it may modify the request,
+ * call next() zero or more times, and transform the result or error.
+ */
+export type ApiMiddleware = (request: ApiRequest, next: ApiHandler) => Promise<unknown>;
+
 class ApiClient {
   private baseUrl: string;
   private csrfToken: string | null = null;
+  private middlewares: ApiMiddleware[] = [];
 
   constructor() {
     this.baseUrl = API_BASE_URL;
+
+    // Outermost first: each retry attempt gets its own CSRF header and timeout
+    this.use(retryMiddleware);
+    this.use(createCsrfMiddleware({
+      getToken: () => this.csrfToken,
+      setToken: (token) => this.setCsrfToken(token),
+      refreshToken: () => this.ensureCsrfToken(),
+    }));
+    this.use(timeoutMiddleware);
+    this.use(createSchemaValidationMiddleware(
+      findResponseSchema,
+      import.meta.env.DEV ? recordSchemaMismatch : undefined
+    ));
   }
 
   /**
@@ -25,6 +82,13 @@ class ApiClient {
     this.csrfToken = token;
   }
 
+  /**
+   * Append a middleware to the pipeline (runs inside the ones already registered)
+   */
+  use(middleware: ApiMiddleware) {
+    this.middlewares.push(middleware);
+  }
+
   /**
    * Get CSRF token from server if not available
    * Only attempts to fetch if we're likely authenticated (have cookies)
@@ -34,11 +98,16 @@ class ApiClient {
       return this.csrfToken;
     }
 
+    // The mock backend hands out its token on login
+    if (USE_MOCKS) {
+      return null;
+    }
+
     // Don't try to fetch CSRF token if we're not authenticated
     // CSRF protection only applies to authenticated requests
     // If the request fails with 401, it means we're not authenticated anyway
     // and CSRF protection won't be required
-    
+
     // Try to get CSRF token from server (requires authentication)
     try {
       const response = await fetch(`${this.baseUrl}/auth/csrf-token`, {
@@ -65,208 +134,140 @@ class ApiClient {
     return null;
   }
 
-  private async request<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
-
-    // Determine if this is a state-changing request that needs CSRF protection
-    const isStateChanging = ['POST', 'PUT', 'PATCH', 'DELETE'].includes(options.method || 'GET');
-
-    // Get CSRF token for state-changing requests
-    let csrfToken = this.csrfToken;
-    if (isStateChanging && !csrfToken) {
-      csrfToken = await this.ensureCsrfToken();
-    }
-
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-      ...options.headers,
-    };
-
-    // Add CSRF token to headers for state-changing requests
-    if (isStateChanging && csrfToken) {
-      headers['X-CSRF-Token'] = csrfToken;
-    }
-
-    // Cookies are automatically sent with credentials: 'include'
-    // No need to manually add Authorization header anymore
+  /**
+   * Terminal handler in mock mode: the mock server is loaded on first use so it
+   * stays out of the production bundle
+   */
+  private sendToMockServer = async (request: ApiRequest): Promise<unknown> => {
+    const { mockServer } = await import('@/mocks/mock-server');
+    return mockServer.handle(request);
+  };
 
+  /**
+   * Terminal handler: performs the fetch and maps the response envelope to data or ApiError
+   */
+  private send = async (request: ApiRequest): Promise<unknown> => {
+    let response: Response;
     try {
-      const response = await fetch(url, {
-        ...options,
-        headers,
+      response = await fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
         credentials: 'include', // Include cookies (httpOnly auth_token) in requests
+        signal: request.signal,
       });
-
-      const data: ApiResponse<T> = await response.json();
-
-      // Handle CSRF token errors - try to refresh token and retry once
-      if (response.status === 403 && isStateChanging && data.error && 
-          (data.error.includes('CSRF') || data.error.includes('csrf'))) {
-        // Clear current token and try to get a new one
-        this.csrfToken = null;
-        const newToken = await this.ensureCsrfToken();
-        
-        if (newToken) {
-          // Retry the request with new CSRF token
-          const retryHeaders: HeadersInit = {
-            'Content-Type': 'application/json',
-            ...options.headers,
-            'X-CSRF-Token': newToken,
-          };
-          
-          const retryResponse = await fetch(url, {
-            ...options,
-            headers: retryHeaders,
-            credentials: 'include',
-          });
-          
-          const retryData: ApiResponse<T> = await retryResponse.json();
-          
-          if (!retryResponse.ok) {
-            // Handle error response
-            const errorMessage = retryData.error || retryData.message || 'Request failed';
-            let errorType = ApiErrorType.SERVER_ERROR;
-
-            switch (retryResponse.status) {
-              case 400:
-                errorType = ApiErrorType.VALIDATION_ERROR;
-                break;
-              case 401:
-                errorType = ApiErrorType.UNAUTHORIZED;
-                break;
-              case 403:
-                errorType = ApiErrorType.FORBIDDEN;
-                break;
-              case 404:
-                errorType = ApiErrorType.NOT_FOUND;
-                break;
-              case 429:
-                errorType = ApiErrorType.RATE_LIMIT;
-                break;
-              case 408:
-                errorType = ApiErrorType.TIMEOUT;
-                break;
-            }
-
-            throw new ApiError(errorType, errorMessage, retryResponse.status, undefined, retryData.fields);
-          }
-
-          if (!retryData.success) {
-            throw new ApiError(
-              ApiErrorType.SERVER_ERROR,
-              retryData.error || 'Request failed',
-              retryResponse.status,
-              undefined,
-              retryData.fields
-            );
-          }
-
-          return retryData.data as T;
-        }
-      }
-
-      if (!response.ok) {
-        // Handle error response
-        const errorMessage = data.error || data.message || 'Request failed';
-        let errorType = ApiErrorType.SERVER_ERROR;
-
-        switch (response.status) {
-          case 400:
-            errorType = ApiErrorType.VALIDATION_ERROR;
-            break;
-          case 401:
-            errorType = ApiErrorType.UNAUTHORIZED;
-            break;
-          case 403:
-            errorType = ApiErrorType.FORBIDDEN;
-            break;
-          case 404:
-            errorType = ApiErrorType.NOT_FOUND;
-            break;
-          case 429:
-            errorType = ApiErrorType.RATE_LIMIT;
-            break;
-          case 408:
-            errorType = ApiErrorType.TIMEOUT;
-            break;
-        }
-
-        throw new ApiError(errorType, errorMessage, response.status, undefined, data.fields);
-      }
-
-      if (!data.success) {
-        throw new ApiError(
-          ApiErrorType.SERVER_ERROR,
-          data.error || 'Request failed',
-          response.status,
-          undefined,
-          data.fields
-        );
-      }
-
-      // Ensure we never return undefined - if data.data is undefined, return appropriate default
-      if (data.data === undefined || data.data === null) {
-        // For array types, return empty array; for other types, return null
-        // We can't determine the type at runtime, so we'll return null
-        // Individual services should handle this case
-        return null as T;
-      }
-
-      return data.data as T;
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
       }
-
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        throw new ApiError(ApiErrorType.CANCELLED, 'Request was cancelled', 0);
+      }
       // Network error
-      if (error instanceof TypeError && error.message.includes('fetch')) {
+      if (error instanceof TypeError) {
         throw new ApiError(
           ApiErrorType.NETWORK_ERROR,
           'Network error. Please check your connection and try again.',
           0
         );
       }
-
       throw new ApiError(
         ApiErrorType.SERVER_ERROR,
         error instanceof Error ? error.message : 'An unexpected error occurred',
         500
       );
     }
+
+    let data: ApiResponse;
+    try {
+      data = await response.json();
+    } catch {
+      // Non-JSON body (e.g. proxy error page)
+      data = { success: false, error: response.statusText || 'Invalid response from server' };
+    }
+
+    if (!response.ok) {
+      // Handle error response
+      const retryAfter = response.headers.get('Retry-After');
+      throw new ApiError(
+        errorTypeFromStatus(response.status),
+        data.error || data.message || 'Request failed',
+        response.status,
+        retryAfter ? { retryAfter } : undefined,
+        data.fields
+      );
+    }
+
+    if (!data.success) {
+      throw new ApiError(
+        ApiErrorType.SERVER_ERROR,
+        data.error || 'Request failed',
+        response.status,
+        undefined,
+        data.fields
+      );
+    }
+
+    // Ensure we never return undefined - if data.data is undefined, return appropriate default
+    if (data.data === undefined || data.data === null) {
+      // For array types, return empty array; for other types, return null
+      // We can't determine the type at runtime, so we'll return null
+      // Individual services should handle this case
+      return null;
+    }
+
+    return data.data;
+  };
+
+  private async request<T>(
+    method: HttpMethod,
+    endpoint: string,
+    body?: unknown,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const request: ApiRequest = {
+      endpoint,
+      url: `${this.baseUrl}${endpoint}`,
+      method,
+      body,
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+      signal: options.signal,
+      timeoutMs: options.timeoutMs ?? API_TIMEOUT_MS,
+      retries: options.retries ?? API_MAX_RETRIES,
+      attempt: 0,
+    };
+
+    // Compose middlewares right-to-left so the first registered runs first
+    const pipeline = this.middlewares.reduceRight<ApiHandler>(
+      (next, middleware) => (req) => middleware(req, next),
+      USE_MOCKS ? this.sendToMockServer : this.send
+    );
+
+    return (await pipeline(request)) as T;
   }
 
-  async get<T>(endpoint: string): Promise<T> {
-    return this.request<T>(endpoint, { method: 'GET' });
+  async get<T>(endpoint: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>('GET', endpoint, undefined, options);
   }
 
-  async post<T>(endpoint: string, body?: any): Promise<T> {
-    return this.request<T>(endpoint, {
-      method: 'POST',
-      body: body ? JSON.stringify(body) : undefined,
-    });
+  async post<T>(endpoint: string, body?: any, options?: RequestOptions): Promise<T> {
+    return this.request<T>('POST', endpoint, body || undefined, options);
   }
 
-  async patch<T>(endpoint: string, body?: any): Promise<T> {
-    return this.request<T>(endpoint, {
-      method: 'PATCH',
-      body: body ? JSON.stringify(body) : undefined,
-    });
+  async patch<T>(endpoint: string, body?: any, options?: RequestOptions): Promise<T> {
+    return this.request<T>('PATCH', endpoint, body || undefined, options);
   }
 
-  async put<T>(endpoint: string, body?: any): Promise<T> {
-    return this.request<T>(endpoint, {
-      method: 'PUT',
-      body: body ? JSON.stringify(body) : undefined,
-    });
+  async put<T>(endpoint: string, body?: any, options?: RequestOptions): Promise<T> {
+    return this.request<T>('PUT', endpoint, body || undefined, options);
   }
 
-  async delete<T>(endpoint: string): Promise<T> {
-    return this.request<T>(endpoint, { method: 'DELETE' });
+  async delete<T>(endpoint: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>('DELETE', endpoint, undefined, options);
   }
 }
 
 export const apiClient = new ApiClient();
-
@@ -8,6 +8,8 @@ export enum ApiErrorType {
   SERVER_ERROR = 'SERVER_ERROR',
   TIMEOUT = 'TIMEOUT',
   BAD_REQUEST = 'BAD_REQUEST',
+  CANCELLED = 'CANCELLED',
+  SCHEMA_MISMATCH = 'SCHEMA_MISMATCH', // Response did not match the expected shape
 }
 
 export class ApiError extends Error {
@@ -23,6 +25,28 @@ export class ApiError extends Error {
   }
 }
 
+/**
+ * Map an HTTP status code to an ApiErrorType
+ */
+export function errorTypeFromStatus(status: number): ApiErrorType {
+  switch (status) {
+    case 400:
+      return ApiErrorType.VALIDATION_ERROR;
+    case 401:
+      return ApiErrorType.UNAUTHORIZED;
+    case 403:
+      return ApiErrorType.FORBIDDEN;
+    case 404:
+      return ApiErrorType.NOT_FOUND;
+    case 408:
+      return ApiErrorType.TIMEOUT;
+    case 429:
+      return ApiErrorType.RATE_LIMIT;
+    default:
+      return ApiErrorType.SERVER_ERROR;
+  }
+}
+
 export interface ErrorSimulationConfig {
   enabled: boolean;
   errorRate: number;
@@ -0,0 +1,155 @@
+// API client middlewares: CSRF, timeout, retry with exponential backoff and response validation
+import type { ZodTypeAny } from 'zod';
+import { createTimeoutSignal, sleep } from '@/lib/abort';
+import type { SchemaMismatchIssue } from '@/lib/schema-mismatch-log';
+import { ApiError, ApiErrorType } from './api-error';
+import type { ApiMiddleware, HttpMethod } from './api-client';
+
+const STATE_CHANGING_METHODS: HttpMethod[] = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Safe to send twice: the server ends up in the same state either way
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE'];
+
+const RETRYABLE_ERROR_TYPES: ApiErrorType[] = [ApiErrorType.NETWORK_ERROR, ApiErrorType.RATE_LIMIT];
+
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 10000;
+
+/**
+ * Adds the X-CSRF-Token header to state-changing requests and, if the server
+ * rejects the token, refreshes it and retries the request once.
+ */
+export function createCsrfMiddleware(tokenStore: {
+  getToken: () => string | null;
+  setToken: (token: string | null) => void;
+  refreshToken: () => Promise<string | null>;
+}): ApiMiddleware {
+  return async (request, next) => {
+    if (!STATE_CHANGING_METHODS.includes(request.method)) {
+      return next(request);
+    }
+
+    const token = tokenStore.getToken() || (await tokenStore.refreshToken());
+    const withToken = token
+      ? { ...request, headers: { ...request.headers, 'X-CSRF-Token': token } }
+      : request;
+
+    try {
+      return await next(withToken);
+    } catch (error) {
+      const isCsrfError =
+        error instanceof ApiError &&
+        error.statusCode === 403 &&
+        /csrf/i.test(error.message);
+      if (!isCsrfError) throw error;
+
+      // Clear current token and try to get a new one
+      tokenStore.setToken(null);
+      const newToken = await tokenStore.refreshToken();
+      if (!newToken) throw error;
+
+      return next({ ...request, headers: { ...request.headers, 'X-CSRF-Token': newToken } });
+    }
+  };
+}
+
+/**
+ * Aborts the request after request.timeoutMs and surfaces it as a TIMEOUT error.
+ * Cancellation by the caller's signal is passed through as CANCELLED.
+ */
+export const timeoutMiddleware: ApiMiddleware = async (request, next) => {
+  const timeout = createTimeoutSignal(request.timeoutMs, request.signal);
+  try {
+    return await next({ ...request, signal: timeout.signal });
+  } catch (error) {
+    if (timeout.didTimeout() && error instanceof ApiError && error.type === ApiErrorType.CANCELLED) {
+      throw new ApiError(
+        ApiErrorType.TIMEOUT,
+        'The server took too long to respond. Please try again.',
+        408
+      );
+    }
+    throw error;
+  } finally {
+    timeout.cleanup();
+  }
+};
+
+/**
+ * Delay before the next attempt: honours Retry-After on 429, otherwise
+ * exponential backoff with jitter.
+ */
+function getBackoffDelay(error: ApiError, attempt: number): number {
+  const retryAfter = Number(error.details?.retryAfter);
+  if (error.type === ApiErrorType.RATE_LIMIT && retryAfter > 0) {
+    return Math.min(retryAfter * 1000, MAX_BACKOFF_MS);
+  }
+  const exponential = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/**
+ * Retries idempotent requests that failed with a network error or rate limit
+ */
+export const retryMiddleware: ApiMiddleware = async (request, next) => {
+  const canRetry = IDEMPOTENT_METHODS.includes(request.method);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await next({ ...request, attempt });
+    } catch (error) {
+      const shouldRetry =
+        canRetry &&
+        attempt < request.retries &&
+        error instanceof ApiError &&
+        RETRYABLE_ERROR_TYPES.includes(error.type);
+      if (!shouldRetry) throw error;
+
+      try {
+        await sleep(getBackoffDelay(error as ApiError, attempt), request.signal);
+      } catch {
+        throw new ApiError(ApiErrorType.CANCELLED, 'Request was cancelled', 0);
+      }
+    }
+  }
+};
+
+/**
+ * Validates successful responses against the schema registered for the endpoint.
+ * A mismatch throws SCHEMA_MISMATCH with the offending fields, rather than letting
+ * undefined values leak into the UI.
+ */
+export function createSchemaValidationMiddleware(
+  resolveSchema: (method: HttpMethod, endpoint: string) => ZodTypeAny | null,
+  onMismatch?: (mismatch: { method: HttpMethod; endpoint: string; issues: SchemaMismatchIssue[] }) => void
+): ApiMiddleware {
+  return async (request, next) => {
+    const data = await next(request);
+    const schema = resolveSchema(request.method, request.endpoint);
+
+    // Services already handle an empty envelope (null data)
+    if (!schema || data === null) {
+      return data;
+    }
+
+    const result = schema.safeParse(data);
+    if (result.success) {
+      return data;
+    }
+
+    const issues: SchemaMismatchIssue[] = result.error.issues.map((issue) => ({
+      path: issue.path.map((segment) => (typeof segment === 'number' ? `[${segment}]` : `.${segment}`)).join('').replace(/^\./, ''),
+      message: issue.message,
+    }));
+
+    onMismatch?.({ method: request.method, endpoint: request.endpoint, issues });
+
+    throw new ApiError(
+      ApiErrorType.SCHEMA_MISMATCH,
+      'Unexpected response from server. Please try again or contact support.',
+      200,
+      { endpoint: request.endpoint, method: request.method, issues },
+      Object.fromEntries(issues.map((issue) => [issue.path || '(root)', issue.message]))
+    );
+  };
+}
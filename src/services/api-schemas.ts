@@ -0,0 +1,777 @@
+// Runtime schemas for backend responses
+// Validated by the ApiClient schema middleware so a renamed or missing field
+// fails loudly (SCHEMA_MISMATCH) instead of surfacing as undefined in the UI.
+// Objects are passthrough: extra fields are allowed, only the ones we read are checked.
+import { z } from 'zod';
+import type { HttpMethod } from './api-client';
+
+const dateString = z.union([z.string(), z.date()]);
+
+// Backend job format (mirrors BackendJob in data-transform.ts)
+const backendJobAssetSchema = z
+  .object({
+    id: z.string(),
+    categoryId: z.string().nullish(),
+    categoryName: z.string().nullish(),
+    category: z.object({ id: z.string(), name: z.string() }).passthrough().nullish(),
+    quantity: z.number(),
+    serialNumbers: z.array(z.string()).nullish(),
+    grade: z.string().nullish(),
+    weight: z.number().nullish(),
+    sanitised: z.boolean().nullish(),
+    resaleValue: z.number().nullish(),
+  })
+  .passthrough();
+
+const backendDriverSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    vehicleReg: z.string().nullish(),
+    vehicleType: z.enum(['van', 'truck', 'car']).nullish(),
+    vehicleFuelType: z.enum(['petrol', 'diesel', 'electric']).nullish(),
+  })
+  .passthrough();
+
+const backendEvidenceSchema = z
+  .object({
+    status: z.string().nullish(),
+    photos: z.array(z.string()).nullish(),
+    signature: z.string().nullish(),
+    sealNumbers: z.array(z.string()).nullish(),
+    notes: z.string().nullish(),
+    createdAt: dateString.nullish(),
+  })
+  .passthrough();
+
+const backendCertificateSchema = z
+  .object({
+    id: z.string(),
+    type: z.string(),
+    generatedDate: dateString,
+    downloadUrl: z.string(),
+  })
+  .passthrough();
+
+const scope3Schema = z
+  .object({
+    upstream_transport: z.number(),
+    end_of_life_treatment: z.number(),
+  })
+  .passthrough();
+
+export const emissionsBreakdownSchema = z
+  .object({
+    factorSetId: z.string(),
+    factorSetVersion: z.string(),
+    calculatedAt: z.string(),
+    distanceKm: z.number(),
+    travelFactorKey: z.enum(['petrol', 'diesel', 'electric', 'car', 'van', 'truck']),
+    avoidedEmissions: z.number(),
+    scope3: scope3Schema,
+    totalScope3: z.number(),
+    netImpact: z.number(),
+  })
+  .passthrough();
+
+export const jobSchema = z
+  .object({
+    id: z.string(),
+    erpJobNumber: z.string(),
+    bookingId: z.string().nullish(),
+    organisationName: z.string(),
+    siteName: z.string(),
+    siteAddress: z.string(),
+    status: z.string(),
+    scheduledDate: dateString,
+    completedDate: dateString.nullish(),
+    co2eSaved: z.number(),
+    travelEmissions: z.number(),
+    buybackValue: z.number(),
+    charityPercent: z.number(),
+    roundTripDistanceKm: z.number().nullish(),
+    roundTripDistanceMiles: z.number().nullish(),
+    lat: z.number().nullish(),
+    lng: z.number().nullish(),
+    routeSequence: z.number().nullish(),
+    routeDistanceKm: z.number().nullish(),
+    warehouseId: z.string().nullish(),
+    warehouseName: z.string().nullish(),
+    bookingType: z.enum(['itad_collection', 'jml']).nullish(),
+    jmlSubType: z.enum(['new_starter', 'leaver', 'breakfix', 'mover']).nullish(),
+    assets: z.array(backendJobAssetSchema).nullish(),
+    driver: backendDriverSchema.nullish(),
+    evidence: z.union([z.array(backendEvidenceSchema), backendEvidenceSchema]).nullish(),
+    certificates: z.array(backendCertificateSchema).nullish(),
+    emissions: emissionsBreakdownSchema.nullish(),
+  })
+  .passthrough();
+
+export const bookingSchema = z
+  .object({
+    id: z.string(),
+    bookingNumber: z.string(),
+    clientId: z.string(),
+    clientName: z.string(),
+    organisationName: z.string().nullish(),
+    siteName: z.string(),
+    siteAddress: z.string(),
+    scheduledDate: z.string(),
+    status: z.string(),
+    assets: z.array(
+      z
+        .object({
+          categoryId: z.string(),
+          categoryName: z.string().nullish(),
+          quantity: z.number(),
+        })
+        .passthrough()
+    ),
+    charityPercent: z.number(),
+    estimatedCO2e: z.number(),
+    estimatedBuyback: z.number(),
+    roundTripDistanceKm: z.number().nullish(),
+    roundTripDistanceMiles: z.number().nullish(),
+    jobId: z.string().nullish(),
+    driverId: z.string().nullish(),
+    warehouseId: z.string().nullish(),
+    warehouseName: z.string().nullish(),
+    createdAt: z.string(),
+    createdBy: z.string(),
+    bookingType: z.enum(['itad_collection', 'jml']).nullish(),
+    jmlSubType: z.enum(['new_starter', 'leaver', 'breakfix', 'mover']).nullish(),
+  })
+  .passthrough();
+
+export const inventoryItemSchema = z
+  .object({
+    id: z.string(),
+    tenantId: z.string(),
+    category: z.string(),
+    deviceType: z.string().nullable(),
+    make: z.string(),
+    model: z.string(),
+    serialNumber: z.string(),
+    imei: z.string().nullish(),
+    conditionCode: z.string(),
+    status: z.enum(['available', 'allocated', 'delivered', 'mover_allocated', 'in_transit', 'collected', 'warehouse']),
+    allocatedTo: z.string().nullable(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+  })
+  .passthrough();
+
+export const gradingRecordSchema = z
+  .object({
+    id: z.string(),
+    bookingId: z.string(),
+    jobId: z.string().nullish(),
+    assetId: z.string(),
+    assetCategory: z.string(),
+    grade: z.enum(['A', 'B', 'C', 'D', 'Q']),
+    quantity: z.number(),
+    resaleValue: z.number(),
+    gradedAt: z.string(),
+    gradedBy: z.string(),
+  })
+  .passthrough();
+
+export const sanitisationRecordSchema = z
+  .object({
+    id: z.string(),
+    bookingId: z.string(),
+    jobId: z.string().nullish(),
+    assetId: z.string(),
+    method: z.enum(['blancco', 'physical-destruction', 'degaussing', 'shredding', 'other']),
+    timestamp: z.string(),
+    performedBy: z.string(),
+    certificateId: z.string(),
+    certificateUrl: z.string(),
+    verified: z.boolean(),
+  })
+  .passthrough();
+
+export const sanitisationImportSchema = z
+  .object({
+    id: z.string(),
+    source: z.enum(['upload', 'watched_folder']),
+    fileName: z.string(),
+    importedAt: z.string(),
+    total: z.number(),
+    matched: z.number(),
+    needsReview: z.number(),
+    items: z.array(
+      z
+        .object({
+          id: z.string(),
+          status: z.enum(['matched', 'unmatched', 'failed_erasure', 'duplicate', 'resolved', 'dismissed']),
+          report: z
+            .object({
+              reportId: z.string(),
+              serialNumber: z.string().nullable(),
+              result: z.enum(['successful', 'failed']),
+            })
+            .passthrough(),
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
+export const siteSchema = z
+  .object({
+    id: z.string(),
+    clientId: z.string(),
+    tenantId: z.string(),
+    name: z.string(),
+    address: z.string(),
+    postcode: z.string(),
+    lat: z.number().nullish(),
+    lng: z.number().nullish(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+  })
+  .passthrough();
+
+export const vehicleSchema = z
+  .object({
+    id: z.string(),
+    tenantId: z.string(),
+    vehicleReg: z.string(),
+    vehicleType: z.enum(['van', 'truck', 'car']),
+    vehicleFuelType: z.enum(['petrol', 'diesel', 'electric']),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+  })
+  .passthrough();
+
+export const warehouseSchema = z
+  .object({
+    id: z.string(),
+    tenantId: z.string(),
+    name: z.string(),
+    code: z.string(),
+    address: z.string(),
+    postcode: z.string(),
+    country: z.string(),
+    lat: z.number(),
+    lng: z.number(),
+    capabilities: z.array(z.enum(['collections', 'sanitisation', 'grading', 'storage', 'jml_fulfilment'])),
+    operatingHours: z.array(
+      z
+        .object({
+          day: z.enum(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun']),
+          open: z.string(),
+          close: z.string(),
+        })
+        .passthrough()
+    ),
+    isActive: z.boolean(),
+    isDefault: z.boolean(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+  })
+  .passthrough();
+
+export const emissionFactorSetSchema = z
+  .object({
+    id: z.string(),
+    version: z.string(),
+    name: z.string(),
+    source: z.string(),
+    publishedAt: z.string(),
+    validFrom: z.string(),
+    isCurrent: z.boolean(),
+    travelKgPerKm: z.record(z.number()),
+    avoidedKgPerUnit: z.record(z.number()),
+    endOfLifeKgPerKg: z.number(),
+    equivalencies: z
+      .object({
+        treeKgPerYear: z.number(),
+        householdKgPerDay: z.number(),
+        carKgPerMile: z.number(),
+        flightKgPerHour: z.number(),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+const emissionTotalsSchema = z
+  .object({
+    avoidedEmissions: z.number(),
+    scope3: scope3Schema,
+    netImpact: z.number(),
+  })
+  .passthrough();
+
+export const restatementSchema = z
+  .object({
+    id: z.string(),
+    factorSetId: z.string(),
+    factorSetVersion: z.string(),
+    status: z.enum(['preview', 'applied']),
+    jobs: z.array(
+      z
+        .object({
+          jobId: z.string(),
+          erpJobNumber: z.string(),
+          before: emissionsBreakdownSchema.nullable(),
+          after: emissionsBreakdownSchema,
+        })
+        .passthrough()
+    ),
+    totals: z
+      .object({
+        before: emissionTotalsSchema,
+        after: emissionTotalsSchema,
+      })
+      .passthrough(),
+    createdAt: z.string(),
+    appliedAt: z.string().nullish(),
+  })
+  .passthrough();
+
+const notificationCategorySchema = z.enum([
+  'booking_approved',
+  'booking_updates',
+  'driver_assigned',
+  'eta_delayed',
+  'certificate_ready',
+  'inventory_low',
+  'jml_milestones',
+]);
+
+export const notificationPreferencesSchema = z
+  .object({
+    userId: z.string(),
+    categories: z.array(
+      z
+        .object({
+          category: notificationCategorySchema,
+          channels: z.array(z.enum(['in_app', 'email', 'webhook'])),
+          digest: z.boolean(),
+        })
+        .passthrough()
+    ),
+    quietHours: z
+      .object({
+        enabled: z.boolean(),
+        start: z.string(),
+        end: z.string(),
+        timezone: z.string(),
+      })
+      .passthrough(),
+    digestTime: z.string(),
+    webhookUrl: z.string().nullish(),
+  })
+  .passthrough();
+
+export const notificationSchema = z
+  .object({
+    id: z.string(),
+    type: z.enum(['success', 'warning', 'info', 'error']),
+    title: z.string(),
+    message: z.string(),
+    time: z.string(),
+    read: z.boolean(),
+    url: z.string().nullish(),
+    category: notificationCategorySchema.nullish(),
+  })
+  .passthrough();
+
+const notificationListSchema = z
+  .object({
+    notifications: z.array(notificationSchema),
+    total: z.number(),
+  })
+  .passthrough();
+
+export const searchResultSchema = z
+  .object({
+    type: z.enum(['job', 'booking', 'client', 'site', 'inventory', 'document', 'driver', 'vehicle']),
+    id: z.string(),
+    title: z.string(),
+    subtitle: z.string(),
+    score: z.number(),
+  })
+  .passthrough();
+
+export const webhookSubscriptionSchema = z
+  .object({
+    id: z.string(),
+    clientId: z.string().nullable(),
+    url: z.string(),
+    eventTypes: z.array(z.string()),
+    isActive: z.boolean(),
+    secretHint: z.string(),
+    secret: z.string().optional(), // Only on create and rotate-secret
+    createdAt: z.string(),
+  })
+  .passthrough();
+
+export const webhookDeliverySchema = z
+  .object({
+    id: z.string(),
+    subscriptionId: z.string(),
+    eventId: z.string(),
+    eventType: z.string(),
+    attempt: z.number(),
+    status: z.enum(['pending', 'succeeded', 'failed']),
+    requestBody: z.string(),
+    responseStatus: z.number().nullish(),
+    createdAt: z.string(),
+  })
+  .passthrough();
+
+const erpEntitySchema = z.enum(['jobs', 'inventory', 'clients']);
+
+export const erpConnectorSchema = z
+  .object({
+    enabled: z.boolean(),
+    endpointUrl: z.string(),
+    authType: z.enum(['api_key', 'basic']),
+    credentialHint: z.string().nullish(),
+    mappings: z.record(
+      erpEntitySchema,
+      z.array(z.object({ localField: z.string(), erpField: z.string() }).passthrough())
+    ),
+    schedule: z
+      .object({
+        frequency: z.enum(['manual', 'hourly', 'daily']),
+        time: z.string(),
+        entities: z.array(erpEntitySchema),
+      })
+      .passthrough(),
+    jobNumbers: z
+      .object({
+        mode: z.enum(['manual', 'auto']),
+        prefix: z.string(),
+        padding: z.number(),
+        nextSequence: z.number(),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+export const erpSyncRunSchema = z
+  .object({
+    id: z.string(),
+    trigger: z.enum(['manual', 'scheduled', 'retry']),
+    entities: z.array(erpEntitySchema),
+    status: z.enum(['succeeded', 'partial', 'failed']),
+    startedAt: z.string(),
+    synced: z.number(),
+    failed: z.number(),
+    errors: z.array(
+      z
+        .object({
+          id: z.string(),
+          entity: erpEntitySchema,
+          recordId: z.string(),
+          message: z.string(),
+          retryable: z.boolean(),
+          resolvedAt: z.string().nullish(),
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
+export const custodyLedgerEntrySchema = z
+  .object({
+    id: z.string(),
+    bookingId: z.string(),
+    sequence: z.number(),
+    eventType: z.enum(['collected', 'warehouse_arrival', 'sanitised', 'graded', 'dispatched', 'delivered']),
+    actor: z.object({ id: z.string(), name: z.string(), role: z.string() }).passthrough(),
+    occurredAt: z.string(),
+    location: z.object({ label: z.string(), lat: z.number().nullish(), lng: z.number().nullish() }).passthrough(),
+    evidence: z.array(
+      z
+        .object({
+          kind: z.enum(['photo', 'signature', 'seal_number', 'sanitisation_record', 'grading_record']),
+          label: z.string(),
+          hash: z.string(),
+        })
+        .passthrough()
+    ),
+    previousHash: z.string(),
+    hash: z.string(),
+  })
+  .passthrough();
+
+export const custodyCertificateSchema = z
+  .object({
+    id: z.string(),
+    documentId: z.string(),
+    bookingId: z.string(),
+    bookingNumber: z.string(),
+    issuedAt: z.string(),
+    issuedBy: z.string(),
+    entryCount: z.number(),
+    headHash: z.string(),
+    entries: z.array(custodyLedgerEntrySchema),
+  })
+  .passthrough();
+
+export const bulkJmlImportResultSchema = z
+  .object({
+    total: z.number(),
+    created: z.number(),
+    failed: z.number(),
+    results: z.array(
+      z
+        .object({
+          rowNumber: z.number(),
+          action: z.enum(['new_starter', 'leaver', 'mover']).nullable(),
+          employeeName: z.string(),
+          status: z.enum(['created', 'failed']),
+          bookingId: z.string().nullish(),
+          bookingNumber: z.string().nullish(),
+          error: z.string().nullish(),
+          fields: z.record(z.string()).nullish(),
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
+export const jmlMilestoneSchema = z
+  .object({
+    id: z.string(),
+    bookingId: z.string(),
+    bookingNumber: z.string(),
+    clientId: z.string(),
+    clientName: z.string(),
+    jmlSubType: z.enum(['new_starter', 'leaver', 'mover']),
+    employeeName: z.string(),
+    bookingStatus: z.string(),
+    type: z.enum(['allocate_devices', 'book_courier', 'collect_kit']),
+    anchorDate: z.string(),
+    dueDate: z.string(),
+    state: z.enum(['done', 'upcoming', 'at_risk', 'overdue']),
+  })
+  .passthrough();
+
+export const clientJmlLeadTimesSchema = z
+  .object({
+    clientId: z.string(),
+    clientName: z.string(),
+    allocateDaysBefore: z.number(),
+    courierDaysBefore: z.number(),
+    collectDaysAfter: z.number(),
+    isDefault: z.boolean(),
+    updatedAt: z.string().nullish(),
+    updatedBy: z.string().nullish(),
+  })
+  .passthrough();
+
+const shipmentAddressSchema = z
+  .object({
+    name: z.string(),
+    address: z.string(),
+    postcode: z.string().nullish(),
+    countryCode: z.string(),
+  })
+  .passthrough();
+
+const trackingStatusSchema = z.enum(['label_created', 'collected', 'in_transit', 'out_for_delivery', 'delivered', 'exception']);
+
+export const shipmentSchema = z
+  .object({
+    id: z.string(),
+    bookingId: z.string(),
+    bookingNumber: z.string(),
+    carrier: z.enum(['dpd', 'dhl', 'ups', 'royal_mail', 'simulated']),
+    carrierName: z.string(),
+    service: z.string(),
+    direction: z.enum(['outbound', 'collection', 'returns_kit']),
+    trackingNumber: z.string(),
+    trackingUrl: z.string().nullish(),
+    parcels: z.number(),
+    from: shipmentAddressSchema,
+    to: shipmentAddressSchema,
+    status: trackingStatusSchema,
+    events: z.array(
+      z
+        .object({
+          id: z.string(),
+          status: trackingStatusSchema,
+          description: z.string(),
+          location: z.string().nullish(),
+          occurredAt: z.string(),
+          carrierStatus: z.string(),
+        })
+        .passthrough()
+    ),
+    createdAt: z.string(),
+    createdBy: z.string(),
+    lastTrackedAt: z.string().nullish(),
+    deliveredAt: z.string().nullish(),
+  })
+  .passthrough();
+
+const employeeDeviceSchema = z
+  .object({
+    serialNumber: z.string(),
+    category: z.string().nullish(),
+    make: z.string().nullish(),
+    model: z.string().nullish(),
+    deviceType: z.string().nullish(),
+    issuedAt: z.string(),
+    bookingId: z.string(),
+    bookingNumber: z.string(),
+    delivered: z.boolean(),
+  })
+  .passthrough();
+
+export const employeeSchema = z
+  .object({
+    id: z.string(),
+    clientId: z.string(),
+    clientName: z.string(),
+    name: z.string(),
+    email: z.string().nullish(),
+    phone: z.string().nullish(),
+    status: z.enum(['active', 'leaving', 'left']),
+    holdings: z.array(employeeDeviceSchema),
+    bookingCount: z.number(),
+    mismatchCount: z.number(),
+    lastActivityAt: z.string(),
+    createdAt: z.string(),
+  })
+  .passthrough();
+
+export const employeeLedgerSchema = employeeSchema
+  .extend({
+    bookings: z.array(
+      z
+        .object({
+          bookingId: z.string(),
+          bookingNumber: z.string(),
+          jmlSubType: z.string(),
+          status: z.string(),
+          scheduledDate: z.string(),
+          createdAt: z.string(),
+        })
+        .passthrough()
+    ),
+    history: z.array(
+      z
+        .object({
+          id: z.string(),
+          type: z.enum(['issued', 'collected']),
+          serialNumber: z.string(),
+          make: z.string().nullish(),
+          model: z.string().nullish(),
+          bookingId: z.string(),
+          bookingNumber: z.string(),
+          jmlSubType: z.string(),
+          occurredAt: z.string(),
+        })
+        .passthrough()
+    ),
+    mismatches: z.array(
+      z
+        .object({
+          id: z.string(),
+          kind: z.enum(['not_issued', 'not_returned']),
+          serialNumber: z.string(),
+          make: z.string().nullish(),
+          model: z.string().nullish(),
+          bookingId: z.string(),
+          bookingNumber: z.string(),
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
+interface ResponseSchemaRoute {
+  methods: HttpMethod[];
+  path: RegExp; // Matched against the endpoint without its query string
+  schema: z.ZodTypeAny;
+}
+
+// Order matters: the first matching route wins
+const responseSchemaRoutes: ResponseSchemaRoute[] = [
+  { methods: ['GET'], path: /^\/jobs$/, schema: z.array(jobSchema) },
+  { methods: ['POST'], path: /^\/jobs\/route-plan$/, schema: z.array(jobSchema) },
+  {
+    methods: ['GET', 'PATCH', 'POST'],
+    path: /^\/jobs\/[^/]+(\/(status|evidence|journey-fields|reassign-driver))?$/,
+    schema: jobSchema,
+  },
+  { methods: ['GET'], path: /^\/bookings$/, schema: z.array(bookingSchema) },
+  { methods: ['POST'], path: /^\/bookings\/jml\/bulk$/, schema: bulkJmlImportResultSchema },
+  { methods: ['GET'], path: /^\/bookings\/[^/]+\/custody$/, schema: z.array(custodyLedgerEntrySchema) },
+  { methods: ['GET', 'POST'], path: /^\/bookings\/[^/]+\/custody\/certificate$/, schema: custodyCertificateSchema },
+  { methods: ['GET'], path: /^\/bookings\/[^/]+\/shipments$/, schema: z.array(shipmentSchema) },
+  { methods: ['POST'], path: /^\/bookings\/[^/]+\/shipments$/, schema: shipmentSchema },
+  { methods: ['POST'], path: /^\/shipments\/[^/]+\/track$/, schema: shipmentSchema },
+  {
+    methods: ['GET', 'POST', 'PATCH'],
+    path: /^\/bookings\/[^/]+(\/(assign-driver|complete|approve|status|returns-kit))?$/,
+    schema: bookingSchema,
+  },
+  { methods: ['GET'], path: /^\/jml\/milestones$/, schema: z.array(jmlMilestoneSchema) },
+  { methods: ['GET'], path: /^\/jml\/lead-times$/, schema: z.array(clientJmlLeadTimesSchema) },
+  { methods: ['PUT'], path: /^\/jml\/lead-times\/[^/]+$/, schema: clientJmlLeadTimesSchema },
+  { methods: ['GET'], path: /^\/employees$/, schema: z.array(employeeSchema) },
+  { methods: ['GET'], path: /^\/employees\/[^/]+$/, schema: employeeLedgerSchema },
+  { methods: ['GET'], path: /^\/inventory(\/(available|mover-allocated))?$/, schema: z.array(inventoryItemSchema) },
+  { methods: ['PATCH'], path: /^\/inventory\/[^/]+$/, schema: inventoryItemSchema },
+  { methods: ['GET'], path: /^\/grading$/, schema: z.array(gradingRecordSchema) },
+  { methods: ['POST'], path: /^\/grading$/, schema: gradingRecordSchema },
+  {
+    methods: ['POST'],
+    path: /^\/grading\/bulk$/,
+    schema: z.object({ graded: z.number(), records: z.array(gradingRecordSchema) }).passthrough(),
+  },
+  { methods: ['GET'], path: /^\/sanitisation$/, schema: z.array(sanitisationRecordSchema) },
+  { methods: ['GET'], path: /^\/sanitisation\/imports$/, schema: z.array(sanitisationImportSchema) },
+  {
+    methods: ['GET', 'POST'],
+    path: /^\/sanitisation\/imports(\/[^/]+(\/items\/[^/]+\/resolve)?)?$/,
+    schema: sanitisationImportSchema,
+  },
+  { methods: ['POST'], path: /^\/sanitisation(\/[^/]+\/verify)?$/, schema: sanitisationRecordSchema },
+  { methods: ['GET'], path: /^\/sites$/, schema: z.array(siteSchema) },
+  { methods: ['GET', 'POST', 'PUT'], path: /^\/sites(\/[^/]+)?$/, schema: siteSchema },
+  { methods: ['GET'], path: /^\/vehicles(\/driver\/[^/]+)?$/, schema: z.array(vehicleSchema) },
+  { methods: ['GET', 'POST', 'PATCH'], path: /^\/vehicles(\/[^/]+(\/allocate)?)?$/, schema: vehicleSchema },
+  { methods: ['GET'], path: /^\/warehouses$/, schema: z.array(warehouseSchema) },
+  { methods: ['GET', 'POST', 'PATCH'], path: /^\/warehouses(\/[^/]+)?$/, schema: warehouseSchema },
+  { methods: ['GET'], path: /^\/co2\/factor-sets$/, schema: z.array(emissionFactorSetSchema) },
+  { methods: ['GET'], path: /^\/co2\/restatements$/, schema: z.array(restatementSchema) },
+  { methods: ['POST'], path: /^\/co2\/restatements(\/[^/]+\/apply)?$/, schema: restatementSchema },
+  { methods: ['GET'], path: /^\/notifications$/, schema: notificationListSchema },
+  { methods: ['GET', 'PUT'], path: /^\/notifications\/preferences$/, schema: notificationPreferencesSchema },
+  { methods: ['GET'], path: /^\/search\/[^/]+$/, schema: z.array(searchResultSchema) },
+  { methods: ['GET'], path: /^\/webhooks$/, schema: z.array(webhookSubscriptionSchema) },
+  { methods: ['GET'], path: /^\/webhooks\/[^/]+\/deliveries$/, schema: z.array(webhookDeliverySchema) },
+  {
+    methods: ['POST'],
+    path: /^\/webhooks\/([^/]+\/test|deliveries\/[^/]+\/redeliver)$/,
+    schema: webhookDeliverySchema,
+  },
+  {
+    methods: ['POST', 'PATCH'],
+    path: /^\/webhooks(\/[^/]+(\/rotate-secret)?)?$/,
+    schema: webhookSubscriptionSchema,
+  },
+  { methods: ['GET', 'PUT'], path: /^\/erp\/connector$/, schema: erpConnectorSchema },
+  { methods: ['GET'], path: /^\/erp\/sync-runs$/, schema: z.array(erpSyncRunSchema) },
+  { methods: ['GET', 'POST'], path: /^\/erp\/sync-runs(\/[^/]+(\/retry)?)?$/, schema: erpSyncRunSchema },
+];
+
+/**
+ * Find the schema for a response, if the endpoint returns one of the validated entities
+ */
+export function findResponseSchema(method: HttpMethod, endpoint: string): z.ZodTypeAny | null {
+  const path = endpoint.split('?')[0];
+  const route = responseSchemaRoutes.find(
+    (candidate) => candidate.methods.includes(method) && candidate.path.test(path)
+  );
+  return route?.schema ?? null;
+}
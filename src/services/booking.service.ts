@@ -2,7 +2,7 @@
 import type { Job } from '@/types/jobs';
 import type { Booking } from '@/mocks/mock-entities';
 import { ApiError, ApiErrorType } from './api-error';
-import { apiClient } from './api-client';
+import { apiClient, type RequestOptions } from './api-client';
 import type { User } from '@/types/auth';
 
 export interface BookingRequest {
@@ -25,6 +25,7 @@ export interface BookingRequest {
     lat: number;
     lng: number;
   };
+  warehouseId?: string; // Warehouse to process the booking - nearest capable one when omitted
 }
 
 export interface BookingResponse {
@@ -51,6 +52,7 @@ class BookingService {
       assets: request.assets,
       charityPercent: request.charityPercent || 0,
       preferredVehicleType: request.preferredVehicleType,
+      warehouseId: request.warehouseId,
     };
 
     const response = await apiClient.post<BookingResponse>('/bookings', payload);
@@ -69,7 +71,11 @@ class BookingService {
     }
   }
 
-  async getBookings(user?: User | null, filter?: { status?: string; clientId?: string }): Promise<Booking[]> {
+  async getBookings(
+    user?: User | null,
+    filter?: { status?: string; clientId?: string },
+    options?: RequestOptions
+  ): Promise<Booking[]> {
     const params = new URLSearchParams();
     if (filter?.status) {
       params.append('status', filter.status);
@@ -81,13 +87,13 @@ class BookingService {
     const queryString = params.toString();
     const endpoint = `/bookings${queryString ? `?${queryString}` : ''}`;
     
-    const bookings = await apiClient.get<Booking[]>(endpoint);
+    const bookings = await apiClient.get<Booking[]>(endpoint, options);
     return bookings;
   }
 
-  async getBookingById(id: string): Promise<Booking | null> {
+  async getBookingById(id: string, options?: RequestOptions): Promise<Booking | null> {
     try {
-      const booking = await apiClient.get<Booking>(`/bookings/${id}`);
+      const booking = await apiClient.get<Booking>(`/bookings/${id}`, options);
       return booking;
     } catch (error) {
       if (error instanceof ApiError && error.statusCode === 404) {
@@ -115,7 +121,11 @@ class BookingService {
     return response;
   }
 
-  async approveBooking(bookingId: string, erpJobNumber: string, notes?: string): Promise<Booking> {
+  /**
+   * Approve a booking and create its job. Leave `erpJobNumber` empty to have one
+   * generated when the ERP connector numbers jobs automatically.
+   */
+  async approveBooking(bookingId: string, erpJobNumber?: string, notes?: string): Promise<Booking> {
     const booking = await apiClient.post<Booking>(`/bookings/${bookingId}/approve`, { erpJobNumber, notes });
     return booking;
   }
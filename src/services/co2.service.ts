@@ -1,5 +1,6 @@
 // CO₂ Calculation Service
 import { apiClient } from './api-client';
+import type { EmissionFactorSet, Restatement, Scope3Category } from '@/types/emissions';
 
 export interface CO2CalculationRequest {
   assets: Array<{
@@ -12,12 +13,13 @@ export interface CO2CalculationRequest {
     lat: number;
     lng: number;
   };
+  warehouseId?: string; // Measure distance from this warehouse instead of the default depot
 }
 
 export interface CO2CalculationResponse {
   reuseSavings: number; // kg CO2e
   travelEmissions: number; // kg CO2e (for selected/default vehicle type)
-  netImpact: number; // kg CO2e
+  netImpact: number; // kg CO2e - reuse savings less all Scope 3 (travel and end-of-life treatment)
   distanceKm: number; // Total round trip distance
   distanceMiles: number; // Total round trip distance in miles
   vehicleEmissions: {
@@ -31,15 +33,18 @@ export interface CO2CalculationResponse {
     carMiles: number;
     flightHours: number;
   };
+  factorSetId: string; // Factor set the figures were calculated with
+  factorSetVersion: string;
+  scope3: Record<Scope3Category, number>; // kg CO2e per GHG Protocol Scope 3 category
+  totalScope3: number;
 }
 
-// CO2e equivalencies
-const co2eEquivalencies = {
-  treesPlanted: (kg: number) => Math.round(kg / 21), // 1 tree absorbs ~21kg CO2/year
-  householdDays: (kg: number) => Math.round(kg / 27), // UK household ~27kg CO2/day
-  carMiles: (kg: number) => Math.round(kg / 0.21), // ~0.21kg CO2 per mile
-  flightHours: (kg: number) => Math.round(kg / 250), // ~250kg CO2 per flight hour
-};
+export interface RestatementRequest {
+  factorSetId: string;
+  clientId?: string; // Limit to one client organisation
+  from?: string; // ISO date, scheduled date range
+  to?: string;
+}
 
 class CO2Service {
   async calculateCO2e(request: CO2CalculationRequest): Promise<CO2CalculationResponse> {
@@ -58,6 +63,9 @@ class CO2Service {
     if (request.vehicleType) {
       payload.vehicleType = request.vehicleType;
     }
+    if (request.warehouseId) {
+      payload.warehouseId = request.warehouseId;
+    }
 
     const response = await apiClient.post<CO2CalculationResponse>('/co2/calculate', payload);
     return response;
@@ -72,6 +80,29 @@ class CO2Service {
       return null;
     }
   }
+
+  async getFactorSets(): Promise<EmissionFactorSet[]> {
+    return apiClient.get<EmissionFactorSet[]>('/co2/factor-sets');
+  }
+
+  async getRestatements(): Promise<Restatement[]> {
+    return apiClient.get<Restatement[]>('/co2/restatements');
+  }
+
+  /**
+   * Recalculate matching jobs under a factor set without changing them.
+   * Returns a preview restatement with before/after figures per job.
+   */
+  async previewRestatement(request: RestatementRequest): Promise<Restatement> {
+    return apiClient.post<Restatement>('/co2/restatements', request);
+  }
+
+  /**
+   * Apply a previewed restatement, replacing the jobs' reported figures
+   */
+  async applyRestatement(restatementId: string): Promise<Restatement> {
+    return apiClient.post<Restatement>(`/co2/restatements/${restatementId}/apply`, {});
+  }
 }
 
 export const co2Service = new CO2Service();
@@ -0,0 +1,37 @@
+// Chain of custody service - a booking's custody ledger and its certificates
+import type { CustodyCertificate, CustodyLedgerEntry } from '@/types/custody';
+import { ApiError, ApiErrorType } from './api-error';
+import { apiClient, type RequestOptions } from './api-client';
+
+class CustodyService {
+  /**
+   * The booking's ledger, oldest entry first. Verify it with verifyCustodyChain
+   * (lib/custody) rather than trusting the order or hashes as returned.
+   */
+  async getLedger(bookingId: string, options?: RequestOptions): Promise<CustodyLedgerEntry[]> {
+    return apiClient.get<CustodyLedgerEntry[]>(`/bookings/${bookingId}/custody`, options);
+  }
+
+  /**
+   * Latest chain-of-custody certificate, or null before one has been issued
+   */
+  async getCertificate(bookingId: string, options?: RequestOptions): Promise<CustodyCertificate | null> {
+    try {
+      return await apiClient.get<CustodyCertificate>(`/bookings/${bookingId}/custody/certificate`, options);
+    } catch (error) {
+      if (error instanceof ApiError && error.type === ApiErrorType.NOT_FOUND) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Snapshot the ledger into a new certificate (admin). Rejected when the chain doesn't verify.
+   */
+  async issueCertificate(bookingId: string): Promise<CustodyCertificate> {
+    return apiClient.post<CustodyCertificate>(`/bookings/${bookingId}/custody/certificate`);
+  }
+}
+
+export const custodyService = new CustodyService();
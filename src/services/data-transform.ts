@@ -1,9 +1,10 @@
 // Transform backend data to frontend format
 import type { Job, Asset, Driver, Evidence, Certificate } from '@/types/jobs';
 import type { WorkflowStatus } from '@/types/jobs';
+import type { EmissionsBreakdown } from '@/types/emissions';
 
 // Backend job format (from API; clientName removed, organisationName is the company name)
-interface BackendJob {
+export interface BackendJob {
   id: string;
   erpJobNumber: string;
   bookingId?: string | null;
@@ -20,6 +21,13 @@ interface BackendJob {
   charityPercent: number;
   roundTripDistanceKm?: number | null; // From booking
   roundTripDistanceMiles?: number | null; // From booking
+  lat?: number | null; // Site coordinates (from booking)
+  lng?: number | null;
+  routeSequence?: number | null; // Position in the driver's planned route
+  routeDistanceKm?: number | null; // Share of the planned route distance
+  warehouseId?: string | null; // Warehouse processing the booking
+  warehouseName?: string | null;
+  emissions?: EmissionsBreakdown | null; // Factor-set stamped breakdown
   bookingType?: 'itad_collection' | 'jml'; // From booking
   jmlSubType?: 'new_starter' | 'leaver' | 'breakfix' | 'mover'; // From booking
   // Mover booking specific fields (from booking status history)
@@ -87,7 +95,7 @@ interface BackendCertificate {
 /**
  * Transform backend job status to frontend format
  */
-function transformStatus(status: string): WorkflowStatus {
+export function transformStatus(status: string): WorkflowStatus {
   // Convert 'en_route' to 'en-route', etc.
   const statusMap: Record<string, WorkflowStatus> = {
     'booked': 'booked',
@@ -246,6 +254,13 @@ export function transformJob(backendJob: BackendJob): Job {
     charityPercent: backendJob.charityPercent,
     roundTripDistanceKm: backendJob.roundTripDistanceKm ?? undefined,
     roundTripDistanceMiles: backendJob.roundTripDistanceMiles ?? undefined,
+    lat: backendJob.lat ?? undefined,
+    lng: backendJob.lng ?? undefined,
+    routeSequence: backendJob.routeSequence ?? undefined,
+    routeDistanceKm: backendJob.routeDistanceKm ?? undefined,
+    warehouseId: backendJob.warehouseId ?? undefined,
+    warehouseName: backendJob.warehouseName ?? undefined,
+    emissions: backendJob.emissions ?? undefined,
     bookingType: backendJob.bookingType || 'itad_collection',
     jmlSubType: backendJob.jmlSubType || undefined,
     // Mover booking specific fields
@@ -0,0 +1,26 @@
+// Employees service - the people JML bookings are for, and the devices each of them holds
+import type { Employee, EmployeeFilter, EmployeeLedger } from '@/types/employees';
+import { apiClient, type RequestOptions } from './api-client';
+
+class EmployeesService {
+  /**
+   * Employees at the clients the user can see, by name. Search matches names and any email
+   * used on their bookings.
+   */
+  async getEmployees(filter: EmployeeFilter = {}, options?: RequestOptions): Promise<Employee[]> {
+    const params = new URLSearchParams();
+    if (filter.clientId) params.append('clientId', filter.clientId);
+    if (filter.search) params.append('search', filter.search);
+    const query = params.toString();
+    return apiClient.get<Employee[]>(`/employees${query ? `?${query}` : ''}`, options);
+  }
+
+  /**
+   * An employee with their bookings, device history and any mismatched collections
+   */
+  async getEmployee(id: string, options?: RequestOptions): Promise<EmployeeLedger> {
+    return apiClient.get<EmployeeLedger>(`/employees/${id}`, options);
+  }
+}
+
+export const employeesService = new EmployeesService();
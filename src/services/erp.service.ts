@@ -0,0 +1,62 @@
+// ERP Service
+// ERP connector settings, job numbering and the sync history
+import type {
+  ErpConnectionTestResult,
+  ErpConnectorConfig,
+  ErpJobNumberPreview,
+  ErpSyncRun,
+  ErpSyncRunStatus,
+  StartErpSyncData,
+  UpdateErpConnectorData,
+} from '@/types/erp';
+import { apiClient, type RequestOptions } from './api-client';
+
+class ErpService {
+  async getConnector(options?: RequestOptions): Promise<ErpConnectorConfig> {
+    return apiClient.get<ErpConnectorConfig>('/erp/connector', options);
+  }
+
+  /**
+   * Save the connector settings. Leave `credential` out to keep the stored one.
+   */
+  async updateConnector(data: UpdateErpConnectorData): Promise<ErpConnectorConfig> {
+    return apiClient.put<ErpConnectorConfig>('/erp/connector', data);
+  }
+
+  /**
+   * Check the saved endpoint and credentials without syncing anything
+   */
+  async testConnection(): Promise<ErpConnectionTestResult> {
+    return apiClient.post<ErpConnectionTestResult>('/erp/connector/test');
+  }
+
+  async getNextJobNumber(options?: RequestOptions): Promise<ErpJobNumberPreview> {
+    return apiClient.get<ErpJobNumberPreview>('/erp/job-numbers/next', options);
+  }
+
+  /**
+   * Sync runs, newest first
+   */
+  async getSyncRuns(status?: ErpSyncRunStatus, options?: RequestOptions): Promise<ErpSyncRun[]> {
+    const query = status ? `?status=${status}` : '';
+    const response = await apiClient.get<ErpSyncRun[]>(`/erp/sync-runs${query}`, options);
+    return response || [];
+  }
+
+  async getSyncRun(id: string, options?: RequestOptions): Promise<ErpSyncRun> {
+    return apiClient.get<ErpSyncRun>(`/erp/sync-runs/${id}`, options);
+  }
+
+  async startSync(data: StartErpSyncData): Promise<ErpSyncRun> {
+    return apiClient.post<ErpSyncRun>('/erp/sync-runs', data);
+  }
+
+  /**
+   * Re-send a run's failed records as a new run - all retryable ones, or just `errorIds`
+   */
+  async retrySyncRun(id: string, errorIds?: string[]): Promise<ErpSyncRun> {
+    return apiClient.post<ErpSyncRun>(`/erp/sync-runs/${id}/retry`, { errorIds });
+  }
+}
+
+export const erpService = new ErpService();
@@ -1,13 +1,14 @@
 // Grading Service (for admin grading management)
 import type { GradingRecord } from '@/mocks/mock-entities';
+import type { BulkGradingResult, CreateBulkGradingData } from '@/types/grading';
 import { ApiError, ApiErrorType } from './api-error';
-import { apiClient } from './api-client';
+import { apiClient, type RequestOptions } from './api-client';
 
 class GradingService {
-  async getGradingRecords(bookingId?: string): Promise<GradingRecord[]> {
+  async getGradingRecords(bookingId?: string, options?: RequestOptions): Promise<GradingRecord[]> {
     try {
       const params = bookingId ? `?bookingId=${bookingId}` : '';
-      const records = await apiClient.get<GradingRecord[]>(`/grading${params}`);
+      const records = await apiClient.get<GradingRecord[]>(`/grading${params}`, options);
       return records;
     } catch (error) {
       if (error instanceof ApiError && error.statusCode === 404) {
@@ -43,6 +44,14 @@ class GradingService {
     return record;
   }
 
+  /**
+   * Grade a batch of scanned devices in one request. Rejected as a whole if any serial
+   * or IMEI is already graded on the booking or an asset has no ungraded units left.
+   */
+  async createBulkGradingRecords(data: CreateBulkGradingData): Promise<BulkGradingResult> {
+    return apiClient.post<BulkGradingResult>('/grading/bulk', data);
+  }
+
   async calculateResaleValue(category: string, grade: GradingRecord['grade'], quantity: number): Promise<number> {
     try {
       const response = await apiClient.get<number>(`/grading/calculate-resale-value?category=${encodeURIComponent(category)}&grade=${encodeURIComponent(grade)}&quantity=${quantity}`);
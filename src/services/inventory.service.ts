@@ -1,6 +1,6 @@
 // Inventory Service
 import { ApiError, ApiErrorType } from './api-error';
-import { apiClient } from './api-client';
+import { apiClient, type RequestOptions } from './api-client';
 
 export interface InventoryItem {
   id: string;
@@ -40,14 +40,15 @@ export interface InventorySyncResponse {
   created: number;
   updated: number;
   errors: string[];
+  runId?: string; // ERP sync run with the per-record details
 }
 
 class InventoryService {
-  async getInventory(allocatedTo?: string | null): Promise<InventoryItem[]> {
+  async getInventory(allocatedTo?: string | null, options?: RequestOptions): Promise<InventoryItem[]> {
     // For admin, if allocatedTo is null/undefined, don't pass it (shows all inventory)
     // For client users, don't pass allocatedTo (they see their allocated inventory)
     const params = allocatedTo ? `?allocatedTo=${allocatedTo}` : '';
-    const response = await apiClient.get<InventoryItem[]>(`/inventory${params}`);
+    const response = await apiClient.get<InventoryItem[]>(`/inventory${params}`, options);
     return response || [];
   }
 
@@ -1,11 +1,14 @@
 // JML Booking Service
 import { ApiError, ApiErrorType } from './api-error';
 import { apiClient } from './api-client';
+import type { BulkJmlImportRequest, BulkJmlImportResult } from '@/types/jml-import';
+import type { LeaverFulfilment } from '@/types/returns-kit';
 
 export interface NewStarterRequest {
   clientId?: string;
   clientName?: string;
   employeeName: string;
+  employeeId?: string; // An existing employee picked on the form - otherwise matched by name and email
   email: string;
   address: string;
   postcode: string;
@@ -29,6 +32,7 @@ export interface LeaverRequest {
   clientId?: string;
   clientName?: string;
   leaverName: string;
+  employeeId?: string;
   address: string;
   postcode: string;
   personalEmail: string;
@@ -51,12 +55,14 @@ export interface LeaverRequest {
     categoryId: string;
     quantity: number;
   }>;
+  fulfilment?: LeaverFulfilment; // Defaults to a driver collection
 }
 
 export interface BreakfixRequest {
   clientId?: string;
   clientName?: string;
   employeeName: string;
+  employeeId?: string;
   email: string;
   address: string;
   postcode: string;
@@ -89,6 +95,7 @@ export interface MoverRequest {
   clientId?: string;
   clientName?: string;
   employeeName: string;
+  employeeId?: string;
   email: string;
   address: string; // New address (delivery)
   postcode: string; // New address postcode
@@ -128,6 +135,8 @@ export interface BookingResponse {
   deviceType?: string;
   courierTracking?: string;
   deliveryDate?: string;
+  leaverFulfilment?: LeaverFulfilment;
+  employeeId?: string;
 }
 
 class JMLBookingService {
@@ -151,6 +160,11 @@ class JMLBookingService {
     return response;
   }
 
+  /** Book every valid row of an HR import in one go; invalid rows come back with their field errors. */
+  async importBulk(request: BulkJmlImportRequest): Promise<BulkJmlImportResult> {
+    return apiClient.post<BulkJmlImportResult>('/bookings/jml/bulk', request);
+  }
+
   async allocateDevice(
     bookingId: string,
     options: 
@@ -0,0 +1,37 @@
+// JML schedule service - milestone deadlines for joiner, mover and leaver bookings, and per-client lead times
+import type { ClientJmlLeadTimes, JmlLeadTimes, JmlMilestone } from '@/types/jml-schedule';
+import { apiClient, type RequestOptions } from './api-client';
+
+export interface JmlMilestoneFilter {
+  clientId?: string;
+  from?: string; // YYYY-MM-DD - completed milestones outside the range are left out
+  to?: string;
+}
+
+class JmlScheduleService {
+  /**
+   * Milestones for the bookings the user can see, soonest first. Outstanding milestones are
+   * always included, however far back they fell due.
+   */
+  async getMilestones(filter: JmlMilestoneFilter = {}, options?: RequestOptions): Promise<JmlMilestone[]> {
+    const params = new URLSearchParams();
+    if (filter.clientId) params.append('clientId', filter.clientId);
+    if (filter.from) params.append('from', filter.from);
+    if (filter.to) params.append('to', filter.to);
+    const query = params.toString();
+    return apiClient.get<JmlMilestone[]>(`/jml/milestones${query ? `?${query}` : ''}`, options);
+  }
+
+  /**
+   * Lead times for every client the user can see - defaults where the client hasn't set its own
+   */
+  async getLeadTimes(options?: RequestOptions): Promise<ClientJmlLeadTimes[]> {
+    return apiClient.get<ClientJmlLeadTimes[]>('/jml/lead-times', options);
+  }
+
+  async updateLeadTimes(clientId: string, leadTimes: JmlLeadTimes): Promise<ClientJmlLeadTimes> {
+    return apiClient.put<ClientJmlLeadTimes>(`/jml/lead-times/${clientId}`, leadTimes);
+  }
+}
+
+export const jmlScheduleService = new JmlScheduleService();
@@ -1,9 +1,9 @@
 // Jobs Service
-import type { Job, JobsFilter, DashboardStats } from '@/types/jobs';
+import type { Job, JobsFilter, DashboardStats, JobRoutePlan } from '@/types/jobs';
 import type { User } from '@/types/auth';
 import { ApiError, ApiErrorType } from './api-error';
-import { apiClient } from './api-client';
-import { transformJobs, transformJob } from './data-transform';
+import { apiClient, type RequestOptions } from './api-client';
+import { transformJobs, transformJob, type BackendJob } from './data-transform';
 
 /**
  * Convert frontend status format (hyphens) to backend format (underscores)
@@ -18,7 +18,7 @@ function convertStatusToBackendFormat(status: string): string {
 }
 
 class JobsService {
-  async getJobs(filter?: JobsFilter, user?: User | null): Promise<Job[]> {
+  async getJobs(filter?: JobsFilter, user?: User | null, options?: RequestOptions): Promise<Job[]> {
     const params = new URLSearchParams();
     if (filter?.status && filter.status !== 'all') {
       // Convert frontend status format to backend format
@@ -44,13 +44,13 @@ class JobsService {
     const queryString = params.toString();
     const endpoint = `/jobs${queryString ? `?${queryString}` : ''}`;
     
-    const backendJobs = await apiClient.get<any[]>(endpoint);
+    const backendJobs = await apiClient.get<any[]>(endpoint, options);
     return transformJobs(backendJobs);
   }
 
-  async getJob(id: string): Promise<Job | null> {
+  async getJob(id: string, options?: RequestOptions): Promise<Job | null> {
     try {
-      const backendJob = await apiClient.get<any>(`/jobs/${id}`);
+      const backendJob = await apiClient.get<any>(`/jobs/${id}`, options);
       return transformJob(backendJob);
     } catch (error) {
       if (error instanceof ApiError && error.statusCode === 404) {
@@ -131,6 +131,11 @@ class JobsService {
     const backendJob = await apiClient.post<any>(`/jobs/${jobId}/reassign-driver`, { driverId, vehicleId });
     return transformJob(backendJob);
   }
+
+  async saveRoutePlan(plan: JobRoutePlan): Promise<Job[]> {
+    const backendJobs = await apiClient.post<BackendJob[]>('/jobs/route-plan', plan);
+    return transformJobs(backendJobs);
+  }
 }
 
 export const jobsService = new JobsService();
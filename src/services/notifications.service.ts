@@ -1,5 +1,6 @@
 // Notifications Service
 import type { Notification } from '@/contexts/NotificationContext';
+import type { NotificationDigest, NotificationPreferences } from '@/types/notifications';
 import { apiClient } from './api-client';
 
 export interface NotificationResponse {
@@ -77,6 +78,27 @@ class NotificationsService {
   async deleteAllRead(): Promise<void> {
     await apiClient.delete('/notifications/read');
   }
+
+  /**
+   * Get the signed-in user's notification preferences (defaults if never saved)
+   */
+  async getPreferences(): Promise<NotificationPreferences> {
+    return apiClient.get<NotificationPreferences>('/notifications/preferences');
+  }
+
+  /**
+   * Replace the signed-in user's notification preferences
+   */
+  async updatePreferences(preferences: Omit<NotificationPreferences, 'userId' | 'updatedAt'>): Promise<NotificationPreferences> {
+    return apiClient.put<NotificationPreferences>('/notifications/preferences', preferences);
+  }
+
+  /**
+   * Emails held for the signed-in user's next daily digest
+   */
+  async getDigest(): Promise<NotificationDigest> {
+    return apiClient.get<NotificationDigest>('/notifications/digest');
+  }
 }
 
 export const notificationsService = new NotificationsService();
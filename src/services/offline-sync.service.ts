@@ -0,0 +1,169 @@
+// Offline Sync Service
+// Replays queued driver actions from the offline outbox against jobsService
+import { ApiError, ApiErrorType } from './api-error';
+import { jobsService } from './jobs.service';
+import {
+  getOutboxEntries,
+  removeOutboxEntry,
+  updateOutboxEntry,
+  type OutboxEntry,
+} from '@/lib/offline-outbox';
+
+export interface ReplayResult {
+  synced: number;
+  conflicts: number;
+  remaining: number;
+  syncedJobIds: string[];
+}
+
+/**
+ * Errors that mean "still offline" - replay stops and entries stay pending
+ */
+function isConnectivityError(error: unknown): boolean {
+  if (error instanceof ApiError) {
+    return error.type === ApiErrorType.NETWORK_ERROR || error.type === ApiErrorType.TIMEOUT;
+  }
+  return error instanceof TypeError;
+}
+
+/**
+ * Server rejected the evidence because it already exists - the earlier attempt
+ * reached the backend before the connection dropped, so treat it as synced.
+ */
+function isDuplicateEvidenceError(error: unknown): boolean {
+  return error instanceof Error && error.message.includes('already been submitted');
+}
+
+class OfflineSyncService {
+  private isReplaying = false;
+
+  /**
+   * Replay all pending outbox entries in order.
+   * Entries for a job stop replaying at the first conflict so later actions
+   * are never applied on top of a state the driver didn't see.
+   */
+  async replay(): Promise<ReplayResult> {
+    const result: ReplayResult = { synced: 0, conflicts: 0, remaining: 0, syncedJobIds: [] };
+
+    if (this.isReplaying) {
+      return result;
+    }
+    this.isReplaying = true;
+
+    try {
+      const entries = await getOutboxEntries();
+      const blockedJobs = new Set<string>();
+      const checkedJobs = new Set<string>();
+
+      for (const entry of entries) {
+        if (entry.state === 'conflict') {
+          blockedJobs.add(entry.jobId);
+          result.conflicts++;
+          continue;
+        }
+
+        if (blockedJobs.has(entry.jobId)) {
+          result.remaining++;
+          continue;
+        }
+
+        try {
+          // Check once per job that it is still assigned to the driver who queued the work
+          if (!checkedJobs.has(entry.jobId)) {
+            const conflict = await this.checkAssignment(entry);
+            checkedJobs.add(entry.jobId);
+            if (conflict) {
+              await this.markConflict(entry, conflict);
+              blockedJobs.add(entry.jobId);
+              result.conflicts++;
+              continue;
+            }
+          }
+
+          await this.apply(entry);
+          await removeOutboxEntry(entry.id!);
+          result.synced++;
+          if (!result.syncedJobIds.includes(entry.jobId)) {
+            result.syncedJobIds.push(entry.jobId);
+          }
+        } catch (error) {
+          if (isConnectivityError(error)) {
+            // Still offline - keep everything from here on for the next attempt
+            await updateOutboxEntry({
+              ...entry,
+              attempts: entry.attempts + 1,
+              lastError: error instanceof Error ? error.message : 'Network error',
+            });
+            const pending = await getOutboxEntries();
+            result.remaining = pending.filter((e) => e.state === 'pending').length;
+            return result;
+          }
+
+          await this.markConflict(entry, error instanceof Error ? error.message : 'Sync failed');
+          blockedJobs.add(entry.jobId);
+          result.conflicts++;
+        }
+      }
+
+      return result;
+    } finally {
+      this.isReplaying = false;
+    }
+  }
+
+  private async checkAssignment(entry: OutboxEntry): Promise<string | null> {
+    const job = await jobsService.getJob(entry.jobId);
+    if (!job) {
+      return 'This job no longer exists.';
+    }
+    if (!job.driver?.id || job.driver.id !== entry.driverId) {
+      return job.driver?.name
+        ? `This job was reassigned to ${job.driver.name} while you were offline.`
+        : 'This job was unassigned from you while you were offline.';
+    }
+    if (job.status === 'cancelled') {
+      return 'This job was cancelled while you were offline.';
+    }
+    return null;
+  }
+
+  private async apply(entry: OutboxEntry): Promise<void> {
+    const { payload } = entry;
+
+    switch (payload.kind) {
+      case 'journey-fields':
+        await jobsService.updateJobJourneyFields(entry.jobId, payload.fields);
+        return;
+      case 'evidence':
+        try {
+          await jobsService.updateJobEvidence(entry.jobId, payload.evidence);
+        } catch (error) {
+          if (!isDuplicateEvidenceError(error)) throw error;
+        }
+        return;
+      case 'status': {
+        const job = await jobsService.getJob(entry.jobId);
+        // Already applied by an earlier attempt whose response was lost
+        if (job?.status === payload.status) return;
+        if (job && job.status !== payload.fromStatus) {
+          throw new Error(
+            `Job moved to "${job.status}" while you were offline; cannot apply "${payload.status}".`
+          );
+        }
+        await jobsService.updateJobStatus(entry.jobId, payload.status);
+        return;
+      }
+    }
+  }
+
+  private async markConflict(entry: OutboxEntry, reason: string): Promise<void> {
+    await updateOutboxEntry({
+      ...entry,
+      state: 'conflict',
+      attempts: entry.attempts + 1,
+      lastError: reason,
+    });
+  }
+}
+
+export const offlineSyncService = new OfflineSyncService();
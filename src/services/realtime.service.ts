@@ -0,0 +1,296 @@
+// Realtime Service
+// Keeps one push connection open per signed-in tab and fans typed events out to
+// subscribers. Reconnects with exponential backoff; while it is not open, the
+// app falls back to polling (see RealtimeContext).
+import { z } from 'zod';
+import { REALTIME_TRANSPORT, REALTIME_URL, USE_MOCKS } from '@/lib/config';
+import type { RealtimeConnectionStatus, RealtimeEvent } from '@/types/realtime';
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+export interface RealtimeTransportHandlers {
+  onOpen: () => void;
+  onMessage: (data: unknown) => void;
+  onClose: () => void; // Connection lost or refused - the service decides when to retry
+}
+
+export interface RealtimeTransport {
+  name: string;
+  /**
+   * Open a connection. Returns a function that closes it without calling onClose.
+   */
+  connect(handlers: RealtimeTransportHandlers): () => void;
+}
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+type StatusListener = (status: RealtimeConnectionStatus) => void;
+
+const realtimeEventSchema = z.discriminatedUnion('type', [
+  z
+    .object({
+      type: z.literal('job.status_changed'),
+      jobId: z.string(),
+      bookingId: z.string().nullish(),
+      status: z.string(),
+      previousStatus: z.string().nullish(),
+      occurredAt: z.string(),
+    })
+    .passthrough(),
+  z
+    .object({
+      type: z.literal('job.evidence_uploaded'),
+      jobId: z.string(),
+      bookingId: z.string().nullish(),
+      status: z.string().nullish(),
+      occurredAt: z.string(),
+    })
+    .passthrough(),
+  z
+    .object({
+      type: z.literal('booking.approved'),
+      bookingId: z.string(),
+      jobId: z.string().nullish(),
+      occurredAt: z.string(),
+    })
+    .passthrough(),
+  z
+    .object({
+      type: z.literal('notification.created'),
+      userId: z.string(),
+      notification: z
+        .object({
+          id: z.string(),
+          type: z.enum(['success', 'warning', 'info', 'error']),
+          title: z.string(),
+          message: z.string(),
+          time: z.string(),
+          read: z.boolean(),
+        })
+        .passthrough(),
+      occurredAt: z.string(),
+    })
+    .passthrough(),
+]);
+
+function parseMessage(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * WebSocket transport. Authenticates with the session cookie like the REST API.
+ */
+export function createWebSocketTransport(url: string): RealtimeTransport {
+  return {
+    name: 'websocket',
+    connect({ onOpen, onMessage, onClose }) {
+      const socket = new WebSocket(url.replace(/^http/, 'ws'));
+      let isClosedByClient = false;
+
+      socket.onopen = () => onOpen();
+      socket.onmessage = (message) => onMessage(parseMessage(String(message.data)));
+      socket.onclose = () => {
+        if (!isClosedByClient) onClose();
+      };
+
+      return () => {
+        isClosedByClient = true;
+        socket.close(1000);
+      };
+    },
+  };
+}
+
+/**
+ * Server-Sent Events transport, for networks whose proxies block WebSockets
+ */
+export function createEventSourceTransport(url: string): RealtimeTransport {
+  return {
+    name: 'sse',
+    connect({ onOpen, onMessage, onClose }) {
+      const source = new EventSource(url, { withCredentials: true });
+
+      source.onopen = () => onOpen();
+      source.onmessage = (message) => onMessage(parseMessage(message.data));
+      source.onerror = () => {
+        // EventSource retries on its own without backoff; close it and let the service retry
+        source.close();
+        onClose();
+      };
+
+      return () => source.close();
+    },
+  };
+}
+
+/**
+ * In-process stand-in for the push server, fed by the mock backend
+ */
+export function createMockTransport(): RealtimeTransport {
+  return {
+    name: 'mock',
+    connect({ onOpen, onMessage }) {
+      let unsubscribe: (() => void) | null = null;
+      let isClosed = false;
+
+      import('@/mocks/mock-server').then(({ mockServer }) => {
+        if (isClosed) return;
+        unsubscribe = mockServer.subscribe(onMessage);
+        onOpen();
+      });
+
+      return () => {
+        isClosed = true;
+        unsubscribe?.();
+      };
+    },
+  };
+}
+
+function createConfiguredTransport(): RealtimeTransport | null {
+  if (USE_MOCKS) return createMockTransport();
+  if (REALTIME_TRANSPORT === 'off') return null;
+  if (REALTIME_TRANSPORT === 'sse') return createEventSourceTransport(REALTIME_URL);
+  return createWebSocketTransport(REALTIME_URL);
+}
+
+class RealtimeService {
+  private transport: RealtimeTransport | null = createConfiguredTransport();
+  private closeConnection: (() => void) | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempt = 0;
+  private isStarted = false;
+  private status: RealtimeConnectionStatus = 'idle';
+  private listeners = new Set<RealtimeListener>();
+  private statusListeners = new Set<StatusListener>();
+
+  /**
+   * Connect and stay connected until stop() (call on sign-in)
+   */
+  start() {
+    if (this.isStarted) return;
+    this.isStarted = true;
+    window.addEventListener('online', this.handleOnline);
+    this.connect();
+  }
+
+  /**
+   * Close the connection and stop reconnecting (call on sign-out)
+   */
+  stop() {
+    if (!this.isStarted) return;
+    this.isStarted = false;
+    window.removeEventListener('online', this.handleOnline);
+    this.clearReconnectTimer();
+    this.closeConnection?.();
+    this.closeConnection = null;
+    this.attempt = 0;
+    this.setStatus('idle');
+  }
+
+  /**
+   * Swap the transport (e.g. a stand-in server), reconnecting if running
+   */
+  setTransport(transport: RealtimeTransport | null) {
+    const wasStarted = this.isStarted;
+    this.stop();
+    this.transport = transport;
+    if (wasStarted) this.start();
+  }
+
+  subscribe(listener: RealtimeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  getStatus(): RealtimeConnectionStatus {
+    return this.status;
+  }
+
+  private connect() {
+    if (!this.transport) {
+      this.setStatus('disabled');
+      return;
+    }
+
+    this.setStatus(this.attempt === 0 ? 'connecting' : 'reconnecting');
+    try {
+      this.closeConnection = this.transport.connect({
+        onOpen: () => {
+          this.attempt = 0;
+          this.setStatus('open');
+        },
+        onMessage: (data) => this.dispatch(data),
+        onClose: () => {
+          this.closeConnection = null;
+          this.scheduleReconnect();
+        },
+      });
+    } catch (error) {
+      // e.g. an invalid VITE_REALTIME_URL
+      console.error('[realtime] Failed to connect:', error);
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect() {
+    if (!this.isStarted) return;
+    this.setStatus('reconnecting');
+    this.clearReconnectTimer();
+
+    // Wait for the browser to come back online rather than burning attempts
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** this.attempt);
+    this.attempt += 1;
+    // Jitter so every tab doesn't reconnect at once after a server restart
+    this.reconnectTimer = setTimeout(() => this.connect(), delay / 2 + Math.random() * (delay / 2));
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private handleOnline = () => {
+    if (this.status !== 'reconnecting' || this.closeConnection) return;
+    this.clearReconnectTimer();
+    this.connect();
+  };
+
+  private dispatch(data: unknown) {
+    const result = realtimeEventSchema.safeParse(data);
+    if (!result.success) {
+      console.warn('[realtime] Ignoring unrecognised event:', data);
+      return;
+    }
+
+    const event = result.data as RealtimeEvent;
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[realtime] Listener failed:', error);
+      }
+    });
+  }
+
+  private setStatus(status: RealtimeConnectionStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach((listener) => listener(status));
+  }
+}
+
+export const realtimeService = new RealtimeService();
@@ -0,0 +1,37 @@
+// Roles Service (tenant-defined permission policies)
+import type { ExtendedUser } from '@/mocks/mock-entities';
+import type { RoleDefinition, RoleInput, UserPermissionsUpdate } from '@/types/permissions';
+import { apiClient, type RequestOptions } from './api-client';
+
+class RolesService {
+  async getRoles(options?: RequestOptions): Promise<RoleDefinition[]> {
+    const roles = await apiClient.get<RoleDefinition[]>('/roles', options);
+    return roles;
+  }
+
+  async getRole(id: string, options?: RequestOptions): Promise<RoleDefinition> {
+    const role = await apiClient.get<RoleDefinition>(`/roles/${id}`, options);
+    return role;
+  }
+
+  async createRole(data: RoleInput): Promise<RoleDefinition> {
+    const role = await apiClient.post<RoleDefinition>('/roles', data);
+    return role;
+  }
+
+  async updateRole(id: string, data: Partial<RoleInput>): Promise<RoleDefinition> {
+    const role = await apiClient.patch<RoleDefinition>(`/roles/${id}`, data);
+    return role;
+  }
+
+  async deleteRole(id: string): Promise<void> {
+    await apiClient.delete(`/roles/${id}`);
+  }
+
+  async updateUserPermissions(userId: string, data: UserPermissionsUpdate): Promise<ExtendedUser> {
+    const user = await apiClient.patch<ExtendedUser>(`/users/${userId}/permissions`, data);
+    return user;
+  }
+}
+
+export const rolesService = new RolesService();
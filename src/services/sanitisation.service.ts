@@ -1,13 +1,18 @@
 // Sanitisation Service (for admin sanitisation management)
 import type { SanitisationRecord } from '@/mocks/mock-entities';
+import type {
+  CreateSanitisationImportData,
+  ResolveSanitisationImportItemData,
+  SanitisationImport,
+} from '@/types/sanitisation-imports';
 import { ApiError, ApiErrorType } from './api-error';
-import { apiClient } from './api-client';
+import { apiClient, type RequestOptions } from './api-client';
 
 class SanitisationService {
-  async getSanitisationRecords(bookingId?: string): Promise<SanitisationRecord[]> {
+  async getSanitisationRecords(bookingId?: string, options?: RequestOptions): Promise<SanitisationRecord[]> {
     try {
       const params = bookingId ? `?bookingId=${bookingId}` : '';
-      const records = await apiClient.get<SanitisationRecord[]>(`/sanitisation${params}`);
+      const records = await apiClient.get<SanitisationRecord[]>(`/sanitisation${params}`, options);
       return records;
     } catch (error) {
       if (error instanceof ApiError && error.statusCode === 404) {
@@ -39,6 +44,30 @@ class SanitisationService {
     const record = await apiClient.post<SanitisationRecord>(`/sanitisation/${recordId}/verify`, {});
     return record;
   }
+
+  /**
+   * Blancco report imports for a booking, including watched-folder imports that still need reviewing
+   */
+  async getImports(bookingId?: string, options?: RequestOptions): Promise<SanitisationImport[]> {
+    const params = bookingId ? `?bookingId=${bookingId}` : '';
+    const imports = await apiClient.get<SanitisationImport[]>(`/sanitisation/imports${params}`, options);
+    return imports || [];
+  }
+
+  /**
+   * Upload a Blancco XML/JSON report. Matched devices get verified sanitisation records straight away.
+   */
+  async importBlanccoReport(data: CreateSanitisationImportData): Promise<SanitisationImport> {
+    return apiClient.post<SanitisationImport>('/sanitisation/imports', data);
+  }
+
+  async resolveImportItem(
+    importId: string,
+    itemId: string,
+    data: ResolveSanitisationImportItemData
+  ): Promise<SanitisationImport> {
+    return apiClient.post<SanitisationImport>(`/sanitisation/imports/${importId}/items/${itemId}/resolve`, data);
+  }
 }
 
 export const sanitisationService = new SanitisationService();
@@ -1,92 +1,120 @@
 // Global Search Service
-import { apiClient } from './api-client';
+// Searches each entity type with its own request, in parallel, so one slow or
+// failing type doesn't hide the others. The backend ranks results per type; the
+// scores are comparable, so merged results are ordered by score.
+import { apiClient, type RequestOptions } from './api-client';
 import type { User } from '@/types/auth';
-import { transformJobs } from './data-transform';
+
+export type SearchResultType =
+  | 'job'
+  | 'booking'
+  | 'client'
+  | 'site'
+  | 'inventory'
+  | 'document'
+  | 'driver'
+  | 'vehicle';
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = [
+  'job',
+  'booking',
+  'client',
+  'site',
+  'inventory',
+  'document',
+  'driver',
+  'vehicle',
+];
 
 export interface SearchResult {
-  type: 'job' | 'client' | 'booking';
+  type: SearchResultType;
   id: string;
   title: string;
   subtitle: string;
+  score: number;
   url: string;
 }
 
 export interface SearchResponse {
   results: SearchResult[];
   total: number;
+  failedTypes: SearchResultType[]; // Types whose request failed - results may be incomplete
+}
+
+export interface SearchOptions extends RequestOptions {
+  types?: SearchResultType[];
+  limit?: number; // Per type
+}
+
+type BackendSearchResult = Omit<SearchResult, 'url'>;
+
+/**
+ * Link to the entity itself. Entities without a detail page open their list
+ * page filtered to the result, with the row highlighted (see useSearchDeepLink).
+ */
+function getResultUrl(result: BackendSearchResult, user?: User | null): string {
+  const listUrl = (path: string) =>
+    `${path}?${new URLSearchParams({ search: result.title, highlight: result.id }).toString()}`;
+
+  switch (result.type) {
+    case 'job':
+      return user?.role === 'driver' ? `/driver/jobs/${result.id}` : `/jobs/${result.id}`;
+    case 'booking':
+      return `/bookings/${result.id}`;
+    case 'client':
+      return listUrl('/clients');
+    case 'site':
+      return listUrl('/sites');
+    case 'inventory':
+      return listUrl('/inventory');
+    case 'document':
+      return listUrl('/documents');
+    case 'driver':
+      return listUrl('/admin/drivers');
+    case 'vehicle':
+      return listUrl('/admin/vehicles');
+  }
 }
 
 class SearchService {
-  async search(query: string, user?: User | null): Promise<SearchResponse> {
-    if (!query || query.trim().length < 2) {
-      return { results: [], total: 0 };
+  async search(query: string, user?: User | null, options: SearchOptions = {}): Promise<SearchResponse> {
+    const { types = SEARCH_RESULT_TYPES, limit, ...requestOptions } = options;
+    const term = query.trim();
+    if (term.length < 2 || types.length === 0) {
+      return { results: [], total: 0, failedTypes: [] };
     }
 
+    const params = new URLSearchParams({ q: term });
+    if (limit) params.append('limit', limit.toString());
+
+    const settled = await Promise.allSettled(
+      types.map((type) =>
+        apiClient.get<BackendSearchResult[]>(`/search/${type}?${params.toString()}`, requestOptions)
+      )
+    );
+
     const results: SearchResult[] = [];
+    const failedTypes: SearchResultType[] = [];
 
-    try {
-      // Search Jobs (backend supports searchQuery parameter)
-      const jobsParams = new URLSearchParams();
-      jobsParams.append('searchQuery', query);
-      jobsParams.append('limit', '5');
-      const jobsResponse = await apiClient.get<any[]>(`/jobs?${jobsParams.toString()}`);
-      const jobs = transformJobs(jobsResponse || []);
-
-      jobs.slice(0, 5).forEach(job => {
-        results.push({
-          type: 'job',
-          id: job.id,
-          title: job.organisationName,
-          subtitle: `${job.erpJobNumber} • ${job.siteName}`,
-          url: `/jobs/${job.id}`,
-        });
-      });
-
-      // Search Clients (backend supports searchQuery parameter)
-      const clientsParams = new URLSearchParams();
-      clientsParams.append('searchQuery', query);
-      clientsParams.append('limit', '5');
-      const clientsResponse = await apiClient.get<any[]>(`/clients?${clientsParams.toString()}`);
-      const clients = clientsResponse?.data || [];
-
-      clients.slice(0, 5).forEach((client: any) => {
-        results.push({
-          type: 'client',
-          id: client.id,
-          title: client.organisationName || client.name,
-          subtitle: client.email || client.contactName || 'Client',
-          url: `/clients`,
-        });
-      });
-
-      // Search Bookings (backend supports searchQuery parameter)
-      const bookingsParams = new URLSearchParams();
-      bookingsParams.append('searchQuery', query);
-      bookingsParams.append('limit', '5');
-      const bookingsResponse = await apiClient.get<any[]>(`/bookings?${bookingsParams.toString()}`);
-      const bookings = bookingsResponse?.data || [];
-
-      bookings.slice(0, 5).forEach((booking: any) => {
-        results.push({
-          type: 'booking',
-          id: booking.id,
-          title: booking.organisationName || booking.clientName,
-          subtitle: `${booking.bookingNumber} • ${booking.siteName}`,
-          url: `/bookings/${booking.id}`,
-        });
-      });
-    } catch (error) {
-      console.error('Search error:', error);
-      // Return empty results on error rather than throwing
-      return { results: [], total: 0 };
-    }
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'rejected') {
+        // Cancelled because the query changed - not a failure
+        if (requestOptions.signal?.aborted) return;
+        console.error(`Search failed for ${types[index]}:`, outcome.reason);
+        failedTypes.push(types[index]);
+        return;
+      }
+      (outcome.value || []).forEach((result) => results.push({ ...result, url: getResultUrl(result, user) }));
+    });
+
+    results.sort((a, b) => b.score - a.score);
 
     return {
-      results: results.slice(0, 10), // Limit total results
+      results,
       total: results.length,
+      failedTypes,
     };
   }
 }
 
 export const searchService = new SearchService();
-
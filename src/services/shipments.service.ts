@@ -0,0 +1,40 @@
+// Shipments service - courier bookings made through a carrier, with their tracking
+import type { CreateShipmentData, Shipment } from '@/types/carriers';
+import type { IssueReturnsKitData } from '@/types/returns-kit';
+import type { Booking } from '@/mocks/mock-entities';
+import { apiClient, type RequestOptions } from './api-client';
+
+class ShipmentsService {
+  /**
+   * A booking's shipments, newest first. Fetching also picks up any tracking the
+   * carrier has reported since the last poll.
+   */
+  async getBookingShipments(bookingId: string, options?: RequestOptions): Promise<Shipment[]> {
+    return apiClient.get<Shipment[]>(`/bookings/${bookingId}/shipments`, options);
+  }
+
+  /**
+   * Book the courier with a carrier (admin). The booking moves to courier booked (or
+   * collection scheduled) with the carrier's tracking number.
+   */
+  async createShipment(bookingId: string, data: CreateShipmentData): Promise<Shipment> {
+    return apiClient.post<Shipment>(`/bookings/${bookingId}/shipments`, data);
+  }
+
+  /**
+   * Send a remote leaver a returns kit (admin): a box out to them and a prepaid return
+   * label. The booking moves to collection scheduled with the return's tracking number.
+   */
+  async issueReturnsKit(bookingId: string, data: IssueReturnsKitData): Promise<Booking> {
+    return apiClient.post<Booking>(`/bookings/${bookingId}/returns-kit`, data);
+  }
+
+  /**
+   * Ask the carrier for the latest tracking now rather than waiting for the next poll
+   */
+  async refreshTracking(shipmentId: string): Promise<Shipment> {
+    return apiClient.post<Shipment>(`/shipments/${shipmentId}/track`);
+  }
+}
+
+export const shipmentsService = new ShipmentsService();
@@ -1,5 +1,5 @@
 // Site Service
-import { apiClient } from './api-client';
+import { apiClient, type RequestOptions } from './api-client';
 
 export interface Site {
   id: string;
@@ -43,13 +43,13 @@ export interface UpdateSiteRequest {
 }
 
 class SiteService {
-  async getSites(clientId?: string): Promise<Site[]> {
+  async getSites(clientId?: string, options?: RequestOptions): Promise<Site[]> {
     const params = new URLSearchParams();
     if (clientId) {
       params.append('clientId', clientId);
     }
     const queryString = params.toString();
-    const response = await apiClient.get<Site[]>(`/sites${queryString ? `?${queryString}` : ''}`);
+    const response = await apiClient.get<Site[]>(`/sites${queryString ? `?${queryString}` : ''}`, options);
     return response;
   }
 
@@ -0,0 +1,74 @@
+// Warehouse Service
+import { apiClient, type RequestOptions } from './api-client';
+
+export type WarehouseCapability = 'collections' | 'sanitisation' | 'grading' | 'storage' | 'jml_fulfilment';
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface WarehouseOpeningHours {
+  day: Weekday;
+  open: string; // HH:mm, warehouse local time
+  close: string;
+}
+
+export interface Warehouse {
+  id: string;
+  tenantId: string;
+  name: string;
+  code: string; // Short code shown on jobs and labels, e.g. LON1
+  address: string;
+  postcode: string;
+  country: string; // ISO 3166-1 alpha-2
+  lat: number;
+  lng: number;
+  capabilities: WarehouseCapability[];
+  operatingHours: WarehouseOpeningHours[]; // Days not listed are closed
+  isActive: boolean;
+  isDefault: boolean; // Used when no warehouse can be chosen from a location
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateWarehouseData {
+  name: string;
+  code: string;
+  address: string;
+  postcode: string;
+  country: string;
+  lat: number;
+  lng: number;
+  capabilities: WarehouseCapability[];
+  operatingHours: WarehouseOpeningHours[];
+  isActive?: boolean;
+  isDefault?: boolean;
+}
+
+export type UpdateWarehouseData = Partial<CreateWarehouseData>;
+
+class WarehouseService {
+  async getWarehouses(options?: RequestOptions): Promise<Warehouse[]> {
+    const response = await apiClient.get<Warehouse[]>('/warehouses', options);
+    return response || [];
+  }
+
+  async getWarehouseById(id: string): Promise<Warehouse> {
+    const response = await apiClient.get<Warehouse>(`/warehouses/${id}`);
+    return response;
+  }
+
+  async createWarehouse(data: CreateWarehouseData): Promise<Warehouse> {
+    const response = await apiClient.post<Warehouse>('/warehouses', data);
+    return response;
+  }
+
+  async updateWarehouse(id: string, data: UpdateWarehouseData): Promise<Warehouse> {
+    const response = await apiClient.patch<Warehouse>(`/warehouses/${id}`, data);
+    return response;
+  }
+
+  async deleteWarehouse(id: string): Promise<void> {
+    await apiClient.delete(`/warehouses/${id}`);
+  }
+}
+
+export const warehouseService = new WarehouseService();
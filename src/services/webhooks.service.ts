@@ -0,0 +1,66 @@
+// Webhooks Service
+// Outbound webhook subscriptions and their delivery log
+import type {
+  CreateWebhookSubscriptionData,
+  UpdateWebhookSubscriptionData,
+  WebhookDelivery,
+  WebhookSubscription,
+  WebhookSubscriptionWithSecret,
+} from '@/types/webhooks';
+import { apiClient, type RequestOptions } from './api-client';
+
+class WebhooksService {
+  /**
+   * Subscriptions the signed-in user manages (all of them for admins)
+   */
+  async getSubscriptions(options?: RequestOptions): Promise<WebhookSubscription[]> {
+    const response = await apiClient.get<WebhookSubscription[]>('/webhooks', options);
+    return response || [];
+  }
+
+  /**
+   * Create a subscription. The response carries the signing secret - it is not shown again.
+   */
+  async createSubscription(data: CreateWebhookSubscriptionData): Promise<WebhookSubscriptionWithSecret> {
+    return apiClient.post<WebhookSubscriptionWithSecret>('/webhooks', data);
+  }
+
+  async updateSubscription(id: string, data: UpdateWebhookSubscriptionData): Promise<WebhookSubscription> {
+    return apiClient.patch<WebhookSubscription>(`/webhooks/${id}`, data);
+  }
+
+  async deleteSubscription(id: string): Promise<void> {
+    await apiClient.delete(`/webhooks/${id}`);
+  }
+
+  /**
+   * Replace the signing secret. The old secret stops working immediately.
+   */
+  async rotateSecret(id: string): Promise<WebhookSubscriptionWithSecret> {
+    return apiClient.post<WebhookSubscriptionWithSecret>(`/webhooks/${id}/rotate-secret`);
+  }
+
+  /**
+   * Send a signed webhook.test event now and return its delivery
+   */
+  async sendTestEvent(id: string): Promise<WebhookDelivery> {
+    return apiClient.post<WebhookDelivery>(`/webhooks/${id}/test`);
+  }
+
+  /**
+   * Delivery log for a subscription, newest first (the last 50 attempts)
+   */
+  async getDeliveries(subscriptionId: string, options?: RequestOptions): Promise<WebhookDelivery[]> {
+    const response = await apiClient.get<WebhookDelivery[]>(`/webhooks/${subscriptionId}/deliveries`, options);
+    return response || [];
+  }
+
+  /**
+   * Send a delivery's payload again (freshly signed) as a new attempt
+   */
+  async redeliver(deliveryId: string): Promise<WebhookDelivery> {
+    return apiClient.post<WebhookDelivery>(`/webhooks/deliveries/${deliveryId}/redeliver`);
+  }
+}
+
+export const webhooksService = new WebhooksService();
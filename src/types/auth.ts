@@ -1,4 +1,5 @@
 // Authentication and User Types
+import type { PermissionGrant } from './permissions';
 
 export type UserRole = 'admin' | 'client' | 'reseller' | 'driver';
 export type UserStatus = 'pending' | 'active' | 'inactive' | 'declined';
@@ -11,7 +12,11 @@ export interface User {
   status?: UserStatus; // New signups start as 'pending', approved users are 'active'
   tenantId: string;
   tenantName: string;
+  clientId?: string; // Client organisation the user belongs to (client users)
+  resellerId?: string; // Reseller organisation the user belongs to (reseller users and their clients)
   avatar?: string;
+  customRoleId?: string; // Tenant-defined role replacing the built-in permissions of `role`
+  permissions?: PermissionGrant[]; // Extra grants attached directly to the user
   createdAt: string;
 }
 
@@ -14,6 +14,8 @@ export type BookingLifecycleStatus =
   | 'collection_scheduled' // JML: Collection scheduled
   | 'inventory'          // Leaver: Added to inventory (handles both reuse and disposal)
 
+// Union of every flow. The per-type/JML-subtype graphs, with guards and side effects,
+// live in lib/booking-state-machine.ts.
 export const lifecycleTransitions: Record<BookingLifecycleStatus, (BookingLifecycleStatus | 'cancelled')[]> = {
   pending: ['created', 'cancelled', 'device_allocated'], // JML can go to device_allocated
   created: ['scheduled', 'cancelled', 'device_allocated', 'collection_scheduled'], // JML can go directly to device_allocated or collection_scheduled
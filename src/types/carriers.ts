@@ -0,0 +1,75 @@
+// Courier carrier types - shipments booked through a carrier adapter, and their tracking
+// A JML courier booking creates a shipment with the carrier, which returns the tracking
+// number and label. Tracking events arrive by polling or by the carrier's webhook and
+// move the booking through its lifecycle (see lib/carriers.ts).
+
+export type CarrierCode = 'dpd' | 'dhl' | 'ups' | 'royal_mail' | 'simulated';
+
+// outbound: warehouse to the employee; collection: the employee's devices back to the warehouse;
+// returns_kit: an empty box and prepaid label out to a remote leaver (see types/returns-kit.ts)
+export type ShipmentDirection = 'outbound' | 'collection' | 'returns_kit';
+
+export type TrackingStatus =
+  | 'label_created'
+  | 'collected'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'exception';
+
+export interface ShipmentAddress {
+  name: string;
+  address: string;
+  postcode?: string | null;
+  countryCode: string; // ISO 3166-1 alpha-2
+  phone?: string | null;
+  email?: string | null;
+}
+
+/**
+ * What an adapter turns into the carrier's create-shipment request
+ */
+export interface CarrierShipmentRequest {
+  reference: string; // Booking number, printed on the label
+  direction: ShipmentDirection;
+  service: string;
+  parcels: number;
+  from: ShipmentAddress;
+  to: ShipmentAddress;
+}
+
+export interface TrackingEvent {
+  id: string; // Stable per carrier event, so re-delivered events aren't applied twice
+  status: TrackingStatus;
+  description: string;
+  location?: string | null;
+  occurredAt: string;
+  carrierStatus: string; // The carrier's own status code
+}
+
+export interface Shipment {
+  id: string;
+  bookingId: string;
+  bookingNumber: string;
+  carrier: CarrierCode;
+  carrierName: string;
+  service: string;
+  direction: ShipmentDirection;
+  trackingNumber: string;
+  trackingUrl?: string | null;
+  parcels: number;
+  from: ShipmentAddress;
+  to: ShipmentAddress;
+  status: TrackingStatus;
+  events: TrackingEvent[]; // Oldest first
+  createdAt: string;
+  createdBy: string;
+  lastTrackedAt?: string | null;
+  deliveredAt?: string | null;
+}
+
+export interface CreateShipmentData {
+  carrier: CarrierCode;
+  service?: string; // Defaults to the carrier's first service
+  parcels?: number;
+}
@@ -0,0 +1,67 @@
+// Chain of custody - append-only ledger of custody events per booking
+// Each entry carries SHA-256 hashes of its evidence and the hash of the entry before it,
+// so changing any recorded entry or its evidence breaks every hash after it.
+
+export type CustodyEventType =
+  | 'collected'
+  | 'warehouse_arrival'
+  | 'sanitised'
+  | 'graded'
+  | 'dispatched'
+  | 'delivered';
+
+export type CustodyEvidenceKind = 'photo' | 'signature' | 'seal_number' | 'sanitisation_record' | 'grading_record';
+
+export interface CustodyEvidenceHash {
+  kind: CustodyEvidenceKind;
+  label: string; // e.g. 'Photo 1', 'Seal SL-0042', 'Certificate BL-1'
+  hash: string; // SHA-256 hex of the evidence content
+}
+
+export interface CustodyActor {
+  id: string;
+  name: string;
+  role: string;
+}
+
+export interface CustodyLocation {
+  label: string; // Site or warehouse name and address
+  lat?: number | null;
+  lng?: number | null;
+}
+
+export interface CustodyLedgerEntry {
+  id: string;
+  bookingId: string;
+  sequence: number; // 1-based, no gaps
+  eventType: CustodyEventType;
+  actor: CustodyActor;
+  occurredAt: string;
+  location: CustodyLocation;
+  evidence: CustodyEvidenceHash[];
+  previousHash: string; // CUSTODY_GENESIS_HASH for the first entry
+  hash: string; // SHA-256 hex of the entry's canonical payload (see lib/custody)
+}
+
+export interface CustodyChainVerification {
+  valid: boolean;
+  entryCount: number;
+  headHash: string | null;
+  brokenAt?: number; // Sequence of the first entry that fails
+  reason?: string;
+}
+
+/**
+ * Chain-of-custody certificate - a snapshot of the ledger up to headHash
+ */
+export interface CustodyCertificate {
+  id: string;
+  documentId: string; // Listed under Documents as a 'chain-of-custody' document
+  bookingId: string;
+  bookingNumber: string;
+  issuedAt: string;
+  issuedBy: string; // User name
+  entryCount: number;
+  headHash: string;
+  entries: CustodyLedgerEntry[];
+}
@@ -0,0 +1,86 @@
+// Emissions reporting types
+// Emission factors come from dated, sourced factor sets (e.g. the UK Government
+// GHG conversion factors for a given year). Every calculation records the set
+// it used so reports can be reproduced and restated.
+
+/**
+ * Vehicle keys travel factors are looked up by - fuel type first, then vehicle type
+ */
+export type TravelFactorKey = 'petrol' | 'diesel' | 'electric' | 'car' | 'van' | 'truck';
+
+export interface EmissionFactorSet {
+  id: string;
+  version: string; // e.g. "DESNZ 2024 v1.1"
+  name: string;
+  source: string; // Publisher and publication the factors are taken from
+  sourceUrl?: string | null;
+  publishedAt: string; // ISO date
+  validFrom: string; // ISO date - first day calculations should use this set
+  isCurrent: boolean; // Used for new calculations
+  travelKgPerKm: Record<TravelFactorKey, number>; // kg CO₂e per vehicle km
+  avoidedKgPerUnit: Record<string, number>; // kg CO₂e avoided per reused unit, keyed by asset category id
+  endOfLifeKgPerKg: number; // kg CO₂e per kg of equipment processed (WEEE treatment)
+  equivalencies: {
+    treeKgPerYear: number; // CO₂ absorbed by one tree in a year
+    householdKgPerDay: number; // UK household daily emissions
+    carKgPerMile: number;
+    flightKgPerHour: number;
+  };
+}
+
+/**
+ * GHG Protocol Scope 3 categories we report. From the client's side, collecting
+ * their retired IT is upstream transport (category 4), and processing it is
+ * treatment of waste generated in their operations (category 5).
+ */
+export type Scope3Category = 'upstream_transport' | 'end_of_life_treatment';
+
+export interface EmissionsBreakdown {
+  factorSetId: string;
+  factorSetVersion: string;
+  calculatedAt: string;
+  distanceKm: number; // Distance the travel emissions were calculated for
+  travelFactorKey: TravelFactorKey;
+  avoidedEmissions: number; // kg CO₂e avoided through reuse - reported outside the Scope 3 inventory
+  scope3: Record<Scope3Category, number>; // kg CO₂e
+  totalScope3: number;
+  netImpact: number; // avoidedEmissions - totalScope3
+}
+
+export interface EmissionTotals {
+  avoidedEmissions: number;
+  scope3: Record<Scope3Category, number>;
+  netImpact: number;
+}
+
+export interface RestatementJobDiff {
+  jobId: string;
+  erpJobNumber: string;
+  clientName: string;
+  scheduledDate: string;
+  before: EmissionsBreakdown | null; // null when the job was never stamped
+  after: EmissionsBreakdown;
+}
+
+export type RestatementStatus = 'preview' | 'applied';
+
+export interface Restatement {
+  id: string;
+  factorSetId: string;
+  factorSetVersion: string;
+  status: RestatementStatus;
+  filter: {
+    clientId?: string | null;
+    from?: string | null; // ISO date, scheduled date range
+    to?: string | null;
+  };
+  jobs: RestatementJobDiff[];
+  totals: {
+    before: EmissionTotals;
+    after: EmissionTotals;
+  };
+  createdAt: string;
+  createdBy: string;
+  createdByName: string;
+  appliedAt?: string | null;
+}
@@ -0,0 +1,95 @@
+// Employee device ledger types - the people JML bookings are for, and the devices they hold
+// An employee is one person at one client. Their joiner, mover, breakfix and leaver bookings
+// are linked to them, devices allocated from inventory on those bookings are issued to them,
+// and serials recorded when their kit is collected (or graded) come back from them. See
+// lib/employee-ledger.ts for how holdings and mismatches are worked out.
+
+export type EmployeeStatus = 'active' | 'leaving' | 'left';
+
+/**
+ * A device recorded against a booking - allocated from inventory, or collected back
+ */
+export interface BookingDeviceRecord {
+  serialNumber: string;
+  category?: string | null;
+  make?: string | null;
+  model?: string | null;
+  deviceType?: string | null;
+  imei?: string | null;
+  recordedAt: string;
+}
+
+export interface EmployeeDevice {
+  serialNumber: string;
+  category?: string | null;
+  make?: string | null;
+  model?: string | null;
+  deviceType?: string | null;
+  issuedAt: string;
+  bookingId: string; // The booking it was issued on
+  bookingNumber: string;
+  delivered: boolean; // false while it's allocated but not yet with the employee
+}
+
+export type EmployeeDeviceEventType = 'issued' | 'collected';
+
+export interface EmployeeDeviceEvent {
+  id: string; // `${bookingId}:${type}:${serialNumber}`
+  type: EmployeeDeviceEventType;
+  serialNumber: string;
+  make?: string | null;
+  model?: string | null;
+  bookingId: string;
+  bookingNumber: string;
+  jmlSubType: string;
+  occurredAt: string;
+}
+
+// not_issued: collected from the employee but never issued to them;
+// not_returned: issued and still held after a leaver or mover collection that should have returned it
+export type EmployeeDeviceMismatchKind = 'not_issued' | 'not_returned';
+
+export interface EmployeeDeviceMismatch {
+  id: string; // `${bookingId}:${kind}:${serialNumber}`
+  kind: EmployeeDeviceMismatchKind;
+  serialNumber: string;
+  make?: string | null;
+  model?: string | null;
+  bookingId: string; // The collection it was found on
+  bookingNumber: string;
+}
+
+export interface EmployeeBooking {
+  bookingId: string;
+  bookingNumber: string;
+  jmlSubType: string;
+  status: string;
+  scheduledDate: string; // Start, leaving or move date
+  createdAt: string;
+}
+
+export interface Employee {
+  id: string;
+  clientId: string;
+  clientName: string;
+  name: string;
+  email?: string | null; // The most recent one used on their bookings
+  phone?: string | null;
+  status: EmployeeStatus;
+  holdings: EmployeeDevice[];
+  bookingCount: number;
+  mismatchCount: number;
+  lastActivityAt: string;
+  createdAt: string;
+}
+
+export interface EmployeeLedger extends Employee {
+  bookings: EmployeeBooking[]; // Newest first
+  history: EmployeeDeviceEvent[]; // Newest first
+  mismatches: EmployeeDeviceMismatch[];
+}
+
+export interface EmployeeFilter {
+  clientId?: string;
+  search?: string;
+}
@@ -0,0 +1,100 @@
+// ERP connector types
+// The platform pushes jobs, inventory and clients to the ERP on a schedule or on
+// demand. Each run is kept in the sync history with its per-record errors, so
+// failed records can be retried once the data or the field mappings are fixed.
+
+export type ErpEntity = 'jobs' | 'inventory' | 'clients';
+
+export type ErpAuthType = 'api_key' | 'basic';
+
+export interface ErpFieldMapping {
+  localField: string; // Field on our record, e.g. 'serialNumber'
+  erpField: string; // Field name in the ERP payload, e.g. 'SerialNo'
+}
+
+export type ErpSyncFrequency = 'manual' | 'hourly' | 'daily';
+
+export interface ErpSyncSchedule {
+  frequency: ErpSyncFrequency;
+  time: string; // 'HH:mm' (UK time), daily runs only
+  entities: ErpEntity[]; // What a scheduled run syncs
+}
+
+/**
+ * How the ERP job number is chosen when a booking is approved
+ */
+export interface ErpJobNumberSettings {
+  mode: 'manual' | 'auto'; // auto - generated from prefix + sequence when left blank
+  prefix: string;
+  padding: number; // Digits in the sequence part, zero-padded
+  nextSequence: number;
+}
+
+/**
+ * The number the next approval would be given (null in manual mode). Not reserved until then.
+ */
+export interface ErpJobNumberPreview {
+  mode: ErpJobNumberSettings['mode'];
+  erpJobNumber: string | null;
+}
+
+export interface ErpConnectorConfig {
+  enabled: boolean;
+  endpointUrl: string;
+  authType: ErpAuthType;
+  username?: string | null; // Basic auth only
+  credentialHint?: string | null; // Last characters of the API key/password; the credential itself is write-only
+  mappings: Record<ErpEntity, ErpFieldMapping[]>;
+  schedule: ErpSyncSchedule;
+  jobNumbers: ErpJobNumberSettings;
+  lastSyncAt?: string | null;
+  nextSyncAt?: string | null; // Next scheduled run, null when the schedule is manual
+  updatedAt?: string;
+}
+
+export interface UpdateErpConnectorData extends Omit<ErpConnectorConfig, 'credentialHint' | 'lastSyncAt' | 'nextSyncAt' | 'updatedAt'> {
+  credential?: string; // Omit to keep the stored credential
+}
+
+export interface ErpConnectionTestResult {
+  ok: boolean;
+  message: string;
+  latencyMs?: number;
+}
+
+export type ErpSyncTrigger = 'manual' | 'scheduled' | 'retry';
+
+export type ErpSyncRunStatus = 'succeeded' | 'partial' | 'failed';
+
+export interface ErpSyncRecordError {
+  id: string;
+  entity: ErpEntity;
+  recordId: string;
+  recordLabel: string; // e.g. serial number, job number or client name
+  message: string;
+  retryable: boolean; // false when the record itself needs fixing (e.g. a mapped field is empty)
+  resolvedAt?: string | null; // Set once a retry of this record succeeds
+}
+
+export interface ErpSyncRun {
+  id: string;
+  trigger: ErpSyncTrigger;
+  entities: ErpEntity[];
+  clientId?: string | null; // Limited to one client's records
+  status: ErpSyncRunStatus;
+  message?: string | null; // Why the whole run failed, e.g. the connector is disabled
+  startedAt: string;
+  finishedAt: string;
+  startedBy?: string | null; // User name; null for scheduled runs
+  retryOfRunId?: string | null;
+  synced: number;
+  created: number;
+  updated: number;
+  failed: number;
+  errors: ErpSyncRecordError[];
+}
+
+export interface StartErpSyncData {
+  entities: ErpEntity[];
+  clientId?: string | null;
+}
@@ -0,0 +1,27 @@
+// Grading - bulk submissions from the grading workstation
+// Each scanned device is one item; the backend groups items with the same asset,
+// grade, condition code and defects into a single grading record.
+import type { GradingRecord } from '@/mocks/mock-entities';
+
+export type Grade = GradingRecord['grade'];
+
+export interface BulkGradingItem {
+  assetId: string; // Booking asset category ID
+  assetCategory: string;
+  grade: Grade;
+  condition: string; // Condition code from the make and grade, e.g. 'DELA'
+  defects?: string[]; // Defect codes set with hotkeys, e.g. ['SC', 'BT']
+  serialNumber?: string | null;
+  imei?: string | null;
+  notes?: string;
+}
+
+export interface CreateBulkGradingData {
+  bookingId: string;
+  items: BulkGradingItem[];
+}
+
+export interface BulkGradingResult {
+  graded: number; // Devices graded
+  records: GradingRecord[];
+}
@@ -0,0 +1,73 @@
+// Bulk JML import types - joiners, movers and leavers from an HR spreadsheet or HRIS export
+
+import type { JmlAllowedCategoryName, JmlDeviceType } from '@/lib/jml-assets';
+
+export type JmlImportAction = 'new_starter' | 'leaver' | 'mover';
+
+export type JmlImportSource = 'csv' | 'xlsx' | 'hris';
+
+// Devices keep what the file said - category and device type are checked by validation, not parsing
+export interface JmlImportDevice {
+  category: string; // Laptop, Phone or Accessory
+  make: string;
+  model: string;
+  quantity: number;
+  deviceType: string; // Windows/Apple for laptops, Android/Apple for phones
+}
+
+export interface JmlImportAddress {
+  siteName: string;
+  address: string;
+  postcode: string;
+  country: string;
+}
+
+export interface JmlImportRow {
+  rowNumber: number; // Spreadsheet line (header is line 1), or position in the HRIS feed
+  action: JmlImportAction | null; // null when the value in the file isn't one we recognise
+  actionLabel: string; // As written in the file
+  employeeName: string;
+  email: string;
+  phone: string;
+  date: string; // Start, leaving or move date (YYYY-MM-DD)
+  site: JmlImportAddress; // Delivery for joiners, collection for leavers, new address for movers
+  currentSite?: JmlImportAddress; // Movers only - where their devices are collected from
+  devices: JmlImportDevice[];
+}
+
+// Field name to message, same shape as ApiError.fields
+export type JmlImportRowErrors = Record<string, string>;
+
+export interface JmlInventoryCoverage {
+  category: JmlAllowedCategoryName;
+  deviceType: JmlDeviceType;
+  required: number;
+  available: number;
+  shortfall: number;
+}
+
+export interface BulkJmlImportRequest {
+  clientId?: string;
+  source: JmlImportSource;
+  rows: JmlImportRow[];
+}
+
+export type BulkJmlImportRowStatus = 'created' | 'failed';
+
+export interface BulkJmlImportRowResult {
+  rowNumber: number;
+  action: JmlImportAction | null;
+  employeeName: string;
+  status: BulkJmlImportRowStatus;
+  bookingId?: string;
+  bookingNumber?: string;
+  error?: string;
+  fields?: JmlImportRowErrors;
+}
+
+export interface BulkJmlImportResult {
+  total: number;
+  created: number;
+  failed: number;
+  results: BulkJmlImportRowResult[];
+}
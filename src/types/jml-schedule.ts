@@ -0,0 +1,44 @@
+// JML scheduler types - milestone deadlines derived from start, leaving and move dates
+
+export type JmlMilestoneType = 'allocate_devices' | 'book_courier' | 'collect_kit';
+
+// done: the booking has reached the milestone's status; at_risk: due within the warning
+// window and not done; overdue: past its due date and not done
+export type JmlMilestoneState = 'done' | 'upcoming' | 'at_risk' | 'overdue';
+
+// Calendar days either side of the start, leaving or move date
+export interface JmlLeadTimes {
+  allocateDaysBefore: number;
+  courierDaysBefore: number;
+  collectDaysAfter: number;
+}
+
+export interface ClientJmlLeadTimes extends JmlLeadTimes {
+  clientId: string;
+  clientName: string;
+  isDefault: boolean; // The client hasn't set its own - these are the platform defaults
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export interface JmlMilestone {
+  id: string; // `${bookingId}:${type}`
+  bookingId: string;
+  bookingNumber: string;
+  clientId: string;
+  clientName: string;
+  jmlSubType: 'new_starter' | 'leaver' | 'mover';
+  employeeName: string;
+  bookingStatus: string;
+  type: JmlMilestoneType;
+  anchorDate: string; // Start, leaving or move date (YYYY-MM-DD)
+  dueDate: string; // YYYY-MM-DD
+  state: JmlMilestoneState;
+}
+
+// One alert per milestone and state, so the same warning isn't raised twice
+export interface JmlMilestoneAlert {
+  milestoneId: string;
+  state: Extract<JmlMilestoneState, 'at_risk' | 'overdue'>;
+  raisedAt: string;
+}
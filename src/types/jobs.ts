@@ -1,4 +1,5 @@
 // Job and Workflow Types
+import type { EmissionsBreakdown } from './emissions';
 
 export type WorkflowStatus = 
   | 'booked' 
@@ -47,6 +48,13 @@ export interface Job {
   currentLat?: number;
   currentLng?: number;
   postcode?: string; // Postcode for the main site address
+  lat?: number; // Site coordinates (from booking)
+  lng?: number;
+  routeSequence?: number | null; // Position in the driver's planned route for the day
+  routeDistanceKm?: number | null; // Share of the planned route distance attributed to this job
+  warehouseId?: string; // Warehouse processing the job (from booking)
+  warehouseName?: string;
+  emissions?: EmissionsBreakdown; // Factor-set stamped breakdown behind co2eSaved and travelEmissions
   // Driver journey fields (entered before starting journey in routed status)
   dial2Collection?: string | null;
   securityRequirements?: string | null;
@@ -60,6 +68,20 @@ export interface Job {
   certificates: Certificate[];
 }
 
+// Planned multi-stop route for a driver's day, sent to the backend so job
+// travel emissions reflect the shared route rather than separate round trips
+export interface JobRoutePlan {
+  driverId: string;
+  date: string; // YYYY-MM-DD
+  totalDistanceKm: number;
+  isEstimate: boolean;
+  stops: Array<{
+    jobId: string;
+    sequence: number; // 1-based visiting order
+    distanceKm: number; // Share of totalDistanceKm attributed to this job
+  }>;
+}
+
 export interface Asset {
   id: string;
   category: string; // Category ID or name (for backward compatibility)
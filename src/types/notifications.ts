@@ -0,0 +1,50 @@
+// Notification preference types
+// Each user chooses, per event category, which channels a notification goes to.
+// The backend applies these when it generates a notification (see
+// lib/notification-preferences for the delivery rules).
+
+export type NotificationCategory =
+  | 'booking_approved'
+  | 'booking_updates' // Other booking lifecycle changes and new booking requests
+  | 'driver_assigned'
+  | 'eta_delayed'
+  | 'certificate_ready'
+  | 'inventory_low'
+  | 'jml_milestones';
+
+export type NotificationChannel = 'in_app' | 'email' | 'webhook';
+
+export interface NotificationCategoryPreference {
+  category: NotificationCategory;
+  channels: NotificationChannel[];
+  digest: boolean; // Batch emails for this category into the daily digest
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // 'HH:mm', in timezone
+  end: string; // 'HH:mm' - may be before start for overnight windows
+  timezone: string; // IANA, e.g. 'Europe/London'
+}
+
+export interface NotificationPreferences {
+  userId: string;
+  categories: NotificationCategoryPreference[];
+  quietHours: QuietHours;
+  digestTime: string; // 'HH:mm', in quietHours.timezone
+  webhookUrl?: string | null; // Required for the webhook channel
+  updatedAt?: string;
+}
+
+export type NotificationDeliveryMode = 'immediate' | 'digest';
+
+export interface NotificationDigest {
+  nextSendAt: string;
+  items: Array<{
+    id: string;
+    category: NotificationCategory;
+    title: string;
+    message: string;
+    createdAt: string;
+  }>;
+}
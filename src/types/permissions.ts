@@ -0,0 +1,89 @@
+// Permission Policy Types
+import type { UserRole } from './auth';
+
+export type Permission =
+  // Job permissions
+  | 'jobs.view'
+  | 'jobs.create'
+  | 'jobs.update.status'
+  | 'jobs.update.evidence'
+  | 'jobs.view.driver'
+
+  // Booking permissions
+  | 'bookings.view'
+  | 'bookings.create'
+  | 'bookings.create.for.client'
+  | 'bookings.manage'
+
+  // User management
+  | 'users.view'
+  | 'users.invite'
+  | 'users.manage'
+  | 'roles.manage'
+
+  // Client management
+  | 'clients.view'
+  | 'clients.manage'
+
+  // Reseller permissions
+  | 'resellers.view'
+  | 'resellers.manage'
+
+  // Operations
+  | 'sites.view'
+  | 'sites.manage'
+  | 'inventory.view'
+  | 'fleet.manage'
+  | 'warehouses.manage'
+  | 'co2e.view'
+  | 'co2e.restate'
+
+  // Documents
+  | 'documents.view'
+  | 'documents.download'
+
+  // Settings
+  | 'settings.organisation'
+  | 'settings.integrations'
+  | 'settings.users'
+  | 'settings.security';
+
+/**
+ * How far a permission reaches, narrowest first:
+ * own - records the user created or is assigned to
+ * client - records belonging to the user's client organisation
+ * reseller - records of every client under the user's reseller
+ * all - every record in the tenant
+ */
+export type PermissionScope = 'own' | 'client' | 'reseller' | 'all';
+
+export interface PermissionGrant {
+  permission: Permission;
+  scope: PermissionScope;
+}
+
+export interface RoleDefinition {
+  id: string;
+  tenantId: string;
+  name: string;
+  description?: string;
+  baseRole: UserRole; // Decides which app experience (client, reseller, driver, admin) the user gets
+  clientId?: string; // Set when the role belongs to a client organisation
+  resellerId?: string; // Set when the role belongs to a reseller organisation
+  grants: PermissionGrant[];
+  isSystem: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface RoleInput {
+  name: string;
+  description?: string;
+  baseRole: UserRole;
+  grants: PermissionGrant[];
+}
+
+export interface UserPermissionsUpdate {
+  customRoleId: string | null;
+  permissions: PermissionGrant[];
+}
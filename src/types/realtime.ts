@@ -0,0 +1,52 @@
+// Real-time push event types
+// Sent by the backend over the push channel (WebSocket or Server-Sent Events) as
+// JSON messages. Statuses are in backend format (e.g. 'en_route').
+import type { Notification } from '@/contexts/NotificationContext';
+
+export interface JobStatusChangedEvent {
+  type: 'job.status_changed';
+  jobId: string;
+  bookingId?: string | null;
+  status: string;
+  previousStatus?: string | null;
+  occurredAt: string;
+}
+
+export interface JobEvidenceUploadedEvent {
+  type: 'job.evidence_uploaded';
+  jobId: string;
+  bookingId?: string | null;
+  status?: string | null; // Workflow step the evidence was captured for
+  occurredAt: string;
+}
+
+export interface BookingApprovedEvent {
+  type: 'booking.approved';
+  bookingId: string;
+  jobId?: string | null; // Job created on approval
+  occurredAt: string;
+}
+
+export interface NotificationCreatedEvent {
+  type: 'notification.created';
+  userId: string;
+  notification: Notification;
+  occurredAt: string;
+}
+
+export type RealtimeEvent =
+  | JobStatusChangedEvent
+  | JobEvidenceUploadedEvent
+  | BookingApprovedEvent
+  | NotificationCreatedEvent;
+
+export type RealtimeEventType = RealtimeEvent['type'];
+
+/**
+ * idle - not started (signed out)
+ * connecting - first connection attempt
+ * open - receiving events
+ * reconnecting - connection lost, retrying with backoff (callers poll meanwhile)
+ * disabled - push is turned off (VITE_REALTIME_TRANSPORT=off), polling only
+ */
+export type RealtimeConnectionStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'disabled';
@@ -0,0 +1,32 @@
+// Returns kit types - remote leavers sent a box and prepaid label instead of a driver collection
+// Issuing the kit books two shipments with a carrier: the empty box out to the leaver, and
+// the prepaid return from the leaver to the warehouse. The return's tracking moves the
+// booking through collected to warehouse (see lib/returns-kit.ts for the reminder and
+// escalation rules).
+import type { CarrierCode } from './carriers';
+
+// collection: a driver or courier collects from the leaver; returns_kit: the leaver posts the devices back
+export type LeaverFulfilment = 'collection' | 'returns_kit';
+
+export interface ReturnsKitReminder {
+  id: string;
+  daysBefore: number; // Working days before the leaving date it was due
+  sentTo: string; // The leaver's email
+  sentAt: string;
+}
+
+export interface ReturnsKit {
+  kitShipmentId: string; // The box going out to the leaver
+  returnShipmentId: string; // The prepaid return to the warehouse
+  issuedAt: string;
+  issuedBy: string; // Name
+  returnDeadline: string; // 'yyyy-MM-dd' - the client is told if the devices haven't arrived by then
+  reminders: ReturnsKitReminder[];
+  receivedAt?: string | null; // Delivered to the warehouse
+  escalatedAt?: string | null;
+}
+
+export interface IssueReturnsKitData {
+  carrier: CarrierCode;
+  service?: string; // Defaults to the carrier's first service
+}
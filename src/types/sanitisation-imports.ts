@@ -0,0 +1,76 @@
+// Blancco erasure report imports
+// Reports are uploaded from the Sanitisation screen or picked up by the backend from
+// a watched folder. Each erased device is matched to a booking asset by serial number
+// and gets a verified sanitisation record; anything that can't be is held for review.
+
+export type BlanccoReportFormat = 'xml' | 'json';
+
+export type BlanccoErasureResult = 'successful' | 'failed';
+
+/**
+ * One erased device, as read from a Blancco report
+ */
+export interface BlanccoErasureReport {
+  reportId: string; // Blancco document ID - doubles as the certificate ID
+  serialNumber: string | null;
+  manufacturer?: string | null;
+  model?: string | null;
+  erasureStandard: string | null; // e.g. 'NIST 800-88 Purge'
+  result: BlanccoErasureResult;
+  resultDetail?: string | null; // State as Blancco reported it, e.g. 'Successful with exceptions'
+  software?: string | null; // e.g. 'Blancco Drive Eraser 7.9'
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export type SanitisationImportSource = 'upload' | 'watched_folder';
+
+export type SanitisationImportItemStatus =
+  | 'matched' // Sanitisation record created
+  | 'unmatched' // Serial not found on a booking - needs assigning
+  | 'failed_erasure' // Blancco reported the erasure failed - needs follow-up
+  | 'duplicate' // Report already imported
+  | 'resolved' // Assigned to an asset by hand
+  | 'dismissed';
+
+export interface SanitisationImportItem {
+  id: string;
+  report: BlanccoErasureReport;
+  status: SanitisationImportItemStatus;
+  message?: string | null; // Why the item needs review
+  bookingId?: string | null;
+  bookingNumber?: string | null;
+  assetId?: string | null; // Booking asset category the device belongs to
+  assetName?: string | null;
+  sanitisationRecordId?: string | null;
+  reviewedBy?: string | null; // User name
+  reviewedAt?: string | null;
+  reviewNotes?: string | null;
+}
+
+export interface SanitisationImport {
+  id: string;
+  source: SanitisationImportSource;
+  fileName: string;
+  format: BlanccoReportFormat;
+  bookingId?: string | null; // Set when imported for one booking; watched-folder imports match any booking
+  importedAt: string;
+  importedBy?: string | null; // User name; null for watched-folder imports
+  total: number;
+  matched: number;
+  needsReview: number;
+  items: SanitisationImportItem[];
+}
+
+export interface CreateSanitisationImportData {
+  fileName: string;
+  content: string; // Raw report file (XML or JSON)
+  bookingId?: string | null;
+}
+
+export interface ResolveSanitisationImportItemData {
+  action: 'assign' | 'dismiss';
+  bookingId?: string; // assign only
+  assetId?: string; // assign only
+  notes?: string;
+}
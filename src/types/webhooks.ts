@@ -0,0 +1,77 @@
+// Outbound webhook types
+// Clients subscribe an HTTPS endpoint to booking lifecycle and job workflow events.
+// The backend POSTs each event as JSON, signed with the subscription's secret
+// (see lib/webhooks for the event catalogue and the signature scheme).
+
+/**
+ * 'booking.<lifecycle status>', 'job.<workflow status>' (backend format, e.g.
+ * 'job.en_route') or 'webhook.test' for test-fires from Settings
+ */
+export type WebhookEventType = string;
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: {
+    bookingId?: string | null;
+    bookingNumber?: string | null;
+    jobId?: string | null;
+    erpJobNumber?: string | null;
+    clientId?: string | null;
+    status?: string | null;
+    previousStatus?: string | null;
+    message?: string; // Test events only
+  };
+}
+
+export interface WebhookSubscription {
+  id: string;
+  clientId: string | null; // null - every client the creator can see (admin/reseller)
+  url: string;
+  description?: string | null;
+  eventTypes: WebhookEventType[];
+  isActive: boolean;
+  secretHint: string; // Last characters of the signing secret
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  lastDeliveryAt?: string | null;
+  lastDeliveryStatus?: WebhookDeliveryStatus | null;
+}
+
+/**
+ * Returned once, on create and when the secret is rotated
+ */
+export interface WebhookSubscriptionWithSecret extends WebhookSubscription {
+  secret: string;
+}
+
+export interface CreateWebhookSubscriptionData {
+  url: string;
+  description?: string | null;
+  eventTypes: WebhookEventType[];
+  isActive?: boolean;
+  secret?: string; // Generated when omitted
+}
+
+export type UpdateWebhookSubscriptionData = Partial<Omit<CreateWebhookSubscriptionData, 'secret'>>;
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  attempt: number; // 1 for the first try; automatic retries and replays count up
+  status: WebhookDeliveryStatus;
+  requestBody: string; // Exactly what was signed and sent
+  responseStatus?: number | null;
+  responseBody?: string | null; // Truncated
+  error?: string | null; // Network/CORS/timeout failures
+  durationMs?: number | null;
+  nextRetryAt?: string | null; // Set while an automatic retry is scheduled
+  replayOf?: string | null; // Delivery this was manually replayed from
+  createdAt: string;
+}
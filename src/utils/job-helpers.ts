@@ -1,5 +1,7 @@
 // Helper functions for job-related logic
 import type { Job } from '@/types/jobs';
+import { isDriverLegFinalStatus } from '@/lib/booking-state-machine';
+import type { RouteStop } from '@/lib/route-optimisation';
 
 /**
  * Check if a driver can access a job (for driver view)
@@ -57,42 +59,13 @@ export function canDriverEditJob(job: Job | null | undefined): boolean {
     return false;
   }
   
-  // Check if current status is a final driver status (non-editable) based on booking type
-  const bookingType = job.bookingType;
-  const jmlSubType = job.jmlSubType;
-  
-  // ITAD and Leaver: warehouse is final driver status
-  if ((!bookingType || bookingType === 'itad_collection' || (bookingType === 'jml' && jmlSubType === 'leaver')) && normalized === 'warehouse') {
-    return false;
-  }
-  
-  // New Starter: arrived is final driver status
-  if (bookingType === 'jml' && jmlSubType === 'new_starter' && normalized === 'arrived') {
-    return false;
-  }
-  
-  // Mover: warehouse is final driver status for first phase (old device collection)
-  // Drivers don't handle delivery phase for Mover (courier-based)
-  if (bookingType === 'jml' && jmlSubType === 'mover') {
-    if (normalized === 'warehouse') {
-      return false;
-    }
-  }
-  
-  // Breakfix: arrived is final driver status for first phase (replacement delivery)
-  // Then warehouse is final driver status for second phase (broken device collection)
-  if (bookingType === 'jml' && jmlSubType === 'breakfix') {
-    if (normalized === 'arrived' || normalized === 'warehouse') {
-      return false;
-    }
-  }
-  
-  return true;
+  // Final driver statuses (per booking flow) are read-only
+  return !isDriverLegFinalStatus(job, normalized);
 }
 
 /**
  * Check if a job status is the final driver status for a booking type
- * Final driver statuses:
+ * Final driver statuses (driver legs in lib/booking-state-machine.ts):
  * - ITAD/Leaver: warehouse
  * - New Starter: arrived
  * - Mover: warehouse (first phase) - delivery phase is courier-based
@@ -105,29 +78,15 @@ export function isDriverFinalStatus(job: Job | null | undefined, status: string)
   const normalizedStatus = normalizeStatusForCheck(status);
   const normalized = normalizedStatus;
   
-  const bookingType = job.bookingType;
-  const jmlSubType = job.jmlSubType;
-  
-  // ITAD and Leaver: warehouse is final driver status
-  if ((!bookingType || bookingType === 'itad_collection' || (bookingType === 'jml' && jmlSubType === 'leaver')) && normalized === 'warehouse') {
-    return true;
-  }
-  
-  // New Starter: arrived is final driver status
-  if (bookingType === 'jml' && jmlSubType === 'new_starter' && normalized === 'arrived') {
-    return true;
-  }
-  
-  // Mover: warehouse (first phase) is final driver status
-  // Drivers don't handle delivery phase for Mover (courier-based)
-  if (bookingType === 'jml' && jmlSubType === 'mover' && normalized === 'warehouse') {
-    return true;
-  }
-  
-  // Breakfix: arrived (first phase) or warehouse (second phase) are final driver statuses
-  if (bookingType === 'jml' && jmlSubType === 'breakfix' && (normalized === 'arrived' || normalized === 'warehouse')) {
-    return true;
+  return isDriverLegFinalStatus(job, normalized);
+}
+
+/**
+ * Route planning stop for a job's collection site, or null if the site has no coordinates
+ */
+export function getJobRouteStop(job: Job): RouteStop | null {
+  if (job.lat === undefined || job.lng === undefined) {
+    return null;
   }
-  
-  return false;
+  return { id: job.id, lat: job.lat, lng: job.lng, label: `${job.erpJobNumber} · ${job.siteName}` };
 }